@@ -6,6 +6,9 @@
  * - Visual regression tests (tests/e2e/visual/)
  * - Accessibility tests (tests/e2e/accessibility/)
  * - Performance tests (tests/e2e/performance/)
+ *
+ * The app under test runs agents on the claude-flow simulator
+ * (scripts/claude-flow-sim.js), so no network or real CLI is needed.
  */
 
 import { defineConfig, devices } from '@playwright/test';
@@ -139,6 +142,12 @@ export default defineConfig({
     command: 'npm run build && npm run preview',
     port: 4173,
     reuseExistingServer: !process.env.CI,
+    /* Agents run on the claude-flow simulator (CLAUDE_FLOW_SIM_SCENARIO picks the scenario) */
+    env: {
+      CLAUDE_FLOW_CLI: process.env.CLAUDE_FLOW_CLI || 'node scripts/claude-flow-sim.js',
+      CLAUDE_FLOW_SIM_STATE: 'test-results/claude-flow-sim/state.json',
+      CF_KANBAN_URL: 'http://localhost:4173',
+    },
   },
 
   /* Configure screenshot comparison */
@@ -0,0 +1,670 @@
+#!/usr/bin/env node
+/**
+ * Claude Flow CLI Simulator
+ *
+ * Stands in for `npx @claude-flow/cli` during offline development and
+ * tests. Implements the subset of commands the app uses:
+ *
+ *   swarm   init | status | terminate | add-agent | remove-agent | pause |
+ *           resume | health | broadcast
+ *   agent   spawn | list | status | stop | metrics | health | message
+ *   memory  list | retrieve | search | store | delete
+ *   hooks   route | metrics | intelligence (--status, pattern-search)
+ *
+ * Anything else exits with code 1, like a CLI that does not know the
+ * command. Swarms, agents and memory entries are kept in a JSON state file
+ * so they survive between invocations.
+ *
+ * Environment:
+ *   CLAUDE_FLOW_SIM_SCENARIO      success (default) | slow-agent |
+ *                                 agent-question | agent-fails
+ *   CLAUDE_FLOW_SIM_AGENT         Only apply the scenario to this agent type
+ *   CLAUDE_FLOW_SIM_STEP_MS       Delay between agent work steps (default 200)
+ *   CLAUDE_FLOW_SIM_SLOW_STEP_MS  Delay per step for slow-agent (default 10000)
+ *   CLAUDE_FLOW_SIM_STATE         State file (default: <tmpdir>/claude-flow-sim/state.json)
+ *   CF_KANBAN_URL                 App to report to (default: ORIGIN, else http://localhost:5173)
+ *
+ * Spawned agents report progress and ask questions through the app's agent
+ * API with the credential of their job (CF_KANBAN_AGENT_CREDENTIAL); without
+ * one they only print their output.
+ *
+ * Usage:
+ *   CLAUDE_FLOW_CLI="node scripts/claude-flow-sim.js" npm run dev
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+
+const VERSION = '3.0.0-sim';
+
+const SCENARIOS = ['success', 'slow-agent', 'agent-question', 'agent-fails'];
+
+/** Work an agent goes through; scenarios interrupt it after a given step */
+const AGENT_STEPS = ['Reading ticket context', 'Planning changes', 'Implementing changes', 'Running tests'];
+
+const SHORT_FLAGS = { '-t': 'type', '-n': 'name' };
+
+class SimulatorError extends Error {
+  constructor(message, exitCode = 1) {
+    super(message);
+    this.exitCode = exitCode;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Arguments and output
+// ---------------------------------------------------------------------------
+
+/**
+ * Split arguments into positionals and flags
+ *
+ * The app spawns the CLI through a shell, so values with spaces arrive as
+ * several words: a flag takes every word up to the next flag.
+ */
+function parseArgs(argv) {
+  const positionals = [];
+  const flags = {};
+  let current = null;
+
+  for (const arg of argv) {
+    if (/^--[a-zA-Z]/.test(arg) || SHORT_FLAGS[arg]) {
+      const [name, inline] = arg.startsWith('--') ? arg.slice(2).split(/=(.*)/s) : [SHORT_FLAGS[arg]];
+      current = name;
+      flags[current] = inline ?? true;
+    } else if (current) {
+      flags[current] = flags[current] === true ? arg : `${flags[current]} ${arg}`;
+    } else {
+      positionals.push(arg);
+    }
+  }
+
+  return { positionals, flags };
+}
+
+function flagString(flags, name) {
+  const value = flags[name];
+  return typeof value === 'string' ? value.replace(/^(["'])(.*)\1$/s, '$2') : undefined;
+}
+
+function flagNumber(flags, name, fallback) {
+  const value = Number(flagString(flags, name));
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function print(flags, data, text) {
+  if (flags.format === 'json') {
+    console.log(JSON.stringify(data, null, 2));
+  } else {
+    console.log(text ?? JSON.stringify(data, null, 2));
+  }
+}
+
+function info(message) {
+  console.log(`[INFO] ${message}`);
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+
+function statePath() {
+  return process.env.CLAUDE_FLOW_SIM_STATE || join(tmpdir(), 'claude-flow-sim', 'state.json');
+}
+
+function loadState() {
+  const empty = { counter: 0, swarms: {}, agents: {}, memory: {} };
+  const path = statePath();
+  if (!existsSync(path)) return empty;
+
+  try {
+    return { ...empty, ...JSON.parse(readFileSync(path, 'utf-8')) };
+  } catch {
+    return empty;
+  }
+}
+
+/** Write through a temporary file so concurrent readers never see half a file */
+function saveState(state) {
+  const path = statePath();
+  mkdirSync(dirname(path), { recursive: true });
+  const temp = `${path}.${process.pid}.tmp`;
+  writeFileSync(temp, JSON.stringify(state, null, 2));
+  renameSync(temp, path);
+}
+
+/** Update the state from a fresh read, so long-running agents do not overwrite others */
+function updateState(update) {
+  const state = loadState();
+  const result = update(state);
+  saveState(state);
+  return result;
+}
+
+function nextId(state, prefix) {
+  state.counter += 1;
+  return `${prefix}-${String(state.counter).padStart(4, '0')}`;
+}
+
+function now() {
+  return new Date().toISOString();
+}
+
+// ---------------------------------------------------------------------------
+// Reporting to the app
+// ---------------------------------------------------------------------------
+
+function appUrl() {
+  return (process.env.CF_KANBAN_URL || process.env.ORIGIN || 'http://localhost:5173').replace(/\/$/, '');
+}
+
+/**
+ * Call the app's agent API for the ticket of this job
+ * @returns The response body, or null when the job has no credential
+ */
+async function callApp(path, body) {
+  const credential = process.env.CF_KANBAN_AGENT_CREDENTIAL;
+  const ticketId = process.env.CF_KANBAN_TICKET_ID;
+  if (!credential || !ticketId) return null;
+
+  const response = await fetch(`${appUrl()}/api/tickets/${ticketId}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Agent-Credential': credential },
+    body: JSON.stringify(body)
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`${path} returned ${response.status}: ${result.error ?? result.message ?? 'no details'}`);
+  }
+  return result;
+}
+
+/** Progress reports are best effort: the agent keeps working without the app */
+async function reportProgress(message, level = 'info') {
+  try {
+    await callApp('/progress', { message, level });
+  } catch (error) {
+    console.error(`[WARN] Could not report progress: ${error.message}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// swarm
+// ---------------------------------------------------------------------------
+
+function findSwarm(state, id) {
+  const swarm = id
+    ? state.swarms[id]
+    : Object.values(state.swarms)
+        .filter((s) => s.status !== 'terminated')
+        .pop();
+  if (!swarm) throw new SimulatorError(id ? `Swarm ${id} not found` : 'No active swarm');
+  return swarm;
+}
+
+/** Agent statuses a swarm reports as they are; the rest count as idle */
+const SWARM_AGENT_STATUSES = ['working', 'blocked', 'error'];
+
+function swarmStatus(swarm, state) {
+  const { agentIds, ...status } = swarm;
+  const agents = agentIds.map((id) => state.agents[id]).filter(Boolean);
+  return {
+    ...status,
+    agents: agents.map((agent) => ({
+      id: agent.id,
+      type: agent.type,
+      name: agent.name,
+      status: SWARM_AGENT_STATUSES.includes(agent.status) ? agent.status : 'idle',
+      role: agent.role
+    })),
+    activeTasks: agents.filter((a) => a.status === 'working').length,
+    completedTasks: agents.reduce((sum, a) => sum + a.tasksCompleted, 0)
+  };
+}
+
+async function swarmCommand([sub, id], flags) {
+  switch (sub) {
+    case 'init': {
+      const swarm = updateState((state) => {
+        const created = {
+          id: nextId(state, 'swarm'),
+          topology: flagString(flags, 'topology') ?? 'hierarchical',
+          maxAgents: flagNumber(flags, 'max-agents', 8),
+          agentIds: [],
+          createdAt: now(),
+          status: 'active',
+          projectId: flagString(flags, 'project'),
+          ticketId: flagString(flags, 'ticket'),
+          health: 1
+        };
+        state.swarms[created.id] = created;
+        return swarmStatus(created, state);
+      });
+      print(flags, swarm, `[INFO] Swarm ${swarm.id} initialized (${swarm.topology}, max ${swarm.maxAgents} agents)`);
+      return;
+    }
+    case 'status': {
+      const state = loadState();
+      const swarm = swarmStatus(findSwarm(state, id), state);
+      print(flags, swarm, `Swarm ${swarm.id}: ${swarm.status}, ${swarm.agents.length} agents`);
+      return;
+    }
+    case 'health': {
+      const state = loadState();
+      const swarm = swarmStatus(findSwarm(state, id), state);
+      const unhealthy = swarm.agents.filter((a) => a.status === 'error');
+      const health = {
+        healthy: unhealthy.length === 0 && swarm.status === 'active',
+        score: swarm.agents.length ? 1 - unhealthy.length / swarm.agents.length : 1,
+        healthyAgents: swarm.agents.length - unhealthy.length,
+        totalAgents: swarm.agents.length,
+        issues: unhealthy.map((a) => `Agent ${a.name} failed`),
+        checkedAt: now()
+      };
+      print(flags, health, `Swarm ${swarm.id} health: ${Math.round(health.score * 100)}%`);
+      return;
+    }
+    case 'terminate':
+    case 'pause':
+    case 'resume': {
+      const status = { terminate: 'terminated', pause: 'paused', resume: 'active' }[sub];
+      const swarm = updateState((state) => {
+        const target = findSwarm(state, id);
+        target.status = status;
+        return target;
+      });
+      print(flags, { success: true, id: swarm.id, status }, `[INFO] Swarm ${swarm.id} ${status}`);
+      return;
+    }
+    case 'add-agent':
+    case 'remove-agent': {
+      if (!id) throw new SimulatorError(`Usage: swarm ${sub} <agentId>`);
+      updateState((state) => {
+        const swarm = findSwarm(state);
+        swarm.agentIds = swarm.agentIds.filter((agentId) => agentId !== id);
+        if (sub === 'add-agent') {
+          swarm.agentIds.push(id);
+          if (state.agents[id]) state.agents[id].role = flagString(flags, 'role');
+        }
+      });
+      print(flags, { success: true }, `[INFO] Agent ${id} ${sub === 'add-agent' ? 'added to' : 'removed from'} swarm`);
+      return;
+    }
+    case 'broadcast': {
+      const message = flagString(flags, 'message');
+      if (!message) throw new SimulatorError('Usage: swarm broadcast [swarmId] --message <text>');
+      print(flags, { success: true, delivered: true }, `[INFO] Broadcast: ${message}`);
+      return;
+    }
+    default:
+      throw new SimulatorError(`Unknown swarm command: ${sub ?? '(none)'}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// agent
+// ---------------------------------------------------------------------------
+
+function findAgent(state, id) {
+  const agent = state.agents[id] ?? Object.values(state.agents).find((a) => a.name === id);
+  if (!agent) throw new SimulatorError(`Agent ${id} not found`);
+  return agent;
+}
+
+function publicAgent(agent) {
+  return {
+    id: agent.id,
+    type: agent.type,
+    name: agent.name,
+    status: agent.status,
+    createdAt: agent.createdAt,
+    currentTask: agent.currentTask,
+    projectId: agent.projectId,
+    ticketId: agent.ticketId
+  };
+}
+
+function setAgent(id, changes) {
+  return updateState((state) => Object.assign(state.agents[id], changes));
+}
+
+function resolveScenario(agentType) {
+  const scenario = process.env.CLAUDE_FLOW_SIM_SCENARIO || 'success';
+  if (!SCENARIOS.includes(scenario)) {
+    throw new SimulatorError(`Unknown scenario "${scenario}". Use one of: ${SCENARIOS.join(', ')}`, 2);
+  }
+  const only = process.env.CLAUDE_FLOW_SIM_AGENT;
+  return only && only !== agentType ? 'success' : scenario;
+}
+
+/**
+ * Run a spawned agent through its work steps, as scripted by the scenario
+ */
+async function runAgent(agent, flags) {
+  const scenario = resolveScenario(agent.type);
+  const stepMs =
+    scenario === 'slow-agent'
+      ? Number(process.env.CLAUDE_FLOW_SIM_SLOW_STEP_MS || 10000)
+      : Number(process.env.CLAUDE_FLOW_SIM_STEP_MS || 200);
+
+  info(`Agent ${agent.name} (${agent.type}) started [scenario: ${scenario}]`);
+  await reportProgress(`${agent.name} started`);
+
+  for (const [index, step] of AGENT_STEPS.entries()) {
+    setAgent(agent.id, { currentTask: step });
+    info(`${agent.name}: ${step}...`);
+    await reportProgress(`${agent.name}: ${step}`);
+    await sleep(stepMs);
+
+    if (scenario === 'agent-question' && index === 1) {
+      const question = `${agent.name} needs a decision: should the change keep backwards compatibility?`;
+      try {
+        await callApp('/feedback', {
+          questions: [{ text: question, type: 'CHOICE', options: ['Keep compatibility', 'Break it'] }],
+          context: `Asked by the ${agent.type} agent while ${step.toLowerCase()}`
+        });
+      } catch (error) {
+        setAgent(agent.id, { status: 'error', currentTask: undefined });
+        throw new SimulatorError(`Agent ${agent.name} could not ask its question: ${error.message}`);
+      }
+      const blocked = setAgent(agent.id, { status: 'blocked' });
+      print(flags, publicAgent(blocked), `[INFO] Agent ${agent.name} is waiting for feedback: ${question}`);
+      return;
+    }
+
+    if (scenario === 'agent-fails' && index === 2) {
+      const failed = setAgent(agent.id, { status: 'error', tasksFailed: agent.tasksFailed + 1 });
+      await reportProgress(`${agent.name} failed: tests could not be made to pass`, 'error');
+      throw new SimulatorError(`Agent ${failed.name} failed: tests could not be made to pass`);
+    }
+  }
+
+  const done = setAgent(agent.id, {
+    status: 'idle',
+    currentTask: undefined,
+    tasksCompleted: agent.tasksCompleted + 1,
+    totalDuration: agent.totalDuration + AGENT_STEPS.length * stepMs,
+    lastActivity: now()
+  });
+  await reportProgress(`${agent.name} finished`);
+  print(flags, publicAgent(done), `[INFO] Agent ${done.name} completed ${AGENT_STEPS.length} steps`);
+}
+
+async function agentCommand([sub, id], flags) {
+  switch (sub) {
+    case 'spawn': {
+      const type = flagString(flags, 'type');
+      if (!type) throw new SimulatorError('Usage: agent spawn -t <type> --name <name>');
+      const agent = updateState((state) => {
+        const created = {
+          id: nextId(state, 'agent'),
+          type,
+          name: flagString(flags, 'name') ?? `${type}-${state.counter}`,
+          status: 'working',
+          createdAt: now(),
+          ticketId: process.env.CF_KANBAN_TICKET_ID,
+          model: flagString(flags, 'model'),
+          tasksCompleted: 0,
+          tasksFailed: 0,
+          totalDuration: 0
+        };
+        state.agents[created.id] = created;
+        const swarm = Object.values(state.swarms).filter((s) => s.status === 'active').pop();
+        swarm?.agentIds.push(created.id);
+        return created;
+      });
+      await runAgent(agent, flags);
+      return;
+    }
+    case 'list': {
+      const status = flagString(flags, 'status');
+      const type = flagString(flags, 'type');
+      const agents = Object.values(loadState().agents)
+        .filter((a) => flags['include-terminated'] || a.status !== 'stopped')
+        .filter((a) => !status || a.status === status)
+        .filter((a) => !type || a.type === type)
+        .map(publicAgent);
+      print(flags, agents, agents.map((a) => `${a.id}  ${a.type.padEnd(12)} ${a.status.padEnd(8)} ${a.name}`).join('\n') || 'No agents');
+      return;
+    }
+    case 'status': {
+      const agent = publicAgent(findAgent(loadState(), id));
+      print(flags, agent, `${agent.name}: ${agent.status}`);
+      return;
+    }
+    case 'stop': {
+      const agent = updateState((state) => Object.assign(findAgent(state, id), { status: 'stopped', currentTask: undefined }));
+      print(flags, { success: true, id: agent.id }, `[INFO] Agent ${agent.name} stopped`);
+      return;
+    }
+    case 'metrics': {
+      const agent = findAgent(loadState(), id);
+      const metrics = {
+        tasksCompleted: agent.tasksCompleted,
+        tasksFailed: agent.tasksFailed,
+        avgTaskDuration: agent.tasksCompleted ? Math.round(agent.totalDuration / agent.tasksCompleted) : 0,
+        lastActivity: agent.lastActivity
+      };
+      print(flags, metrics, `${agent.name}: ${metrics.tasksCompleted} completed, ${metrics.tasksFailed} failed`);
+      return;
+    }
+    case 'health': {
+      const agent = findAgent(loadState(), id);
+      const healthy = agent.status !== 'error';
+      const health = {
+        healthy,
+        score: healthy ? 1 : 0,
+        issues: healthy ? [] : [`Agent ${agent.name} failed`],
+        checkedAt: now()
+      };
+      print(flags, health, `${agent.name}: ${healthy ? 'healthy' : 'unhealthy'}`);
+      return;
+    }
+    case 'message': {
+      const agent = findAgent(loadState(), id);
+      print(flags, { success: true, delivered: true }, `[INFO] Message delivered to ${agent.name}`);
+      return;
+    }
+    default:
+      throw new SimulatorError(`Unknown agent command: ${sub ?? '(none)'}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// memory
+// ---------------------------------------------------------------------------
+
+function memoryEntries(state, namespace) {
+  return Object.values(state.memory)
+    .filter((e) => !e.expiresAt || Date.parse(e.expiresAt) > Date.now())
+    .filter((e) => !namespace || e.namespace === namespace);
+}
+
+/** Share of the query's words found in the entry */
+function similarity(query, entry) {
+  const words = query.toLowerCase().split(/\W+/).filter(Boolean);
+  if (words.length === 0) return 0;
+  const text = `${entry.key} ${entry.value} ${(entry.tags ?? []).join(' ')}`.toLowerCase();
+  return words.filter((word) => text.includes(word)).length / words.length;
+}
+
+function searchMemory(state, query, { namespace, limit, threshold }) {
+  return memoryEntries(state, namespace)
+    .map((entry) => ({ ...entry, similarity: similarity(query, entry) }))
+    .filter((entry) => entry.similarity > 0 && entry.similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity || a.key.localeCompare(b.key))
+    .slice(0, limit);
+}
+
+const memoryId = (namespace, key) => `${namespace}:${key}`;
+
+async function memoryCommand([sub], flags) {
+  const namespace = flagString(flags, 'namespace');
+  const key = flagString(flags, 'key');
+
+  switch (sub) {
+    case 'list': {
+      const state = loadState();
+      const entries = memoryEntries(state, namespace).slice(0, flagNumber(flags, 'limit', Infinity));
+      const namespaces = Object.values(
+        memoryEntries(state).reduce((acc, entry) => {
+          const ns = (acc[entry.namespace] ??= { name: entry.namespace, entryCount: 0, lastUpdated: entry.updatedAt });
+          ns.entryCount += 1;
+          if (entry.updatedAt > ns.lastUpdated) ns.lastUpdated = entry.updatedAt;
+          return acc;
+        }, {})
+      );
+      print(
+        flags,
+        namespace ? { entries } : { namespaces, entries },
+        entries.map((e) => `${e.namespace}/${e.key}: ${e.value}`).join('\n') || 'Memory is empty'
+      );
+      return;
+    }
+    case 'retrieve': {
+      if (!key) throw new SimulatorError('Usage: memory retrieve --key <key> [--namespace <ns>]');
+      const entry = loadState().memory[memoryId(namespace ?? 'default', key)];
+      if (!entry) throw new SimulatorError(`Entry ${key} not found`);
+      // Both the wrapped and the flat response format are read by the app
+      print(flags, { ...entry, entry }, entry.value);
+      return;
+    }
+    case 'search': {
+      const query = flagString(flags, 'query');
+      if (!query) throw new SimulatorError('Usage: memory search --query <text>');
+      const entries = searchMemory(loadState(), query, {
+        namespace,
+        limit: flagNumber(flags, 'limit', 10),
+        threshold: flagNumber(flags, 'threshold', 0)
+      });
+      print(flags, { entries, query, totalFound: entries.length }, entries.map((e) => `${e.key} (${e.similarity.toFixed(2)})`).join('\n') || 'No results');
+      return;
+    }
+    case 'store': {
+      const value = flagString(flags, 'value');
+      if (!key || value === undefined) throw new SimulatorError('Usage: memory store --key <key> --value <value>');
+      const ttl = flagNumber(flags, 'ttl', 0);
+      const entry = updateState((state) => {
+        const ns = namespace ?? 'default';
+        const existing = state.memory[memoryId(ns, key)];
+        const stored = {
+          key,
+          value,
+          namespace: ns,
+          tags: flagString(flags, 'tags')?.split(',').filter(Boolean),
+          createdAt: existing?.createdAt ?? now(),
+          updatedAt: now(),
+          expiresAt: ttl > 0 ? new Date(Date.now() + ttl * 1000).toISOString() : undefined
+        };
+        state.memory[memoryId(ns, key)] = stored;
+        return stored;
+      });
+      print(flags, { success: true, entry }, `[INFO] Stored ${entry.namespace}/${key}`);
+      return;
+    }
+    case 'delete': {
+      if (!key) throw new SimulatorError('Usage: memory delete --key <key> [--namespace <ns>]');
+      const deleted = updateState((state) => delete state.memory[memoryId(namespace ?? 'default', key)]);
+      print(flags, { success: deleted }, `[INFO] Deleted ${key}`);
+      return;
+    }
+    default:
+      throw new SimulatorError(`Unknown memory command: ${sub ?? '(none)'}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// hooks
+// ---------------------------------------------------------------------------
+
+/** Agent types suggested for a task, by keywords in its description */
+const ROUTES = [
+  { pattern: /test|spec|coverage/i, agent: 'tester' },
+  { pattern: /security|auth|vulnerab/i, agent: 'security-auditor' },
+  { pattern: /doc|readme|api reference/i, agent: 'api-docs' },
+  { pattern: /slow|perf|optimi[sz]/i, agent: 'performance-engineer' },
+  { pattern: /design|architect|refactor/i, agent: 'architect' }
+];
+
+async function hooksCommand([sub, action], flags) {
+  switch (sub) {
+    case 'route': {
+      const task = flagString(flags, 'task');
+      if (!task) throw new SimulatorError('Usage: hooks route --task <description>');
+      const matched = ROUTES.filter((route) => route.pattern.test(task)).map((route) => route.agent);
+      const agents = ['coder', ...matched];
+      const result = { task, recommended: agents[agents.length - 1], agents, confidence: matched.length ? 0.8 : 0.6 };
+      print(flags, result, `[INFO] Routed task to: ${agents.join(', ')}`);
+      return;
+    }
+    case 'metrics': {
+      const byType = {};
+      for (const agent of Object.values(loadState().agents)) {
+        const metrics = (byType[agent.type] ??= { agentTypeId: agent.type, tasksCompleted: 0, failed: 0, duration: 0, usageCount: 0 });
+        metrics.tasksCompleted += agent.tasksCompleted;
+        metrics.failed += agent.tasksFailed;
+        metrics.duration += agent.totalDuration;
+        metrics.usageCount += 1;
+        if (!metrics.lastUsed || agent.createdAt > metrics.lastUsed) metrics.lastUsed = agent.createdAt;
+      }
+      const metrics = Object.values(byType).map(({ failed, duration, ...m }) => ({
+        ...m,
+        successRate: m.tasksCompleted + failed ? Math.round((m.tasksCompleted / (m.tasksCompleted + failed)) * 100) : 0,
+        avgCompletionTime: m.tasksCompleted ? Math.round(duration / m.tasksCompleted) : 0
+      }));
+      print(flags, { metrics }, metrics.map((m) => `${m.agentTypeId}: ${m.tasksCompleted} tasks, ${m.successRate}%`).join('\n') || 'No metrics');
+      return;
+    }
+    case 'intelligence': {
+      if (flags.status) {
+        const total = memoryEntries(loadState()).length;
+        const status = { sona: false, moe: false, hnsw: false, ewc: false, patterns: { total, indexed: 0 }, performance: { avgQueryTime: 0 } };
+        print(flags, status, `Intelligence: simulator (${total} patterns, none indexed)`);
+        return;
+      }
+      if (action === 'pattern-search') {
+        const query = flagString(flags, 'query');
+        if (!query) throw new SimulatorError('Usage: hooks intelligence pattern-search --query <text>');
+        const patterns = searchMemory(loadState(), query, {
+          limit: flagNumber(flags, 'topK', 10),
+          threshold: flagNumber(flags, 'minConfidence', 0)
+        });
+        print(flags, { patterns, indexed: false, totalFound: patterns.length }, patterns.map((p) => p.key).join('\n') || 'No patterns');
+        return;
+      }
+      throw new SimulatorError(`Unsupported intelligence command: ${action ?? '(none)'}`);
+    }
+    default:
+      throw new SimulatorError(`Unknown hooks command: ${sub ?? '(none)'}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+const COMMANDS = { swarm: swarmCommand, agent: agentCommand, memory: memoryCommand, hooks: hooksCommand };
+
+async function main(argv) {
+  const [command, ...rest] = argv;
+
+  if (command === '--version' || command === 'version') {
+    console.log(`claude-flow ${VERSION} (simulator)`);
+    return;
+  }
+
+  const handler = COMMANDS[command];
+  if (!handler) {
+    throw new SimulatorError(`Unknown command: ${command ?? '(none)'}. The simulator supports: ${Object.keys(COMMANDS).join(', ')}`);
+  }
+
+  const { positionals, flags } = parseArgs(rest);
+  await handler(positionals, flags);
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error(`[ERROR] ${error.message}`);
+  process.exit(error instanceof SimulatorError ? error.exitCode : 1);
+});
@@ -4,13 +4,20 @@
  * This script runs the Vite dev server alongside a Socket.IO server.
  * The Socket.IO server runs on port 3001 while Vite runs on its default port.
  *
+ * Vite runs in this process rather than as a child process, so the SvelteKit
+ * server code shares globalThis with the Socket.IO server: the membership
+ * checks, project event log and sync function it registers at startup
+ * (hooks.server.ts) are the ones the handlers below use, and its executor
+ * bridge emits through this server, as in server.js. They are registered
+ * when the app serves its first request.
+ *
  * Usage:
  *   npm run dev:socket
  */
 
 import { createServer } from 'http';
 import { Server } from 'socket.io';
-import { spawn } from 'child_process';
+import { createServer as createViteServer } from 'vite';
 
 const SOCKET_PORT = 3001;
 
@@ -28,10 +35,63 @@ const io = new Server(httpServer, {
   transports: ['websocket', 'polling']
 });
 
+// Expose the server to the SvelteKit code running in this process (see
+// getGlobalIO) so the executor bridge can stream job output to ticket rooms
+globalThis.socketIO = io;
+
 // Simple in-memory room tracking
 const rooms = new Map();
 let anonymousCounter = 0;
 
+// Soft edit locks: projectId -> Map(ticketId -> lock)
+const locks = new Map();
+
+function releaseLocks(projectId, socketId) {
+  const projectLocks = locks.get(projectId);
+  if (!projectLocks) return;
+
+  for (const [ticketId, lock] of projectLocks) {
+    if (lock.socketId === socketId) projectLocks.delete(ticketId);
+  }
+  if (projectLocks.size === 0) locks.delete(projectId);
+}
+
+function getPresence(projectId) {
+  const editing = new Map(
+    Array.from(locks.get(projectId)?.values() ?? []).map((lock) => [lock.socketId, lock.ticketId])
+  );
+
+  return Array.from(rooms.get(projectId)?.values() ?? []).map((u) => ({
+    socketId: u.socketId,
+    userId: u.userId,
+    userName: u.userName,
+    viewingTicketId: u.viewingTicketId ?? null,
+    editingTicketId: editing.get(u.socketId) ?? null
+  }));
+}
+
+function broadcastPresence(socket, projectId, includeSelf = true) {
+  const payload = { projectId, users: getPresence(projectId) };
+  socket.to(projectId).emit('presence:update', payload);
+  if (includeSelf) socket.emit('presence:update', payload);
+}
+
+// Number a relayed board change in the project's event log (kept on
+// globalThis by the SvelteKit bundle) and send it to the whole room, the
+// sender included, so boards can replay it after a reconnect
+async function recordRelayedEvent(socket, projectId, event) {
+  const log = globalThis.projectEventLog;
+  if (!log) return;
+
+  try {
+    const entry = await log.append(projectId, 'socket:relay', event);
+    socket.to(projectId).emit('project:event', entry);
+    socket.emit('project:event', entry);
+  } catch (error) {
+    console.error('[Socket.IO] Failed to record project event:', error?.message || error);
+  }
+}
+
 // Authentication middleware
 io.use((socket, next) => {
   const token = socket.handshake.auth?.token || socket.handshake.query?.token;
@@ -60,8 +120,27 @@ io.on('connection', (socket) => {
   console.log(`[Socket.IO] Connected: ${socket.id} (${socket.data.userName})`);
 
   // Project handlers
+  // Project rooms are limited to members of the project (the check is
+  // registered on globalThis by the SvelteKit bundle)
   socket.on('project:join', async (payload, callback) => {
     const { projectId } = payload;
+    const canJoin = globalThis.canJoinProject;
+
+    try {
+      if (!canJoin || !(await canJoin(socket.data, projectId))) {
+        callback?.({
+          success: false,
+          error: { code: 'FORBIDDEN', message: 'You are not a member of this project' }
+        });
+        return;
+      }
+    } catch (error) {
+      callback?.({
+        success: false,
+        error: { code: 'JOIN_FAILED', message: error?.message || 'Failed to join project' }
+      });
+      return;
+    }
 
     await socket.join(projectId);
     socket.data.currentProject = projectId;
@@ -84,6 +163,7 @@ io.on('connection', (socket) => {
       userId: socket.data.userId,
       userName: socket.data.userName
     });
+    broadcastPresence(socket, projectId);
 
     callback?.({ success: true, users });
   });
@@ -104,6 +184,8 @@ io.on('connection', (socket) => {
         rooms.delete(projectId);
       }
     }
+    releaseLocks(projectId, socket.id);
+    broadcastPresence(socket, projectId, false);
 
     if (socket.data.currentProject === projectId) {
       socket.data.currentProject = undefined;
@@ -111,7 +193,7 @@ io.on('connection', (socket) => {
   });
 
   // Ticket handlers
-  socket.on('ticket:move', (payload, callback) => {
+  socket.on('ticket:move', async (payload, callback) => {
     const { projectId } = payload;
 
     if (!rooms.has(projectId) || !rooms.get(projectId).has(socket.id)) {
@@ -122,11 +204,12 @@ io.on('connection', (socket) => {
       return;
     }
 
+    await recordRelayedEvent(socket, projectId, { type: 'ticket:moved', ...payload });
     socket.to(projectId).emit('ticket:moved', payload);
     callback?.({ success: true });
   });
 
-  socket.on('ticket:create', (payload, callback) => {
+  socket.on('ticket:create', async (payload, callback) => {
     const { projectId, ticket } = payload;
 
     if (!rooms.has(projectId) || !rooms.get(projectId).has(socket.id)) {
@@ -144,11 +227,12 @@ io.on('connection', (socket) => {
       updatedAt: new Date()
     };
 
+    await recordRelayedEvent(socket, projectId, { type: 'ticket:created', projectId, ticket: createdTicket });
     socket.to(projectId).emit('ticket:created', { projectId, ticket: createdTicket });
     callback?.({ success: true, ticket: createdTicket });
   });
 
-  socket.on('ticket:update', (payload, callback) => {
+  socket.on('ticket:update', async (payload, callback) => {
     const { projectId } = payload;
 
     if (!rooms.has(projectId) || !rooms.get(projectId).has(socket.id)) {
@@ -159,11 +243,12 @@ io.on('connection', (socket) => {
       return;
     }
 
+    await recordRelayedEvent(socket, projectId, { type: 'ticket:updated', ...payload });
     socket.to(projectId).emit('ticket:updated', payload);
     callback?.({ success: true });
   });
 
-  socket.on('ticket:delete', (payload, callback) => {
+  socket.on('ticket:delete', async (payload, callback) => {
     const { projectId } = payload;
 
     if (!rooms.has(projectId) || !rooms.get(projectId).has(socket.id)) {
@@ -174,10 +259,129 @@ io.on('connection', (socket) => {
       return;
     }
 
+    await recordRelayedEvent(socket, projectId, { type: 'ticket:deleted', ...payload });
     socket.to(projectId).emit('ticket:deleted', payload);
     callback?.({ success: true });
   });
 
+  // Ticket rooms carry live execution output for a single ticket
+  // Live agent output is limited to members of the ticket's project (the
+  // check is registered on globalThis by the SvelteKit bundle)
+  socket.on('ticket:subscribe', async (payload, callback) => {
+    const canSubscribe = globalThis.canSubscribeToTicket;
+    try {
+      if (!canSubscribe || !(await canSubscribe(socket.data, payload.ticketId))) {
+        callback?.({
+          success: false,
+          error: { code: 'FORBIDDEN', message: 'You are not a member of this project' }
+        });
+        return;
+      }
+
+      await socket.join(`ticket:${payload.ticketId}`);
+      callback?.({ success: true });
+    } catch (error) {
+      callback?.({
+        success: false,
+        error: { code: 'SUBSCRIBE_FAILED', message: error?.message || 'Failed to subscribe to ticket' }
+      });
+    }
+  });
+
+  socket.on('ticket:unsubscribe', async (payload) => {
+    await socket.leave(`ticket:${payload.ticketId}`);
+  });
+
+  // Presence and soft edit locks
+  socket.on('presence:view', (payload) => {
+    const user = rooms.get(payload.projectId)?.get(socket.id);
+    if (!user) return;
+
+    user.viewingTicketId = payload.ticketId;
+    broadcastPresence(socket, payload.projectId);
+  });
+
+  socket.on('ticket:lock', (payload, callback) => {
+    const { projectId, ticketId } = payload;
+    const user = rooms.get(projectId)?.get(socket.id);
+
+    if (!user) {
+      callback?.({
+        success: false,
+        error: { code: 'NOT_IN_PROJECT', message: 'You must join the project first' }
+      });
+      return;
+    }
+
+    const existing = locks.get(projectId)?.get(ticketId);
+    if (existing && existing.socketId !== socket.id) {
+      callback?.({
+        success: false,
+        lock: existing,
+        error: {
+          code: 'TICKET_LOCKED',
+          message: `${existing.userName || 'Another user'} is editing this ticket`
+        }
+      });
+      return;
+    }
+
+    releaseLocks(projectId, socket.id);
+    const lock = existing ?? {
+      ticketId,
+      socketId: socket.id,
+      userId: user.userId,
+      userName: user.userName,
+      acquiredAt: new Date().toISOString()
+    };
+    if (!locks.has(projectId)) {
+      locks.set(projectId, new Map());
+    }
+    locks.get(projectId).set(ticketId, lock);
+
+    broadcastPresence(socket, projectId);
+    callback?.({ success: true, lock });
+  });
+
+  socket.on('ticket:unlock', (payload) => {
+    const { projectId, ticketId } = payload;
+    if (locks.get(projectId)?.get(ticketId)?.socketId !== socket.id) return;
+
+    releaseLocks(projectId, socket.id);
+    broadcastPresence(socket, projectId);
+  });
+
+  // Missed event replay (sync function registered by the SvelteKit server)
+  socket.on('project:sync', async (payload, callback) => {
+    const { projectId, lastSeq } = payload;
+
+    if (!rooms.has(projectId) || !rooms.get(projectId).has(socket.id)) {
+      callback?.({
+        success: false,
+        error: { code: 'NOT_IN_PROJECT', message: 'You must join the project before syncing it' }
+      });
+      return;
+    }
+
+    const sync = globalThis.projectSync;
+    if (!sync) {
+      callback?.({
+        success: false,
+        error: { code: 'SYNC_UNAVAILABLE', message: 'Event replay is not available' }
+      });
+      return;
+    }
+
+    try {
+      callback?.(await sync(projectId, typeof lastSeq === 'number' ? lastSeq : 0, socket.data));
+    } catch (error) {
+      callback?.({
+        success: false,
+        error: { code: 'SYNC_FAILED', message: error?.message || 'Failed to sync project' }
+      });
+    }
+  });
+
   // Handle disconnect
   socket.on('disconnect', (reason) => {
     console.log(`[Socket.IO] Disconnected: ${socket.id} (${reason})`);
@@ -192,6 +396,8 @@ io.on('connection', (socket) => {
         if (roomUsers.size === 0) {
           rooms.delete(projectId);
         }
+        releaseLocks(projectId, socket.id);
+        broadcastPresence(socket, projectId, false);
       }
     }
   });
@@ -202,21 +408,15 @@ httpServer.listen(SOCKET_PORT, () => {
   console.log(`[Socket.IO] WebSocket server running on http://localhost:${SOCKET_PORT}`);
 });
 
-// Start Vite dev server as a child process
-const vite = spawn('npm', ['run', 'dev'], {
-  stdio: 'inherit',
-  shell: true
-});
-
-vite.on('close', (code) => {
-  console.log(`[Vite] Process exited with code ${code}`);
-  process.exit(code);
-});
+// Start the Vite dev server in this process
+const vite = await createViteServer();
+await vite.listen();
+vite.printUrls();
 
 // Handle process termination
-process.on('SIGINT', () => {
+process.on('SIGINT', async () => {
   console.log('\n[Server] Shutting down...');
-  vite.kill('SIGINT');
+  await vite.close();
   httpServer.close();
   process.exit(0);
 });
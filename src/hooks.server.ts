@@ -6,28 +6,72 @@
  */
 
 import { handle as authHandle } from '$lib/server/auth';
+import { authenticateBearer, getBearerToken } from '$lib/server/auth/route-guards';
+import { authorizeApiRequest } from '$lib/server/auth/api-authorization';
+import { jobCredentialEnv } from '$lib/server/auth/agent-credentials';
 import { sequence } from '@sveltejs/kit/hooks';
-import type { Handle } from '@sveltejs/kit';
+import { isHttpError, type Handle, type ServerInit } from '@sveltejs/kit';
+import type { Session } from '@auth/core/types';
+import type { Ticket } from '$lib/types';
 import { prisma } from '$lib/server/prisma';
+import { recoverExecutionJobs } from '$lib/server/workflow/job-recovery';
+import { rulesEngine } from '$lib/server/workflow/rules-engine';
+import { commandExecutor, ExecutorWebSocketBridge } from '$lib/server/claude-flow/executor';
+import { executionLog } from '$lib/server/claude-flow/output-log';
+import { emitFromServer } from '$lib/server/socket/server';
+import { registerProjectSnapshotLoader } from '$lib/server/socket/sync';
+import { registerProjectAccessCheck, registerTicketAccessCheck } from '$lib/server/socket/auth';
+import { isProjectMember } from '$lib/server/auth/user-service';
 
 /**
- * Protected route patterns
- * Routes matching these patterns require authentication
+ * Server startup
+ * Hands execution jobs their agent credential when they start,
+ * restores queued/in-flight executor jobs persisted before a restart,
+ * starts streaming and persisting job output to ticket rooms,
+ * starts the sweep for time-based automation rules, lets boards that
+ * missed too many events while disconnected fetch a full snapshot, and
+ * limits project rooms and live ticket output to the project's members
  */
-const PROTECTED_ROUTES = [
-  '/projects',
-  '/api/projects',
-  '/api/tickets',
-  '/api/memory',
-  '/learning',
-  '/admin'
-];
+export const init: ServerInit = async () => {
+  commandExecutor.setJobEnvProvider(jobCredentialEnv);
+  executionLog.attach(commandExecutor);
+  new ExecutorWebSocketBridge(commandExecutor, emitFromServer);
+  registerProjectSnapshotLoader(async (projectId) => ({
+    tickets: (await prisma.ticket.findMany({
+      where: { projectId },
+      orderBy: { position: 'asc' }
+    })) as unknown as Ticket[]
+  }));
+  registerProjectAccessCheck(isProjectMember);
+  registerTicketAccessCheck(async (userId, ticketId) => {
+    const ticket: { projectId: string } | null = await prisma.ticket.findUnique({
+      where: { id: ticketId },
+      select: { projectId: true }
+    });
+    return ticket !== null && (await isProjectMember(userId, ticket.projectId));
+  });
+
+  try {
+    await recoverExecutionJobs();
+  } catch (error) {
+    console.error('[Init] Failed to recover execution jobs:', error);
+  }
+
+  rulesEngine.startScheduler();
+};
+
+/**
+ * Protected page patterns
+ * Pages matching these patterns require authentication
+ * (API routes are authorized by their access policy)
+ */
+const PROTECTED_ROUTES = ['/projects', '/learning', '/admin'];
 
 /**
- * Public route patterns
- * Routes matching these patterns are always accessible
+ * Public page patterns
+ * Pages matching these patterns are always accessible
  */
-const PUBLIC_ROUTES = ['/auth', '/api/health', '/', '/projects', '/api/projects', '/api/tickets'];
+const PUBLIC_ROUTES = ['/auth', '/', '/projects'];
 
 /**
  * Check if a path matches any pattern in the list
@@ -41,13 +85,67 @@ function matchesPattern(path: string, patterns: string[]): boolean {
   });
 }
 
+/**
+ * API token middleware
+ * Requests to /api/* with an `Authorization: Bearer` token act as the
+ * token's user: the session from locals.auth() is the token's. Scopes are
+ * checked by the route guards.
+ */
+const apiTokenHandle: Handle = async ({ event, resolve }) => {
+  if (!event.url.pathname.startsWith('/api/') || !getBearerToken(event.request)) {
+    return resolve(event);
+  }
+
+  try {
+    const session = await authenticateBearer(event);
+    event.locals.auth = async () => session as unknown as Session;
+  } catch {
+    return new Response(JSON.stringify({ error: 'Invalid or expired API token' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  return resolve(event);
+};
+
+/**
+ * API authorization middleware
+ * Checks every /api/* request against its route's access policy
+ * (see API_ROUTE_POLICIES) before the handler runs
+ */
+const apiAuthorizationHandle: Handle = async ({ event, resolve }) => {
+  if (!event.url.pathname.startsWith('/api/')) {
+    return resolve(event);
+  }
+
+  try {
+    await authorizeApiRequest(event);
+  } catch (err) {
+    if (!isHttpError(err)) {
+      throw err;
+    }
+    return new Response(JSON.stringify({ error: err.body.message }), {
+      status: err.status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  return resolve(event);
+};
+
 /**
  * Authorization middleware
- * Checks if user is authenticated for protected routes
+ * Checks if user is authenticated for protected pages
  */
 const authorizationHandle: Handle = async ({ event, resolve }) => {
   const path = event.url.pathname;
 
+  // API routes are checked by apiAuthorizationHandle
+  if (path.startsWith('/api/')) {
+    return resolve(event);
+  }
+
   // Skip auth check for public routes
   if (matchesPattern(path, PUBLIC_ROUTES)) {
     return resolve(event);
@@ -112,6 +210,13 @@ const loggingHandle: Handle = async ({ event, resolve }) => {
 
 /**
  * Combined hooks
- * Auth.js handle must come first to populate event.locals.auth
+ * Auth.js handle must come first to populate event.locals.auth,
+ * which API tokens then replace
  */
-export const handle = sequence(authHandle, authorizationHandle, loggingHandle);
+export const handle = sequence(
+  authHandle,
+  apiTokenHandle,
+  apiAuthorizationHandle,
+  authorizationHandle,
+  loggingHandle
+);
@@ -6,3 +6,5 @@
 
 export { default as AuthGuard } from './AuthGuard.svelte';
 export { default as UserMenu } from './UserMenu.svelte';
+export { default as ApiTokenList } from './ApiTokenList.svelte';
+export { default as ServiceAccountManager } from './ServiceAccountManager.svelte';
@@ -488,6 +488,14 @@ export const NAVIGATION_DATA: CommandItem[] = [
 	}
 ];
 
+/**
+ * Focus the ticket filter of the open board (no-op on other pages)
+ */
+export function focusTicketFilter(): void {
+	if (typeof document === 'undefined') return;
+	document.querySelector<HTMLInputElement>('[data-ticket-filter]')?.focus();
+}
+
 /**
  * Quick actions
  */
@@ -545,6 +553,16 @@ export const ACTIONS_DATA: CommandItem[] = [
 		keywords: ['create', 'ticket', 'new', 'task', 'add'],
 		icon: 'Plus',
 		category: 'Ticket Actions'
+	},
+	{
+		id: 'action-filter-tickets',
+		type: 'action',
+		name: 'Filter Tickets',
+		description: 'Filter the board with a query, e.g. status:TODO assignee:me',
+		keywords: ['filter', 'query', 'search', 'tickets', 'saved', 'find'],
+		icon: 'Filter',
+		category: 'Ticket Actions',
+		action: focusTicketFilter
 	}
 ];
 
@@ -30,3 +30,24 @@ export { default as AIStatusSection } from './AIStatusSection.svelte';
 // GAP-3.2.5: Ticket Attachment Support
 export { default as FileDropZone } from './FileDropZone.svelte';
 export { default as AttachmentsList } from './AttachmentsList.svelte';
+
+// Dependency plan (critical path / slack)
+export { default as DependencyGantt } from './DependencyGantt.svelte';
+
+// Change set review for REVIEW tickets
+export { default as TicketChangeSetReview } from './TicketChangeSetReview.svelte';
+
+// Ticket comments and @mentions
+export { default as TicketComments } from './TicketComments.svelte';
+
+// Epics and their sub-tasks
+export { default as TicketSubtasks } from './TicketSubtasks.svelte';
+
+// Who is viewing or editing the board and its tickets
+export { default as PresenceAvatars } from './PresenceAvatars.svelte';
+
+// Offline changes that conflicted when replayed
+export { default as SyncConflictsPanel } from './SyncConflictsPanel.svelte';
+
+// Ticket query and saved filters of the board
+export { default as TicketFilterBar } from './TicketFilterBar.svelte';
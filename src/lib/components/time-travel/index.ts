@@ -9,3 +9,4 @@ export { default as Timeline } from './Timeline.svelte';
 export { default as SnapshotViewer } from './SnapshotViewer.svelte';
 export { default as DecisionAnnotation } from './DecisionAnnotation.svelte';
 export { default as PlaybackControls } from './PlaybackControls.svelte';
+export { default as BoardTimeSlider } from './BoardTimeSlider.svelte';
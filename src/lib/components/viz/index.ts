@@ -15,6 +15,7 @@ export { default as D3Container } from './D3Container.svelte';
 export { default as LineChart } from './LineChart.svelte';
 export { default as BarChart } from './BarChart.svelte';
 export { default as AreaChart } from './AreaChart.svelte';
+export { default as ScatterChart } from './ScatterChart.svelte';
 
 // Force Graph
 export { default as ForceGraph } from './ForceGraph.svelte';
@@ -49,6 +49,15 @@ export interface ChartSeries {
 	data: ChartDataPoint[];
 }
 
+/**
+ * Horizontal marker line across a chart (e.g. a percentile)
+ */
+export interface ChartReferenceLine {
+	label: string;
+	value: number;
+	color?: string;
+}
+
 /**
  * Bar chart data item
  */
@@ -0,0 +1,7 @@
+/**
+ * Workflow Components
+ *
+ * Per-project workflow configuration (board columns and transitions).
+ */
+
+export { default as WorkflowEditor } from './WorkflowEditor.svelte';
@@ -12,5 +12,6 @@ export { auditService, AuditService } from './audit-service';
 export type { AuditLogRequest } from './audit-service';
 export {
   DEFAULT_PROJECT_SETTINGS,
-  DEFAULT_CLAUDE_FLOW_SETTINGS
+  DEFAULT_CLAUDE_FLOW_SETTINGS,
+  DEFAULT_LLM_SETTINGS
 } from './settings-service';
@@ -12,6 +12,7 @@ import type {
   DefaultProjectSettings,
   ClaudeFlowSettings,
   LearningConfig,
+  LLMSettings,
   SettingsCategory
 } from '$lib/types/admin';
 import { DEFAULT_LEARNING_CONFIG } from '$lib/types/admin';
@@ -41,6 +42,16 @@ export const DEFAULT_CLAUDE_FLOW_SETTINGS: ClaudeFlowSettings = {
   memoryBackend: 'hybrid'
 };
 
+/**
+ * Default values for language model settings
+ */
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  provider: 'anthropic',
+  model: null,
+  baseUrl: null,
+  projects: {}
+};
+
 export class SettingsService {
   /**
    * Get all settings, optionally filtered by category
@@ -274,6 +285,39 @@ export class SettingsService {
     return updated;
   }
 
+  /**
+   * Get language model settings
+   */
+  async getLLMSettings(): Promise<LLMSettings> {
+    const settings = await this.getSettingValue<Partial<LLMSettings>>('llm.config', DEFAULT_LLM_SETTINGS);
+    return { ...DEFAULT_LLM_SETTINGS, ...settings };
+  }
+
+  /**
+   * Update language model settings
+   */
+  async updateLLMSettings(
+    settings: Partial<LLMSettings>,
+    updaterId: string,
+    requestInfo?: { ipAddress?: string; userAgent?: string }
+  ): Promise<LLMSettings> {
+    const current = await this.getLLMSettings();
+    const updated = { ...current, ...settings };
+
+    await this.updateSetting(
+      {
+        key: 'llm.config',
+        value: updated,
+        description: 'Language model provider and model, per project',
+        category: 'llm'
+      },
+      updaterId,
+      requestInfo
+    );
+
+    return updated;
+  }
+
   /**
    * Get settings by category for admin UI
    */
@@ -0,0 +1,139 @@
+/**
+ * Project Dependency Graph
+ *
+ * Builds the dependency graph of a project's tickets with time
+ * estimates from time-estimation.ts, for release planning:
+ * - Topological order
+ * - Critical path and slack per ticket
+ * - Cycle validation for dependency updates
+ */
+
+import { prisma } from '../prisma';
+import type { TicketInput } from './ticket-analyzer';
+import { estimateTicketHours } from './time-estimation';
+import {
+  analyzeDependencyGraph,
+  findCycleWithDependencies,
+  DependencyCycleError,
+  type ScheduledNode
+} from '$lib/utils/dependency-graph';
+
+/** Statuses with no remaining work */
+const FINISHED_STATUSES = ['DONE', 'CANCELLED'];
+
+/**
+ * A ticket in the project dependency graph
+ */
+export interface DependencyGraphTicket extends ScheduledNode {
+  title: string;
+  status: string;
+  priority: string;
+  dependencyIds: string[];
+  /** Estimated total effort in hours */
+  estimatedHours: number;
+}
+
+/**
+ * Dependency graph of a project
+ */
+export interface ProjectDependencyGraph {
+  /** Ticket IDs with every ticket after its dependencies */
+  order: string[];
+  /** Longest chain of dependent tickets, first to last */
+  criticalPath: string[];
+  /** Remaining hours until every ticket is done, if worked in parallel */
+  totalHours: number;
+  tickets: DependencyGraphTicket[];
+}
+
+/**
+ * Ticket fields loaded to build the graph
+ */
+interface GraphSourceTicket {
+  id: string;
+  title: string;
+  description: string | null;
+  status: string;
+  priority: NonNullable<TicketInput['priority']>;
+  labels: string[];
+  complexity: number | null;
+  dependencyIds: string[];
+}
+
+/**
+ * Build the dependency graph for a project
+ *
+ * @throws DependencyCycleError if stored dependencies form a cycle
+ */
+export async function buildProjectDependencyGraph(projectId: string): Promise<ProjectDependencyGraph> {
+  const tickets: GraphSourceTicket[] = await prisma.ticket.findMany({
+    where: { projectId },
+    select: {
+      id: true,
+      title: true,
+      description: true,
+      status: true,
+      priority: true,
+      labels: true,
+      complexity: true,
+      dependencyIds: true
+    },
+    orderBy: { position: 'asc' }
+  });
+
+  const estimates = new Map<string, number>(
+    tickets.map((t) => [t.id, estimateTicketHours(t)])
+  );
+
+  const analysis = analyzeDependencyGraph(
+    tickets.map((t) => ({
+      id: t.id,
+      dependencyIds: t.dependencyIds ?? [],
+      durationHours: FINISHED_STATUSES.includes(t.status) ? 0 : estimates.get(t.id)!
+    }))
+  );
+
+  const byId = new Map(tickets.map((t) => [t.id, t]));
+
+  return {
+    order: analysis.order,
+    criticalPath: analysis.criticalPath,
+    totalHours: analysis.totalHours,
+    tickets: analysis.nodes.map((node) => {
+      const ticket = byId.get(node.id)!;
+      return {
+        ...node,
+        title: ticket.title,
+        status: ticket.status,
+        priority: ticket.priority,
+        dependencyIds: ticket.dependencyIds ?? [],
+        estimatedHours: estimates.get(node.id)!
+      };
+    })
+  };
+}
+
+/**
+ * Check that giving a ticket these dependencies would not create a cycle
+ *
+ * @throws DependencyCycleError with the offending cycle
+ */
+export async function assertNoDependencyCycle(
+  projectId: string,
+  ticketId: string,
+  dependencyIds: string[]
+): Promise<void> {
+  if (dependencyIds.includes(ticketId)) {
+    throw new DependencyCycleError([ticketId, ticketId]);
+  }
+
+  const tickets = await prisma.ticket.findMany({
+    where: { projectId },
+    select: { id: true, dependencyIds: true }
+  });
+
+  const cycle = findCycleWithDependencies(tickets, ticketId, dependencyIds);
+  if (cycle) {
+    throw new DependencyCycleError(cycle);
+  }
+}
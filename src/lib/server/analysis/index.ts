@@ -29,10 +29,12 @@ export {
 export {
   estimateCompletionTime,
   quickTimeEstimate,
+  estimateTicketHours,
   formatDuration,
   formatRange,
   timeEstimator,
-  type TimeEstimate
+  type TimeEstimate,
+  type EstimatableTicket
 } from './time-estimation';
 
 // Dependency Detection (TASK-049)
@@ -46,10 +48,19 @@ export {
   type DependencyResult
 } from './dependencies';
 
+// Ticket Decomposition
+export {
+  SPLIT_COMPLEXITY_THRESHOLD,
+  shouldSplitTicket,
+  suggestSubtasks,
+  type DecomposableTicket
+} from './ticket-decomposer';
+
 // NLP Parser (GAP-3.2.7)
 export {
   NLPParserService,
   nlpParser,
+  type LLMProviderResolver,
   type NLPParseResult,
   type TechnicalRequirement,
   type RoutingHint,
@@ -2,14 +2,14 @@
  * GAP-3.2.7: Natural Language Task Parsing
  *
  * LLM-powered NLP parsing service that:
- * - Analyzes ticket descriptions using Claude
+ * - Analyzes ticket descriptions using the project's language model
  * - Auto-suggests labels based on content
  * - Extracts technical requirements
  * - Identifies routing hints for agent assignment
  */
 
-import Anthropic from '@anthropic-ai/sdk';
-import { env } from '$env/dynamic/private';
+import { getLLMProvider, estimateCost, type LLMProvider } from '$lib/server/llm';
+import { trackLlmUsage } from '$lib/server/resources/usage';
 import type { TicketType, AgentType, Topology } from './ticket-analyzer';
 
 /**
@@ -85,48 +85,50 @@ const nlpCache = new Map<string, { result: NLPParseResult; timestamp: number }>(
 const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
 
 /**
- * NLP Parser Service using Claude for natural language understanding
+ * Resolves the language model for a project, or null when none is available
  */
-export class NLPParserService {
-	private client: Anthropic | null = null;
-	private isConfigured = false;
+export type LLMProviderResolver = (projectId?: string | null) => Promise<LLMProvider | null>;
 
-	constructor() {
-		this.initialize();
-	}
+/**
+ * NLP Parser Service using a language model for natural language understanding
+ */
+export class NLPParserService {
+	constructor(private readonly resolveProvider: LLMProviderResolver = getLLMProvider) {}
 
 	/**
-	 * Initialize the Anthropic client
+	 * Language model used for a project, or null in fallback mode
 	 */
-	private initialize(): void {
-		const apiKey = env.ANTHROPIC_API_KEY;
-		if (apiKey) {
-			try {
-				this.client = new Anthropic({ apiKey });
-				this.isConfigured = true;
-			} catch (error) {
-				console.warn('Failed to initialize Anthropic client:', error);
-				this.isConfigured = false;
-			}
-		} else {
-			console.warn('ANTHROPIC_API_KEY not configured - NLP parsing will use fallback mode');
-			this.isConfigured = false;
+	async getProvider(projectId?: string | null): Promise<LLMProvider | null> {
+		try {
+			return await this.resolveProvider(projectId);
+		} catch (error) {
+			console.warn('Failed to resolve language model - NLP parsing will use fallback mode:', error);
+			return null;
 		}
 	}
 
 	/**
 	 * Check if NLP parsing is available
 	 */
-	isAvailable(): boolean {
-		return this.isConfigured && this.client !== null;
+	async isAvailable(projectId?: string | null): Promise<boolean> {
+		return (await this.getProvider(projectId)) !== null;
 	}
 
 	/**
 	 * Parse ticket content using NLP
+	 *
+	 * Token usage is tracked against the project when one is given.
 	 */
-	async parse(title: string, description: string | null): Promise<NLPParseResult> {
+	async parse(title: string, description: string | null, projectId?: string | null): Promise<NLPParseResult> {
+		const provider = await this.getProvider(projectId);
+
+		// If no model is configured, return fallback result
+		if (!provider) {
+			return this.generateFallbackResult(title, description);
+		}
+
 		// Generate cache key
-		const cacheKey = this.generateCacheKey(title, description);
+		const cacheKey = this.generateCacheKey(`${provider.id}/${provider.model}`, title, description);
 
 		// Check cache
 		const cached = nlpCache.get(cacheKey);
@@ -134,13 +136,8 @@ export class NLPParserService {
 			return cached.result;
 		}
 
-		// If not configured, return fallback result
-		if (!this.isAvailable()) {
-			return this.generateFallbackResult(title, description);
-		}
-
 		try {
-			const result = await this.callClaudeAPI(title, description);
+			const result = await this.callModel(provider, title, description, projectId);
 
 			// Cache the result
 			nlpCache.set(cacheKey, { result, timestamp: Date.now() });
@@ -153,38 +150,39 @@ export class NLPParserService {
 	}
 
 	/**
-	 * Call Claude API for NLP analysis
+	 * Call the language model for NLP analysis
 	 */
-	private async callClaudeAPI(title: string, description: string | null): Promise<NLPParseResult> {
-		if (!this.client) {
-			throw new Error('Anthropic client not initialized');
-		}
-
-		const prompt = this.buildPrompt(title, description);
-
-		const response = await this.client.messages.create({
-			model: 'claude-sonnet-4-20250514',
-			max_tokens: 2048,
-			messages: [
-				{
-					role: 'user',
-					content: prompt
-				}
-			]
+	private async callModel(
+		provider: LLMProvider,
+		title: string,
+		description: string | null,
+		projectId?: string | null
+	): Promise<NLPParseResult> {
+		const completion = await provider.complete({
+			prompt: this.buildPrompt(title, description),
+			maxTokens: 2048
 		});
 
-		// Extract text content from response
-		const textContent = response.content.find((c) => c.type === 'text');
-		if (!textContent || textContent.type !== 'text') {
-			throw new Error('No text response from Claude');
+		if (projectId) {
+			try {
+				await trackLlmUsage(projectId, {
+					provider: provider.id,
+					model: completion.model,
+					inputTokens: completion.usage.inputTokens,
+					outputTokens: completion.usage.outputTokens,
+					costUsd: estimateCost(provider.id, completion.model, completion.usage)
+				});
+			} catch (error) {
+				console.warn('Failed to track language model usage:', error);
+			}
 		}
 
 		// Parse the JSON response
-		return this.parseClaudeResponse(textContent.text);
+		return this.parseModelResponse(completion.text);
 	}
 
 	/**
-	 * Build the prompt for Claude
+	 * Build the prompt for the model
 	 */
 	private buildPrompt(title: string, description: string | null): string {
 		const fullContent = description ? `${title}\n\n${description}` : title;
@@ -247,9 +245,9 @@ Respond ONLY with valid JSON, no additional text.`;
 	}
 
 	/**
-	 * Parse Claude's JSON response
+	 * Parse the model's JSON response
 	 */
-	private parseClaudeResponse(responseText: string): NLPParseResult {
+	private parseModelResponse(responseText: string): NLPParseResult {
 		// Extract JSON from response (handle potential markdown code blocks)
 		let jsonStr = responseText.trim();
 
@@ -280,8 +278,8 @@ Respond ONLY with valid JSON, no additional text.`;
 				suggestedTopology: this.validateTopology(parsed.suggestedTopology)
 			};
 		} catch (error) {
-			console.error('Failed to parse Claude response:', error);
-			throw new Error('Invalid JSON response from Claude');
+			console.error('Failed to parse model response:', error);
+			throw new Error('Invalid JSON response from model');
 		}
 	}
 
@@ -358,8 +356,8 @@ Respond ONLY with valid JSON, no additional text.`;
 	/**
 	 * Generate cache key for NLP results
 	 */
-	private generateCacheKey(title: string, description: string | null): string {
-		const content = `${title}|${description || ''}`;
+	private generateCacheKey(model: string, title: string, description: string | null): string {
+		const content = `${model}|${title}|${description || ''}`;
 		// Simple hash function
 		let hash = 0;
 		for (let i = 0; i < content.length; i++) {
@@ -0,0 +1,95 @@
+/**
+ * Ticket Decomposition
+ *
+ * Splits a ticket too complex for a single agent run into sub-tasks:
+ * - Checklist or numbered items in the description become one sub-task each
+ * - Otherwise a plan based on the ticket type is used (e.g. a feature is
+ *   designed, implemented, tested and documented)
+ */
+
+import type { Priority } from '$lib/types';
+import type { SubtaskInput } from '$lib/types/hierarchy';
+import { ticketAnalyzer, type TicketType } from './ticket-analyzer';
+
+/** Complexity from which a ticket is worth splitting */
+export const SPLIT_COMPLEXITY_THRESHOLD = 7;
+
+/** Most sub-tasks taken from a description */
+const MAX_SUBTASKS = 10;
+
+/** Longest sub-task title taken from a description */
+const MAX_TITLE_LENGTH = 120;
+
+/** List items: `- item`, `* item`, `- [ ] item`, `1. item`, `1) item` */
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.+?)\s*$/;
+
+/** Sub-task plan per ticket type; `%s` is replaced by the ticket title */
+const PLANS: Record<TicketType, string[]> = {
+  feature: ['Design %s', 'Implement %s', 'Test %s', 'Document %s'],
+  bug: ['Reproduce %s', 'Fix %s', 'Add regression tests for %s'],
+  refactor: ['Plan refactoring of %s', 'Refactor %s', 'Verify behaviour after refactoring %s'],
+  docs: ['Outline %s', 'Write %s', 'Review %s'],
+  test: ['Identify cases for %s', 'Write tests for %s', 'Fix failures found by %s'],
+  chore: ['Prepare %s', 'Carry out %s', 'Verify %s']
+};
+
+/** Input for decomposition */
+export interface DecomposableTicket {
+  title: string;
+  description: string | null;
+  priority?: Priority;
+  labels?: string[];
+}
+
+/**
+ * Whether a ticket of the given complexity should be split
+ */
+export function shouldSplitTicket(complexity: number | null | undefined): boolean {
+  return (complexity ?? 0) >= SPLIT_COMPLEXITY_THRESHOLD;
+}
+
+/**
+ * Take the list items of a description as sub-task titles
+ */
+function extractListItems(description: string | null): string[] {
+  if (!description) return [];
+
+  const items: string[] = [];
+  for (const line of description.split('\n')) {
+    const match = LIST_ITEM_PATTERN.exec(line);
+    if (match) {
+      items.push(match[1].slice(0, MAX_TITLE_LENGTH));
+    }
+  }
+  return items.slice(0, MAX_SUBTASKS);
+}
+
+/**
+ * Suggest sub-tasks for a ticket
+ *
+ * Sub-tasks keep the priority and labels of the ticket.
+ */
+export function suggestSubtasks(ticket: DecomposableTicket): SubtaskInput[] {
+  const shared = {
+    priority: ticket.priority ?? 'MEDIUM',
+    labels: ticket.labels ?? []
+  };
+
+  // A single list item is not a breakdown
+  const items = extractListItems(ticket.description);
+  if (items.length >= 2) {
+    return items.map((title) => ({ title, ...shared }));
+  }
+
+  const { ticketType } = ticketAnalyzer.analyze({
+    title: ticket.title,
+    description: ticket.description,
+    labels: ticket.labels
+  });
+
+  return PLANS[ticketType].map((template) => ({
+    title: template.replace('%s', ticket.title),
+    description: `Part of "${ticket.title}"`,
+    ...shared
+  }));
+}
@@ -9,6 +9,8 @@
  */
 
 import { prisma } from '../prisma';
+import { ticketAnalyzer, type TicketInput } from './ticket-analyzer';
+import { quickComplexityEstimate } from './complexity';
 
 /** Time estimate result */
 export interface TimeEstimate {
@@ -278,10 +280,36 @@ export function quickTimeEstimate(complexity: number, ticketType: string = 'feat
   return roundToQuarter(baseHours * typeMultiplier);
 }
 
+/** Ticket fields an effort estimate is made from */
+export interface EstimatableTicket {
+  title: string;
+  description: string | null;
+  priority?: TicketInput['priority'];
+  labels: string[];
+  complexity: number | null;
+}
+
+/**
+ * Estimate effort for a ticket from its complexity and type, without
+ * database access (tickets never scored get a quick complexity estimate)
+ */
+export function estimateTicketHours(ticket: EstimatableTicket): number {
+  const complexity =
+    ticket.complexity ?? quickComplexityEstimate(ticket.title, ticket.description, ticket.labels);
+  const { ticketType } = ticketAnalyzer.analyze({
+    title: ticket.title,
+    description: ticket.description,
+    priority: ticket.priority,
+    labels: ticket.labels
+  });
+  return quickTimeEstimate(complexity, ticketType);
+}
+
 /** Singleton for time estimation */
 export const timeEstimator = {
   estimate: estimateCompletionTime,
   quick: quickTimeEstimate,
+  estimateTicket: estimateTicketHours,
   formatDuration,
   formatRange
 };
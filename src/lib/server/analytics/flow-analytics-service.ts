@@ -0,0 +1,94 @@
+/**
+ * Flow Analytics Service
+ *
+ * Loads a project's tickets with their status history and computes flow
+ * metrics (flow-metrics.ts) over the last days.
+ */
+
+import { prisma } from '$lib/server/prisma';
+import { getProjectWorkflow, getWorkflowState, type WorkflowDefinition } from '$lib/state-machine/workflow';
+import { DEFAULT_ANALYTICS_DAYS, type FlowAnalytics, type FlowTicket } from '$lib/types/flow-analytics';
+import { buildFlowAnalytics } from './flow-metrics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface TicketHistoryRow {
+  id: string;
+  title: string;
+  status: string;
+  workflowState: string | null;
+  createdAt: Date;
+  history: Array<{
+    fromStatus: string;
+    toStatus: string;
+    fromState: string | null;
+    toState: string | null;
+    triggeredBy: string;
+    createdAt: Date;
+  }>;
+}
+
+/**
+ * State key of a recorded move: the custom column if it is still in the
+ * workflow, else the core status
+ */
+function stateKey(workflow: WorkflowDefinition, state: string | null, status: string): string {
+  return state && getWorkflowState(workflow, state) ? state : status;
+}
+
+export class FlowAnalyticsService {
+  /**
+   * Flow analytics of a project over the last days
+   */
+  async getFlowAnalytics(
+    projectId: string,
+    days: number = DEFAULT_ANALYTICS_DAYS,
+    now: Date = new Date()
+  ): Promise<FlowAnalytics> {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { settings: true }
+    });
+    const workflow = getProjectWorkflow(project?.settings);
+
+    const rows: TicketHistoryRow[] = await prisma.ticket.findMany({
+      where: { projectId, createdAt: { lte: now } },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        workflowState: true,
+        createdAt: true,
+        history: {
+          where: { createdAt: { lte: now } },
+          select: {
+            fromStatus: true,
+            toStatus: true,
+            fromState: true,
+            toState: true,
+            triggeredBy: true,
+            createdAt: true
+          },
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    });
+
+    const tickets: FlowTicket[] = rows.map((row) => ({
+      id: row.id,
+      title: row.title,
+      createdAt: row.createdAt,
+      state: stateKey(workflow, row.workflowState, row.status),
+      transitions: row.history.map((move) => ({
+        fromState: stateKey(workflow, move.fromState, move.fromStatus),
+        toState: stateKey(workflow, move.toState, move.toStatus),
+        triggeredBy: move.triggeredBy,
+        createdAt: move.createdAt
+      }))
+    }));
+
+    return buildFlowAnalytics(tickets, workflow, new Date(now.getTime() - days * DAY_MS), now);
+  }
+}
+
+export const flowAnalyticsService = new FlowAnalyticsService();
@@ -0,0 +1,312 @@
+/**
+ * Flow Metrics
+ *
+ * Replays ticket status history into flow metrics:
+ * - Cumulative flow: tickets per column at the end of each day
+ * - Cycle time: first start of work to done; lead time: creation to done
+ * - Time in state: how long tickets sat in each column, including the
+ *   NEEDS_FEEDBACK columns where they wait on humans
+ * - Agent vs. human: tickets an agent moved against tickets only humans moved
+ *
+ * The workflow writes its own history rows next to the transition that
+ * already recorded the move (`workflow`, `workflow-auto`), and timed rules
+ * used to write `rule:<id>` rows before firings moved to TicketRuleRun.
+ * Those are bookkeeping, not moves, and are left out.
+ */
+
+import type { WorkflowDefinition } from '$lib/state-machine/workflow';
+import type {
+  ActorComparison,
+  CompletedTicket,
+  CumulativeFlowPoint,
+  DurationPercentiles,
+  FlowActor,
+  FlowAnalytics,
+  FlowTicket,
+  LeadTimeBucket,
+  StateTime
+} from '$lib/types/flow-analytics';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const LEAD_TIME_BUCKETS: Array<Omit<LeadTimeBucket, 'count'>> = [
+  { label: '< 1d', minDays: 0, maxDays: 1 },
+  { label: '1-2d', minDays: 1, maxDays: 2 },
+  { label: '2-4d', minDays: 2, maxDays: 4 },
+  { label: '4-7d', minDays: 4, maxDays: 7 },
+  { label: '1-2w', minDays: 7, maxDays: 14 },
+  { label: '2-4w', minDays: 14, maxDays: 28 },
+  { label: '4w+', minDays: 28, maxDays: null }
+];
+
+/** `triggeredBy` values of people */
+const HUMAN_TRIGGERS = ['user'];
+
+/** `triggeredBy` values of agents */
+const AGENT_TRIGGERS = ['agent'];
+
+/** `triggeredBy` values of rows that duplicate a recorded transition */
+const BOOKKEEPING_TRIGGERS = ['workflow', 'workflow-auto'];
+
+/** `triggeredBy` prefix of rows older timed rule firings wrote */
+const RULE_TRIGGER_PREFIX = 'rule:';
+
+/**
+ * A period a ticket spent in one state
+ */
+interface Stay {
+  state: string;
+  start: number;
+  /** null while the ticket is still in the state */
+  end: number | null;
+}
+
+function toTime(value: Date | string): number {
+  return new Date(value).getTime();
+}
+
+function startOfDay(time: number): number {
+  const date = new Date(time);
+  date.setUTCHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+}
+
+/**
+ * Classify who moved a ticket. Anything that is neither a person nor an
+ * agent (scheduler, error rollbacks) is the system.
+ */
+export function classifyActor(triggeredBy: string): FlowActor {
+  const actor = triggeredBy.toLowerCase();
+  if (HUMAN_TRIGGERS.includes(actor)) return 'human';
+  if (AGENT_TRIGGERS.includes(actor)) return 'agent';
+  return 'system';
+}
+
+/**
+ * Whether a history row only annotates a transition recorded by another row
+ */
+export function isBookkeepingTrigger(triggeredBy: string): boolean {
+  const actor = triggeredBy.toLowerCase();
+  return BOOKKEEPING_TRIGGERS.includes(actor) || actor.startsWith(RULE_TRIGGER_PREFIX);
+}
+
+/**
+ * The ticket with only the rows that moved it
+ */
+function withMovesOnly(ticket: FlowTicket): FlowTicket {
+  return { ...ticket, transitions: ticket.transitions.filter((t) => !isBookkeepingTrigger(t.triggeredBy)) };
+}
+
+/**
+ * Nearest-rank percentile: the smallest value at least p% of values are at or below
+ * @returns null for no values
+ */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.max(Math.ceil((p / 100) * sorted.length), 1);
+  return round(sorted[rank - 1]);
+}
+
+function percentiles(values: number[]): DurationPercentiles {
+  return { p50: percentile(values, 50), p85: percentile(values, 85), p95: percentile(values, 95) };
+}
+
+/**
+ * Turn a ticket's history into the stays in each state, oldest first
+ */
+function getStays(ticket: FlowTicket): Stay[] {
+  const stays: Stay[] = [
+    { state: ticket.transitions[0]?.fromState ?? ticket.state, start: toTime(ticket.createdAt), end: null }
+  ];
+
+  for (const transition of ticket.transitions) {
+    const time = toTime(transition.createdAt);
+    stays[stays.length - 1].end = time;
+    stays.push({ state: transition.toState, start: time, end: null });
+  }
+
+  return stays;
+}
+
+/**
+ * State of a ticket at a point in time, or null before it was created
+ */
+function stateAt(stays: Stay[], time: number): string | null {
+  if (stays[0].start > time) return null;
+  for (let i = stays.length - 1; i >= 0; i--) {
+    if (stays[i].start <= time) return stays[i].state;
+  }
+  return null;
+}
+
+/**
+ * Tickets per state at the end of each day of the period
+ */
+export function buildCumulativeFlow(
+  tickets: FlowTicket[],
+  stateKeys: string[],
+  from: Date,
+  to: Date
+): CumulativeFlowPoint[] {
+  const timelines = tickets.map((ticket) => getStays(withMovesOnly(ticket)));
+  const points: CumulativeFlowPoint[] = [];
+
+  for (let day = startOfDay(from.getTime()); day <= to.getTime(); day += DAY_MS) {
+    const endOfDay = Math.min(day + DAY_MS - 1, to.getTime());
+    const counts: Record<string, number> = Object.fromEntries(stateKeys.map((key) => [key, 0]));
+
+    for (const stays of timelines) {
+      const state = stateAt(stays, endOfDay);
+      if (state !== null) {
+        counts[state] = (counts[state] ?? 0) + 1;
+      }
+    }
+
+    points.push({ date: new Date(day).toISOString(), counts });
+  }
+
+  return points;
+}
+
+/**
+ * Bucket lead times (hours) into the lead time distribution
+ */
+export function buildLeadTimeDistribution(leadHours: number[]): LeadTimeBucket[] {
+  return LEAD_TIME_BUCKETS.map((bucket) => ({
+    ...bucket,
+    count: leadHours.filter((hours) => {
+      const days = hours / 24;
+      return days >= bucket.minDays && (bucket.maxDays === null || days < bucket.maxDays);
+    }).length
+  }));
+}
+
+/**
+ * Compute the flow analytics of a project's tickets over a period
+ * @param tickets - Tickets with their history, state keys of the workflow
+ * @param workflow - Project workflow (column order and base statuses)
+ */
+export function buildFlowAnalytics(
+  tickets: FlowTicket[],
+  workflow: WorkflowDefinition,
+  from: Date,
+  to: Date
+): FlowAnalytics {
+  const moved = tickets.map(withMovesOnly);
+  const statesWith = (baseStatus: string) =>
+    new Set(workflow.states.filter((state) => state.baseStatus === baseStatus).map((state) => state.key));
+  const doneStates = statesWith('DONE');
+  const workStates = statesWith('IN_PROGRESS');
+  const feedbackStates = statesWith('NEEDS_FEEDBACK');
+  const periodStart = from.getTime();
+  const periodEnd = to.getTime();
+
+  const completed: CompletedTicket[] = [];
+  const feedbackHours = new Map<string, number>();
+  const stateDurations = new Map<string, { durations: number[]; ongoing: number }>(
+    workflow.states.map((state) => [state.key, { durations: [], ongoing: 0 }])
+  );
+  const transitionCounts: Record<FlowActor, number> = { human: 0, agent: 0, system: 0 };
+
+  for (const ticket of moved) {
+    const stays = getStays(ticket);
+
+    for (const transition of ticket.transitions) {
+      const time = toTime(transition.createdAt);
+      if (time >= periodStart && time <= periodEnd) {
+        transitionCounts[classifyActor(transition.triggeredBy)]++;
+      }
+    }
+
+    // Time in state, clipped to the period
+    for (const stay of stays) {
+      const end = stay.end ?? Infinity;
+      if (stay.start > periodEnd || end < periodStart) continue;
+      const entry = stateDurations.get(stay.state) ?? { durations: [], ongoing: 0 };
+      entry.durations.push((Math.min(end, periodEnd) - Math.max(stay.start, periodStart)) / HOUR_MS);
+      if (end > periodEnd) entry.ongoing++;
+      stateDurations.set(stay.state, entry);
+    }
+
+    // Completed in the period: done now, and got there within the period
+    const current = stays[stays.length - 1];
+    if (!doneStates.has(current.state) || current.start < periodStart || current.start > periodEnd) {
+      continue;
+    }
+
+    const workStart = stays.find((stay) => workStates.has(stay.state))?.start;
+    const workedByAgents = ticket.transitions.some((t) => classifyActor(t.triggeredBy) === 'agent');
+    completed.push({
+      ticketId: ticket.id,
+      title: ticket.title,
+      completedAt: new Date(current.start).toISOString(),
+      cycleHours: workStart !== undefined ? round((current.start - workStart) / HOUR_MS) : null,
+      leadHours: round((current.start - toTime(ticket.createdAt)) / HOUR_MS),
+      workedBy: workedByAgents ? 'agent' : 'human'
+    });
+    feedbackHours.set(
+      ticket.id,
+      stays
+        .filter((stay) => feedbackStates.has(stay.state) && stay.end !== null)
+        .reduce((sum, stay) => sum + (stay.end! - stay.start) / HOUR_MS, 0)
+    );
+  }
+
+  completed.sort((a, b) => a.completedAt.localeCompare(b.completedAt));
+  const cycleHours = (tickets: CompletedTicket[]) =>
+    tickets.map((ticket) => ticket.cycleHours).filter((hours): hours is number => hours !== null);
+  const leadHours = (tickets: CompletedTicket[]) => tickets.map((ticket) => ticket.leadHours);
+
+  const labels = new Map(workflow.states.map((state) => [state.key, state.label]));
+  const timeInState: StateTime[] = [...stateDurations].map(([state, { durations, ongoing }]) => ({
+    state,
+    label: labels.get(state) ?? state,
+    waitingOnHumans: feedbackStates.has(state),
+    visits: durations.length,
+    ongoing,
+    totalHours: round(durations.reduce((sum, hours) => sum + hours, 0)),
+    averageHours: average(durations),
+    medianHours: percentile(durations, 50)
+  }));
+
+  const actors: ActorComparison[] = (['agent', 'human'] as const).map((workedBy) => {
+    const worked = completed.filter((ticket) => ticket.workedBy === workedBy);
+    return {
+      workedBy,
+      completed: worked.length,
+      cycleTime: percentiles(cycleHours(worked)),
+      leadTime: percentiles(leadHours(worked)),
+      averageFeedbackHours: average(worked.map((ticket) => feedbackHours.get(ticket.ticketId) ?? 0)),
+      transitions: transitionCounts[workedBy]
+    };
+  });
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    states: workflow.states.map((state) => ({ key: state.key, label: state.label })),
+    cumulativeFlow: buildCumulativeFlow(
+      tickets,
+      workflow.states.map((state) => state.key),
+      from,
+      to
+    ),
+    completed,
+    cycleTime: percentiles(cycleHours(completed)),
+    leadTime: percentiles(leadHours(completed)),
+    leadTimeDistribution: buildLeadTimeDistribution(leadHours(completed)),
+    timeInState,
+    actors,
+    systemTransitions: transitionCounts.system
+  };
+}
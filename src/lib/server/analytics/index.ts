@@ -0,0 +1,16 @@
+/**
+ * Flow Analytics Module
+ *
+ * Cumulative flow, cycle and lead times, time in state and agent vs. human
+ * comparison from ticket status history.
+ */
+
+export { flowAnalyticsService, FlowAnalyticsService } from './flow-analytics-service';
+
+export {
+  buildFlowAnalytics,
+  buildCumulativeFlow,
+  buildLeadTimeDistribution,
+  classifyActor,
+  percentile
+} from './flow-metrics';
@@ -0,0 +1,210 @@
+/**
+ * Agent Credentials
+ *
+ * Signed credentials proving a caller is the agent spawned for a ticket:
+ * - Minted each time a job of a ticket execution starts and passed to the
+ *   CLI in its environment (CF_KANBAN_AGENT_CREDENTIAL); never persisted
+ *   with the job, so a job recovered after a restart gets a fresh one
+ * - Sent back in the `X-Agent-Credential` header when the agent asks
+ *   questions, reports progress, saves checkpoints or moves its ticket
+ * - HMAC-SHA256 signed over the ticket, project, job and agent; valid only
+ *   while the job is queued or running, so it expires with the job
+ *
+ * The signing key comes from AGENT_CREDENTIAL_SECRET (else derived from
+ * AUTH_SECRET); without either a random key is used and credentials do
+ * not survive a restart.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { error } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { commandExecutor, type JobConfig } from '$lib/server/claude-flow/executor';
+
+/** Prefix of agent credentials */
+export const AGENT_CREDENTIAL_PREFIX = 'cfa_';
+
+/** Request header carrying an agent credential */
+export const AGENT_CREDENTIAL_HEADER = 'x-agent-credential';
+
+/** Environment variable the CLI receives the credential in */
+export const AGENT_CREDENTIAL_ENV = 'CF_KANBAN_AGENT_CREDENTIAL';
+
+/** Upper bound on a credential's lifetime, even if its job never ends */
+export const MAX_AGENT_CREDENTIAL_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * What a credential is for
+ */
+export interface AgentCredentialClaims {
+  ticketId: string;
+  projectId: string;
+  jobId: string;
+  /** Name of the agent (or workflow step) the job runs */
+  agentId: string;
+}
+
+/**
+ * A verified agent credential
+ */
+export interface AgentPrincipal extends AgentCredentialClaims {
+  issuedAt: Date;
+  expiresAt: Date;
+}
+
+interface CredentialPayload extends AgentCredentialClaims {
+  iat: number;
+  exp: number;
+}
+
+let signingKey: Buffer | null = null;
+
+function getSigningKey(): Buffer {
+  if (!signingKey) {
+    const configured = process.env.AGENT_CREDENTIAL_SECRET;
+    const authSecret = process.env.AUTH_SECRET;
+    signingKey = configured
+      ? Buffer.from(configured)
+      : authSecret
+        ? createHash('sha256').update(`agent-credentials:${authSecret}`).digest()
+        : randomBytes(32);
+  }
+  return signingKey;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getSigningKey()).update(payload).digest('base64url');
+}
+
+/**
+ * Mint a credential for a job of a ticket execution
+ */
+export function mintAgentCredential(claims: AgentCredentialClaims, now: Date = new Date()): string {
+  const payload: CredentialPayload = {
+    ticketId: claims.ticketId,
+    projectId: claims.projectId,
+    jobId: claims.jobId,
+    agentId: claims.agentId,
+    iat: now.getTime(),
+    exp: now.getTime() + MAX_AGENT_CREDENTIAL_TTL_MS
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${AGENT_CREDENTIAL_PREFIX}${encoded}.${sign(encoded)}`;
+}
+
+/**
+ * Environment variables giving a job its credential
+ */
+export function agentCredentialEnv(claims: AgentCredentialClaims, now: Date = new Date()): Record<string, string> {
+  return {
+    [AGENT_CREDENTIAL_ENV]: mintAgentCredential(claims, now),
+    CF_KANBAN_TICKET_ID: claims.ticketId,
+    CF_KANBAN_AGENT_ID: claims.agentId
+  };
+}
+
+/**
+ * Job environment provider handing ticket execution jobs their credential
+ *
+ * Applies to jobs submitted with a ticket, project and `metadata.agentId`.
+ */
+export function jobCredentialEnv(jobId: string, config: JobConfig): Record<string, string> {
+  const agentId = config.metadata?.agentId;
+  if (!config.ticketId || !config.projectId || typeof agentId !== 'string') {
+    return {};
+  }
+  return agentCredentialEnv({ ticketId: config.ticketId, projectId: config.projectId, jobId, agentId });
+}
+
+/**
+ * Check a credential's signature and expiry and that its job is still
+ * queued or running
+ * @returns null for forged, expired or finished-job credentials
+ */
+export function verifyAgentCredential(credential: string, now: Date = new Date()): AgentPrincipal | null {
+  if (!credential.startsWith(AGENT_CREDENTIAL_PREFIX)) {
+    return null;
+  }
+
+  const [encoded, signature, ...rest] = credential.slice(AGENT_CREDENTIAL_PREFIX.length).split('.');
+  if (!encoded || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  let payload: CredentialPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8'));
+  } catch {
+    return null;
+  }
+
+  if (typeof payload.exp !== 'number' || payload.exp <= now.getTime()) {
+    return null;
+  }
+
+  const status = commandExecutor.getJobStatus(payload.jobId);
+  if (status !== 'pending' && status !== 'running') {
+    return null;
+  }
+
+  return {
+    ticketId: payload.ticketId,
+    projectId: payload.projectId,
+    jobId: payload.jobId,
+    agentId: payload.agentId,
+    issuedAt: new Date(payload.iat),
+    expiresAt: new Date(payload.exp)
+  };
+}
+
+/**
+ * Get the agent credential of a request
+ */
+export function getAgentCredential(request: Request | undefined): string | null {
+  return request?.headers.get(AGENT_CREDENTIAL_HEADER) || null;
+}
+
+/** Verified agents per request */
+const agentPrincipals = new WeakMap<Request, AgentPrincipal | null>();
+
+/**
+ * Authenticate a request by its agent credential
+ * Returns the agent, or null without a credential
+ * @throws 401 for an invalid or expired credential
+ */
+export function authenticateAgent(event: RequestEvent): AgentPrincipal | null {
+  const credential = getAgentCredential(event.request);
+  if (!credential) {
+    return null;
+  }
+
+  if (!agentPrincipals.has(event.request)) {
+    agentPrincipals.set(event.request, verifyAgentCredential(credential));
+  }
+
+  const principal = agentPrincipals.get(event.request) ?? null;
+  if (!principal) {
+    throw error(401, 'Invalid or expired agent credential');
+  }
+  return principal;
+}
+
+/**
+ * Require the credential of an agent working on a ticket
+ * @throws 401 without a valid credential, 403 for another ticket's agent
+ */
+export function requireTicketAgent(event: RequestEvent, ticketId: string): AgentPrincipal {
+  const principal = authenticateAgent(event);
+  if (!principal) {
+    throw error(401, 'Agent credential required');
+  }
+  if (principal.ticketId !== ticketId) {
+    throw error(403, 'Agent credential is not valid for this ticket');
+  }
+  return principal;
+}
@@ -0,0 +1,452 @@
+/**
+ * API Authorization
+ *
+ * Every API endpoint declares who may call it in API_ROUTE_POLICIES, keyed
+ * by route id and method, and the hooks enforce it before the handler runs:
+ * - public: anyone (health checks, Prometheus metrics)
+ * - authenticated: any signed-in user; API tokens may only read, as no
+ *   token scope covers these routes' writes (creating projects, webhooks,
+ *   memories, chat, ...)
+ * - admin: users with the global ADMIN role (not API tokens)
+ * - project: a permission on the project the request is about, resolved from
+ *   a route param, the ticket in the URL, the query string or the JSON body;
+ *   requests that name no project are rejected with 400
+ * - agent: the credential of an agent working on the ticket in the URL (see
+ *   agent-credentials.ts); project policies can also admit such agents
+ *
+ * Routes without a policy are denied. Denials of signed-in callers are
+ * recorded as PERMISSION_DENIED audit entries.
+ */
+
+import { error, isHttpError } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { prisma } from '$lib/server/prisma';
+import { auditService } from '$lib/server/admin/audit-service';
+import { transferService } from '$lib/server/transfer';
+import {
+  checkProjectPermission,
+  isReadRequest,
+  rejectApiToken,
+  requireAuth,
+  type AuthSession
+} from './route-guards';
+import { getAgentCredential, requireTicketAgent } from './agent-credentials';
+import { Permission, Role, isAtLeastRole, type PermissionType, type RoleType } from './permissions';
+
+export type ApiMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Finds the projects a request is about
+ * Returns null when the request names none, and an empty list when the
+ * resource it names does not exist (the handler answers 404)
+ */
+export type ProjectResolver = (event: RequestEvent) => Promise<string[] | null>;
+
+/**
+ * Who may call an endpoint
+ */
+export type ApiRoutePolicy =
+  | { access: 'public' }
+  | { access: 'authenticated' }
+  | { access: 'admin' }
+  | { access: 'agent' }
+  | {
+      access: 'project';
+      permission: PermissionType;
+      project: ProjectResolver;
+      /** Also admit the agents working on the ticket in the URL */
+      agents?: boolean;
+    };
+
+/**
+ * Project id from a route param, e.g. /api/projects/[projectId]
+ */
+export function projectParam(name: string): ProjectResolver {
+  return async (event) => {
+    const value = event.params[name as keyof typeof event.params];
+    return value ? [value] : null;
+  };
+}
+
+/**
+ * Project of the ticket in a route param, e.g. /api/tickets/[id]
+ */
+export function ticketParam(name: string): ProjectResolver {
+  return async (event) => {
+    const ticketId = event.params[name as keyof typeof event.params];
+    if (!ticketId) return null;
+
+    const ticket: { projectId: string } | null = await prisma.ticket.findUnique({
+      where: { id: ticketId },
+      select: { projectId: true }
+    });
+    return ticket ? [ticket.projectId] : [];
+  };
+}
+
+/**
+ * Project ids from a query parameter (comma-separated for several)
+ */
+export function projectQuery(name: string): ProjectResolver {
+  return async (event) => {
+    const ids = (event.url.searchParams.get(name) ?? '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean);
+    return ids.length > 0 ? ids : null;
+  };
+}
+
+/**
+ * Project id from a field of the JSON body (the handler can still read it)
+ */
+export function projectBody(name: string): ProjectResolver {
+  return async (event) => {
+    try {
+      const body = await event.request.clone().json();
+      const value = body?.[name];
+      return typeof value === 'string' && value ? [value] : null;
+    } catch {
+      return null;
+    }
+  };
+}
+
+/**
+ * Target project of the pattern transfer in /api/patterns/transfer/[transferId]
+ */
+const transferTarget: ProjectResolver = async (event) => {
+  const history = await transferService.getTransferHistory();
+  const transfer = history.find((entry) => entry.transferId === event.params.transferId);
+  return transfer ? [transfer.targetProjectId] : [];
+};
+
+const PUBLIC: ApiRoutePolicy = { access: 'public' };
+const SIGNED_IN: ApiRoutePolicy = { access: 'authenticated' };
+const ADMIN: ApiRoutePolicy = { access: 'admin' };
+const AGENT: ApiRoutePolicy = { access: 'agent' };
+
+function project(permission: PermissionType, resolver: ProjectResolver = projectParam('id')): ApiRoutePolicy {
+  return { access: 'project', permission, project: resolver };
+}
+
+function ticket(permission: PermissionType, options: { agents?: boolean } = {}): ApiRoutePolicy {
+  return { ...project(permission, ticketParam('id')), ...options };
+}
+
+const byProjectId = projectParam('projectId');
+
+/**
+ * Access policy of every API endpoint, by route id and method
+ */
+export const API_ROUTE_POLICIES: Record<string, Partial<Record<ApiMethod, ApiRoutePolicy>>> = {
+  // Administration
+  '/api/admin/audit/export': { GET: ADMIN },
+  '/api/admin/projects/[id]': { DELETE: ADMIN },
+  '/api/admin/projects/[id]/archive': { POST: ADMIN },
+  '/api/admin/projects/[id]/unarchive': { POST: ADMIN },
+  '/api/admin/settings': { PUT: ADMIN },
+  '/api/admin/users/[id]': { PATCH: ADMIN, DELETE: ADMIN },
+  '/api/admin/users/invite': { POST: ADMIN },
+
+  // Health and monitoring
+  '/api/health': { GET: PUBLIC },
+  '/api/health/live': { GET: PUBLIC },
+  '/api/health/ready': { GET: PUBLIC },
+  '/api/health/redis': { GET: PUBLIC },
+  '/api/metrics': { GET: PUBLIC },
+  '/api/executor/status': { GET: project(Permission.TICKET_VIEW, projectQuery('projectId')) },
+
+  // Assistant, agents and learning (not tied to a project)
+  '/api/agents/capabilities': { GET: SIGNED_IN },
+  '/api/chat': { POST: SIGNED_IN },
+  '/api/memory/exists': { GET: SIGNED_IN },
+  '/api/memory/search': { GET: SIGNED_IN },
+  '/api/memory/similar': { GET: SIGNED_IN },
+  '/api/memory/store': { POST: SIGNED_IN },
+  '/api/memory/vector-search': { GET: SIGNED_IN },
+  '/api/neural/metrics': { GET: SIGNED_IN },
+  '/api/neural/patterns': { GET: SIGNED_IN },
+  '/api/neural/training-progress': { GET: SIGNED_IN },
+  '/api/templates': { GET: SIGNED_IN },
+  '/api/templates/[id]': { GET: SIGNED_IN },
+
+  // Pattern transfer between projects
+  '/api/patterns/transfer': {
+    GET: project(Permission.PROJECT_VIEW, projectQuery('projectId')),
+    POST: project(Permission.PROJECT_EDIT, projectBody('targetProjectId'))
+  },
+  '/api/patterns/transfer/[transferId]': {
+    GET: project(Permission.PROJECT_VIEW, transferTarget),
+    DELETE: project(Permission.PROJECT_EDIT, transferTarget)
+  },
+  '/api/patterns/transfer/preview': { POST: project(Permission.PROJECT_VIEW, projectBody('targetProjectId')) },
+  '/api/patterns/transfer/validate': { POST: project(Permission.PROJECT_VIEW, projectBody('targetProjectId')) },
+
+  // The caller's own notifications and tokens
+  '/api/notifications': { GET: SIGNED_IN, POST: SIGNED_IN, DELETE: SIGNED_IN },
+  '/api/notifications/digest': { GET: SIGNED_IN, PUT: SIGNED_IN },
+  '/api/notifications/preferences': { GET: SIGNED_IN, PUT: SIGNED_IN },
+  '/api/notifications/webhooks': { GET: SIGNED_IN, POST: SIGNED_IN },
+  '/api/notifications/webhooks/[id]': { GET: SIGNED_IN, PUT: SIGNED_IN, DELETE: SIGNED_IN, POST: SIGNED_IN },
+  '/api/tokens': { GET: SIGNED_IN, POST: SIGNED_IN },
+  '/api/tokens/[tokenId]': { DELETE: SIGNED_IN },
+
+  // Projects
+  '/api/projects': { GET: SIGNED_IN, POST: SIGNED_IN },
+  '/api/projects/compare': { GET: project(Permission.PROJECT_VIEW, projectQuery('ids')) },
+  '/api/projects/health': { GET: project(Permission.PROJECT_VIEW, projectQuery('projectId')) },
+  '/api/projects/validate-path': { POST: SIGNED_IN },
+  '/api/projects/[id]': {
+    GET: project(Permission.PROJECT_VIEW),
+    PUT: project(Permission.PROJECT_EDIT),
+    DELETE: project(Permission.PROJECT_DELETE)
+  },
+  '/api/projects/[id]/board-snapshot': { GET: project(Permission.PROJECT_VIEW) },
+  '/api/projects/[id]/dependency-graph': { GET: project(Permission.PROJECT_VIEW) },
+  '/api/projects/[id]/health': { GET: project(Permission.PROJECT_VIEW) },
+  '/api/projects/[id]/learning': {
+    GET: project(Permission.PROJECT_VIEW),
+    PUT: project(Permission.PROJECT_SETTINGS)
+  },
+  '/api/projects/[id]/resources': {
+    GET: project(Permission.PROJECT_VIEW),
+    PUT: project(Permission.PROJECT_SETTINGS),
+    DELETE: project(Permission.PROJECT_SETTINGS)
+  },
+  '/api/projects/[id]/rules': {
+    GET: project(Permission.PROJECT_VIEW),
+    PUT: project(Permission.PROJECT_SETTINGS),
+    DELETE: project(Permission.PROJECT_SETTINGS)
+  },
+  '/api/projects/[id]/scheduling': {
+    GET: project(Permission.PROJECT_VIEW),
+    PUT: project(Permission.PROJECT_SETTINGS)
+  },
+  '/api/projects/[id]/workflow': {
+    GET: project(Permission.PROJECT_VIEW),
+    PUT: project(Permission.PROJECT_SETTINGS),
+    DELETE: project(Permission.PROJECT_SETTINGS)
+  },
+  '/api/projects/[projectId]/analytics': { GET: project(Permission.PROJECT_VIEW, byProjectId) },
+  '/api/projects/[projectId]/filters': {
+    GET: project(Permission.PROJECT_VIEW, byProjectId),
+    POST: project(Permission.PROJECT_VIEW, byProjectId)
+  },
+  '/api/projects/[projectId]/filters/[filterId]': {
+    PUT: project(Permission.PROJECT_VIEW, byProjectId),
+    DELETE: project(Permission.PROJECT_VIEW, byProjectId)
+  },
+  '/api/projects/[projectId]/service-accounts': {
+    GET: project(Permission.PROJECT_SETTINGS, byProjectId),
+    POST: project(Permission.PROJECT_SETTINGS, byProjectId)
+  },
+  '/api/projects/[projectId]/service-accounts/[accountId]': {
+    DELETE: project(Permission.PROJECT_SETTINGS, byProjectId)
+  },
+  '/api/projects/[projectId]/service-accounts/[accountId]/tokens': {
+    POST: project(Permission.PROJECT_SETTINGS, byProjectId)
+  },
+  '/api/projects/[projectId]/service-accounts/[accountId]/tokens/[tokenId]': {
+    DELETE: project(Permission.PROJECT_SETTINGS, byProjectId)
+  },
+  '/api/projects/[projectId]/sprints': {
+    GET: project(Permission.PROJECT_VIEW, byProjectId),
+    POST: project(Permission.TICKET_EDIT, byProjectId)
+  },
+  '/api/projects/[projectId]/sprints/[sprintId]': {
+    GET: project(Permission.PROJECT_VIEW, byProjectId),
+    PUT: project(Permission.TICKET_EDIT, byProjectId),
+    DELETE: project(Permission.TICKET_EDIT, byProjectId)
+  },
+  '/api/projects/[projectId]/sprints/[sprintId]/complete': { POST: project(Permission.TICKET_EDIT, byProjectId) },
+  '/api/projects/[projectId]/sprints/[sprintId]/plan': { GET: project(Permission.PROJECT_VIEW, byProjectId) },
+  '/api/projects/[projectId]/sprints/[sprintId]/start': { POST: project(Permission.TICKET_EDIT, byProjectId) },
+  '/api/projects/[projectId]/sprints/[sprintId]/tickets': { POST: project(Permission.TICKET_EDIT, byProjectId) },
+  '/api/projects/[projectId]/sprints/[sprintId]/tickets/[ticketId]': {
+    DELETE: project(Permission.TICKET_EDIT, byProjectId)
+  },
+  '/api/projects/[projectId]/tickets': {
+    GET: project(Permission.TICKET_VIEW, byProjectId),
+    POST: project(Permission.TICKET_CREATE, byProjectId)
+  },
+
+  // Tickets
+  '/api/tickets/complexity-stats': { GET: project(Permission.TICKET_VIEW, projectQuery('projectId')) },
+  '/api/tickets/nlp-parse': {
+    GET: project(Permission.TICKET_VIEW, projectQuery('projectId')),
+    POST: project(Permission.TICKET_VIEW, projectBody('projectId'))
+  },
+  '/api/tickets/suggestions': { POST: project(Permission.TICKET_VIEW, projectBody('projectId')) },
+  '/api/tickets/[id]': {
+    GET: ticket(Permission.TICKET_VIEW),
+    PUT: ticket(Permission.TICKET_EDIT),
+    DELETE: ticket(Permission.TICKET_DELETE)
+  },
+  '/api/tickets/[id]/analyze': { POST: ticket(Permission.TICKET_EDIT) },
+  '/api/tickets/[id]/attachments': {
+    GET: ticket(Permission.TICKET_VIEW),
+    POST: ticket(Permission.TICKET_EDIT)
+  },
+  '/api/tickets/[id]/attachments/[attachmentId]': {
+    GET: ticket(Permission.TICKET_VIEW),
+    DELETE: ticket(Permission.TICKET_EDIT)
+  },
+  '/api/tickets/[id]/changes': {
+    GET: ticket(Permission.TICKET_VIEW),
+    POST: ticket(Permission.TICKET_EDIT)
+  },
+  // Every member may comment; authors edit their own comments
+  '/api/tickets/[id]/comments': {
+    GET: ticket(Permission.TICKET_VIEW),
+    POST: ticket(Permission.TICKET_VIEW)
+  },
+  '/api/tickets/[id]/comments/[commentId]': {
+    PATCH: ticket(Permission.TICKET_VIEW),
+    DELETE: ticket(Permission.TICKET_VIEW)
+  },
+  '/api/tickets/[id]/comments/[commentId]/reactions': { POST: ticket(Permission.TICKET_VIEW) },
+  '/api/tickets/[id]/execution-log': { GET: ticket(Permission.TICKET_VIEW) },
+  // Agent callbacks: questions, progress and checkpoints of their own ticket
+  '/api/tickets/[id]/checkpoints': { POST: AGENT },
+  '/api/tickets/[id]/feedback': {
+    GET: ticket(Permission.TICKET_VIEW, { agents: true }),
+    POST: AGENT
+  },
+  '/api/tickets/[id]/progress': { POST: AGENT },
+  '/api/tickets/[id]/questions': {
+    GET: ticket(Permission.TICKET_VIEW),
+    POST: ticket(Permission.TICKET_EDIT),
+    DELETE: ticket(Permission.TICKET_EDIT)
+  },
+  '/api/tickets/[id]/questions/[questionId]': {
+    GET: ticket(Permission.TICKET_VIEW),
+    PATCH: ticket(Permission.TICKET_EDIT),
+    DELETE: ticket(Permission.TICKET_EDIT)
+  },
+  '/api/tickets/[id]/questions/[questionId]/answer': {
+    GET: ticket(Permission.TICKET_VIEW),
+    POST: ticket(Permission.TICKET_EDIT),
+    DELETE: ticket(Permission.TICKET_EDIT)
+  },
+  '/api/tickets/[id]/questions/[questionId]/clarify': { POST: ticket(Permission.TICKET_EDIT) },
+  '/api/tickets/[id]/resume': {
+    GET: ticket(Permission.TICKET_VIEW),
+    POST: ticket(Permission.TICKET_TRANSITION)
+  },
+  '/api/tickets/[id]/review': { POST: ticket(Permission.TICKET_TRANSITION) },
+  '/api/tickets/[id]/stop': { POST: ticket(Permission.TICKET_TRANSITION) },
+  '/api/tickets/[id]/subtasks': {
+    GET: ticket(Permission.TICKET_VIEW),
+    POST: ticket(Permission.TICKET_CREATE)
+  },
+  '/api/tickets/[id]/suggest-agent': { POST: ticket(Permission.TICKET_VIEW) },
+  '/api/tickets/[id]/time-estimate': { GET: ticket(Permission.TICKET_VIEW) },
+  '/api/tickets/[id]/time-travel': {
+    GET: ticket(Permission.TICKET_VIEW),
+    POST: ticket(Permission.TICKET_VIEW)
+  },
+  '/api/tickets/[id]/transition': { POST: ticket(Permission.TICKET_TRANSITION, { agents: true }) },
+  '/api/tickets/[id]/transition/dry-run': { POST: ticket(Permission.TICKET_VIEW) }
+};
+
+/**
+ * Get the policy of an endpoint (HEAD requests use GET's)
+ */
+export function getApiRoutePolicy(routeId: string, method: string): ApiRoutePolicy | null {
+  const upper = method.toUpperCase();
+  const policies = API_ROUTE_POLICIES[routeId];
+  return policies?.[(upper === 'HEAD' ? 'GET' : upper) as ApiMethod] ?? null;
+}
+
+/**
+ * Record a denied request in the audit log
+ */
+async function auditDenial(
+  event: RequestEvent,
+  session: AuthSession,
+  reason: string,
+  details: { projectId?: string; permission?: PermissionType }
+): Promise<void> {
+  await auditService.log({
+    userId: session.user.id,
+    action: 'PERMISSION_DENIED',
+    entityType: details.projectId ? 'Project' : 'ApiRoute',
+    entityId: details.projectId ?? event.route.id ?? undefined,
+    description: `${event.request.method} ${event.url.pathname} denied: ${reason}`,
+    metadata: {
+      route: event.route.id,
+      method: event.request.method,
+      permission: details.permission ?? null,
+      tokenId: session.token?.id ?? null
+    },
+    ipAddress: event.request.headers.get('x-forwarded-for') || undefined,
+    userAgent: event.request.headers.get('user-agent') || undefined
+  });
+}
+
+/**
+ * Check a request to an API endpoint against its policy
+ * @throws 401 without a session or agent credential, 400 when a project
+ * route names no project, 403 (audited for signed-in callers) when the
+ * policy denies it or the endpoint has none
+ */
+export async function authorizeApiRequest(event: RequestEvent): Promise<void> {
+  const routeId = event.route.id;
+  if (!routeId) {
+    // Unmatched: SvelteKit answers 404
+    return;
+  }
+
+  const policy = getApiRoutePolicy(routeId, event.request.method);
+  if (policy?.access === 'public') {
+    return;
+  }
+
+  // Agents act on their own ticket only
+  if (
+    policy?.access === 'agent' ||
+    (policy?.access === 'project' && policy.agents && getAgentCredential(event.request))
+  ) {
+    requireTicketAgent(event, event.params.id ?? '');
+    return;
+  }
+
+  const session = await requireAuth(event);
+  const checked: { projectId?: string; permission?: PermissionType } = {};
+
+  try {
+    if (!policy) {
+      throw error(403, `No access policy for ${event.request.method} ${routeId}`);
+    }
+
+    if (policy.access === 'authenticated' && !isReadRequest(event)) {
+      rejectApiToken(session, 'API tokens cannot change data on this route');
+    }
+
+    if (policy.access === 'admin') {
+      rejectApiToken(session);
+      if (!isAtLeastRole((session.user.role as RoleType) || Role.VIEWER, Role.ADMIN)) {
+        throw error(403, `Role ${Role.ADMIN} or higher required`);
+      }
+    }
+
+    if (policy.access === 'project') {
+      checked.permission = policy.permission;
+      const projectIds = await policy.project(event);
+      if (!projectIds) {
+        // Never fall back to reading or billing across every project
+        throw error(400, 'This request must name a project');
+      }
+      for (const projectId of projectIds) {
+        checked.projectId = projectId;
+        await checkProjectPermission(session, projectId, policy.permission);
+      }
+    }
+  } catch (err) {
+    if (isHttpError(err, 403)) {
+      await auditDenial(event, session, err.body.message, checked);
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,430 @@
+/**
+ * API Tokens
+ *
+ * Bearer tokens for calling the API without a browser session:
+ * - Personal access tokens act as their user
+ * - Service accounts are non-human members of one project (with their own
+ *   user and project role); their tokens act as that member
+ * - Every token is limited to its scopes (Permission values) on top of
+ *   what the role allows, and can expire or be revoked
+ * - Only a SHA-256 hash of a token is stored; the token is returned once
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '$lib/server/prisma';
+import { isPermission, type PermissionType } from './permissions';
+import {
+  API_TOKEN_DISPLAY_LENGTH,
+  API_TOKEN_PREFIX,
+  MAX_API_TOKEN_DAYS,
+  MAX_API_TOKEN_NAME_LENGTH,
+  type ApiToken,
+  type CreatedApiToken,
+  type ServiceAccount,
+  type ServiceAccountRole
+} from '$lib/types/api-tokens';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Minimum time between two writes of a token's last use */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const SERVICE_ACCOUNT_ROLES: ServiceAccountRole[] = ['ADMIN', 'MEMBER', 'VIEWER'];
+
+/**
+ * Thrown when a token does not exist for the user or service account
+ */
+export class ApiTokenNotFoundError extends Error {
+  constructor(public readonly tokenId: string) {
+    super(`API token ${tokenId} not found`);
+    this.name = 'ApiTokenNotFoundError';
+  }
+}
+
+/**
+ * Thrown when a service account does not exist on the project
+ */
+export class ServiceAccountNotFoundError extends Error {
+  constructor(public readonly accountId: string) {
+    super(`Service account ${accountId} not found`);
+    this.name = 'ServiceAccountNotFoundError';
+  }
+}
+
+/**
+ * Fields of a token set by a request
+ */
+export interface ApiTokenInput {
+  name?: unknown;
+  scopes?: unknown;
+  /** Days until the token expires; null or omitted for no expiry */
+  expiresInDays?: unknown;
+}
+
+/**
+ * Fields of a service account set by a request
+ */
+export interface ServiceAccountInput {
+  name?: unknown;
+  description?: unknown;
+  role?: unknown;
+}
+
+function validateName(name: unknown): string | null {
+  if (typeof name !== 'string' || !name.trim()) {
+    return 'name is required';
+  }
+  if (name.trim().length > MAX_API_TOKEN_NAME_LENGTH) {
+    return `name must be at most ${MAX_API_TOKEN_NAME_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Validate the fields of a new token from a request
+ * @returns Error message, or null when the fields are valid
+ */
+export function validateApiTokenInput(input: ApiTokenInput): string | null {
+  const nameError = validateName(input.name);
+  if (nameError) return nameError;
+
+  if (!Array.isArray(input.scopes) || input.scopes.length === 0) {
+    return 'scopes must list at least one permission';
+  }
+  const unknown = input.scopes.find((scope) => !isPermission(scope));
+  if (unknown !== undefined) {
+    return `Unknown scope "${String(unknown)}"`;
+  }
+
+  if (
+    input.expiresInDays !== undefined &&
+    input.expiresInDays !== null &&
+    (!Number.isInteger(input.expiresInDays) ||
+      (input.expiresInDays as number) < 1 ||
+      (input.expiresInDays as number) > MAX_API_TOKEN_DAYS)
+  ) {
+    return `expiresInDays must be a whole number from 1 to ${MAX_API_TOKEN_DAYS}`;
+  }
+  return null;
+}
+
+/**
+ * Validate the fields of a new service account from a request
+ * @returns Error message, or null when the fields are valid
+ */
+export function validateServiceAccountInput(input: ServiceAccountInput): string | null {
+  const nameError = validateName(input.name);
+  if (nameError) return nameError;
+
+  if (input.description !== undefined && input.description !== null && typeof input.description !== 'string') {
+    return 'description must be a string';
+  }
+  if (!SERVICE_ACCOUNT_ROLES.includes(input.role as ServiceAccountRole)) {
+    return `role must be one of: ${SERVICE_ACCOUNT_ROLES.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Hash a token for storage and lookup
+ */
+export function hashApiToken(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+/**
+ * What an authenticated token acts as
+ */
+export interface ApiTokenPrincipal {
+  tokenId: string;
+  scopes: PermissionType[];
+  serviceAccountId: string | null;
+  /** Project a service account token is limited to */
+  projectId: string | null;
+  user: {
+    id: string;
+    email: string;
+    name: string | null;
+    role: string;
+    isActive: boolean;
+  };
+}
+
+interface ApiTokenRow {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: unknown;
+  serviceAccountId: string | null;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+interface ServiceAccountRow {
+  id: string;
+  projectId: string;
+  userId: string;
+  name: string;
+  description: string | null;
+  createdAt: Date;
+  tokens: ApiTokenRow[];
+  user: { projectMembers: Array<{ role: string }> };
+}
+
+const TOKEN_SELECT = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  serviceAccountId: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true
+} as const;
+
+function parseScopes(value: unknown): PermissionType[] {
+  return Array.isArray(value) ? value.filter(isPermission) : [];
+}
+
+function toApiToken(row: ApiTokenRow): ApiToken {
+  return { ...row, scopes: parseScopes(row.scopes) };
+}
+
+function toServiceAccount(row: ServiceAccountRow): ServiceAccount {
+  return {
+    id: row.id,
+    projectId: row.projectId,
+    name: row.name,
+    description: row.description,
+    role: (row.user.projectMembers[0]?.role ?? 'VIEWER') as ServiceAccountRole,
+    tokens: row.tokens.map(toApiToken),
+    createdAt: row.createdAt
+  };
+}
+
+export class ApiTokenService {
+  /**
+   * Get a user's personal tokens, newest first
+   */
+  async listPersonalTokens(userId: string): Promise<ApiToken[]> {
+    const rows: ApiTokenRow[] = await prisma.apiToken.findMany({
+      where: { userId, serviceAccountId: null },
+      select: TOKEN_SELECT,
+      orderBy: { createdAt: 'desc' }
+    });
+    return rows.map(toApiToken);
+  }
+
+  /**
+   * Create a personal token acting as the user
+   */
+  async createPersonalToken(
+    userId: string,
+    input: { name: string; scopes: PermissionType[]; expiresInDays?: number | null }
+  ): Promise<CreatedApiToken> {
+    return this.issueToken(userId, null, input);
+  }
+
+  /**
+   * Revoke one of a user's personal tokens
+   * @throws ApiTokenNotFoundError if the user has no such personal token
+   */
+  async revokePersonalToken(userId: string, tokenId: string): Promise<ApiToken> {
+    const token = await prisma.apiToken.findFirst({
+      where: { id: tokenId, userId, serviceAccountId: null },
+      select: { id: true, revokedAt: true }
+    });
+    if (!token) {
+      throw new ApiTokenNotFoundError(tokenId);
+    }
+    return this.revoke(token);
+  }
+
+  /**
+   * Get the service accounts of a project with their tokens
+   */
+  async listServiceAccounts(projectId: string): Promise<ServiceAccount[]> {
+    const rows: ServiceAccountRow[] = await prisma.serviceAccount.findMany({
+      where: { projectId },
+      include: {
+        tokens: { select: TOKEN_SELECT, orderBy: { createdAt: 'desc' } },
+        user: { select: { projectMembers: { where: { projectId }, select: { role: true } } } }
+      },
+      orderBy: { name: 'asc' }
+    });
+    return rows.map(toServiceAccount);
+  }
+
+  /**
+   * Create a service account: a user that is a member of the project with
+   * the given role, and can only act through its tokens
+   */
+  async createServiceAccount(
+    projectId: string,
+    createdById: string,
+    input: { name: string; description?: string | null; role: ServiceAccountRole }
+  ): Promise<ServiceAccount> {
+    const name = input.name.trim();
+
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const user = await tx.user.create({
+        data: {
+          email: `service-account-${randomBytes(8).toString('hex')}@${projectId}.invalid`,
+          name,
+          role: 'VIEWER'
+        }
+      });
+      await tx.projectMember.create({
+        data: { projectId, userId: user.id, role: input.role }
+      });
+      const account = await tx.serviceAccount.create({
+        data: {
+          projectId,
+          userId: user.id,
+          name,
+          description: input.description?.trim() || null,
+          createdById
+        }
+      });
+
+      return {
+        id: account.id,
+        projectId,
+        name,
+        description: account.description,
+        role: input.role,
+        tokens: [],
+        createdAt: account.createdAt
+      };
+    });
+  }
+
+  /**
+   * Delete a service account with its membership and tokens
+   * @throws ServiceAccountNotFoundError if it is not on the project
+   */
+  async deleteServiceAccount(projectId: string, accountId: string): Promise<void> {
+    const account = await this.getServiceAccount(projectId, accountId);
+    // The account, its membership and its tokens go with its user
+    await prisma.user.delete({ where: { id: account.userId } });
+  }
+
+  /**
+   * Create a token for a service account
+   * @throws ServiceAccountNotFoundError if it is not on the project
+   */
+  async createServiceAccountToken(
+    projectId: string,
+    accountId: string,
+    input: { name: string; scopes: PermissionType[]; expiresInDays?: number | null }
+  ): Promise<CreatedApiToken> {
+    const account = await this.getServiceAccount(projectId, accountId);
+    return this.issueToken(account.userId, account.id, input);
+  }
+
+  /**
+   * Revoke a token of a service account
+   * @throws ServiceAccountNotFoundError if it is not on the project
+   * @throws ApiTokenNotFoundError if the account has no such token
+   */
+  async revokeServiceAccountToken(projectId: string, accountId: string, tokenId: string): Promise<ApiToken> {
+    await this.getServiceAccount(projectId, accountId);
+    const token = await prisma.apiToken.findFirst({
+      where: { id: tokenId, serviceAccountId: accountId },
+      select: { id: true, revokedAt: true }
+    });
+    if (!token) {
+      throw new ApiTokenNotFoundError(tokenId);
+    }
+    return this.revoke(token);
+  }
+
+  /**
+   * Resolve a bearer token to what it acts as, recording its use
+   * @returns null for unknown, revoked or expired tokens
+   */
+  async authenticate(secret: string, now: Date = new Date()): Promise<ApiTokenPrincipal | null> {
+    if (!secret.startsWith(API_TOKEN_PREFIX)) {
+      return null;
+    }
+
+    const token = await prisma.apiToken.findUnique({
+      where: { tokenHash: hashApiToken(secret) },
+      include: {
+        user: { select: { id: true, email: true, name: true, role: true, isActive: true } },
+        serviceAccount: { select: { projectId: true } }
+      }
+    });
+
+    if (!token || token.revokedAt || (token.expiresAt && token.expiresAt <= now)) {
+      return null;
+    }
+
+    if (!token.lastUsedAt || now.getTime() - token.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+      await prisma.apiToken.update({ where: { id: token.id }, data: { lastUsedAt: now } });
+    }
+
+    return {
+      tokenId: token.id,
+      scopes: parseScopes(token.scopes),
+      serviceAccountId: token.serviceAccountId,
+      projectId: token.serviceAccount?.projectId ?? null,
+      user: token.user
+    };
+  }
+
+  private async getServiceAccount(
+    projectId: string,
+    accountId: string
+  ): Promise<{ id: string; userId: string }> {
+    const account = await prisma.serviceAccount.findUnique({
+      where: { id: accountId },
+      select: { id: true, userId: true, projectId: true }
+    });
+    if (!account || account.projectId !== projectId) {
+      throw new ServiceAccountNotFoundError(accountId);
+    }
+    return account;
+  }
+
+  private async issueToken(
+    userId: string,
+    serviceAccountId: string | null,
+    input: { name: string; scopes: PermissionType[]; expiresInDays?: number | null }
+  ): Promise<CreatedApiToken> {
+    const secret = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+    const row: ApiTokenRow = await prisma.apiToken.create({
+      data: {
+        name: input.name.trim(),
+        tokenHash: hashApiToken(secret),
+        prefix: secret.slice(0, API_TOKEN_DISPLAY_LENGTH),
+        scopes: [...new Set(input.scopes)],
+        userId,
+        serviceAccountId,
+        expiresAt: input.expiresInDays ? new Date(Date.now() + input.expiresInDays * DAY_MS) : null
+      },
+      select: TOKEN_SELECT
+    });
+
+    return { token: toApiToken(row), secret };
+  }
+
+  /**
+   * Revoke a token (revoking it again keeps the first revocation time)
+   */
+  private async revoke(token: { id: string; revokedAt: Date | null }): Promise<ApiToken> {
+    const row: ApiTokenRow = await prisma.apiToken.update({
+      where: { id: token.id },
+      data: { revokedAt: token.revokedAt ?? new Date() },
+      select: TOKEN_SELECT
+    });
+    return toApiToken(row);
+  }
+}
+
+export const apiTokenService = new ApiTokenService();
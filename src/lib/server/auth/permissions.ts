@@ -53,6 +53,18 @@ export const Permission = {
 
 export type PermissionType = (typeof Permission)[keyof typeof Permission];
 
+/**
+ * Every permission, e.g. for choosing API token scopes
+ */
+export const ALL_PERMISSIONS: PermissionType[] = Object.values(Permission);
+
+/**
+ * Check if a value names a permission
+ */
+export function isPermission(value: unknown): value is PermissionType {
+  return ALL_PERMISSIONS.includes(value as PermissionType);
+}
+
 /**
  * Permissions granted to each role
  */
@@ -2,18 +2,24 @@
  * TASK-098: Route Guard Utilities
  *
  * Server-side utilities for protecting API routes and pages.
+ * Requests authenticate with a browser session or an
+ * `Authorization: Bearer` API token limited to its scopes. Tokens with
+ * only view scopes are read-only on every route, including routes that
+ * just require sign-in.
  */
 
 import { error, redirect } from '@sveltejs/kit';
 import type { RequestEvent } from '@sveltejs/kit';
 import { getUserProjectRole } from './user-service';
+import { apiTokenService } from './api-tokens';
 import {
   hasPermission,
   isAtLeastRole,
   type RoleType,
   type PermissionType,
   Role,
-  Permission
+  Permission,
+  ALL_PERMISSIONS
 } from './permissions';
 
 /**
@@ -28,6 +34,131 @@ export interface AuthSession {
     role?: string;
     isActive?: boolean;
   };
+  /** Set when the request authenticated with an API token */
+  token?: {
+    id: string;
+    /** Permissions the token is limited to */
+    scopes: PermissionType[];
+    serviceAccountId: string | null;
+    /** Project a service account token is limited to */
+    projectId: string | null;
+  };
+}
+
+/**
+ * Scope an API token needs to pass a project role check: the permission
+ * that role is for
+ */
+const ROLE_SCOPES: Record<RoleType, PermissionType> = {
+  [Role.VIEWER]: Permission.PROJECT_VIEW,
+  [Role.MEMBER]: Permission.TICKET_EDIT,
+  [Role.ADMIN]: Permission.PROJECT_SETTINGS,
+  [Role.OWNER]: Permission.PROJECT_DELETE
+};
+
+/** Scopes that let a token change data; the `*:view` scopes are read-only */
+const WRITE_SCOPES: PermissionType[] = ALL_PERMISSIONS.filter((scope) => !scope.endsWith(':view'));
+
+/** Request methods that do not change data */
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/** Token sessions per request, so a token is looked up once per request */
+const bearerSessions = new WeakMap<Request, Promise<AuthSession | null>>();
+
+/**
+ * Get the token of an `Authorization: Bearer <token>` header
+ */
+export function getBearerToken(request: Request | undefined): string | null {
+  const header = request?.headers.get('authorization');
+  const match = header ? /^Bearer\s+(\S+)$/i.exec(header) : null;
+  return match ? match[1] : null;
+}
+
+async function resolveBearerSession(token: string): Promise<AuthSession | null> {
+  const principal = await apiTokenService.authenticate(token);
+  if (!principal) {
+    return null;
+  }
+
+  return {
+    user: principal.user,
+    token: {
+      id: principal.tokenId,
+      scopes: principal.scopes,
+      serviceAccountId: principal.serviceAccountId,
+      projectId: principal.projectId
+    }
+  };
+}
+
+/**
+ * Authenticate a request by its API token
+ * Returns the session acting as the token's user, or null without a bearer token
+ * @throws 401 for an unknown, revoked or expired token
+ */
+export async function authenticateBearer(event: RequestEvent): Promise<AuthSession | null> {
+  const token = getBearerToken(event.request);
+  if (!token) {
+    return null;
+  }
+
+  let pending = bearerSessions.get(event.request);
+  if (!pending) {
+    pending = resolveBearerSession(token);
+    bearerSessions.set(event.request, pending);
+  }
+
+  const session = await pending;
+  if (!session) {
+    throw error(401, 'Invalid or expired API token');
+  }
+  return session;
+}
+
+/**
+ * Get the session of a request: its API token's, else its browser session's
+ */
+async function getSession(event: RequestEvent): Promise<AuthSession | null> {
+  return (await authenticateBearer(event)) ?? (await event.locals.auth());
+}
+
+/**
+ * Check that an API token may use a permission on a project
+ * (browser sessions are only limited by role)
+ */
+function requireTokenScope(session: AuthSession, projectId: string, permission: PermissionType): void {
+  if (!session.token) {
+    return;
+  }
+
+  if (session.token.projectId && session.token.projectId !== projectId) {
+    throw error(403, 'API token is not valid for this project');
+  }
+
+  if (!session.token.scopes.includes(permission)) {
+    throw error(403, `API token scope ${permission} required`);
+  }
+}
+
+/**
+ * Whether a request only reads data
+ */
+export function isReadRequest(event: RequestEvent): boolean {
+  return READ_METHODS.includes(event.request?.method ?? 'GET');
+}
+
+/**
+ * Check that an API token may change data when the request does, so
+ * read-only tokens cannot write through routes without a project check
+ */
+function requireTokenWriteScope(session: AuthSession, event: RequestEvent): void {
+  if (!session.token || isReadRequest(event)) {
+    return;
+  }
+
+  if (!session.token.scopes.some((scope) => WRITE_SCOPES.includes(scope))) {
+    throw error(403, 'API token is read-only');
+  }
 }
 
 /**
@@ -35,7 +166,7 @@ export interface AuthSession {
  * Returns the session or throws a redirect/error
  */
 export async function requireAuth(event: RequestEvent): Promise<AuthSession> {
-  const session = await event.locals.auth();
+  const session = await getSession(event);
 
   if (!session?.user) {
     if (event.url.pathname.startsWith('/api/')) {
@@ -53,9 +184,24 @@ export async function requireAuth(event: RequestEvent): Promise<AuthSession> {
     throw redirect(303, '/auth/deactivated');
   }
 
+  requireTokenWriteScope(session, event);
+
   return session;
 }
 
+/**
+ * Reject a session authenticated with an API token, for actions only a
+ * signed-in user may take (e.g. managing tokens)
+ */
+export function rejectApiToken(
+  session: AuthSession,
+  message = 'API tokens cannot be used for this route'
+): void {
+  if (session.token) {
+    throw error(403, message);
+  }
+}
+
 /**
  * Require a specific global role
  */
@@ -65,6 +211,9 @@ export async function requireRole(
 ): Promise<AuthSession> {
   const session = await requireAuth(event);
 
+  // Tokens are scoped to project permissions, which global roles are not
+  rejectApiToken(session);
+
   const userRole = (session.user.role as RoleType) || Role.VIEWER;
 
   if (!isAtLeastRole(userRole, requiredRole)) {
@@ -94,6 +243,8 @@ export async function requireProjectMember(
     throw error(403, `Role ${minRole} or higher required for this action`);
   }
 
+  requireTokenScope(session, projectId, ROLE_SCOPES[minRole ?? Role.VIEWER]);
+
   return { session, role };
 }
 
@@ -106,7 +257,21 @@ export async function requireProjectPermission(
   permission: PermissionType
 ): Promise<{ session: AuthSession; role: RoleType }> {
   const session = await requireAuth(event);
+  const role = await checkProjectPermission(session, projectId, permission);
 
+  return { session, role };
+}
+
+/**
+ * Check that an authenticated session has a permission on a project
+ * Returns the session's project role
+ * @throws 403 for non-members, missing permissions or token scopes
+ */
+export async function checkProjectPermission(
+  session: AuthSession,
+  projectId: string,
+  permission: PermissionType
+): Promise<RoleType> {
   const role = await getUserProjectRole(session.user.id, projectId);
 
   if (!role) {
@@ -117,7 +282,9 @@ export async function requireProjectPermission(
     throw error(403, `Permission denied: ${permission}`);
   }
 
-  return { session, role };
+  requireTokenScope(session, projectId, permission);
+
+  return role;
 }
 
 /**
@@ -164,7 +331,13 @@ export async function requireMemberManagePermission(
  * Get optional session (doesn't throw)
  */
 export async function getOptionalSession(event: RequestEvent): Promise<AuthSession | null> {
-  const session = await event.locals.auth();
+  let session: AuthSession | null;
+  try {
+    session = await getSession(event);
+  } catch {
+    // Invalid API token
+    return null;
+  }
 
   if (!session?.user || session.user.isActive === false) {
     return null;
@@ -192,5 +365,11 @@ export async function getOptionalProjectRole(
     return null;
   }
 
+  try {
+    requireTokenScope(session, projectId, Permission.PROJECT_VIEW);
+  } catch {
+    return null;
+  }
+
   return { session, role };
 }
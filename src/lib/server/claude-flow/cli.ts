@@ -3,6 +3,10 @@
  *
  * Provides a wrapper around the Claude Flow CLI for executing commands
  * with proper stdout/stderr capture, timeout handling, and JSON parsing.
+ *
+ * The CLI is run with `npx @claude-flow/cli@latest` unless CLAUDE_FLOW_CLI
+ * names another command, e.g. the offline simulator:
+ * CLAUDE_FLOW_CLI="node scripts/claude-flow-sim.js"
  */
 
 import { spawn, type ChildProcess } from 'child_process';
@@ -15,6 +19,8 @@ export interface CommandResult {
 	stderr: string;
 	exitCode: number;
 	timedOut: boolean;
+	/** Whether the process was stopped through CommandOptions.signal */
+	cancelled?: boolean;
 	duration: number;
 }
 
@@ -28,8 +34,117 @@ export interface CommandOptions {
 	cwd?: string;
 	/** Additional environment variables */
 	env?: Record<string, string>;
-	/** Whether to stream output via callback */
+	/** Called with each complete line of output as it is produced */
 	onOutput?: (line: string, isStderr: boolean) => void;
+	/** Called with the PID once the process has been spawned */
+	onSpawn?: (pid: number) => void;
+	/** Aborting stops the process tree; the result keeps the partial output */
+	signal?: AbortSignal;
+}
+
+/**
+ * Command the CLI is run with
+ */
+export interface CLICommand {
+	/** Executable (or full shell command) to run */
+	command: string;
+	/** Arguments placed before the Claude Flow command */
+	args: string[];
+}
+
+/**
+ * Environment variable overriding the CLI command
+ */
+export const CLAUDE_FLOW_CLI_ENV = 'CLAUDE_FLOW_CLI';
+
+/**
+ * Resolve the CLI command: CLAUDE_FLOW_CLI if set, else the published CLI
+ */
+export function resolveCLICommand(env: NodeJS.ProcessEnv = process.env): CLICommand {
+	const override = env[CLAUDE_FLOW_CLI_ENV]?.trim();
+	return override
+		? { command: override, args: [] }
+		: { command: 'npx', args: ['@claude-flow/cli@latest'] };
+}
+
+/**
+ * Grace period between SIGTERM and SIGKILL when stopping a process
+ */
+export const KILL_GRACE_PERIOD_MS = 5000;
+
+/**
+ * Stop a spawned CLI process and its children
+ *
+ * Sends SIGTERM to the process group (processes are spawned as group
+ * leaders), then SIGKILL if anything is still alive after the grace period.
+ *
+ * @param pid - PID of the process group leader
+ * @param gracePeriodMs - Time to wait before SIGKILL
+ * @returns Whether the SIGTERM could be delivered
+ */
+export function killProcessTree(pid: number, gracePeriodMs = KILL_GRACE_PERIOD_MS): boolean {
+	const target = process.platform === 'win32' ? pid : -pid;
+
+	const send = (signal: NodeJS.Signals): boolean => {
+		try {
+			process.kill(target, signal);
+			return true;
+		} catch {
+			// Fall back to the leader alone if it is not a group leader
+			try {
+				process.kill(pid, signal);
+				return true;
+			} catch {
+				return false;
+			}
+		}
+	};
+
+	if (!send('SIGTERM')) return false;
+
+	const timer = setTimeout(() => send('SIGKILL'), gracePeriodMs);
+	timer.unref?.();
+	return true;
+}
+
+/**
+ * Check whether any process of a process group is still alive
+ *
+ * @param pid - PID of the process group leader
+ */
+export function isProcessTreeAlive(pid: number): boolean {
+	const exists = (target: number): boolean => {
+		try {
+			// Signal 0 only checks for existence/permission
+			process.kill(target, 0);
+			return true;
+		} catch (error) {
+			// EPERM means the process exists but belongs to someone else
+			return (error as NodeJS.ErrnoException).code === 'EPERM';
+		}
+	};
+
+	return process.platform === 'win32' ? exists(pid) : exists(-pid) || exists(pid);
+}
+
+/**
+ * Wait until a process group stopped with killProcessTree has exited
+ *
+ * @param pid - PID of the process group leader
+ * @param timeoutMs - How long to wait; cover the SIGKILL grace period
+ * @returns Whether the group exited in time
+ */
+export async function waitForProcessTreeExit(
+	pid: number,
+	timeoutMs: number,
+	pollIntervalMs = 100
+): Promise<boolean> {
+	const deadline = Date.now() + timeoutMs;
+	while (isProcessTreeAlive(pid)) {
+		if (Date.now() >= deadline) return false;
+		await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+	}
+	return true;
 }
 
 /**
@@ -47,6 +162,35 @@ export class CLIError extends Error {
 	}
 }
 
+/**
+ * Split streamed output into complete lines
+ *
+ * Chunks from a pipe can end mid-line; the partial line is held back
+ * until its newline arrives (or until flush() at process exit).
+ */
+export function createLineSplitter(onLine: (line: string) => void): {
+	push: (chunk: string) => void;
+	flush: () => void;
+} {
+	let partial = '';
+
+	return {
+		push(chunk: string) {
+			const lines = (partial + chunk).split('\n');
+			partial = lines.pop() ?? '';
+			for (const line of lines) {
+				const text = line.replace(/\r$/, '');
+				if (text) onLine(text);
+			}
+		},
+		flush() {
+			const text = partial.replace(/\r$/, '');
+			partial = '';
+			if (text) onLine(text);
+		}
+	};
+}
+
 /**
  * Claude Flow CLI wrapper class
  *
@@ -55,8 +199,16 @@ export class CLIError extends Error {
  */
 export class ClaudeFlowCLI {
 	private readonly defaultTimeout = 300000; // 5 minutes
-	private readonly cliCommand = 'npx';
-	private readonly cliArgs = ['@claude-flow/cli@latest'];
+	private readonly cliCommand: string;
+	private readonly cliArgs: string[];
+
+	/**
+	 * @param cli - Command to run the CLI with (default: resolveCLICommand())
+	 */
+	constructor(cli: CLICommand = resolveCLICommand()) {
+		this.cliCommand = cli.command;
+		this.cliArgs = cli.args;
+	}
 
 	/**
 	 * Execute a Claude Flow CLI command
@@ -75,6 +227,7 @@ export class ClaudeFlowCLI {
 			const timeout = options.timeout ?? this.defaultTimeout;
 			const startTime = Date.now();
 			let timedOut = false;
+			let cancelled = false;
 			let proc: ChildProcess;
 
 			const fullArgs = [...this.cliArgs, command, ...args];
@@ -83,24 +236,29 @@ export class ClaudeFlowCLI {
 				proc = spawn(this.cliCommand, fullArgs, {
 					cwd: options.cwd ?? process.cwd(),
 					env: { ...process.env, ...options.env },
-					shell: true
+					shell: true,
+					// Own process group so the whole tree can be signalled
+					detached: process.platform !== 'win32'
 				});
 			} catch (error) {
 				reject(new Error(`Failed to spawn CLI process: ${error}`));
 				return;
 			}
 
+			if (proc.pid !== undefined) {
+				options.onSpawn?.(proc.pid);
+			}
+
 			let stdout = '';
 			let stderr = '';
+			const stdoutLines = createLineSplitter(line => options.onOutput?.(line, false));
+			const stderrLines = createLineSplitter(line => options.onOutput?.(line, true));
 
 			proc.stdout?.on('data', (data: Buffer) => {
 				const chunk = data.toString();
 				stdout += chunk;
 				if (options.onOutput) {
-					// Split by lines and emit each
-					chunk.split('\n').filter(Boolean).forEach(line => {
-						options.onOutput!(line, false);
-					});
+					stdoutLines.push(chunk);
 				}
 			});
 
@@ -108,38 +266,54 @@ export class ClaudeFlowCLI {
 				const chunk = data.toString();
 				stderr += chunk;
 				if (options.onOutput) {
-					chunk.split('\n').filter(Boolean).forEach(line => {
-						options.onOutput!(line, true);
-					});
+					stderrLines.push(chunk);
 				}
 			});
 
+			const stop = () => {
+				if (proc.pid !== undefined) {
+					killProcessTree(proc.pid);
+				} else {
+					proc.kill('SIGTERM');
+				}
+			};
+
 			const timer = setTimeout(() => {
 				timedOut = true;
-				proc.kill('SIGTERM');
-				// Give process time to clean up, then force kill
-				setTimeout(() => {
-					if (!proc.killed) {
-						proc.kill('SIGKILL');
-					}
-				}, 5000);
+				stop();
 			}, timeout);
 
+			const onAbort = () => {
+				cancelled = true;
+				stop();
+			};
+			if (options.signal?.aborted) {
+				onAbort();
+			} else {
+				options.signal?.addEventListener('abort', onAbort, { once: true });
+			}
+
 			proc.on('close', (code: number | null) => {
 				clearTimeout(timer);
+				options.signal?.removeEventListener('abort', onAbort);
+				// Emit any trailing output that did not end with a newline
+				stdoutLines.flush();
+				stderrLines.flush();
 				const duration = Date.now() - startTime;
 
 				resolve({
 					stdout: stdout.trim(),
 					stderr: stderr.trim(),
-					exitCode: code ?? (timedOut ? -1 : 0),
+					exitCode: code ?? (timedOut || cancelled ? -1 : 0),
 					timedOut,
+					cancelled,
 					duration
 				});
 			});
 
 			proc.on('error', (error: Error) => {
 				clearTimeout(timer);
+				options.signal?.removeEventListener('abort', onAbort);
 				reject(new Error(`CLI process error: ${error.message}`));
 			});
 		});
@@ -7,6 +7,8 @@
 
 import { EventEmitter } from 'events';
 import { claudeFlowCLI, type CommandOptions, type CommandResult } from './cli';
+import type { JobStore, JobUpdate, PersistedCommandOptions, PersistedJob } from './job-store';
+import { getTicketRoomId } from '../socket/rooms';
 
 /**
  * Status of a job
@@ -46,12 +48,18 @@ export interface JobConfig {
 export interface JobProgress {
 	/** Job ID */
 	jobId: string;
+	/** Associated project ID */
+	projectId?: string;
+	/** Associated ticket ID */
+	ticketId?: string;
 	/** Current status */
 	status: JobStatus;
 	/** Progress percentage (0-100) */
 	progress?: number;
 	/** Current output line */
 	output?: string;
+	/** 1-based number of the output line within this run of the job */
+	line?: number;
 	/** Whether output is stderr */
 	isError?: boolean;
 	/** Timestamp of update */
@@ -90,8 +98,20 @@ interface QueuedJob {
 	completedAt?: string;
 	result?: CommandResult;
 	error?: string;
+	/** PID of the spawned CLI process while running */
+	pid?: number;
+	/** Number of times execution has been started (including before restarts) */
+	attempts: number;
 }
 
+/**
+ * Extra environment variables for a job, computed each time it starts
+ *
+ * Used for secrets (such as agent credentials) that must not be
+ * persisted with the job and must be fresh when a recovered job re-runs.
+ */
+export type JobEnvProvider = (jobId: string, config: JobConfig) => Record<string, string>;
+
 /**
  * Executor configuration
  */
@@ -102,6 +122,8 @@ export interface ExecutorConfig {
 	defaultTimeout?: number;
 	/** Whether to start processing automatically */
 	autoStart?: boolean;
+	/** Durable job store (jobs are only kept in memory when omitted) */
+	store?: JobStore;
 }
 
 /**
@@ -139,11 +161,17 @@ export class CommandExecutor extends EventEmitter {
 	private defaultTimeout: number;
 	private isProcessing: boolean = false;
 	private jobCounter: number = 0;
+	private store: JobStore | null;
+	private envProvider: JobEnvProvider | null = null;
+	private storeWrites: Map<string, Promise<void>> = new Map();
+	/** Abort controllers of running jobs, used to stop their process */
+	private abortControllers: Map<string, AbortController> = new Map();
 
 	constructor(config: ExecutorConfig = {}) {
 		super();
 		this.maxConcurrent = config.maxConcurrent ?? 3;
 		this.defaultTimeout = config.defaultTimeout ?? 300000; // 5 minutes
+		this.store = config.store ?? null;
 
 		if (config.autoStart !== false) {
 			this.startProcessing();
@@ -171,12 +199,14 @@ export class CommandExecutor extends EventEmitter {
 				metadata: config.metadata
 			},
 			status: 'pending',
-			createdAt: new Date().toISOString()
+			createdAt: new Date().toISOString(),
+			attempts: 0
 		};
 
 		this.queue.push(job);
 		this.sortQueue();
 
+		this.persistCreate(job);
 		this.emit('job:queued', job);
 
 		// Trigger processing
@@ -185,6 +215,70 @@ export class CommandExecutor extends EventEmitter {
 		return id;
 	}
 
+	/**
+	 * Re-enqueue jobs loaded from the job store after a restart
+	 *
+	 * Jobs keep their original IDs and creation order and are not
+	 * re-persisted. Only pending jobs are accepted.
+	 *
+	 * @param jobs - Persisted jobs to restore
+	 * @returns IDs of the restored jobs
+	 */
+	restore(jobs: PersistedJob[]): string[] {
+		const restored: string[] = [];
+
+		for (const persisted of jobs) {
+			if (persisted.status !== 'pending') continue;
+			if (this.getJobStatus(persisted.id) !== null) continue;
+
+			const job: QueuedJob = {
+				id: persisted.id,
+				config: {
+					command: persisted.command,
+					args: persisted.args,
+					options: persisted.options,
+					priority: persisted.priority,
+					projectId: persisted.projectId,
+					ticketId: persisted.ticketId,
+					metadata: persisted.metadata
+				},
+				status: 'pending',
+				createdAt: persisted.createdAt,
+				attempts: persisted.attempts
+			};
+
+			this.queue.push(job);
+			restored.push(job.id);
+			this.emit('job:queued', job);
+		}
+
+		this.sortQueue();
+		this.processNext();
+
+		return restored;
+	}
+
+	/**
+	 * Set or replace the provider of per-run job environment variables
+	 */
+	setJobEnvProvider(provider: JobEnvProvider | null): void {
+		this.envProvider = provider;
+	}
+
+	/**
+	 * Set or replace the durable job store
+	 */
+	setJobStore(store: JobStore | null): void {
+		this.store = store;
+	}
+
+	/**
+	 * Wait for all pending job store writes to settle
+	 */
+	async flushStore(): Promise<void> {
+		await Promise.all(this.storeWrites.values());
+	}
+
 	/**
 	 * Get the status of a job
 	 *
@@ -215,7 +309,11 @@ export class CommandExecutor extends EventEmitter {
 	}
 
 	/**
-	 * Cancel a pending job
+	 * Cancel a job
+	 *
+	 * Pending jobs are removed from the queue. Running jobs have their
+	 * process tree stopped (SIGTERM, then SIGKILL); they end as
+	 * 'cancelled' with the output produced so far.
 	 *
 	 * @param jobId - Job ID
 	 * @returns Whether the job was cancelled
@@ -225,12 +323,59 @@ export class CommandExecutor extends EventEmitter {
 		if (index !== -1) {
 			const job = this.queue.splice(index, 1)[0];
 			job.status = 'cancelled';
+			job.completedAt = new Date().toISOString();
+			this.persistUpdate(job.id, { status: 'cancelled', completedAt: job.completedAt });
 			this.emit('job:cancelled', jobId);
 			return true;
 		}
+
+		const controller = this.abortControllers.get(jobId);
+		if (controller && !controller.signal.aborted) {
+			controller.abort();
+			return true;
+		}
+
 		return false;
 	}
 
+	/**
+	 * Cancel all pending and running jobs of a ticket
+	 *
+	 * @param ticketId - Ticket ID
+	 * @returns IDs of the jobs that were cancelled
+	 */
+	cancelByTicket(ticketId: string): string[] {
+		const jobIds = [
+			...this.queue.filter(j => j.config.ticketId === ticketId).map(j => j.id),
+			...Array.from(this.running.values())
+				.filter(j => j.config.ticketId === ticketId)
+				.map(j => j.id)
+		];
+
+		return jobIds.filter(jobId => this.cancel(jobId));
+	}
+
+	/**
+	 * Wait until none of a ticket's jobs is running
+	 *
+	 * A cancelled job keeps running until its process tree has exited,
+	 * which can take the whole SIGTERM grace period (see killProcessTree).
+	 *
+	 * @param ticketId - Ticket ID
+	 * @param timeoutMs - Maximum time to wait
+	 * @returns Whether the ticket's jobs stopped before the timeout
+	 */
+	async waitForTicketIdle(ticketId: string, timeoutMs = 15000): Promise<boolean> {
+		const isBusy = () => Array.from(this.running.values()).some(j => j.config.ticketId === ticketId);
+		const deadline = Date.now() + timeoutMs;
+
+		while (isBusy()) {
+			if (Date.now() >= deadline) return false;
+			await new Promise(resolve => setTimeout(resolve, 100));
+		}
+		return true;
+	}
+
 	/**
 	 * Wait for a job to complete
 	 *
@@ -317,10 +462,11 @@ export class CommandExecutor extends EventEmitter {
 	/**
 	 * Get all running jobs
 	 */
-	getRunningJobs(): Array<{ id: string; startedAt: string }> {
+	getRunningJobs(): Array<{ id: string; startedAt: string; ticketId?: string }> {
 		return Array.from(this.running.values()).map(j => ({
 			id: j.id,
-			startedAt: j.startedAt!
+			startedAt: j.startedAt!,
+			ticketId: j.config.ticketId
 		}));
 	}
 
@@ -380,21 +526,40 @@ export class CommandExecutor extends EventEmitter {
 	private async executeJob(job: QueuedJob): Promise<void> {
 		job.status = 'running';
 		job.startedAt = new Date().toISOString();
+		job.attempts++;
 		this.running.set(job.id, job);
+		this.persistUpdate(job.id, {
+			status: 'running',
+			startedAt: job.startedAt,
+			attempts: job.attempts
+		});
 
 		this.emit('job:started', job);
 
 		const startTime = Date.now();
+		let outputLines = 0;
+		const abortController = new AbortController();
+		this.abortControllers.set(job.id, abortController);
 
 		try {
+			const runEnv = this.envProvider?.(job.id, job.config);
 			const options: CommandOptions = {
 				...job.config.options,
+				...(runEnv && { env: { ...job.config.options.env, ...runEnv } }),
 				timeout: job.config.options.timeout ?? this.defaultTimeout,
+				signal: abortController.signal,
+				onSpawn: (pid) => {
+					job.pid = pid;
+					this.persistUpdate(job.id, { pid });
+				},
 				onOutput: (line, isStderr) => {
 					const progress: JobProgress = {
 						jobId: job.id,
+						projectId: job.config.projectId,
+						ticketId: job.config.ticketId,
 						status: 'running',
 						output: line,
+						line: ++outputLines,
 						isError: isStderr,
 						timestamp: new Date().toISOString()
 					};
@@ -404,7 +569,9 @@ export class CommandExecutor extends EventEmitter {
 
 			const result = await claudeFlowCLI.execute(job.config.command, job.config.args, options);
 
-			job.status = result.exitCode === 0 ? 'completed' : 'failed';
+			job.status = result.cancelled || abortController.signal.aborted
+				? 'cancelled'
+				: result.exitCode === 0 ? 'completed' : 'failed';
 			job.completedAt = new Date().toISOString();
 			job.result = result;
 
@@ -420,10 +587,25 @@ export class CommandExecutor extends EventEmitter {
 			this.running.delete(job.id);
 			this.completed.set(job.id, jobResult);
 
+			if (job.status === 'cancelled') {
+				jobResult.error = 'Cancelled';
+			} else if (job.status !== 'completed') {
+				jobResult.error = result.stderr || 'Command failed';
+			}
+
+			this.persistUpdate(job.id, {
+				status: job.status,
+				completedAt: job.completedAt,
+				result,
+				error: jobResult.error,
+				pid: undefined
+			});
+
 			if (job.status === 'completed') {
 				this.emit('job:completed', jobResult);
+			} else if (job.status === 'cancelled') {
+				this.emit('job:cancelled', job.id);
 			} else {
-				jobResult.error = result.stderr || 'Command failed';
 				this.emit('job:failed', jobResult);
 			}
 		} catch (error) {
@@ -443,7 +625,16 @@ export class CommandExecutor extends EventEmitter {
 			this.running.delete(job.id);
 			this.completed.set(job.id, jobResult);
 
+			this.persistUpdate(job.id, {
+				status: 'failed',
+				completedAt: job.completedAt,
+				error: job.error,
+				pid: undefined
+			});
+
 			this.emit('job:failed', jobResult);
+		} finally {
+			this.abortControllers.delete(job.id);
 		}
 
 		// Process next job
@@ -462,6 +653,65 @@ export class CommandExecutor extends EventEmitter {
 		});
 	}
 
+	/**
+	 * Persist a newly submitted job
+	 */
+	private persistCreate(job: QueuedJob): void {
+		this.enqueueWrite(job.id, (store) =>
+			store.create({
+				id: job.id,
+				command: job.config.command,
+				args: job.config.args,
+				options: this.toPersistedOptions(job.config.options),
+				priority: job.config.priority,
+				projectId: job.config.projectId,
+				ticketId: job.config.ticketId,
+				metadata: job.config.metadata,
+				status: job.status,
+				attempts: job.attempts,
+				createdAt: job.createdAt
+			})
+		);
+	}
+
+	/**
+	 * Persist a job state change
+	 */
+	private persistUpdate(jobId: string, update: JobUpdate): void {
+		this.enqueueWrite(jobId, (store) => store.update(jobId, update));
+	}
+
+	/**
+	 * Chain store writes per job so updates never overtake the create.
+	 * Store errors are logged and never fail the job itself.
+	 */
+	private enqueueWrite(jobId: string, write: (store: JobStore) => Promise<void>): void {
+		const store = this.store;
+		if (!store) return;
+
+		const previous = this.storeWrites.get(jobId) ?? Promise.resolve();
+		const next = previous
+			.then(() => write(store))
+			.catch((error) => {
+				console.error(`[Executor] Failed to persist job ${jobId}:`, error);
+			});
+
+		this.storeWrites.set(jobId, next);
+		next.then(() => {
+			if (this.storeWrites.get(jobId) === next) {
+				this.storeWrites.delete(jobId);
+			}
+		});
+	}
+
+	/**
+	 * Strip non-serializable options (callbacks) before persisting
+	 */
+	private toPersistedOptions(options: CommandOptions): PersistedCommandOptions {
+		const { timeout, cwd, env } = options;
+		return JSON.parse(JSON.stringify({ timeout, cwd, env }));
+	}
+
 	/**
 	 * Generate a unique job ID
 	 */
@@ -471,18 +721,31 @@ export class CommandExecutor extends EventEmitter {
 	}
 }
 
+/**
+ * Emit function used by the bridge. When a room is given the event is
+ * only sent to sockets in that room.
+ */
+export type BridgeEmitFn = (event: string, data: unknown, room?: string) => void;
+
 /**
  * WebSocket progress bridge
  *
  * Connects the executor to a WebSocket server for real-time progress updates.
+ * Events of a job attached to a ticket go to that ticket's room, events of
+ * other jobs to their project's room. Job events carry commands and output
+ * from the project's repository, so they are never sent to every socket and
+ * failure details (the job's stderr) stay out of them.
  */
 export class ExecutorWebSocketBridge {
 	private executor: CommandExecutor;
-	private emit: (event: string, data: unknown) => void;
+	private emit: BridgeEmitFn;
+
+	/** Room of each unfinished job, remembered from when it was queued */
+	private jobRooms: Map<string, string> = new Map();
 
 	constructor(
 		executor: CommandExecutor,
-		emitFn: (event: string, data: unknown) => void
+		emitFn: BridgeEmitFn
 	) {
 		this.executor = executor;
 		this.emit = emitFn;
@@ -490,46 +753,75 @@ export class ExecutorWebSocketBridge {
 		this.setupListeners();
 	}
 
+	/**
+	 * Room for a job's events, or null when it belongs to no ticket or project
+	 */
+	private getRoom(job: { ticketId?: string; projectId?: string }): string | null {
+		if (job.ticketId) {
+			return getTicketRoomId(job.ticketId);
+		}
+		return job.projectId ?? null;
+	}
+
+	private emitToRoom(event: string, data: unknown, room: string | null | undefined): void {
+		if (room) {
+			this.emit(event, data, room);
+		}
+	}
+
+	/**
+	 * Room of a finished job, forgotten once its last event is sent
+	 */
+	private takeRoom(jobId: string): string | undefined {
+		const room = this.jobRooms.get(jobId);
+		this.jobRooms.delete(jobId);
+		return room;
+	}
+
 	private setupListeners(): void {
 		this.executor.on('job:queued', (job) => {
-			this.emit('job:queued', {
+			const room = this.getRoom(job.config);
+			if (room) {
+				this.jobRooms.set(job.id, room);
+			}
+
+			this.emitToRoom('job:queued', {
 				jobId: job.id,
 				priority: job.config.priority,
 				command: job.config.command,
 				projectId: job.config.projectId,
 				ticketId: job.config.ticketId
-			});
+			}, room);
 		});
 
 		this.executor.on('job:started', (job) => {
-			this.emit('job:started', {
+			this.emitToRoom('job:started', {
 				jobId: job.id,
 				startedAt: job.startedAt
-			});
+			}, this.jobRooms.get(job.id) ?? this.getRoom(job.config));
 		});
 
 		this.executor.on('job:progress', (progress) => {
-			this.emit('job:progress', progress);
+			this.emitToRoom('job:progress', progress, this.getRoom(progress));
 		});
 
 		this.executor.on('job:completed', (result) => {
-			this.emit('job:completed', {
+			this.emitToRoom('job:completed', {
 				jobId: result.jobId,
 				duration: result.duration,
 				exitCode: result.result?.exitCode
-			});
+			}, this.takeRoom(result.jobId));
 		});
 
 		this.executor.on('job:failed', (result) => {
-			this.emit('job:failed', {
+			this.emitToRoom('job:failed', {
 				jobId: result.jobId,
-				error: result.error,
 				duration: result.duration
-			});
+			}, this.takeRoom(result.jobId));
 		});
 
 		this.executor.on('job:cancelled', (jobId) => {
-			this.emit('job:cancelled', { jobId });
+			this.emitToRoom('job:cancelled', { jobId }, this.takeRoom(jobId));
 		});
 	}
 }
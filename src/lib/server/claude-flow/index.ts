@@ -11,8 +11,11 @@ export {
 	ClaudeFlowCLI,
 	claudeFlowCLI,
 	CLIError,
+	resolveCLICommand,
+	CLAUDE_FLOW_CLI_ENV,
 	type CommandResult,
-	type CommandOptions
+	type CommandOptions,
+	type CLICommand
 } from './cli';
 
 // Agent management
@@ -55,9 +58,28 @@ export {
 	type JobConfig,
 	type JobProgress,
 	type JobResult,
-	type ExecutorConfig
+	type ExecutorConfig,
+	type BridgeEmitFn
 } from './executor';
 
+// Durable job storage
+export {
+	PrismaJobStore,
+	prismaJobStore,
+	type JobStore,
+	type JobUpdate,
+	type PersistedJob,
+	type PersistedCommandOptions
+} from './job-store';
+
+// Persisted execution output
+export {
+	ExecutionLog,
+	executionLog,
+	MAX_LOG_LINES_PER_TICKET,
+	type ExecutionLogLine
+} from './output-log';
+
 // Error handling and resilience
 export {
 	classifyError,
@@ -0,0 +1,161 @@
+/**
+ * Persistent Job Store
+ *
+ * Durable storage for CommandExecutor jobs so queued and in-flight work
+ * survives a server restart. The executor only depends on the JobStore
+ * interface; the Prisma-backed implementation is wired in at boot by
+ * the workflow job recovery.
+ */
+
+import { prisma } from '../prisma';
+import type { CommandOptions, CommandResult } from './cli';
+import type { JobPriority, JobStatus } from './executor';
+
+/**
+ * Serializable subset of CommandOptions (callbacks are not persisted)
+ */
+export type PersistedCommandOptions = Pick<CommandOptions, 'timeout' | 'cwd' | 'env'>;
+
+/**
+ * Job record as stored in the job store
+ */
+export interface PersistedJob {
+	id: string;
+	command: string;
+	args: string[];
+	options: PersistedCommandOptions;
+	priority: JobPriority;
+	projectId?: string;
+	ticketId?: string;
+	metadata?: Record<string, unknown>;
+	status: JobStatus;
+	pid?: number;
+	attempts: number;
+	result?: CommandResult;
+	error?: string;
+	createdAt: string;
+	startedAt?: string;
+	completedAt?: string;
+}
+
+/**
+ * Fields that can change over the lifetime of a job
+ */
+export type JobUpdate = Partial<
+	Pick<PersistedJob, 'status' | 'pid' | 'attempts' | 'result' | 'error' | 'startedAt' | 'completedAt'>
+>;
+
+/**
+ * Storage backend used by CommandExecutor
+ */
+export interface JobStore {
+	/** Persist a newly submitted job */
+	create(job: PersistedJob): Promise<void>;
+	/** Apply a partial update to a job */
+	update(jobId: string, update: JobUpdate): Promise<void>;
+	/** Jobs that were pending or running (e.g. when the server stopped) */
+	findUnfinished(): Promise<PersistedJob[]>;
+	/** Jobs for a ticket, optionally only those created since a date */
+	findByTicket(ticketId: string, since?: Date): Promise<PersistedJob[]>;
+}
+
+interface ExecutionJobRow {
+	id: string;
+	ticketId: string | null;
+	projectId: string | null;
+	command: string;
+	args: unknown;
+	options: unknown;
+	priority: string;
+	status: string;
+	metadata: unknown;
+	pid: number | null;
+	attempts: number;
+	result: unknown;
+	error: string | null;
+	createdAt: Date;
+	startedAt: Date | null;
+	completedAt: Date | null;
+}
+
+/**
+ * Prisma-backed job store using the ExecutionJob model
+ */
+export class PrismaJobStore implements JobStore {
+	async create(job: PersistedJob): Promise<void> {
+		await prisma.executionJob.create({
+			data: {
+				id: job.id,
+				ticketId: job.ticketId ?? null,
+				projectId: job.projectId ?? null,
+				command: job.command,
+				args: job.args,
+				options: job.options as Record<string, unknown>,
+				priority: job.priority,
+				status: job.status,
+				metadata: (job.metadata ?? {}) as Record<string, unknown>,
+				attempts: job.attempts,
+				createdAt: new Date(job.createdAt)
+			}
+		});
+	}
+
+	async update(jobId: string, update: JobUpdate): Promise<void> {
+		const data: Record<string, unknown> = {};
+		if (update.status !== undefined) data.status = update.status;
+		if ('pid' in update) data.pid = update.pid ?? null;
+		if (update.attempts !== undefined) data.attempts = update.attempts;
+		if (update.result !== undefined) data.result = update.result as unknown as Record<string, unknown>;
+		if (update.error !== undefined) data.error = update.error;
+		if (update.startedAt !== undefined) data.startedAt = new Date(update.startedAt);
+		if (update.completedAt !== undefined) data.completedAt = new Date(update.completedAt);
+
+		await prisma.executionJob.update({
+			where: { id: jobId },
+			data
+		});
+	}
+
+	async findUnfinished(): Promise<PersistedJob[]> {
+		const rows = await prisma.executionJob.findMany({
+			where: { status: { in: ['pending', 'running'] } },
+			orderBy: { createdAt: 'asc' }
+		});
+		return rows.map((row: ExecutionJobRow) => this.toJob(row));
+	}
+
+	async findByTicket(ticketId: string, since?: Date): Promise<PersistedJob[]> {
+		const rows = await prisma.executionJob.findMany({
+			where: {
+				ticketId,
+				...(since ? { createdAt: { gte: since } } : {})
+			},
+			orderBy: { createdAt: 'asc' }
+		});
+		return rows.map((row: ExecutionJobRow) => this.toJob(row));
+	}
+
+	private toJob(row: ExecutionJobRow): PersistedJob {
+		return {
+			id: row.id,
+			command: row.command,
+			args: (row.args as string[]) ?? [],
+			options: (row.options as PersistedCommandOptions) ?? {},
+			priority: row.priority as JobPriority,
+			projectId: row.projectId ?? undefined,
+			ticketId: row.ticketId ?? undefined,
+			metadata: (row.metadata as Record<string, unknown>) ?? undefined,
+			status: row.status as JobStatus,
+			pid: row.pid ?? undefined,
+			attempts: row.attempts,
+			result: (row.result as CommandResult | null) ?? undefined,
+			error: row.error ?? undefined,
+			createdAt: row.createdAt.toISOString(),
+			startedAt: row.startedAt?.toISOString(),
+			completedAt: row.completedAt?.toISOString()
+		};
+	}
+}
+
+// Default singleton instance
+export const prismaJobStore = new PrismaJobStore();
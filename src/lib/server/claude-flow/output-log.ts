@@ -0,0 +1,188 @@
+/**
+ * Execution Output Log
+ *
+ * Persists the live CLI output of ticket jobs so the log survives a page
+ * reload. Lines arrive through CommandExecutor `job:progress` events, are
+ * written in small batches, and each ticket keeps at most
+ * MAX_LOG_LINES_PER_TICKET lines (the oldest are pruned).
+ */
+
+import { prisma } from '../prisma';
+import type { CommandExecutor, JobProgress, JobResult } from './executor';
+
+/**
+ * Maximum number of lines kept per ticket
+ */
+export const MAX_LOG_LINES_PER_TICKET = 2000;
+
+/**
+ * Longer lines are truncated before they are stored
+ */
+export const MAX_LOG_LINE_LENGTH = 2000;
+
+/**
+ * How long lines are buffered before they are written
+ */
+export const LOG_FLUSH_INTERVAL_MS = 1000;
+
+/**
+ * A stored line of execution output
+ */
+export interface ExecutionLogLine {
+	ticketId: string;
+	jobId: string;
+	/** 1-based line number within the job run */
+	line: number;
+	text: string;
+	isError: boolean;
+	timestamp: string;
+}
+
+interface ExecutionLogLineRow {
+	ticketId: string;
+	jobId: string;
+	line: number;
+	text: string;
+	isError: boolean;
+	createdAt: Date;
+}
+
+/**
+ * Buffered, bounded store for ticket execution output
+ */
+export class ExecutionLog {
+	private pending: ExecutionLogLine[] = [];
+	private timer: ReturnType<typeof setTimeout> | null = null;
+	private writes: Promise<void> = Promise.resolve();
+
+	constructor(
+		private readonly maxLinesPerTicket = MAX_LOG_LINES_PER_TICKET,
+		private readonly flushIntervalMs = LOG_FLUSH_INTERVAL_MS
+	) {}
+
+	/**
+	 * Buffer a line of job output. Output of jobs without a ticket is ignored.
+	 */
+	append(progress: JobProgress): void {
+		if (!progress.ticketId || progress.output === undefined) return;
+
+		this.pending.push({
+			ticketId: progress.ticketId,
+			jobId: progress.jobId,
+			line: progress.line ?? 0,
+			text: progress.output.slice(0, MAX_LOG_LINE_LENGTH),
+			isError: progress.isError ?? false,
+			timestamp: progress.timestamp
+		});
+
+		if (!this.timer) {
+			this.timer = setTimeout(() => {
+				this.timer = null;
+				void this.flush();
+			}, this.flushIntervalMs);
+			this.timer.unref?.();
+		}
+	}
+
+	/**
+	 * Write buffered lines and prune tickets over the retention limit.
+	 * Write errors are logged and the lines are dropped.
+	 */
+	flush(): Promise<void> {
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = null;
+		}
+
+		const batch = this.pending;
+		this.pending = [];
+		if (batch.length === 0) return this.writes;
+
+		this.writes = this.writes.then(async () => {
+			try {
+				await prisma.executionLogLine.createMany({
+					data: batch.map((entry) => ({
+						ticketId: entry.ticketId,
+						jobId: entry.jobId,
+						line: entry.line,
+						text: entry.text,
+						isError: entry.isError,
+						createdAt: new Date(entry.timestamp)
+					}))
+				});
+
+				for (const ticketId of new Set(batch.map((entry) => entry.ticketId))) {
+					await this.prune(ticketId);
+				}
+			} catch (error) {
+				console.error('[ExecutionLog] Failed to persist output:', error);
+			}
+		});
+
+		return this.writes;
+	}
+
+	/**
+	 * Get the most recent output of a ticket, oldest first
+	 */
+	async getTicketLog(ticketId: string, limit = this.maxLinesPerTicket): Promise<ExecutionLogLine[]> {
+		await this.flush();
+
+		const rows: ExecutionLogLineRow[] = await prisma.executionLogLine.findMany({
+			where: { ticketId },
+			orderBy: { id: 'desc' },
+			take: Math.min(limit, this.maxLinesPerTicket)
+		});
+
+		return rows.reverse().map((row) => ({
+			ticketId: row.ticketId,
+			jobId: row.jobId,
+			line: row.line,
+			text: row.text,
+			isError: row.isError,
+			timestamp: row.createdAt.toISOString()
+		}));
+	}
+
+	/**
+	 * Capture output of an executor's jobs; flushes when a job ends
+	 *
+	 * @returns Function that detaches the listeners
+	 */
+	attach(executor: CommandExecutor): () => void {
+		const onProgress = (progress: JobProgress) => this.append(progress);
+		const onFinished = (_result: JobResult | string) => void this.flush();
+
+		executor.on('job:progress', onProgress);
+		executor.on('job:completed', onFinished);
+		executor.on('job:failed', onFinished);
+		executor.on('job:cancelled', onFinished);
+
+		return () => {
+			executor.off('job:progress', onProgress);
+			executor.off('job:completed', onFinished);
+			executor.off('job:failed', onFinished);
+			executor.off('job:cancelled', onFinished);
+		};
+	}
+
+	/**
+	 * Delete the oldest lines of a ticket beyond the retention limit
+	 */
+	private async prune(ticketId: string): Promise<void> {
+		const oldestKept = await prisma.executionLogLine.findFirst({
+			where: { ticketId },
+			orderBy: { id: 'desc' },
+			skip: this.maxLinesPerTicket - 1,
+			select: { id: true }
+		});
+		if (!oldestKept) return;
+
+		await prisma.executionLogLine.deleteMany({
+			where: { ticketId, id: { lt: oldestKept.id } }
+		});
+	}
+}
+
+// Default singleton instance
+export const executionLog = new ExecutionLog();
@@ -0,0 +1,385 @@
+/**
+ * Ticket Comment Service
+ *
+ * Threaded Markdown comments on tickets:
+ * - Replies attach to the root comment of a thread
+ * - Only authors edit their comments; deleted comments stay in the thread
+ *   as placeholders so replies keep their context
+ * - @user mentions notify project members (TICKET_MENTIONED), other thread
+ *   participants and the assignee get TICKET_COMMENT
+ * - @agent mentions (agent types, e.g. @coder) are recorded with the comment
+ * - Changes are pushed to the project's socket room
+ */
+
+import { prisma } from '$lib/server/prisma';
+import { notificationService } from '$lib/server/notifications/notification-service';
+import { getAgentById } from '$lib/server/agents/agent-catalog-data';
+import { emitFromServer } from '$lib/server/socket/server';
+import { AuthorizationError } from '$lib/server/auth/permissions';
+import { extractMentionHandles, getUserMentionHandle } from '$lib/utils/mentions';
+import {
+  MAX_COMMENT_LENGTH,
+  type CommentMention,
+  type CommentReactions,
+  type TicketComment,
+  type TicketCommentThread
+} from '$lib/types/comments';
+import type { CommentEventPayload } from '$lib/types/socket-events';
+
+/**
+ * Length of the comment excerpt used in notifications
+ */
+const NOTIFICATION_EXCERPT_LENGTH = 200;
+
+/**
+ * Author fields returned with comments
+ */
+const AUTHOR_SELECT = { id: true, name: true, email: true, image: true };
+
+/**
+ * Thrown when a comment (or the parent of a reply) does not exist
+ */
+export class CommentNotFoundError extends Error {
+  constructor(public readonly commentId: string) {
+    super(`Comment ${commentId} not found`);
+    this.name = 'CommentNotFoundError';
+  }
+}
+
+/**
+ * Ticket fields needed to comment on it
+ */
+export interface CommentTicket {
+  id: string;
+  title: string;
+  projectId: string;
+  assignedToId?: string | null;
+}
+
+/**
+ * A new comment, written by a user or (with agentId) by an agent
+ */
+export interface CreateCommentInput {
+  body: string;
+  parentId?: string | null;
+  authorId?: string | null;
+  agentId?: string | null;
+  /** Display name of the author for notifications */
+  authorName?: string | null;
+}
+
+/**
+ * Validate a comment body from a request
+ *
+ * @returns Error message, or null when the body is valid
+ */
+export function validateCommentBody(body: unknown): string | null {
+  if (typeof body !== 'string' || !body.trim()) {
+    return 'body is required';
+  }
+  if (body.length > MAX_COMMENT_LENGTH) {
+    return `body must be at most ${MAX_COMMENT_LENGTH} characters`;
+  }
+  return null;
+}
+
+export class CommentService {
+  /**
+   * Get the comment threads of a ticket, oldest first
+   */
+  async listThreads(ticketId: string): Promise<TicketCommentThread[]> {
+    const comments: TicketComment[] = await prisma.ticketComment.findMany({
+      where: { ticketId },
+      include: { author: { select: AUTHOR_SELECT } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const threads = new Map<string, TicketCommentThread>();
+    for (const comment of comments) {
+      if (!comment.parentId) {
+        threads.set(comment.id, { ...comment, replies: [] });
+      }
+    }
+    for (const comment of comments) {
+      if (comment.parentId) {
+        threads.get(comment.parentId)?.replies.push(comment);
+      }
+    }
+
+    return [...threads.values()];
+  }
+
+  /**
+   * Get a comment by ID
+   *
+   * @throws CommentNotFoundError if it does not exist on the ticket
+   */
+  async getComment(ticketId: string, commentId: string): Promise<TicketComment> {
+    const comment: TicketComment | null = await prisma.ticketComment.findUnique({
+      where: { id: commentId },
+      include: { author: { select: AUTHOR_SELECT } }
+    });
+
+    if (!comment || comment.ticketId !== ticketId) {
+      throw new CommentNotFoundError(commentId);
+    }
+
+    return comment;
+  }
+
+  /**
+   * Add a comment to a ticket and notify mentioned users and participants
+   *
+   * @throws CommentNotFoundError if the parent comment does not exist
+   */
+  async createComment(ticket: CommentTicket, input: CreateCommentInput): Promise<TicketComment> {
+    // Replies always attach to the root of the thread
+    let parentId: string | null = null;
+    if (input.parentId) {
+      const parent = await this.getComment(ticket.id, input.parentId);
+      parentId = parent.parentId ?? parent.id;
+    }
+
+    const mentions = await this.resolveMentions(ticket.projectId, input.body);
+
+    const comment: TicketComment = await prisma.ticketComment.create({
+      data: {
+        ticketId: ticket.id,
+        parentId,
+        authorId: input.authorId ?? null,
+        agentId: input.agentId ?? null,
+        body: input.body,
+        mentions
+      },
+      include: { author: { select: AUTHOR_SELECT } }
+    });
+
+    await this.notify(ticket, comment, mentions, [], input.authorName);
+    this.publish('comment:created', ticket.projectId, comment);
+
+    return comment;
+  }
+
+  /**
+   * Edit a comment. Only newly mentioned users are notified.
+   *
+   * @throws CommentNotFoundError if the comment does not exist
+   * @throws AuthorizationError if the user is not the author
+   */
+  async updateComment(
+    ticket: CommentTicket,
+    commentId: string,
+    userId: string,
+    body: string,
+    authorName?: string | null
+  ): Promise<TicketComment> {
+    const existing = await this.getComment(ticket.id, commentId);
+
+    if (existing.deletedAt) {
+      throw new CommentNotFoundError(commentId);
+    }
+    if (existing.authorId !== userId) {
+      throw new AuthorizationError('Only the author can edit a comment');
+    }
+
+    const mentions = await this.resolveMentions(ticket.projectId, body);
+
+    const comment: TicketComment = await prisma.ticketComment.update({
+      where: { id: commentId },
+      data: { body, mentions, editedAt: new Date() },
+      include: { author: { select: AUTHOR_SELECT } }
+    });
+
+    await this.notify(ticket, comment, mentions, existing.mentions, authorName, true);
+    this.publish('comment:updated', ticket.projectId, comment);
+
+    return comment;
+  }
+
+  /**
+   * Delete a comment, keeping a placeholder in its thread
+   *
+   * @param canModerate - Whether the user may delete other users' comments
+   * @throws CommentNotFoundError if the comment does not exist
+   * @throws AuthorizationError if the user may not delete it
+   */
+  async deleteComment(
+    ticket: CommentTicket,
+    commentId: string,
+    userId: string,
+    canModerate = false
+  ): Promise<TicketComment> {
+    const existing = await this.getComment(ticket.id, commentId);
+
+    if (existing.deletedAt) {
+      return existing;
+    }
+    if (existing.authorId !== userId && !canModerate) {
+      throw new AuthorizationError('Only the author can delete a comment');
+    }
+
+    const comment: TicketComment = await prisma.ticketComment.update({
+      where: { id: commentId },
+      data: { body: '', mentions: [], reactions: {}, deletedAt: new Date() },
+      include: { author: { select: AUTHOR_SELECT } }
+    });
+
+    this.publish('comment:deleted', ticket.projectId, comment);
+
+    return comment;
+  }
+
+  /**
+   * Add the user's reaction to a comment, or remove it if already present
+   *
+   * @throws CommentNotFoundError if the comment does not exist
+   */
+  async toggleReaction(
+    ticket: CommentTicket,
+    commentId: string,
+    userId: string,
+    emoji: string
+  ): Promise<TicketComment> {
+    const existing = await this.getComment(ticket.id, commentId);
+
+    if (existing.deletedAt) {
+      throw new CommentNotFoundError(commentId);
+    }
+
+    const reactions: CommentReactions = { ...existing.reactions };
+    const users = reactions[emoji] ?? [];
+
+    if (users.includes(userId)) {
+      reactions[emoji] = users.filter((id) => id !== userId);
+      if (reactions[emoji].length === 0) delete reactions[emoji];
+    } else {
+      reactions[emoji] = [...users, userId];
+    }
+
+    const comment: TicketComment = await prisma.ticketComment.update({
+      where: { id: commentId },
+      data: { reactions },
+      include: { author: { select: AUTHOR_SELECT } }
+    });
+
+    this.publish('comment:updated', ticket.projectId, comment);
+
+    return comment;
+  }
+
+  /**
+   * Resolve @handles to project members and agent types.
+   * Users take precedence when a handle matches both.
+   */
+  async resolveMentions(projectId: string, body: string): Promise<CommentMention[]> {
+    const handles = extractMentionHandles(body);
+    if (handles.length === 0) return [];
+
+    const members: Array<{ user: { id: string; email: string } }> = await prisma.projectMember.findMany({
+      where: { projectId },
+      select: { user: { select: { id: true, email: true } } }
+    });
+
+    const usersByHandle = new Map(members.map(({ user }) => [getUserMentionHandle(user), user.id]));
+    const mentions: CommentMention[] = [];
+
+    for (const handle of handles) {
+      const userId = usersByHandle.get(handle);
+      if (userId) {
+        mentions.push({ type: 'user', id: userId, handle });
+      } else if (getAgentById(handle)) {
+        mentions.push({ type: 'agent', id: handle, handle });
+      }
+    }
+
+    return mentions;
+  }
+
+  /**
+   * Notify mentioned users (TICKET_MENTIONED) and, for new comments, the
+   * assignee and earlier participants of the thread (TICKET_COMMENT).
+   * Failures are logged; the comment is saved either way.
+   */
+  private async notify(
+    ticket: CommentTicket,
+    comment: TicketComment,
+    mentions: CommentMention[],
+    previousMentions: CommentMention[],
+    authorName?: string | null,
+    edited = false
+  ): Promise<void> {
+    const actor = authorName || comment.agentId || 'Someone';
+    const excerpt =
+      comment.body.length > NOTIFICATION_EXCERPT_LENGTH
+        ? `${comment.body.slice(0, NOTIFICATION_EXCERPT_LENGTH)}...`
+        : comment.body;
+    const metadata = {
+      ticketId: ticket.id,
+      projectId: ticket.projectId,
+      commentId: comment.id,
+      authorId: comment.authorId,
+      agentId: comment.agentId
+    };
+
+    const alreadyMentioned = new Set(
+      previousMentions.filter((m) => m.type === 'user').map((m) => m.id)
+    );
+    const mentionedUserIds = mentions
+      .filter((m) => m.type === 'user' && !alreadyMentioned.has(m.id) && m.id !== comment.authorId)
+      .map((m) => m.id);
+
+    try {
+      if (mentionedUserIds.length > 0) {
+        await notificationService.dispatch({
+          eventType: 'TICKET_MENTIONED',
+          title: `${actor} mentioned you on "${ticket.title}"`,
+          message: excerpt,
+          recipientIds: mentionedUserIds,
+          entityType: 'Ticket',
+          entityId: ticket.id,
+          metadata
+        });
+      }
+
+      if (edited) return;
+
+      const participantIds = new Set<string>();
+      if (ticket.assignedToId) participantIds.add(ticket.assignedToId);
+
+      if (comment.parentId) {
+        const thread: Array<{ authorId: string | null }> = await prisma.ticketComment.findMany({
+          where: { OR: [{ id: comment.parentId }, { parentId: comment.parentId }] },
+          select: { authorId: true }
+        });
+        thread.forEach(({ authorId }) => authorId && participantIds.add(authorId));
+      }
+
+      participantIds.delete(comment.authorId ?? '');
+      mentionedUserIds.forEach((id) => participantIds.delete(id));
+
+      if (participantIds.size > 0) {
+        await notificationService.dispatch({
+          eventType: 'TICKET_COMMENT',
+          title: `${actor} commented on "${ticket.title}"`,
+          message: excerpt,
+          recipientIds: [...participantIds],
+          entityType: 'Ticket',
+          entityId: ticket.id,
+          metadata
+        });
+      }
+    } catch (error) {
+      console.error(`[Comments] Failed to send notifications for comment ${comment.id}:`, error);
+    }
+  }
+
+  /**
+   * Push a comment change to the project room
+   */
+  private publish(event: string, projectId: string, comment: TicketComment): void {
+    const payload: CommentEventPayload = { projectId, ticketId: comment.ticketId, comment };
+    emitFromServer(event, payload, projectId);
+  }
+}
+
+export const commentService = new CommentService();
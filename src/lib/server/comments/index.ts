@@ -0,0 +1,14 @@
+/**
+ * Ticket Comments Module
+ *
+ * Threaded ticket comments with @mentions, reactions and notifications.
+ */
+
+export {
+  commentService,
+  CommentService,
+  CommentNotFoundError,
+  validateCommentBody,
+  type CommentTicket,
+  type CreateCommentInput
+} from './comment-service';
@@ -8,9 +8,12 @@
  * - Event types for ticket lifecycle (created, updated, deleted, moved)
  * - Project-scoped event channels
  * - Fallback to in-memory events when Redis unavailable
+ * - Events are numbered in the project's event log and sent to the project
+ *   room, so boards apply them live and replay them after a reconnect
  */
 
 import type { Ticket } from '$lib/types';
+import { recordProjectEvent } from './redis/pubsub';
 
 /** Event types for ticket changes */
 export type TicketEventType = 'created' | 'updated' | 'deleted' | 'moved';
@@ -34,6 +37,8 @@ export interface TicketUpdatedEvent extends TicketEvent {
   type: 'updated';
   changes: Partial<Ticket>;
   previousValues?: Partial<Ticket>;
+  /** Ticket version after the update */
+  version?: number;
 }
 
 /** Ticket deleted event */
@@ -78,6 +83,15 @@ export function getNextVersion(ticketId: string): number {
   return next;
 }
 
+/**
+ * Get a ticket's edit version: the time of its last persisted write.
+ * Every write bumps `updatedAt`, so writers send the version they edited
+ * and stale writes can be rejected on any server instance.
+ */
+export function getTicketVersion(ticket: { updatedAt: Date | string }): number {
+  return new Date(ticket.updatedAt).getTime();
+}
+
 /**
  * Initialize Redis publisher (optional)
  * Call this if Redis is available in the environment
@@ -110,6 +124,12 @@ export async function initRedisPublisher(redisUrl?: string): Promise<boolean> {
 async function publishEvent(event: AnyTicketEvent): Promise<void> {
   const channel = `project:${event.projectId}:tickets`;
 
+  try {
+    await recordProjectEvent(event.projectId, channel, { ...event });
+  } catch (error) {
+    console.error('[Events] Failed to record project event:', error);
+  }
+
   if (redisEnabled && redisPublisher) {
     try {
       await (redisPublisher as any).publish(channel, JSON.stringify(event));
@@ -169,7 +189,8 @@ export async function publishTicketUpdated(
   projectId: string,
   ticketId: string,
   changes: Partial<Ticket>,
-  previousValues?: Partial<Ticket>
+  previousValues?: Partial<Ticket>,
+  version?: number
 ): Promise<void> {
   const event: TicketUpdatedEvent = {
     type: 'updated',
@@ -177,7 +198,8 @@ export async function publishTicketUpdated(
     ticketId,
     timestamp: Date.now(),
     changes,
-    previousValues
+    previousValues,
+    version
   };
   await publishEvent(event);
 }
@@ -0,0 +1,22 @@
+/**
+ * Ticket Filters Module
+ *
+ * Ticket query language and saved, shareable filters.
+ */
+
+export {
+  TicketQueryError,
+  parseTicketQuery,
+  compileTicketQuery,
+  buildTicketQuery,
+  type TicketQueryContext,
+  type CompiledTicketQuery
+} from './ticket-query';
+
+export {
+  savedFilterService,
+  SavedFilterService,
+  SavedFilterNotFoundError,
+  validateSavedFilterInput,
+  type SavedFilterInput
+} from './saved-filter-service';
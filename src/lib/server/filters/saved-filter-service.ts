@@ -0,0 +1,153 @@
+/**
+ * Saved Filter Service
+ *
+ * Named ticket queries saved on a project:
+ * - Every member sees their own filters and the filters shared with the project
+ * - Only the creator edits or deletes a filter
+ * - Queries are validated with the ticket query language before saving
+ */
+
+import { prisma } from '$lib/server/prisma';
+import { AuthorizationError } from '$lib/server/auth/permissions';
+import { MAX_FILTER_NAME_LENGTH, type SavedFilter } from '$lib/types/filters';
+import { parseTicketQuery } from './ticket-query';
+
+/**
+ * Thrown when a saved filter does not exist on the project
+ */
+export class SavedFilterNotFoundError extends Error {
+  constructor(public readonly filterId: string) {
+    super(`Saved filter ${filterId} not found`);
+    this.name = 'SavedFilterNotFoundError';
+  }
+}
+
+/**
+ * Fields of a saved filter set by a request
+ */
+export interface SavedFilterInput {
+  name?: unknown;
+  query?: unknown;
+  shared?: unknown;
+}
+
+/**
+ * Validate the fields of a saved filter from a request
+ *
+ * @param partial - Allow missing fields (updates)
+ * @returns Error message, or null when the fields are valid
+ */
+export function validateSavedFilterInput(input: SavedFilterInput, partial = false): string | null {
+  if (input.name !== undefined || !partial) {
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      return 'name is required';
+    }
+    if (input.name.trim().length > MAX_FILTER_NAME_LENGTH) {
+      return `name must be at most ${MAX_FILTER_NAME_LENGTH} characters`;
+    }
+  }
+  if (input.query !== undefined || !partial) {
+    if (typeof input.query !== 'string' || !input.query.trim()) {
+      return 'query is required';
+    }
+    // Throws TicketQueryError for an invalid query
+    parseTicketQuery(input.query);
+  }
+  if (input.shared !== undefined && typeof input.shared !== 'boolean') {
+    return 'shared must be a boolean';
+  }
+  return null;
+}
+
+export class SavedFilterService {
+  /**
+   * Get the filters a user can use on a project: their own and the shared ones
+   */
+  async listFilters(projectId: string, userId: string): Promise<SavedFilter[]> {
+    return prisma.savedFilter.findMany({
+      where: { projectId, OR: [{ createdById: userId }, { shared: true }] },
+      orderBy: { name: 'asc' }
+    });
+  }
+
+  /**
+   * Get a filter the user can use
+   *
+   * @throws SavedFilterNotFoundError if it does not exist, belongs to another
+   * project or is another user's private filter
+   */
+  async getFilter(projectId: string, filterId: string, userId: string): Promise<SavedFilter> {
+    const filter: SavedFilter | null = await prisma.savedFilter.findUnique({
+      where: { id: filterId }
+    });
+
+    if (!filter || filter.projectId !== projectId || (!filter.shared && filter.createdById !== userId)) {
+      throw new SavedFilterNotFoundError(filterId);
+    }
+
+    return filter;
+  }
+
+  /**
+   * Save a query on a project
+   */
+  async createFilter(
+    projectId: string,
+    userId: string,
+    input: { name: string; query: string; shared?: boolean }
+  ): Promise<SavedFilter> {
+    return prisma.savedFilter.create({
+      data: {
+        projectId,
+        createdById: userId,
+        name: input.name.trim(),
+        query: input.query.trim(),
+        shared: input.shared ?? false
+      }
+    });
+  }
+
+  /**
+   * Rename, change the query of, or (un)share a filter
+   *
+   * @throws SavedFilterNotFoundError if the user cannot see the filter
+   * @throws AuthorizationError if the user did not create it
+   */
+  async updateFilter(
+    projectId: string,
+    filterId: string,
+    userId: string,
+    input: { name?: string; query?: string; shared?: boolean }
+  ): Promise<SavedFilter> {
+    const existing = await this.getFilter(projectId, filterId, userId);
+    if (existing.createdById !== userId) {
+      throw new AuthorizationError('Only the creator can edit a saved filter');
+    }
+
+    return prisma.savedFilter.update({
+      where: { id: filterId },
+      data: {
+        ...(input.name !== undefined && { name: input.name.trim() }),
+        ...(input.query !== undefined && { query: input.query.trim() }),
+        ...(input.shared !== undefined && { shared: input.shared })
+      }
+    });
+  }
+
+  /**
+   * Delete a filter
+   *
+   * @throws SavedFilterNotFoundError if the user cannot see the filter
+   * @throws AuthorizationError if the user did not create it
+   */
+  async deleteFilter(projectId: string, filterId: string, userId: string): Promise<void> {
+    const existing = await this.getFilter(projectId, filterId, userId);
+    if (existing.createdById !== userId) {
+      throw new AuthorizationError('Only the creator can delete a saved filter');
+    }
+
+    await prisma.savedFilter.delete({ where: { id: filterId } });
+  }
+}
+
+export const savedFilterService = new SavedFilterService();
@@ -0,0 +1,338 @@
+/**
+ * Ticket Query Language
+ *
+ * Parses queries such as
+ *
+ *   status:TODO priority>=HIGH label:auth assignee:me created:>7d "free text"
+ *
+ * into Prisma where clauses:
+ * - `field:value` or `field<op>value`, op one of > >= < <= (also `field:>value`)
+ * - `value1,value2` matches either value; a leading `-` negates the term
+ * - status: workflow state keys (core or custom columns)
+ * - priority: LOW < MEDIUM < HIGH < CRITICAL
+ * - label: ticket labels (checked after the query, labels are a JSON column)
+ * - assignee: `me`, `none`, a user id or email
+ * - created / updated: ISO date or age (`7d`, `12h`, `2w`); `created:>7d` is
+ *   "created in the last 7 days"
+ * - complexity: number
+ * - Anything else (words, "quoted phrases") is searched in title and description
+ */
+
+import type { Priority } from '$lib/types';
+import {
+  MAX_TICKET_QUERY_LENGTH,
+  type ParsedTicketQuery,
+  type TicketQueryCondition,
+  type TicketQueryField,
+  type TicketQueryOperator
+} from '$lib/types/filters';
+import { DEFAULT_WORKFLOW, isCoreState, type WorkflowDefinition } from '$lib/state-machine/workflow';
+
+/**
+ * Thrown for a query that cannot be parsed or applied
+ */
+export class TicketQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TicketQueryError';
+  }
+}
+
+const FIELDS: TicketQueryField[] = ['status', 'priority', 'label', 'assignee', 'created', 'updated', 'complexity'];
+
+/** Fields compared with > >= < <= */
+const ORDERED_FIELDS: TicketQueryField[] = ['priority', 'created', 'updated', 'complexity'];
+
+const PRIORITY_RANK: Priority[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+
+const DURATION_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+const TERM_PATTERN = /^(-?)([a-z]+)(?::(>=|<=|>|<)?|(>=|<=|>|<))(.*)$/i;
+
+/**
+ * Split a query into terms, keeping "quoted phrases" (also as values,
+ * e.g. label:"needs design") together
+ */
+function tokenize(input: string): { term: string; quoted: boolean }[] {
+  const tokens: { term: string; quoted: boolean }[] = [];
+  let current = '';
+  let quoted = false;
+  let inQuotes = false;
+
+  for (const char of input) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+      quoted = true;
+      continue;
+    }
+    if (!inQuotes && /\s/.test(char)) {
+      if (current) tokens.push({ term: current, quoted });
+      current = '';
+      quoted = false;
+      continue;
+    }
+    current += char;
+  }
+
+  if (inQuotes) {
+    throw new TicketQueryError('Unclosed quote in query');
+  }
+  if (current) tokens.push({ term: current, quoted });
+
+  return tokens;
+}
+
+/**
+ * Parse a ticket query
+ * @throws TicketQueryError for unknown fields, bad operators or empty values
+ */
+export function parseTicketQuery(input: string): ParsedTicketQuery {
+  if (input.length > MAX_TICKET_QUERY_LENGTH) {
+    throw new TicketQueryError(`Query must be at most ${MAX_TICKET_QUERY_LENGTH} characters`);
+  }
+
+  const parsed: ParsedTicketQuery = { conditions: [], text: [] };
+
+  for (const { term, quoted } of tokenize(input.trim())) {
+    const match = TERM_PATTERN.exec(term);
+    // A quoted phrase is only a term when the quotes wrap its value
+    if (!match || (quoted && !term.includes(':') && !/[<>]/.test(term))) {
+      parsed.text.push(term);
+      continue;
+    }
+
+    const [, negation, rawField, colonOperator, bareOperator, rawValue] = match;
+    const field = rawField.toLowerCase() as TicketQueryField;
+    if (!FIELDS.includes(field)) {
+      throw new TicketQueryError(`Unknown field "${rawField}" (use one of: ${FIELDS.join(', ')})`);
+    }
+
+    const operator = (colonOperator ?? bareOperator ?? '=') as TicketQueryOperator;
+    if (operator !== '=' && !ORDERED_FIELDS.includes(field)) {
+      throw new TicketQueryError(`"${field}" cannot be compared with ${operator}`);
+    }
+
+    const values = rawValue.split(',').map((value) => value.trim()).filter(Boolean);
+    if (values.length === 0) {
+      throw new TicketQueryError(`Missing value for "${field}"`);
+    }
+    if (operator !== '=' && values.length > 1) {
+      throw new TicketQueryError(`"${field}${operator}" takes a single value`);
+    }
+
+    parsed.conditions.push({ field, operator, values, negated: negation === '-' });
+  }
+
+  return parsed;
+}
+
+/**
+ * What a query is evaluated against
+ */
+export interface TicketQueryContext {
+  /** Signed-in user, for `assignee:me` */
+  userId?: string | null;
+  /** Project workflow, for custom status columns */
+  workflow?: WorkflowDefinition;
+  /** Reference time for ages (defaults to now) */
+  now?: Date;
+}
+
+/**
+ * A query ready to run
+ */
+export interface CompiledTicketQuery {
+  /** Prisma where clause (combine with the project id) */
+  where: Record<string, unknown>;
+  /** Label conditions, checked on the fetched tickets */
+  matchesLabels: (labels: unknown) => boolean;
+}
+
+function compare(operator: TicketQueryOperator, value: unknown): Record<string, unknown> | unknown {
+  switch (operator) {
+    case '>':
+      return { gt: value };
+    case '>=':
+      return { gte: value };
+    case '<':
+      return { lt: value };
+    case '<=':
+      return { lte: value };
+    default:
+      return value;
+  }
+}
+
+function statusClause(value: string, workflow: WorkflowDefinition): Record<string, unknown> {
+  const key = value.toUpperCase().replace(/[\s-]+/g, '_');
+  const state = workflow.states.find((s) => s.key.toUpperCase() === key);
+  if (!state) {
+    throw new TicketQueryError(
+      `Unknown status "${value}" (use one of: ${workflow.states.map((s) => s.key).join(', ')})`
+    );
+  }
+
+  // Tickets in a custom column keep their base status and name the column
+  return isCoreState(state.key) ? { status: state.key, workflowState: null } : { workflowState: state.key };
+}
+
+function priorityClause(operator: TicketQueryOperator, values: string[]): Record<string, unknown> {
+  const ranks = values.map((value) => {
+    const rank = PRIORITY_RANK.indexOf(value.toUpperCase() as Priority);
+    if (rank < 0) {
+      throw new TicketQueryError(`Unknown priority "${value}" (use one of: ${PRIORITY_RANK.join(', ')})`);
+    }
+    return rank;
+  });
+
+  const matching = PRIORITY_RANK.filter((_, rank) => {
+    switch (operator) {
+      case '>':
+        return rank > ranks[0];
+      case '>=':
+        return rank >= ranks[0];
+      case '<':
+        return rank < ranks[0];
+      case '<=':
+        return rank <= ranks[0];
+      default:
+        return ranks.includes(rank);
+    }
+  });
+
+  return { priority: { in: matching } };
+}
+
+function assigneeClause(value: string, context: TicketQueryContext): Record<string, unknown> {
+  const lower = value.toLowerCase();
+  if (lower === 'me') {
+    if (!context.userId) {
+      throw new TicketQueryError('"assignee:me" requires signing in');
+    }
+    return { assignedToId: context.userId };
+  }
+  if (lower === 'none') {
+    return { assignedToId: null };
+  }
+  return value.includes('@') ? { assignedTo: { email: value } } : { assignedToId: value };
+}
+
+/**
+ * Parse a date value: an ISO date or an age such as 7d (7 days ago)
+ */
+function parseDateValue(value: string, now: Date): Date {
+  const age = /^(\d+)([mhdw])$/i.exec(value);
+  if (age) {
+    return new Date(now.getTime() - Number(age[1]) * DURATION_MS[age[2].toLowerCase()]);
+  }
+
+  const date = new Date(value);
+  if (!/^\d{4}-\d{2}-\d{2}/.test(value) || Number.isNaN(date.getTime())) {
+    throw new TicketQueryError(`Invalid date "${value}" (use YYYY-MM-DD or an age like 7d)`);
+  }
+  return date;
+}
+
+function dateClause(
+  field: 'createdAt' | 'updatedAt',
+  operator: TicketQueryOperator,
+  value: string,
+  now: Date
+): Record<string, unknown> {
+  const date = parseDateValue(value, now);
+
+  if (operator === '=') {
+    // An age means "within", a date means "on that day"
+    if (/^\d+[mhdw]$/i.test(value)) {
+      return { [field]: { gte: date } };
+    }
+    return { [field]: { gte: date, lt: new Date(date.getTime() + DURATION_MS.d) } };
+  }
+
+  return { [field]: compare(operator, date) };
+}
+
+function complexityClause(operator: TicketQueryOperator, values: string[]): Record<string, unknown> {
+  const numbers = values.map((value) => {
+    const number = Number(value);
+    if (!Number.isFinite(number)) {
+      throw new TicketQueryError(`Complexity must be a number, got "${value}"`);
+    }
+    return number;
+  });
+
+  return { complexity: operator === '=' ? { in: numbers } : compare(operator, numbers[0]) };
+}
+
+function conditionClause(condition: TicketQueryCondition, context: TicketQueryContext): Record<string, unknown> {
+  const { field, operator, values } = condition;
+  const workflow = context.workflow ?? DEFAULT_WORKFLOW;
+  const now = context.now ?? new Date();
+  const anyOf = (clauses: Record<string, unknown>[]) => (clauses.length === 1 ? clauses[0] : { OR: clauses });
+
+  switch (field) {
+    case 'status':
+      return anyOf(values.map((value) => statusClause(value, workflow)));
+    case 'priority':
+      return priorityClause(operator, values);
+    case 'assignee':
+      return anyOf(values.map((value) => assigneeClause(value, context)));
+    case 'created':
+      return anyOf(values.map((value) => dateClause('createdAt', operator, value, now)));
+    case 'updated':
+      return anyOf(values.map((value) => dateClause('updatedAt', operator, value, now)));
+    case 'complexity':
+      return complexityClause(operator, values);
+    default:
+      return {};
+  }
+}
+
+/**
+ * Turn a parsed query into a Prisma where clause and a label check
+ * @throws TicketQueryError for values that do not exist (statuses, priorities)
+ */
+export function compileTicketQuery(
+  query: ParsedTicketQuery,
+  context: TicketQueryContext = {}
+): CompiledTicketQuery {
+  const and: Record<string, unknown>[] = [];
+  const labelConditions: TicketQueryCondition[] = [];
+
+  for (const condition of query.conditions) {
+    if (condition.field === 'label') {
+      labelConditions.push(condition);
+      continue;
+    }
+    const clause = conditionClause(condition, context);
+    and.push(condition.negated ? { NOT: clause } : clause);
+  }
+
+  for (const text of query.text) {
+    and.push({ OR: [{ title: { contains: text } }, { description: { contains: text } }] });
+  }
+
+  return {
+    where: and.length > 0 ? { AND: and } : {},
+    matchesLabels: (labels) => {
+      const ticketLabels = (Array.isArray(labels) ? labels : []).map((label) => String(label).toLowerCase());
+      return labelConditions.every((condition) => {
+        const found = condition.values.some((value) => ticketLabels.includes(value.toLowerCase()));
+        return condition.negated ? !found : found;
+      });
+    }
+  };
+}
+
+/**
+ * Parse and compile a query in one step
+ * @throws TicketQueryError for invalid queries
+ */
+export function buildTicketQuery(input: string, context: TicketQueryContext = {}): CompiledTicketQuery {
+  return compileTicketQuery(parseTicketQuery(input), context);
+}
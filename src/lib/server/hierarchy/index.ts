@@ -0,0 +1,12 @@
+/**
+ * Ticket Hierarchy Module
+ *
+ * Epics, their sub-tasks and progress rollups.
+ */
+
+export {
+  ticketHierarchyService,
+  TicketHierarchyService,
+  TicketHierarchyError,
+  type ParentReviewResult
+} from './ticket-hierarchy';
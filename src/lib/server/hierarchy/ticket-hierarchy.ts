@@ -0,0 +1,200 @@
+/**
+ * Ticket Hierarchy Service
+ *
+ * Epics and sub-tasks (Ticket.parentId):
+ * - Hierarchies are one level deep: an epic cannot be a sub-task and a
+ *   sub-task cannot have sub-tasks of its own
+ * - An epic's progress is rolled up from its sub-tasks, using the live
+ *   execution progress of those still being worked on
+ * - When the last sub-task is done, the epic moves to REVIEW
+ *   (Project.settings.scheduling.autoReviewParents)
+ */
+
+import { prisma } from '$lib/server/prisma';
+import { publishTicketCreated, publishTicketMoved } from '$lib/server/events';
+import { progressTracker } from '$lib/server/progress';
+import { ticketStateMachine } from '$lib/state-machine/ticket-state-machine';
+import { findWorkflowPath, getProjectWorkflow, getTicketWorkflowState } from '$lib/state-machine/workflow';
+import { getProjectSchedulingSettings } from '$lib/types/scheduling';
+import type { Ticket } from '$lib/types';
+import type { SubtaskInput, TicketRollup } from '$lib/types/hierarchy';
+import { calculateRollup, isRollupComplete } from '$lib/utils/ticket-hierarchy';
+
+/** Statuses in which an epic is not moved to REVIEW */
+const SETTLED_STATUSES = ['REVIEW', 'DONE', 'CANCELLED'];
+
+/** Reason recorded when an epic is moved to REVIEW */
+const AUTO_REVIEW_REASON = 'All sub-tasks are done';
+
+/**
+ * Thrown for a parent/child link that would break the hierarchy
+ */
+export class TicketHierarchyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TicketHierarchyError';
+  }
+}
+
+/**
+ * Outcome of checking an epic after one of its sub-tasks settled
+ */
+export interface ParentReviewResult {
+  parentId: string;
+  /** Whether the epic was moved to REVIEW */
+  moved: boolean;
+  /** States the epic was moved through, ending with REVIEW */
+  path?: string[];
+  /** Why the epic was not moved */
+  reason?: string;
+}
+
+type ChildTicket = Pick<Ticket, 'id' | 'projectId' | 'parentId'>;
+
+export class TicketHierarchyService {
+  /**
+   * Get the sub-tasks of a ticket in board order
+   */
+  async getChildren(ticketId: string): Promise<Ticket[]> {
+    return prisma.ticket.findMany({
+      where: { parentId: ticketId },
+      orderBy: { position: 'asc' }
+    });
+  }
+
+  /**
+   * Roll the progress of an epic up from its sub-tasks
+   */
+  async getRollup(ticketId: string): Promise<TicketRollup> {
+    const children: Pick<Ticket, 'id' | 'status'>[] = await prisma.ticket.findMany({
+      where: { parentId: ticketId },
+      select: { id: true, status: true }
+    });
+
+    return calculateRollup(children, (id) => progressTracker.getProgress(id)?.percentComplete);
+  }
+
+  /**
+   * Check that a ticket can be made a sub-task of another
+   *
+   * @throws TicketHierarchyError if the parent does not exist in the same
+   * project, or the link would nest sub-tasks more than one level deep
+   */
+  async validateParent(ticket: { id: string; projectId: string }, parentId: string): Promise<void> {
+    if (parentId === ticket.id) {
+      throw new TicketHierarchyError('A ticket cannot be its own epic');
+    }
+
+    const parent = await prisma.ticket.findUnique({
+      where: { id: parentId },
+      select: { id: true, projectId: true, parentId: true }
+    });
+    if (!parent || parent.projectId !== ticket.projectId) {
+      throw new TicketHierarchyError(`Epic ${parentId} not found in this project`);
+    }
+    if (parent.parentId) {
+      throw new TicketHierarchyError('A sub-task cannot have sub-tasks of its own');
+    }
+
+    const childCount = await prisma.ticket.count({ where: { parentId: ticket.id } });
+    if (childCount > 0) {
+      throw new TicketHierarchyError('An epic cannot be a sub-task of another ticket');
+    }
+  }
+
+  /**
+   * Create sub-tasks under a ticket, at the end of the backlog
+   *
+   * @throws TicketHierarchyError if the ticket is itself a sub-task
+   */
+  async createSubtasks(parent: Pick<Ticket, 'id' | 'projectId' | 'parentId'>, subtasks: SubtaskInput[]): Promise<Ticket[]> {
+    if (parent.parentId) {
+      throw new TicketHierarchyError('A sub-task cannot have sub-tasks of its own');
+    }
+
+    const lastTicket = await prisma.ticket.findFirst({
+      where: { projectId: parent.projectId },
+      orderBy: { position: 'desc' }
+    });
+    let position = (lastTicket?.position ?? -1) + 1;
+
+    const created: Ticket[] = [];
+    for (const subtask of subtasks) {
+      const ticket: Ticket = await prisma.ticket.create({
+        data: {
+          title: subtask.title.trim(),
+          description: subtask.description?.trim() || null,
+          priority: subtask.priority ?? 'MEDIUM',
+          labels: subtask.labels ?? [],
+          position: position++,
+          projectId: parent.projectId,
+          parentId: parent.id
+        }
+      });
+      await publishTicketCreated(parent.projectId, ticket);
+      created.push(ticket);
+    }
+
+    return created;
+  }
+
+  /**
+   * Move a sub-task's epic to REVIEW once all its sub-tasks are done
+   *
+   * Called after a sub-task reaches DONE or CANCELLED. Cancelled sub-tasks
+   * do not count; an epic whose sub-tasks were all cancelled stays put.
+   * The epic walks the shortest workflow path to REVIEW, each step going
+   * through the state machine so guards and WIP limits apply.
+   *
+   * @returns null when the ticket is not a sub-task
+   */
+  async reviewParentIfComplete(child: ChildTicket): Promise<ParentReviewResult | null> {
+    if (!child.parentId) return null;
+    const parentId = child.parentId;
+
+    const parent = await prisma.ticket.findUnique({
+      where: { id: parentId },
+      include: { project: { select: { settings: true } } }
+    });
+    if (!parent) return null;
+
+    if (!getProjectSchedulingSettings(parent.project?.settings).autoReviewParents) {
+      return { parentId, moved: false, reason: 'Epic auto-review is disabled' };
+    }
+    if (SETTLED_STATUSES.includes(parent.status)) {
+      return { parentId, moved: false, reason: `Epic is already ${parent.status}` };
+    }
+
+    const rollup = await this.getRollup(parentId);
+    if (!isRollupComplete(rollup)) {
+      return { parentId, moved: false, reason: `${rollup.done} of ${rollup.total} sub-tasks done` };
+    }
+
+    const workflow = getProjectWorkflow(parent.project?.settings);
+    const from = getTicketWorkflowState(parent);
+    const path = findWorkflowPath(workflow, from, 'REVIEW', ['DONE', 'CANCELLED']);
+    if (!path) {
+      return { parentId, moved: false, reason: `The workflow has no path from ${from} to REVIEW` };
+    }
+
+    let current = from;
+    for (const state of path) {
+      try {
+        const updated = await ticketStateMachine.transition(parentId, state, {
+          triggeredBy: 'system',
+          reason: AUTO_REVIEW_REASON
+        });
+        await publishTicketMoved(parent.projectId, parentId, current, state, updated.position);
+        current = state;
+      } catch (error) {
+        // Guards or a full column may block a step; leave the epic where it got to
+        const message = error instanceof Error ? error.message : String(error);
+        return { parentId, moved: false, path: path.slice(0, path.indexOf(state)), reason: message };
+      }
+    }
+
+    return { parentId, moved: true, path };
+  }
+}
+
+export const ticketHierarchyService = new TicketHierarchyService();
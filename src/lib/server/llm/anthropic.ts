@@ -0,0 +1,45 @@
+/**
+ * Anthropic Provider
+ *
+ * Completions from the Anthropic Messages API.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { LLMProviderError, type LLMCompletion, type LLMProvider, type LLMRequest } from './provider';
+
+/** Model used when none is configured */
+export const DEFAULT_ANTHROPIC_MODEL = 'claude-sonnet-4-20250514';
+
+export class AnthropicProvider implements LLMProvider {
+	readonly id = 'anthropic' as const;
+	private readonly client: Anthropic;
+
+	constructor(
+		apiKey: string,
+		readonly model: string = DEFAULT_ANTHROPIC_MODEL
+	) {
+		this.client = new Anthropic({ apiKey });
+	}
+
+	async complete(request: LLMRequest): Promise<LLMCompletion> {
+		const response = await this.client.messages.create({
+			model: this.model,
+			max_tokens: request.maxTokens,
+			messages: [{ role: 'user', content: request.prompt }]
+		});
+
+		const textContent = response.content.find((c) => c.type === 'text');
+		if (!textContent || textContent.type !== 'text') {
+			throw new LLMProviderError('No text response from Anthropic', this.id);
+		}
+
+		return {
+			text: textContent.text,
+			model: response.model,
+			usage: {
+				inputTokens: response.usage.input_tokens,
+				outputTokens: response.usage.output_tokens
+			}
+		};
+	}
+}
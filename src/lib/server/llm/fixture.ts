@@ -0,0 +1,67 @@
+/**
+ * Fixture Provider
+ *
+ * Replays recorded completions keyed by a hash of the prompt, so tests and
+ * air-gapped demos get deterministic answers without any model. Given an
+ * upstream provider, misses are forwarded and recorded.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { LLMProviderError, type LLMCompletion, type LLMProvider, type LLMRequest } from './provider';
+
+/** Recorded completions keyed by fixtureKey(prompt) */
+export type LLMFixtures = Record<string, LLMCompletion>;
+
+/**
+ * Key a prompt is recorded under
+ */
+export function fixtureKey(prompt: string): string {
+	return createHash('sha256').update(prompt).digest('hex');
+}
+
+/**
+ * Read recordings from a JSON file; a missing file is an empty recording
+ */
+export function loadFixtures(path: string): LLMFixtures {
+	if (!existsSync(path)) {
+		return {};
+	}
+	return JSON.parse(readFileSync(path, 'utf-8')) as LLMFixtures;
+}
+
+export class FixtureProvider implements LLMProvider {
+	readonly id = 'fixture' as const;
+	readonly model: string;
+
+	/**
+	 * @param fixtures - Recorded completions
+	 * @param options.upstream - Provider misses are recorded from
+	 * @param options.path - File new recordings are written back to
+	 */
+	constructor(
+		private readonly fixtures: LLMFixtures,
+		private readonly options: { upstream?: LLMProvider; path?: string } = {}
+	) {
+		this.model = options.upstream?.model ?? 'fixture';
+	}
+
+	async complete(request: LLMRequest): Promise<LLMCompletion> {
+		const key = fixtureKey(request.prompt);
+		const recorded = this.fixtures[key];
+		if (recorded) {
+			return recorded;
+		}
+
+		if (!this.options.upstream) {
+			throw new LLMProviderError(`No recorded completion for prompt ${key.slice(0, 12)}`, this.id);
+		}
+
+		const completion = await this.options.upstream.complete(request);
+		this.fixtures[key] = completion;
+		if (this.options.path) {
+			writeFileSync(this.options.path, JSON.stringify(this.fixtures, null, 2));
+		}
+		return completion;
+	}
+}
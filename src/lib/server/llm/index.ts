@@ -0,0 +1,93 @@
+/**
+ * Language Model Providers
+ *
+ * Picks the provider and model for a project from the admin settings
+ * (`llm.config`) and builds it. Secrets and endpoints come from the
+ * environment:
+ * - ANTHROPIC_API_KEY: anthropic
+ * - LLM_BASE_URL, LLM_API_KEY, LLM_MODEL: openai-compatible defaults
+ * - LLM_FIXTURES_PATH: fixture recordings
+ */
+
+import { env } from '$env/dynamic/private';
+import { settingsService } from '$lib/server/admin/settings-service';
+import type { LLMSelection, LLMSettings } from '$lib/types/admin';
+import { AnthropicProvider } from './anthropic';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { FixtureProvider, loadFixtures } from './fixture';
+import type { LLMProvider } from './provider';
+
+export {
+	LLMProviderError,
+	type LLMProvider,
+	type LLMRequest,
+	type LLMCompletion,
+	type LLMTokenUsage
+} from './provider';
+export { AnthropicProvider, DEFAULT_ANTHROPIC_MODEL } from './anthropic';
+export { OpenAICompatibleProvider } from './openai-compatible';
+export { FixtureProvider, fixtureKey, loadFixtures, type LLMFixtures } from './fixture';
+export { estimateCost, getModelPrice, type ModelPrice } from './pricing';
+
+/**
+ * Environment the providers are configured from
+ */
+export type LLMEnvironment = Partial<
+	Record<'ANTHROPIC_API_KEY' | 'LLM_BASE_URL' | 'LLM_API_KEY' | 'LLM_MODEL' | 'LLM_FIXTURES_PATH', string>
+>;
+
+/**
+ * Selection for a project: its override, else the default
+ */
+export function resolveLLMSelection(settings: LLMSettings, projectId?: string | null): LLMSelection {
+	const override = projectId ? settings.projects[projectId] : undefined;
+	return override ?? { provider: settings.provider, model: settings.model };
+}
+
+/**
+ * Build the provider for a selection, or null when it is 'none' or lacks
+ * the configuration it needs
+ */
+export function createLLMProvider(
+	selection: LLMSelection,
+	settings: Pick<LLMSettings, 'baseUrl'>,
+	llmEnv: LLMEnvironment = env
+): LLMProvider | null {
+	switch (selection.provider) {
+		case 'anthropic':
+			if (!llmEnv.ANTHROPIC_API_KEY) return null;
+			return new AnthropicProvider(llmEnv.ANTHROPIC_API_KEY, selection.model || undefined);
+
+		case 'openai-compatible': {
+			const baseUrl = settings.baseUrl || llmEnv.LLM_BASE_URL;
+			const model = selection.model || llmEnv.LLM_MODEL;
+			if (!baseUrl || !model) return null;
+			return new OpenAICompatibleProvider(baseUrl, model, llmEnv.LLM_API_KEY);
+		}
+
+		case 'fixture':
+			if (!llmEnv.LLM_FIXTURES_PATH) return null;
+			return new FixtureProvider(loadFixtures(llmEnv.LLM_FIXTURES_PATH));
+
+		case 'none':
+			return null;
+	}
+}
+
+/** Providers by selection, so clients are reused across requests */
+const providerCache = new Map<string, LLMProvider | null>();
+
+/**
+ * Provider configured for a project (or the default), or null when no
+ * model is available
+ */
+export async function getLLMProvider(projectId?: string | null): Promise<LLMProvider | null> {
+	const settings = await settingsService.getLLMSettings();
+	const selection = resolveLLMSelection(settings, projectId);
+	const cacheKey = `${selection.provider}|${selection.model ?? ''}|${settings.baseUrl ?? ''}`;
+
+	if (!providerCache.has(cacheKey)) {
+		providerCache.set(cacheKey, createLLMProvider(selection, settings));
+	}
+	return providerCache.get(cacheKey) ?? null;
+}
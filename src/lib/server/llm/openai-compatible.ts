@@ -0,0 +1,86 @@
+/**
+ * OpenAI-Compatible Provider
+ *
+ * Completions from any server implementing the OpenAI chat completions
+ * API: llama.cpp's server, Ollama (`http://localhost:11434/v1`), vLLM or
+ * OpenAI itself. Nothing leaves the network the endpoint is on.
+ */
+
+import { LLMProviderError, type LLMCompletion, type LLMProvider, type LLMRequest } from './provider';
+
+/** How long to wait for a completion; local models can be slow */
+const REQUEST_TIMEOUT_MS = 120000;
+
+interface ChatCompletionResponse {
+	model?: string;
+	choices?: Array<{ message?: { content?: string | null } }>;
+	usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+	readonly id = 'openai-compatible' as const;
+	private readonly baseUrl: string;
+
+	/**
+	 * @param baseUrl - API root, e.g. http://localhost:8080/v1
+	 * @param model - Model name the server knows
+	 * @param apiKey - Sent as a Bearer token when set
+	 */
+	constructor(
+		baseUrl: string,
+		readonly model: string,
+		private readonly apiKey?: string
+	) {
+		this.baseUrl = baseUrl.replace(/\/+$/, '');
+	}
+
+	async complete(request: LLMRequest): Promise<LLMCompletion> {
+		const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+		if (this.apiKey) {
+			headers.Authorization = `Bearer ${this.apiKey}`;
+		}
+
+		let response: Response;
+		try {
+			response = await fetch(`${this.baseUrl}/chat/completions`, {
+				method: 'POST',
+				headers,
+				body: JSON.stringify({
+					model: this.model,
+					max_tokens: request.maxTokens,
+					messages: [{ role: 'user', content: request.prompt }]
+				}),
+				signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+			});
+		} catch (error) {
+			throw new LLMProviderError(
+				`Cannot reach ${this.baseUrl}: ${error instanceof Error ? error.message : error}`,
+				this.id
+			);
+		}
+
+		if (!response.ok) {
+			const detail = await response.text().catch(() => '');
+			throw new LLMProviderError(
+				`${this.baseUrl} returned ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`,
+				this.id,
+				response.status
+			);
+		}
+
+		const body = (await response.json()) as ChatCompletionResponse;
+		const text = body.choices?.[0]?.message?.content;
+		if (!text) {
+			throw new LLMProviderError(`No text response from ${this.baseUrl}`, this.id);
+		}
+
+		return {
+			text,
+			model: body.model || this.model,
+			usage: {
+				inputTokens: body.usage?.prompt_tokens ?? 0,
+				outputTokens: body.usage?.completion_tokens ?? 0
+			}
+		};
+	}
+}
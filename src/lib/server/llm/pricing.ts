@@ -0,0 +1,48 @@
+/**
+ * Language Model Pricing
+ *
+ * List prices used to put a cost on tracked token usage. Self-hosted
+ * endpoints and fixtures cost nothing per token.
+ */
+
+import type { LLMProviderId } from '$lib/types/admin';
+import type { LLMTokenUsage } from './provider';
+
+/**
+ * USD per million tokens
+ */
+export interface ModelPrice {
+	input: number;
+	output: number;
+}
+
+/** Anthropic prices, matched by model name prefix */
+const ANTHROPIC_PRICES: Array<[prefix: string, price: ModelPrice]> = [
+	['claude-opus-4', { input: 15, output: 75 }],
+	['claude-sonnet-4', { input: 3, output: 15 }],
+	['claude-3-7-sonnet', { input: 3, output: 15 }],
+	['claude-3-5-sonnet', { input: 3, output: 15 }],
+	['claude-3-5-haiku', { input: 0.8, output: 4 }],
+	['claude-3-haiku', { input: 0.25, output: 1.25 }]
+];
+
+/**
+ * Price of a model, or null when it has no known per-token price
+ */
+export function getModelPrice(provider: LLMProviderId, model: string): ModelPrice | null {
+	if (provider !== 'anthropic') {
+		return null;
+	}
+	return ANTHROPIC_PRICES.find(([prefix]) => model.startsWith(prefix))?.[1] ?? null;
+}
+
+/**
+ * Cost in USD of a completion's token usage
+ */
+export function estimateCost(provider: LLMProviderId, model: string, usage: LLMTokenUsage): number {
+	const price = getModelPrice(provider, model);
+	if (!price) {
+		return 0;
+	}
+	return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
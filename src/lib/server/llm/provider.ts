@@ -0,0 +1,59 @@
+/**
+ * Language Model Provider Interface
+ *
+ * What callers (e.g. the NLP parser) need from a language model: a single
+ * prompt in, text and token counts out. Adapters live next to this file.
+ */
+
+import type { LLMProviderId } from '$lib/types/admin';
+
+/**
+ * A completion request
+ */
+export interface LLMRequest {
+	prompt: string;
+	/** Upper bound on generated tokens */
+	maxTokens: number;
+}
+
+/**
+ * Token counts of a completion
+ */
+export interface LLMTokenUsage {
+	inputTokens: number;
+	outputTokens: number;
+}
+
+/**
+ * A completion
+ */
+export interface LLMCompletion {
+	text: string;
+	/** Model that produced the text */
+	model: string;
+	usage: LLMTokenUsage;
+}
+
+/**
+ * A language model behind one of the supported APIs
+ */
+export interface LLMProvider {
+	readonly id: Exclude<LLMProviderId, 'none'>;
+	/** Model requests are sent to */
+	readonly model: string;
+	complete(request: LLMRequest): Promise<LLMCompletion>;
+}
+
+/**
+ * Error thrown when a provider cannot produce a completion
+ */
+export class LLMProviderError extends Error {
+	constructor(
+		message: string,
+		public readonly provider: LLMProviderId,
+		public readonly status?: number
+	) {
+		super(message);
+		this.name = 'LLMProviderError';
+	}
+}
@@ -0,0 +1,204 @@
+/**
+ * Per-Project Event Log
+ *
+ * Numbers every project event with a per-project, monotonically increasing
+ * sequence and keeps the latest events of each project in a bounded buffer,
+ * so reconnecting clients can ask for what they missed (see the
+ * project:sync socket event).
+ *
+ * With Redis the sequence is an INCR counter and the buffer a capped list,
+ * shared by every server instance. Without Redis (single instance) both are
+ * kept in memory.
+ */
+
+import { getRedisClient } from '$lib/server/redis';
+
+/** Number of events kept per project */
+export const DEFAULT_EVENT_BUFFER_SIZE = 500;
+
+// Redis key prefix of the per-project counter and buffer
+const EVENT_LOG_PREFIX = 'kanban:events:';
+
+/**
+ * An event with its position in the project's sequence
+ */
+export interface SequencedEvent<T = Record<string, unknown>> {
+	seq: number;
+	/** Channel the event was published on */
+	channel: string;
+	projectId: string;
+	event: T;
+}
+
+/**
+ * Redis commands the event log uses
+ */
+type EventLogClient = NonNullable<ReturnType<typeof getRedisClient>>;
+
+function sequenceKey(projectId: string): string {
+	return `${EVENT_LOG_PREFIX}${projectId}:seq`;
+}
+
+function bufferKey(projectId: string): string {
+	return `${EVENT_LOG_PREFIX}${projectId}:log`;
+}
+
+/**
+ * Sequence counter and bounded event buffer per project
+ */
+export class ProjectEventLog {
+	/** Last sequence number handed out per project (without Redis) */
+	private sequences: Map<string, number> = new Map();
+
+	/** Latest events per project, oldest first (without Redis) */
+	private buffers: Map<string, SequencedEvent[]> = new Map();
+
+	/**
+	 * @param capacity - Number of events kept per project
+	 * @param getClient - Redis client, or null to keep the log in memory
+	 */
+	constructor(
+		private capacity: number = DEFAULT_EVENT_BUFFER_SIZE,
+		private getClient: () => EventLogClient | null = getRedisClient
+	) {}
+
+	/**
+	 * Number an event and keep it in the project's buffer
+	 * @returns The event with its sequence number
+	 */
+	async append<T extends Record<string, unknown>>(
+		projectId: string,
+		channel: string,
+		event: T
+	): Promise<SequencedEvent<T>> {
+		const client = this.getClient();
+		if (!client) {
+			return this.appendInMemory(projectId, channel, event);
+		}
+
+		const seq = await client.incr(sequenceKey(projectId));
+		const entry: SequencedEvent<T> = { seq, channel, projectId, event };
+
+		const pipeline = client.pipeline();
+		pipeline.rpush(bufferKey(projectId), JSON.stringify(entry));
+		pipeline.ltrim(bufferKey(projectId), -this.capacity, -1);
+		await pipeline.exec();
+
+		return entry;
+	}
+
+	/**
+	 * Get the last sequence number of a project (0 before its first event)
+	 */
+	async getLatestSequence(projectId: string): Promise<number> {
+		const client = this.getClient();
+		if (!client) {
+			return this.sequences.get(projectId) ?? 0;
+		}
+		return Number((await client.get(sequenceKey(projectId))) ?? 0);
+	}
+
+	/**
+	 * Get the events published after a sequence number
+	 *
+	 * Instances append concurrently, so a number can be handed out before
+	 * its event is buffered. Only the unbroken run after lastSeq is
+	 * returned; the client asks again when it sees the gap.
+	 *
+	 * @param projectId - The project
+	 * @param lastSeq - Last sequence number the client has seen
+	 * @returns Missed events, oldest first, or null if some of them are no
+	 *          longer buffered (or the sequence is unknown, e.g. after the
+	 *          log was reset) and the client needs a full snapshot
+	 */
+	async getEventsSince(projectId: string, lastSeq: number): Promise<SequencedEvent[] | null> {
+		const latest = await this.getLatestSequence(projectId);
+		if (lastSeq > latest || lastSeq < 0) {
+			return null;
+		}
+		if (lastSeq === latest) {
+			return [];
+		}
+
+		const buffer = await this.getBuffer(projectId);
+		const oldest = buffer[0]?.seq ?? latest + 1;
+		if (lastSeq + 1 < oldest) {
+			return null;
+		}
+
+		const missed: SequencedEvent[] = [];
+		for (const entry of buffer) {
+			if (entry.seq <= lastSeq) continue;
+			if (entry.seq !== lastSeq + missed.length + 1) break;
+			missed.push(entry);
+		}
+		return missed;
+	}
+
+	/**
+	 * Forget the events of one project, or of all projects kept in memory
+	 */
+	async clear(projectId?: string): Promise<void> {
+		const client = this.getClient();
+		if (client && projectId) {
+			await client.del(sequenceKey(projectId), bufferKey(projectId));
+		}
+
+		if (projectId) {
+			this.sequences.delete(projectId);
+			this.buffers.delete(projectId);
+		} else {
+			this.sequences.clear();
+			this.buffers.clear();
+		}
+	}
+
+	/**
+	 * Buffered events of a project ordered by sequence
+	 */
+	private async getBuffer(projectId: string): Promise<SequencedEvent[]> {
+		const client = this.getClient();
+		if (!client) {
+			return this.buffers.get(projectId) ?? [];
+		}
+
+		const raw = await client.lrange(bufferKey(projectId), 0, -1);
+		return raw
+			.map((item) => JSON.parse(item) as SequencedEvent)
+			.sort((a, b) => a.seq - b.seq);
+	}
+
+	private appendInMemory<T extends Record<string, unknown>>(
+		projectId: string,
+		channel: string,
+		event: T
+	): SequencedEvent<T> {
+		const seq = (this.sequences.get(projectId) ?? 0) + 1;
+		this.sequences.set(projectId, seq);
+
+		const entry: SequencedEvent<T> = { seq, channel, projectId, event };
+
+		let buffer = this.buffers.get(projectId);
+		if (!buffer) {
+			buffer = [];
+			this.buffers.set(projectId, buffer);
+		}
+		buffer.push(entry);
+		if (buffer.length > this.capacity) {
+			buffer.splice(0, buffer.length - this.capacity);
+		}
+
+		return entry;
+	}
+}
+
+/**
+ * Shared event log. Kept on globalThis so the custom server (server.js)
+ * and the SvelteKit bundle see the same sequences.
+ */
+const globalForEventLog = globalThis as unknown as {
+	projectEventLog: ProjectEventLog | undefined;
+};
+
+export const projectEventLog: ProjectEventLog =
+	globalForEventLog.projectEventLog ?? (globalForEventLog.projectEventLog = new ProjectEventLog());
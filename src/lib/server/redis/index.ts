@@ -89,3 +89,11 @@ export {
 	// GAP-ROAD.1: Cache statistics
 	getCacheStatistics
 } from './cache';
+
+// Per-project event sequence and replay buffer
+export {
+	ProjectEventLog,
+	projectEventLog,
+	DEFAULT_EVENT_BUFFER_SIZE,
+	type SequencedEvent
+} from './event-log';
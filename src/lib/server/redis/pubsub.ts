@@ -3,9 +3,15 @@
  *
  * Provides a publish/subscribe mechanism for real-time events
  * that can be bridged to Socket.IO for client notifications.
+ *
+ * Project-scoped events are numbered per project and buffered so clients
+ * can replay what they missed while disconnected (see event-log.ts).
+ * Board changes published by events.ts are recorded the same way.
  */
 
 import { getRedisClient, getPubSubClient } from '$lib/server/redis';
+import { emitFromServer } from '$lib/server/socket/server';
+import { projectEventLog, type SequencedEvent } from './event-log';
 
 // Channel constants for organizing events
 export const TICKET_EVENTS = 'kanban:tickets';
@@ -104,9 +110,31 @@ export interface SocketIOServer {
 	emit(channel: string, data: unknown): void;
 }
 
+/**
+ * Number a project event, keep it for replay and send it to the project
+ * room as `project:event`
+ *
+ * @param projectId - The project the event belongs to
+ * @param channel - The channel the event is published on
+ * @param event - The event data
+ * @returns The event with its sequence number
+ */
+export async function recordProjectEvent(
+	projectId: string,
+	channel: string,
+	event: Record<string, unknown>
+): Promise<SequencedEvent> {
+	const entry = await projectEventLog.append(projectId, channel, event);
+	emitFromServer('project:event', entry, projectId);
+	return entry;
+}
+
 /**
  * Publish an event to a Redis channel
  *
+ * Events carrying a projectId get the project's next sequence number
+ * (`seq`) and are recorded for replay (see recordProjectEvent).
+ *
  * @param channel - The channel to publish to
  * @param event - The event data to publish
  * @returns The number of subscribers that received the message
@@ -115,11 +143,21 @@ export async function publishEvent(
 	channel: string,
 	event: BaseEvent | Record<string, unknown>
 ): Promise<number> {
-	const client = getRedisClient();
-	const eventWithTimestamp = {
+	let eventWithTimestamp: Record<string, unknown> = {
 		...event,
 		timestamp: event.timestamp || Date.now()
 	};
+
+	const projectId = (event as { projectId?: unknown }).projectId;
+	if (typeof projectId === 'string' && projectId) {
+		const entry = await recordProjectEvent(projectId, channel, eventWithTimestamp);
+		eventWithTimestamp = { ...eventWithTimestamp, seq: entry.seq };
+	}
+
+	const client = getRedisClient();
+	if (!client) {
+		return 0;
+	}
 	return client.publish(channel, JSON.stringify(eventWithTimestamp));
 }
 
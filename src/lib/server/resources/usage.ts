@@ -7,6 +7,7 @@
  * - Storage usage
  * - WebSocket connections
  * - Swarm executions
+ * - Language model tokens and cost
  */
 
 import { getRedisClient } from '$lib/server/redis';
@@ -63,6 +64,41 @@ export interface AgentStopResult {
 	projectId: string;
 }
 
+/**
+ * A language model call to account for
+ */
+export interface LlmUsageRecord {
+	provider: string;
+	model: string;
+	inputTokens: number;
+	outputTokens: number;
+	/** Cost in USD */
+	costUsd: number;
+}
+
+/**
+ * Language model usage of one provider and model
+ */
+export interface LlmModelUsage {
+	provider: string;
+	model: string;
+	requests: number;
+	inputTokens: number;
+	outputTokens: number;
+	costUsd: number;
+}
+
+/**
+ * Language model usage of a project
+ */
+export interface LlmUsage {
+	requests: number;
+	inputTokens: number;
+	outputTokens: number;
+	costUsd: number;
+	byModel: LlmModelUsage[];
+}
+
 /**
  * Dashboard data structure
  */
@@ -91,6 +127,7 @@ const WEBSOCKET_PREFIX = 'usage:websockets:';
 const SUMMARY_PREFIX = 'usage:summary:';
 const DAILY_PREFIX = 'usage:daily:';
 const USER_USAGE_PREFIX = 'usage:user:';
+const LLM_PREFIX = 'usage:llm:';
 
 // TTL for hourly API counters (2 hours to handle edge cases)
 const HOURLY_TTL = 7200;
@@ -336,6 +373,75 @@ export async function trackSwarmExecution(projectId: string): Promise<void> {
 	await client.hincrby(key, 'swarmExecutions', 1);
 }
 
+// ============================================
+// Language Model Tracking
+// ============================================
+
+/**
+ * Track the tokens and cost of a language model call
+ *
+ * Totals and per-model counters share one hash; per-model fields are
+ * named `<provider>/<model>:<counter>`.
+ *
+ * @param projectId - The project ID
+ * @param usage - Provider, model, tokens and cost of the call
+ */
+export async function trackLlmUsage(projectId: string, usage: LlmUsageRecord): Promise<void> {
+	const client = getRedisClient();
+	if (!client) return;
+
+	const key = `${LLM_PREFIX}${projectId}`;
+	const model = `${usage.provider}/${usage.model}`;
+
+	for (const prefix of ['', `${model}:`]) {
+		await client.hincrby(key, `${prefix}requests`, 1);
+		await client.hincrby(key, `${prefix}inputTokens`, usage.inputTokens);
+		await client.hincrby(key, `${prefix}outputTokens`, usage.outputTokens);
+		await client.hincrbyfloat(key, `${prefix}costUsd`, usage.costUsd);
+	}
+}
+
+/**
+ * Get language model usage for a project
+ *
+ * @param projectId - The project ID
+ * @returns Totals and usage per provider and model
+ */
+export async function getLlmUsage(projectId: string): Promise<LlmUsage> {
+	const client = getRedisClient();
+	if (!client) {
+		throw new Error('Redis is not available');
+	}
+
+	const data = (await client.hgetall(`${LLM_PREFIX}${projectId}`)) || {};
+
+	const byModel = new Map<string, LlmModelUsage>();
+	for (const [field, value] of Object.entries(data)) {
+		const match = field.match(/^([^/]+)\/(.+):(requests|inputTokens|outputTokens|costUsd)$/);
+		if (!match) continue;
+
+		const [, provider, model, counter] = match;
+		const entry = byModel.get(`${provider}/${model}`) ?? {
+			provider,
+			model,
+			requests: 0,
+			inputTokens: 0,
+			outputTokens: 0,
+			costUsd: 0
+		};
+		entry[counter as 'requests' | 'inputTokens' | 'outputTokens' | 'costUsd'] = parseFloat(value);
+		byModel.set(`${provider}/${model}`, entry);
+	}
+
+	return {
+		requests: parseInt(data.requests || '0', 10),
+		inputTokens: parseInt(data.inputTokens || '0', 10),
+		outputTokens: parseInt(data.outputTokens || '0', 10),
+		costUsd: parseFloat(data.costUsd || '0'),
+		byModel: [...byModel.values()].sort((a, b) => b.costUsd - a.costUsd || b.requests - a.requests)
+	};
+}
+
 // ============================================
 // Aggregate Usage
 // ============================================
@@ -536,5 +642,5 @@ export async function resetProjectUsage(projectId: string): Promise<void> {
 	const client = getRedisClient();
 	const summaryKey = `${SUMMARY_PREFIX}${projectId}`;
 
-	await client.del(summaryKey);
+	await client.del(summaryKey, `${LLM_PREFIX}${projectId}`);
 }
@@ -136,3 +136,85 @@ export function requireAuthentication(
     next();
   });
 }
+
+/**
+ * Whether a user may watch a ticket's live execution output
+ */
+export type TicketAccessCheck = (userId: string, ticketId: string) => Promise<boolean>;
+
+/**
+ * Whether a user may follow a project's board
+ */
+export type ProjectAccessCheck = (userId: string, projectId: string) => Promise<boolean>;
+
+const globalForAccess = globalThis as unknown as {
+  canSubscribeToTicket: typeof canSubscribeToTicket | undefined;
+  canJoinProject: typeof canJoinProject | undefined;
+};
+
+let ticketAccessCheck: TicketAccessCheck | null = null;
+let projectAccessCheck: ProjectAccessCheck | null = null;
+
+/**
+ * Check that a socket may join a ticket room
+ *
+ * Ticket rooms stream the agents' output, which can contain anything from
+ * the project's repository, so only signed-in members of the ticket's
+ * project may join. Refused until a check is registered.
+ *
+ * @param data - The socket's data
+ * @param ticketId - The ticket to subscribe to
+ */
+export async function canSubscribeToTicket(
+  data: Pick<SocketData, 'userId' | 'isAuthenticated'>,
+  ticketId: string
+): Promise<boolean> {
+  if (!data.isAuthenticated || !data.userId || !ticketAccessCheck) {
+    return false;
+  }
+  return ticketAccessCheck(data.userId, ticketId);
+}
+
+/**
+ * Register the project membership check behind ticket subscriptions and
+ * expose it to the custom server (server.js). Registered at server startup
+ * (hooks.server.ts) so the socket modules stay free of database imports.
+ *
+ * @param check - Whether a user may see a ticket, or null to refuse all
+ */
+export function registerTicketAccessCheck(check: TicketAccessCheck | null): void {
+  ticketAccessCheck = check;
+  globalForAccess.canSubscribeToTicket = canSubscribeToTicket;
+}
+
+/**
+ * Check that a socket may join a project room
+ *
+ * Project rooms carry every board change and can hand out a full board
+ * snapshot (see project:sync), so only signed-in members of the project
+ * may join. Refused until a check is registered.
+ *
+ * @param data - The socket's data
+ * @param projectId - The project to join
+ */
+export async function canJoinProject(
+  data: Pick<SocketData, 'userId' | 'isAuthenticated'>,
+  projectId: string
+): Promise<boolean> {
+  if (!data.isAuthenticated || !data.userId || !projectAccessCheck) {
+    return false;
+  }
+  return projectAccessCheck(data.userId, projectId);
+}
+
+/**
+ * Register the project membership check behind project rooms and expose
+ * it to the custom server (server.js). Registered at server startup
+ * (hooks.server.ts) alongside the ticket access check.
+ *
+ * @param check - Whether a user may follow a project, or null to refuse all
+ */
+export function registerProjectAccessCheck(check: ProjectAccessCheck | null): void {
+  projectAccessCheck = check;
+  globalForAccess.canJoinProject = canJoinProject;
+}
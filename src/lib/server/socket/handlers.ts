@@ -9,6 +9,7 @@ import type { Socket } from 'socket.io';
 import type {
   ClientToServerEvents,
   ServerToClientEvents,
+  InterServerEvents,
   SocketData,
   TicketMovedPayload,
   TicketCreatedPayload,
@@ -16,12 +17,25 @@ import type {
   TicketDeletedPayload,
   JoinProjectPayload,
   LeaveProjectPayload,
+  TicketSubscriptionPayload,
+  TicketViewPayload,
+  TicketLockPayload,
+  TicketLockResponse,
+  PresencePayload,
+  ProjectSyncPayload,
+  ProjectSyncResponse,
   ErrorPayload
 } from '$lib/types/socket-events';
-import type { RoomManager } from './rooms';
+import { getTicketRoomId, type RoomManager } from './rooms';
+import { canJoinProject, canSubscribeToTicket } from './auth';
+import { getProjectSync, type ProjectSync } from './sync';
+import { projectEventLog, type ProjectEventLog } from '$lib/server/redis/event-log';
 import type { Ticket } from '$lib/types/index';
 
-type TypedSocket = Socket<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+type TypedSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+/** Event log channel of board changes relayed between clients */
+const RELAYED_EVENTS = 'socket:relay';
 
 /**
  * Ticket event handlers
@@ -45,6 +59,11 @@ export interface TicketHandlers {
     payload: TicketDeletedPayload,
     callback?: (response: { success: boolean; error?: ErrorPayload }) => void
   ) => Promise<void>;
+  'ticket:subscribe': (
+    payload: TicketSubscriptionPayload,
+    callback?: (response: { success: boolean; error?: ErrorPayload }) => void
+  ) => Promise<void>;
+  'ticket:unsubscribe': (payload: TicketSubscriptionPayload) => Promise<void>;
 }
 
 /**
@@ -58,13 +77,81 @@ export interface ProjectHandlers {
   'project:leave': (payload: LeaveProjectPayload) => Promise<void>;
 }
 
+/**
+ * Presence and edit lock handlers
+ */
+export interface PresenceHandlers {
+  'presence:view': (payload: TicketViewPayload) => Promise<void>;
+  'ticket:lock': (
+    payload: TicketLockPayload,
+    callback?: (response: TicketLockResponse) => void
+  ) => Promise<void>;
+  'ticket:unlock': (payload: TicketLockPayload) => Promise<void>;
+}
+
+/**
+ * Missed event replay handlers
+ */
+export interface SyncHandlers {
+  'project:sync': (
+    payload: ProjectSyncPayload,
+    callback?: (response: ProjectSyncResponse) => void
+  ) => Promise<void>;
+}
+
+/**
+ * Send the presence of a project room to the other sockets in it and,
+ * unless it has left, to the socket itself
+ * @param socket - The socket whose change triggered the update
+ * @param roomManager - The room manager instance
+ * @param projectId - The project room
+ * @param includeSelf - Whether the socket is still in the room
+ */
+function broadcastPresence(
+  socket: TypedSocket,
+  roomManager: RoomManager,
+  projectId: string,
+  includeSelf = true
+): void {
+  const payload: PresencePayload = { projectId, users: roomManager.getPresence(projectId) };
+
+  socket.to(projectId).emit('presence:update', payload);
+  if (includeSelf) {
+    socket.emit('presence:update', payload);
+  }
+}
+
+/**
+ * Number a relayed board change in the project's event log and send it to
+ * the whole room, the sender included, so every board stays in sequence
+ * @param socket - The socket that made the change
+ * @param log - The event log
+ * @param projectId - The project room
+ * @param event - The change, with its socket event name as type
+ */
+async function recordRelayedEvent(
+  socket: TypedSocket,
+  log: ProjectEventLog,
+  projectId: string,
+  event: Record<string, unknown>
+): Promise<void> {
+  const entry = await log.append(projectId, RELAYED_EVENTS, event);
+  socket.to(projectId).emit('project:event', entry);
+  socket.emit('project:event', entry);
+}
+
 /**
  * Create ticket event handlers for a socket
  * @param socket - The Socket.IO socket
  * @param roomManager - The room manager instance
+ * @param log - Event log relayed changes are numbered in
  * @returns Object with ticket event handlers
  */
-export function createTicketHandlers(socket: TypedSocket, roomManager: RoomManager): TicketHandlers {
+export function createTicketHandlers(
+  socket: TypedSocket,
+  roomManager: RoomManager,
+  log: ProjectEventLog = projectEventLog
+): TicketHandlers {
   return {
     'ticket:move': async (payload, callback) => {
       try {
@@ -85,6 +172,8 @@ export function createTicketHandlers(socket: TypedSocket, roomManager: RoomManag
         // TODO: Validate transition with state machine in Phase 3
         // TODO: Persist change to database in Phase 3
 
+        await recordRelayedEvent(socket, log, projectId, { type: 'ticket:moved', ...payload });
+
         // Broadcast to all clients in the room except sender
         socket.to(projectId).emit('ticket:moved', payload);
 
@@ -125,6 +214,12 @@ export function createTicketHandlers(socket: TypedSocket, roomManager: RoomManag
           updatedAt: new Date()
         };
 
+        await recordRelayedEvent(socket, log, projectId, {
+          type: 'ticket:created',
+          projectId,
+          ticket: createdTicket
+        });
+
         // Broadcast to all clients in the room except sender
         socket.to(projectId).emit('ticket:created', { projectId, ticket: createdTicket });
 
@@ -158,6 +253,8 @@ export function createTicketHandlers(socket: TypedSocket, roomManager: RoomManag
 
         // TODO: Update ticket in database in Phase 3
 
+        await recordRelayedEvent(socket, log, projectId, { type: 'ticket:updated', ...payload });
+
         // Broadcast to all clients in the room except sender
         socket.to(projectId).emit('ticket:updated', payload);
 
@@ -191,6 +288,8 @@ export function createTicketHandlers(socket: TypedSocket, roomManager: RoomManag
 
         // TODO: Delete ticket from database in Phase 3
 
+        await recordRelayedEvent(socket, log, projectId, { type: 'ticket:deleted', ...payload });
+
         // Broadcast to all clients in the room except sender
         socket.to(projectId).emit('ticket:deleted', payload);
 
@@ -204,6 +303,42 @@ export function createTicketHandlers(socket: TypedSocket, roomManager: RoomManag
           }
         });
       }
+    },
+
+    'ticket:subscribe': async (payload, callback) => {
+      try {
+        // Ticket rooms carry live execution output for a single ticket
+        if (!(await canSubscribeToTicket(socket.data, payload.ticketId))) {
+          callback?.({
+            success: false,
+            error: {
+              code: 'FORBIDDEN',
+              message: 'You are not a member of this project'
+            }
+          });
+          return;
+        }
+
+        await socket.join(getTicketRoomId(payload.ticketId));
+        callback?.({ success: true });
+      } catch (error) {
+        callback?.({
+          success: false,
+          error: {
+            code: 'SUBSCRIBE_FAILED',
+            message: error instanceof Error ? error.message : 'Failed to subscribe to ticket'
+          }
+        });
+      }
+    },
+
+    'ticket:unsubscribe': async (payload) => {
+      try {
+        await socket.leave(getTicketRoomId(payload.ticketId));
+      } catch (error) {
+        // Log error but don't throw - leaving should be best-effort
+        console.error('Error unsubscribing from ticket:', error);
+      }
     }
   };
 }
@@ -220,6 +355,18 @@ export function createProjectHandlers(socket: TypedSocket, roomManager: RoomMana
       try {
         const { projectId } = payload;
 
+        // Project rooms carry every board change of the project
+        if (!(await canJoinProject(socket.data, projectId))) {
+          callback?.({
+            success: false,
+            error: {
+              code: 'FORBIDDEN',
+              message: 'You are not a member of this project'
+            }
+          });
+          return;
+        }
+
         // Join the Socket.IO room
         await socket.join(projectId);
 
@@ -244,6 +391,7 @@ export function createProjectHandlers(socket: TypedSocket, roomManager: RoomMana
           userId: socket.data.userId || socket.id,
           userName: socket.data.userName
         });
+        broadcastPresence(socket, roomManager, projectId);
 
         callback?.({ success: true, users });
       } catch (error) {
@@ -270,8 +418,9 @@ export function createProjectHandlers(socket: TypedSocket, roomManager: RoomMana
         // Leave the Socket.IO room
         await socket.leave(projectId);
 
-        // Remove from room manager
+        // Remove from room manager (releases the socket's edit locks)
         roomManager.leaveRoom(projectId, socket.id);
+        broadcastPresence(socket, roomManager, projectId, false);
 
         // Update socket data
         if (socket.data.currentProject === projectId) {
@@ -285,6 +434,115 @@ export function createProjectHandlers(socket: TypedSocket, roomManager: RoomMana
   };
 }
 
+/**
+ * Create presence and edit lock handlers for a socket
+ * @param socket - The Socket.IO socket
+ * @param roomManager - The room manager instance
+ * @returns Object with presence event handlers
+ */
+export function createPresenceHandlers(socket: TypedSocket, roomManager: RoomManager): PresenceHandlers {
+  return {
+    'presence:view': async (payload) => {
+      const { projectId, ticketId } = payload;
+
+      if (roomManager.setViewingTicket(projectId, socket.id, ticketId)) {
+        broadcastPresence(socket, roomManager, projectId);
+      }
+    },
+
+    'ticket:lock': async (payload, callback) => {
+      try {
+        const { projectId, ticketId } = payload;
+        const result = roomManager.acquireLock(projectId, ticketId, socket.id);
+
+        if (!result) {
+          callback?.({
+            success: false,
+            error: {
+              code: 'NOT_IN_PROJECT',
+              message: 'You must join the project before editing tickets'
+            }
+          });
+          return;
+        }
+
+        if (!result.acquired) {
+          callback?.({
+            success: false,
+            lock: result.lock,
+            error: {
+              code: 'TICKET_LOCKED',
+              message: `${result.lock.userName || 'Another user'} is editing this ticket`
+            }
+          });
+          return;
+        }
+
+        broadcastPresence(socket, roomManager, projectId);
+        callback?.({ success: true, lock: result.lock });
+      } catch (error) {
+        callback?.({
+          success: false,
+          error: {
+            code: 'LOCK_FAILED',
+            message: error instanceof Error ? error.message : 'Failed to lock ticket'
+          }
+        });
+      }
+    },
+
+    'ticket:unlock': async (payload) => {
+      const { projectId, ticketId } = payload;
+
+      if (roomManager.releaseLock(projectId, ticketId, socket.id)) {
+        broadcastPresence(socket, roomManager, projectId);
+      }
+    }
+  };
+}
+
+/**
+ * Create missed event replay handlers for a socket
+ * @param socket - The Socket.IO socket
+ * @param roomManager - The room manager instance
+ * @param sync - Answers sync requests (defaults to the shared event log)
+ * @returns Object with sync event handlers
+ */
+export function createSyncHandlers(
+  socket: TypedSocket,
+  roomManager: RoomManager,
+  sync: ProjectSync = getProjectSync
+): SyncHandlers {
+  return {
+    'project:sync': async (payload, callback) => {
+      try {
+        const { projectId, lastSeq } = payload;
+
+        if (!roomManager.isInRoom(projectId, socket.id)) {
+          callback?.({
+            success: false,
+            error: {
+              code: 'NOT_IN_PROJECT',
+              message: 'You must join the project before syncing it'
+            }
+          });
+          return;
+        }
+
+        callback?.(await sync(projectId, typeof lastSeq === 'number' ? lastSeq : 0, socket.data));
+      } catch (error) {
+        callback?.({
+          success: false,
+          error: {
+            code: 'SYNC_FAILED',
+            message: error instanceof Error ? error.message : 'Failed to sync project'
+          }
+        });
+      }
+    }
+  };
+}
+
 /**
  * Handle socket disconnect - clean up all rooms
  * @param socket - The Socket.IO socket
@@ -300,5 +558,6 @@ export function handleDisconnect(socket: TypedSocket, roomManager: RoomManager):
       projectId,
       userId: socket.data.userId || socket.id
     });
+    broadcastPresence(socket, roomManager, projectId, false);
   }
 }
@@ -4,15 +4,33 @@
  * Re-exports all socket-related functionality for easy imports.
  */
 
-export { createSocketServer, setGlobalIO, getGlobalIO } from './server';
+export { createSocketServer, setGlobalIO, getGlobalIO, emitFromServer } from './server';
 export { getSocketServerConfig, getDefaultSocketUrl } from './config';
 export type { SocketServerConfig } from './config';
 
-export { RoomManager, roomManager } from './rooms';
-export type { RoomUser } from './rooms';
+export { RoomManager, roomManager, getTicketRoomId } from './rooms';
+export type { RoomUser, LockResult } from './rooms';
 
-export { authenticateSocket, extractUserFromToken, generateAnonymousUser, requireAuthentication } from './auth';
-export type { AuthenticatedUser } from './auth';
+export {
+  authenticateSocket,
+  extractUserFromToken,
+  generateAnonymousUser,
+  requireAuthentication,
+  canSubscribeToTicket,
+  registerTicketAccessCheck,
+  canJoinProject,
+  registerProjectAccessCheck
+} from './auth';
+export type { AuthenticatedUser, TicketAccessCheck, ProjectAccessCheck } from './auth';
 
-export { createTicketHandlers, createProjectHandlers, handleDisconnect } from './handlers';
-export type { TicketHandlers, ProjectHandlers } from './handlers';
+export {
+  createTicketHandlers,
+  createProjectHandlers,
+  createPresenceHandlers,
+  createSyncHandlers,
+  handleDisconnect
+} from './handlers';
+export type { TicketHandlers, ProjectHandlers, PresenceHandlers, SyncHandlers } from './handlers';
+
+export { createProjectSync, getProjectSync, registerProjectSnapshotLoader } from './sync';
+export type { ProjectSync, ProjectSnapshotLoader } from './sync';
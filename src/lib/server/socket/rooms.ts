@@ -3,8 +3,12 @@
  *
  * Manages WebSocket rooms for project-based real-time collaboration.
  * Tracks connected users per project and handles cleanup on disconnect.
+ * Also tracks presence (which ticket each user is viewing) and soft edit
+ * locks, which are released when their holder leaves.
  */
 
+import type { PresenceUser, TicketLock } from '$lib/types/socket-events';
+
 /**
  * User information stored for each socket in a room
  */
@@ -12,6 +16,27 @@ export interface RoomUser {
   socketId: string;
   userId?: string;
   userName?: string;
+  /** Ticket open in the user's detail view */
+  viewingTicketId?: string | null;
+}
+
+/**
+ * Result of trying to take a ticket's edit lock
+ */
+export interface LockResult {
+  /** Whether the socket now holds the lock */
+  acquired: boolean;
+  /** The lock (held by someone else when not acquired) */
+  lock: TicketLock;
+}
+
+/**
+ * Get the Socket.IO room for a single ticket (e.g. live execution output)
+ * @param ticketId - The ticket ID
+ * @returns Room identifier, distinct from project rooms
+ */
+export function getTicketRoomId(ticketId: string): string {
+  return `ticket:${ticketId}`;
 }
 
 /**
@@ -24,6 +49,9 @@ export class RoomManager {
   /** Reverse index: socket ID to set of rooms */
   private socketRooms: Map<string, Set<string>> = new Map();
 
+  /** Map of room ID to edit locks by ticket ID */
+  private locks: Map<string, Map<string, TicketLock>> = new Map();
+
   /**
    * Add a socket to a project room
    * @param roomId - The project ID to use as room identifier
@@ -75,6 +103,7 @@ export class RoomManager {
     if (index !== -1) {
       room.splice(index, 1);
     }
+    this.releaseSocketLocks(roomId, socketId);
 
     // Clean up empty rooms
     if (room.length === 0) {
@@ -112,6 +141,7 @@ export class RoomManager {
           room.splice(index, 1);
           leftRooms.push(roomId);
         }
+        this.releaseSocketLocks(roomId, socketId);
 
         // Clean up empty rooms
         if (room.length === 0) {
@@ -176,6 +206,138 @@ export class RoomManager {
     const room = this.rooms.get(roomId);
     return room?.find((u) => u.socketId === socketId);
   }
+
+  /**
+   * Set the ticket a socket is viewing
+   * @param roomId - The project room
+   * @param socketId - The viewing socket
+   * @param ticketId - Ticket being viewed, null when back on the board
+   * @returns False if the socket is not in the room
+   */
+  setViewingTicket(roomId: string, socketId: string, ticketId: string | null): boolean {
+    const user = this.getSocketUser(roomId, socketId);
+    if (!user) {
+      return false;
+    }
+
+    user.viewingTicketId = ticketId;
+    return true;
+  }
+
+  /**
+   * Take the edit lock of a ticket. Succeeds when the lock is free or
+   * already held by the same socket.
+   * @param roomId - The project room
+   * @param ticketId - The ticket to edit
+   * @param socketId - The socket asking for the lock
+   * @returns Whether the lock was acquired and the current lock
+   */
+  acquireLock(roomId: string, ticketId: string, socketId: string): LockResult | null {
+    const user = this.getSocketUser(roomId, socketId);
+    if (!user) {
+      return null;
+    }
+
+    const existing = this.getLock(roomId, ticketId);
+    if (existing && existing.socketId !== socketId) {
+      return { acquired: false, lock: existing };
+    }
+
+    // A socket edits one ticket at a time
+    this.releaseSocketLocks(roomId, socketId);
+
+    const lock: TicketLock = existing ?? {
+      ticketId,
+      socketId,
+      userId: user.userId || socketId,
+      userName: user.userName,
+      acquiredAt: new Date().toISOString()
+    };
+    this.getOrCreateRoomLocks(roomId).set(ticketId, lock);
+
+    return { acquired: true, lock };
+  }
+
+  /**
+   * Release a ticket's edit lock if the socket holds it
+   * @returns True if a lock was released
+   */
+  releaseLock(roomId: string, ticketId: string, socketId: string): boolean {
+    const roomLocks = this.locks.get(roomId);
+    const lock = roomLocks?.get(ticketId);
+    if (!roomLocks || !lock || lock.socketId !== socketId) {
+      return false;
+    }
+
+    roomLocks.delete(ticketId);
+    if (roomLocks.size === 0) {
+      this.locks.delete(roomId);
+    }
+    return true;
+  }
+
+  /**
+   * Get the edit lock of a ticket
+   */
+  getLock(roomId: string, ticketId: string): TicketLock | undefined {
+    return this.locks.get(roomId)?.get(ticketId);
+  }
+
+  /**
+   * Get all edit locks in a room
+   */
+  getLocks(roomId: string): TicketLock[] {
+    const roomLocks = this.locks.get(roomId);
+    return roomLocks ? Array.from(roomLocks.values()) : [];
+  }
+
+  /**
+   * Get who is in a room, what they view and what they edit
+   * @param roomId - The room to query
+   * @returns One entry per connected socket
+   */
+  getPresence(roomId: string): PresenceUser[] {
+    const editing = new Map(this.getLocks(roomId).map((lock) => [lock.socketId, lock.ticketId]));
+
+    return this.getUsersInRoom(roomId).map((user) => ({
+      socketId: user.socketId,
+      userId: user.userId || user.socketId,
+      userName: user.userName,
+      viewingTicketId: user.viewingTicketId ?? null,
+      editingTicketId: editing.get(user.socketId) ?? null
+    }));
+  }
+
+  /**
+   * Get the locks of a room, creating the map if needed
+   */
+  private getOrCreateRoomLocks(roomId: string): Map<string, TicketLock> {
+    let roomLocks = this.locks.get(roomId);
+    if (!roomLocks) {
+      roomLocks = new Map();
+      this.locks.set(roomId, roomLocks);
+    }
+    return roomLocks;
+  }
+
+  /**
+   * Release every lock a socket holds in a room
+   */
+  private releaseSocketLocks(roomId: string, socketId: string): void {
+    const roomLocks = this.locks.get(roomId);
+    if (!roomLocks) {
+      return;
+    }
+
+    for (const [ticketId, lock] of roomLocks) {
+      if (lock.socketId === socketId) {
+        roomLocks.delete(ticketId);
+      }
+    }
+    if (roomLocks.size === 0) {
+      this.locks.delete(roomId);
+    }
+  }
 }
 
 /** Singleton instance of the room manager */
@@ -14,7 +14,13 @@ import type {
   SocketData
 } from '$lib/types/socket-events';
 import { authenticateSocket } from './auth';
-import { createTicketHandlers, createProjectHandlers, handleDisconnect } from './handlers';
+import {
+  createTicketHandlers,
+  createProjectHandlers,
+  createPresenceHandlers,
+  createSyncHandlers,
+  handleDisconnect
+} from './handlers';
 import { RoomManager, roomManager } from './rooms';
 import { getSocketServerConfig } from './config';
 
@@ -49,17 +55,29 @@ export function createSocketServer(
     // Create handlers
     const ticketHandlers = createTicketHandlers(socket, manager);
     const projectHandlers = createProjectHandlers(socket, manager);
+    const presenceHandlers = createPresenceHandlers(socket, manager);
+    const syncHandlers = createSyncHandlers(socket, manager);
 
     // Register ticket event handlers
     socket.on('ticket:move', ticketHandlers['ticket:move']);
     socket.on('ticket:create', ticketHandlers['ticket:create']);
     socket.on('ticket:update', ticketHandlers['ticket:update']);
     socket.on('ticket:delete', ticketHandlers['ticket:delete']);
+    socket.on('ticket:subscribe', ticketHandlers['ticket:subscribe']);
+    socket.on('ticket:unsubscribe', ticketHandlers['ticket:unsubscribe']);
 
     // Register project event handlers
     socket.on('project:join', projectHandlers['project:join']);
     socket.on('project:leave', projectHandlers['project:leave']);
 
+    // Register presence and edit lock handlers
+    socket.on('presence:view', presenceHandlers['presence:view']);
+    socket.on('ticket:lock', presenceHandlers['ticket:lock']);
+    socket.on('ticket:unlock', presenceHandlers['ticket:unlock']);
+
+    // Register missed event replay handler
+    socket.on('project:sync', syncHandlers['project:sync']);
+
     // Handle disconnect
     socket.on('disconnect', (reason) => {
       console.log(`Client disconnected: ${socket.id} (${reason})`);
@@ -70,30 +88,44 @@ export function createSocketServer(
   return io;
 }
 
+type TypedServer = SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
 /**
- * Global Socket.IO server instance (set by the custom server)
+ * Global Socket.IO server instance (set by the custom server).
+ * Kept on globalThis so the custom server (server.js) and the SvelteKit
+ * bundle share the same instance.
  */
-let globalIo: SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData> | null = null;
+const globalForSocket = globalThis as unknown as {
+  socketIO: TypedServer | undefined;
+};
 
 /**
  * Set the global Socket.IO server instance
  * @param io - The Socket.IO server instance
  */
-export function setGlobalIO(
-  io: SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>
-): void {
-  globalIo = io;
+export function setGlobalIO(io: TypedServer): void {
+  globalForSocket.socketIO = io;
 }
 
 /**
  * Get the global Socket.IO server instance
  * @returns The Socket.IO server instance or null if not initialized
  */
-export function getGlobalIO(): SocketIOServer<
-  ClientToServerEvents,
-  ServerToClientEvents,
-  InterServerEvents,
-  SocketData
-> | null {
-  return globalIo;
+export function getGlobalIO(): TypedServer | null {
+  return globalForSocket.socketIO ?? null;
+}
+
+/**
+ * Emit an event from server-side code, optionally only to one room.
+ * Does nothing until the custom server has registered its instance.
+ * @param event - Event name
+ * @param data - Event payload
+ * @param room - Optional room to restrict delivery to
+ */
+export function emitFromServer(event: string, data: unknown, room?: string): void {
+  const io = getGlobalIO();
+  if (!io) return;
+
+  const target = room ? io.to(room) : io;
+  (target as unknown as { emit: (event: string, data: unknown) => void }).emit(event, data);
 }
@@ -0,0 +1,101 @@
+/**
+ * Project Sync
+ *
+ * Answers the project:sync handshake of (re)connecting clients: the events
+ * published since the client's last sequence number, or a full board
+ * snapshot when those events are no longer buffered. A sequence number the
+ * log never handed out is rejected, and the snapshot is only sent to
+ * members of the project.
+ *
+ * The snapshot loader is registered at server startup (hooks.server.ts) so
+ * the socket modules stay free of database imports. The sync function is
+ * also exposed on globalThis for the custom server (server.js).
+ */
+
+import type { ProjectSnapshot, ProjectSyncResponse, SocketData } from '$lib/types/socket-events';
+import { projectEventLog, type ProjectEventLog } from '$lib/server/redis/event-log';
+import { canJoinProject } from './auth';
+
+/** Loads the current board state of a project */
+export type ProjectSnapshotLoader = (projectId: string) => Promise<ProjectSnapshot>;
+
+/** Answers a sync request from a socket */
+export type ProjectSync = (
+  projectId: string,
+  lastSeq: number,
+  user: Pick<SocketData, 'userId' | 'isAuthenticated'>
+) => Promise<ProjectSyncResponse>;
+
+const globalForSync = globalThis as unknown as {
+  projectSync: ProjectSync | undefined;
+};
+
+let snapshotLoader: ProjectSnapshotLoader | null = null;
+
+/**
+ * Create a sync function over an event log
+ * @param loadSnapshot - Loader for clients too far behind (null: none available)
+ * @param log - The event log to replay from
+ * @param canLoadSnapshot - Whether a socket may receive the project's snapshot
+ */
+export function createProjectSync(
+  loadSnapshot: () => ProjectSnapshotLoader | null,
+  log: ProjectEventLog = projectEventLog,
+  canLoadSnapshot: typeof canJoinProject = canJoinProject
+): ProjectSync {
+  return async (projectId, lastSeq, user) => {
+    const latestSeq = await log.getLatestSequence(projectId);
+
+    // Negative or future sequences (e.g. from before a log reset) get no
+    // snapshot; the client reloads the board through the API instead
+    if (!Number.isInteger(lastSeq) || lastSeq < 0 || lastSeq > latestSeq) {
+      return {
+        success: false,
+        latestSeq,
+        error: { code: 'INVALID_SEQUENCE', message: 'Unknown event sequence, reload the board' }
+      };
+    }
+
+    const events = await log.getEventsSince(projectId, lastSeq);
+    if (events) {
+      return { success: true, latestSeq, events };
+    }
+
+    if (!(await canLoadSnapshot(user, projectId))) {
+      return {
+        success: false,
+        latestSeq,
+        error: { code: 'FORBIDDEN', message: 'You are not a member of this project' }
+      };
+    }
+
+    const loader = loadSnapshot();
+    if (!loader) {
+      return {
+        success: false,
+        latestSeq,
+        error: {
+          code: 'SNAPSHOT_UNAVAILABLE',
+          message: 'Missed events are no longer buffered, reload the board'
+        }
+      };
+    }
+
+    return { success: true, latestSeq, snapshot: await loader(projectId) };
+  };
+}
+
+/**
+ * Sync against the shared event log with the registered snapshot loader
+ */
+export const getProjectSync: ProjectSync = createProjectSync(() => snapshotLoader);
+
+/**
+ * Register the snapshot loader and expose the sync function to the
+ * custom server
+ * @param loader - Loader for the current board state of a project
+ */
+export function registerProjectSnapshotLoader(loader: ProjectSnapshotLoader | null): void {
+  snapshotLoader = loader;
+  globalForSync.projectSync = getProjectSync;
+}
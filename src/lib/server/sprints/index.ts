@@ -0,0 +1,14 @@
+/**
+ * Sprints Module
+ *
+ * Time-boxed iterations with capacity planning, burn charts and velocity.
+ */
+
+export {
+  sprintService,
+  SprintService,
+  SprintNotFoundError,
+  SprintStateError,
+  validateSprintInput,
+  type SprintInput
+} from './sprint-service';
@@ -0,0 +1,532 @@
+/**
+ * Sprint Service
+ *
+ * Time-boxed iterations of a project:
+ * - Tickets are planned into a sprint with an effort estimate
+ *   (time-estimation.ts); a ticket is in at most one open sprint
+ * - Capacity defaults to the velocity of recent sprints, and planning
+ *   suggests backlog tickets that fit the remaining capacity
+ * - Starting a sprint commits its tickets; only one sprint is active
+ * - Completing a sprint carries unfinished tickets over to the next
+ *   planned sprint, creating one when none is planned
+ * - Memberships are kept when tickets leave a sprint, so burn charts can
+ *   replay scope changes
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '$lib/server/prisma';
+import { estimateTicketHours } from '$lib/server/analysis/time-estimation';
+import type { Priority, TicketStatus } from '$lib/types';
+import {
+  DEFAULT_SPRINT_LENGTH_DAYS,
+  MAX_SPRINT_NAME_LENGTH,
+  VELOCITY_SPRINT_COUNT,
+  type Sprint,
+  type SprintBurnPoint,
+  type SprintPlan,
+  type SprintTicket,
+  type SprintVelocity
+} from '$lib/types/sprints';
+import { buildBurnChart, calculateVelocity } from '$lib/utils/sprint-burndown';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Statuses of tickets with no work left */
+const FINISHED_STATUSES: TicketStatus[] = ['DONE', 'CANCELLED'];
+
+/** Statuses of tickets planning suggests */
+const PLANNABLE_STATUSES: TicketStatus[] = ['BACKLOG', 'TODO'];
+
+const PRIORITY_RANK: Record<Priority, number> = { CRITICAL: 0, HIGH: 1, MEDIUM: 2, LOW: 3 };
+
+/**
+ * Thrown when a sprint does not exist on the project
+ */
+export class SprintNotFoundError extends Error {
+  constructor(public readonly sprintId: string) {
+    super(`Sprint ${sprintId} not found`);
+    this.name = 'SprintNotFoundError';
+  }
+}
+
+/**
+ * Thrown for an operation the sprint's status does not allow
+ */
+export class SprintStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SprintStateError';
+  }
+}
+
+/**
+ * Fields of a sprint set by a request
+ */
+export interface SprintInput {
+  name?: unknown;
+  goal?: unknown;
+  startDate?: unknown;
+  endDate?: unknown;
+  capacityHours?: unknown;
+}
+
+function isValidDate(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+}
+
+/**
+ * Validate the fields of a sprint from a request
+ *
+ * @param partial - Allow missing fields (updates)
+ * @returns Error message, or null when the fields are valid
+ */
+export function validateSprintInput(input: SprintInput, partial = false): string | null {
+  if (input.name !== undefined || !partial) {
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      return 'name is required';
+    }
+    if (input.name.trim().length > MAX_SPRINT_NAME_LENGTH) {
+      return `name must be at most ${MAX_SPRINT_NAME_LENGTH} characters`;
+    }
+  }
+  if (input.goal !== undefined && input.goal !== null && typeof input.goal !== 'string') {
+    return 'goal must be a string';
+  }
+  for (const field of ['startDate', 'endDate'] as const) {
+    if ((input[field] !== undefined || !partial) && !isValidDate(input[field])) {
+      return `${field} must be a date`;
+    }
+  }
+  if (isValidDate(input.startDate) && isValidDate(input.endDate) && new Date(input.endDate) <= new Date(input.startDate)) {
+    return 'endDate must be after startDate';
+  }
+  if (
+    input.capacityHours !== undefined &&
+    input.capacityHours !== null &&
+    (typeof input.capacityHours !== 'number' || !Number.isFinite(input.capacityHours) || input.capacityHours < 0)
+  ) {
+    return 'capacityHours must be a non-negative number';
+  }
+  return null;
+}
+
+/**
+ * Name of the sprint following another: "Sprint 4" is followed by "Sprint 5"
+ */
+function nextSprintName(name: string): string {
+  const match = /^(.*?)(\d+)$/.exec(name.trim());
+  return match ? `${match[1]}${Number(match[2]) + 1}` : `${name.trim()} (continued)`;
+}
+
+interface SprintTicketRow {
+  ticketId: string;
+  estimateHours: number;
+  committed: boolean;
+  carriedOver: boolean;
+  addedAt: Date;
+  removedAt: Date | null;
+  ticket: { title: string; status: TicketStatus; priority: Priority };
+}
+
+interface EstimatedTicket {
+  id: string;
+  title: string;
+  description: string | null;
+  priority: Priority;
+  labels: unknown;
+  complexity: number | null;
+}
+
+function estimate(ticket: EstimatedTicket): number {
+  return estimateTicketHours({
+    ...ticket,
+    labels: Array.isArray(ticket.labels) ? (ticket.labels as string[]) : []
+  });
+}
+
+const ESTIMATED_TICKET_SELECT = {
+  id: true,
+  title: true,
+  description: true,
+  priority: true,
+  labels: true,
+  complexity: true,
+  status: true
+} as const;
+
+export class SprintService {
+  /**
+   * Get the sprints of a project, latest first
+   */
+  async listSprints(projectId: string): Promise<Sprint[]> {
+    return prisma.sprint.findMany({
+      where: { projectId },
+      orderBy: { startDate: 'desc' }
+    });
+  }
+
+  /**
+   * Get a sprint of a project
+   * @throws SprintNotFoundError if it does not exist on the project
+   */
+  async getSprint(projectId: string, sprintId: string): Promise<Sprint> {
+    const sprint: Sprint | null = await prisma.sprint.findUnique({ where: { id: sprintId } });
+    if (!sprint || sprint.projectId !== projectId) {
+      throw new SprintNotFoundError(sprintId);
+    }
+    return sprint;
+  }
+
+  /**
+   * Create a planned sprint
+   */
+  async createSprint(
+    projectId: string,
+    input: { name: string; goal?: string | null; startDate: string; endDate: string; capacityHours?: number | null }
+  ): Promise<Sprint> {
+    return prisma.sprint.create({
+      data: {
+        projectId,
+        name: input.name.trim(),
+        goal: input.goal?.trim() || null,
+        startDate: new Date(input.startDate),
+        endDate: new Date(input.endDate),
+        capacityHours: input.capacityHours ?? null
+      }
+    });
+  }
+
+  /**
+   * Rename a sprint or change its goal, dates or capacity
+   * @throws SprintStateError if the sprint is completed
+   */
+  async updateSprint(
+    projectId: string,
+    sprintId: string,
+    input: { name?: string; goal?: string | null; startDate?: string; endDate?: string; capacityHours?: number | null }
+  ): Promise<Sprint> {
+    const sprint = await this.getSprint(projectId, sprintId);
+    if (sprint.status === 'COMPLETED') {
+      throw new SprintStateError('A completed sprint cannot be changed');
+    }
+
+    const startDate = input.startDate ? new Date(input.startDate) : new Date(sprint.startDate);
+    const endDate = input.endDate ? new Date(input.endDate) : new Date(sprint.endDate);
+    if (endDate <= startDate) {
+      throw new SprintStateError('endDate must be after startDate');
+    }
+
+    return prisma.sprint.update({
+      where: { id: sprintId },
+      data: {
+        ...(input.name !== undefined && { name: input.name.trim() }),
+        ...(input.goal !== undefined && { goal: input.goal?.trim() || null }),
+        ...(input.startDate !== undefined && { startDate }),
+        ...(input.endDate !== undefined && { endDate }),
+        ...(input.capacityHours !== undefined && { capacityHours: input.capacityHours })
+      }
+    });
+  }
+
+  /**
+   * Delete a sprint that has not started
+   * @throws SprintStateError if it has started
+   */
+  async deleteSprint(projectId: string, sprintId: string): Promise<void> {
+    const sprint = await this.getSprint(projectId, sprintId);
+    if (sprint.status !== 'PLANNED') {
+      throw new SprintStateError('Only a planned sprint can be deleted');
+    }
+    await prisma.sprint.delete({ where: { id: sprintId } });
+  }
+
+  /**
+   * Get every ticket that was ever in a sprint, with when it was done
+   */
+  async getSprintTickets(sprintId: string): Promise<SprintTicket[]> {
+    const rows: SprintTicketRow[] = await prisma.sprintTicket.findMany({
+      where: { sprintId },
+      include: { ticket: { select: { title: true, status: true, priority: true } } },
+      orderBy: { addedAt: 'asc' }
+    });
+
+    // A reopened ticket is not done, whatever its history says
+    const doneIds = rows.filter((row) => row.ticket.status === 'DONE').map((row) => row.ticketId);
+    const doneMoves: Array<{ ticketId: string; createdAt: Date }> =
+      doneIds.length > 0
+        ? await prisma.ticketHistory.findMany({
+            where: { ticketId: { in: doneIds }, toStatus: 'DONE' },
+            select: { ticketId: true, createdAt: true },
+            orderBy: { createdAt: 'asc' }
+          })
+        : [];
+    const doneAt = new Map(doneMoves.map((move) => [move.ticketId, move.createdAt]));
+
+    return rows.map((row) => ({
+      ticketId: row.ticketId,
+      title: row.ticket.title,
+      status: row.ticket.status,
+      priority: row.ticket.priority,
+      estimateHours: row.estimateHours,
+      committed: row.committed,
+      carriedOver: row.carriedOver,
+      addedAt: row.addedAt,
+      removedAt: row.removedAt,
+      doneAt: doneAt.get(row.ticketId) ?? null
+    }));
+  }
+
+  /**
+   * Plan tickets into a sprint, taking them out of any other open sprint
+   *
+   * @returns IDs of the tickets added (unknown and finished tickets are skipped)
+   * @throws SprintStateError if the sprint is completed
+   */
+  async addTickets(projectId: string, sprintId: string, ticketIds: string[]): Promise<string[]> {
+    const sprint = await this.getSprint(projectId, sprintId);
+    if (sprint.status === 'COMPLETED') {
+      throw new SprintStateError('Tickets cannot be added to a completed sprint');
+    }
+
+    const tickets: Array<EstimatedTicket & { status: TicketStatus }> = await prisma.ticket.findMany({
+      where: { id: { in: ticketIds }, projectId, status: { notIn: FINISHED_STATUSES } },
+      select: ESTIMATED_TICKET_SELECT
+    });
+    const now = new Date();
+
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      for (const ticket of tickets) {
+        await this.leaveOpenSprints(tx, ticket.id, sprintId, now);
+        await tx.sprintTicket.upsert({
+          where: { sprintId_ticketId: { sprintId, ticketId: ticket.id } },
+          create: {
+            sprintId,
+            ticketId: ticket.id,
+            estimateHours: estimate(ticket),
+            committed: false
+          },
+          update: { estimateHours: estimate(ticket), addedAt: now, removedAt: null, carriedOver: false }
+        });
+      }
+    });
+
+    return tickets.map((ticket) => ticket.id);
+  }
+
+  /**
+   * Take a ticket out of a sprint. Leaving an active sprint is recorded as
+   * a scope change; leaving a planned one just drops it.
+   *
+   * @throws SprintStateError if the sprint is completed
+   */
+  async removeTicket(projectId: string, sprintId: string, ticketId: string): Promise<void> {
+    const sprint = await this.getSprint(projectId, sprintId);
+    if (sprint.status === 'COMPLETED') {
+      throw new SprintStateError('Tickets cannot be removed from a completed sprint');
+    }
+
+    const where = { sprintId_ticketId: { sprintId, ticketId } };
+    if (sprint.status === 'PLANNED') {
+      await prisma.sprintTicket.delete({ where });
+    } else {
+      await prisma.sprintTicket.update({ where, data: { removedAt: new Date() } });
+    }
+  }
+
+  /**
+   * Start a planned sprint, committing the tickets in it
+   * @throws SprintStateError if it is not planned or another sprint is active
+   */
+  async startSprint(projectId: string, sprintId: string): Promise<Sprint> {
+    const sprint = await this.getSprint(projectId, sprintId);
+    if (sprint.status !== 'PLANNED') {
+      throw new SprintStateError(`Sprint is already ${sprint.status.toLowerCase()}`);
+    }
+
+    const active = await prisma.sprint.findFirst({ where: { projectId, status: 'ACTIVE' } });
+    if (active) {
+      throw new SprintStateError(`Sprint "${active.name}" is still active`);
+    }
+
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const entries: Array<{ estimateHours: number }> = await tx.sprintTicket.findMany({
+        where: { sprintId, removedAt: null },
+        select: { estimateHours: true }
+      });
+      await tx.sprintTicket.updateMany({ where: { sprintId, removedAt: null }, data: { committed: true } });
+
+      return tx.sprint.update({
+        where: { id: sprintId },
+        data: {
+          status: 'ACTIVE',
+          committedHours: entries.reduce((sum, entry) => sum + entry.estimateHours, 0)
+        }
+      });
+    });
+  }
+
+  /**
+   * Complete the active sprint and carry its unfinished tickets over to the
+   * next planned sprint (created with the same length when none is planned)
+   *
+   * @throws SprintStateError if the sprint is not active
+   */
+  async completeSprint(
+    projectId: string,
+    sprintId: string
+  ): Promise<{ sprint: Sprint; carriedOver: string[]; nextSprint: Sprint | null }> {
+    const sprint = await this.getSprint(projectId, sprintId);
+    if (sprint.status !== 'ACTIVE') {
+      throw new SprintStateError('Only the active sprint can be completed');
+    }
+
+    const tickets = (await this.getSprintTickets(sprintId)).filter((ticket) => ticket.removedAt === null);
+    const completedHours = tickets
+      .filter((ticket) => ticket.status === 'DONE')
+      .reduce((sum, ticket) => sum + ticket.estimateHours, 0);
+    const unfinished = tickets
+      .filter((ticket) => !FINISHED_STATUSES.includes(ticket.status))
+      .map((ticket) => ticket.ticketId);
+    const now = new Date();
+
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      let nextSprint: Sprint | null = null;
+      if (unfinished.length > 0) {
+        nextSprint = await tx.sprint.findFirst({
+          where: { projectId, status: 'PLANNED' },
+          orderBy: { startDate: 'asc' }
+        });
+        if (!nextSprint) {
+          const start = new Date(sprint.endDate);
+          const length = new Date(sprint.endDate).getTime() - new Date(sprint.startDate).getTime();
+          nextSprint = await tx.sprint.create({
+            data: {
+              projectId,
+              name: nextSprintName(sprint.name),
+              startDate: start,
+              endDate: new Date(start.getTime() + (length > 0 ? length : DEFAULT_SPRINT_LENGTH_DAYS * DAY_MS)),
+              capacityHours: sprint.capacityHours
+            }
+          });
+        }
+
+        await tx.sprintTicket.updateMany({
+          where: { sprintId, ticketId: { in: unfinished } },
+          data: { carriedOver: true, removedAt: now }
+        });
+
+        const remaining: EstimatedTicket[] = await tx.ticket.findMany({
+          where: { id: { in: unfinished } },
+          select: ESTIMATED_TICKET_SELECT
+        });
+        for (const ticket of remaining) {
+          await tx.sprintTicket.upsert({
+            where: { sprintId_ticketId: { sprintId: nextSprint!.id, ticketId: ticket.id } },
+            create: { sprintId: nextSprint!.id, ticketId: ticket.id, estimateHours: estimate(ticket) },
+            update: { estimateHours: estimate(ticket), addedAt: now, removedAt: null }
+          });
+        }
+      }
+
+      const completed: Sprint = await tx.sprint.update({
+        where: { id: sprintId },
+        data: { status: 'COMPLETED', completedHours, completedAt: now }
+      });
+
+      return { sprint: completed, carriedOver: unfinished, nextSprint };
+    });
+  }
+
+  /**
+   * Completed hours of the last few completed sprints
+   */
+  async getVelocity(projectId: string, count = VELOCITY_SPRINT_COUNT): Promise<SprintVelocity> {
+    const completed: Sprint[] = await prisma.sprint.findMany({
+      where: { projectId, status: 'COMPLETED' },
+      orderBy: { completedAt: 'desc' },
+      take: count
+    });
+
+    const sprints = completed.reverse().map((sprint) => ({
+      sprintId: sprint.id,
+      name: sprint.name,
+      committedHours: sprint.committedHours ?? 0,
+      completedHours: sprint.completedHours ?? 0
+    }));
+
+    return { sprints, averageHours: calculateVelocity(sprints.map((sprint) => sprint.completedHours)) };
+  }
+
+  /**
+   * Suggest backlog tickets that fit a sprint's remaining capacity, highest
+   * priority first. Capacity defaults to recent velocity; without either
+   * nothing is suggested.
+   */
+  async planSprint(projectId: string, sprintId: string): Promise<SprintPlan> {
+    const sprint = await this.getSprint(projectId, sprintId);
+    const capacityHours = sprint.capacityHours ?? (await this.getVelocity(projectId)).averageHours;
+
+    const planned: Array<{ estimateHours: number }> = await prisma.sprintTicket.findMany({
+      where: { sprintId, removedAt: null },
+      select: { estimateHours: true }
+    });
+    const plannedHours = planned.reduce((sum, entry) => sum + entry.estimateHours, 0);
+
+    if (capacityHours === null || sprint.status === 'COMPLETED') {
+      return { capacityHours, plannedHours, suggestions: [] };
+    }
+
+    const candidates: Array<EstimatedTicket & { position: number }> = await prisma.ticket.findMany({
+      where: {
+        projectId,
+        status: { in: PLANNABLE_STATUSES },
+        sprintEntries: { none: { removedAt: null, sprint: { status: { not: 'COMPLETED' } } } }
+      },
+      select: { ...ESTIMATED_TICKET_SELECT, position: true }
+    });
+    candidates.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.position - b.position);
+
+    let remaining = capacityHours - plannedHours;
+    const suggestions: SprintPlan['suggestions'] = [];
+    for (const ticket of candidates) {
+      const estimateHours = estimate(ticket);
+      if (estimateHours <= remaining) {
+        suggestions.push({ ticketId: ticket.id, title: ticket.title, priority: ticket.priority, estimateHours });
+        remaining -= estimateHours;
+      }
+    }
+
+    return { capacityHours, plannedHours, suggestions };
+  }
+
+  /**
+   * Daily burndown/burnup data of a sprint
+   */
+  async getBurnChart(projectId: string, sprintId: string, now: Date = new Date()): Promise<SprintBurnPoint[]> {
+    const sprint = await this.getSprint(projectId, sprintId);
+    const tickets = await this.getSprintTickets(sprintId);
+    // A completed sprint is charted as it stood at completion
+    const asOf = sprint.completedAt ? new Date(sprint.completedAt) : now;
+    return buildBurnChart(sprint, tickets, asOf);
+  }
+
+  /**
+   * Take a ticket out of the open sprints other than the given one
+   */
+  private async leaveOpenSprints(
+    tx: Pick<typeof prisma, 'sprintTicket'>,
+    ticketId: string,
+    exceptSprintId: string,
+    now: Date
+  ): Promise<void> {
+    await tx.sprintTicket.deleteMany({
+      where: { ticketId, sprintId: { not: exceptSprintId }, removedAt: null, sprint: { status: 'PLANNED' } }
+    });
+    await tx.sprintTicket.updateMany({
+      where: { ticketId, sprintId: { not: exceptSprintId }, removedAt: null, sprint: { status: 'ACTIVE' } },
+      data: { removedAt: now }
+    });
+  }
+}
+
+export const sprintService = new SprintService();
@@ -0,0 +1,179 @@
+/**
+ * Ticket Field History
+ *
+ * Records edits of ticket fields (title, description, priority, labels,
+ * assignee, dependencies, ...) and replays them backwards to reconstruct
+ * tickets as they were at a point in time. Status moves are not recorded
+ * here; they come from TicketHistory.
+ *
+ * Every write of tracked fields (the ticket API, the analyze route, rules
+ * and the workflow) goes through updateTicketFields, so snapshots can
+ * replay all of them.
+ */
+
+import { prisma } from '$lib/server/prisma';
+import { TRACKED_TICKET_FIELDS, type TrackedTicketField } from '$lib/types/time-travel';
+import type { TicketStatus } from '$lib/types';
+
+/**
+ * An edit of one field, before it is stored
+ */
+export interface FieldChangeInput {
+  field: TrackedTicketField;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+/**
+ * Who made an edit
+ */
+export interface FieldChangeActor {
+  /** User who made the edit, if any */
+  userId?: string | null;
+  /** 'user', 'system' or an agent type */
+  triggeredBy?: string;
+}
+
+/**
+ * Prisma client or transaction client used to store changes
+ */
+type FieldHistoryClient = Pick<typeof prisma, 'ticketFieldChange'>;
+
+/**
+ * Prisma client or transaction client used to update tickets
+ */
+type TicketUpdateClient = Pick<typeof prisma, 'ticket' | 'ticketFieldChange'>;
+
+/**
+ * Compare two field values (JSON fields are compared by content)
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Get the tracked fields that an update changes
+ *
+ * @param before - Ticket before the update
+ * @param updates - Fields being written
+ */
+export function diffTicketFields(
+  before: Record<string, unknown>,
+  updates: Record<string, unknown>
+): FieldChangeInput[] {
+  return TRACKED_TICKET_FIELDS.filter(
+    (field) => field in updates && !isSameValue(before[field], updates[field])
+  ).map((field) => ({
+    field,
+    oldValue: before[field] ?? null,
+    newValue: updates[field] ?? null
+  }));
+}
+
+/**
+ * Record the tracked fields that an update changes. Pass the transaction
+ * client to store the changes atomically with the update.
+ *
+ * @returns The recorded changes
+ */
+export async function recordTicketFieldChanges(
+  ticket: { id: string; projectId: string } & Record<string, unknown>,
+  updates: Record<string, unknown>,
+  actor: FieldChangeActor = {},
+  client: FieldHistoryClient = prisma
+): Promise<FieldChangeInput[]> {
+  const changes = diffTicketFields(ticket, updates);
+
+  if (changes.length > 0) {
+    await client.ticketFieldChange.createMany({
+      // Nulls are left out: an omitted Json column is stored as NULL
+      data: changes.map((change) => ({
+        ticketId: ticket.id,
+        projectId: ticket.projectId,
+        field: change.field,
+        oldValue: change.oldValue ?? undefined,
+        newValue: change.newValue ?? undefined,
+        changedById: actor.userId ?? null,
+        triggeredBy: actor.triggeredBy ?? 'user'
+      }))
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Update a ticket and record the tracked fields the update changes. Pass
+ * the transaction client to store the changes atomically with the update.
+ *
+ * @param ticket - Ticket before the update
+ * @param updates - Fields to write
+ * @returns The updated ticket
+ */
+export async function updateTicketFields(
+  ticket: { id: string; projectId: string } & Record<string, unknown>,
+  updates: Record<string, unknown>,
+  actor: FieldChangeActor = {},
+  client: TicketUpdateClient = prisma
+) {
+  const updated = await client.ticket.update({
+    where: { id: ticket.id },
+    data: updates
+  });
+
+  await recordTicketFieldChanges(ticket, updates, actor, client);
+
+  return updated;
+}
+
+/**
+ * Reconstruct a ticket's fields at a point in time by undoing, newest
+ * first, every change made after it
+ *
+ * @param current - The ticket as it is now
+ * @param changes - Field changes of the ticket, in any order
+ */
+export function replayTicketFieldsAt<T extends object>(
+  current: T,
+  changes: Array<{ field: string; oldValue: unknown; createdAt: Date }>,
+  at: Date
+): T {
+  const result = { ...current } as Record<string, unknown>;
+
+  const later = changes
+    .filter((c) => c.createdAt.getTime() > at.getTime())
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+  for (const change of later) {
+    result[change.field] = change.oldValue ?? null;
+  }
+
+  return result as T;
+}
+
+/**
+ * Get the status (and custom workflow state) a ticket had at a point in
+ * time: the "from" side of the first transition after it, or the current
+ * status if there was none
+ *
+ * @param history - Status transitions of the ticket, in any order
+ */
+export function getStatusAt(
+  current: { status: string; workflowState?: string | null },
+  history: Array<{ fromStatus: string; fromState?: string | null; createdAt: Date }>,
+  at: Date
+): { status: TicketStatus; workflowState: string | null } {
+  let next: (typeof history)[number] | null = null;
+
+  for (const entry of history) {
+    if (entry.createdAt.getTime() > at.getTime() && (!next || entry.createdAt < next.createdAt)) {
+      next = entry;
+    }
+  }
+
+  if (next) {
+    return { status: next.fromStatus as TicketStatus, workflowState: next.fromState ?? null };
+  }
+
+  return { status: current.status as TicketStatus, workflowState: current.workflowState ?? null };
+}
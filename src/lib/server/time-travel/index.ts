@@ -5,3 +5,12 @@
  */
 
 export { TimeTravelService, timeTravelService } from './time-travel-service';
+export {
+  diffTicketFields,
+  recordTicketFieldChanges,
+  updateTicketFields,
+  replayTicketFieldsAt,
+  getStatusAt,
+  type FieldChangeInput,
+  type FieldChangeActor
+} from './field-history';
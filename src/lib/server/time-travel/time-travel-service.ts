@@ -16,9 +16,36 @@ import type {
   QuestionSnapshot,
   TimeTravelResponse,
   AgentRecommendation,
-  DecisionAnnotation
+  DecisionAnnotation,
+  BoardSnapshot,
+  BoardSnapshotTicket,
+  TicketFieldChange
 } from '$lib/types/time-travel';
 import type { TicketStatus, Priority } from '$lib/types';
+import { describeFieldChange } from '$lib/utils/field-changes';
+import { replayTicketFieldsAt, getStatusAt } from './field-history';
+
+/**
+ * Ticket loaded for a board snapshot, with its first status move after
+ * the snapshot time
+ */
+type BoardTicketRecord = Omit<BoardSnapshotTicket, 'status' | 'workflowState'> & {
+  status: string;
+  workflowState: string | null;
+  history: Array<{ fromStatus: string; fromState: string | null; createdAt: Date }>;
+};
+
+/**
+ * Length of the window of field edits returned with a board snapshot
+ */
+const BOARD_CHANGES_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Field changes loaded with the name of the user who made them
+ */
+type FieldChangeRecord = Omit<TicketFieldChange, 'changedByName'> & {
+  changedBy: { name: string | null; email: string } | null;
+};
 
 /**
  * Time Travel Service - Provides methods to fetch and process
@@ -53,8 +80,22 @@ export class TimeTravelService {
       orderBy: { createdAt: 'asc' }
     });
 
+    // Fetch comments so discussion shows up next to the decisions
+    const comments = await prisma.ticketComment.findMany({
+      where: { ticketId },
+      include: { author: { select: { name: true, email: true } } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    // Fetch field edits so scope changes show up and snapshots are accurate
+    const fieldChanges = await prisma.ticketFieldChange.findMany({
+      where: { ticketId },
+      include: { changedBy: { select: { name: true, email: true } } },
+      orderBy: { createdAt: 'asc' }
+    });
+
     // Build timeline events
-    const events = await this.buildTimelineEvents(ticket, checkpoints);
+    const events = await this.buildTimelineEvents(ticket, checkpoints, comments, fieldChanges);
 
     // Get current snapshot
     const currentSnapshot = await this.buildCurrentSnapshot(ticket);
@@ -73,7 +114,8 @@ export class TimeTravelService {
   }
 
   /**
-   * Build timeline events from ticket history, questions, and checkpoints
+   * Build timeline events from ticket history, questions, checkpoints,
+   * comments and field edits
    */
   private async buildTimelineEvents(
     ticket: {
@@ -89,6 +131,7 @@ export class TimeTravelService {
       history: Array<{
         id: string;
         fromStatus: string;
+        fromState?: string | null;
         toStatus: string;
         reason: string | null;
         triggeredBy: string;
@@ -110,10 +153,24 @@ export class TimeTravelService {
       version: number;
       data: unknown;
       createdAt: Date;
-    }>
+    }>,
+    comments: Array<{
+      id: string;
+      parentId: string | null;
+      authorId: string | null;
+      agentId: string | null;
+      author: { name: string | null; email: string } | null;
+      body: string;
+      deletedAt: Date | null;
+      createdAt: Date;
+    }> = [],
+    fieldChanges: FieldChangeRecord[] = []
   ): Promise<TimelineEvent[]> {
     const events: TimelineEvent[] = [];
 
+    // Ticket fields as they were at a point in time
+    const ticketAt = (timestamp: Date) => replayTicketFieldsAt(ticket, fieldChanges, timestamp);
+
     // Add ticket creation event
     events.push({
       id: `create-${ticket.id}`,
@@ -126,7 +183,11 @@ export class TimeTravelService {
         priority: ticket.priority,
         labels: ticket.labels
       },
-      snapshot: this.buildSnapshotFromTicketState(ticket, ticket.createdAt, 'BACKLOG')
+      snapshot: this.buildSnapshotFromTicketState(
+        ticketAt(ticket.createdAt),
+        ticket.createdAt,
+        getStatusAt(ticket, ticket.history, ticket.createdAt).status
+      )
     });
 
     // Add history events (status changes)
@@ -167,13 +228,37 @@ export class TimeTravelService {
         triggeredBy: history.triggeredBy,
         metadata,
         snapshot: this.buildSnapshotFromTicketState(
-          ticket,
+          ticketAt(history.createdAt),
           history.createdAt,
           history.toStatus as TicketStatus
         )
       });
     }
 
+    // Add field edit events (board reordering is left out)
+    for (const change of fieldChanges) {
+      if (change.field === 'position') continue;
+
+      const actor = change.changedBy?.name || change.changedBy?.email || change.triggeredBy;
+      events.push({
+        id: `field-${change.id}`,
+        timestamp: change.createdAt,
+        eventType: 'ticket_updated',
+        description: `${actor} ${describeFieldChange(change)}`,
+        triggeredBy: change.changedById || change.triggeredBy,
+        metadata: {
+          field: change.field,
+          oldValue: change.oldValue,
+          newValue: change.newValue
+        },
+        snapshot: this.buildSnapshotFromTicketState(
+          ticketAt(change.createdAt),
+          change.createdAt,
+          getStatusAt(ticket, ticket.history, change.createdAt).status
+        )
+      });
+    }
+
     // Add question events
     for (const question of ticket.questions) {
       // Question asked event
@@ -223,6 +308,26 @@ export class TimeTravelService {
       });
     }
 
+    // Add comment events (deleted comments are left out)
+    for (const comment of comments) {
+      if (comment.deletedAt) continue;
+
+      const author = comment.agentId || comment.author?.name || comment.author?.email || 'user';
+      events.push({
+        id: `comment-${comment.id}`,
+        timestamp: comment.createdAt,
+        eventType: 'comment_added',
+        description: `${author} ${comment.parentId ? 'replied' : 'commented'}: "${comment.body.substring(0, 100)}${comment.body.length > 100 ? '...' : ''}"`,
+        triggeredBy: comment.agentId || comment.authorId || 'user',
+        metadata: {
+          commentId: comment.id,
+          parentCommentId: comment.parentId || undefined,
+          commentText: comment.body,
+          agentId: comment.agentId || undefined
+        }
+      });
+    }
+
     // Sort events by timestamp
     events.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
 
@@ -418,6 +523,14 @@ export class TimeTravelService {
         }
       }
 
+      if (event.eventType === 'ticket_updated' && event.metadata.field) {
+        const { field, newValue } = event.metadata;
+        if (field === 'title' || field === 'description' || field === 'priority' ||
+            field === 'labels' || field === 'complexity') {
+          (snapshot as unknown as Record<string, unknown>)[field] = newValue ?? null;
+        }
+      }
+
       if (event.eventType === 'swarm_initialized' && event.metadata.topology) {
         snapshot.activeSwarm = {
           swarmId: event.metadata.swarmId || 'unknown',
@@ -457,6 +570,78 @@ export class TimeTravelService {
     return snapshot;
   }
 
+  /**
+   * Reconstruct the board of a project as it was at a point in time.
+   * Tickets created later are left out; field edits and status moves made
+   * later are undone.
+   */
+  async getBoardSnapshot(projectId: string, asOf: Date): Promise<BoardSnapshot | null> {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true }
+    });
+
+    if (!project) {
+      return null;
+    }
+
+    const tickets = await prisma.ticket.findMany({
+      where: { projectId, createdAt: { lte: asOf } },
+      include: {
+        // Only the first move after asOf is needed to know the status then
+        history: {
+          where: { createdAt: { gt: asOf } },
+          orderBy: { createdAt: 'asc' },
+          take: 1
+        }
+      }
+    });
+
+    const laterChanges: FieldChangeRecord[] = await prisma.ticketFieldChange.findMany({
+      where: { projectId, createdAt: { gt: new Date(asOf.getTime() - BOARD_CHANGES_WINDOW_MS) } },
+      include: { changedBy: { select: { name: true, email: true } } },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    const changesByTicket = new Map<string, FieldChangeRecord[]>();
+    for (const change of laterChanges) {
+      const list = changesByTicket.get(change.ticketId) ?? [];
+      list.push(change);
+      changesByTicket.set(change.ticketId, list);
+    }
+
+    const boardTickets: BoardSnapshotTicket[] = tickets.map((ticket: BoardTicketRecord) => {
+      const fields = replayTicketFieldsAt(ticket, changesByTicket.get(ticket.id) ?? [], asOf);
+      const { status, workflowState } = getStatusAt(ticket, ticket.history, asOf);
+
+      return {
+        id: ticket.id,
+        title: fields.title,
+        description: fields.description,
+        status,
+        workflowState,
+        priority: fields.priority as Priority,
+        labels: (fields.labels as string[]) ?? [],
+        complexity: fields.complexity,
+        position: fields.position,
+        assignedToId: fields.assignedToId,
+        dependencyIds: (fields.dependencyIds as string[]) ?? [],
+        createdAt: ticket.createdAt
+      };
+    });
+
+    boardTickets.sort((a, b) => a.position - b.position);
+
+    const changes: TicketFieldChange[] = laterChanges
+      .filter((change) => change.createdAt.getTime() <= asOf.getTime())
+      .map(({ changedBy, ...change }) => ({
+        ...change,
+        changedByName: changedBy?.name || changedBy?.email || null
+      }));
+
+    return { projectId, asOf, tickets: boardTickets, changes };
+  }
+
   /**
    * Generate decision annotations from events
    */
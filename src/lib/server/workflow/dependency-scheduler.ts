@@ -0,0 +1,165 @@
+/**
+ * Dependency-Aware Scheduling
+ *
+ * When a ticket reaches DONE, finds TODO tickets whose dependencies are
+ * now all satisfied and decides which of them can be started right away
+ * without exceeding the project's resource limits:
+ * - Each started ticket runs its own swarm, so IN_PROGRESS tickets are
+ *   counted against maxSwarms
+ * - The agents each ticket will spawn (as the workflow assigns them) must
+ *   fit under maxAgents, together with those of the tickets started before
+ *   it; once a ticket does not fit, lower-priority ones wait too
+ *
+ * Only tickets that declare dependencies are considered; a TODO ticket
+ * that was never waiting on anything is left for a human to start.
+ * Tickets held back for lack of capacity are picked up the next time
+ * any ticket in the project reaches DONE.
+ */
+
+import { prisma } from '../prisma';
+import { ticketAnalyzer, type TicketInput } from '../analysis/ticket-analyzer';
+import { agentRouter } from '../assignment/agent-router';
+import { checkSpawnLimits, getProjectResourceLimits } from '../resources/allocation';
+import { getProjectSchedulingSettings } from '$lib/types/scheduling';
+
+/**
+ * Priority order for starting tickets (highest first)
+ */
+const PRIORITY_RANK: Record<string, number> = {
+	CRITICAL: 0,
+	HIGH: 1,
+	MEDIUM: 2,
+	LOW: 3
+};
+
+/**
+ * Result of a scheduling pass
+ */
+export interface SchedulingDecision {
+	/** Whether auto-start is enabled for the project */
+	enabled: boolean;
+	/** Unblocked tickets to start now, in start order */
+	startable: string[];
+	/** Unblocked tickets held back, with the reason */
+	deferred: Array<{ ticketId: string; reason: string }>;
+}
+
+/**
+ * Find TODO tickets with all dependencies DONE, in start order
+ */
+export async function findUnblockedTickets(projectId: string): Promise<string[]> {
+	const todo: Array<{ id: string; priority: string; position: number; dependencyIds: string[] }> =
+		await prisma.ticket.findMany({
+			where: { projectId, status: 'TODO', workflowState: null },
+			select: { id: true, priority: true, position: true, dependencyIds: true }
+		});
+
+	const waiting = todo.filter((ticket) => ticket.dependencyIds?.length > 0);
+	if (waiting.length === 0) {
+		return [];
+	}
+
+	const dependencyIds = [...new Set(waiting.flatMap((ticket) => ticket.dependencyIds))];
+	const done = await prisma.ticket.findMany({
+		where: { id: { in: dependencyIds }, status: 'DONE' },
+		select: { id: true }
+	});
+	const doneIds = new Set(done.map((ticket: { id: string }) => ticket.id));
+
+	return waiting
+		.filter((ticket) => ticket.dependencyIds.every((id) => doneIds.has(id)))
+		.sort(
+			(a, b) =>
+				(PRIORITY_RANK[a.priority] ?? 2) - (PRIORITY_RANK[b.priority] ?? 2) || a.position - b.position
+		)
+		.map((ticket) => ticket.id);
+}
+
+/**
+ * Ticket fields the agent assignment is based on
+ */
+interface SchedulableTicket {
+	id: string;
+	title: string;
+	description: string | null;
+	priority: string;
+	labels: string[];
+}
+
+/**
+ * Number of agents starting a ticket spawns
+ */
+async function getAgentCount(ticket: SchedulableTicket): Promise<number> {
+	const analysis = ticketAnalyzer.analyze({
+		title: ticket.title,
+		description: ticket.description,
+		priority: ticket.priority as TicketInput['priority'],
+		labels: ticket.labels
+	});
+	const assignment = await agentRouter.assignAgents(analysis);
+	return assignment.agents.length;
+}
+
+/**
+ * Decide which unblocked tickets of a project can be started now
+ */
+export async function scheduleUnblockedTickets(projectId: string): Promise<SchedulingDecision> {
+	const project = await prisma.project.findUnique({
+		where: { id: projectId },
+		select: { settings: true }
+	});
+
+	if (!project || !getProjectSchedulingSettings(project.settings).autoStartUnblocked) {
+		return { enabled: false, startable: [], deferred: [] };
+	}
+
+	const unblocked = await findUnblockedTickets(projectId);
+	if (unblocked.length === 0) {
+		return { enabled: true, startable: [], deferred: [] };
+	}
+
+	const limits = await getProjectResourceLimits(projectId);
+	const running = await prisma.ticket.count({
+		where: { projectId, status: 'IN_PROGRESS' }
+	});
+	const slots = limits.maxSwarms && limits.maxSwarms > 0 ? Math.max(0, limits.maxSwarms - running) : unblocked.length;
+	const swarmReason = `Swarm limit reached: ${running} ticket(s) in progress, limit is ${limits.maxSwarms}`;
+
+	const tickets: SchedulableTicket[] = await prisma.ticket.findMany({
+		where: { id: { in: unblocked } },
+		select: { id: true, title: true, description: true, priority: true, labels: true }
+	});
+	const byId = new Map(tickets.map((ticket) => [ticket.id, ticket]));
+
+	const startable: string[] = [];
+	const deferred: SchedulingDecision['deferred'] = [];
+	let plannedAgents = 0;
+	let agentReason: string | null = null;
+
+	for (const ticketId of unblocked) {
+		const ticket = byId.get(ticketId);
+		if (!ticket) continue;
+
+		if (startable.length >= slots) {
+			deferred.push({ ticketId, reason: swarmReason });
+			continue;
+		}
+		if (agentReason) {
+			deferred.push({ ticketId, reason: agentReason });
+			continue;
+		}
+
+		const agentCount = await getAgentCount(ticket);
+		const agentCheck = await checkSpawnLimits({ projectId, agentCount: plannedAgents + agentCount });
+		if (!agentCheck.allowed) {
+			agentReason = agentCheck.reason || 'Agent limit reached';
+			deferred.push({ ticketId, reason: agentReason });
+			continue;
+		}
+
+		plannedAgents += agentCount;
+		startable.push(ticketId);
+	}
+
+	return { enabled: true, startable, deferred };
+}
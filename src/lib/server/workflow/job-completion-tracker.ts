@@ -2,14 +2,15 @@
  * Job Completion Tracker
  *
  * Tracks job completion for tickets and auto-transitions based on results:
- * - All jobs successful → Move to REVIEW
- * - Any job failed/needs input → Move to NEEDS_FEEDBACK
+ * - All jobs successful → Move to REVIEW (and capture the branch diff)
+ * - Any job failed/cancelled/needs input → Move to NEEDS_FEEDBACK
  */
 
-import { commandExecutor, type JobResult } from '../claude-flow/executor';
+import { commandExecutor, type JobResult, type JobStatus } from '../claude-flow/executor';
 import { prisma } from '../prisma';
 import { ticketStateMachine } from '$lib/state-machine/ticket-state-machine';
 import { publishTicketMoved } from '../events';
+import { captureTicketChangeSet, type ChangeSetTicket } from './ticket-changes';
 
 /**
  * Tracks pending jobs for each ticket
@@ -58,6 +59,36 @@ export function startTracking(
 	console.log(`[JobTracker] Started tracking ${jobIds.length} jobs for ticket ${ticketId}`);
 }
 
+/**
+ * Re-attach tracking for a ticket after a server restart
+ *
+ * Jobs that already finished are counted immediately; if every job is
+ * done the ticket is transitioned right away.
+ */
+export async function resumeTracking(
+	ticketId: string,
+	projectId: string,
+	jobs: Array<{ id: string; status: JobStatus; error?: string }>
+): Promise<void> {
+	startTracking(ticketId, projectId, jobs.map((job) => job.id));
+
+	const tracker = activeTrackers.get(ticketId)!;
+	for (const job of jobs) {
+		if (job.status === 'completed') {
+			tracker.completedJobs++;
+			tracker.jobResults.set(job.id, { success: true });
+		} else if (job.status === 'failed' || job.status === 'cancelled') {
+			tracker.completedJobs++;
+			tracker.failedJobs++;
+			tracker.jobResults.set(job.id, { success: false, error: job.error ?? `Job ${job.status}` });
+		}
+	}
+
+	console.log(`[JobTracker] Resumed tracking for ticket ${ticketId} (${tracker.completedJobs}/${tracker.totalJobs} already done)`);
+
+	await checkTicketCompletion(tracker);
+}
+
 /**
  * Handle job completion event
  */
@@ -95,6 +126,25 @@ async function handleJobFailed(result: JobResult): Promise<void> {
 	await checkTicketCompletion(tracker);
 }
 
+/**
+ * Handle job cancellation event (e.g. the user stopped a running agent)
+ */
+async function handleJobCancelled(jobId: string): Promise<void> {
+	const ticketId = jobToTicket.get(jobId);
+	if (!ticketId) return;
+
+	const tracker = activeTrackers.get(ticketId);
+	if (!tracker) return;
+
+	tracker.completedJobs++;
+	tracker.failedJobs++;
+	tracker.jobResults.set(jobId, { success: false, error: 'Stopped before completion' });
+
+	console.log(`[JobTracker] Job ${jobId} CANCELLED for ticket ${ticketId}`);
+
+	await checkTicketCompletion(tracker);
+}
+
 /**
  * Check if all jobs are done and transition ticket accordingly
  */
@@ -109,7 +159,8 @@ async function checkTicketCompletion(tracker: TicketJobTracker): Promise<void> {
 
 	// Get current ticket state
 	const ticket = await prisma.ticket.findUnique({
-		where: { id: ticketId }
+		where: { id: ticketId },
+		include: { project: { select: { workspacePath: true } } }
 	});
 
 	if (!ticket || ticket.status !== 'IN_PROGRESS') {
@@ -145,6 +196,11 @@ async function checkTicketCompletion(tracker: TicketJobTracker): Promise<void> {
 			}
 		});
 
+		// Capture the branch diff for the reviewer before the board updates
+		if (allSuccessful) {
+			await captureChangeSetForReview(ticket);
+		}
+
 		// Publish event for real-time UI update
 		await publishTicketMoved(
 			tracker.projectId,
@@ -182,6 +238,18 @@ async function checkTicketCompletion(tracker: TicketJobTracker): Promise<void> {
 	cleanup(ticketId);
 }
 
+/**
+ * Capture the change set of a ticket entering REVIEW. Failures are logged
+ * and never block the transition.
+ */
+async function captureChangeSetForReview(ticket: ChangeSetTicket): Promise<void> {
+	try {
+		await captureTicketChangeSet(ticket);
+	} catch (error) {
+		console.error(`[JobTracker] Failed to capture changes for ticket ${ticket.id}:`, error);
+	}
+}
+
 /**
  * Clean up tracking data for a ticket
  */
@@ -212,6 +280,7 @@ export function getTrackingStatus(ticketId: string): TicketJobTracker | null {
 export function initJobCompletionTracker(): void {
 	commandExecutor.on('job:completed', handleJobCompleted);
 	commandExecutor.on('job:failed', handleJobFailed);
+	commandExecutor.on('job:cancelled', handleJobCancelled);
 	console.log('[JobTracker] Initialized job completion tracker');
 }
 
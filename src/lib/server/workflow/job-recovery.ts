@@ -0,0 +1,286 @@
+/**
+ * Job Recovery on Server Boot
+ *
+ * Makes CommandExecutor restart-safe:
+ * 1. Wires the durable job store into the executor
+ * 2. Detects orphaned CLI processes left by the previous server and stops
+ *    their process group, once their command line and start time show the
+ *    PID was not reused by an unrelated process
+ * 3. Re-queues interrupted jobs once their orphan has exited (or fails them
+ *    after too many attempts, or when the orphan will not exit)
+ * 4. Re-attaches completion tracking to tickets still IN_PROGRESS
+ */
+
+import { execFile } from 'child_process';
+import { basename } from 'path';
+import { promisify } from 'util';
+import { prisma } from '../prisma';
+import { commandExecutor, type CommandExecutor } from '../claude-flow/executor';
+import {
+	KILL_GRACE_PERIOD_MS,
+	killProcessTree,
+	resolveCLICommand,
+	waitForProcessTreeExit,
+	type CLICommand
+} from '../claude-flow/cli';
+import { prismaJobStore, type JobStore, type PersistedJob } from '../claude-flow/job-store';
+import { resumeTracking } from './job-completion-tracker';
+
+/**
+ * Maximum number of times an interrupted job is re-run before it is failed
+ */
+export const MAX_JOB_ATTEMPTS = 3;
+
+/**
+ * Largest gap between a job's recorded start and its process's start time
+ * for the process to count as the job's
+ */
+export const PROCESS_START_TOLERANCE_MS = 30_000;
+
+/**
+ * How long an orphan's process group may take to exit after SIGKILL
+ */
+export const ORPHAN_EXIT_TIMEOUT_MS = 2000;
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Start time and command line of a running process
+ */
+export interface ProcessInfo {
+	startedAt: Date;
+	commandLine: string;
+}
+
+/**
+ * Reads a process's start time and command line, or null if it cannot
+ */
+export type ProcessInspector = (pid: number) => Promise<ProcessInfo | null>;
+
+/**
+ * Summary of a recovery pass
+ */
+export interface RecoveryResult {
+	/** Jobs put back on the queue */
+	requeued: string[];
+	/** Jobs failed because they exceeded MAX_JOB_ATTEMPTS */
+	failed: string[];
+	/** PIDs of orphaned processes that were terminated */
+	orphansKilled: number[];
+	/** Tickets whose completion tracking was re-attached */
+	reattachedTickets: string[];
+}
+
+/**
+ * Check whether a process is still alive
+ */
+export function isProcessAlive(pid: number): boolean {
+	try {
+		// Signal 0 only checks for existence/permission
+		process.kill(pid, 0);
+		return true;
+	} catch (error) {
+		// EPERM means the process exists but belongs to someone else
+		return (error as NodeJS.ErrnoException).code === 'EPERM';
+	}
+}
+
+/**
+ * Parse a `ps` elapsed time ([[dd-]hh:]mm:ss) into seconds
+ */
+function parseElapsed(etime: string): number | null {
+	const match = /^(?:(\d+)-)?(?:(\d+):)?(\d+):(\d+)$/.exec(etime);
+	if (!match) return null;
+	const [, days = '0', hours = '0', minutes, seconds] = match;
+	return ((Number(days) * 24 + Number(hours)) * 60 + Number(minutes)) * 60 + Number(seconds);
+}
+
+/**
+ * Read a process's start time and command line with `ps`
+ */
+export const inspectProcess: ProcessInspector = async (pid) => {
+	if (process.platform === 'win32') return null;
+
+	try {
+		const { stdout } = await execFileAsync('ps', ['-o', 'etime=', '-o', 'args=', '-p', String(pid)]);
+		const match = /^\s*(\S+)\s+(.*)$/.exec(stdout.trim());
+		const elapsed = match ? parseElapsed(match[1]) : null;
+		if (!match || elapsed === null) return null;
+
+		return { startedAt: new Date(Date.now() - elapsed * 1000), commandLine: match[2] };
+	} catch {
+		// ps exits non-zero when the process is gone
+		return null;
+	}
+};
+
+/**
+ * Check that a live process is the job's CLI process rather than an
+ * unrelated process that was given the same PID after the restart: its
+ * command line names the CLI and it started when the job did
+ */
+export function isJobProcess(
+	info: ProcessInfo,
+	job: Pick<PersistedJob, 'startedAt'>,
+	cli: CLICommand = resolveCLICommand()
+): boolean {
+	const markers = [basename(cli.command), ...cli.args];
+	if (!markers.some((marker) => info.commandLine.includes(marker))) {
+		return false;
+	}
+
+	if (!job.startedAt) return false;
+	const gap = Math.abs(info.startedAt.getTime() - new Date(job.startedAt).getTime());
+	return gap <= PROCESS_START_TOLERANCE_MS;
+}
+
+/**
+ * What happened to the live process of an interrupted job
+ */
+type OrphanOutcome = 'killed' | 'skipped' | 'survived';
+
+/**
+ * Terminate an orphaned CLI process left over from a previous server,
+ * together with the agents it spawned (its process group), and wait for
+ * them to exit so the re-run does not overlap them
+ */
+async function killOrphan(job: PersistedJob & { pid: number }, inspect: ProcessInspector): Promise<OrphanOutcome> {
+	const info = await inspect(job.pid);
+	if (!info || !isJobProcess(info, job)) {
+		console.warn(`[JobRecovery] PID ${job.pid} of job ${job.id} now belongs to another process, leaving it alone`);
+		return 'skipped';
+	}
+
+	if (!killProcessTree(job.pid)) {
+		return 'skipped';
+	}
+
+	const exited = await waitForProcessTreeExit(job.pid, KILL_GRACE_PERIOD_MS + ORPHAN_EXIT_TIMEOUT_MS);
+	return exited ? 'killed' : 'survived';
+}
+
+/**
+ * Bring unfinished jobs back under executor control
+ */
+async function recoverJobs(
+	store: JobStore,
+	executor: CommandExecutor,
+	inspect: ProcessInspector,
+	result: RecoveryResult
+): Promise<void> {
+	const unfinished = await store.findUnfinished();
+	const toRestore: PersistedJob[] = [];
+
+	for (const job of unfinished) {
+		if (job.status === 'running') {
+			// The output pipes of a process spawned by a previous server are
+			// gone, so an orphan cannot be re-attached: stop it and re-run.
+			const orphan: OrphanOutcome =
+				job.pid !== undefined && isProcessAlive(job.pid)
+					? await killOrphan({ ...job, pid: job.pid }, inspect)
+					: 'skipped';
+			if (orphan === 'killed') {
+				result.orphansKilled.push(job.pid!);
+				console.warn(`[JobRecovery] Terminated orphaned process ${job.pid} for job ${job.id}`);
+			}
+
+			if (orphan === 'survived' || job.attempts >= MAX_JOB_ATTEMPTS) {
+				// A re-run must not work alongside an orphan that is still running
+				const error =
+					orphan === 'survived'
+						? `Orphaned process ${job.pid} did not exit after a server restart`
+						: `Interrupted by server restart after ${job.attempts} attempt(s)`;
+				if (orphan === 'survived') {
+					console.error(`[JobRecovery] ${error}, failing job ${job.id}`);
+				}
+				await store.update(job.id, {
+					status: 'failed',
+					error,
+					pid: undefined,
+					completedAt: new Date().toISOString()
+				});
+				job.status = 'failed';
+				job.error = error;
+				result.failed.push(job.id);
+				continue;
+			}
+
+			await store.update(job.id, { status: 'pending', pid: undefined });
+			job.status = 'pending';
+			job.pid = undefined;
+		}
+
+		toRestore.push(job);
+	}
+
+	result.requeued.push(...executor.restore(toRestore));
+}
+
+/**
+ * Re-attach completion tracking to tickets still IN_PROGRESS
+ *
+ * Only jobs created since the ticket last entered IN_PROGRESS belong to
+ * the current execution.
+ */
+async function reconcileTickets(store: JobStore, result: RecoveryResult): Promise<void> {
+	const tickets = await prisma.ticket.findMany({
+		where: { status: 'IN_PROGRESS' },
+		select: { id: true, projectId: true }
+	});
+
+	for (const ticket of tickets) {
+		const lastStart = await prisma.ticketHistory.findFirst({
+			where: { ticketId: ticket.id, toStatus: 'IN_PROGRESS' },
+			orderBy: { createdAt: 'desc' }
+		});
+
+		const jobs = await store.findByTicket(ticket.id, lastStart?.createdAt);
+		if (jobs.length === 0) {
+			console.log(`[JobRecovery] Ticket ${ticket.id} is IN_PROGRESS with no tracked jobs, skipping`);
+			continue;
+		}
+
+		await resumeTracking(
+			ticket.id,
+			ticket.projectId,
+			jobs.map((job) => ({ id: job.id, status: job.status, error: job.error }))
+		);
+		result.reattachedTickets.push(ticket.id);
+	}
+}
+
+/**
+ * Run the full recovery pass
+ *
+ * Call once on server boot, before new jobs are submitted.
+ */
+export async function recoverExecutionJobs(
+	store: JobStore = prismaJobStore,
+	executor: CommandExecutor = commandExecutor,
+	inspect: ProcessInspector = inspectProcess
+): Promise<RecoveryResult> {
+	const result: RecoveryResult = {
+		requeued: [],
+		failed: [],
+		orphansKilled: [],
+		reattachedTickets: []
+	};
+
+	executor.setJobStore(store);
+
+	// Pause processing so tracking is attached before restored jobs run
+	executor.stopProcessing();
+	try {
+		await recoverJobs(store, executor, inspect, result);
+		await reconcileTickets(store, result);
+	} finally {
+		executor.startProcessing();
+	}
+
+	console.log(
+		`[JobRecovery] Requeued ${result.requeued.length} job(s), failed ${result.failed.length}, ` +
+			`killed ${result.orphansKilled.length} orphan(s), re-attached ${result.reattachedTickets.length} ticket(s)`
+	);
+
+	return result;
+}
@@ -0,0 +1,454 @@
+/**
+ * Transition Rules Engine
+ *
+ * Evaluates a project's declarative guards and automation rules
+ * (Project.settings.rules, see $lib/state-machine/rules):
+ * - Guards and enter/exit automations run inside the transition
+ *   transaction of TicketStateMachine, so a failed action rolls back the move
+ * - Notifications are collected and dispatched after the transaction commits
+ * - timeInState automations are applied by a periodic sweep; each firing
+ *   is recorded as a TicketRuleRun, not in the status history
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { notificationService } from '../notifications/notification-service';
+import { updateTicketFields } from '../time-travel/field-history';
+import type { NotificationDispatchPayload } from '$lib/types/notifications';
+import {
+	automationConditionsMet,
+	escalatePriority,
+	evaluateGuards,
+	getApplicableGuards,
+	getProjectRules,
+	getTriggeredAutomations,
+	type AutomationRule,
+	type GuardResult,
+	type ProjectRules,
+	type RuleContext,
+	type RulePriority
+} from '$lib/state-machine/rules';
+import { isCoreState } from '$lib/state-machine/workflow';
+
+/**
+ * Prisma client or interactive transaction client
+ */
+export type RulesClient = Pick<
+	typeof prisma,
+	'ticket' | 'ticketQuestion' | 'ticketHistory' | 'ticketFieldChange'
+>;
+
+/**
+ * Ticket fields the engine needs
+ */
+export interface RuleTicket {
+	id: string;
+	projectId: string;
+	title: string;
+	status: string;
+	workflowState?: string | null;
+	priority: string;
+	labels: string[];
+	assignedToId: string | null;
+	dependencyIds: string[];
+	createdAt?: Date;
+}
+
+/**
+ * Automation triggered by a transition, with whether its conditions hold
+ */
+export interface AutomationResult {
+	ruleId: string;
+	name: string;
+	conditionsMet: boolean;
+	actions: AutomationRule['actions'];
+}
+
+/**
+ * Result of evaluating rules for a transition
+ */
+export interface RuleEvaluation {
+	/** False when any guard failed */
+	allowed: boolean;
+	guards: GuardResult[];
+	automations: AutomationResult[];
+}
+
+/**
+ * Outcome of applying automation actions
+ */
+export interface AppliedRules {
+	/** Human-readable summary per rule, recorded in TicketHistory.reason or TicketRuleRun.summary */
+	summary: string[];
+	/** Notifications to dispatch once the transaction has committed */
+	notifications: NotificationDispatchPayload[];
+}
+
+/**
+ * How often timeInState automations are checked
+ */
+export const TIMED_RULES_INTERVAL_MS = 5 * 60 * 1000;
+
+export class RulesEngine {
+	private schedulerTimer: ReturnType<typeof setInterval> | null = null;
+
+	/**
+	 * Load the facts conditions are evaluated against
+	 */
+	async buildContext(client: RulesClient, ticket: RuleTicket): Promise<RuleContext> {
+		const unansweredRequiredQuestions = await client.ticketQuestion.count({
+			where: { ticketId: ticket.id, required: true, answered: false }
+		});
+
+		const openDependencies = ticket.dependencyIds.length
+			? await client.ticket.findMany({
+					where: { id: { in: ticket.dependencyIds }, status: { not: 'DONE' } },
+					select: { id: true, title: true, status: true }
+				})
+			: [];
+
+		return {
+			ticketId: ticket.id,
+			priority: ticket.priority as RulePriority,
+			labels: ticket.labels,
+			assignedToId: ticket.assignedToId,
+			unansweredRequiredQuestions,
+			openDependencies
+		};
+	}
+
+	/**
+	 * Evaluate guards and enter/exit automations for a transition.
+	 * Read-only: nothing is written, so this also serves dry runs.
+	 */
+	async evaluateTransition(
+		client: RulesClient,
+		ticket: RuleTicket,
+		from: string,
+		to: string,
+		rules: ProjectRules
+	): Promise<RuleEvaluation> {
+		const guards = getApplicableGuards(rules, from, to);
+		const automations = getTriggeredAutomations(rules, from, to);
+
+		if (guards.length === 0 && automations.length === 0) {
+			return { allowed: true, guards: [], automations: [] };
+		}
+
+		const context = await this.buildContext(client, ticket);
+		const guardResults = evaluateGuards(guards, context);
+
+		return {
+			allowed: guardResults.every((result) => result.passed),
+			guards: guardResults,
+			automations: automations.map((rule) => ({
+				ruleId: rule.id,
+				name: rule.name,
+				conditionsMet: automationConditionsMet(rule, context),
+				actions: rule.actions
+			}))
+		};
+	}
+
+	/**
+	 * Apply the actions of automations whose conditions hold
+	 *
+	 * @param event - Describes what fired the rules, used in notification text
+	 */
+	async applyAutomations(
+		client: RulesClient,
+		ticket: RuleTicket,
+		automations: AutomationResult[],
+		event: string
+	): Promise<AppliedRules> {
+		const summary: string[] = [];
+		const notifications: NotificationDispatchPayload[] = [];
+		let priority = ticket.priority as RulePriority;
+		let labels = ticket.labels;
+
+		for (const rule of automations) {
+			if (!rule.conditionsMet) {
+				summary.push(`"${rule.name}" skipped (conditions not met)`);
+				continue;
+			}
+
+			const effects: string[] = [];
+			for (const action of rule.actions) {
+				switch (action.type) {
+					case 'unblockDependents': {
+						const dependents = await this.findUnblockedDependents(client, ticket);
+						for (const dependent of dependents) {
+							if (!dependent.assignedToId) continue;
+							notifications.push({
+								recipientIds: [dependent.assignedToId],
+								eventType: 'TICKET_COMPLETED',
+								title: rule.name,
+								message: `"${dependent.title}" is ready to start: "${ticket.title}" ${event}`,
+								entityType: 'Ticket',
+								entityId: dependent.id,
+								metadata: { ruleId: rule.ruleId, projectId: ticket.projectId, dependencyId: ticket.id }
+							});
+						}
+						effects.push(`unblocked ${dependents.length} dependent(s)`);
+						break;
+					}
+					case 'notifyAssignee':
+						if (ticket.assignedToId) {
+							notifications.push({
+								recipientIds: [ticket.assignedToId],
+								eventType: 'TICKET_STATUS_CHANGED',
+								title: rule.name,
+								message: action.message ?? `"${ticket.title}" ${event}`,
+								entityType: 'Ticket',
+								entityId: ticket.id,
+								metadata: { ruleId: rule.ruleId, projectId: ticket.projectId }
+							});
+							effects.push('notified assignee');
+						} else {
+							effects.push('no assignee to notify');
+						}
+						break;
+					case 'escalatePriority':
+					case 'setPriority': {
+						const next = action.type === 'setPriority' ? action.priority : escalatePriority(priority);
+						if (next !== priority) {
+							await updateTicketFields(
+								{ ...ticket, priority, labels },
+								{ priority: next },
+								{ triggeredBy: `rule:${rule.ruleId}` },
+								client
+							);
+							effects.push(`priority ${priority} → ${next}`);
+							priority = next;
+						}
+						break;
+					}
+					case 'addLabel':
+						if (!labels.includes(action.label)) {
+							await updateTicketFields(
+								{ ...ticket, priority, labels },
+								{ labels: [...labels, action.label] },
+								{ triggeredBy: `rule:${rule.ruleId}` },
+								client
+							);
+							labels = [...labels, action.label];
+							effects.push(`added label "${action.label}"`);
+						}
+						break;
+				}
+			}
+
+			summary.push(`"${rule.name}": ${effects.length ? effects.join(', ') : 'no changes'}`);
+		}
+
+		return { summary, notifications };
+	}
+
+	/**
+	 * Send notifications collected while applying rules.
+	 * Failures are logged; the transition has already committed.
+	 */
+	async dispatchNotifications(notifications: NotificationDispatchPayload[]): Promise<void> {
+		for (const payload of notifications) {
+			try {
+				await notificationService.dispatch(payload);
+			} catch (error) {
+				console.error('[RulesEngine] Failed to dispatch notification:', error);
+			}
+		}
+	}
+
+	/**
+	 * Apply timeInState automations to tickets that have been in a state
+	 * long enough. Each rule fires at most once per visit to the state.
+	 *
+	 * @returns Number of rule firings
+	 */
+	async runTimedRules(now: Date = new Date()): Promise<number> {
+		const projects = await prisma.project.findMany({ select: { id: true, settings: true } });
+		let fired = 0;
+
+		for (const project of projects) {
+			const timed = getProjectRules(project.settings).automations.filter(
+				(rule) => rule.enabled !== false && rule.trigger.type === 'timeInState'
+			);
+
+			for (const rule of timed) {
+				if (rule.trigger.type !== 'timeInState') continue;
+				const { state, hours } = rule.trigger;
+
+				const tickets: RuleTicket[] = await prisma.ticket.findMany({
+					where: {
+						projectId: project.id,
+						...(isCoreState(state) ? { status: state, workflowState: null } : { workflowState: state })
+					}
+				});
+
+				for (const ticket of tickets) {
+					try {
+						if (await this.fireTimedRule(rule, ticket, state, hours, now)) {
+							fired++;
+						}
+					} catch (error) {
+						console.error(`[RulesEngine] Timed rule ${rule.id} failed for ticket ${ticket.id}:`, error);
+					}
+				}
+			}
+		}
+
+		return fired;
+	}
+
+	/**
+	 * Start the periodic timeInState sweep
+	 */
+	startScheduler(intervalMs: number = TIMED_RULES_INTERVAL_MS): void {
+		this.stopScheduler();
+		this.schedulerTimer = setInterval(async () => {
+			try {
+				await this.runTimedRules();
+			} catch (error) {
+				console.error('[RulesEngine] Timed rules sweep failed:', error);
+			}
+		}, intervalMs);
+		this.schedulerTimer.unref?.();
+	}
+
+	/**
+	 * Stop the periodic timeInState sweep
+	 */
+	stopScheduler(): void {
+		if (this.schedulerTimer) {
+			clearInterval(this.schedulerTimer);
+			this.schedulerTimer = null;
+		}
+	}
+
+	private async fireTimedRule(
+		rule: AutomationRule,
+		ticket: RuleTicket,
+		state: string,
+		hours: number,
+		now: Date
+	): Promise<boolean> {
+		// When did the ticket last enter the state?
+		const entry = await prisma.ticketHistory.findFirst({
+			where: {
+				ticketId: ticket.id,
+				...(isCoreState(state) ? { toStatus: state } : { toState: state })
+			},
+			orderBy: { createdAt: 'desc' },
+			select: { createdAt: true }
+		});
+		const enteredAt: Date = entry?.createdAt ?? ticket.createdAt ?? now;
+
+		if (now.getTime() - enteredAt.getTime() < hours * 60 * 60 * 1000) {
+			return false;
+		}
+
+		const alreadyFired = await prisma.ticketRuleRun.findFirst({
+			where: {
+				ticketId: ticket.id,
+				ruleId: rule.id,
+				createdAt: { gte: enteredAt }
+			},
+			select: { id: true }
+		});
+		if (alreadyFired) {
+			return false;
+		}
+
+		const context = await this.buildContext(prisma, ticket);
+		if (!automationConditionsMet(rule, context)) {
+			return false;
+		}
+
+		const applied = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+			const result = await this.applyAutomations(
+				tx,
+				ticket,
+				[{ ruleId: rule.id, name: rule.name, conditionsMet: true, actions: rule.actions }],
+				`has been in ${state} for ${hours}h`
+			);
+
+			// The status is unchanged, so the firing is recorded as a rule run
+			// rather than in the status history
+			await tx.ticketRuleRun.create({
+				data: {
+					ticketId: ticket.id,
+					ruleId: rule.id,
+					state,
+					summary: result.summary.join('; ') || null
+				}
+			});
+
+			return result;
+		});
+
+		await this.dispatchNotifications(applied.notifications);
+		console.log(`[RulesEngine] Fired timed rule ${rule.id} for ticket ${ticket.id}`);
+		return true;
+	}
+
+	/**
+	 * Find the tickets waiting on this one whose dependencies are now all
+	 * complete, so their assignees can be told they are ready to start.
+	 * Links are kept: a dependency on a DONE ticket is satisfied, and the
+	 * scheduler and plans still need to know what waited on what.
+	 */
+	private async findUnblockedDependents(
+		client: RulesClient,
+		ticket: RuleTicket
+	): Promise<Array<{ id: string; title: string; assignedToId: string | null }>> {
+		const candidates: Array<{
+			id: string;
+			title: string;
+			assignedToId: string | null;
+			dependencyIds: string[];
+		}> = await client.ticket.findMany({
+			where: { projectId: ticket.projectId, id: { not: ticket.id } },
+			select: { id: true, title: true, assignedToId: true, dependencyIds: true }
+		});
+
+		const dependents = candidates.filter((c) => c.dependencyIds?.includes(ticket.id));
+		const otherIds = [
+			...new Set(dependents.flatMap((d) => d.dependencyIds).filter((id) => id !== ticket.id))
+		];
+		// The ticket itself is not DONE yet inside the transition transaction
+		const done: Array<{ id: string }> = otherIds.length
+			? await client.ticket.findMany({
+					where: { id: { in: otherIds }, status: 'DONE' },
+					select: { id: true }
+				})
+			: [];
+		const doneIds = new Set(done.map((d) => d.id));
+
+		return dependents
+			.filter((d) => d.dependencyIds.every((id) => id === ticket.id || doneIds.has(id)))
+			.map(({ id, title, assignedToId }) => ({ id, title, assignedToId }));
+	}
+}
+
+/**
+ * Combine the caller's reason with what the rules did, for TicketHistory.reason
+ */
+export function formatRulesReason(
+	reason: string | undefined,
+	evaluation: RuleEvaluation,
+	applied?: AppliedRules
+): string | undefined {
+	const parts = [
+		...evaluation.guards.map((guard) => `guard "${guard.name}" ${guard.passed ? 'passed' : 'failed'}`),
+		...(applied?.summary ?? [])
+	];
+
+	if (parts.length === 0) {
+		return reason;
+	}
+
+	const rules = `Rules: ${parts.join('; ')}`;
+	return reason ? `${reason} [${rules}]` : rules;
+}
+
+// Export as singleton
+export const rulesEngine = new RulesEngine();
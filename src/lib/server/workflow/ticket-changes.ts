@@ -0,0 +1,279 @@
+/**
+ * Ticket Change Sets
+ *
+ * Captures what a ticket's agents changed on its branch when the ticket
+ * moves to REVIEW, so reviewers can read the diff before approving
+ * (→ DONE) or requesting changes (→ IN_PROGRESS with their comments).
+ *
+ * The branch is compared against its merge-base with the main checkout.
+ * While the ticket's worktree exists, uncommitted and untracked files are
+ * included as well.
+ */
+
+import { execFile } from 'child_process';
+import { existsSync } from 'fs';
+import { promisify } from 'util';
+import { prisma } from '../prisma';
+import { resolveRepositoryRoot } from './ticket-workspace';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Diffs larger than this are cut off (and marked truncated)
+ */
+export const MAX_DIFF_BYTES = 512 * 1024;
+
+/**
+ * Upper bound for the raw `git diff` output read from the process
+ */
+const DIFF_BUFFER_BYTES = 32 * 1024 * 1024;
+
+export type ChangedFileStatus = 'added' | 'modified' | 'deleted' | 'renamed';
+
+export type ReviewStatus = 'pending' | 'approved' | 'changes_requested';
+
+export type ReviewDecision = 'approve' | 'request-changes';
+
+/**
+ * A hunk of a file diff
+ */
+export interface DiffHunk {
+	/** The `@@ -a,b +c,d @@` line */
+	header: string;
+	oldStart: number;
+	newStart: number;
+	/** Hunk lines, each starting with '+', '-', ' ' or '\' */
+	lines: string[];
+}
+
+/**
+ * A file touched on the ticket branch
+ */
+export interface ChangedFile {
+	path: string;
+	/** Previous path of renamed files */
+	oldPath?: string;
+	status: ChangedFileStatus;
+	binary: boolean;
+	additions: number;
+	deletions: number;
+	hunks: DiffHunk[];
+}
+
+/**
+ * Totals of a change set
+ */
+export interface ChangeSetStats {
+	files: number;
+	additions: number;
+	deletions: number;
+}
+
+/**
+ * A captured change set and its review
+ */
+export interface TicketChangeSet {
+	id: string;
+	ticketId: string;
+	branch: string;
+	baseCommit: string;
+	headCommit: string;
+	files: ChangedFile[];
+	stats: ChangeSetStats;
+	truncated: boolean;
+	reviewStatus: ReviewStatus;
+	reviewComments: string | null;
+	reviewedById: string | null;
+	reviewedAt: Date | null;
+	createdAt: Date;
+}
+
+/**
+ * Ticket fields needed to capture its changes
+ */
+export interface ChangeSetTicket {
+	id: string;
+	branchName?: string | null;
+	worktreePath?: string | null;
+	project: { workspacePath: string | null };
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+/**
+ * Parse `git diff` output into files and hunks
+ */
+export function parseUnifiedDiff(diff: string): ChangedFile[] {
+	const files: ChangedFile[] = [];
+	let file: ChangedFile | null = null;
+	let hunk: DiffHunk | null = null;
+
+	for (const line of diff.split('\n')) {
+		const header = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+		if (header) {
+			file = {
+				path: header[2],
+				status: 'modified',
+				binary: false,
+				additions: 0,
+				deletions: 0,
+				hunks: []
+			};
+			hunk = null;
+			files.push(file);
+			continue;
+		}
+		if (!file) continue;
+
+		const hunkHeader = line.match(HUNK_HEADER);
+		if (hunkHeader) {
+			hunk = {
+				header: line,
+				oldStart: Number(hunkHeader[1]),
+				newStart: Number(hunkHeader[2]),
+				lines: []
+			};
+			file.hunks.push(hunk);
+			continue;
+		}
+
+		if (hunk) {
+			// An empty line at the end of the output is not part of the hunk
+			if (line === '') continue;
+			if (line.startsWith('+')) file.additions++;
+			else if (line.startsWith('-')) file.deletions++;
+			hunk.lines.push(line);
+			continue;
+		}
+
+		// Extended header lines before the first hunk
+		if (line.startsWith('new file mode')) {
+			file.status = 'added';
+		} else if (line.startsWith('deleted file mode')) {
+			file.status = 'deleted';
+		} else if (line.startsWith('rename from ')) {
+			file.status = 'renamed';
+			file.oldPath = line.slice('rename from '.length);
+		} else if (line.startsWith('rename to ')) {
+			file.path = line.slice('rename to '.length);
+		} else if (line.startsWith('Binary files ')) {
+			file.binary = true;
+		}
+	}
+
+	return files;
+}
+
+/**
+ * Sum up additions and deletions of changed files
+ */
+export function summarizeChanges(files: ChangedFile[]): ChangeSetStats {
+	return files.reduce(
+		(stats, file) => ({
+			files: stats.files + 1,
+			additions: stats.additions + file.additions,
+			deletions: stats.deletions + file.deletions
+		}),
+		{ files: 0, additions: 0, deletions: 0 }
+	);
+}
+
+/**
+ * Run a git command in a directory, keeping the output as-is
+ */
+async function git(cwd: string, args: string[]): Promise<string> {
+	const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: DIFF_BUFFER_BYTES });
+	return stdout;
+}
+
+/**
+ * Cut a diff at a line boundary below MAX_DIFF_BYTES
+ */
+function truncateDiff(diff: string): { diff: string; truncated: boolean } {
+	if (Buffer.byteLength(diff) <= MAX_DIFF_BYTES) {
+		return { diff, truncated: false };
+	}
+
+	const cut = Buffer.from(diff).subarray(0, MAX_DIFF_BYTES).toString('utf-8');
+	return { diff: cut.slice(0, cut.lastIndexOf('\n') + 1), truncated: true };
+}
+
+/**
+ * Diff a ticket's branch against the main checkout and store the result
+ *
+ * @returns The change set, or null when the ticket has no branch to diff
+ */
+export async function captureTicketChangeSet(ticket: ChangeSetTicket): Promise<TicketChangeSet | null> {
+	if (!ticket.branchName) return null;
+
+	const repoRoot = await resolveRepositoryRoot(ticket.project.workspacePath);
+	if (!repoRoot) return null;
+
+	const branch = ticket.branchName;
+	const baseCommit = (await git(repoRoot, ['merge-base', 'HEAD', branch])).trim();
+
+	let headCommit: string;
+	let rawDiff: string;
+
+	if (ticket.worktreePath && existsSync(ticket.worktreePath)) {
+		// Include work the agents did not commit; intent-to-add makes
+		// untracked files show up in the diff without staging their content
+		const cwd = ticket.worktreePath;
+		await git(cwd, ['add', '--all', '--intent-to-add']);
+		headCommit = (await git(cwd, ['rev-parse', 'HEAD'])).trim();
+		rawDiff = await git(cwd, ['diff', '--no-color', '--find-renames', baseCommit]);
+	} else {
+		headCommit = (await git(repoRoot, ['rev-parse', branch])).trim();
+		rawDiff = await git(repoRoot, ['diff', '--no-color', '--find-renames', baseCommit, branch]);
+	}
+
+	const { diff, truncated } = truncateDiff(rawDiff);
+	const files = parseUnifiedDiff(diff);
+	const stats = summarizeChanges(files);
+
+	const changeSet: TicketChangeSet = await prisma.ticketChangeSet.create({
+		data: {
+			ticketId: ticket.id,
+			branch,
+			baseCommit,
+			headCommit,
+			files,
+			stats,
+			truncated
+		}
+	});
+
+	console.log(
+		`[ChangeSet] Captured ${stats.files} file(s) (+${stats.additions}/-${stats.deletions}) on ${branch} for ticket ${ticket.id}`
+	);
+
+	return changeSet;
+}
+
+/**
+ * Get the most recently captured change set of a ticket
+ */
+export async function getLatestChangeSet(ticketId: string): Promise<TicketChangeSet | null> {
+	return prisma.ticketChangeSet.findFirst({
+		where: { ticketId },
+		orderBy: { createdAt: 'desc' }
+	});
+}
+
+/**
+ * Record a reviewer's decision on a change set
+ */
+export async function recordChangeSetReview(
+	changeSetId: string,
+	review: { decision: ReviewDecision; comments?: string | null; reviewedById?: string | null }
+): Promise<TicketChangeSet> {
+	return prisma.ticketChangeSet.update({
+		where: { id: changeSetId },
+		data: {
+			reviewStatus: review.decision === 'approve' ? 'approved' : 'changes_requested',
+			reviewComments: review.comments || null,
+			reviewedById: review.reviewedById ?? null,
+			reviewedAt: new Date()
+		}
+	});
+}
@@ -8,6 +8,22 @@
  * 3. Select topology
  * 4. Initialize swarm
  * 5. Start progress tracking
+ *
+ * Each execution runs in its own git worktree under the project
+ * workspace (see ticket-workspace.ts), removed on DONE/CANCELLED.
+ *
+ * When a reviewer requests changes (REVIEW → IN_PROGRESS), execution
+ * restarts on the same branch with the review comments as context.
+ *
+ * When a ticket reaches DONE, TODO tickets whose dependencies are now
+ * complete can be auto-started (Project.settings.scheduling).
+ *
+ * Epics are worked through their sub-tasks: starting one spawns no swarm,
+ * and when its last sub-task is done (or cancelled) it moves to REVIEW.
+ *
+ * Every execution job gets a signed agent credential in its environment
+ * each time it starts (see agent-credentials.ts) for calling back about
+ * its ticket while the job runs.
  */
 
 import { prisma } from '../prisma';
@@ -22,9 +38,23 @@ import { swarmService, type SwarmStatus } from '../claude-flow/swarm';
 import { agentService, type Agent } from '../claude-flow/agents';
 import { commandExecutor, type JobConfig } from '../claude-flow/executor';
 import { startTracking } from './job-completion-tracker';
+import { updateTicketFields } from '../time-travel/field-history';
+import { prepareTicketWorkspace, releaseTicketWorkspace } from './ticket-workspace';
+import { getLatestChangeSet } from './ticket-changes';
+import { scheduleUnblockedTickets } from './dependency-scheduler';
+import { ticketHierarchyService } from '../hierarchy';
 import { publishTicketEvent, type TicketEvent } from '../redis/pubsub';
+import { publishTicketMoved } from '../events';
+import { ticketStateMachine } from '$lib/state-machine/ticket-state-machine';
 import type { Ticket, Project, TicketStatus } from '@prisma/client';
 
+/**
+ * Environment variable the routing job reads its task text from. The text
+ * is user-written (title, description, review feedback) and the CLI runs
+ * through a shell, so it never goes on the command line itself.
+ */
+const ROUTE_TASK_ENV = 'KANBAN_ROUTE_TASK';
+
 /**
  * Result of a workflow operation
  */
@@ -62,6 +92,14 @@ export interface TicketContext {
 	projectName: string;
 }
 
+/**
+ * Review feedback an execution restarts with
+ */
+interface ReworkContext {
+	fromStatus: TicketStatus;
+	reviewComments: string | null;
+}
+
 /**
  * Handle ticket status transition and trigger appropriate workflows
  *
@@ -91,8 +129,18 @@ export async function handleTicketTransition(
 	switch (true) {
 		// Start execution when moving to IN_PROGRESS from TODO
 		case fromStatus === 'TODO' && toStatus === 'IN_PROGRESS':
+			if (await isEpic(ticket.id)) {
+				return { success: true, details: { epic: true } };
+			}
 			return await startTicketExecution(ticket);
 
+		// Rework after the reviewer requested changes
+		case fromStatus === 'REVIEW' && toStatus === 'IN_PROGRESS':
+			return await startTicketExecution(ticket, {
+				fromStatus,
+				reviewComments: await getRequestedChanges(ticket.id)
+			});
+
 		// Resume execution when ready after feedback
 		case fromStatus === 'NEEDS_FEEDBACK' && toStatus === 'READY_TO_RESUME':
 			return await resumeTicketExecution(ticket);
@@ -101,13 +149,29 @@ export async function handleTicketTransition(
 		case fromStatus === 'READY_TO_RESUME' && toStatus === 'IN_PROGRESS':
 			return await continueTicketExecution(ticket);
 
-		// Complete execution when done
-		case toStatus === 'DONE':
-			return await completeTicketExecution(ticket, fromStatus);
+		// Complete execution when done, then start tickets it was blocking
+		case toStatus === 'DONE': {
+			const result = await completeTicketExecution(ticket, fromStatus);
+			await cleanupTicketWorkspace(ticket);
+			const autoStarted = await startUnblockedTickets(ticket);
+			const parentReview = await reviewParent(ticket);
+			return {
+				...result,
+				details: {
+					...result.details,
+					...(autoStarted.length > 0 && { autoStarted }),
+					...(parentReview && { parentReview })
+				}
+			};
+		}
 
 		// Cancel execution
-		case toStatus === 'CANCELLED':
-			return await cancelTicketExecution(ticket, fromStatus);
+		case toStatus === 'CANCELLED': {
+			const result = await cancelTicketExecution(ticket, fromStatus);
+			await cleanupTicketWorkspace(ticket);
+			const parentReview = await reviewParent(ticket);
+			return parentReview ? { ...result, details: { ...result.details, parentReview } } : result;
+		}
 
 		default:
 			// No workflow action needed
@@ -120,8 +184,15 @@ export async function handleTicketTransition(
  *
  * Uses commandExecutor to run real Claude Flow CLI commands,
  * which emits progress events visible in the Debug Output panel.
+ * With a rework context the review comments are passed to the agents
+ * and a failed start returns the ticket to the status it came from.
  */
-async function startTicketExecution(ticket: TicketWithProject): Promise<WorkflowResult> {
+async function startTicketExecution(
+	ticket: TicketWithProject,
+	rework?: ReworkContext
+): Promise<WorkflowResult> {
+	const fromStatus = rework?.fromStatus ?? 'TODO';
+
 	try {
 		// Step 1: Analyze ticket
 		const ticketInput: TicketInput = {
@@ -133,13 +204,14 @@ async function startTicketExecution(ticket: TicketWithProject): Promise<Workflow
 		const analysis = ticketAnalyzer.analyze(ticketInput);
 
 		// Step 2: Update ticket with analysis results
-		await prisma.ticket.update({
-			where: { id: ticket.id },
-			data: {
+		await updateTicketFields(
+			ticket,
+			{
 				complexity: Math.round(analysis.confidence * 10), // Convert to 1-10 scale
 				labels: [...new Set([...ticket.labels, ...analysis.suggestedLabels])]
-			}
-		});
+			},
+			{ triggeredBy: 'workflow' }
+		);
 
 		// Step 3: Assign agents based on analysis
 		const assignment = await agentRouter.assignAgents(analysis);
@@ -157,14 +229,22 @@ async function startTicketExecution(ticket: TicketWithProject): Promise<Workflow
 			keywords: analysis.keywords
 		});
 
-		// Step 5: Submit execution jobs to commandExecutor
+		// Step 5: Give the ticket its own worktree so concurrent tickets
+		// never share a checkout (falls back to the workspace itself when
+		// it is not a git repository)
+		const workspace = await prepareTicketWorkspace(ticket);
+		const cwd = workspace?.path ?? ticket.project.workspacePath ?? undefined;
+
+		// Step 6: Submit execution jobs to commandExecutor
 		// These will emit progress events visible in the Debug Output panel
 		const jobIds: string[] = [];
 
 		// Job 1: Initialize swarm via CLI (visible in debug panel)
-		const swarmJobId = commandExecutor.submit({
+		const agentPrefix = ticket.id.slice(0, 8);
+		const swarmJobId = submitExecutionJob(ticket, `${agentPrefix}-swarm`, {
 			command: 'swarm',
 			args: ['init', '--topology', topologyDecision.topology, '--max-agents', String(topologyDecision.maxAgents)],
+			options: { cwd },
 			priority: 'high',
 			projectId: ticket.projectId,
 			ticketId: ticket.id,
@@ -176,28 +256,34 @@ async function startTicketExecution(ticket: TicketWithProject): Promise<Workflow
 		jobIds.push(swarmJobId);
 
 		// Job 2: Route task to get agent recommendations (visible in debug panel)
-		const routeJobId = commandExecutor.submit({
+		const task = `${ticket.title}: ${ticket.description || 'No description'}${rework?.reviewComments ? ` Review feedback: ${rework.reviewComments}` : ''}`;
+		const routeJobId = submitExecutionJob(ticket, `${agentPrefix}-router`, {
 			command: 'hooks',
-			args: ['route', '--task', `"${ticket.title}: ${ticket.description || 'No description'}"`],
+			// The shell expands the quoted variable without re-parsing its value
+			args: ['route', '--task', `"$${ROUTE_TASK_ENV}"`],
+			options: { cwd, env: { [ROUTE_TASK_ENV]: task } },
 			priority: 'normal',
 			projectId: ticket.projectId,
 			ticketId: ticket.id,
 			metadata: {
 				step: 'route-task',
-				ticketType: analysis.ticketType
+				ticketType: analysis.ticketType,
+				rework: Boolean(rework)
 			}
 		});
 		jobIds.push(routeJobId);
 
 		// Job 3: Spawn agents for the ticket
 		for (const agentConfig of assignment.agents) {
-			const agentJobId = commandExecutor.submit({
+			const agentName = `${agentPrefix}-${agentConfig.type}`;
+			const agentJobId = submitExecutionJob(ticket, agentName, {
 				command: 'agent',
 				args: [
 					'spawn',
 					'--type', agentConfig.type,
-					'--name', `${ticket.id.slice(0, 8)}-${agentConfig.type}`
+					'--name', agentName
 				],
+				options: { cwd },
 				priority: 'normal',
 				projectId: ticket.projectId,
 				ticketId: ticket.id,
@@ -210,11 +296,11 @@ async function startTicketExecution(ticket: TicketWithProject): Promise<Workflow
 			jobIds.push(agentJobId);
 		}
 
-		// Step 6: Start tracking job completion for auto-transition
+		// Step 7: Start tracking job completion for auto-transition
 		// When all jobs complete → REVIEW, if any fail → NEEDS_FEEDBACK
 		startTracking(ticket.id, ticket.projectId, jobIds);
 
-		// Step 7: Also try the traditional swarm service (for compatibility)
+		// Step 8: Also try the traditional swarm service (for compatibility)
 		let swarm: SwarmStatus | null = null;
 		try {
 			swarm = await swarmService.init({
@@ -227,22 +313,24 @@ async function startTicketExecution(ticket: TicketWithProject): Promise<Workflow
 			// commandExecutor jobs will show output in debug panel regardless
 		}
 
-		// Step 8: Record history
+		// Step 9: Record history
 		await prisma.ticketHistory.create({
 			data: {
 				ticketId: ticket.id,
-				fromStatus: 'TODO',
+				fromStatus,
 				toStatus: 'IN_PROGRESS',
-				reason: `Execution started with ${assignment.agents.length} agents (${topologyDecision.topology} topology). Jobs: ${jobIds.join(', ')}`,
+				reason: `${rework ? 'Rework after review' : 'Execution'} started with ${assignment.agents.length} agents (${topologyDecision.topology} topology)${workspace ? ` on branch ${workspace.branch}` : ''}. Jobs: ${jobIds.join(', ')}`,
 				triggeredBy: 'workflow'
 			}
 		});
 
-		// Step 9: Publish event
+		// Step 10: Publish event
 		await publishEvent(ticket, 'ticket:transitioned', {
 			swarmId: swarm?.id,
 			jobIds,
 			topology: topologyDecision.topology,
+			branch: workspace?.branch,
+			reviewComments: rework?.reviewComments ?? undefined,
 			analysis: {
 				ticketType: analysis.ticketType,
 				keywords: analysis.keywords,
@@ -258,21 +346,23 @@ async function startTicketExecution(ticket: TicketWithProject): Promise<Workflow
 			details: {
 				topology: topologyDecision.topology,
 				jobIds,
+				branch: workspace?.branch,
+				workspacePath: cwd,
 				reasoning: [...assignment.reasoning, ...topologyDecision.reasoning]
 			}
 		};
 	} catch (error) {
-		// Rollback: move ticket back to TODO on failure
+		// Rollback: move ticket back to where it came from on failure
 		await prisma.ticket.update({
 			where: { id: ticket.id },
-			data: { status: 'TODO' }
+			data: { status: fromStatus }
 		});
 
 		await prisma.ticketHistory.create({
 			data: {
 				ticketId: ticket.id,
 				fromStatus: 'IN_PROGRESS',
-				toStatus: 'TODO',
+				toStatus: fromStatus,
 				reason: `Execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
 				triggeredBy: 'workflow-error'
 			}
@@ -285,6 +375,28 @@ async function startTicketExecution(ticket: TicketWithProject): Promise<Workflow
 	}
 }
 
+/**
+ * Submit a job of a ticket's execution as the given agent; the executor's
+ * env provider (jobCredentialEnv) gives it a credential each time it runs
+ */
+function submitExecutionJob(ticket: TicketWithProject, agentId: string, config: JobConfig): string {
+	return commandExecutor.submit({
+		...config,
+		projectId: ticket.projectId,
+		ticketId: ticket.id,
+		metadata: { ...config.metadata, agentId }
+	});
+}
+
+/**
+ * Get the comments of the latest review that requested changes, if the
+ * ticket's latest change set was reviewed that way
+ */
+async function getRequestedChanges(ticketId: string): Promise<string | null> {
+	const changeSet = await getLatestChangeSet(ticketId);
+	return changeSet?.reviewStatus === 'changes_requested' ? changeSet.reviewComments : null;
+}
+
 /**
  * Resume ticket execution after user provides feedback
  */
@@ -451,6 +563,72 @@ async function completeTicketExecution(
 	}
 }
 
+/**
+ * Auto-start TODO tickets unblocked by a completed ticket
+ *
+ * Each ticket goes through the state machine (so project guards apply)
+ * and then through the regular TODO → IN_PROGRESS workflow.
+ *
+ * @returns IDs of the tickets that were started
+ */
+async function startUnblockedTickets(completed: TicketWithProject): Promise<string[]> {
+	let decision;
+	try {
+		decision = await scheduleUnblockedTickets(completed.projectId);
+	} catch (error) {
+		console.error(`[Scheduler] Failed to schedule tickets unblocked by ${completed.id}:`, error);
+		return [];
+	}
+
+	for (const { ticketId, reason } of decision.deferred) {
+		console.log(`[Scheduler] Deferred ticket ${ticketId}: ${reason}`);
+	}
+
+	const started: string[] = [];
+	for (const ticketId of decision.startable) {
+		try {
+			const updated = await ticketStateMachine.transition(ticketId, 'IN_PROGRESS', {
+				triggeredBy: 'system',
+				reason: `Auto-started: dependencies complete ("${completed.title}" done)`
+			});
+
+			await publishTicketMoved(completed.projectId, ticketId, 'TODO', 'IN_PROGRESS', updated.position);
+
+			const result = await handleTicketTransition(ticketId, 'TODO', 'IN_PROGRESS', 'system');
+			if (result.success) {
+				started.push(ticketId);
+				console.log(`[Scheduler] Auto-started ticket ${ticketId}`);
+			} else {
+				console.warn(`[Scheduler] Ticket ${ticketId} failed to start: ${result.error}`);
+			}
+		} catch (error) {
+			// Guards or a full IN_PROGRESS column may block the move; leave the ticket in TODO
+			console.warn(`[Scheduler] Could not auto-start ticket ${ticketId}:`, error);
+		}
+	}
+
+	return started;
+}
+
+/**
+ * Whether a ticket has sub-tasks
+ */
+async function isEpic(ticketId: string): Promise<boolean> {
+	return (await prisma.ticket.count({ where: { parentId: ticketId } })) > 0;
+}
+
+/**
+ * Move the epic of a settled sub-task to REVIEW if all its sub-tasks are done
+ */
+async function reviewParent(child: TicketWithProject) {
+	try {
+		return await ticketHierarchyService.reviewParentIfComplete(child);
+	} catch (error) {
+		console.error(`[Hierarchy] Failed to review epic of ticket ${child.id}:`, error);
+		return null;
+	}
+}
+
 /**
  * Cancel ticket execution and clean up
  */
@@ -459,6 +637,14 @@ async function cancelTicketExecution(
 	fromStatus: TicketStatus
 ): Promise<WorkflowResult> {
 	try {
+		// Stop the ticket's queued and running CLI jobs
+		const cancelledJobs = commandExecutor.cancelByTicket(ticket.id);
+
+		// Let the killed processes exit before their worktree is released
+		if (!(await commandExecutor.waitForTicketIdle(ticket.id))) {
+			console.warn(`[Workflow] Jobs of ticket ${ticket.id} still running after cancellation`);
+		}
+
 		// Terminate swarm if running
 		try {
 			await swarmService.terminate(undefined, false);
@@ -481,10 +667,11 @@ async function cancelTicketExecution(
 		await publishEvent(ticket, 'ticket:transitioned', {
 			action: 'cancelled',
 			fromStatus,
+			cancelledJobs,
 			cancelledAt: new Date().toISOString()
 		});
 
-		return { success: true };
+		return { success: true, details: { cancelledJobs } };
 	} catch (error) {
 		return {
 			success: false,
@@ -493,6 +680,18 @@ async function cancelTicketExecution(
 	}
 }
 
+/**
+ * Remove the ticket's worktree once execution is over. Failures are
+ * logged and never fail the transition.
+ */
+async function cleanupTicketWorkspace(ticket: TicketWithProject): Promise<void> {
+	try {
+		await releaseTicketWorkspace(ticket);
+	} catch (error) {
+		console.error(`[Workspace] Failed to clean up workspace of ticket ${ticket.id}:`, error);
+	}
+}
+
 /**
  * Build a prompt for an agent based on ticket context
  */
@@ -0,0 +1,235 @@
+/**
+ * Ticket Workspaces (git worktrees)
+ *
+ * Gives each executing ticket its own git worktree and branch under the
+ * project workspace, so tickets IN_PROGRESS at the same time never share
+ * a checkout:
+ *
+ *   <workspacePath>/.worktrees/<ticketId>   on branch ticket/<id>-<slug>
+ *
+ * The worktree is removed when the ticket reaches DONE or CANCELLED. The
+ * branch is kept so finished work can still be reviewed and merged. A
+ * worktree with uncommitted changes is kept instead, so no work is lost.
+ * Projects without a git workspace keep running in the shared directory.
+ */
+
+import { execFile } from 'child_process';
+import { existsSync } from 'fs';
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+import { prisma } from '../prisma';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Directory (relative to the workspace root) holding ticket worktrees
+ */
+export const WORKTREES_DIR = '.worktrees';
+
+/**
+ * Prefix of ticket branch names
+ */
+export const TICKET_BRANCH_PREFIX = 'ticket/';
+
+/**
+ * A ticket's isolated workspace
+ */
+export interface TicketWorkspace {
+	/** Absolute path of the worktree (the cwd for the ticket's jobs) */
+	path: string;
+	/** Branch checked out in the worktree */
+	branch: string;
+}
+
+/**
+ * Ticket fields needed to manage its workspace
+ */
+export interface WorkspaceTicket {
+	id: string;
+	title: string;
+	branchName?: string | null;
+	worktreePath?: string | null;
+	project: { workspacePath: string | null };
+}
+
+/**
+ * Run a git command in a directory
+ */
+async function git(cwd: string, args: string[]): Promise<string> {
+	const { stdout } = await execFileAsync('git', args, { cwd });
+	return stdout.trim();
+}
+
+/**
+ * Build the branch name for a ticket, e.g. ticket/clx1a2b3-fix-login-redirect
+ */
+export function getTicketBranchName(ticket: { id: string; title: string }): string {
+	const slug = ticket.title
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '-')
+		.replace(/^-+|-+$/g, '')
+		.slice(0, 40)
+		.replace(/-+$/, '');
+
+	const shortId = ticket.id.slice(0, 8);
+	return `${TICKET_BRANCH_PREFIX}${slug ? `${shortId}-${slug}` : shortId}`;
+}
+
+/**
+ * Get the worktree path for a ticket under a workspace root
+ */
+export function getTicketWorktreePath(workspaceRoot: string, ticketId: string): string {
+	return path.join(workspaceRoot, WORKTREES_DIR, ticketId);
+}
+
+/**
+ * Resolve the root of the git repository at the project workspace
+ *
+ * @returns Repository root, or null if the workspace is not a git checkout
+ */
+export async function resolveRepositoryRoot(workspacePath: string | null): Promise<string | null> {
+	if (!workspacePath || !existsSync(workspacePath)) return null;
+
+	try {
+		return await git(workspacePath, ['rev-parse', '--show-toplevel']);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Keep ticket worktrees out of the main checkout's `git status`
+ */
+async function excludeWorktreesDir(repoRoot: string): Promise<void> {
+	const excludeFile = await git(repoRoot, ['rev-parse', '--git-path', 'info/exclude']);
+	const excludePath = path.resolve(repoRoot, excludeFile);
+	const entry = `/${WORKTREES_DIR}/`;
+
+	const current = existsSync(excludePath) ? await readFile(excludePath, 'utf-8') : '';
+	if (current.split('\n').includes(entry)) return;
+
+	await mkdir(path.dirname(excludePath), { recursive: true });
+	await appendFile(excludePath, `${current && !current.endsWith('\n') ? '\n' : ''}${entry}\n`);
+}
+
+/**
+ * Check whether a local branch exists
+ */
+async function branchExists(repoRoot: string, branch: string): Promise<boolean> {
+	try {
+		await git(repoRoot, ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`]);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Create (or reuse) the worktree for a ticket and record it on the ticket
+ *
+ * @returns The workspace, or null when the project has no git workspace
+ */
+export async function prepareTicketWorkspace(ticket: WorkspaceTicket): Promise<TicketWorkspace | null> {
+	const repoRoot = await resolveRepositoryRoot(ticket.project.workspacePath);
+	if (!repoRoot) return null;
+
+	const branch = ticket.branchName ?? getTicketBranchName(ticket);
+	const worktreePath = getTicketWorktreePath(repoRoot, ticket.id);
+
+	// Resumed tickets keep working in their existing worktree
+	if (!existsSync(worktreePath)) {
+		await excludeWorktreesDir(repoRoot);
+		await git(repoRoot, ['worktree', 'prune']);
+
+		const args = (await branchExists(repoRoot, branch))
+			? ['worktree', 'add', worktreePath, branch]
+			: ['worktree', 'add', '-b', branch, worktreePath, 'HEAD'];
+		await git(repoRoot, args);
+
+		console.log(`[Workspace] Created worktree ${worktreePath} (${branch}) for ticket ${ticket.id}`);
+	}
+
+	await prisma.ticket.update({
+		where: { id: ticket.id },
+		data: { branchName: branch, worktreePath }
+	});
+
+	return { path: worktreePath, branch };
+}
+
+/**
+ * Check whether a worktree has uncommitted or untracked changes
+ */
+export async function hasUncommittedChanges(worktreePath: string): Promise<boolean> {
+	return (await git(worktreePath, ['status', '--porcelain'])) !== '';
+}
+
+/**
+ * Author used for workspace commits when git has no identity configured
+ */
+const FALLBACK_IDENTITY = ['-c', 'user.name=CF Kanban', '-c', 'user.email=cf-kanban@localhost'];
+
+/**
+ * Commit everything in a ticket's worktree (including untracked files)
+ * to the ticket branch
+ *
+ * @returns The new commit, or null when there was nothing to commit
+ */
+export async function commitTicketWorkspace(
+	ticket: WorkspaceTicket,
+	message: string
+): Promise<string | null> {
+	const worktreePath = ticket.worktreePath;
+	if (!worktreePath || !existsSync(worktreePath)) return null;
+	if (!(await hasUncommittedChanges(worktreePath))) return null;
+
+	const hasIdentity = await git(worktreePath, ['config', 'user.email']).then(Boolean, () => false);
+
+	await git(worktreePath, ['add', '--all']);
+	await git(worktreePath, [...(hasIdentity ? [] : FALLBACK_IDENTITY), 'commit', '--quiet', '-m', message]);
+
+	const commit = await git(worktreePath, ['rev-parse', 'HEAD']);
+	console.log(`[Workspace] Committed changes of ticket ${ticket.id} as ${commit.slice(0, 8)}`);
+	return commit;
+}
+
+/**
+ * Remove a ticket's worktree (the branch is kept)
+ *
+ * A worktree with uncommitted changes is left in place (and stays
+ * recorded on the ticket) rather than deleting that work.
+ *
+ * @returns Whether a worktree was removed
+ */
+export async function releaseTicketWorkspace(ticket: WorkspaceTicket): Promise<boolean> {
+	if (!ticket.worktreePath) return false;
+
+	const repoRoot = await resolveRepositoryRoot(ticket.project.workspacePath);
+	let removed = false;
+
+	if (repoRoot && existsSync(ticket.worktreePath)) {
+		try {
+			if (await hasUncommittedChanges(ticket.worktreePath)) {
+				console.warn(
+					`[Workspace] Keeping worktree ${ticket.worktreePath} of ticket ${ticket.id}: it has uncommitted changes`
+				);
+				return false;
+			}
+
+			await git(repoRoot, ['worktree', 'remove', ticket.worktreePath]);
+			removed = true;
+			console.log(`[Workspace] Removed worktree ${ticket.worktreePath} for ticket ${ticket.id}`);
+		} catch (error) {
+			console.error(`[Workspace] Failed to remove worktree ${ticket.worktreePath}:`, error);
+			return false;
+		}
+	}
+
+	await prisma.ticket.update({
+		where: { id: ticket.id },
+		data: { worktreePath: null }
+	});
+
+	return removed;
+}
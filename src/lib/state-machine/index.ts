@@ -4,3 +4,5 @@
 
 export * from './types';
 export * from './ticket-state-machine';
+export * from './workflow';
+export * from './rules';
@@ -0,0 +1,356 @@
+/**
+ * Transition Guards and Automation Rules
+ *
+ * Declarative per-project rules stored in Project.settings.rules:
+ * - Guards block a transition unless all of their conditions hold
+ *   (e.g. "cannot enter REVIEW unless all required questions are answered")
+ * - Automations run actions when a ticket enters or leaves a state, or
+ *   after it has sat in a state for a number of hours
+ *
+ * This module is pure; the server-side engine loads the ticket context
+ * and applies the actions (see $lib/server/workflow/rules-engine).
+ */
+
+import type { WorkflowDefinition } from './workflow';
+
+export type RulePriority = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+export const RULE_PRIORITIES: RulePriority[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+
+/**
+ * A condition checked against the ticket being transitioned
+ */
+export type RuleCondition =
+  | { type: 'requiredQuestionsAnswered' }
+  | { type: 'dependenciesComplete' }
+  | { type: 'hasAssignee' }
+  | { type: 'hasLabel'; label: string }
+  | { type: 'priorityAtLeast'; priority: RulePriority };
+
+export type RuleConditionType = RuleCondition['type'];
+
+/**
+ * An action run by an automation rule
+ */
+export type RuleAction =
+  /** Notify the assignees of tickets waiting on it that have no open dependency left (links are kept) */
+  | { type: 'unblockDependents' }
+  /** Send a notification to the ticket's assignee */
+  | { type: 'notifyAssignee'; message?: string }
+  /** Raise the ticket's priority by one level (up to CRITICAL) */
+  | { type: 'escalatePriority' }
+  | { type: 'setPriority'; priority: RulePriority }
+  | { type: 'addLabel'; label: string };
+
+export type RuleActionType = RuleAction['type'];
+
+/**
+ * Blocks entering (optionally from a given state) unless every condition holds
+ */
+export interface TransitionGuard {
+  id: string;
+  name: string;
+  enabled?: boolean;
+  /** Workflow state being entered */
+  to: string;
+  /** Only guard transitions from this state (any state when omitted) */
+  from?: string;
+  conditions: RuleCondition[];
+  /** Message shown when the guard blocks a transition */
+  message?: string;
+}
+
+/**
+ * When an automation rule fires
+ */
+export type RuleTrigger =
+  | { type: 'enter'; state: string }
+  | { type: 'exit'; state: string }
+  /** Fires once per visit after the ticket has been in the state this long */
+  | { type: 'timeInState'; state: string; hours: number };
+
+export interface AutomationRule {
+  id: string;
+  name: string;
+  enabled?: boolean;
+  trigger: RuleTrigger;
+  /** Only run the actions if every condition holds */
+  conditions?: RuleCondition[];
+  actions: RuleAction[];
+}
+
+/**
+ * Complete rule set for a project
+ * Stored in Project.settings.rules
+ */
+export interface ProjectRules {
+  guards: TransitionGuard[];
+  automations: AutomationRule[];
+}
+
+export const DEFAULT_PROJECT_RULES: ProjectRules = {
+  guards: [],
+  automations: []
+};
+
+/**
+ * Ticket facts conditions are evaluated against
+ */
+export interface RuleContext {
+  ticketId: string;
+  priority: RulePriority;
+  labels: string[];
+  assignedToId: string | null;
+  unansweredRequiredQuestions: number;
+  openDependencies: Array<{ id: string; title: string; status: string }>;
+}
+
+export interface ConditionResult {
+  condition: RuleCondition;
+  passed: boolean;
+  message: string;
+}
+
+export interface GuardResult {
+  guardId: string;
+  name: string;
+  passed: boolean;
+  message?: string;
+  conditions: ConditionResult[];
+}
+
+/**
+ * Rule set validation result
+ */
+export interface RulesValidation {
+  valid: boolean;
+  errors: string[];
+}
+
+const CONDITION_TYPES: RuleConditionType[] = [
+  'requiredQuestionsAnswered',
+  'dependenciesComplete',
+  'hasAssignee',
+  'hasLabel',
+  'priorityAtLeast'
+];
+
+const ACTION_TYPES: RuleActionType[] = [
+  'unblockDependents',
+  'notifyAssignee',
+  'escalatePriority',
+  'setPriority',
+  'addLabel'
+];
+
+/**
+ * Validate a condition list, appending errors prefixed with the owner name
+ */
+function validateConditions(owner: string, conditions: unknown, errors: string[]): void {
+  if (!Array.isArray(conditions)) {
+    errors.push(`${owner}: conditions must be an array`);
+    return;
+  }
+  for (const condition of conditions as RuleCondition[]) {
+    if (!condition || !CONDITION_TYPES.includes(condition.type)) {
+      errors.push(`${owner}: unknown condition "${condition?.type}"`);
+    } else if (condition.type === 'hasLabel' && !condition.label) {
+      errors.push(`${owner}: hasLabel requires a label`);
+    } else if (condition.type === 'priorityAtLeast' && !RULE_PRIORITIES.includes(condition.priority)) {
+      errors.push(`${owner}: invalid priority "${condition.priority}"`);
+    }
+  }
+}
+
+/**
+ * Validate a project rule set against the project's workflow
+ */
+export function validateProjectRules(rules: ProjectRules, workflow: WorkflowDefinition): RulesValidation {
+  const errors: string[] = [];
+
+  if (!rules || !Array.isArray(rules.guards) || !Array.isArray(rules.automations)) {
+    return { valid: false, errors: ['Rules must have guards and automations arrays'] };
+  }
+
+  const states = new Set(workflow.states.map((state) => state.key));
+  const ids = new Set<string>();
+  const checkId = (id: unknown) => {
+    if (typeof id !== 'string' || id.trim() === '') {
+      errors.push('Every guard and automation needs an id');
+    } else if (ids.has(id)) {
+      errors.push(`Duplicate rule id "${id}"`);
+    } else {
+      ids.add(id);
+    }
+  };
+
+  for (const guard of rules.guards) {
+    checkId(guard?.id);
+    const owner = `Guard "${guard?.name ?? guard?.id}"`;
+    if (!states.has(guard?.to)) {
+      errors.push(`${owner}: unknown state "${guard?.to}"`);
+    }
+    if (guard?.from !== undefined && !states.has(guard.from)) {
+      errors.push(`${owner}: unknown state "${guard.from}"`);
+    }
+    validateConditions(owner, guard?.conditions, errors);
+    if (Array.isArray(guard?.conditions) && guard.conditions.length === 0) {
+      errors.push(`${owner}: needs at least one condition`);
+    }
+  }
+
+  for (const rule of rules.automations) {
+    checkId(rule?.id);
+    const owner = `Automation "${rule?.name ?? rule?.id}"`;
+    const trigger = rule?.trigger;
+    if (!trigger || !['enter', 'exit', 'timeInState'].includes(trigger.type)) {
+      errors.push(`${owner}: unknown trigger "${trigger?.type}"`);
+    } else {
+      if (!states.has(trigger.state)) {
+        errors.push(`${owner}: unknown state "${trigger.state}"`);
+      }
+      if (trigger.type === 'timeInState' && !(typeof trigger.hours === 'number' && trigger.hours > 0)) {
+        errors.push(`${owner}: timeInState requires a positive number of hours`);
+      }
+    }
+    if (rule?.conditions !== undefined) {
+      validateConditions(owner, rule.conditions, errors);
+    }
+    if (!Array.isArray(rule?.actions) || rule.actions.length === 0) {
+      errors.push(`${owner}: needs at least one action`);
+      continue;
+    }
+    for (const action of rule.actions) {
+      if (!action || !ACTION_TYPES.includes(action.type)) {
+        errors.push(`${owner}: unknown action "${action?.type}"`);
+      } else if (action.type === 'setPriority' && !RULE_PRIORITIES.includes(action.priority)) {
+        errors.push(`${owner}: invalid priority "${action.priority}"`);
+      } else if (action.type === 'addLabel' && !action.label) {
+        errors.push(`${owner}: addLabel requires a label`);
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Get the rule set for a project from its settings (empty if unset)
+ */
+export function getProjectRules(settings: unknown): ProjectRules {
+  const rules = (settings as Record<string, unknown> | null | undefined)?.rules as
+    | Partial<ProjectRules>
+    | undefined;
+
+  return {
+    guards: Array.isArray(rules?.guards) ? rules.guards : [],
+    automations: Array.isArray(rules?.automations) ? rules.automations : []
+  };
+}
+
+/**
+ * Raise a priority by one level
+ */
+export function escalatePriority(priority: RulePriority): RulePriority {
+  const index = RULE_PRIORITIES.indexOf(priority);
+  return RULE_PRIORITIES[Math.min(index + 1, RULE_PRIORITIES.length - 1)];
+}
+
+/**
+ * Evaluate a single condition against a ticket context
+ */
+export function evaluateCondition(condition: RuleCondition, context: RuleContext): ConditionResult {
+  switch (condition.type) {
+    case 'requiredQuestionsAnswered': {
+      const open = context.unansweredRequiredQuestions;
+      return {
+        condition,
+        passed: open === 0,
+        message: open === 0 ? 'All required questions answered' : `${open} required question(s) unanswered`
+      };
+    }
+    case 'dependenciesComplete': {
+      const open = context.openDependencies;
+      return {
+        condition,
+        passed: open.length === 0,
+        message:
+          open.length === 0
+            ? 'No open dependencies'
+            : `Blocked by ${open.map((d) => `"${d.title}" (${d.status})`).join(', ')}`
+      };
+    }
+    case 'hasAssignee':
+      return {
+        condition,
+        passed: context.assignedToId !== null,
+        message: context.assignedToId !== null ? 'Ticket is assigned' : 'Ticket has no assignee'
+      };
+    case 'hasLabel': {
+      const passed = context.labels.includes(condition.label);
+      return {
+        condition,
+        passed,
+        message: passed ? `Has label "${condition.label}"` : `Missing label "${condition.label}"`
+      };
+    }
+    case 'priorityAtLeast': {
+      const passed =
+        RULE_PRIORITIES.indexOf(context.priority) >= RULE_PRIORITIES.indexOf(condition.priority);
+      return {
+        condition,
+        passed,
+        message: passed
+          ? `Priority ${context.priority} is at least ${condition.priority}`
+          : `Priority ${context.priority} is below ${condition.priority}`
+      };
+    }
+  }
+}
+
+/**
+ * Get the enabled guards that apply to a transition
+ */
+export function getApplicableGuards(rules: ProjectRules, from: string, to: string): TransitionGuard[] {
+  return rules.guards.filter(
+    (guard) => guard.enabled !== false && guard.to === to && (guard.from === undefined || guard.from === from)
+  );
+}
+
+/**
+ * Evaluate guards for a transition against a ticket context
+ */
+export function evaluateGuards(guards: TransitionGuard[], context: RuleContext): GuardResult[] {
+  return guards.map((guard) => {
+    const conditions = guard.conditions.map((condition) => evaluateCondition(condition, context));
+    const passed = conditions.every((result) => result.passed);
+    return {
+      guardId: guard.id,
+      name: guard.name,
+      passed,
+      message: passed
+        ? undefined
+        : guard.message ?? conditions.filter((r) => !r.passed).map((r) => r.message).join('; '),
+      conditions
+    };
+  });
+}
+
+/**
+ * Get the enabled enter/exit automations triggered by a transition
+ */
+export function getTriggeredAutomations(rules: ProjectRules, from: string, to: string): AutomationRule[] {
+  return rules.automations.filter(
+    (rule) =>
+      rule.enabled !== false &&
+      ((rule.trigger.type === 'exit' && rule.trigger.state === from) ||
+        (rule.trigger.type === 'enter' && rule.trigger.state === to))
+  );
+}
+
+/**
+ * Whether an automation's conditions hold for a ticket context
+ */
+export function automationConditionsMet(rule: AutomationRule, context: RuleContext): boolean {
+  return (rule.conditions ?? []).every((condition) => evaluateCondition(condition, context).passed);
+}
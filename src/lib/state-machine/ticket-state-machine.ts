@@ -3,12 +3,52 @@
  *
  * Implements the state machine for ticket status transitions.
  * Uses Prisma for persistence and records history for every transition.
+ *
+ * Transitions are validated against the project's workflow definition
+ * (Project.settings.workflow), which defaults to VALID_TRANSITIONS.
+ * Project guards and automation rules (Project.settings.rules) are
+ * evaluated inside the transition transaction, as are column WIP limits
+ * when the workflow enforces them.
  */
 
 import type { TicketState, TransitionMetadata } from './types';
-import { VALID_TRANSITIONS, InvalidTransitionError } from './types';
-import type { Ticket, TicketHistory } from '@prisma/client';
+import {
+  InvalidTransitionError,
+  TransitionBlockedError,
+  TransitionNotPermittedError,
+  WipLimitExceededError
+} from './types';
+import {
+  DEFAULT_WORKFLOW,
+  findWorkflowTransition,
+  getProjectWorkflow,
+  getTicketWorkflowState,
+  getWorkflowState,
+  getWorkflowTargets,
+  isCoreState,
+  type WorkflowDefinition,
+  type WorkflowRole
+} from './workflow';
+import { getProjectRules } from './rules';
+import type { Prisma, Ticket, TicketHistory } from '@prisma/client';
 import { prisma } from '$lib/server/prisma';
+import {
+  formatRulesReason,
+  rulesEngine,
+  type AppliedRules,
+  type RuleEvaluation
+} from '$lib/server/workflow/rules-engine';
+
+/** Attempts of a transition whose transaction keeps hitting write conflicts */
+const MAX_TRANSITION_ATTEMPTS = 3;
+
+/**
+ * Whether the database aborted a serializable transaction because a
+ * concurrent one conflicted with it (Prisma P2034)
+ */
+function isWriteConflict(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === 'P2034';
+}
 
 /**
  * Result type for transition operations with history
@@ -18,16 +58,53 @@ export interface TransitionResultWithHistory {
   history: TicketHistory;
 }
 
+/**
+ * Result of a dry-run transition
+ */
+export interface TransitionPreview {
+  from: string;
+  to: string;
+  /** Whether the workflow has this transition */
+  valid: boolean;
+  /** Whether the caller's role may perform it */
+  permitted: boolean;
+  /** Whether the transition would succeed (valid, permitted, within WIP limits and no guard failed) */
+  allowed: boolean;
+  /** Whether the target column is full and the workflow enforces WIP limits */
+  wipLimitExceeded: boolean;
+  rules: RuleEvaluation;
+}
+
+/**
+ * Options for checking a transition
+ */
+export interface CanTransitionOptions {
+  /** Project workflow (defaults to the static transition table) */
+  workflow?: WorkflowDefinition;
+  /** Project role of the caller; required roles are only checked when set */
+  role?: WorkflowRole;
+}
+
 export class TicketStateMachine {
   /**
    * Check if a transition from one state to another is valid
    */
-  canTransition(from: TicketState, to: TicketState): boolean {
+  canTransition(from: TicketState | string, to: TicketState | string, options: CanTransitionOptions = {}): boolean {
     // Self-transitions are not allowed
     if (from === to) {
       return false;
     }
-    return VALID_TRANSITIONS[from].includes(to);
+
+    const transition = findWorkflowTransition(options.workflow ?? DEFAULT_WORKFLOW, from, to);
+    if (!transition) {
+      return false;
+    }
+
+    if (options.role && transition.requiredRoles?.length) {
+      return transition.requiredRoles.includes(options.role);
+    }
+
+    return true;
   }
 
   /**
@@ -35,91 +112,155 @@ export class TicketStateMachine {
    */
   async transition(
     ticketId: string,
-    newState: TicketState,
+    newState: TicketState | string,
     metadata: TransitionMetadata
   ): Promise<Ticket> {
+    const { ticket } = await this.transitionWithHistory(ticketId, newState, metadata);
+    return ticket;
+  }
+
+  /**
+   * Transition a ticket with full result including history
+   */
+  async transitionWithHistory(
+    ticketId: string,
+    newState: TicketState | string,
+    metadata: TransitionMetadata
+  ): Promise<TransitionResultWithHistory> {
     const ticket = await prisma.ticket.findUnique({
-      where: { id: ticketId }
+      where: { id: ticketId },
+      include: { project: { select: { settings: true } } }
     });
 
     if (!ticket) {
       throw new Error('Ticket not found');
     }
 
-    const currentState = ticket.status as TicketState;
+    const workflow = getProjectWorkflow(ticket.project?.settings);
+    const currentState = getTicketWorkflowState(ticket);
 
-    if (!this.canTransition(currentState, newState)) {
-      throw new InvalidTransitionError(currentState, newState);
-    }
+    this.assertTransition(currentState, newState, workflow, metadata);
+
+    const targetStatus = getWorkflowState(workflow, newState)!.baseStatus;
+    const involvesCustomState = !isCoreState(currentState) || !isCoreState(newState);
+    const rules = getProjectRules(ticket.project?.settings);
+
+    // Moves into a column with a hard WIP limit run serializable: of two
+    // concurrent moves that both passed the count, the database aborts one
+    // (P2034), and its retry counts the other and fails the limit
+    const wipLimited =
+      workflow.enforceWipLimits && getWorkflowState(workflow, newState)?.wipLimit !== undefined;
+
+    // Check WIP limits and rules, perform the transition and record history in a transaction
+    const result = await this.retryOnWriteConflict<
+      TransitionResultWithHistory & Pick<AppliedRules, 'notifications'>
+    >(() => prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await this.assertWipLimit(tx, ticket.projectId, newState, workflow);
+
+      const evaluation = await rulesEngine.evaluateTransition(tx, ticket, currentState, newState, rules);
+      if (!evaluation.allowed) {
+        throw new TransitionBlockedError(
+          currentState,
+          newState,
+          evaluation.guards.filter((guard) => !guard.passed)
+        );
+      }
+
+      const applied = await rulesEngine.applyAutomations(
+        tx,
+        ticket,
+        evaluation.automations,
+        `moved from ${currentState} to ${newState}`
+      );
 
-    // Update ticket and create history entry in a transaction
-    const updatedTicket = await prisma.$transaction(async (tx) => {
       // Create history entry
-      await tx.ticketHistory.create({
+      const history = await tx.ticketHistory.create({
         data: {
           ticketId,
-          fromStatus: currentState,
-          toStatus: newState,
+          fromStatus: ticket.status,
+          toStatus: targetStatus,
+          ...(involvesCustomState ? { fromState: currentState, toState: newState } : {}),
           triggeredBy: metadata.triggeredBy,
-          reason: metadata.reason
+          reason: formatRulesReason(metadata.reason, evaluation, applied)
         }
       });
 
       // Update ticket status
-      return tx.ticket.update({
+      const updatedTicket = await tx.ticket.update({
         where: { id: ticketId },
-        data: { status: newState }
+        data: {
+          status: targetStatus,
+          workflowState: isCoreState(newState) ? null : newState
+        }
       });
-    });
 
-    return updatedTicket;
+      return { ticket: updatedTicket, history, notifications: applied.notifications };
+    }, wipLimited ? { isolationLevel: 'Serializable' } : {}));
+
+    // Notifications go out only once the transition has committed
+    await rulesEngine.dispatchNotifications(result.notifications);
+
+    return { ticket: result.ticket, history: result.history };
   }
 
   /**
-   * Transition a ticket with full result including history
+   * Dry-run a transition: check the workflow, roles and guards and list
+   * the automations that would fire, without writing anything
    */
-  async transitionWithHistory(
+  async previewTransition(
     ticketId: string,
-    newState: TicketState,
-    metadata: TransitionMetadata
-  ): Promise<TransitionResultWithHistory> {
+    newState: string,
+    metadata: Pick<TransitionMetadata, 'triggeredBy' | 'role'>
+  ): Promise<TransitionPreview> {
     const ticket = await prisma.ticket.findUnique({
-      where: { id: ticketId }
+      where: { id: ticketId },
+      include: { project: { select: { settings: true } } }
     });
 
     if (!ticket) {
       throw new Error('Ticket not found');
     }
 
-    const currentState = ticket.status as TicketState;
+    const workflow = getProjectWorkflow(ticket.project?.settings);
+    const currentState = getTicketWorkflowState(ticket);
 
-    if (!this.canTransition(currentState, newState)) {
-      throw new InvalidTransitionError(currentState, newState);
+    let valid = true;
+    let permitted = true;
+    try {
+      this.assertTransition(currentState, newState, workflow, { ...metadata });
+    } catch (error) {
+      if (error instanceof TransitionNotPermittedError) {
+        permitted = false;
+      } else {
+        valid = false;
+      }
     }
 
-    // Perform the transition and record history in a transaction
-    const result = await prisma.$transaction(async (tx) => {
-      // Create history entry
-      const history = await tx.ticketHistory.create({
-        data: {
-          ticketId,
-          fromStatus: currentState,
-          toStatus: newState,
-          triggeredBy: metadata.triggeredBy,
-          reason: metadata.reason
-        }
-      });
-
-      // Update ticket status
-      const updatedTicket = await tx.ticket.update({
-        where: { id: ticketId },
-        data: { status: newState }
-      });
+    let wipLimitExceeded = false;
+    try {
+      await this.assertWipLimit(prisma, ticket.projectId, newState, workflow);
+    } catch (error) {
+      if (!(error instanceof WipLimitExceededError)) throw error;
+      wipLimitExceeded = true;
+    }
 
-      return { ticket: updatedTicket, history };
-    });
+    const rules = await rulesEngine.evaluateTransition(
+      prisma,
+      ticket,
+      currentState,
+      newState,
+      getProjectRules(ticket.project?.settings)
+    );
 
-    return result;
+    return {
+      from: currentState,
+      to: newState,
+      valid,
+      permitted,
+      allowed: valid && permitted && !wipLimitExceeded && rules.allowed,
+      wipLimitExceeded,
+      rules
+    };
   }
 
   /**
@@ -135,16 +276,87 @@ export class TicketStateMachine {
   /**
    * Get all possible transitions for a ticket's current state
    */
-  async getAvailableTransitions(ticketId: string): Promise<TicketState[]> {
+  async getAvailableTransitions(ticketId: string): Promise<string[]> {
     const ticket = await prisma.ticket.findUnique({
-      where: { id: ticketId }
+      where: { id: ticketId },
+      include: { project: { select: { settings: true } } }
     });
 
     if (!ticket) {
       throw new Error('Ticket not found');
     }
 
-    return [...VALID_TRANSITIONS[ticket.status as TicketState]];
+    const workflow = getProjectWorkflow(ticket.project?.settings);
+    return getWorkflowTargets(workflow, getTicketWorkflowState(ticket));
+  }
+
+  /**
+   * Throw a typed error if the workflow enforces WIP limits and the target
+   * column is already full
+   */
+  private async assertWipLimit(
+    client: Pick<typeof prisma, 'ticket'>,
+    projectId: string,
+    to: string,
+    workflow: WorkflowDefinition
+  ): Promise<void> {
+    const state = getWorkflowState(workflow, to);
+    if (!workflow.enforceWipLimits || state?.wipLimit === undefined) {
+      return;
+    }
+
+    // Tickets in a custom column keep their base status and name the column
+    const count = await client.ticket.count({
+      where: isCoreState(to)
+        ? { projectId, status: to, workflowState: null }
+        : { projectId, workflowState: to }
+    });
+
+    if (count >= state.wipLimit) {
+      throw new WipLimitExceededError(to, state.wipLimit, count);
+    }
+  }
+
+  /**
+   * Run a transaction again when the database aborted it for a write
+   * conflict, so the retry sees the concurrent change
+   */
+  private async retryOnWriteConflict<T>(run: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await run();
+      } catch (error) {
+        if (attempt >= MAX_TRANSITION_ATTEMPTS || !isWriteConflict(error)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Throw a typed error if the transition is not allowed by the workflow.
+   * Required roles only apply to user-triggered transitions.
+   */
+  private assertTransition(
+    from: string,
+    to: string,
+    workflow: WorkflowDefinition,
+    metadata: TransitionMetadata
+  ): void {
+    const transition = from === to ? undefined : findWorkflowTransition(workflow, from, to);
+
+    if (!transition) {
+      throw new InvalidTransitionError(from, to);
+    }
+
+    const requiredRoles = transition.requiredRoles ?? [];
+    if (
+      metadata.triggeredBy === 'user' &&
+      requiredRoles.length > 0 &&
+      (!metadata.role || !requiredRoles.includes(metadata.role))
+    ) {
+      throw new TransitionNotPermittedError(from, to, requiredRoles);
+    }
   }
 }
 
@@ -47,6 +47,8 @@ export interface TransitionMetadata {
   triggeredBy: 'user' | 'agent' | 'system';
   /** Optional reason for the transition */
   reason?: string;
+  /** Project role of the user, checked against per-transition required roles */
+  role?: 'OWNER' | 'ADMIN' | 'MEMBER' | 'VIEWER';
 }
 
 /**
@@ -54,14 +56,28 @@ export interface TransitionMetadata {
  */
 export class InvalidTransitionError extends Error {
   constructor(
-    public readonly fromState: TicketState,
-    public readonly toState: TicketState
+    public readonly fromState: TicketState | string,
+    public readonly toState: TicketState | string
   ) {
     super(`Invalid transition from ${fromState} to ${toState}`);
     this.name = 'InvalidTransitionError';
   }
 }
 
+/**
+ * Error thrown when a transition exists but requires a role the caller lacks
+ */
+export class TransitionNotPermittedError extends Error {
+  constructor(
+    public readonly fromState: string,
+    public readonly toState: string,
+    public readonly requiredRoles: string[]
+  ) {
+    super(`Transition from ${fromState} to ${toState} requires role: ${requiredRoles.join(', ')}`);
+    this.name = 'TransitionNotPermittedError';
+  }
+}
+
 /**
  * Check if a state is a terminal state (no outgoing transitions)
  */
@@ -82,3 +98,36 @@ export function getIncomingTransitions(state: TicketState): TicketState[] {
 export function getOutgoingTransitions(state: TicketState): TicketState[] {
   return [...VALID_TRANSITIONS[state]];
 }
+
+/**
+ * Error thrown when a project transition guard blocks a transition
+ */
+export class TransitionBlockedError extends Error {
+  constructor(
+    public readonly fromState: string,
+    public readonly toState: string,
+    public readonly failedGuards: Array<{ guardId: string; name: string; message?: string }>
+  ) {
+    super(
+      `Transition from ${fromState} to ${toState} blocked: ${failedGuards
+        .map((guard) => guard.message ?? guard.name)
+        .join('; ')}`
+    );
+    this.name = 'TransitionBlockedError';
+  }
+}
+
+/**
+ * Error thrown when a transition would put more tickets in a column than
+ * its WIP limit allows (only when the workflow enforces WIP limits)
+ */
+export class WipLimitExceededError extends Error {
+  constructor(
+    public readonly state: string,
+    public readonly wipLimit: number,
+    public readonly count: number
+  ) {
+    super(`${state} is at its WIP limit (${count}/${wipLimit}); finish or move a ticket out first`);
+    this.name = 'WipLimitExceededError';
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * Per-Project Workflow Definitions
+ *
+ * Projects can define their own board columns and allowed transitions,
+ * stored in Project.settings.workflow. Every workflow state maps onto one
+ * of the core TicketStatus values (its baseStatus) so agent automation
+ * keeps working; custom states such as "QA" or "SECURITY_REVIEW" add
+ * extra columns on top of the eight core states.
+ */
+
+import { TICKET_STATES, VALID_TRANSITIONS, STATE_LABELS, type TicketState } from './types';
+
+/**
+ * Roles that can be required for a transition (mirrors UserRole)
+ */
+export type WorkflowRole = 'OWNER' | 'ADMIN' | 'MEMBER' | 'VIEWER';
+
+export const WORKFLOW_ROLES: WorkflowRole[] = ['OWNER', 'ADMIN', 'MEMBER', 'VIEWER'];
+
+/**
+ * A column in a project workflow
+ */
+export interface WorkflowState {
+  /** Unique key, e.g. 'IN_PROGRESS' or 'QA' */
+  key: string;
+  /** Display name for the column header */
+  label: string;
+  /** Core status tickets in this column are stored with (also drives column color) */
+  baseStatus: TicketState;
+  /** Whether the column is hidden on the board */
+  hidden?: boolean;
+  /** Maximum number of tickets in the column (no limit when omitted) */
+  wipLimit?: number;
+}
+
+/**
+ * An allowed move between two workflow states
+ */
+export interface WorkflowTransition {
+  from: string;
+  to: string;
+  /** Project roles allowed to perform this transition (any role when omitted) */
+  requiredRoles?: WorkflowRole[];
+}
+
+/**
+ * Complete workflow definition for a project
+ * Stored in Project.settings.workflow
+ */
+export interface WorkflowDefinition {
+  /** Columns in board order */
+  states: WorkflowState[];
+  transitions: WorkflowTransition[];
+  /** Reject transitions into a full column instead of only warning on the board */
+  enforceWipLimits?: boolean;
+}
+
+/**
+ * Workflow validation result
+ */
+export interface WorkflowValidation {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * Core states hidden on the board unless explicitly shown
+ */
+const HIDDEN_BY_DEFAULT: TicketState[] = ['READY_TO_RESUME', 'CANCELLED'];
+
+/**
+ * Transitions the agent automation relies on
+ */
+const AUTOMATION_TRANSITIONS: Array<[TicketState, TicketState]> = [
+  ['TODO', 'IN_PROGRESS'],
+  ['IN_PROGRESS', 'REVIEW'],
+  ['IN_PROGRESS', 'NEEDS_FEEDBACK'],
+  ['NEEDS_FEEDBACK', 'READY_TO_RESUME'],
+  ['READY_TO_RESUME', 'IN_PROGRESS']
+];
+
+const STATE_KEY_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+/**
+ * Default workflow, equivalent to the static VALID_TRANSITIONS table
+ */
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  states: TICKET_STATES.map((state) => ({
+    key: state,
+    label: STATE_LABELS[state],
+    baseStatus: state,
+    ...(HIDDEN_BY_DEFAULT.includes(state) ? { hidden: true } : {})
+  })),
+  transitions: TICKET_STATES.flatMap((from) =>
+    VALID_TRANSITIONS[from].map((to) => ({ from, to }))
+  )
+};
+
+/**
+ * Check whether a key is one of the core ticket states
+ */
+export function isCoreState(key: string): key is TicketState {
+  return (TICKET_STATES as readonly string[]).includes(key);
+}
+
+/**
+ * Validate a workflow definition
+ */
+export function validateWorkflow(workflow: WorkflowDefinition): WorkflowValidation {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!workflow || !Array.isArray(workflow.states) || !Array.isArray(workflow.transitions)) {
+    return { valid: false, errors: ['Workflow must have states and transitions arrays'], warnings };
+  }
+
+  const keys = new Set<string>();
+  for (const state of workflow.states) {
+    if (!state || typeof state.key !== 'string' || !STATE_KEY_PATTERN.test(state.key)) {
+      errors.push(`Invalid state key "${state?.key}": use upper-case letters, digits and underscores`);
+      continue;
+    }
+    if (keys.has(state.key)) {
+      errors.push(`Duplicate state key "${state.key}"`);
+    }
+    keys.add(state.key);
+
+    if (typeof state.label !== 'string' || state.label.trim() === '') {
+      errors.push(`State "${state.key}" must have a label`);
+    }
+    if (!isCoreState(state.baseStatus)) {
+      errors.push(`State "${state.key}" has invalid base status "${state.baseStatus}"`);
+    } else if (isCoreState(state.key) && state.baseStatus !== state.key) {
+      errors.push(`Core state "${state.key}" must use itself as base status`);
+    }
+    if (state.wipLimit !== undefined && (!Number.isInteger(state.wipLimit) || state.wipLimit < 1)) {
+      errors.push(`State "${state.key}" must have a positive whole number as WIP limit`);
+    }
+  }
+
+  // Core states must always exist so agent automation has somewhere to go
+  for (const core of TICKET_STATES) {
+    if (!keys.has(core)) {
+      errors.push(`Core state "${core}" is missing (hide it instead of removing it)`);
+    }
+  }
+
+  const seen = new Set<string>();
+  for (const transition of workflow.transitions) {
+    const id = `${transition?.from}->${transition?.to}`;
+    if (!keys.has(transition?.from) || !keys.has(transition?.to)) {
+      errors.push(`Transition ${id} references an unknown state`);
+      continue;
+    }
+    if (transition.from === transition.to) {
+      errors.push(`Transition ${id} is a self-transition`);
+    }
+    if (seen.has(id)) {
+      errors.push(`Duplicate transition ${id}`);
+    }
+    seen.add(id);
+
+    for (const role of transition.requiredRoles ?? []) {
+      if (!WORKFLOW_ROLES.includes(role)) {
+        errors.push(`Transition ${id} requires unknown role "${role}"`);
+      }
+    }
+  }
+
+  for (const [from, to] of AUTOMATION_TRANSITIONS) {
+    if (!seen.has(`${from}->${to}`)) {
+      warnings.push(`Transition ${from}->${to} is missing; agent automation will not be able to perform it`);
+    }
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Get the workflow for a project from its settings (default if unset or invalid)
+ */
+export function getProjectWorkflow(settings: unknown): WorkflowDefinition {
+  const workflow = (settings as Record<string, unknown> | null | undefined)?.workflow as
+    | WorkflowDefinition
+    | undefined;
+
+  if (workflow && validateWorkflow(workflow).valid) {
+    return workflow;
+  }
+
+  return DEFAULT_WORKFLOW;
+}
+
+/**
+ * Find a state in a workflow by key
+ */
+export function getWorkflowState(
+  workflow: WorkflowDefinition,
+  key: string
+): WorkflowState | undefined {
+  return workflow.states.find((state) => state.key === key);
+}
+
+/**
+ * Find the transition between two states, if allowed
+ */
+export function findWorkflowTransition(
+  workflow: WorkflowDefinition,
+  from: string,
+  to: string
+): WorkflowTransition | undefined {
+  return workflow.transitions.find((t) => t.from === from && t.to === to);
+}
+
+/**
+ * Get the workflow state key a ticket is currently in
+ */
+export function getTicketWorkflowState(ticket: {
+  status: string;
+  workflowState?: string | null;
+}): string {
+  return ticket.workflowState ?? ticket.status;
+}
+
+/**
+ * Whether a column holds more tickets than its WIP limit allows
+ */
+export function isOverWipLimit(state: Pick<WorkflowState, 'wipLimit'>, count: number): boolean {
+  return state.wipLimit !== undefined && count > state.wipLimit;
+}
+
+/**
+ * Shortest sequence of transitions from one state to another
+ * @param avoid - States the path may not pass through (the target is always allowed)
+ * @returns States to move through in order (ending with `to`), [] if already
+ *          there, or null if `to` cannot be reached
+ */
+export function findWorkflowPath(
+  workflow: WorkflowDefinition,
+  from: string,
+  to: string,
+  avoid: string[] = []
+): string[] | null {
+  if (from === to) return [];
+
+  const previous = new Map<string, string>([[from, from]]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const state = queue.shift()!;
+    for (const next of getWorkflowTargets(workflow, state)) {
+      if (previous.has(next) || (next !== to && avoid.includes(next))) continue;
+      previous.set(next, state);
+      if (next === to) {
+        const path = [to];
+        for (let step = state; step !== from; step = previous.get(step)!) {
+          path.unshift(step);
+        }
+        return path;
+      }
+      queue.push(next);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the states reachable from a given state
+ */
+export function getWorkflowTargets(workflow: WorkflowDefinition, from: string): string[] {
+  return workflow.transitions.filter((t) => t.from === from).map((t) => t.to);
+}
@@ -0,0 +1,107 @@
+/**
+ * Board View Store
+ *
+ * Swimlane grouping and collapsed lanes of the Kanban board, remembered in
+ * localStorage per user and project.
+ */
+
+import { writable, get } from 'svelte/store';
+import { browser } from '$app/environment';
+import { BOARD_GROUPINGS, type BoardGrouping } from '$lib/utils/board-grouping';
+
+const STORAGE_KEY_PREFIX = 'cf-kanban-board-view';
+
+/**
+ * Board view preferences of one user for one project
+ */
+export interface BoardViewState {
+  grouping: BoardGrouping;
+  /** Lane keys collapsed per grouping */
+  collapsedLanes: Partial<Record<BoardGrouping, string[]>>;
+}
+
+const defaultState: BoardViewState = {
+  grouping: 'none',
+  collapsedLanes: {}
+};
+
+/** Current board view preferences */
+export const boardView = writable<BoardViewState>({ ...defaultState });
+
+/** Storage key of the loaded preferences, null before loadBoardView */
+let storageKey: string | null = null;
+
+function getStorageKey(userId: string | null | undefined, projectId: string): string {
+  return `${STORAGE_KEY_PREFIX}-${userId || 'anonymous'}-${projectId}`;
+}
+
+function isGrouping(value: unknown): value is BoardGrouping {
+  return BOARD_GROUPINGS.some((option) => option.value === value);
+}
+
+function persist(state: BoardViewState): void {
+  if (!browser || !storageKey) return;
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(state));
+  } catch {
+    // Storage full or unavailable: keep the preferences for this session only
+  }
+}
+
+/**
+ * Load the board view preferences of a user for a project
+ * @param userId - Signed-in user (anonymous when not signed in)
+ * @param projectId - Project of the board
+ */
+export function loadBoardView(userId: string | null | undefined, projectId: string): void {
+  storageKey = getStorageKey(userId, projectId);
+
+  let state: BoardViewState = { ...defaultState, collapsedLanes: {} };
+  if (browser) {
+    try {
+      const stored = JSON.parse(localStorage.getItem(storageKey) ?? 'null');
+      if (stored && isGrouping(stored.grouping)) {
+        state = {
+          grouping: stored.grouping,
+          collapsedLanes:
+            stored.collapsedLanes && typeof stored.collapsedLanes === 'object' ? stored.collapsedLanes : {}
+        };
+      }
+    } catch {
+      // Corrupt entry: fall back to the defaults
+    }
+  }
+
+  boardView.set(state);
+}
+
+/**
+ * Group the board into swimlanes
+ * @param grouping - Field to group by ('none' for a single row)
+ */
+export function setGrouping(grouping: BoardGrouping): void {
+  boardView.update((state) => ({ ...state, grouping }));
+  persist(get(boardView));
+}
+
+/**
+ * Collapse or expand a lane of the current grouping
+ * @param laneKey - Lane to toggle
+ */
+export function toggleLane(laneKey: string): void {
+  boardView.update((state) => {
+    const collapsed = state.collapsedLanes[state.grouping] ?? [];
+    const next = collapsed.includes(laneKey)
+      ? collapsed.filter((key) => key !== laneKey)
+      : [...collapsed, laneKey];
+    return { ...state, collapsedLanes: { ...state.collapsedLanes, [state.grouping]: next } };
+  });
+  persist(get(boardView));
+}
+
+/**
+ * Whether a lane of the current grouping is collapsed
+ */
+export function isLaneCollapsed(state: BoardViewState, laneKey: string): boolean {
+  return state.collapsedLanes[state.grouping]?.includes(laneKey) ?? false;
+}
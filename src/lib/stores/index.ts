@@ -23,6 +23,7 @@ export {
 export {
   tickets,
   ticketsByStatus,
+  ticketRollups,
   setTickets,
   initTickets,
   addTicket,
@@ -0,0 +1,471 @@
+/**
+ * Offline Outbox Store - Queue ticket mutations made while disconnected
+ *
+ * Features:
+ * - Moves and edits that fail for lack of network are queued instead of lost
+ * - The queue is persisted in IndexedDB so it survives reloads
+ * - Consecutive mutations of the same ticket are coalesced
+ * - Replayed in order on reconnect with the state they were made against,
+ *   so the server can detect concurrent edits
+ * - Conflicts record what the server kept versus what was overwritten, and
+ *   can be resolved by re-applying the offline value
+ */
+
+import { writable, derived, get } from 'svelte/store';
+import { browser } from '$app/environment';
+import { connectionStatus } from './socket';
+import type {
+  QueuedMutation,
+  QueuedMutationInput,
+  QueuedMoveMutation,
+  QueuedUpdateMutation,
+  SyncConflict
+} from '$lib/types/offline';
+
+/**
+ * Where queued mutations are persisted
+ */
+export interface OutboxStorage {
+  load(): Promise<QueuedMutation[]>;
+  save(mutations: QueuedMutation[]): Promise<void>;
+}
+
+/** Result of replaying the outbox */
+export interface ReplayResult {
+  /** Mutations sent (applied or turned into conflicts) */
+  replayed: number;
+  /** Mutations still queued (network still down or server error) */
+  remaining: number;
+  conflicts: SyncConflict[];
+}
+
+/** Queued mutations, oldest first */
+export const outbox = writable<QueuedMutation[]>([]);
+
+/** Offline changes that were not applied as made */
+export const syncConflicts = writable<SyncConflict[]>([]);
+
+/** Whether the outbox is being replayed */
+export const isReplaying = writable(false);
+
+/** Number of queued mutations */
+export const queuedCount = derived(outbox, ($outbox) => $outbox.length);
+
+const DB_NAME = 'cf-kanban-offline';
+const STORE_NAME = 'outbox';
+
+/** Outcome of sending one mutation: conflicts, or 'retry' to keep it queued */
+type SendOutcome = SyncConflict[] | 'retry';
+
+let storage: OutboxStorage | null = null;
+let loaded = false;
+let counter = 0;
+
+function generateId(prefix: string): string {
+  counter += 1;
+  return `${prefix}-${Date.now()}-${counter}`;
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Outbox storage in the browser's IndexedDB
+ */
+export function createIndexedDbStorage(): OutboxStorage {
+  let db: Promise<IDBDatabase> | null = null;
+
+  function open(): Promise<IDBDatabase> {
+    if (!db) {
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      db = request(req);
+    }
+    return db;
+  }
+
+  return {
+    async load() {
+      const tx = (await open()).transaction(STORE_NAME, 'readonly');
+      const mutations = await request(tx.objectStore(STORE_NAME).getAll());
+      return (mutations as QueuedMutation[]).sort((a, b) => a.createdAt - b.createdAt);
+    },
+
+    async save(mutations) {
+      const tx = (await open()).transaction(STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      store.clear();
+      mutations.forEach((mutation) => store.put(mutation));
+      await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+      });
+    }
+  };
+}
+
+/**
+ * Outbox storage in memory (no IndexedDB, e.g. SSR and tests)
+ */
+export function createMemoryStorage(): OutboxStorage {
+  let saved: QueuedMutation[] = [];
+
+  return {
+    async load() {
+      return [...saved];
+    },
+    async save(mutations) {
+      saved = [...mutations];
+    }
+  };
+}
+
+function getStorage(): OutboxStorage {
+  if (!storage) {
+    storage = browser && typeof indexedDB !== 'undefined' ? createIndexedDbStorage() : createMemoryStorage();
+  }
+  return storage;
+}
+
+/**
+ * Replace the storage (for testing)
+ */
+export function setOutboxStorage(custom: OutboxStorage): void {
+  storage = custom;
+  loaded = false;
+}
+
+/**
+ * Load mutations persisted by an earlier session
+ */
+export async function loadOutbox(): Promise<void> {
+  if (loaded) return;
+  loaded = true;
+
+  try {
+    const persisted = await getStorage().load();
+    const queued = new Set(get(outbox).map((m) => m.id));
+    outbox.update((current) => [...persisted.filter((m) => !queued.has(m.id)), ...current]);
+  } catch (err) {
+    console.warn('Failed to load offline outbox:', err);
+  }
+}
+
+async function persist(): Promise<void> {
+  try {
+    await getStorage().save(get(outbox));
+  } catch (err) {
+    console.warn('Failed to persist offline outbox:', err);
+  }
+}
+
+/**
+ * Whether the browser believes it is online
+ */
+export function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+/**
+ * Whether a fetch failed for lack of network (fetch rejects with a
+ * TypeError when the request never reached the server)
+ */
+export function isNetworkError(err: unknown): boolean {
+  return err instanceof TypeError || !isOnline();
+}
+
+/**
+ * Queue a mutation, coalescing it with a queued mutation of the same kind
+ * for the same ticket
+ * @returns ID of the queued (or coalesced) mutation, null if it cancelled out
+ */
+export async function queueMutation(input: QueuedMutationInput): Promise<string | null> {
+  let id: string | null = null;
+
+  outbox.update((current) => {
+    const index = current.findIndex((m) => m.kind === input.kind && m.ticketId === input.ticketId);
+
+    if (index === -1) {
+      const mutation = { ...input, id: generateId('mutation'), createdAt: Date.now() } as QueuedMutation;
+      id = mutation.id;
+      return [...current, mutation];
+    }
+
+    const existing = current[index];
+    let merged: QueuedMutation;
+
+    if (existing.kind === 'ticket:move' && input.kind === 'ticket:move') {
+      // Moved back to where it started: nothing to replay
+      if (input.toState === existing.fromState) {
+        return current.filter((_, i) => i !== index);
+      }
+      merged = { ...existing, toState: input.toState } satisfies QueuedMoveMutation;
+    } else {
+      const update = existing as QueuedUpdateMutation;
+      const next = input as Omit<QueuedUpdateMutation, 'id' | 'createdAt'>;
+      // Later changes win; the earliest base of each field is kept
+      merged = {
+        ...update,
+        changes: { ...update.changes, ...next.changes },
+        baseValues: { ...next.baseValues, ...update.baseValues }
+      } satisfies QueuedUpdateMutation;
+    }
+
+    id = merged.id;
+    return current.map((m, i) => (i === index ? merged : m));
+  });
+
+  await persist();
+  return id;
+}
+
+/**
+ * Read a JSON error body, tolerating empty or non-JSON responses
+ */
+async function readBody(response: Response): Promise<Record<string, any>> {
+  try {
+    return await response.json();
+  } catch {
+    return {};
+  }
+}
+
+function conflict(
+  mutation: QueuedMutation,
+  fields: Omit<SyncConflict, 'id' | 'projectId' | 'ticketId' | 'createdAt'>
+): SyncConflict {
+  return {
+    id: generateId('conflict'),
+    projectId: mutation.projectId,
+    ticketId: mutation.ticketId,
+    createdAt: Date.now(),
+    ...fields
+  };
+}
+
+async function sendMove(mutation: QueuedMoveMutation): Promise<SendOutcome> {
+  const response = await fetch(`/api/tickets/${mutation.ticketId}/transition`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      toState: mutation.toState,
+      fromState: mutation.fromState,
+      triggeredBy: 'user'
+    })
+  });
+
+  if (response.ok) return [];
+  if (response.status >= 500) return 'retry';
+
+  const data = await readBody(response);
+
+  if (response.status === 409 && data.code === 'STATE_CONFLICT') {
+    // Someone else already moved it where we wanted
+    if (data.currentState === mutation.toState) return [];
+
+    return [
+      conflict(mutation, {
+        kind: 'move',
+        ticketTitle: data.ticket?.title,
+        kept: data.currentState,
+        overwritten: mutation.toState
+      })
+    ];
+  }
+
+  return [
+    conflict(mutation, {
+      kind: 'rejected',
+      kept: mutation.fromState,
+      overwritten: mutation.toState,
+      message: data.message || data.error || 'Move was rejected'
+    })
+  ];
+}
+
+async function sendUpdate(
+  mutation: QueuedUpdateMutation,
+  changes: Record<string, unknown> = mutation.changes
+): Promise<SendOutcome> {
+  const response = await fetch(`/api/tickets/${mutation.ticketId}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...changes, baseValues: mutation.baseValues })
+  });
+
+  if (response.ok) return [];
+  if (response.status >= 500) return 'retry';
+
+  const data = await readBody(response);
+
+  if (response.status === 409 && data.code === 'EDIT_CONFLICT') {
+    const conflicts: SyncConflict[] = (data.conflicts ?? []).map(
+      (c: { field: string; mine: unknown; theirs: unknown }) =>
+        conflict(mutation, {
+          kind: 'field',
+          ticketTitle: data.ticket?.title,
+          field: c.field,
+          kept: c.theirs,
+          overwritten: c.mine
+        })
+    );
+
+    // Apply the fields nobody else touched
+    const conflicting = new Set(conflicts.map((c) => c.field));
+    const rest = Object.fromEntries(Object.entries(changes).filter(([field]) => !conflicting.has(field)));
+    if (conflicts.length === 0 || Object.keys(rest).length === 0) return conflicts;
+
+    const outcome = await sendUpdate(mutation, rest);
+    return outcome === 'retry' ? 'retry' : [...conflicts, ...outcome];
+  }
+
+  return [
+    conflict(mutation, {
+      kind: 'rejected',
+      kept: null,
+      overwritten: changes,
+      message: data.error || data.message || 'Edit was rejected'
+    })
+  ];
+}
+
+/**
+ * Send queued mutations in order. Stops at the first one that cannot reach
+ * the server; it and the rest stay queued for the next attempt.
+ */
+export async function replayOutbox(): Promise<ReplayResult> {
+  if (get(isReplaying)) {
+    return { replayed: 0, remaining: get(outbox).length, conflicts: [] };
+  }
+
+  isReplaying.set(true);
+  await loadOutbox();
+
+  const conflicts: SyncConflict[] = [];
+  let replayed = 0;
+
+  try {
+    for (const mutation of get(outbox)) {
+      let outcome: SendOutcome;
+      try {
+        outcome = mutation.kind === 'ticket:move' ? await sendMove(mutation) : await sendUpdate(mutation);
+      } catch (err) {
+        if (isNetworkError(err)) break;
+        throw err;
+      }
+
+      if (outcome === 'retry') break;
+
+      conflicts.push(...outcome);
+      replayed += 1;
+      outbox.update((current) => current.filter((m) => m.id !== mutation.id));
+      await persist();
+    }
+  } finally {
+    isReplaying.set(false);
+  }
+
+  if (conflicts.length > 0) {
+    syncConflicts.update((current) => [...current, ...conflicts]);
+  }
+
+  return { replayed, remaining: get(outbox).length, conflicts };
+}
+
+/**
+ * Replay the outbox whenever the socket reconnects or the browser comes
+ * back online, and once right away
+ * @param onReplayed - Called after a replay that sent something
+ * @returns Stop function
+ */
+export function startOutboxSync(onReplayed?: (result: ReplayResult) => void): () => void {
+  const replay = async () => {
+    if (!isOnline() || (loaded && get(outbox).length === 0)) return;
+
+    try {
+      const result = await replayOutbox();
+      if (result.replayed > 0) {
+        onReplayed?.(result);
+      }
+    } catch (err) {
+      console.error('Failed to replay offline outbox:', err);
+    }
+  };
+
+  const unsubscribe = connectionStatus.subscribe((status) => {
+    if (status === 'connected') replay();
+  });
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', replay);
+  }
+
+  replay();
+
+  return () => {
+    unsubscribe();
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', replay);
+    }
+  };
+}
+
+/**
+ * Forget a conflict (keep what the server has)
+ * @param conflictId - Conflict to dismiss
+ */
+export function dismissConflict(conflictId: string): void {
+  syncConflicts.update((current) => current.filter((c) => c.id !== conflictId));
+}
+
+/**
+ * Resolve a conflict by applying the offline value over the kept one
+ * @param conflictId - Conflict to resolve
+ * @returns Error message if the value could not be applied
+ */
+export async function applyMine(conflictId: string): Promise<string | null> {
+  const target = get(syncConflicts).find((c) => c.id === conflictId);
+  if (!target) return null;
+  if (target.kind === 'rejected') return 'The server rejected this change';
+
+  const response =
+    target.kind === 'field' && target.field
+      ? await fetch(`/api/tickets/${target.ticketId}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ [target.field]: target.overwritten })
+        })
+      : await fetch(`/api/tickets/${target.ticketId}/transition`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ toState: target.overwritten, triggeredBy: 'user' })
+        });
+
+  if (!response.ok) {
+    const data = await readBody(response);
+    return data.message || data.error || 'Failed to apply your change';
+  }
+
+  dismissConflict(conflictId);
+  return null;
+}
+
+/**
+ * Clear the queue and conflicts (for testing)
+ */
+export function resetOutbox(): void {
+  outbox.set([]);
+  syncConflicts.set([]);
+  isReplaying.set(false);
+  storage = null;
+  loaded = false;
+}
@@ -7,21 +7,50 @@
  * - Connection status tracking (disconnected, connecting, connected, error)
  * - Project room management (join/leave)
  * - Event subscriptions for ticket updates
+ * - Ticket room subscriptions for live execution output
+ * - Ticket comment changes from the project room
+ * - Presence (who views and edits which ticket) and soft edit locks
+ * - Sequenced project events, with missed ones replayed on reconnect
  */
 
 import { writable, get } from 'svelte/store';
 import type { Socket } from 'socket.io-client';
 import type { Ticket } from '$lib/types';
+import type {
+  CommentEventPayload,
+  JobProgressPayload,
+  PresencePayload,
+  PresenceUser,
+  ProjectEventPayload,
+  ProjectSnapshot,
+  ProjectSyncResponse,
+  TicketLockResponse
+} from '$lib/types/socket-events';
 
 /** Connection status type */
 export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
 
+/** Kind of comment change received from the project room */
+export type CommentChange = 'created' | 'updated' | 'deleted';
+
 /** Current connection status */
 export const connectionStatus = writable<ConnectionStatus>('disconnected');
 
 /** Current project ID the socket is subscribed to */
 export const currentProjectId = writable<string | null>(null);
 
+/** Users in the current project room, with what they view and edit */
+export const presence = writable<PresenceUser[]>([]);
+
+/** Ticket open in this client's detail view (re-announced on reconnect) */
+let viewingTicketId: string | null = null;
+
+/** Highest project event sequence applied for the current project */
+let lastEventSeq = 0;
+
+/** Tickets whose execution output is being followed */
+const subscribedTickets = new Set<string>();
+
 /** Socket instance (module-level for singleton pattern) */
 let socket: Socket | null = null;
 
@@ -31,18 +60,36 @@ const eventCallbacks: {
   ticketUpdated: Set<(ticket: Partial<Ticket> & { id: string }) => void>;
   ticketDeleted: Set<(ticketId: string) => void>;
   ticketMoved: Set<(data: { ticketId: string; newStatus: string; newPosition: number; version: number }) => void>;
+  jobProgress: Set<(progress: JobProgressPayload) => void>;
+  comment: Set<(change: CommentChange, payload: CommentEventPayload) => void>;
+  projectEvent: Set<(payload: ProjectEventPayload) => void>;
+  projectResync: Set<(snapshot: ProjectSnapshot | null) => void>;
 } = {
   ticketCreated: new Set(),
   ticketUpdated: new Set(),
   ticketDeleted: new Set(),
-  ticketMoved: new Set()
+  ticketMoved: new Set(),
+  jobProgress: new Set(),
+  comment: new Set(),
+  projectEvent: new Set(),
+  projectResync: new Set()
 };
 
+/**
+ * Auth token identifying a signed-in user to the socket server
+ * @param user - The session's user, if any
+ * @returns The token, or undefined to connect anonymously
+ */
+export function getSocketToken(user?: { id?: string; name?: string | null } | null): string | undefined {
+  return user?.id ? `mock-token:${user.id}:${user.name ?? ''}` : undefined;
+}
+
 /**
  * Connect to the WebSocket server
  * @param url - WebSocket server URL
+ * @param token - Optional auth token ("mock-token:userId:userName")
  */
-export function connect(url: string): void {
+export function connect(url: string, token?: string): void {
   // Don't create multiple connections
   if (socket) {
     return;
@@ -56,18 +103,27 @@ export function connect(url: string): void {
       transports: ['websocket', 'polling'],
       reconnection: true,
       reconnectionAttempts: 5,
-      reconnectionDelay: 1000
+      reconnectionDelay: 1000,
+      auth: token ? { token } : undefined
     });
 
     // Connection event handlers
     socket.on('connect', () => {
       connectionStatus.set('connected');
 
-      // Rejoin project room if we were in one
+      // Rejoin project room if we were in one and catch up on missed events
       const projectId = get(currentProjectId);
       if (projectId) {
-        socket?.emit('join-project', projectId);
+        emitJoin(projectId);
+        if (viewingTicketId) {
+          socket?.emit('presence:view', { projectId, ticketId: viewingTicketId });
+        }
       }
+
+      // Resubscribe to followed tickets
+      subscribedTickets.forEach((ticketId) => {
+        socket?.emit('ticket:subscribe', { ticketId });
+      });
     });
 
     socket.on('disconnect', () => {
@@ -94,9 +150,87 @@ export function connect(url: string): void {
     socket.on('ticket:moved', (data: { ticketId: string; newStatus: string; newPosition: number; version: number }) => {
       eventCallbacks.ticketMoved.forEach((cb) => cb(data));
     });
+
+    socket.on('job:progress', (progress: JobProgressPayload) => {
+      eventCallbacks.jobProgress.forEach((cb) => cb(progress));
+    });
+
+    socket.on('presence:update', (payload: PresencePayload) => {
+      if (payload.projectId === get(currentProjectId)) {
+        presence.set(payload.users);
+      }
+    });
+
+    (['created', 'updated', 'deleted'] as const).forEach((change) => {
+      socket?.on(`comment:${change}`, (payload: CommentEventPayload) => {
+        eventCallbacks.comment.forEach((cb) => cb(change, payload));
+      });
+    });
+
+    socket.on('project:event', (payload: ProjectEventPayload) => {
+      if (payload.projectId !== get(currentProjectId)) return;
+
+      // A gap means events went missing: replay from the last one applied
+      if (lastEventSeq > 0 && payload.seq > lastEventSeq + 1) {
+        syncProject(payload.projectId);
+        return;
+      }
+      applyProjectEvent(payload);
+    });
+  });
+}
+
+/**
+ * Join a project room, then ask for the events missed since lastEventSeq
+ */
+function emitJoin(projectId: string): void {
+  socket?.emit('project:join', { projectId }, (response: { success: boolean }) => {
+    if (response?.success) {
+      syncProject(projectId);
+    }
   });
 }
 
+/**
+ * Ask the server for the project events published after lastEventSeq
+ */
+function syncProject(projectId: string): void {
+  socket?.emit('project:sync', { projectId, lastSeq: lastEventSeq }, (response: ProjectSyncResponse) => {
+    handleSyncResponse(projectId, response);
+  });
+}
+
+/**
+ * Apply replayed events, or resync the board from a snapshot (or a reload
+ * when no snapshot could be sent)
+ */
+function handleSyncResponse(projectId: string, response: ProjectSyncResponse): void {
+  if (projectId !== get(currentProjectId)) return;
+
+  if (response.success && response.events) {
+    response.events.forEach(applyProjectEvent);
+    return;
+  }
+
+  if (!response.success && response.error?.code === 'NOT_IN_PROJECT') return;
+
+  if (typeof response.latestSeq === 'number') {
+    lastEventSeq = response.latestSeq;
+  }
+  const snapshot = response.success ? (response.snapshot ?? null) : null;
+  eventCallbacks.projectResync.forEach((cb) => cb(snapshot));
+}
+
+/**
+ * Pass a project event on unless it was already applied
+ */
+function applyProjectEvent(payload: ProjectEventPayload): void {
+  if (payload.seq <= lastEventSeq) return;
+
+  lastEventSeq = payload.seq;
+  eventCallbacks.projectEvent.forEach((cb) => cb(payload));
+}
+
 /**
  * Disconnect from the WebSocket server
  */
@@ -108,16 +242,21 @@ export function disconnect(): void {
   // Always reset state, even if socket was null
   connectionStatus.set('disconnected');
   currentProjectId.set(null);
+  presence.set([]);
+  viewingTicketId = null;
+  lastEventSeq = 0;
 }
 
 /**
  * Join a project room to receive updates for that project
  * @param projectId - Project ID to join
+ * @param sinceSeq - Event sequence the loaded board is current with
  */
-export function joinProject(projectId: string): void {
+export function joinProject(projectId: string, sinceSeq = 0): void {
   currentProjectId.set(projectId);
+  lastEventSeq = sinceSeq;
   if (socket) {
-    socket.emit('join-project', projectId);
+    emitJoin(projectId);
   }
 }
 
@@ -127,9 +266,78 @@ export function joinProject(projectId: string): void {
  */
 export function leaveProject(projectId: string): void {
   if (socket) {
-    socket.emit('leave-project', projectId);
+    socket.emit('project:leave', { projectId });
   }
   currentProjectId.set(null);
+  presence.set([]);
+  viewingTicketId = null;
+  lastEventSeq = 0;
+}
+
+/**
+ * Tell the project room which ticket this client is viewing
+ * @param ticketId - Ticket open in the detail view, null when closed
+ */
+export function viewTicket(ticketId: string | null): void {
+  viewingTicketId = ticketId;
+  const projectId = get(currentProjectId);
+  if (socket && projectId) {
+    socket.emit('presence:view', { projectId, ticketId });
+  }
+}
+
+/**
+ * Take the soft edit lock of a ticket. The lock is advisory: it tells
+ * others "X is editing", stale writes are still caught by version checks.
+ * @param ticketId - Ticket to edit
+ * @returns Server response (fails with TICKET_LOCKED if someone else edits)
+ */
+export function lockTicket(ticketId: string): Promise<TicketLockResponse> {
+  const projectId = get(currentProjectId);
+  if (!socket || !projectId) {
+    return Promise.resolve({
+      success: false,
+      error: { code: 'NOT_CONNECTED', message: 'Not connected to the project' }
+    });
+  }
+
+  const connected = socket;
+  return new Promise((resolve) => {
+    connected.emit('ticket:lock', { projectId, ticketId }, resolve);
+  });
+}
+
+/**
+ * Release the soft edit lock of a ticket
+ * @param ticketId - Ticket no longer being edited
+ */
+export function unlockTicket(ticketId: string): void {
+  const projectId = get(currentProjectId);
+  if (socket && projectId) {
+    socket.emit('ticket:unlock', { projectId, ticketId });
+  }
+}
+
+/**
+ * Follow live execution output of a ticket (joins the ticket's room)
+ * @param ticketId - Ticket ID to follow
+ */
+export function subscribeToTicket(ticketId: string): void {
+  subscribedTickets.add(ticketId);
+  if (socket) {
+    socket.emit('ticket:subscribe', { ticketId });
+  }
+}
+
+/**
+ * Stop following execution output of a ticket
+ * @param ticketId - Ticket ID to stop following
+ */
+export function unsubscribeFromTicket(ticketId: string): void {
+  subscribedTickets.delete(ticketId);
+  if (socket) {
+    socket.emit('ticket:unsubscribe', { ticketId });
+  }
 }
 
 /**
@@ -174,6 +382,56 @@ export function onTicketMoved(
   return () => eventCallbacks.ticketMoved.delete(callback);
 }
 
+/**
+ * Subscribe to live execution output of followed tickets
+ * @param callback - Callback function for each output line
+ * @returns Unsubscribe function
+ */
+export function onJobProgress(callback: (progress: JobProgressPayload) => void): () => void {
+  eventCallbacks.jobProgress.add(callback);
+  return () => eventCallbacks.jobProgress.delete(callback);
+}
+
+/**
+ * Subscribe to comment changes on tickets of the joined project
+ * @param callback - Callback function for each created, edited or deleted comment
+ * @returns Unsubscribe function
+ */
+export function onComment(callback: (change: CommentChange, payload: CommentEventPayload) => void): () => void {
+  eventCallbacks.comment.add(callback);
+  return () => eventCallbacks.comment.delete(callback);
+}
+
+/**
+ * Subscribe to sequenced events of the joined project, including ones
+ * replayed after a reconnect. Each event is delivered once, in order.
+ * @param callback - Callback function for each project event
+ * @returns Unsubscribe function
+ */
+export function onProjectEvent(callback: (payload: ProjectEventPayload) => void): () => void {
+  eventCallbacks.projectEvent.add(callback);
+  return () => eventCallbacks.projectEvent.delete(callback);
+}
+
+/**
+ * Subscribe to resyncs of the joined project, when missed events could not
+ * be replayed after a reconnect
+ * @param callback - Callback with the current board, or null if the board
+ *                   must be reloaded
+ * @returns Unsubscribe function
+ */
+export function onProjectResync(callback: (snapshot: ProjectSnapshot | null) => void): () => void {
+  eventCallbacks.projectResync.add(callback);
+  return () => eventCallbacks.projectResync.delete(callback);
+}
+
+/**
+ * Get the highest project event sequence applied
+ */
+export function getLastEventSeq(): number {
+  return lastEventSeq;
+}
+
 /**
  * Get the current socket instance (for testing or advanced use)
  */
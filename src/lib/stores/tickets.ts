@@ -6,6 +6,7 @@
  * Features:
  * - Central ticket state management
  * - Derived store for tickets grouped by status
+ * - Derived store for the sub-task rollups of epics
  * - CRUD operations for tickets
  * - Real-time sync with WebSocket events
  * - Optimistic updates with rollback support
@@ -13,6 +14,9 @@
 
 import { writable, derived, get } from 'svelte/store';
 import type { Ticket, TicketStatus } from '$lib/types';
+import type { TicketRollup } from '$lib/types/hierarchy';
+import { calculateRollup } from '$lib/utils/ticket-hierarchy';
+import { activeProgress } from './progress';
 
 /**
  * Previous state for rollback support
@@ -174,6 +178,26 @@ export const ticketsByStatus = derived(tickets, ($tickets) => {
   return grouped;
 });
 
+/**
+ * Derived store: sub-task rollup of each epic on the board, using the live
+ * execution progress of sub-tasks being worked on
+ */
+export const ticketRollups = derived([tickets, activeProgress], ([$tickets, $activeProgress]) => {
+  const children = new Map<string, Ticket[]>();
+  for (const ticket of $tickets) {
+    if (ticket.parentId) {
+      children.set(ticket.parentId, [...(children.get(ticket.parentId) ?? []), ticket]);
+    }
+  }
+
+  const progress = new Map($activeProgress.map((p) => [p.ticketId, p.percentComplete]));
+  const rollups = new Map<string, TicketRollup>();
+  for (const [parentId, subtasks] of children) {
+    rollups.set(parentId, calculateRollup(subtasks, (id) => progress.get(id)));
+  }
+  return rollups;
+});
+
 /**
  * Get tickets for a specific status
  * @param status - Status to filter by
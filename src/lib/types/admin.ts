@@ -169,7 +169,8 @@ export const SETTINGS_CATEGORIES = [
   'integrations',
   'security',
   'notifications',
-  'learning'
+  'learning',
+  'llm'
 ] as const;
 
 export type SettingsCategory = (typeof SETTINGS_CATEGORIES)[number];
@@ -198,6 +199,37 @@ export interface ClaudeFlowSettings {
   memoryBackend: 'hybrid' | 'sqlite' | 'redis';
 }
 
+/**
+ * Language model providers
+ * - anthropic: Anthropic API (ANTHROPIC_API_KEY)
+ * - openai-compatible: any OpenAI-style chat completions endpoint, e.g. a
+ *   local llama.cpp or Ollama server (LLM_API_KEY if it needs one)
+ * - fixture: recorded responses, for tests
+ * - none: no model; callers use their rule-based fallback
+ */
+export const LLM_PROVIDERS = ['anthropic', 'openai-compatible', 'fixture', 'none'] as const;
+
+export type LLMProviderId = (typeof LLM_PROVIDERS)[number];
+
+/**
+ * Provider and model used for a project
+ */
+export interface LLMSelection {
+  provider: LLMProviderId;
+  /** Model name; null uses the provider's default */
+  model: string | null;
+}
+
+/**
+ * Language model settings: the default selection and per-project overrides
+ */
+export interface LLMSettings extends LLMSelection {
+  /** Base URL of the OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 */
+  baseUrl: string | null;
+  /** Selections overriding the default, by project ID */
+  projects: Record<string, LLMSelection>;
+}
+
 /**
  * GAP-3.1.3: Learning preferences configuration
  * Controls how patterns are shared and stored across projects
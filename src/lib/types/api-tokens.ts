@@ -0,0 +1,69 @@
+/**
+ * API Token Types
+ *
+ * Personal access tokens and project service accounts for calling the API
+ * with `Authorization: Bearer <token>` (CI jobs, scripts). A token is
+ * limited to its scopes, on top of what its user's role allows.
+ */
+
+/** Project roles a service account can have */
+export type ServiceAccountRole = 'ADMIN' | 'MEMBER' | 'VIEWER';
+
+/**
+ * A token as listed (the token itself is never stored)
+ */
+export interface ApiToken {
+  id: string;
+  name: string;
+  /** Leading characters of the token */
+  prefix: string;
+  /** Permission values the token is limited to */
+  scopes: string[];
+  serviceAccountId: string | null;
+  expiresAt: Date | string | null;
+  lastUsedAt: Date | string | null;
+  revokedAt: Date | string | null;
+  createdAt: Date | string;
+}
+
+/**
+ * A newly created token, with the only copy of its secret
+ */
+export interface CreatedApiToken {
+  token: ApiToken;
+  secret: string;
+}
+
+/**
+ * A non-human member of a project
+ */
+export interface ServiceAccount {
+  id: string;
+  projectId: string;
+  name: string;
+  description: string | null;
+  role: ServiceAccountRole;
+  tokens: ApiToken[];
+  createdAt: Date | string;
+}
+
+/** Prefix of every token, so leaked tokens are easy to recognize */
+export const API_TOKEN_PREFIX = 'cfk_';
+
+/** Characters of a token shown in lists */
+export const API_TOKEN_DISPLAY_LENGTH = 12;
+
+/** Maximum length of a token or service account name */
+export const MAX_API_TOKEN_NAME_LENGTH = 100;
+
+/** Longest lifetime a token can be given */
+export const MAX_API_TOKEN_DAYS = 365;
+
+/** Lifetimes offered when creating a token (null: never expires) */
+export const API_TOKEN_EXPIRY_OPTIONS: Array<{ label: string; days: number | null }> = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'No expiry', days: null }
+];
@@ -0,0 +1,75 @@
+/**
+ * Ticket Comment Types
+ *
+ * Threaded Markdown comments on tickets with @mentions and reactions.
+ */
+
+/**
+ * What a mention refers to
+ */
+export type CommentMentionType = 'user' | 'agent';
+
+/**
+ * A resolved @mention in a comment
+ */
+export interface CommentMention {
+  type: CommentMentionType;
+  /** User ID, or agent type for agent mentions */
+  id: string;
+  /** Handle as written after "@" */
+  handle: string;
+}
+
+/**
+ * Reactions on a comment: emoji → IDs of the users who reacted
+ */
+export type CommentReactions = Record<string, string[]>;
+
+/**
+ * Author of a comment written by a user
+ */
+export interface CommentAuthor {
+  id: string;
+  name: string | null;
+  email: string;
+  image: string | null;
+}
+
+/**
+ * A ticket comment
+ */
+export interface TicketComment {
+  id: string;
+  ticketId: string;
+  /** Root comment of the thread, null for top-level comments */
+  parentId: string | null;
+  authorId: string | null;
+  author?: CommentAuthor | null;
+  /** Agent type when the comment was written by an agent */
+  agentId: string | null;
+  /** Markdown body (empty once deleted) */
+  body: string;
+  mentions: CommentMention[];
+  reactions: CommentReactions;
+  editedAt: Date | null;
+  deletedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A top-level comment with its replies, oldest first
+ */
+export interface TicketCommentThread extends TicketComment {
+  replies: TicketComment[];
+}
+
+/**
+ * Reactions offered in the UI
+ */
+export const COMMENT_REACTIONS = ['👍', '👎', '🎉', '❤️', '👀', '🚀'] as const;
+
+/**
+ * Maximum length of a comment body
+ */
+export const MAX_COMMENT_LENGTH = 10000;
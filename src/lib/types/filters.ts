@@ -0,0 +1,61 @@
+/**
+ * Ticket Filter Types
+ *
+ * Saved ticket queries and the API shapes of the ticket query language,
+ * e.g. `status:TODO priority>=HIGH label:auth assignee:me created:>7d "login"`.
+ */
+
+/** Fields a ticket query can filter on */
+export type TicketQueryField =
+  | 'status'
+  | 'priority'
+  | 'label'
+  | 'assignee'
+  | 'created'
+  | 'updated'
+  | 'complexity';
+
+/** Comparison of a query term (`status:TODO` is '=') */
+export type TicketQueryOperator = '=' | '>' | '>=' | '<' | '<=';
+
+/**
+ * One `field:value` term of a query
+ */
+export interface TicketQueryCondition {
+  field: TicketQueryField;
+  operator: TicketQueryOperator;
+  /** Alternatives (`label:ui,api` matches either) */
+  values: string[];
+  /** Term prefixed with `-` */
+  negated: boolean;
+}
+
+/**
+ * A parsed query: every condition and every text term must match
+ */
+export interface ParsedTicketQuery {
+  conditions: TicketQueryCondition[];
+  /** Words and "quoted phrases" searched in title and description */
+  text: string[];
+}
+
+/**
+ * A named query saved on a project
+ */
+export interface SavedFilter {
+  id: string;
+  projectId: string;
+  createdById: string;
+  name: string;
+  query: string;
+  /** Listed for every project member, not only its creator */
+  shared: boolean;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+/** Maximum length of a saved filter name */
+export const MAX_FILTER_NAME_LENGTH = 100;
+
+/** Maximum length of a ticket query */
+export const MAX_TICKET_QUERY_LENGTH = 1000;
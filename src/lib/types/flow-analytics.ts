@@ -0,0 +1,133 @@
+/**
+ * Flow Analytics Types
+ *
+ * Metrics computed from ticket status history: cumulative flow, cycle and
+ * lead times, time spent in each column, and how agent-worked tickets
+ * compare to human-worked ones.
+ */
+
+/** Who moved a ticket, from `TicketHistory.triggeredBy` */
+export type FlowActor = 'human' | 'agent' | 'system';
+
+/**
+ * A ticket with its status history, oldest move first
+ */
+export interface FlowTicket {
+  id: string;
+  title: string;
+  createdAt: Date | string;
+  /** Workflow state key the ticket is in now */
+  state: string;
+  transitions: FlowTransition[];
+}
+
+/**
+ * One recorded status move of a ticket
+ */
+export interface FlowTransition {
+  /** Workflow state keys (custom column, else core status) */
+  fromState: string;
+  toState: string;
+  triggeredBy: string;
+  createdAt: Date | string;
+}
+
+/**
+ * Number of tickets per workflow state at the end of a day
+ */
+export interface CumulativeFlowPoint {
+  /** Start of the day (ISO, UTC) */
+  date: string;
+  counts: Record<string, number>;
+}
+
+/**
+ * A ticket completed in the period
+ */
+export interface CompletedTicket {
+  ticketId: string;
+  title: string;
+  completedAt: string;
+  /** Hours from first starting work to done; null if it never was in progress */
+  cycleHours: number | null;
+  /** Hours from creation to done */
+  leadHours: number;
+  /** Agent if agents worked on the ticket, else human */
+  workedBy: Exclude<FlowActor, 'system'>;
+}
+
+/**
+ * Durations (hours) within which 50, 85 and 95 percent of tickets finished
+ */
+export interface DurationPercentiles {
+  p50: number | null;
+  p85: number | null;
+  p95: number | null;
+}
+
+/**
+ * A bar of the lead time distribution
+ */
+export interface LeadTimeBucket {
+  label: string;
+  minDays: number;
+  /** Exclusive upper bound; null for the last bucket */
+  maxDays: number | null;
+  count: number;
+}
+
+/**
+ * Time tickets spent in a workflow state during the period
+ */
+export interface StateTime {
+  state: string;
+  label: string;
+  /** Tickets in the state are waiting on a human answer */
+  waitingOnHumans: boolean;
+  /** Stays in the state (a ticket can return to it) */
+  visits: number;
+  /** Stays still running at the end of the period */
+  ongoing: number;
+  totalHours: number;
+  averageHours: number | null;
+  medianHours: number | null;
+}
+
+/**
+ * Throughput and speed of agent-worked vs. human-worked tickets
+ */
+export interface ActorComparison {
+  workedBy: Exclude<FlowActor, 'system'>;
+  completed: number;
+  cycleTime: DurationPercentiles;
+  leadTime: DurationPercentiles;
+  /** Average hours a completed ticket waited for feedback */
+  averageFeedbackHours: number | null;
+  /** Status moves made by this kind of actor in the period */
+  transitions: number;
+}
+
+/**
+ * Flow analytics of a project over a period
+ */
+export interface FlowAnalytics {
+  from: string;
+  to: string;
+  /** Workflow states in board order */
+  states: Array<{ key: string; label: string }>;
+  cumulativeFlow: CumulativeFlowPoint[];
+  completed: CompletedTicket[];
+  cycleTime: DurationPercentiles;
+  leadTime: DurationPercentiles;
+  leadTimeDistribution: LeadTimeBucket[];
+  timeInState: StateTime[];
+  actors: ActorComparison[];
+  /** Status moves made by the system (scheduler, error handling) */
+  systemTransitions: number;
+}
+
+/** Days analyzed when no period is given */
+export const DEFAULT_ANALYTICS_DAYS = 90;
+
+/** Longest period that can be analyzed */
+export const MAX_ANALYTICS_DAYS = 365;
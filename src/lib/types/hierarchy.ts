@@ -0,0 +1,33 @@
+/**
+ * Ticket Hierarchy Types
+ *
+ * Epics and their sub-tasks: a ticket with children is an epic, and its
+ * progress is rolled up from them. Hierarchies are one level deep.
+ */
+
+import type { Priority, TicketStatus } from './index';
+
+/**
+ * Progress of an epic aggregated from its sub-tasks
+ */
+export interface TicketRollup {
+  /** Sub-tasks that count towards progress (cancelled ones do not) */
+  total: number;
+  done: number;
+  /** Sub-tasks being worked on (IN_PROGRESS through REVIEW) */
+  inProgress: number;
+  cancelled: number;
+  /** Average progress of the counted sub-tasks, 0-100 */
+  percentComplete: number;
+  byStatus: Partial<Record<TicketStatus, number>>;
+}
+
+/**
+ * A sub-task to create under an epic
+ */
+export interface SubtaskInput {
+  title: string;
+  description?: string | null;
+  priority?: Priority;
+  labels?: string[];
+}
@@ -37,6 +37,8 @@ export interface Ticket {
   title: string;
   description?: string | null;
   status: TicketStatus;
+  /** Custom workflow column key when not in a core status column */
+  workflowState?: string | null;
   priority: Priority;
   labels: string[];
   complexity?: number | null;
@@ -46,6 +48,12 @@ export interface Ticket {
   history?: TicketHistory[];
   /** GAP-3.2.4: IDs of tickets that must be completed before this one can progress */
   dependencyIds?: string[];
+  /** Git branch the ticket's agents work on */
+  branchName?: string | null;
+  /** TASK-097: Assigned user */
+  assignedToId?: string | null;
+  /** Epic this ticket is a sub-task of */
+  parentId?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -176,3 +184,8 @@ export * from './resources';
  * GAP-UX.2: Re-export time travel types
  */
 export * from './time-travel';
+
+/**
+ * Re-export ticket comment types
+ */
+export * from './comments';
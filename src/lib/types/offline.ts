@@ -0,0 +1,82 @@
+/**
+ * Offline Outbox Types
+ *
+ * Ticket mutations made while disconnected are queued, persisted in the
+ * browser and replayed on reconnect. Each mutation carries the state it
+ * was made against so the server can detect concurrent edits.
+ */
+
+/**
+ * Kind of a queued mutation (named after the matching socket events)
+ */
+export type QueuedMutationKind = 'ticket:move' | 'ticket:update';
+
+/**
+ * Fields shared by all queued mutations
+ */
+interface QueuedMutationBase {
+  id: string;
+  kind: QueuedMutationKind;
+  projectId: string;
+  ticketId: string;
+  /** When the mutation was first queued (ms since epoch) */
+  createdAt: number;
+}
+
+/**
+ * A column move made offline
+ */
+export interface QueuedMoveMutation extends QueuedMutationBase {
+  kind: 'ticket:move';
+  /** Workflow state the ticket was in when it was moved */
+  fromState: string;
+  toState: string;
+}
+
+/**
+ * A field edit made offline
+ */
+export interface QueuedUpdateMutation extends QueuedMutationBase {
+  kind: 'ticket:update';
+  /** Fields to write */
+  changes: Record<string, unknown>;
+  /** Values of the same fields when the edit started */
+  baseValues: Record<string, unknown>;
+}
+
+export type QueuedMutation = QueuedMoveMutation | QueuedUpdateMutation;
+
+/**
+ * A queued mutation before it gets an ID
+ */
+export type QueuedMutationInput =
+  | Omit<QueuedMoveMutation, 'id' | 'createdAt'>
+  | Omit<QueuedUpdateMutation, 'id' | 'createdAt'>;
+
+/**
+ * What went wrong replaying a mutation:
+ * - field: someone else changed the same field, their value was kept
+ * - move: someone else moved the ticket, their column was kept
+ * - rejected: the server refused the mutation (deleted ticket, blocked move...)
+ */
+export type SyncConflictKind = 'field' | 'move' | 'rejected';
+
+/**
+ * An offline change that was not applied as made
+ */
+export interface SyncConflict {
+  id: string;
+  kind: SyncConflictKind;
+  projectId: string;
+  ticketId: string;
+  ticketTitle?: string;
+  /** Edited field (field conflicts) */
+  field?: string;
+  /** Value kept on the server */
+  kept: unknown;
+  /** Offline value that was overwritten (not applied) */
+  overwritten: unknown;
+  /** Server message for rejected mutations */
+  message?: string;
+  createdAt: number;
+}
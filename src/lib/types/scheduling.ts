@@ -0,0 +1,40 @@
+/**
+ * Dependency Scheduling Types
+ *
+ * Settings for automatically starting tickets once their
+ * dependencies are complete, and for moving epics along with their
+ * sub-tasks.
+ */
+
+/**
+ * Scheduling settings configurable per project
+ * Stored in Project.settings.scheduling
+ */
+export interface ProjectSchedulingSettings {
+	/** Start TODO tickets automatically when their last dependency reaches DONE */
+	autoStartUnblocked: boolean;
+	/** Move a parent ticket to REVIEW when its last sub-task reaches DONE */
+	autoReviewParents: boolean;
+}
+
+/**
+ * Default scheduling settings for new projects
+ */
+export const DEFAULT_PROJECT_SCHEDULING_SETTINGS: ProjectSchedulingSettings = {
+	autoStartUnblocked: false,
+	autoReviewParents: true
+};
+
+/**
+ * Get scheduling settings from project settings (defaults for missing fields)
+ */
+export function getProjectSchedulingSettings(settings: unknown): ProjectSchedulingSettings {
+	const scheduling = (settings as Record<string, unknown> | null | undefined)?.scheduling as
+		| Partial<ProjectSchedulingSettings>
+		| undefined;
+
+	return {
+		...DEFAULT_PROJECT_SCHEDULING_SETTINGS,
+		...(scheduling || {})
+	};
+}
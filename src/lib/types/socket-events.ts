@@ -5,7 +5,7 @@
  * These types ensure type safety between client and server communication.
  */
 
-import type { Ticket, TicketStatus, Priority } from './index';
+import type { Ticket, TicketStatus, Priority, TicketComment } from './index';
 
 /**
  * Payload for moving a ticket between states
@@ -41,6 +41,8 @@ export interface TicketUpdatedPayload {
     labels: string[];
     complexity: number | null;
   }>;
+  /** Ticket version after the update (see getTicketVersion) */
+  version?: number;
 }
 
 /**
@@ -65,6 +67,138 @@ export interface LeaveProjectPayload {
   projectId: string;
 }
 
+/**
+ * Payload for subscribing to (or unsubscribing from) a ticket room
+ */
+export interface TicketSubscriptionPayload {
+  ticketId: string;
+}
+
+/**
+ * Payload for a line of live execution output
+ */
+export interface JobProgressPayload {
+  jobId: string;
+  projectId?: string;
+  ticketId?: string;
+  status: string;
+  output?: string;
+  /** 1-based number of the line within the job run */
+  line?: number;
+  isError?: boolean;
+  timestamp: string;
+}
+
+/**
+ * Payload for a comment created, edited, deleted or reacted to
+ * (delivered to the project room)
+ */
+export interface CommentEventPayload {
+  projectId: string;
+  ticketId: string;
+  comment: TicketComment;
+}
+
+/**
+ * A user connected to a project room and what they are looking at
+ */
+export interface PresenceUser {
+  socketId: string;
+  userId: string;
+  userName?: string;
+  /** Ticket open in the user's detail view, null when on the board */
+  viewingTicketId: string | null;
+  /** Ticket the user holds the edit lock of */
+  editingTicketId: string | null;
+}
+
+/**
+ * Everyone currently in a project room (sent on every presence change)
+ */
+export interface PresencePayload {
+  projectId: string;
+  users: PresenceUser[];
+}
+
+/**
+ * Payload for opening or closing a ticket's detail view
+ */
+export interface TicketViewPayload {
+  projectId: string;
+  /** Ticket being viewed, null when back on the board */
+  ticketId: string | null;
+}
+
+/**
+ * Payload for taking or releasing the edit lock of a ticket
+ */
+export interface TicketLockPayload {
+  projectId: string;
+  ticketId: string;
+}
+
+/**
+ * Soft edit lock: tells others who is editing a ticket. Writes are not
+ * blocked by it; stale writes are rejected by version checks instead.
+ */
+export interface TicketLock {
+  ticketId: string;
+  socketId: string;
+  userId: string;
+  userName?: string;
+  acquiredAt: string;
+}
+
+/**
+ * Response to a lock request. When someone else holds the lock,
+ * success is false and lock describes the holder.
+ */
+export interface TicketLockResponse {
+  success: boolean;
+  lock?: TicketLock;
+  error?: ErrorPayload;
+}
+
+/**
+ * A project event published through pub/sub, numbered within its project.
+ * Clients remember the highest seq seen to ask for missed events on reconnect.
+ */
+export interface ProjectEventPayload {
+  seq: number;
+  /** Pub/sub channel the event was published on */
+  channel: string;
+  projectId: string;
+  event: Record<string, unknown>;
+}
+
+/**
+ * Payload for catching up on a project after (re)joining it
+ */
+export interface ProjectSyncPayload {
+  projectId: string;
+  /** Highest sequence number the client has seen */
+  lastSeq: number;
+}
+
+/**
+ * Board state sent instead of events when the client is too far behind
+ */
+export interface ProjectSnapshot {
+  tickets: Ticket[];
+}
+
+/**
+ * Response to a sync request: the missed events in order, or a snapshot
+ * when they are no longer buffered. With neither, the client is current.
+ */
+export interface ProjectSyncResponse {
+  success: boolean;
+  latestSeq?: number;
+  events?: ProjectEventPayload[];
+  snapshot?: ProjectSnapshot;
+  error?: ErrorPayload;
+}
+
 /**
  * Payload for error responses
  */
@@ -118,6 +252,15 @@ export interface ClientToServerEvents {
     callback?: (response: { success: boolean; users?: string[]; error?: ErrorPayload }) => void
   ) => void;
   'project:leave': (payload: LeaveProjectPayload) => void;
+  'ticket:subscribe': (
+    payload: TicketSubscriptionPayload,
+    callback?: (response: { success: boolean; error?: ErrorPayload }) => void
+  ) => void;
+  'ticket:unsubscribe': (payload: TicketSubscriptionPayload) => void;
+  'presence:view': (payload: TicketViewPayload) => void;
+  'ticket:lock': (payload: TicketLockPayload, callback?: (response: TicketLockResponse) => void) => void;
+  'ticket:unlock': (payload: TicketLockPayload) => void;
+  'project:sync': (payload: ProjectSyncPayload, callback?: (response: ProjectSyncResponse) => void) => void;
 }
 
 /**
@@ -130,6 +273,12 @@ export interface ServerToClientEvents {
   'ticket:deleted': (payload: TicketDeletedPayload) => void;
   'user:joined': (payload: UserJoinedPayload) => void;
   'user:left': (payload: UserLeftPayload) => void;
+  'presence:update': (payload: PresencePayload) => void;
+  'job:progress': (payload: JobProgressPayload) => void;
+  'comment:created': (payload: CommentEventPayload) => void;
+  'comment:updated': (payload: CommentEventPayload) => void;
+  'comment:deleted': (payload: CommentEventPayload) => void;
+  'project:event': (payload: ProjectEventPayload) => void;
   error: (payload: ErrorPayload) => void;
 }
 
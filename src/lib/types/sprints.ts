@@ -0,0 +1,105 @@
+/**
+ * Sprint Types
+ *
+ * Time-boxed iterations of a project: planning against capacity,
+ * burndown/burnup charts and velocity across completed sprints.
+ * Work is measured in estimated hours (see time-estimation.ts).
+ */
+
+import type { Priority, TicketStatus } from './index';
+
+export type SprintStatus = 'PLANNED' | 'ACTIVE' | 'COMPLETED';
+
+/**
+ * A sprint of a project
+ */
+export interface Sprint {
+  id: string;
+  projectId: string;
+  name: string;
+  goal: string | null;
+  startDate: Date | string;
+  endDate: Date | string;
+  status: SprintStatus;
+  /** Estimated hours the team can take on */
+  capacityHours: number | null;
+  /** Estimated hours in the sprint when it started */
+  committedHours: number | null;
+  /** Estimated hours done when it completed */
+  completedHours: number | null;
+  completedAt: Date | string | null;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+/**
+ * A ticket's membership of a sprint
+ */
+export interface SprintTicketEntry {
+  ticketId: string;
+  estimateHours: number;
+  /** In the sprint when it started */
+  committed: boolean;
+  /** Left unfinished and moved to the next sprint */
+  carriedOver: boolean;
+  addedAt: Date | string;
+  /** When the ticket left the sprint, if it did */
+  removedAt: Date | string | null;
+  /** When the ticket reached DONE, if it did */
+  doneAt: Date | string | null;
+}
+
+/**
+ * A ticket in a sprint with its current state
+ */
+export interface SprintTicket extends SprintTicketEntry {
+  title: string;
+  status: TicketStatus;
+  priority: Priority;
+}
+
+/**
+ * One day of a sprint's burn charts
+ */
+export interface SprintBurnPoint {
+  /** Start of the day */
+  date: string;
+  /** Hours in the sprint at the end of the day */
+  scopeHours: number;
+  /** Hours done by the end of the day */
+  completedHours: number;
+  /** scopeHours - completedHours; null for days still ahead */
+  remainingHours: number | null;
+  /** Remaining hours on a straight line from the committed scope to zero */
+  idealHours: number;
+}
+
+/**
+ * Velocity over recent completed sprints
+ */
+export interface SprintVelocity {
+  /** Completed hours of each sprint, oldest first */
+  sprints: Array<{ sprintId: string; name: string; committedHours: number; completedHours: number }>;
+  /** Average completed hours, null without completed sprints */
+  averageHours: number | null;
+}
+
+/**
+ * Tickets suggested for a sprint within its capacity
+ */
+export interface SprintPlan {
+  capacityHours: number | null;
+  /** Hours of the tickets already in the sprint */
+  plannedHours: number;
+  /** Backlog tickets that fit the remaining capacity, in priority order */
+  suggestions: Array<{ ticketId: string; title: string; priority: Priority; estimateHours: number }>;
+}
+
+/** Length of a sprint created by carry-over when no next sprint is planned */
+export const DEFAULT_SPRINT_LENGTH_DAYS = 14;
+
+/** Completed sprints averaged for velocity and default capacity */
+export const VELOCITY_SPRINT_COUNT = 3;
+
+/** Maximum length of a sprint name */
+export const MAX_SPRINT_NAME_LENGTH = 100;
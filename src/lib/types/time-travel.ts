@@ -45,7 +45,8 @@ export type TimelineEventType =
   | 'pattern_stored'
   | 'decision_made'
   | 'ticket_created'
-  | 'ticket_updated';
+  | 'ticket_updated'
+  | 'comment_added';
 
 /**
  * Metadata associated with timeline events
@@ -71,6 +72,16 @@ export interface TimelineEventMetadata {
   questionText?: string;
   answerText?: string;
 
+  /** For comments */
+  commentId?: string;
+  parentCommentId?: string;
+  commentText?: string;
+
+  /** For field edits */
+  field?: TrackedTicketField;
+  oldValue?: unknown;
+  newValue?: unknown;
+
   /** For pattern storage */
   patternId?: string;
   patternType?: string;
@@ -292,6 +303,70 @@ export interface TimeTravelResponse {
   currentSnapshot: TicketSnapshot;
 }
 
+/**
+ * Ticket fields whose edits are recorded. Status moves are recorded
+ * separately in the ticket history.
+ */
+export const TRACKED_TICKET_FIELDS = [
+  'title',
+  'description',
+  'priority',
+  'labels',
+  'complexity',
+  'position',
+  'assignedToId',
+  'dependencyIds',
+  'parentId'
+] as const;
+
+export type TrackedTicketField = (typeof TRACKED_TICKET_FIELDS)[number];
+
+/**
+ * A recorded edit of one ticket field
+ */
+export interface TicketFieldChange {
+  id: string;
+  ticketId: string;
+  field: TrackedTicketField;
+  oldValue: unknown;
+  newValue: unknown;
+  /** User who made the edit, null for system/agent edits */
+  changedById: string | null;
+  changedByName?: string | null;
+  triggeredBy: string;
+  createdAt: Date;
+}
+
+/**
+ * A ticket as it was on the board at a point in time
+ */
+export interface BoardSnapshotTicket {
+  id: string;
+  title: string;
+  description: string | null;
+  status: TicketStatus;
+  workflowState: string | null;
+  priority: Priority;
+  labels: string[];
+  complexity: number | null;
+  position: number;
+  assignedToId: string | null;
+  dependencyIds: string[];
+  createdAt: Date;
+}
+
+/**
+ * The board of a project as it was at a point in time
+ */
+export interface BoardSnapshot {
+  projectId: string;
+  asOf: Date;
+  /** Tickets that existed at asOf (tickets deleted since are not included) */
+  tickets: BoardSnapshotTicket[];
+  /** Field edits made in the day up to asOf, newest first */
+  changes: TicketFieldChange[];
+}
+
 /**
  * Default playback state
  */
@@ -328,7 +403,8 @@ export const EVENT_TYPE_CONFIG: Record<TimelineEventType, { label: string; color
   pattern_stored: { label: 'Pattern Stored', color: 'pink', icon: 'GitBranch' },
   decision_made: { label: 'Decision Made', color: 'violet', icon: 'GitCommit' },
   ticket_created: { label: 'Ticket Created', color: 'teal', icon: 'Plus' },
-  ticket_updated: { label: 'Ticket Updated', color: 'sky', icon: 'Edit' }
+  ticket_updated: { label: 'Ticket Updated', color: 'sky', icon: 'Edit' },
+  comment_added: { label: 'Comment', color: 'lime', icon: 'MessageCircle' }
 };
 
 /**
@@ -0,0 +1,229 @@
+/**
+ * Board Swimlanes
+ *
+ * Groups board tickets into horizontal lanes (by assignee, priority, label,
+ * agent type or epic) and works out the ticket change implied by dragging a
+ * ticket into another lane, e.g. into another assignee's lane reassigns it.
+ */
+
+import type { Priority, Ticket } from '$lib/types';
+
+/** Ticket attribute the board is grouped into lanes by ('none': no lanes) */
+export type BoardGrouping = 'none' | 'assignee' | 'priority' | 'label' | 'agentType' | 'epic';
+
+/**
+ * Grouping options in display order
+ */
+export const BOARD_GROUPINGS: { value: BoardGrouping; label: string }[] = [
+  { value: 'none', label: 'No swimlanes' },
+  { value: 'assignee', label: 'Assignee' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'label', label: 'Label' },
+  { value: 'agentType', label: 'Agent type' },
+  { value: 'epic', label: 'Epic' }
+];
+
+/** Lane key of tickets without a value for the grouped field */
+export const NO_LANE_VALUE = '';
+
+/** Core statuses counted as work in progress in lane headers */
+export const WIP_STATUSES = ['IN_PROGRESS', 'NEEDS_FEEDBACK', 'READY_TO_RESUME', 'REVIEW'] as const;
+
+const PRIORITY_ORDER: Priority[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+
+/**
+ * Project member a ticket can be assigned to
+ */
+export interface LaneMember {
+  id: string;
+  name?: string | null;
+  email?: string | null;
+}
+
+/**
+ * Data the lanes are built from besides the tickets themselves
+ */
+export interface LaneContext {
+  /** Project members (each gets a lane, even without tickets) */
+  members?: LaneMember[];
+  /** Agent type of each ticket's primary agent */
+  agentTypes?: Map<string, string>;
+  /** Title of each epic by id (see getEpics) */
+  epics?: Map<string, string>;
+}
+
+/**
+ * A swimlane and its tickets
+ */
+export interface BoardLane {
+  key: string;
+  label: string;
+  tickets: Ticket[];
+  /** Tickets in a work-in-progress status */
+  wipCount: number;
+}
+
+/**
+ * Whether dragging a ticket into another lane of this grouping changes the
+ * ticket (agent types follow the agents working on it, so they cannot)
+ */
+export function isGroupingEditable(grouping: BoardGrouping): boolean {
+  return grouping === 'assignee' || grouping === 'priority' || grouping === 'label' || grouping === 'epic';
+}
+
+/**
+ * Lane a ticket belongs to. Tickets with several labels are grouped by
+ * their first one; an epic heads its own lane.
+ */
+export function getTicketLaneKey(
+  ticket: Ticket,
+  grouping: BoardGrouping,
+  context: LaneContext = {}
+): string {
+  switch (grouping) {
+    case 'assignee':
+      return ticket.assignedToId ?? NO_LANE_VALUE;
+    case 'priority':
+      return ticket.priority;
+    case 'label':
+      return ticket.labels?.[0] ?? NO_LANE_VALUE;
+    case 'agentType':
+      return context.agentTypes?.get(ticket.id) ?? NO_LANE_VALUE;
+    case 'epic':
+      if (ticket.parentId) return ticket.parentId;
+      return context.epics?.has(ticket.id) ? ticket.id : NO_LANE_VALUE;
+    default:
+      return NO_LANE_VALUE;
+  }
+}
+
+function formatEnum(value: string): string {
+  return value.charAt(0) + value.slice(1).toLowerCase().replace(/_/g, ' ');
+}
+
+/**
+ * Lanes that always exist for a grouping, in display order
+ */
+function getFixedLanes(grouping: BoardGrouping, context: LaneContext): { key: string; label: string }[] {
+  if (grouping === 'priority') {
+    return PRIORITY_ORDER.map((priority) => ({ key: priority, label: formatEnum(priority) }));
+  }
+  if (grouping === 'assignee') {
+    return (context.members ?? [])
+      .map((member) => ({ key: member.id, label: member.name || member.email || member.id }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }
+  if (grouping === 'epic') {
+    return [...(context.epics ?? [])]
+      .map(([key, label]) => ({ key, label }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }
+  return [];
+}
+
+function getEmptyLaneLabel(grouping: BoardGrouping): string {
+  switch (grouping) {
+    case 'assignee':
+      return 'Unassigned';
+    case 'label':
+      return 'No label';
+    case 'agentType':
+      return 'No agent';
+    case 'epic':
+      return 'No epic';
+    default:
+      return 'Other';
+  }
+}
+
+/**
+ * Group tickets into swimlanes
+ * @param tickets - Board tickets
+ * @param grouping - Field to group by
+ * @param context - Members, agent types and epics the lanes are built from
+ * @returns Lanes in display order; the lane of tickets without a value
+ *          comes last. With grouping 'none', a single lane of all tickets.
+ */
+export function groupTicketsIntoLanes(
+  tickets: Ticket[],
+  grouping: BoardGrouping,
+  context: LaneContext = {}
+): BoardLane[] {
+  if (grouping === 'none') {
+    return [createLane(NO_LANE_VALUE, 'All tickets', tickets)];
+  }
+
+  const byKey = new Map<string, Ticket[]>();
+  for (const ticket of tickets) {
+    const key = getTicketLaneKey(ticket, grouping, context);
+    const lane = byKey.get(key);
+    if (lane) {
+      lane.push(ticket);
+    } else {
+      byKey.set(key, [ticket]);
+    }
+  }
+
+  const lanes = getFixedLanes(grouping, context);
+  const known = new Set(lanes.map((lane) => lane.key));
+  const extra = [...byKey.keys()]
+    .filter((key) => key !== NO_LANE_VALUE && !known.has(key))
+    .sort((a, b) => a.localeCompare(b))
+    .map((key) => ({ key, label: key }));
+
+  return [...lanes, ...extra, { key: NO_LANE_VALUE, label: getEmptyLaneLabel(grouping) }].map(
+    ({ key, label }) => createLane(key, label, byKey.get(key) ?? [])
+  );
+}
+
+function createLane(key: string, label: string, tickets: Ticket[]): BoardLane {
+  const wipStatuses: readonly string[] = WIP_STATUSES;
+  return {
+    key,
+    label,
+    tickets,
+    wipCount: tickets.filter((ticket) => wipStatuses.includes(ticket.status)).length
+  };
+}
+
+/**
+ * Ticket fields to update when a ticket is dragged into another lane
+ * @param ticket - The dragged ticket
+ * @param grouping - Current grouping
+ * @param toLaneKey - Lane it was dropped in
+ * @param context - Epics, for epic lanes
+ * @returns Fields for PUT /api/tickets/:id, or null if nothing changes
+ *          (same lane, a grouping that cannot be changed by dragging, or
+ *          an epic dropped outside its own lane)
+ */
+export function getLaneChange(
+  ticket: Ticket,
+  grouping: BoardGrouping,
+  toLaneKey: string,
+  context: LaneContext = {}
+): Partial<Pick<Ticket, 'assignedToId' | 'priority' | 'labels' | 'parentId'>> | null {
+  if (!isGroupingEditable(grouping) || getTicketLaneKey(ticket, grouping, context) === toLaneKey) {
+    return null;
+  }
+
+  switch (grouping) {
+    case 'assignee':
+      return { assignedToId: toLaneKey === NO_LANE_VALUE ? null : toLaneKey };
+    case 'priority':
+      return { priority: toLaneKey as Priority };
+    case 'label': {
+      if (toLaneKey === NO_LANE_VALUE) {
+        return { labels: [] };
+      }
+      // The lane's label replaces the one the ticket was grouped by
+      const [, ...others] = ticket.labels ?? [];
+      return { labels: [toLaneKey, ...others.filter((label) => label !== toLaneKey)] };
+    }
+    case 'epic':
+      // Epics cannot become sub-tasks
+      if (context.epics?.has(ticket.id)) return null;
+      return { parentId: toLaneKey === NO_LANE_VALUE ? null : toLaneKey };
+    default:
+      return null;
+  }
+}
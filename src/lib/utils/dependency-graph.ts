@@ -0,0 +1,255 @@
+/**
+ * Ticket Dependency Graph
+ *
+ * Pure graph algorithms over Ticket.dependencyIds, shared by the server
+ * (cycle validation, dependency-graph API) and the UI (selector, Gantt):
+ * - Cycle detection
+ * - Topological ordering (Kahn's algorithm)
+ * - Critical path method: earliest/latest start, slack and critical path
+ *
+ * Edges point from a ticket to the tickets it depends on; a dependency
+ * must finish before the dependent ticket can start.
+ */
+
+/**
+ * A ticket as seen by the graph
+ */
+export interface DependencyNode {
+  id: string;
+  dependencyIds: string[];
+  /** Remaining work in hours (0 for completed tickets) */
+  durationHours: number;
+}
+
+/**
+ * Schedule for one ticket, in hours from now
+ */
+export interface ScheduledNode {
+  id: string;
+  durationHours: number;
+  earliestStart: number;
+  earliestFinish: number;
+  latestStart: number;
+  latestFinish: number;
+  /** How long the ticket can slip without delaying the whole plan */
+  slack: number;
+  critical: boolean;
+}
+
+/**
+ * Result of analyzing a dependency graph
+ */
+export interface DependencyGraphAnalysis {
+  /** Ticket IDs with every ticket after its dependencies */
+  order: string[];
+  /** Longest chain of dependent tickets, first to last */
+  criticalPath: string[];
+  /** Length of the critical path in hours */
+  totalHours: number;
+  nodes: ScheduledNode[];
+}
+
+/**
+ * Error thrown when dependencies form a cycle
+ */
+export class DependencyCycleError extends Error {
+  constructor(public readonly cycle: string[]) {
+    super(`Dependency cycle detected: ${cycle.join(' → ')}`);
+    this.name = 'DependencyCycleError';
+  }
+}
+
+/**
+ * Find a dependency cycle, if any
+ *
+ * @returns Ticket IDs along the cycle, with the first repeated at the end
+ */
+export function findCycle(dependencies: Map<string, string[]>): string[] | null {
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (visiting.has(id)) {
+      return [...stack.slice(stack.indexOf(id)), id];
+    }
+    if (visited.has(id)) {
+      return null;
+    }
+
+    visiting.add(id);
+    stack.push(id);
+    for (const dependencyId of dependencies.get(id) ?? []) {
+      const cycle = visit(dependencyId);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    visiting.delete(id);
+    visited.add(id);
+    return null;
+  };
+
+  for (const id of dependencies.keys()) {
+    const cycle = visit(id);
+    if (cycle) return cycle;
+  }
+
+  return null;
+}
+
+/**
+ * Check whether giving a ticket these dependencies would create a cycle
+ *
+ * @param tickets - Current dependencies of every ticket in the project
+ * @returns The cycle that would be created, or null
+ */
+export function findCycleWithDependencies(
+  tickets: Array<{ id: string; dependencyIds: string[] }>,
+  ticketId: string,
+  dependencyIds: string[]
+): string[] | null {
+  const dependencies = new Map(tickets.map((t) => [t.id, t.dependencyIds ?? []]));
+  dependencies.set(ticketId, dependencyIds);
+  return findCycle(dependencies);
+}
+
+/**
+ * Get the IDs of all tickets that (transitively) depend on a ticket.
+ * Adding any of them as a dependency of the ticket would create a cycle.
+ */
+export function getDependents(
+  tickets: Array<{ id: string; dependencyIds: string[] }>,
+  ticketId: string
+): Set<string> {
+  const dependents = new Set<string>();
+  const queue = [ticketId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const ticket of tickets) {
+      if (!dependents.has(ticket.id) && ticket.dependencyIds?.includes(current)) {
+        dependents.add(ticket.id);
+        queue.push(ticket.id);
+      }
+    }
+  }
+
+  return dependents;
+}
+
+/**
+ * Order tickets so every ticket comes after its dependencies.
+ * Dependencies outside the node set are ignored.
+ *
+ * @throws DependencyCycleError if the dependencies form a cycle
+ */
+export function topologicalOrder(nodes: DependencyNode[]): string[] {
+  const ids = new Set(nodes.map((n) => n.id));
+  const remaining = new Map<string, number>();
+  const dependents = new Map<string, string[]>();
+
+  for (const node of nodes) {
+    const deps = node.dependencyIds.filter((id) => ids.has(id));
+    remaining.set(node.id, deps.length);
+    for (const dep of deps) {
+      dependents.set(dep, [...(dependents.get(dep) ?? []), node.id]);
+    }
+  }
+
+  // Keep input order among ready tickets so the result is stable
+  const ready = nodes.filter((n) => remaining.get(n.id) === 0).map((n) => n.id);
+  const order: string[] = [];
+
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    order.push(id);
+    for (const dependent of dependents.get(id) ?? []) {
+      const count = remaining.get(dependent)! - 1;
+      remaining.set(dependent, count);
+      if (count === 0) ready.push(dependent);
+    }
+  }
+
+  if (order.length < nodes.length) {
+    const cycle = findCycle(
+      new Map(nodes.map((n) => [n.id, n.dependencyIds.filter((id) => ids.has(id))]))
+    );
+    throw new DependencyCycleError(cycle ?? nodes.filter((n) => !order.includes(n.id)).map((n) => n.id));
+  }
+
+  return order;
+}
+
+/**
+ * Compute the schedule, slack and critical path of a dependency graph
+ *
+ * @throws DependencyCycleError if the dependencies form a cycle
+ */
+export function analyzeDependencyGraph(nodes: DependencyNode[]): DependencyGraphAnalysis {
+  const order = topologicalOrder(nodes);
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const ids = new Set(byId.keys());
+
+  // Forward pass: earliest start/finish
+  const earliestFinish = new Map<string, number>();
+  const earliestStart = new Map<string, number>();
+  for (const id of order) {
+    const node = byId.get(id)!;
+    const start = Math.max(
+      0,
+      ...node.dependencyIds.filter((d) => ids.has(d)).map((d) => earliestFinish.get(d)!)
+    );
+    earliestStart.set(id, start);
+    earliestFinish.set(id, start + node.durationHours);
+  }
+
+  const totalHours = Math.max(0, ...earliestFinish.values());
+
+  // Backward pass: latest start/finish
+  const dependents = new Map<string, string[]>();
+  for (const node of nodes) {
+    for (const dep of node.dependencyIds.filter((d) => ids.has(d))) {
+      dependents.set(dep, [...(dependents.get(dep) ?? []), node.id]);
+    }
+  }
+
+  const latestStart = new Map<string, number>();
+  const latestFinish = new Map<string, number>();
+  for (const id of [...order].reverse()) {
+    const finish = Math.min(totalHours, ...(dependents.get(id) ?? []).map((d) => latestStart.get(d)!));
+    latestFinish.set(id, finish);
+    latestStart.set(id, finish - byId.get(id)!.durationHours);
+  }
+
+  const round = (hours: number) => Math.round(hours * 100) / 100;
+  const scheduled: ScheduledNode[] = order.map((id) => {
+    const slack = round(latestStart.get(id)! - earliestStart.get(id)!);
+    return {
+      id,
+      durationHours: byId.get(id)!.durationHours,
+      earliestStart: round(earliestStart.get(id)!),
+      earliestFinish: round(earliestFinish.get(id)!),
+      latestStart: round(latestStart.get(id)!),
+      latestFinish: round(latestFinish.get(id)!),
+      slack,
+      critical: slack === 0 && byId.get(id)!.durationHours > 0
+    };
+  });
+
+  // Walk back from the ticket that finishes last through zero-slack dependencies
+  const criticalPath: string[] = [];
+  const scheduledById = new Map(scheduled.map((n) => [n.id, n]));
+  let current = scheduled
+    .filter((n) => n.critical && n.earliestFinish === round(totalHours))
+    .sort((a, b) => b.durationHours - a.durationHours)[0];
+  while (current) {
+    criticalPath.unshift(current.id);
+    const start = current.earliestStart;
+    current = byId
+      .get(current.id)!
+      .dependencyIds.map((d) => scheduledById.get(d))
+      .filter((n): n is ScheduledNode => !!n && n.critical && n.earliestFinish === start)[0];
+  }
+
+  return { order, criticalPath, totalHours: round(totalHours), nodes: scheduled };
+}
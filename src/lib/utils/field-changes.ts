@@ -0,0 +1,74 @@
+/**
+ * Ticket Field Change Descriptions
+ *
+ * Human-readable summaries of recorded ticket field edits, shared by the
+ * ticket timeline (server) and the board history view (UI).
+ */
+
+import type { TicketFieldChange, TrackedTicketField } from '$lib/types/time-travel';
+
+/**
+ * Display names of the tracked fields
+ */
+export const FIELD_LABELS: Record<TrackedTicketField, string> = {
+  title: 'title',
+  description: 'description',
+  priority: 'priority',
+  labels: 'labels',
+  complexity: 'complexity',
+  position: 'position',
+  assignedToId: 'assignee',
+  dependencyIds: 'dependencies',
+  parentId: 'epic'
+};
+
+/**
+ * Values of an array field (labels, dependencies); anything else is empty
+ */
+function asList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String) : [];
+}
+
+/**
+ * Describe what was added to and removed from a list field
+ */
+function describeListChange(oldValue: unknown, newValue: unknown): string {
+  const before = asList(oldValue);
+  const after = asList(newValue);
+  const added = after.filter((v) => !before.includes(v));
+  const removed = before.filter((v) => !after.includes(v));
+
+  return [...added.map((v) => `+${v}`), ...removed.map((v) => `-${v}`)].join(', ') || 'reordered';
+}
+
+/**
+ * Describe a field edit, e.g. 'changed priority from MEDIUM to HIGH'
+ */
+export function describeFieldChange(
+  change: Pick<TicketFieldChange, 'field' | 'oldValue' | 'newValue'>
+): string {
+  const { field, oldValue, newValue } = change;
+
+  switch (field) {
+    case 'title':
+      return `renamed the ticket to "${newValue}"`;
+    case 'description':
+      return newValue ? 'edited the description' : 'removed the description';
+    case 'labels':
+      return `changed labels (${describeListChange(oldValue, newValue)})`;
+    case 'dependencyIds': {
+      const added = asList(newValue).filter((v) => !asList(oldValue).includes(v)).length;
+      const removed = asList(oldValue).filter((v) => !asList(newValue).includes(v)).length;
+      const parts = [added && `added ${added}`, removed && `removed ${removed}`].filter(Boolean);
+      return `changed dependencies (${parts.join(', ') || 'reordered'})`;
+    }
+    case 'assignedToId':
+      if (!newValue) return 'unassigned the ticket';
+      return oldValue ? 'reassigned the ticket' : 'assigned the ticket';
+    case 'parentId':
+      if (!newValue) return 'removed the ticket from its epic';
+      return oldValue ? 'moved the ticket to another epic' : 'added the ticket to an epic';
+    default:
+      return `changed ${FIELD_LABELS[field] ?? field} from ${oldValue ?? 'none'} to ${newValue ?? 'none'}`;
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Comment Markdown Rendering
+ *
+ * Renders the small Markdown subset used in ticket comments to HTML:
+ * fenced code blocks, inline code, bold, italics, http(s) links,
+ * @mentions and line breaks. All input is HTML-escaped first, so the
+ * output is safe to insert with {@html}.
+ */
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+/**
+ * Escape text for use in HTML
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * Render inline Markdown of text that contains no code
+ */
+function renderInline(text: string): string {
+  return text
+    .replace(/\*\*([^*\n]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*\w])\*([^*\n]+)\*(?!\w)/g, '$1<em>$2</em>')
+    .replace(
+      /\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/g,
+      '<a href="$2" target="_blank" rel="noopener noreferrer" class="text-blue-600 hover:underline">$1</a>'
+    )
+    .replace(
+      /(^|[^\w@.&#;/])@([a-z0-9][\w.-]*[a-z0-9_]|[a-z0-9])/gi,
+      '$1<span class="font-medium text-blue-600">@$2</span>'
+    )
+    .replace(/\n/g, '<br>');
+}
+
+/**
+ * Render a comment body to HTML
+ */
+export function renderCommentMarkdown(markdown: string): string {
+  const escaped = escapeHtml(markdown);
+
+  // Code is rendered verbatim: split it out before inline formatting
+  return escaped
+    .split(/(```[\s\S]*?```|`[^`\n]+`)/g)
+    .map((part) => {
+      if (part.startsWith('```') && part.endsWith('```') && part.length >= 6) {
+        const code = part.slice(3, -3).replace(/^[\w-]*\n/, '');
+        return `<pre class="bg-gray-100 rounded p-2 text-xs overflow-x-auto my-1"><code>${code}</code></pre>`;
+      }
+      if (part.startsWith('`') && part.endsWith('`') && part.length >= 2) {
+        return `<code class="bg-gray-100 px-1 rounded text-xs">${part.slice(1, -1)}</code>`;
+      }
+      return renderInline(part);
+    })
+    .join('');
+}
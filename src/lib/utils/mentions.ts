@@ -0,0 +1,45 @@
+/**
+ * Comment Mentions
+ *
+ * Parsing of @mentions in ticket comments, shared by the server (mention
+ * resolution and notifications) and the UI (highlighting):
+ * - @alice mentions the user whose email starts with "alice@"
+ * - @coder mentions an agent by its type
+ *
+ * Mentions inside inline code or fenced code blocks are ignored.
+ */
+
+/**
+ * Pattern of a mention: "@" at a word boundary followed by a handle.
+ * Handles may contain letters, digits, ".", "_" and "-".
+ */
+const MENTION_PATTERN = /(^|[^\w@.])@([a-z0-9][\w.-]*)/gi;
+
+/**
+ * Remove fenced code blocks and inline code spans
+ */
+function stripCode(markdown: string): string {
+  return markdown.replace(/```[\s\S]*?```/g, ' ').replace(/`[^`\n]*`/g, ' ');
+}
+
+/**
+ * Extract the unique, lower-cased handles mentioned in a comment
+ */
+export function extractMentionHandles(body: string): string[] {
+  const handles = new Set<string>();
+
+  for (const match of stripCode(body).matchAll(MENTION_PATTERN)) {
+    // "@alice." at the end of a sentence mentions "alice"
+    const handle = match[2].replace(/[.-]+$/, '').toLowerCase();
+    if (handle) handles.add(handle);
+  }
+
+  return [...handles];
+}
+
+/**
+ * Get the handle a user is mentioned by (the local part of their email)
+ */
+export function getUserMentionHandle(user: { email: string }): string {
+  return user.email.split('@')[0].toLowerCase();
+}
@@ -0,0 +1,69 @@
+/**
+ * Project Event Board Changes
+ *
+ * Works out what a sequenced project event (live or replayed after a
+ * reconnect) changes on the board, so boards apply events one by one
+ * instead of reloading. Events come from the server's event publisher
+ * (`created`, `updated`, `deleted`, `moved`) and from socket relays
+ * (`ticket:created`, `ticket:updated`, ...); anything else, such as
+ * progress or agent notifications, does not change the board.
+ */
+
+import type { Ticket, TicketStatus } from '$lib/types';
+import type { ProjectEventPayload } from '$lib/types/socket-events';
+
+/** A change to apply to the board's tickets */
+export type BoardChange =
+  | { kind: 'upsert'; ticket: Ticket }
+  | { kind: 'patch'; ticketId: string; changes: Partial<Ticket> }
+  | { kind: 'move'; ticketId: string; status: TicketStatus; position: number; version?: number }
+  | { kind: 'remove'; ticketId: string };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Board change carried by a project event
+ * @returns The change, or null when the event does not change the board
+ */
+export function getBoardChange(payload: ProjectEventPayload): BoardChange | null {
+  const event = payload.event;
+  const ticketId = typeof event.ticketId === 'string' ? event.ticketId : null;
+
+  switch (event.type) {
+    case 'created':
+    case 'ticket:created':
+      return isRecord(event.ticket) && typeof event.ticket.id === 'string'
+        ? { kind: 'upsert', ticket: event.ticket as unknown as Ticket }
+        : null;
+
+    case 'updated':
+    case 'ticket:updated': {
+      const changes = isRecord(event.changes) ? event.changes : isRecord(event.updates) ? event.updates : null;
+      return ticketId && changes ? { kind: 'patch', ticketId, changes: changes as Partial<Ticket> } : null;
+    }
+
+    case 'moved':
+    case 'ticket:moved': {
+      const status = event.toStatus ?? event.newStatus;
+      if (!ticketId || typeof status !== 'string' || typeof event.newPosition !== 'number') {
+        return null;
+      }
+      return {
+        kind: 'move',
+        ticketId,
+        status: status as TicketStatus,
+        position: event.newPosition,
+        version: typeof event.version === 'number' ? event.version : undefined
+      };
+    }
+
+    case 'deleted':
+    case 'ticket:deleted':
+      return ticketId ? { kind: 'remove', ticketId } : null;
+
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Sprint Burn Charts
+ *
+ * Replays the tickets of a sprint day by day: scope changes come from when
+ * tickets were added or removed, progress from when they reached DONE.
+ * Burndown plots remaining hours against the ideal line, burnup plots
+ * completed hours against scope.
+ */
+
+import type { SprintBurnPoint, SprintTicketEntry } from '$lib/types/sprints';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toTime(value: Date | string): number {
+  return new Date(value).getTime();
+}
+
+function startOfDay(time: number): number {
+  const date = new Date(time);
+  date.setUTCHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+function round(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+/**
+ * Whether a ticket counts towards the sprint at a point in time. Committed
+ * tickets count from the start, even when planned after the start date.
+ */
+function inScope(entry: SprintTicketEntry, time: number, sprintStart: number): boolean {
+  const addedAt = entry.committed ? Math.min(toTime(entry.addedAt), sprintStart) : toTime(entry.addedAt);
+  return addedAt <= time && (entry.removedAt === null || toTime(entry.removedAt) > time);
+}
+
+/**
+ * Whether a ticket counted as done for the sprint at a point in time
+ * (a ticket done after it left the sprint does not count)
+ */
+function isDone(entry: SprintTicketEntry, time: number, sprintStart: number): boolean {
+  return (
+    entry.doneAt !== null &&
+    toTime(entry.doneAt) <= time &&
+    inScope(entry, toTime(entry.doneAt), sprintStart)
+  );
+}
+
+/**
+ * Build the daily burn chart of a sprint
+ * @param sprint - Sprint dates
+ * @param entries - Every ticket that was ever in the sprint
+ * @param now - Days after now have no remaining hours yet
+ * @returns One point per day from the start to the end date
+ */
+export function buildBurnChart(
+  sprint: { startDate: Date | string; endDate: Date | string },
+  entries: SprintTicketEntry[],
+  now: Date = new Date()
+): SprintBurnPoint[] {
+  const start = startOfDay(toTime(sprint.startDate));
+  const end = startOfDay(toTime(sprint.endDate));
+  const days = Math.max(Math.round((end - start) / DAY_MS), 0);
+
+  // The ideal line burns the committed scope
+  const committedHours = entries
+    .filter((entry) => entry.committed)
+    .reduce((sum, entry) => sum + entry.estimateHours, 0);
+
+  const points: SprintBurnPoint[] = [];
+  for (let day = 0; day <= days; day++) {
+    const dayStart = start + day * DAY_MS;
+    const endOfDay = dayStart + DAY_MS - 1;
+
+    const scopeHours = entries
+      .filter((entry) => inScope(entry, endOfDay, start))
+      .reduce((sum, entry) => sum + entry.estimateHours, 0);
+    const completedHours = entries
+      .filter((entry) => isDone(entry, endOfDay, start))
+      .reduce((sum, entry) => sum + entry.estimateHours, 0);
+
+    points.push({
+      date: new Date(dayStart).toISOString(),
+      scopeHours: round(scopeHours),
+      completedHours: round(completedHours),
+      remainingHours: dayStart <= now.getTime() ? round(Math.max(scopeHours - completedHours, 0)) : null,
+      idealHours: round(days > 0 ? committedHours * (1 - day / days) : 0)
+    });
+  }
+
+  return points;
+}
+
+/**
+ * Average of the completed hours of recent sprints
+ * @returns null when there are none
+ */
+export function calculateVelocity(completedHours: number[]): number | null {
+  if (completedHours.length === 0) return null;
+  return round(completedHours.reduce((sum, hours) => sum + hours, 0) / completedHours.length);
+}
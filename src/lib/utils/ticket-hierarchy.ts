@@ -0,0 +1,80 @@
+/**
+ * Ticket Hierarchy
+ *
+ * Rolls the progress of an epic up from its sub-tasks. Shared by the
+ * board (status only) and the server (which adds execution progress).
+ */
+
+import type { Ticket, TicketStatus } from '$lib/types';
+import type { TicketRollup } from '$lib/types/hierarchy';
+
+/** Statuses of sub-tasks being worked on */
+const ACTIVE_STATUSES: TicketStatus[] = ['IN_PROGRESS', 'NEEDS_FEEDBACK', 'READY_TO_RESUME', 'REVIEW'];
+
+/**
+ * Aggregate the progress of an epic's sub-tasks
+ * @param children - Sub-tasks of the epic
+ * @param getProgress - Execution progress (0-100) of a sub-task not yet
+ *                      done, if known; unknown progress counts as 0
+ */
+export function calculateRollup(
+  children: Pick<Ticket, 'id' | 'status'>[],
+  getProgress: (ticketId: string) => number | undefined = () => undefined
+): TicketRollup {
+  const byStatus: Partial<Record<TicketStatus, number>> = {};
+  let done = 0;
+  let inProgress = 0;
+  let cancelled = 0;
+  let progressSum = 0;
+
+  for (const child of children) {
+    byStatus[child.status] = (byStatus[child.status] ?? 0) + 1;
+
+    if (child.status === 'CANCELLED') {
+      cancelled++;
+      continue;
+    }
+    if (child.status === 'DONE') {
+      done++;
+      progressSum += 100;
+      continue;
+    }
+    if (ACTIVE_STATUSES.includes(child.status)) {
+      inProgress++;
+    }
+    progressSum += Math.min(Math.max(getProgress(child.id) ?? 0, 0), 100);
+  }
+
+  const total = children.length - cancelled;
+
+  return {
+    total,
+    done,
+    inProgress,
+    cancelled,
+    percentComplete: total > 0 ? Math.round(progressSum / total) : 0,
+    byStatus
+  };
+}
+
+/**
+ * Whether every sub-task that counts is done (and there is at least one)
+ */
+export function isRollupComplete(rollup: TicketRollup): boolean {
+  return rollup.total > 0 && rollup.done === rollup.total;
+}
+
+/**
+ * Epics among a list of tickets: the tickets that have sub-tasks
+ * @returns Title of each epic by id (the id when the epic is not in the list)
+ */
+export function getEpics(tickets: Pick<Ticket, 'id' | 'title' | 'parentId'>[]): Map<string, string> {
+  const titles = new Map(tickets.map((ticket) => [ticket.id, ticket.title]));
+  const epics = new Map<string, string>();
+  for (const ticket of tickets) {
+    if (ticket.parentId && !epics.has(ticket.parentId)) {
+      epics.set(ticket.parentId, titles.get(ticket.parentId) ?? ticket.parentId);
+    }
+  }
+  return epics;
+}
@@ -0,0 +1,127 @@
+/**
+ * Ticket Edit Merging
+ *
+ * Three-way merge of ticket edits after a stale write was rejected
+ * (409 VERSION_CONFLICT): compares the ticket the user started editing
+ * (base), the user's draft (mine) and the ticket as saved by someone else
+ * (theirs). Fields only one side changed merge cleanly; fields both sides
+ * changed differently are conflicts the user has to resolve.
+ */
+
+import type { Ticket } from '$lib/types';
+
+/**
+ * Ticket fields edited in the detail view
+ */
+export const EDITABLE_TICKET_FIELDS = ['title', 'description', 'priority', 'labels'] as const;
+
+export type EditableTicketField = (typeof EDITABLE_TICKET_FIELDS)[number];
+
+/**
+ * Values of the editable fields
+ */
+export type TicketEdits = Partial<Pick<Ticket, EditableTicketField>>;
+
+/**
+ * A field both sides changed to different values
+ */
+export interface MergeConflict {
+  field: EditableTicketField;
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+}
+
+/**
+ * Outcome of merging a draft into a newer ticket
+ */
+export interface MergeResult {
+  /** My changes that apply cleanly on top of theirs */
+  merged: TicketEdits;
+  /** Fields that need a choice between mine and theirs */
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Compare two field values (labels are compared by content)
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Find the fields of an edit that someone else changed in the meantime,
+ * to other values. Only fields present in both `base` and `mine` are
+ * checked. Used by the server to reject replayed offline edits.
+ *
+ * @param base - Values the edit was made against
+ * @param mine - Values being written
+ * @param theirs - Current values
+ */
+export function findEditConflicts(
+  base: Record<string, unknown>,
+  mine: Record<string, unknown>,
+  theirs: Record<string, unknown>
+): Array<{ field: string; base: unknown; mine: unknown; theirs: unknown }> {
+  return Object.keys(mine)
+    .filter(
+      (field) =>
+        field in base &&
+        !isSameValue(theirs[field], base[field]) &&
+        !isSameValue(theirs[field], mine[field])
+    )
+    .map((field) => ({
+      field,
+      base: base[field] ?? null,
+      mine: mine[field] ?? null,
+      theirs: theirs[field] ?? null
+    }));
+}
+
+/**
+ * Merge my edits into the ticket someone else saved in the meantime
+ *
+ * @param base - The ticket when I started editing
+ * @param mine - My draft
+ * @param theirs - The ticket as it is now
+ */
+export function mergeTicketEdits(base: TicketEdits, mine: TicketEdits, theirs: TicketEdits): MergeResult {
+  const merged: TicketEdits = {};
+  const conflicts: MergeConflict[] = [];
+
+  for (const field of EDITABLE_TICKET_FIELDS) {
+    if (!(field in mine) || isSameValue(mine[field], base[field])) {
+      continue;
+    }
+
+    if (isSameValue(theirs[field], base[field])) {
+      (merged as Record<string, unknown>)[field] = mine[field];
+    } else if (!isSameValue(theirs[field], mine[field])) {
+      conflicts.push({ field, base: base[field], mine: mine[field], theirs: theirs[field] });
+    }
+  }
+
+  return { merged, conflicts };
+}
+
+/**
+ * Apply the user's choices for each conflict on top of the clean merge
+ *
+ * @param result - Output of mergeTicketEdits
+ * @param keepMine - Conflicting fields where my value wins (theirs otherwise)
+ */
+export function resolveMergeConflicts(
+  result: MergeResult,
+  keepMine: Iterable<EditableTicketField>
+): TicketEdits {
+  const resolved: Record<string, unknown> = { ...result.merged };
+  const mineFields = new Set(keepMine);
+
+  for (const conflict of result.conflicts) {
+    if (mineFields.has(conflict.field)) {
+      resolved[conflict.field] = conflict.mine;
+    }
+  }
+
+  return resolved as TicketEdits;
+}
@@ -6,24 +6,54 @@
 
 import type { PageServerLoad } from './$types';
 import { settingsService } from '$lib/server/admin/settings-service';
+import { prisma } from '$lib/server/prisma';
+import { getLlmUsage, type LlmUsage } from '$lib/server/resources/usage';
 import type {
   DefaultProjectSettings,
-  ClaudeFlowSettings
+  ClaudeFlowSettings,
+  LLMSettings
 } from '$lib/types/admin';
 
+/**
+ * Project row of the language model tab
+ */
+export interface LLMProjectRow {
+  id: string;
+  name: string;
+  /** Token usage and cost; null when Redis is unavailable */
+  usage: LlmUsage | null;
+}
+
 export interface SettingsPageData {
   projectSettings: DefaultProjectSettings;
   claudeFlowSettings: ClaudeFlowSettings;
+  llmSettings: LLMSettings;
+  llmProjects: LLMProjectRow[];
 }
 
 export const load: PageServerLoad = async (): Promise<SettingsPageData> => {
-  const [projectSettings, claudeFlowSettings] = await Promise.all([
+  const [projectSettings, claudeFlowSettings, llmSettings, projects] = await Promise.all([
     settingsService.getDefaultProjectSettings(),
-    settingsService.getClaudeFlowSettings()
+    settingsService.getClaudeFlowSettings(),
+    settingsService.getLLMSettings(),
+    prisma.project.findMany({
+      where: { isArchived: false },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' }
+    })
   ]);
 
+  const llmProjects = await Promise.all(
+    projects.map(async (project: { id: string; name: string }) => ({
+      ...project,
+      usage: await getLlmUsage(project.id).catch(() => null)
+    }))
+  );
+
   return {
     projectSettings,
-    claudeFlowSettings
+    claudeFlowSettings,
+    llmSettings,
+    llmProjects
   };
 };
@@ -1,13 +1,22 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { prisma } from '$lib/server/prisma';
+import { requireAuth } from '$lib/server/auth/route-guards';
+import { Role } from '$lib/server/auth/permissions';
 
 /**
  * GET /api/projects
- * List all projects ordered by updatedAt (most recent first)
+ * List the caller's projects ordered by updatedAt (most recent first)
  */
-export const GET: RequestHandler = async () => {
+export const GET: RequestHandler = async (event) => {
+	const session = await requireAuth(event);
+
 	const projects = await prisma.project.findMany({
+		where: {
+			members: { some: { userId: session.user.id } },
+			// Service account tokens only see their own project
+			...(session.token?.projectId && { id: session.token.projectId })
+		},
 		orderBy: { updatedAt: 'desc' },
 		include: {
 			_count: {
@@ -20,10 +29,17 @@ export const GET: RequestHandler = async () => {
 
 /**
  * POST /api/projects
- * Create a new project with name and optional description
+ * Create a new project with name and optional description; the caller
+ * becomes its owner
  */
-export const POST: RequestHandler = async ({ request }) => {
+export const POST: RequestHandler = async (event) => {
+	const { request } = event;
 	try {
+		const session = await requireAuth(event);
+		if (session.token?.serviceAccountId) {
+			return json({ error: 'Service accounts cannot create projects' }, { status: 403 });
+		}
+
 		const body = await request.json();
 		const { name, description } = body;
 
@@ -38,12 +54,18 @@ export const POST: RequestHandler = async ({ request }) => {
 		const project = await prisma.project.create({
 			data: {
 				name: name.trim(),
-				description: description?.trim() || null
+				description: description?.trim() || null,
+				members: {
+					create: { userId: session.user.id, role: Role.OWNER }
+				}
 			}
 		});
 
 		return json(project, { status: 201 });
 	} catch (error) {
+		if (error && typeof error === 'object' && 'status' in error) {
+			throw error;
+		}
 		console.error('Error creating project:', error);
 		return json({ error: 'Failed to create project' }, { status: 500 });
 	}
@@ -0,0 +1,33 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { timeTravelService } from '$lib/server/time-travel';
+
+/**
+ * GET /api/projects/:id/board-snapshot?asOf=2026-03-01T17:00:00Z
+ * Get the board of a project as it was at a point in time
+ *
+ * Returns the tickets that existed then, with the fields, status and
+ * position they had, plus the field edits made in the day up to asOf.
+ * Defaults to now when asOf is omitted.
+ */
+export const GET: RequestHandler = async ({ params, url }) => {
+	try {
+		const asOfParam = url.searchParams.get('asOf');
+		const asOf = asOfParam ? new Date(asOfParam) : new Date();
+
+		if (Number.isNaN(asOf.getTime())) {
+			return json({ error: 'asOf must be an ISO date' }, { status: 400 });
+		}
+
+		const snapshot = await timeTravelService.getBoardSnapshot(params.id, asOf);
+
+		if (!snapshot) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+
+		return json(snapshot);
+	} catch (err) {
+		console.error('Error building board snapshot:', err);
+		return json({ error: 'Failed to build board snapshot' }, { status: 500 });
+	}
+};
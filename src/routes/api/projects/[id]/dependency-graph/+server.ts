@@ -0,0 +1,40 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { prisma } from '$lib/server/prisma';
+import { buildProjectDependencyGraph } from '$lib/server/analysis/dependency-graph';
+import { DependencyCycleError } from '$lib/utils/dependency-graph';
+
+/**
+ * GET /api/projects/:id/dependency-graph
+ * Get the ticket dependency graph of a project
+ *
+ * Returns tickets in topological order with estimated hours, earliest and
+ * latest start/finish, slack, and the critical path. Responds with 409 if
+ * stored dependencies contain a cycle.
+ */
+export const GET: RequestHandler = async ({ params }) => {
+	try {
+		const project = await prisma.project.findUnique({
+			where: { id: params.id },
+			select: { id: true }
+		});
+
+		if (!project) {
+			throw error(404, 'Project not found');
+		}
+
+		return json(await buildProjectDependencyGraph(params.id));
+	} catch (err) {
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		if (err instanceof DependencyCycleError) {
+			return json(
+				{ error: 'Dependency cycle detected', message: err.message, cycle: err.cycle },
+				{ status: 409 }
+			);
+		}
+		console.error('Error building dependency graph:', err);
+		return json({ error: 'Failed to build dependency graph' }, { status: 500 });
+	}
+};
@@ -7,7 +7,7 @@ import {
 	DEFAULT_PROJECT_RESOURCE_LIMITS,
 	validateResourceLimits
 } from '$lib/types/resources';
-import { getActiveAgentCount, getApiCallCount } from '$lib/server/resources/usage';
+import { getActiveAgentCount, getApiCallCount, getLlmUsage, type LlmUsage } from '$lib/server/resources/usage';
 
 /**
  * GAP-3.1.2: Resource Allocation API
@@ -39,10 +39,12 @@ export const GET: RequestHandler = async ({ params }) => {
 	// Get current usage
 	let currentAgents = 0;
 	let currentApiCalls = 0;
+	let llmUsage: LlmUsage | null = null;
 
 	try {
 		currentAgents = await getActiveAgentCount(params.id);
 		currentApiCalls = await getApiCallCount(params.id);
+		llmUsage = await getLlmUsage(params.id);
 	} catch {
 		// Redis might not be available in development
 		currentAgents = 0;
@@ -82,7 +84,8 @@ export const GET: RequestHandler = async ({ params }) => {
 		limits,
 		usage,
 		percentages,
-		status
+		status,
+		llmUsage
 	});
 };
 
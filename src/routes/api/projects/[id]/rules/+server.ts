@@ -0,0 +1,124 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { prisma } from '$lib/server/prisma';
+import { getProjectWorkflow } from '$lib/state-machine/workflow';
+import { getProjectRules, validateProjectRules, type ProjectRules } from '$lib/state-machine/rules';
+
+/**
+ * Project Rules API
+ *
+ * Endpoints for reading and configuring a project's transition guards
+ * and automation rules, stored in Project.settings.rules.
+ */
+
+/**
+ * GET /api/projects/:id/rules
+ * Get the rules for a project
+ */
+export const GET: RequestHandler = async ({ params }) => {
+	const project = await prisma.project.findUnique({
+		where: { id: params.id },
+		select: { id: true, settings: true }
+	});
+
+	if (!project) {
+		throw error(404, 'Project not found');
+	}
+
+	return json({ rules: getProjectRules(project.settings) });
+};
+
+/**
+ * PUT /api/projects/:id/rules
+ * Replace the rules for a project
+ */
+export const PUT: RequestHandler = async ({ params, request }) => {
+	try {
+		const body = await request.json();
+		const { rules } = body as { rules: ProjectRules };
+
+		if (!rules) {
+			return json({ error: 'Rules object is required' }, { status: 400 });
+		}
+
+		const existingProject = await prisma.project.findUnique({
+			where: { id: params.id },
+			select: { id: true, settings: true }
+		});
+
+		if (!existingProject) {
+			throw error(404, 'Project not found');
+		}
+
+		// Rules reference workflow states, so validate against the project's workflow
+		const validation = validateProjectRules(rules, getProjectWorkflow(existingProject.settings));
+		if (!validation.valid) {
+			return json(
+				{
+					error: 'Invalid rules',
+					details: validation.errors
+				},
+				{ status: 400 }
+			);
+		}
+
+		const currentSettings = (existingProject.settings as Record<string, unknown>) || {};
+		const newSettings = {
+			...currentSettings,
+			rules
+		};
+
+		// Update project settings - use JSON.parse/stringify to satisfy Prisma's JSON type
+		await prisma.project.update({
+			where: { id: params.id },
+			data: { settings: JSON.parse(JSON.stringify(newSettings)) }
+		});
+
+		return json({
+			success: true,
+			rules
+		});
+	} catch (err) {
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error updating rules:', err);
+		return json({ error: 'Failed to update rules' }, { status: 500 });
+	}
+};
+
+/**
+ * DELETE /api/projects/:id/rules
+ * Remove all rules for a project
+ */
+export const DELETE: RequestHandler = async ({ params }) => {
+	try {
+		const existingProject = await prisma.project.findUnique({
+			where: { id: params.id },
+			select: { id: true, settings: true }
+		});
+
+		if (!existingProject) {
+			throw error(404, 'Project not found');
+		}
+
+		const currentSettings = (existingProject.settings as Record<string, unknown>) || {};
+		const { rules, ...restSettings } = currentSettings;
+
+		await prisma.project.update({
+			where: { id: params.id },
+			data: { settings: JSON.parse(JSON.stringify(restSettings)) }
+		});
+
+		return json({
+			success: true,
+			rules: getProjectRules(null)
+		});
+	} catch (err) {
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error resetting rules:', err);
+		return json({ error: 'Failed to reset rules' }, { status: 500 });
+	}
+};
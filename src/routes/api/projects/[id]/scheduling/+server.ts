@@ -0,0 +1,94 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { prisma } from '$lib/server/prisma';
+import {
+	getProjectSchedulingSettings,
+	type ProjectSchedulingSettings
+} from '$lib/types/scheduling';
+import { findUnblockedTickets } from '$lib/server/workflow/dependency-scheduler';
+
+/**
+ * Project Scheduling API
+ *
+ * Endpoints for dependency-aware scheduling settings,
+ * stored in Project.settings.scheduling.
+ */
+
+/**
+ * GET /api/projects/:id/scheduling
+ * Get scheduling settings and the tickets currently ready to auto-start
+ */
+export const GET: RequestHandler = async ({ params }) => {
+	const project = await prisma.project.findUnique({
+		where: { id: params.id },
+		select: { id: true, settings: true }
+	});
+
+	if (!project) {
+		throw error(404, 'Project not found');
+	}
+
+	return json({
+		scheduling: getProjectSchedulingSettings(project.settings),
+		unblocked: await findUnblockedTickets(params.id)
+	});
+};
+
+/**
+ * PUT /api/projects/:id/scheduling
+ * Update scheduling settings for a project
+ */
+export const PUT: RequestHandler = async ({ params, request }) => {
+	try {
+		const body = await request.json();
+		const { scheduling } = body as { scheduling: Partial<ProjectSchedulingSettings> };
+
+		if (!scheduling || typeof scheduling !== 'object') {
+			return json({ error: 'Scheduling object is required' }, { status: 400 });
+		}
+
+		if (scheduling.autoStartUnblocked !== undefined && typeof scheduling.autoStartUnblocked !== 'boolean') {
+			return json({ error: 'autoStartUnblocked must be a boolean' }, { status: 400 });
+		}
+
+		if (scheduling.autoReviewParents !== undefined && typeof scheduling.autoReviewParents !== 'boolean') {
+			return json({ error: 'autoReviewParents must be a boolean' }, { status: 400 });
+		}
+
+		const existingProject = await prisma.project.findUnique({
+			where: { id: params.id },
+			select: { id: true, settings: true }
+		});
+
+		if (!existingProject) {
+			throw error(404, 'Project not found');
+		}
+
+		const currentSettings = (existingProject.settings as Record<string, unknown>) || {};
+		const updated: ProjectSchedulingSettings = {
+			...getProjectSchedulingSettings(currentSettings),
+			...scheduling
+		};
+		const newSettings = {
+			...currentSettings,
+			scheduling: updated
+		};
+
+		// Update project settings - use JSON.parse/stringify to satisfy Prisma's JSON type
+		await prisma.project.update({
+			where: { id: params.id },
+			data: { settings: JSON.parse(JSON.stringify(newSettings)) }
+		});
+
+		return json({
+			success: true,
+			scheduling: updated
+		});
+	} catch (err) {
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error updating scheduling settings:', err);
+		return json({ error: 'Failed to update scheduling settings' }, { status: 500 });
+	}
+};
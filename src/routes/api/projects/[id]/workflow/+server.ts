@@ -0,0 +1,166 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { prisma } from '$lib/server/prisma';
+import {
+	DEFAULT_WORKFLOW,
+	getProjectWorkflow,
+	validateWorkflow,
+	type WorkflowDefinition
+} from '$lib/state-machine/workflow';
+
+/**
+ * Project Workflow API
+ *
+ * Endpoints for reading and configuring a project's workflow
+ * (board columns and allowed transitions), stored in Project.settings.workflow.
+ */
+
+/**
+ * GET /api/projects/:id/workflow
+ * Get the effective workflow for a project
+ */
+export const GET: RequestHandler = async ({ params }) => {
+	const project = await prisma.project.findUnique({
+		where: { id: params.id },
+		select: { id: true, settings: true }
+	});
+
+	if (!project) {
+		throw error(404, 'Project not found');
+	}
+
+	const settings = (project.settings as Record<string, unknown>) || {};
+
+	return json({
+		workflow: getProjectWorkflow(settings),
+		isCustom: settings.workflow !== undefined
+	});
+};
+
+/**
+ * PUT /api/projects/:id/workflow
+ * Replace the workflow for a project
+ */
+export const PUT: RequestHandler = async ({ params, request }) => {
+	try {
+		const body = await request.json();
+		const { workflow } = body as { workflow: WorkflowDefinition };
+
+		if (!workflow) {
+			return json({ error: 'Workflow object is required' }, { status: 400 });
+		}
+
+		const validation = validateWorkflow(workflow);
+		if (!validation.valid) {
+			return json(
+				{
+					error: 'Invalid workflow',
+					details: validation.errors
+				},
+				{ status: 400 }
+			);
+		}
+
+		const existingProject = await prisma.project.findUnique({
+			where: { id: params.id },
+			select: { id: true, settings: true }
+		});
+
+		if (!existingProject) {
+			throw error(404, 'Project not found');
+		}
+
+		// Tickets must not be stranded in a custom column that no longer exists
+		const keys = workflow.states.map((state) => state.key);
+		const stranded = await prisma.ticket.count({
+			where: {
+				projectId: params.id,
+				workflowState: { not: null, notIn: keys }
+			}
+		});
+
+		if (stranded > 0) {
+			return json(
+				{
+					error: 'Invalid workflow',
+					details: [`${stranded} ticket(s) are in columns removed by this workflow; move them first`]
+				},
+				{ status: 409 }
+			);
+		}
+
+		const currentSettings = (existingProject.settings as Record<string, unknown>) || {};
+		const newSettings = {
+			...currentSettings,
+			workflow
+		};
+
+		// Update project settings - use JSON.parse/stringify to satisfy Prisma's JSON type
+		await prisma.project.update({
+			where: { id: params.id },
+			data: { settings: JSON.parse(JSON.stringify(newSettings)) }
+		});
+
+		return json({
+			success: true,
+			workflow,
+			warnings: validation.warnings
+		});
+	} catch (err) {
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error updating workflow:', err);
+		return json({ error: 'Failed to update workflow' }, { status: 500 });
+	}
+};
+
+/**
+ * DELETE /api/projects/:id/workflow
+ * Reset the workflow to the default
+ */
+export const DELETE: RequestHandler = async ({ params }) => {
+	try {
+		const existingProject = await prisma.project.findUnique({
+			where: { id: params.id },
+			select: { id: true, settings: true }
+		});
+
+		if (!existingProject) {
+			throw error(404, 'Project not found');
+		}
+
+		const stranded = await prisma.ticket.count({
+			where: { projectId: params.id, workflowState: { not: null } }
+		});
+
+		if (stranded > 0) {
+			return json(
+				{
+					error: 'Cannot reset workflow',
+					details: [`${stranded} ticket(s) are in custom columns; move them first`]
+				},
+				{ status: 409 }
+			);
+		}
+
+		const currentSettings = (existingProject.settings as Record<string, unknown>) || {};
+		const { workflow, ...restSettings } = currentSettings;
+
+		await prisma.project.update({
+			where: { id: params.id },
+			data: { settings: JSON.parse(JSON.stringify(restSettings)) }
+		});
+
+		return json({
+			success: true,
+			workflow: DEFAULT_WORKFLOW
+		});
+	} catch (err) {
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error resetting workflow:', err);
+		return json({ error: 'Failed to reset workflow' }, { status: 500 });
+	}
+};
@@ -0,0 +1,35 @@
+/**
+ * GET /api/projects/:projectId/analytics?days=90
+ *
+ * Flow analytics of the project over the last days: cumulative flow,
+ * cycle and lead times, time in each column and agent vs. human comparison.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requireProjectMember } from '$lib/server/auth/route-guards';
+import { flowAnalyticsService } from '$lib/server/analytics';
+import { DEFAULT_ANALYTICS_DAYS, MAX_ANALYTICS_DAYS } from '$lib/types/flow-analytics';
+
+export const GET: RequestHandler = async (event) => {
+	const { params, url } = event;
+
+	try {
+		await requireProjectMember(event, params.projectId);
+
+		const days = Number(url.searchParams.get('days') ?? DEFAULT_ANALYTICS_DAYS);
+		if (!Number.isInteger(days) || days < 1 || days > MAX_ANALYTICS_DAYS) {
+			return json({ error: `days must be a whole number from 1 to ${MAX_ANALYTICS_DAYS}` }, { status: 400 });
+		}
+
+		const analytics = await flowAnalyticsService.getFlowAnalytics(params.projectId, days);
+
+		return json({ analytics });
+	} catch (err) {
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error computing flow analytics:', err);
+		return json({ error: 'Failed to compute flow analytics' }, { status: 500 });
+	}
+};
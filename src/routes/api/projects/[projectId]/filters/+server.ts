@@ -0,0 +1,67 @@
+/**
+ * Saved Filters API
+ *
+ * GET  /api/projects/:projectId/filters - The user's filters and the shared ones
+ * POST /api/projects/:projectId/filters - Save a ticket query
+ *
+ * Body (POST): { name: string, query: string, shared?: boolean }
+ *
+ * Apply a filter with GET /api/projects/:projectId/tickets?filter=:filterId.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requireProjectMember } from '$lib/server/auth/route-guards';
+import {
+	savedFilterService,
+	TicketQueryError,
+	validateSavedFilterInput
+} from '$lib/server/filters';
+
+export const GET: RequestHandler = async (event) => {
+	const { params } = event;
+
+	try {
+		const { session } = await requireProjectMember(event, params.projectId);
+
+		const filters = await savedFilterService.listFilters(params.projectId, session.user.id);
+		return json({ filters });
+	} catch (err) {
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error fetching saved filters:', err);
+		return json({ error: 'Failed to fetch saved filters' }, { status: 500 });
+	}
+};
+
+export const POST: RequestHandler = async (event) => {
+	const { params, request } = event;
+
+	try {
+		const { session } = await requireProjectMember(event, params.projectId);
+
+		const body = await request.json();
+		const validationError = validateSavedFilterInput(body);
+		if (validationError) {
+			return json({ error: validationError }, { status: 400 });
+		}
+
+		const filter = await savedFilterService.createFilter(params.projectId, session.user.id, {
+			name: body.name,
+			query: body.query,
+			shared: body.shared
+		});
+
+		return json({ filter }, { status: 201 });
+	} catch (err) {
+		if (err instanceof TicketQueryError) {
+			return json({ error: err.message, code: 'INVALID_QUERY' }, { status: 400 });
+		}
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error saving filter:', err);
+		return json({ error: 'Failed to save filter' }, { status: 500 });
+	}
+};
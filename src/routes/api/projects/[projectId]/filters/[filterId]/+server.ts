@@ -0,0 +1,82 @@
+/**
+ * Saved Filter API
+ *
+ * PUT    /api/projects/:projectId/filters/:filterId - Rename, change or (un)share
+ *        a filter (creator only)
+ * DELETE /api/projects/:projectId/filters/:filterId - Delete a filter (creator only)
+ *
+ * Body (PUT): { name?: string, query?: string, shared?: boolean }
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requireProjectMember } from '$lib/server/auth/route-guards';
+import { AuthorizationError } from '$lib/server/auth/permissions';
+import {
+	savedFilterService,
+	SavedFilterNotFoundError,
+	TicketQueryError,
+	validateSavedFilterInput
+} from '$lib/server/filters';
+
+export const PUT: RequestHandler = async (event) => {
+	const { params, request } = event;
+
+	try {
+		const { session } = await requireProjectMember(event, params.projectId);
+
+		const body = await request.json();
+		const validationError = validateSavedFilterInput(body, true);
+		if (validationError) {
+			return json({ error: validationError }, { status: 400 });
+		}
+
+		const filter = await savedFilterService.updateFilter(
+			params.projectId,
+			params.filterId,
+			session.user.id,
+			{ name: body.name, query: body.query, shared: body.shared }
+		);
+
+		return json({ filter });
+	} catch (err) {
+		if (err instanceof TicketQueryError) {
+			return json({ error: err.message, code: 'INVALID_QUERY' }, { status: 400 });
+		}
+		if (err instanceof SavedFilterNotFoundError) {
+			return json({ error: 'Saved filter not found' }, { status: 404 });
+		}
+		if (err instanceof AuthorizationError) {
+			return json({ error: err.message }, { status: 403 });
+		}
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error updating saved filter:', err);
+		return json({ error: 'Failed to update saved filter' }, { status: 500 });
+	}
+};
+
+export const DELETE: RequestHandler = async (event) => {
+	const { params } = event;
+
+	try {
+		const { session } = await requireProjectMember(event, params.projectId);
+
+		await savedFilterService.deleteFilter(params.projectId, params.filterId, session.user.id);
+
+		return json({ success: true });
+	} catch (err) {
+		if (err instanceof SavedFilterNotFoundError) {
+			return json({ error: 'Saved filter not found' }, { status: 404 });
+		}
+		if (err instanceof AuthorizationError) {
+			return json({ error: err.message }, { status: 403 });
+		}
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error deleting saved filter:', err);
+		return json({ error: 'Failed to delete saved filter' }, { status: 500 });
+	}
+};
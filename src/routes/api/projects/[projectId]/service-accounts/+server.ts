@@ -0,0 +1,61 @@
+/**
+ * Project Service Accounts
+ *
+ * GET  /api/projects/:projectId/service-accounts - List accounts with their tokens
+ * POST /api/projects/:projectId/service-accounts - Create an account
+ *   Body: { name, description?, role: 'ADMIN' | 'MEMBER' | 'VIEWER' }
+ *
+ * Managing service accounts requires the project settings permission.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requireProjectSettingsPermission, rejectApiToken } from '$lib/server/auth/route-guards';
+import { apiTokenService, validateServiceAccountInput } from '$lib/server/auth/api-tokens';
+
+export const GET: RequestHandler = async (event) => {
+	const { params } = event;
+
+	try {
+		await requireProjectSettingsPermission(event, params.projectId);
+
+		const serviceAccounts = await apiTokenService.listServiceAccounts(params.projectId);
+
+		return json({ serviceAccounts });
+	} catch (err) {
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error listing service accounts:', err);
+		return json({ error: 'Failed to list service accounts' }, { status: 500 });
+	}
+};
+
+export const POST: RequestHandler = async (event) => {
+	const { params } = event;
+
+	try {
+		const { session } = await requireProjectSettingsPermission(event, params.projectId);
+		rejectApiToken(session, 'API tokens cannot manage service accounts');
+
+		const body = await event.request.json();
+		const validationError = validateServiceAccountInput(body);
+		if (validationError) {
+			return json({ error: validationError }, { status: 400 });
+		}
+
+		const serviceAccount = await apiTokenService.createServiceAccount(params.projectId, session.user.id, {
+			name: body.name,
+			description: body.description ?? null,
+			role: body.role
+		});
+
+		return json({ serviceAccount }, { status: 201 });
+	} catch (err) {
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error creating service account:', err);
+		return json({ error: 'Failed to create service account' }, { status: 500 });
+	}
+};
@@ -0,0 +1,32 @@
+/**
+ * DELETE /api/projects/:projectId/service-accounts/:accountId
+ *
+ * Delete a service account with its project membership and tokens.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requireProjectSettingsPermission, rejectApiToken } from '$lib/server/auth/route-guards';
+import { apiTokenService, ServiceAccountNotFoundError } from '$lib/server/auth/api-tokens';
+
+export const DELETE: RequestHandler = async (event) => {
+	const { params } = event;
+
+	try {
+		const { session } = await requireProjectSettingsPermission(event, params.projectId);
+		rejectApiToken(session, 'API tokens cannot manage service accounts');
+
+		await apiTokenService.deleteServiceAccount(params.projectId, params.accountId);
+
+		return new Response(null, { status: 204 });
+	} catch (err) {
+		if (err instanceof ServiceAccountNotFoundError) {
+			return json({ error: 'Service account not found' }, { status: 404 });
+		}
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error deleting service account:', err);
+		return json({ error: 'Failed to delete service account' }, { status: 500 });
+	}
+};
@@ -0,0 +1,48 @@
+/**
+ * POST /api/projects/:projectId/service-accounts/:accountId/tokens
+ *
+ * Create a token for a service account.
+ * Body: { name, scopes: Permission[], expiresInDays?: number | null }
+ * Returns the token once, as `secret`.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requireProjectSettingsPermission, rejectApiToken } from '$lib/server/auth/route-guards';
+import {
+	apiTokenService,
+	ServiceAccountNotFoundError,
+	validateApiTokenInput
+} from '$lib/server/auth/api-tokens';
+
+export const POST: RequestHandler = async (event) => {
+	const { params } = event;
+
+	try {
+		const { session } = await requireProjectSettingsPermission(event, params.projectId);
+		rejectApiToken(session, 'API tokens cannot manage tokens');
+
+		const body = await event.request.json();
+		const validationError = validateApiTokenInput(body);
+		if (validationError) {
+			return json({ error: validationError }, { status: 400 });
+		}
+
+		const created = await apiTokenService.createServiceAccountToken(params.projectId, params.accountId, {
+			name: body.name,
+			scopes: body.scopes,
+			expiresInDays: body.expiresInDays ?? null
+		});
+
+		return json(created, { status: 201 });
+	} catch (err) {
+		if (err instanceof ServiceAccountNotFoundError) {
+			return json({ error: 'Service account not found' }, { status: 404 });
+		}
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error creating service account token:', err);
+		return json({ error: 'Failed to create token' }, { status: 500 });
+	}
+};
@@ -0,0 +1,43 @@
+/**
+ * DELETE /api/projects/:projectId/service-accounts/:accountId/tokens/:tokenId
+ *
+ * Revoke a token of a service account.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requireProjectSettingsPermission, rejectApiToken } from '$lib/server/auth/route-guards';
+import {
+	apiTokenService,
+	ApiTokenNotFoundError,
+	ServiceAccountNotFoundError
+} from '$lib/server/auth/api-tokens';
+
+export const DELETE: RequestHandler = async (event) => {
+	const { params } = event;
+
+	try {
+		const { session } = await requireProjectSettingsPermission(event, params.projectId);
+		rejectApiToken(session, 'API tokens cannot manage tokens');
+
+		const token = await apiTokenService.revokeServiceAccountToken(
+			params.projectId,
+			params.accountId,
+			params.tokenId
+		);
+
+		return json({ token });
+	} catch (err) {
+		if (err instanceof ServiceAccountNotFoundError) {
+			return json({ error: 'Service account not found' }, { status: 404 });
+		}
+		if (err instanceof ApiTokenNotFoundError) {
+			return json({ error: 'API token not found' }, { status: 404 });
+		}
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error revoking service account token:', err);
+		return json({ error: 'Failed to revoke token' }, { status: 500 });
+	}
+};
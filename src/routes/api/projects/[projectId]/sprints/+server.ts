@@ -0,0 +1,66 @@
+/**
+ * Sprints API
+ *
+ * GET  /api/projects/:projectId/sprints - Sprints, latest first, with velocity
+ * POST /api/projects/:projectId/sprints - Plan a sprint
+ *
+ * Body (POST): { name: string, goal?: string, startDate: string,
+ *                endDate: string, capacityHours?: number | null }
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requireProjectMember } from '$lib/server/auth/route-guards';
+import { Role } from '$lib/server/auth/permissions';
+import { sprintService, validateSprintInput } from '$lib/server/sprints';
+
+export const GET: RequestHandler = async (event) => {
+	const { params } = event;
+
+	try {
+		await requireProjectMember(event, params.projectId);
+
+		const [sprints, velocity] = await Promise.all([
+			sprintService.listSprints(params.projectId),
+			sprintService.getVelocity(params.projectId)
+		]);
+
+		return json({ sprints, velocity });
+	} catch (err) {
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error fetching sprints:', err);
+		return json({ error: 'Failed to fetch sprints' }, { status: 500 });
+	}
+};
+
+export const POST: RequestHandler = async (event) => {
+	const { params, request } = event;
+
+	try {
+		await requireProjectMember(event, params.projectId, Role.MEMBER);
+
+		const body = await request.json();
+		const validationError = validateSprintInput(body);
+		if (validationError) {
+			return json({ error: validationError }, { status: 400 });
+		}
+
+		const sprint = await sprintService.createSprint(params.projectId, {
+			name: body.name,
+			goal: body.goal,
+			startDate: body.startDate,
+			endDate: body.endDate,
+			capacityHours: body.capacityHours
+		});
+
+		return json({ sprint }, { status: 201 });
+	} catch (err) {
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error creating sprint:', err);
+		return json({ error: 'Failed to create sprint' }, { status: 500 });
+	}
+};
@@ -0,0 +1,108 @@
+/**
+ * Sprint API
+ *
+ * GET    /api/projects/:projectId/sprints/:sprintId - Sprint with its tickets and
+ *        daily burn chart (burndown and burnup)
+ * PUT    /api/projects/:projectId/sprints/:sprintId - Change name, goal, dates or
+ *        capacity (not once completed)
+ * DELETE /api/projects/:projectId/sprints/:sprintId - Delete a planned sprint
+ *
+ * Body (PUT): { name?: string, goal?: string | null, startDate?: string,
+ *               endDate?: string, capacityHours?: number | null }
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requireProjectMember } from '$lib/server/auth/route-guards';
+import { Role } from '$lib/server/auth/permissions';
+import {
+	sprintService,
+	SprintNotFoundError,
+	SprintStateError,
+	validateSprintInput
+} from '$lib/server/sprints';
+
+export const GET: RequestHandler = async (event) => {
+	const { params } = event;
+
+	try {
+		await requireProjectMember(event, params.projectId);
+
+		const sprint = await sprintService.getSprint(params.projectId, params.sprintId);
+		const [tickets, burnChart] = await Promise.all([
+			sprintService.getSprintTickets(sprint.id),
+			sprintService.getBurnChart(params.projectId, sprint.id)
+		]);
+
+		return json({ sprint, tickets, burnChart });
+	} catch (err) {
+		if (err instanceof SprintNotFoundError) {
+			return json({ error: 'Sprint not found' }, { status: 404 });
+		}
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error fetching sprint:', err);
+		return json({ error: 'Failed to fetch sprint' }, { status: 500 });
+	}
+};
+
+export const PUT: RequestHandler = async (event) => {
+	const { params, request } = event;
+
+	try {
+		await requireProjectMember(event, params.projectId, Role.MEMBER);
+
+		const body = await request.json();
+		const validationError = validateSprintInput(body, true);
+		if (validationError) {
+			return json({ error: validationError }, { status: 400 });
+		}
+
+		const sprint = await sprintService.updateSprint(params.projectId, params.sprintId, {
+			name: body.name,
+			goal: body.goal,
+			startDate: body.startDate,
+			endDate: body.endDate,
+			capacityHours: body.capacityHours
+		});
+
+		return json({ sprint });
+	} catch (err) {
+		if (err instanceof SprintNotFoundError) {
+			return json({ error: 'Sprint not found' }, { status: 404 });
+		}
+		if (err instanceof SprintStateError) {
+			return json({ error: err.message }, { status: 409 });
+		}
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error updating sprint:', err);
+		return json({ error: 'Failed to update sprint' }, { status: 500 });
+	}
+};
+
+export const DELETE: RequestHandler = async (event) => {
+	const { params } = event;
+
+	try {
+		await requireProjectMember(event, params.projectId, Role.MEMBER);
+
+		await sprintService.deleteSprint(params.projectId, params.sprintId);
+
+		return new Response(null, { status: 204 });
+	} catch (err) {
+		if (err instanceof SprintNotFoundError) {
+			return json({ error: 'Sprint not found' }, { status: 404 });
+		}
+		if (err instanceof SprintStateError) {
+			return json({ error: err.message }, { status: 409 });
+		}
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error deleting sprint:', err);
+		return json({ error: 'Failed to delete sprint' }, { status: 500 });
+	}
+};
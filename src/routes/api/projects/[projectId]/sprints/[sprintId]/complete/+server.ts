@@ -0,0 +1,36 @@
+/**
+ * POST /api/projects/:projectId/sprints/:sprintId/complete
+ *
+ * Complete the active sprint. Unfinished tickets carry over to the next
+ * planned sprint, which is created when none is planned.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requireProjectMember } from '$lib/server/auth/route-guards';
+import { Role } from '$lib/server/auth/permissions';
+import { sprintService, SprintNotFoundError, SprintStateError } from '$lib/server/sprints';
+
+export const POST: RequestHandler = async (event) => {
+	const { params } = event;
+
+	try {
+		await requireProjectMember(event, params.projectId, Role.MEMBER);
+
+		const result = await sprintService.completeSprint(params.projectId, params.sprintId);
+
+		return json(result);
+	} catch (err) {
+		if (err instanceof SprintNotFoundError) {
+			return json({ error: 'Sprint not found' }, { status: 404 });
+		}
+		if (err instanceof SprintStateError) {
+			return json({ error: err.message }, { status: 409 });
+		}
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error completing sprint:', err);
+		return json({ error: 'Failed to complete sprint' }, { status: 500 });
+	}
+};
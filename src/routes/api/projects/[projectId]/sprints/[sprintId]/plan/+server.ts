@@ -0,0 +1,32 @@
+/**
+ * GET /api/projects/:projectId/sprints/:sprintId/plan
+ *
+ * Backlog tickets that fit the sprint's remaining capacity (its own, or the
+ * velocity of recent sprints), highest priority first.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requireProjectMember } from '$lib/server/auth/route-guards';
+import { sprintService, SprintNotFoundError } from '$lib/server/sprints';
+
+export const GET: RequestHandler = async (event) => {
+	const { params } = event;
+
+	try {
+		await requireProjectMember(event, params.projectId);
+
+		const plan = await sprintService.planSprint(params.projectId, params.sprintId);
+
+		return json({ plan });
+	} catch (err) {
+		if (err instanceof SprintNotFoundError) {
+			return json({ error: 'Sprint not found' }, { status: 404 });
+		}
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error planning sprint:', err);
+		return json({ error: 'Failed to plan sprint' }, { status: 500 });
+	}
+};
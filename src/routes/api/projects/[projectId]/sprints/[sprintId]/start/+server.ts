@@ -0,0 +1,36 @@
+/**
+ * POST /api/projects/:projectId/sprints/:sprintId/start
+ *
+ * Start a planned sprint, committing the tickets in it. Only one sprint of
+ * a project is active at a time.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requireProjectMember } from '$lib/server/auth/route-guards';
+import { Role } from '$lib/server/auth/permissions';
+import { sprintService, SprintNotFoundError, SprintStateError } from '$lib/server/sprints';
+
+export const POST: RequestHandler = async (event) => {
+	const { params } = event;
+
+	try {
+		await requireProjectMember(event, params.projectId, Role.MEMBER);
+
+		const sprint = await sprintService.startSprint(params.projectId, params.sprintId);
+
+		return json({ sprint });
+	} catch (err) {
+		if (err instanceof SprintNotFoundError) {
+			return json({ error: 'Sprint not found' }, { status: 404 });
+		}
+		if (err instanceof SprintStateError) {
+			return json({ error: err.message }, { status: 409 });
+		}
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error starting sprint:', err);
+		return json({ error: 'Failed to start sprint' }, { status: 500 });
+	}
+};
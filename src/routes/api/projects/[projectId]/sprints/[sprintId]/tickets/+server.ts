@@ -0,0 +1,43 @@
+/**
+ * Sprint Tickets API
+ *
+ * POST /api/projects/:projectId/sprints/:sprintId/tickets - Plan tickets into a
+ *      sprint (they leave any other open sprint)
+ *
+ * Body: { ticketIds: string[] }
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requireProjectMember } from '$lib/server/auth/route-guards';
+import { Role } from '$lib/server/auth/permissions';
+import { sprintService, SprintNotFoundError, SprintStateError } from '$lib/server/sprints';
+
+export const POST: RequestHandler = async (event) => {
+	const { params, request } = event;
+
+	try {
+		await requireProjectMember(event, params.projectId, Role.MEMBER);
+
+		const { ticketIds } = await request.json();
+		if (!Array.isArray(ticketIds) || ticketIds.length === 0 || !ticketIds.every((id) => typeof id === 'string')) {
+			return json({ error: 'ticketIds must be a non-empty array of ticket IDs' }, { status: 400 });
+		}
+
+		const added = await sprintService.addTickets(params.projectId, params.sprintId, ticketIds);
+
+		return json({ added }, { status: 201 });
+	} catch (err) {
+		if (err instanceof SprintNotFoundError) {
+			return json({ error: 'Sprint not found' }, { status: 404 });
+		}
+		if (err instanceof SprintStateError) {
+			return json({ error: err.message }, { status: 409 });
+		}
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error adding tickets to sprint:', err);
+		return json({ error: 'Failed to add tickets to sprint' }, { status: 500 });
+	}
+};
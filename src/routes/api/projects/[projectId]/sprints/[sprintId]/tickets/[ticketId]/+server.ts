@@ -0,0 +1,36 @@
+/**
+ * Sprint Ticket API
+ *
+ * DELETE /api/projects/:projectId/sprints/:sprintId/tickets/:ticketId - Take a
+ *        ticket out of a sprint (recorded as a scope change once it started)
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requireProjectMember } from '$lib/server/auth/route-guards';
+import { Role } from '$lib/server/auth/permissions';
+import { sprintService, SprintNotFoundError, SprintStateError } from '$lib/server/sprints';
+
+export const DELETE: RequestHandler = async (event) => {
+	const { params } = event;
+
+	try {
+		await requireProjectMember(event, params.projectId, Role.MEMBER);
+
+		await sprintService.removeTicket(params.projectId, params.sprintId, params.ticketId);
+
+		return new Response(null, { status: 204 });
+	} catch (err) {
+		if (err instanceof SprintNotFoundError) {
+			return json({ error: 'Sprint not found' }, { status: 404 });
+		}
+		if (err instanceof SprintStateError) {
+			return json({ error: err.message }, { status: 409 });
+		}
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error removing ticket from sprint:', err);
+		return json({ error: 'Failed to remove ticket from sprint' }, { status: 500 });
+	}
+};
@@ -2,13 +2,27 @@ import { json, error } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { prisma } from '$lib/server/prisma';
 import { publishTicketCreated } from '$lib/server/events';
+import { getOptionalSession } from '$lib/server/auth/route-guards';
+import {
+	buildTicketQuery,
+	savedFilterService,
+	SavedFilterNotFoundError,
+	TicketQueryError,
+	type CompiledTicketQuery
+} from '$lib/server/filters';
+import { getProjectWorkflow } from '$lib/state-machine/workflow';
 import type { Ticket } from '$lib/types';
 
 /**
  * GET /api/projects/:projectId/tickets
- * List all tickets for a project, ordered by position
+ * List the tickets of a project, ordered by position
+ *
+ * Query params:
+ * - q: Ticket query, e.g. `status:TODO priority>=HIGH label:auth assignee:me created:>7d "login"`
+ * - filter: ID of a saved filter to apply (combined with q)
  */
-export const GET: RequestHandler = async ({ params }) => {
+export const GET: RequestHandler = async (event) => {
+	const { params, url } = event;
 	const { projectId } = params;
 
 	// Check if project exists
@@ -20,12 +34,54 @@ export const GET: RequestHandler = async ({ params }) => {
 		throw error(404, 'Project not found');
 	}
 
+	const queries: string[] = [];
+	const q = url.searchParams.get('q')?.trim();
+	const filterId = url.searchParams.get('filter');
+	const session = q || filterId ? await getOptionalSession(event) : null;
+
+	if (filterId) {
+		try {
+			const filter = await savedFilterService.getFilter(projectId, filterId, session?.user.id ?? '');
+			queries.push(filter.query);
+		} catch (err) {
+			if (err instanceof SavedFilterNotFoundError) {
+				return json({ error: 'Saved filter not found' }, { status: 404 });
+			}
+			throw err;
+		}
+	}
+	if (q) {
+		queries.push(q);
+	}
+
+	if (queries.length === 0) {
+		const tickets = await prisma.ticket.findMany({
+			where: { projectId },
+			orderBy: { position: 'asc' }
+		});
+
+		return json(tickets);
+	}
+
+	let query: CompiledTicketQuery;
+	try {
+		query = buildTicketQuery(queries.join(' '), {
+			userId: session?.user.id,
+			workflow: getProjectWorkflow(project.settings)
+		});
+	} catch (err) {
+		if (err instanceof TicketQueryError) {
+			return json({ error: err.message, code: 'INVALID_QUERY' }, { status: 400 });
+		}
+		throw err;
+	}
+
 	const tickets = await prisma.ticket.findMany({
-		where: { projectId },
+		where: { projectId, ...query.where },
 		orderBy: { position: 'asc' }
 	});
 
-	return json(tickets);
+	return json(tickets.filter((ticket: { labels: unknown }) => query.matchesLabels(ticket.labels)));
 };
 
 /**
@@ -48,7 +104,7 @@ export const POST: RequestHandler = async ({ params, request }) => {
 		}
 
 		const body = await request.json();
-		const { title, description, priority, labels, dependencyIds } = body;
+		const { title, description, priority, labels, dependencyIds, parentId } = body;
 
 		// Validate required fields
 		if (!title || typeof title !== 'string' || title.trim().length === 0) {
@@ -67,6 +123,23 @@ export const POST: RequestHandler = async ({ params, request }) => {
 			);
 		}
 
+		// A new ticket can only be added under an epic of the same project
+		if (parentId !== undefined && parentId !== null) {
+			if (typeof parentId !== 'string') {
+				return json({ error: 'ParentId must be a string or null' }, { status: 400 });
+			}
+			const parent = await prisma.ticket.findUnique({
+				where: { id: parentId },
+				select: { projectId: true, parentId: true }
+			});
+			if (!parent || parent.projectId !== projectId) {
+				return json({ error: 'Epic not found in this project' }, { status: 400 });
+			}
+			if (parent.parentId) {
+				return json({ error: 'A sub-task cannot have sub-tasks of its own' }, { status: 400 });
+			}
+		}
+
 		// Get the next position for the ticket
 		const lastTicket = await prisma.ticket.findFirst({
 			where: { projectId },
@@ -75,6 +148,7 @@ export const POST: RequestHandler = async ({ params, request }) => {
 		const nextPosition = (lastTicket?.position ?? -1) + 1;
 
 		// GAP-3.2.4: Validate dependency IDs if provided
+		// (no cycle check needed: nothing can depend on a ticket that does not exist yet)
 		let validDependencyIds: string[] = [];
 		if (dependencyIds && Array.isArray(dependencyIds) && dependencyIds.length > 0) {
 			// Verify all dependency IDs are valid tickets in this project
@@ -101,7 +175,8 @@ export const POST: RequestHandler = async ({ params, request }) => {
 				labels: labels || [],
 				dependencyIds: validDependencyIds,
 				position: nextPosition,
-				projectId
+				projectId,
+				parentId: parentId ?? null
 			}
 		});
 
@@ -19,7 +19,7 @@ import type {
 /**
  * GET /api/projects/health
  *
- * Returns health status and statistics for all projects
+ * Returns health status and statistics for the project in ?projectId=
  */
 export const GET: RequestHandler = async ({ url }) => {
   try {
@@ -1,11 +1,27 @@
 import { json, error } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
+import type { Prisma } from '@prisma/client';
 import { prisma } from '$lib/server/prisma';
-import { publishTicketUpdated, publishTicketDeleted } from '$lib/server/events';
+import {
+	publishTicketUpdated,
+	publishTicketDeleted,
+	getTicketVersion
+} from '$lib/server/events';
+import { assertNoDependencyCycle } from '$lib/server/analysis/dependency-graph';
+import { DependencyCycleError } from '$lib/utils/dependency-graph';
+import { updateTicketFields } from '$lib/server/time-travel';
+import { getOptionalSession } from '$lib/server/auth/route-guards';
+import { isProjectMember } from '$lib/server/auth/user-service';
+import { findEditConflicts } from '$lib/utils/ticket-merge';
+import { ticketHierarchyService, TicketHierarchyError } from '$lib/server/hierarchy';
+
+/** Thrown inside the update transaction when the ticket was written since it was read */
+class StaleVersionError extends Error {}
 
 /**
  * GET /api/tickets/:id
- * Get a single ticket with its history
+ * Get a single ticket with its history and its current version (send it
+ * back with PUT to detect concurrent edits)
  */
 export const GET: RequestHandler = async ({ params }) => {
 	const ticket = await prisma.ticket.findUnique({
@@ -21,15 +37,28 @@ export const GET: RequestHandler = async ({ params }) => {
 		throw error(404, 'Ticket not found');
 	}
 
-	return json(ticket);
+	return json({ ...ticket, version: getTicketVersion(ticket) });
 };
 
 /**
  * PUT /api/tickets/:id
  * Update a ticket's fields (except status - use transition endpoint)
- * GAP-3.2.4: Supports updating ticket dependencies
+ * GAP-3.2.4: Supports updating ticket dependencies (cycles are rejected)
+ * `parentId` makes the ticket a sub-task of an epic (null detaches it)
+ *
+ * Every changed field is recorded in the ticket's field history.
+ *
+ * Optimistic concurrency: when the body carries the `version` the client
+ * edited (the ticket's `updatedAt` in milliseconds, as returned by GET and
+ * PUT), a write made against an older version is rejected with 409
+ * VERSION_CONFLICT and the current ticket, so the client can merge.
+ * Replayed offline edits send `baseValues` (the values they were made
+ * against) instead; fields someone else changed since are rejected with
+ * 409 EDIT_CONFLICT and the conflicting fields.
  */
-export const PUT: RequestHandler = async ({ params, request }) => {
+export const PUT: RequestHandler = async (event) => {
+	const { params, request } = event;
+
 	try {
 		// Check if ticket exists
 		const existingTicket = await prisma.ticket.findUnique({
@@ -41,7 +70,27 @@ export const PUT: RequestHandler = async ({ params, request }) => {
 		}
 
 		const body = await request.json();
-		const { title, description, priority, labels, complexity, position, dependencyIds } = body;
+		const {
+			title,
+			description,
+			priority,
+			labels,
+			complexity,
+			position,
+			dependencyIds,
+			assignedToId,
+			parentId,
+			version,
+			baseValues
+		} = body;
+
+		if (version !== undefined && typeof version !== 'number') {
+			return json({ error: 'Version must be a number' }, { status: 400 });
+		}
+
+		if (baseValues !== undefined && (typeof baseValues !== 'object' || Array.isArray(baseValues))) {
+			return json({ error: 'BaseValues must be an object' }, { status: 400 });
+		}
 
 		// Build update data
 		const updateData: Record<string, unknown> = {};
@@ -98,6 +147,33 @@ export const PUT: RequestHandler = async ({ params, request }) => {
 			updateData.position = position;
 		}
 
+		if (assignedToId !== undefined) {
+			if (assignedToId !== null && typeof assignedToId !== 'string') {
+				return json({ error: 'AssignedToId must be a string or null' }, { status: 400 });
+			}
+			if (assignedToId && !(await isProjectMember(assignedToId, existingTicket.projectId))) {
+				return json({ error: 'Assignee must be a member of the project' }, { status: 400 });
+			}
+			updateData.assignedToId = assignedToId;
+		}
+
+		if (parentId !== undefined) {
+			if (parentId !== null && typeof parentId !== 'string') {
+				return json({ error: 'ParentId must be a string or null' }, { status: 400 });
+			}
+			if (parentId) {
+				try {
+					await ticketHierarchyService.validateParent(existingTicket, parentId);
+				} catch (hierarchyError) {
+					if (hierarchyError instanceof TicketHierarchyError) {
+						return json({ error: hierarchyError.message }, { status: 400 });
+					}
+					throw hierarchyError;
+				}
+			}
+			updateData.parentId = parentId;
+		}
+
 		// GAP-3.2.4: Handle dependency updates
 		if (dependencyIds !== undefined) {
 			if (!Array.isArray(dependencyIds)) {
@@ -117,16 +193,81 @@ export const PUT: RequestHandler = async ({ params, request }) => {
 				const validIds = validDependencies.map(t => t.id);
 
 				// Only include valid IDs (silently filter out invalid ones)
-				updateData.dependencyIds = dependencyIds.filter((id: string) => validIds.includes(id));
+				const newDependencyIds = dependencyIds.filter((id: string) => validIds.includes(id));
+
+				try {
+					await assertNoDependencyCycle(existingTicket.projectId, params.id, newDependencyIds);
+				} catch (cycleError) {
+					if (cycleError instanceof DependencyCycleError) {
+						return json(
+							{
+								error: 'Dependency cycle detected',
+								message: cycleError.message,
+								cycle: cycleError.cycle
+							},
+							{ status: 400 }
+						);
+					}
+					throw cycleError;
+				}
+
+				updateData.dependencyIds = newDependencyIds;
 			} else {
 				updateData.dependencyIds = [];
 			}
 		}
 
-		const ticket = await prisma.ticket.update({
-			where: { id: params.id },
-			data: updateData
-		});
+		const session = await getOptionalSession(event);
+
+		if (baseValues) {
+			const conflicts = findEditConflicts(baseValues, updateData, existingTicket);
+			if (conflicts.length > 0) {
+				return json(
+					{
+						error: 'Ticket fields were changed by someone else',
+						code: 'EDIT_CONFLICT',
+						conflicts,
+						ticket: existingTicket
+					},
+					{ status: 409 }
+				);
+			}
+		}
+
+		const currentVersion = getTicketVersion(existingTicket);
+		if (version !== undefined && version !== currentVersion) {
+			return versionConflict(params.id, existingTicket);
+		}
+
+		let ticket;
+		try {
+			ticket = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+				if (version !== undefined) {
+					// Claim the version read above: a write that landed in between
+					// has moved updatedAt on, so the claim matches no row
+					const claimed = await tx.ticket.updateMany({
+						where: { id: params.id, updatedAt: existingTicket.updatedAt },
+						data: { updatedAt: new Date() }
+					});
+					if (claimed.count === 0) {
+						throw new StaleVersionError();
+					}
+				}
+
+				return updateTicketFields(
+					existingTicket,
+					updateData,
+					{ userId: session?.user.id ?? null, triggeredBy: 'user' },
+					tx
+				);
+			});
+		} catch (updateError) {
+			if (updateError instanceof StaleVersionError) {
+				return versionConflict(params.id, existingTicket);
+			}
+			throw updateError;
+		}
+		const newVersion = getTicketVersion(ticket);
 
 		// TASK-035: Publish ticket updated event for real-time sync
 		await publishTicketUpdated(
@@ -139,10 +280,11 @@ export const PUT: RequestHandler = async ({ params, request }) => {
 				priority: existingTicket.priority,
 				labels: existingTicket.labels,
 				position: existingTicket.position
-			}
+			},
+			newVersion
 		);
 
-		return json(ticket);
+		return json({ ...ticket, version: newVersion });
 	} catch (err) {
 		if (err && typeof err === 'object' && 'status' in err) {
 			throw err;
@@ -152,6 +294,23 @@ export const PUT: RequestHandler = async ({ params, request }) => {
 	}
 };
 
+/**
+ * 409 VERSION_CONFLICT response with the latest ticket and its version
+ */
+async function versionConflict(ticketId: string, fallback: { updatedAt: Date }): Promise<Response> {
+	const latestTicket = (await prisma.ticket.findUnique({ where: { id: ticketId } })) ?? fallback;
+	const currentVersion = getTicketVersion(latestTicket);
+	return json(
+		{
+			error: 'Ticket was changed by someone else',
+			code: 'VERSION_CONFLICT',
+			currentVersion,
+			ticket: { ...latestTicket, version: currentVersion }
+		},
+		{ status: 409 }
+	);
+}
+
 /**
  * DELETE /api/tickets/:id
  * Delete a ticket and all its history (cascade)
@@ -11,6 +11,7 @@ import type { RequestHandler } from './$types';
 import { prisma } from '$lib/server/prisma';
 import { calculateComplexity, quickComplexityEstimate } from '$lib/server/analysis/complexity';
 import { ticketAnalyzer } from '$lib/server/analysis/ticket-analyzer';
+import { updateTicketFields } from '$lib/server/time-travel';
 
 /**
  * Request body for analyze endpoint
@@ -130,10 +131,7 @@ export const POST: RequestHandler = async ({ params, request }) => {
 
 		// Update ticket complexity if changed or forcing refresh
 		if (forceRefresh || ticket.complexity !== complexityResult.score) {
-			await prisma.ticket.update({
-				where: { id },
-				data: { complexity: complexityResult.score }
-			});
+			await updateTicketFields(ticket, { complexity: complexityResult.score }, { triggeredBy: 'system' });
 		}
 
 		return json(response);
@@ -0,0 +1,61 @@
+/**
+ * Ticket Change Set API
+ *
+ * GET  /api/tickets/:id/changes - Latest captured diff of the ticket branch
+ * POST /api/tickets/:id/changes - Capture the diff again (REVIEW tickets only)
+ *
+ * Change sets are captured automatically when the job completion tracker
+ * moves a ticket to REVIEW; POST refreshes it after manual fixes.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { prisma } from '$lib/server/prisma';
+import { captureTicketChangeSet, getLatestChangeSet } from '$lib/server/workflow/ticket-changes';
+
+export const GET: RequestHandler = async ({ params }) => {
+	try {
+		const ticket = await prisma.ticket.findUnique({
+			where: { id: params.id },
+			select: { id: true }
+		});
+
+		if (!ticket) {
+			return json({ error: 'Ticket not found' }, { status: 404 });
+		}
+
+		const changeSet = await getLatestChangeSet(ticket.id);
+		return json({ ticketId: ticket.id, changeSet });
+	} catch (err) {
+		console.error('Error fetching ticket changes:', err);
+		return json({ error: 'Failed to fetch ticket changes' }, { status: 500 });
+	}
+};
+
+export const POST: RequestHandler = async ({ params }) => {
+	try {
+		const ticket = await prisma.ticket.findUnique({
+			where: { id: params.id },
+			include: { project: { select: { workspacePath: true } } }
+		});
+
+		if (!ticket) {
+			return json({ error: 'Ticket not found' }, { status: 404 });
+		}
+
+		if (ticket.status !== 'REVIEW') {
+			return json({ error: 'Changes can only be captured for tickets in REVIEW' }, { status: 409 });
+		}
+
+		const changeSet = await captureTicketChangeSet(ticket);
+
+		if (!changeSet) {
+			return json({ error: 'Ticket has no git branch to compare' }, { status: 409 });
+		}
+
+		return json({ ticketId: ticket.id, changeSet }, { status: 201 });
+	} catch (err) {
+		console.error('Error capturing ticket changes:', err);
+		return json({ error: 'Failed to capture ticket changes' }, { status: 500 });
+	}
+};
@@ -0,0 +1,57 @@
+/**
+ * Agent Checkpoint API
+ *
+ * POST /api/tickets/:id/checkpoints - Save the execution's progress
+ *
+ * Called by the agents of the ticket with their `X-Agent-Credential`; a
+ * failed execution can be restored from the latest checkpoint.
+ *
+ * Body: { context?: object (agent state to restore with) }
+ */
+
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { progressTracker, checkpointManager } from '$lib/server/progress';
+import { requireTicketAgent } from '$lib/server/auth/agent-credentials';
+
+export const POST: RequestHandler = async (event) => {
+	const { params, request } = event;
+	const agent = requireTicketAgent(event, params.id);
+
+	try {
+		const body = await request.json().catch(() => ({}));
+		const context = body?.context ?? {};
+
+		if (typeof context !== 'object' || Array.isArray(context)) {
+			return json({ error: 'context must be an object' }, { status: 400 });
+		}
+
+		const progress = progressTracker.getProgress(params.id);
+		if (!progress) {
+			return json({ error: 'No progress reported for this ticket yet' }, { status: 409 });
+		}
+
+		const checkpoint = await checkpointManager.createCheckpoint(progress, 'manual', {
+			...context,
+			agentId: agent.agentId,
+			jobId: agent.jobId
+		});
+
+		return json(
+			{
+				checkpoint: {
+					id: checkpoint.id,
+					version: checkpoint.version,
+					createdAt: checkpoint.createdAt
+				}
+			},
+			{ status: 201 }
+		);
+	} catch (err) {
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error creating checkpoint:', err);
+		throw error(500, 'Failed to create checkpoint');
+	}
+};
@@ -0,0 +1,81 @@
+/**
+ * Ticket Comments API
+ *
+ * GET  /api/tickets/:id/comments - Comment threads, oldest first
+ * POST /api/tickets/:id/comments - Add a comment or reply
+ *
+ * Body (POST): { body: string (Markdown), parentId?: string }
+ *
+ * @user mentions notify project members; new comments are pushed to the
+ * project's socket room (`comment:created`).
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { prisma } from '$lib/server/prisma';
+import { requireProjectMember } from '$lib/server/auth/route-guards';
+import {
+	commentService,
+	CommentNotFoundError,
+	validateCommentBody
+} from '$lib/server/comments';
+
+export const GET: RequestHandler = async ({ params }) => {
+	try {
+		const ticket = await prisma.ticket.findUnique({
+			where: { id: params.id },
+			select: { id: true }
+		});
+
+		if (!ticket) {
+			return json({ error: 'Ticket not found' }, { status: 404 });
+		}
+
+		const threads = await commentService.listThreads(ticket.id);
+		return json({ ticketId: ticket.id, threads });
+	} catch (err) {
+		console.error('Error fetching comments:', err);
+		return json({ error: 'Failed to fetch comments' }, { status: 500 });
+	}
+};
+
+export const POST: RequestHandler = async (event) => {
+	const { params, request } = event;
+
+	try {
+		const ticket = await prisma.ticket.findUnique({
+			where: { id: params.id },
+			select: { id: true, title: true, projectId: true, assignedToId: true }
+		});
+
+		if (!ticket) {
+			return json({ error: 'Ticket not found' }, { status: 404 });
+		}
+
+		const { session } = await requireProjectMember(event, ticket.projectId);
+
+		const body = await request.json();
+		const validationError = validateCommentBody(body.body);
+		if (validationError) {
+			return json({ error: validationError }, { status: 400 });
+		}
+
+		const comment = await commentService.createComment(ticket, {
+			body: body.body,
+			parentId: body.parentId,
+			authorId: session.user.id,
+			authorName: session.user.name || session.user.email
+		});
+
+		return json({ comment }, { status: 201 });
+	} catch (err) {
+		if (err instanceof CommentNotFoundError) {
+			return json({ error: 'Parent comment not found' }, { status: 404 });
+		}
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error creating comment:', err);
+		return json({ error: 'Failed to create comment' }, { status: 500 });
+	}
+};
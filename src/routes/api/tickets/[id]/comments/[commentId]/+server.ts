@@ -0,0 +1,103 @@
+/**
+ * Ticket Comment API
+ *
+ * PATCH  /api/tickets/:id/comments/:commentId - Edit a comment (author only)
+ * DELETE /api/tickets/:id/comments/:commentId - Delete a comment (author, or
+ *        members allowed to delete tickets)
+ *
+ * Body (PATCH): { body: string (Markdown) }
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { prisma } from '$lib/server/prisma';
+import { requireProjectMember } from '$lib/server/auth/route-guards';
+import { AuthorizationError, hasPermission, Permission } from '$lib/server/auth/permissions';
+import {
+	commentService,
+	CommentNotFoundError,
+	validateCommentBody
+} from '$lib/server/comments';
+
+export const PATCH: RequestHandler = async (event) => {
+	const { params, request } = event;
+
+	try {
+		const ticket = await prisma.ticket.findUnique({
+			where: { id: params.id },
+			select: { id: true, title: true, projectId: true, assignedToId: true }
+		});
+
+		if (!ticket) {
+			return json({ error: 'Ticket not found' }, { status: 404 });
+		}
+
+		const { session } = await requireProjectMember(event, ticket.projectId);
+
+		const body = await request.json();
+		const validationError = validateCommentBody(body.body);
+		if (validationError) {
+			return json({ error: validationError }, { status: 400 });
+		}
+
+		const comment = await commentService.updateComment(
+			ticket,
+			params.commentId,
+			session.user.id,
+			body.body,
+			session.user.name || session.user.email
+		);
+
+		return json({ comment });
+	} catch (err) {
+		if (err instanceof CommentNotFoundError) {
+			return json({ error: 'Comment not found' }, { status: 404 });
+		}
+		if (err instanceof AuthorizationError) {
+			return json({ error: err.message }, { status: 403 });
+		}
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error updating comment:', err);
+		return json({ error: 'Failed to update comment' }, { status: 500 });
+	}
+};
+
+export const DELETE: RequestHandler = async (event) => {
+	const { params } = event;
+
+	try {
+		const ticket = await prisma.ticket.findUnique({
+			where: { id: params.id },
+			select: { id: true, title: true, projectId: true, assignedToId: true }
+		});
+
+		if (!ticket) {
+			return json({ error: 'Ticket not found' }, { status: 404 });
+		}
+
+		const { session, role } = await requireProjectMember(event, ticket.projectId);
+
+		const comment = await commentService.deleteComment(
+			ticket,
+			params.commentId,
+			session.user.id,
+			hasPermission(role, Permission.TICKET_DELETE)
+		);
+
+		return json({ comment });
+	} catch (err) {
+		if (err instanceof CommentNotFoundError) {
+			return json({ error: 'Comment not found' }, { status: 404 });
+		}
+		if (err instanceof AuthorizationError) {
+			return json({ error: err.message }, { status: 403 });
+		}
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error deleting comment:', err);
+		return json({ error: 'Failed to delete comment' }, { status: 500 });
+	}
+};
@@ -0,0 +1,59 @@
+/**
+ * Comment Reactions API
+ *
+ * POST /api/tickets/:id/comments/:commentId/reactions
+ *
+ * Body: { emoji: string }
+ *
+ * Toggles the caller's reaction: adds it, or removes it if already present.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { prisma } from '$lib/server/prisma';
+import { requireProjectMember } from '$lib/server/auth/route-guards';
+import { commentService, CommentNotFoundError } from '$lib/server/comments';
+import { COMMENT_REACTIONS } from '$lib/types/comments';
+
+export const POST: RequestHandler = async (event) => {
+	const { params, request } = event;
+
+	try {
+		const ticket = await prisma.ticket.findUnique({
+			where: { id: params.id },
+			select: { id: true, title: true, projectId: true, assignedToId: true }
+		});
+
+		if (!ticket) {
+			return json({ error: 'Ticket not found' }, { status: 404 });
+		}
+
+		const { session } = await requireProjectMember(event, ticket.projectId);
+
+		const { emoji } = await request.json();
+		if (!(COMMENT_REACTIONS as readonly string[]).includes(emoji)) {
+			return json(
+				{ error: 'emoji must be one of: ' + COMMENT_REACTIONS.join(' ') },
+				{ status: 400 }
+			);
+		}
+
+		const comment = await commentService.toggleReaction(
+			ticket,
+			params.commentId,
+			session.user.id,
+			emoji
+		);
+
+		return json({ comment });
+	} catch (err) {
+		if (err instanceof CommentNotFoundError) {
+			return json({ error: 'Comment not found' }, { status: 404 });
+		}
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error reacting to comment:', err);
+		return json({ error: 'Failed to react to comment' }, { status: 500 });
+	}
+};
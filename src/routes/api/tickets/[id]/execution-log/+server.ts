@@ -0,0 +1,30 @@
+/**
+ * Ticket Execution Log API
+ *
+ * GET /api/tickets/:id/execution-log?limit=N
+ *
+ * Returns the persisted CLI output of the ticket's jobs, oldest first.
+ * Clients load this once and then follow live lines from the ticket's
+ * socket room (`job:progress`).
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { executionLog, MAX_LOG_LINES_PER_TICKET } from '$lib/server/claude-flow/output-log';
+
+export const GET: RequestHandler = async ({ params, url }) => {
+	const limitParam = url.searchParams.get('limit');
+	const limit = limitParam ? parseInt(limitParam, 10) : MAX_LOG_LINES_PER_TICKET;
+
+	if (isNaN(limit) || limit < 1) {
+		return json({ error: 'limit must be a positive integer' }, { status: 400 });
+	}
+
+	try {
+		const lines = await executionLog.getTicketLog(params.id, limit);
+		return json({ ticketId: params.id, lines });
+	} catch (err) {
+		console.error('Error fetching execution log:', err);
+		return json({ error: 'Failed to fetch execution log' }, { status: 500 });
+	}
+};
@@ -7,7 +7,9 @@
  * - POST /api/tickets/:id/feedback - Request feedback from user (agent API)
  * - GET /api/tickets/:id/feedback - Get feedback status for a ticket
  *
- * This is the entry point for agents to request user input.
+ * This is the entry point for agents to request user input. Only the
+ * agents working on the ticket can ask, with their `X-Agent-Credential`
+ * (see agent-credentials.ts); the question records which agent asked.
  */
 
 import { json, error } from '@sveltejs/kit';
@@ -19,15 +21,17 @@ import {
   type Question,
   type QuestionType
 } from '$lib/server/workflow/feedback-handler';
+import { requireTicketAgent } from '$lib/server/auth/agent-credentials';
 
 /**
  * POST /api/tickets/:id/feedback
  *
  * Request feedback from the user. This is called by agents when they need input.
  *
+ * Headers: X-Agent-Credential (the credential the agent's job was started with)
+ *
  * Body:
  * {
- *   agentId: string (required)
  *   questions: Array<{
  *     text: string (required)
  *     type?: 'TEXT' | 'CHOICE' | 'MULTISELECT' | 'CONFIRM' | 'CODE'
@@ -41,17 +45,15 @@ import {
  *   blocking?: boolean (default: true - whether to pause execution)
  * }
  */
-export const POST: RequestHandler = async ({ params, request }) => {
+export const POST: RequestHandler = async (event) => {
+  const { params, request } = event;
   const { id } = params;
+  const agent = requireTicketAgent(event, id);
 
   try {
     const body = await request.json();
 
     // Validate required fields
-    if (!body.agentId) {
-      throw error(400, 'agentId is required');
-    }
-
     if (!Array.isArray(body.questions) || body.questions.length === 0) {
       throw error(400, 'At least one question is required');
     }
@@ -101,7 +103,7 @@ export const POST: RequestHandler = async ({ params, request }) => {
     // Request feedback using the handler
     const result = await requestFeedback({
       ticketId: id,
-      agentId: body.agentId,
+      agentId: agent.agentId,
       questions,
       context: body.context || '',
       blocking: body.blocking ?? true
@@ -0,0 +1,83 @@
+/**
+ * Agent Progress API
+ *
+ * POST /api/tickets/:id/progress - Report stage progress of the execution
+ *
+ * Called by the agents of the ticket with their `X-Agent-Credential`.
+ *
+ * Body: {
+ *   stage?: string (one of the execution stages, e.g. "Executing")
+ *   status?: 'started' | 'completed' | 'failed' | 'skipped' (with stage)
+ *   output?: string (completed), error?: string (failed), reason?: string (skipped)
+ *   message?: string (log line), level?: 'info' | 'warn' | 'error' | 'debug'
+ * }
+ */
+
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { progressTracker, DEFAULT_STAGES, type ProgressLogEntry } from '$lib/server/progress';
+import { requireTicketAgent } from '$lib/server/auth/agent-credentials';
+
+const STAGE_STATUSES = ['started', 'completed', 'failed', 'skipped'] as const;
+const LOG_LEVELS: ProgressLogEntry['level'][] = ['info', 'warn', 'error', 'debug'];
+
+export const POST: RequestHandler = async (event) => {
+	const { params, request } = event;
+	const agent = requireTicketAgent(event, params.id);
+
+	try {
+		const body = await request.json();
+		const { stage, status, output, error: stageError, reason, message, level = 'info' } = body;
+
+		if (stage === undefined && message === undefined) {
+			return json({ error: 'stage or message is required' }, { status: 400 });
+		}
+		if (stage !== undefined) {
+			const current = progressTracker.getProgress(params.id);
+			const stages = (current?.stages ?? DEFAULT_STAGES).map((s) => s.name);
+			if (typeof stage !== 'string' || !stages.includes(stage)) {
+				return json({ error: `stage must be one of: ${stages.join(', ')}` }, { status: 400 });
+			}
+			if (!STAGE_STATUSES.includes(status)) {
+				return json({ error: `status must be one of: ${STAGE_STATUSES.join(', ')}` }, { status: 400 });
+			}
+		}
+		if (message !== undefined && (typeof message !== 'string' || !message.trim())) {
+			return json({ error: 'message must be a non-empty string' }, { status: 400 });
+		}
+		if (!LOG_LEVELS.includes(level)) {
+			return json({ error: `level must be one of: ${LOG_LEVELS.join(', ')}` }, { status: 400 });
+		}
+
+		if (!progressTracker.getProgress(params.id)) {
+			progressTracker.initialize(params.id, agent.projectId);
+		}
+
+		if (stage !== undefined) {
+			if (status === 'started') {
+				await progressTracker.startStage(params.id, stage);
+			} else if (status === 'completed') {
+				await progressTracker.completeStage(params.id, stage, output);
+			} else if (status === 'failed') {
+				await progressTracker.failStage(params.id, stage, stageError || 'Stage failed');
+			} else {
+				await progressTracker.skipStage(params.id, stage, reason);
+			}
+		}
+
+		if (message !== undefined) {
+			await progressTracker.addLog(params.id, message.trim(), level, {
+				agentId: agent.agentId,
+				jobId: agent.jobId
+			});
+		}
+
+		return json({ progress: progressTracker.getSanitizedProgress(params.id) });
+	} catch (err) {
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error reporting progress:', err);
+		throw error(500, 'Failed to report progress');
+	}
+};
@@ -0,0 +1,166 @@
+/**
+ * Ticket Review API
+ *
+ * POST /api/tickets/:id/review
+ *
+ * Body: { decision: 'approve' | 'request-changes', comments?: string }
+ *
+ * Records the reviewer's decision on the ticket's latest change set and
+ * moves the ticket out of REVIEW:
+ * - approve → DONE; uncommitted work in the ticket's worktree is committed
+ *   to the ticket branch before the worktree is removed
+ * - request-changes → IN_PROGRESS; execution restarts on the ticket branch
+ *   with the comments as context (comments are required)
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { prisma } from '$lib/server/prisma';
+import { ticketStateMachine } from '$lib/state-machine/ticket-state-machine';
+import {
+	TransitionBlockedError,
+	TransitionNotPermittedError,
+	WipLimitExceededError
+} from '$lib/state-machine/types';
+import { publishTicketMoved } from '$lib/server/events';
+import { handleTicketTransition } from '$lib/server/workflow/ticket-workflow';
+import { commitTicketWorkspace } from '$lib/server/workflow/ticket-workspace';
+import {
+	getLatestChangeSet,
+	recordChangeSetReview,
+	type ReviewDecision
+} from '$lib/server/workflow/ticket-changes';
+import { getOptionalProjectRole } from '$lib/server/auth/route-guards';
+
+const DECISIONS: ReviewDecision[] = ['approve', 'request-changes'];
+
+export const POST: RequestHandler = async (event) => {
+	const { params, request } = event;
+
+	try {
+		const body = await request.json();
+		const decision = body.decision as ReviewDecision;
+		const comments = typeof body.comments === 'string' ? body.comments.trim() : '';
+
+		if (!DECISIONS.includes(decision)) {
+			return json({ error: 'decision must be one of: ' + DECISIONS.join(', ') }, { status: 400 });
+		}
+
+		if (decision === 'request-changes' && !comments) {
+			return json({ error: 'comments are required when requesting changes' }, { status: 400 });
+		}
+
+		const ticket = await prisma.ticket.findUnique({
+			where: { id: params.id },
+			select: {
+				id: true,
+				projectId: true,
+				status: true,
+				title: true,
+				worktreePath: true,
+				project: { select: { workspacePath: true } }
+			}
+		});
+
+		if (!ticket) {
+			return json({ error: 'Ticket not found' }, { status: 404 });
+		}
+
+		if (ticket.status !== 'REVIEW') {
+			return json({ error: 'Ticket is not in REVIEW' }, { status: 409 });
+		}
+
+		const toState = decision === 'approve' ? 'DONE' : 'IN_PROGRESS';
+		const membership = await getOptionalProjectRole(event, ticket.projectId);
+
+		let updatedTicket;
+		try {
+			updatedTicket = await ticketStateMachine.transition(ticket.id, toState, {
+				triggeredBy: 'user',
+				reason: decision === 'approve' ? 'Changes approved' : `Changes requested: ${comments}`,
+				role: membership?.role
+			});
+		} catch (transitionError) {
+			if (transitionError instanceof TransitionNotPermittedError) {
+				return json(
+					{
+						error: 'Transition not permitted',
+						message: transitionError.message,
+						requiredRoles: transitionError.requiredRoles
+					},
+					{ status: 403 }
+				);
+			}
+			if (transitionError instanceof TransitionBlockedError) {
+				return json(
+					{
+						error: 'Blocked by transition guard',
+						message: transitionError.message,
+						failedGuards: transitionError.failedGuards
+					},
+					{ status: 400 }
+				);
+			}
+			if (transitionError instanceof WipLimitExceededError) {
+				return json(
+					{
+						error: 'WIP limit reached',
+						code: 'WIP_LIMIT_EXCEEDED',
+						message: transitionError.message,
+						state: transitionError.state,
+						wipLimit: transitionError.wipLimit,
+						count: transitionError.count
+					},
+					{ status: 409 }
+				);
+			}
+			throw transitionError;
+		}
+
+		// Record the review before the workflow runs, so a rework picks up the comments
+		const latest = await getLatestChangeSet(ticket.id);
+		const changeSet = latest
+			? await recordChangeSetReview(latest.id, {
+					decision,
+					comments,
+					reviewedById: membership?.session.user.id
+				})
+			: null;
+
+		await publishTicketMoved(ticket.projectId, ticket.id, 'REVIEW', toState, updatedTicket.position);
+
+		// The reviewed change set includes uncommitted files: put them on the
+		// branch before the DONE workflow removes the worktree (a worktree that
+		// is still dirty is kept)
+		let commit: string | null = null;
+		if (decision === 'approve') {
+			try {
+				commit = await commitTicketWorkspace(ticket, `${ticket.title}\n\nApproved in review of ticket ${ticket.id}`);
+			} catch (commitError) {
+				console.error('[Review] Failed to commit approved changes:', commitError);
+			}
+		}
+
+		let workflowResult = null;
+		try {
+			workflowResult = await handleTicketTransition(ticket.id, 'REVIEW', toState, 'user');
+
+			if (!workflowResult.success && workflowResult.error) {
+				console.warn('[Review] Workflow warning:', workflowResult.error);
+			}
+		} catch (workflowError) {
+			// The decision is recorded either way
+			console.error('[Review] Workflow error (non-blocking):', workflowError);
+		}
+
+		return json({
+			ticket: updatedTicket,
+			changeSet,
+			commit,
+			workflow: workflowResult
+		});
+	} catch (err) {
+		console.error('Error reviewing ticket:', err);
+		return json({ error: 'Failed to review ticket' }, { status: 500 });
+	}
+};
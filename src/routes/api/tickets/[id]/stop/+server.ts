@@ -0,0 +1,41 @@
+/**
+ * Stop Ticket Execution API
+ *
+ * POST /api/tickets/:id/stop
+ *
+ * Stops the ticket's queued and running agent jobs. Running CLI processes
+ * get SIGTERM, then SIGKILL after a grace period; the jobs end as
+ * `cancelled` and keep the output produced so far. Once every job has
+ * ended, the job completion tracker moves the ticket to NEEDS_FEEDBACK.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { prisma } from '$lib/server/prisma';
+import { commandExecutor } from '$lib/server/claude-flow/executor';
+
+export const POST: RequestHandler = async ({ params }) => {
+	try {
+		const ticket = await prisma.ticket.findUnique({
+			where: { id: params.id },
+			select: { id: true }
+		});
+
+		if (!ticket) {
+			return json({ error: 'Ticket not found' }, { status: 404 });
+		}
+
+		const cancelledJobs = commandExecutor.cancelByTicket(ticket.id);
+
+		if (cancelledJobs.length === 0) {
+			return json({ error: 'No running jobs for this ticket' }, { status: 409 });
+		}
+
+		console.log(`[Executor] Stopped ${cancelledJobs.length} job(s) for ticket ${ticket.id}`);
+
+		return json({ ticketId: ticket.id, cancelledJobs });
+	} catch (err) {
+		console.error('Error stopping ticket execution:', err);
+		return json({ error: 'Failed to stop execution' }, { status: 500 });
+	}
+};
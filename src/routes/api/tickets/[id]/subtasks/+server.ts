@@ -0,0 +1,132 @@
+/**
+ * Ticket Sub-tasks API
+ *
+ * GET  /api/tickets/:id/subtasks - Sub-tasks of an epic with their rolled-up progress
+ * POST /api/tickets/:id/subtasks - Split a ticket into sub-tasks
+ *
+ * Body (POST): { subtasks?: SubtaskInput[], force?: boolean }
+ *
+ * Without `subtasks`, the ticket is split along the analyzer's suggestions,
+ * which is only done for tickets of complexity SPLIT_COMPLEXITY_THRESHOLD
+ * or more unless `force` is set.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { prisma } from '$lib/server/prisma';
+import { requireProjectMember } from '$lib/server/auth/route-guards';
+import { calculateComplexity } from '$lib/server/analysis/complexity';
+import { SPLIT_COMPLEXITY_THRESHOLD, shouldSplitTicket, suggestSubtasks } from '$lib/server/analysis/ticket-decomposer';
+import { ticketHierarchyService, TicketHierarchyError } from '$lib/server/hierarchy';
+import type { Priority } from '$lib/types';
+import type { SubtaskInput } from '$lib/types/hierarchy';
+
+/** Most sub-tasks created by one request */
+const MAX_SUBTASKS = 20;
+
+const VALID_PRIORITIES: Priority[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+
+/**
+ * Validate sub-tasks from a request
+ * @returns Error message, or null when they are valid
+ */
+function validateSubtasks(subtasks: unknown): string | null {
+	if (!Array.isArray(subtasks) || subtasks.length === 0) {
+		return 'subtasks must be a non-empty array';
+	}
+	if (subtasks.length > MAX_SUBTASKS) {
+		return `At most ${MAX_SUBTASKS} sub-tasks can be created at once`;
+	}
+	for (const subtask of subtasks) {
+		if (!subtask || typeof subtask.title !== 'string' || !subtask.title.trim()) {
+			return 'Every sub-task needs a title';
+		}
+		if (subtask.priority !== undefined && !VALID_PRIORITIES.includes(subtask.priority)) {
+			return `Priority must be one of: ${VALID_PRIORITIES.join(', ')}`;
+		}
+		if (subtask.labels !== undefined && !Array.isArray(subtask.labels)) {
+			return 'labels must be an array';
+		}
+	}
+	return null;
+}
+
+export const GET: RequestHandler = async ({ params }) => {
+	try {
+		const ticket = await prisma.ticket.findUnique({
+			where: { id: params.id },
+			select: { id: true }
+		});
+
+		if (!ticket) {
+			return json({ error: 'Ticket not found' }, { status: 404 });
+		}
+
+		const [children, rollup] = await Promise.all([
+			ticketHierarchyService.getChildren(ticket.id),
+			ticketHierarchyService.getRollup(ticket.id)
+		]);
+
+		return json({ ticketId: ticket.id, children, rollup });
+	} catch (err) {
+		console.error('Error fetching sub-tasks:', err);
+		return json({ error: 'Failed to fetch sub-tasks' }, { status: 500 });
+	}
+};
+
+export const POST: RequestHandler = async (event) => {
+	const { params, request } = event;
+
+	try {
+		const ticket = await prisma.ticket.findUnique({
+			where: { id: params.id }
+		});
+
+		if (!ticket) {
+			return json({ error: 'Ticket not found' }, { status: 404 });
+		}
+
+		await requireProjectMember(event, ticket.projectId);
+
+		const body = await request.json().catch(() => ({}));
+		let subtasks: SubtaskInput[];
+
+		if (body.subtasks !== undefined) {
+			const validationError = validateSubtasks(body.subtasks);
+			if (validationError) {
+				return json({ error: validationError }, { status: 400 });
+			}
+			subtasks = body.subtasks;
+		} else {
+			const complexity =
+				ticket.complexity ??
+				(await calculateComplexity(ticket.title, ticket.description, ticket.labels, ticket.projectId)).score;
+
+			if (!body.force && !shouldSplitTicket(complexity)) {
+				return json(
+					{
+						error: `Ticket complexity ${complexity} is below ${SPLIT_COMPLEXITY_THRESHOLD}; pass force to split it anyway`,
+						code: 'NOT_COMPLEX_ENOUGH'
+					},
+					{ status: 400 }
+				);
+			}
+
+			subtasks = suggestSubtasks(ticket);
+		}
+
+		const children = await ticketHierarchyService.createSubtasks(ticket, subtasks);
+		const rollup = await ticketHierarchyService.getRollup(ticket.id);
+
+		return json({ ticketId: ticket.id, children, rollup }, { status: 201 });
+	} catch (err) {
+		if (err instanceof TicketHierarchyError) {
+			return json({ error: err.message }, { status: 400 });
+		}
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error creating sub-tasks:', err);
+		return json({ error: 'Failed to create sub-tasks' }, { status: 500 });
+	}
+};
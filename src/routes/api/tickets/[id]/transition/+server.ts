@@ -3,9 +3,20 @@ import type { RequestHandler } from './$types';
 import { prisma } from '$lib/server/prisma';
 import { ticketStateMachine } from '$lib/state-machine/ticket-state-machine';
 import type { TicketState } from '$lib/state-machine/types';
-import { TICKET_STATES } from '$lib/state-machine/types';
+import {
+	TransitionBlockedError,
+	TransitionNotPermittedError,
+	WipLimitExceededError
+} from '$lib/state-machine/types';
+import {
+	getProjectWorkflow,
+	getTicketWorkflowState,
+	getWorkflowState
+} from '$lib/state-machine/workflow';
 import { publishTicketMoved } from '$lib/server/events';
 import { handleTicketTransition } from '$lib/server/workflow/ticket-workflow';
+import { getOptionalProjectRole } from '$lib/server/auth/route-guards';
+import { authenticateAgent, requireTicketAgent } from '$lib/server/auth/agent-credentials';
 
 /**
  * GAP-3.2.4: States that can progress regardless of dependency status
@@ -33,34 +44,68 @@ const PROGRESS_STATES: TicketState[] = [
  *
  * TASK-035: Publishes ticket moved events via Redis pub/sub
  * GAP-3.2.4: Blocks transitions if dependencies are incomplete
+ *
+ * toState may be any state of the project's workflow, including custom
+ * columns; per-transition required roles are checked for user moves.
+ * Agents move their own ticket with their `X-Agent-Credential`. Who
+ * triggered the move is decided here: 'agent' for a verified agent
+ * credential, 'user' otherwise (a `triggeredBy` in the body is ignored).
+ * Project guards that block the move are reported with status 400.
+ *
+ * When `fromState` is sent (replayed offline moves), a ticket that is no
+ * longer in that state was moved by someone else: 409 STATE_CONFLICT.
  */
-export const POST: RequestHandler = async ({ params, request }) => {
+export const POST: RequestHandler = async (event) => {
+	const { params, request } = event;
 	const { id } = params;
+	const agent = authenticateAgent(event) && requireTicketAgent(event, id);
 
 	try {
 		const body = await request.json();
-		const { toState, triggeredBy, reason } = body;
+		const { toState, fromState, reason } = body;
+		const triggeredBy = agent ? 'agent' : 'user';
+
+		// Get current ticket
+		const ticket = await prisma.ticket.findUnique({
+			where: { id },
+			include: { project: { select: { settings: true } } }
+		});
 
-		// Validate toState
-		if (!toState || !TICKET_STATES.includes(toState)) {
+		if (!ticket) {
+			throw error(404, 'Ticket not found');
+		}
+
+		const workflow = getProjectWorkflow(ticket.project?.settings);
+
+		// Validate toState against the project's workflow
+		const targetState = toState ? getWorkflowState(workflow, toState) : undefined;
+		if (!targetState) {
 			return json(
-				{ error: 'Invalid state. Must be one of: BACKLOG, TODO, IN_PROGRESS, NEEDS_FEEDBACK, READY_TO_RESUME, REVIEW, DONE, CANCELLED' },
+				{ error: 'Invalid state. Must be one of: ' + workflow.states.map((s) => s.key).join(', ') },
 				{ status: 400 }
 			);
 		}
 
-		// Get current ticket
-		const ticket = await prisma.ticket.findUnique({ where: { id } });
+		const currentState = getTicketWorkflowState(ticket);
+		const newState: string = targetState.key;
+		const currentStatus = ticket.status as TicketState;
+		const newStatus = targetState.baseStatus;
 
-		if (!ticket) {
-			throw error(404, 'Ticket not found');
+		if (fromState !== undefined && fromState !== currentState) {
+			return json(
+				{
+					error: 'Ticket was moved by someone else',
+					message: 'Ticket is now in ' + currentState + ', not ' + fromState,
+					code: 'STATE_CONFLICT',
+					currentState,
+					ticket
+				},
+				{ status: 409 }
+			);
 		}
 
-		const currentState = ticket.status as TicketState;
-		const newState = toState as TicketState;
-
 		// Check if transition is valid
-		if (!ticketStateMachine.canTransition(currentState, newState)) {
+		if (!ticketStateMachine.canTransition(currentState, newState, { workflow })) {
 			return json(
 				{
 					error: 'Invalid transition from ' + currentState + ' to ' + newState,
@@ -72,8 +117,8 @@ export const POST: RequestHandler = async ({ params, request }) => {
 
 		// GAP-3.2.4: Check for blocking dependencies when transitioning to progress states
 		if (
-			PROGRESS_STATES.includes(newState) &&
-			!BYPASS_DEPENDENCY_CHECK_STATES.includes(newState) &&
+			PROGRESS_STATES.includes(newStatus) &&
+			!BYPASS_DEPENDENCY_CHECK_STATES.includes(newStatus) &&
 			ticket.dependencyIds &&
 			ticket.dependencyIds.length > 0
 		) {
@@ -101,11 +146,53 @@ export const POST: RequestHandler = async ({ params, request }) => {
 			}
 		}
 
+		// Per-transition required roles are checked against the caller's project role
+		const membership = agent ? null : await getOptionalProjectRole(event, ticket.projectId);
+
 		// Perform the transition
-		const updatedTicket = await ticketStateMachine.transition(id, newState, {
-			triggeredBy: triggeredBy || 'system',
-			reason
-		});
+		let updatedTicket;
+		try {
+			updatedTicket = await ticketStateMachine.transition(id, newState, {
+				triggeredBy,
+				reason: reason ?? (agent ? `Moved by agent ${agent.agentId}` : undefined),
+				role: membership?.role
+			});
+		} catch (transitionError) {
+			if (transitionError instanceof TransitionNotPermittedError) {
+				return json(
+					{
+						error: 'Transition not permitted',
+						message: transitionError.message,
+						requiredRoles: transitionError.requiredRoles
+					},
+					{ status: 403 }
+				);
+			}
+			if (transitionError instanceof TransitionBlockedError) {
+				return json(
+					{
+						error: 'Blocked by transition guard',
+						message: transitionError.message,
+						failedGuards: transitionError.failedGuards
+					},
+					{ status: 400 }
+				);
+			}
+			if (transitionError instanceof WipLimitExceededError) {
+				return json(
+					{
+						error: 'WIP limit reached',
+						code: 'WIP_LIMIT_EXCEEDED',
+						message: transitionError.message,
+						state: transitionError.state,
+						wipLimit: transitionError.wipLimit,
+						count: transitionError.count
+					},
+					{ status: 409 }
+				);
+			}
+			throw transitionError;
+		}
 
 		// TASK-035: Publish ticket moved event for real-time sync
 		await publishTicketMoved(
@@ -118,21 +205,24 @@ export const POST: RequestHandler = async ({ params, request }) => {
 
 		// TASK-053: Trigger workflow execution for relevant transitions
 		// This spawns Claude Flow agents when moving to IN_PROGRESS, handles feedback, etc.
+		// Moves between custom columns sharing a base status trigger nothing.
 		let workflowResult = null;
-		try {
-			workflowResult = await handleTicketTransition(
-				id,
-				currentState,
-				newState,
-				triggeredBy || 'user'
-			);
+		if (currentStatus !== newStatus) {
+			try {
+				workflowResult = await handleTicketTransition(
+					id,
+					currentStatus,
+					newStatus,
+					triggeredBy
+				);
 
-			if (!workflowResult.success && workflowResult.error) {
-				console.warn('[Transition] Workflow warning:', workflowResult.error);
+				if (!workflowResult.success && workflowResult.error) {
+					console.warn('[Transition] Workflow warning:', workflowResult.error);
+				}
+			} catch (workflowError) {
+				// Log but don't fail the transition - workflow is enhancement, not critical path
+				console.error('[Transition] Workflow error (non-blocking):', workflowError);
 			}
-		} catch (workflowError) {
-			// Log but don't fail the transition - workflow is enhancement, not critical path
-			console.error('[Transition] Workflow error (non-blocking):', workflowError);
 		}
 
 		return json({
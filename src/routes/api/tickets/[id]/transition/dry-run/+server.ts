@@ -0,0 +1,55 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { prisma } from '$lib/server/prisma';
+import { ticketStateMachine } from '$lib/state-machine/ticket-state-machine';
+import { getProjectWorkflow, getWorkflowState } from '$lib/state-machine/workflow';
+import { getOptionalProjectRole } from '$lib/server/auth/route-guards';
+
+/**
+ * POST /api/tickets/:id/transition/dry-run
+ * Check whether a transition would succeed without performing it
+ *
+ * Reports workflow validity, role permission, each applicable guard's
+ * result and the automations (with their actions) that would fire.
+ */
+export const POST: RequestHandler = async (event) => {
+	const { params, request } = event;
+	const { id } = params;
+
+	try {
+		const body = await request.json();
+		const { toState, triggeredBy } = body;
+
+		const ticket = await prisma.ticket.findUnique({
+			where: { id },
+			select: { id: true, projectId: true, project: { select: { settings: true } } }
+		});
+
+		if (!ticket) {
+			throw error(404, 'Ticket not found');
+		}
+
+		const workflow = getProjectWorkflow(ticket.project?.settings);
+		if (!toState || !getWorkflowState(workflow, toState)) {
+			return json(
+				{ error: 'Invalid state. Must be one of: ' + workflow.states.map((s) => s.key).join(', ') },
+				{ status: 400 }
+			);
+		}
+
+		const membership = await getOptionalProjectRole(event, ticket.projectId);
+
+		const preview = await ticketStateMachine.previewTransition(id, toState, {
+			triggeredBy: triggeredBy || 'user',
+			role: membership?.role
+		});
+
+		return json(preview);
+	} catch (err) {
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error previewing transition:', err);
+		return json({ error: 'Failed to preview transition' }, { status: 500 });
+	}
+};
@@ -68,7 +68,7 @@ interface ComplexityStatsResponse {
 
 /**
  * GET /api/tickets/complexity-stats
- * Get complexity distribution statistics
+ * Get complexity distribution statistics of the ?projectId= project
  */
 export const GET: RequestHandler = async ({ url }) => {
 	const projectId = url.searchParams.get('projectId');
@@ -2,7 +2,8 @@
  * GAP-3.2.7: NLP Parsing API
  *
  * POST /api/tickets/nlp-parse
- * Provides LLM-powered natural language parsing for ticket descriptions:
+ * Provides LLM-powered natural language parsing for ticket descriptions,
+ * using the language model configured for the project:
  * - Auto-suggests labels based on content
  * - Extracts technical requirements
  * - Identifies routing hints for agent assignment
@@ -11,6 +12,7 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { nlpParser, type NLPParseResult } from '$lib/server/analysis/nlp-parser';
+import type { LLMProviderId } from '$lib/types/admin';
 
 /**
  * Request body for NLP parsing endpoint
@@ -18,6 +20,8 @@ import { nlpParser, type NLPParseResult } from '$lib/server/analysis/nlp-parser'
 interface NLPParseRequest {
 	title: string;
 	description?: string;
+	/** Project whose language model is used and billed */
+	projectId?: string;
 }
 
 /**
@@ -26,6 +30,10 @@ interface NLPParseRequest {
 interface NLPParseResponse extends NLPParseResult {
 	/** Whether NLP service is available */
 	nlpAvailable: boolean;
+	/** Provider that produced the result, null in fallback mode */
+	provider: LLMProviderId | null;
+	/** Model that produced the result, null in fallback mode */
+	model: string | null;
 	/** Processing time in ms */
 	processingTimeMs: number;
 }
@@ -36,17 +44,19 @@ interface NLPParseResponse extends NLPParseResult {
  */
 export const POST: RequestHandler = async ({ request }) => {
 	const startTime = Date.now();
+	let projectId: string | null = null;
 
 	try {
 		const body: NLPParseRequest = await request.json();
 		const { title, description } = body;
+		projectId = typeof body.projectId === 'string' ? body.projectId : null;
 
 		// Validate input
 		if (!title || typeof title !== 'string' || title.trim().length < 3) {
 			return json(
 				{
 					error: 'Title must be at least 3 characters',
-					nlpAvailable: nlpParser.isAvailable(),
+					nlpAvailable: await nlpParser.isAvailable(projectId),
 					processingTimeMs: Date.now() - startTime
 				},
 				{ status: 400 }
@@ -54,11 +64,14 @@ export const POST: RequestHandler = async ({ request }) => {
 		}
 
 		// Parse using NLP service
-		const result = await nlpParser.parse(title.trim(), description?.trim() || null);
+		const provider = await nlpParser.getProvider(projectId);
+		const result = await nlpParser.parse(title.trim(), description?.trim() || null, projectId);
 
 		const response: NLPParseResponse = {
 			...result,
-			nlpAvailable: nlpParser.isAvailable(),
+			nlpAvailable: provider !== null,
+			provider: provider?.id ?? null,
+			model: provider?.model ?? null,
 			processingTimeMs: Date.now() - startTime
 		};
 
@@ -68,7 +81,7 @@ export const POST: RequestHandler = async ({ request }) => {
 		return json(
 			{
 				error: 'Failed to parse ticket content',
-				nlpAvailable: nlpParser.isAvailable(),
+				nlpAvailable: await nlpParser.isAvailable(projectId),
 				processingTimeMs: Date.now() - startTime
 			},
 			{ status: 500 }
@@ -78,13 +91,17 @@ export const POST: RequestHandler = async ({ request }) => {
 
 /**
  * GET /api/tickets/nlp-parse
- * Check NLP service availability
+ * Check NLP service availability for the ?projectId= project's model
  */
-export const GET: RequestHandler = async () => {
+export const GET: RequestHandler = async ({ url }) => {
+	const provider = await nlpParser.getProvider(url.searchParams.get('projectId'));
+
 	return json({
-		available: nlpParser.isAvailable(),
-		message: nlpParser.isAvailable()
-			? 'NLP parsing service is available'
-			: 'NLP parsing service is unavailable (ANTHROPIC_API_KEY not configured)'
+		available: provider !== null,
+		provider: provider?.id ?? null,
+		model: provider?.model ?? null,
+		message: provider
+			? `NLP parsing service is available (${provider.id}: ${provider.model})`
+			: 'NLP parsing service is unavailable (no language model configured)'
 	});
 };
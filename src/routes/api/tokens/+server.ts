@@ -0,0 +1,57 @@
+/**
+ * Personal API Tokens
+ *
+ * GET  /api/tokens - List the signed-in user's personal tokens
+ * POST /api/tokens - Create a personal token
+ *   Body: { name, scopes: Permission[], expiresInDays?: number | null }
+ *   Returns the token once, as `secret`
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requireAuth, rejectApiToken } from '$lib/server/auth/route-guards';
+import { apiTokenService, validateApiTokenInput } from '$lib/server/auth/api-tokens';
+
+export const GET: RequestHandler = async (event) => {
+	try {
+		const session = await requireAuth(event);
+		rejectApiToken(session, 'API tokens cannot manage tokens');
+
+		const tokens = await apiTokenService.listPersonalTokens(session.user.id);
+
+		return json({ tokens });
+	} catch (err) {
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error listing API tokens:', err);
+		return json({ error: 'Failed to list API tokens' }, { status: 500 });
+	}
+};
+
+export const POST: RequestHandler = async (event) => {
+	try {
+		const session = await requireAuth(event);
+		rejectApiToken(session, 'API tokens cannot manage tokens');
+
+		const body = await event.request.json();
+		const validationError = validateApiTokenInput(body);
+		if (validationError) {
+			return json({ error: validationError }, { status: 400 });
+		}
+
+		const created = await apiTokenService.createPersonalToken(session.user.id, {
+			name: body.name,
+			scopes: body.scopes,
+			expiresInDays: body.expiresInDays ?? null
+		});
+
+		return json(created, { status: 201 });
+	} catch (err) {
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error creating API token:', err);
+		return json({ error: 'Failed to create API token' }, { status: 500 });
+	}
+};
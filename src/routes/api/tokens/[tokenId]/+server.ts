@@ -0,0 +1,31 @@
+/**
+ * DELETE /api/tokens/:tokenId
+ *
+ * Revoke one of the signed-in user's personal tokens. The token stays
+ * listed as revoked.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requireAuth, rejectApiToken } from '$lib/server/auth/route-guards';
+import { apiTokenService, ApiTokenNotFoundError } from '$lib/server/auth/api-tokens';
+
+export const DELETE: RequestHandler = async (event) => {
+	try {
+		const session = await requireAuth(event);
+		rejectApiToken(session, 'API tokens cannot manage tokens');
+
+		const token = await apiTokenService.revokePersonalToken(session.user.id, event.params.tokenId);
+
+		return json({ token });
+	} catch (err) {
+		if (err instanceof ApiTokenNotFoundError) {
+			return json({ error: 'API token not found' }, { status: 404 });
+		}
+		if (err && typeof err === 'object' && 'status' in err) {
+			throw err;
+		}
+		console.error('Error revoking API token:', err);
+		return json({ error: 'Failed to revoke API token' }, { status: 500 });
+	}
+};
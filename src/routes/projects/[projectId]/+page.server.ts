@@ -1,10 +1,16 @@
 import type { PageServerLoad } from './$types';
 import { prisma } from '$lib/server/prisma';
 import { error } from '@sveltejs/kit';
+import { getProjectWorkflow } from '$lib/state-machine/workflow';
+import { projectEventLog } from '$lib/server/redis/event-log';
+import type { LaneMember } from '$lib/utils/board-grouping';
 
 export const load: PageServerLoad = async ({ params }) => {
 	const { projectId } = params;
 
+	// Read before the tickets: events published while loading are replayed
+	const eventSeq = await projectEventLog.getLatestSequence(projectId);
+
 	const project = await prisma.project.findUnique({
 		where: { id: projectId },
 		include: {
@@ -18,8 +24,18 @@ export const load: PageServerLoad = async ({ params }) => {
 		throw error(404, 'Project not found');
 	}
 
+	// Members can be assigned tickets (assignee swimlanes)
+	const memberships = await prisma.projectMember.findMany({
+		where: { projectId },
+		include: { user: { select: { id: true, name: true, email: true } } }
+	});
+
 	return {
 		project,
-		tickets: project.tickets
+		tickets: project.tickets,
+		members: memberships.map((membership: { user: LaneMember }) => membership.user),
+		workflow: getProjectWorkflow(project.settings),
+		// Sequence the loaded tickets are current with (for missed event replay)
+		eventSeq
 	};
 };
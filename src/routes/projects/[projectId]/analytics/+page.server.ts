@@ -0,0 +1,31 @@
+import type { PageServerLoad } from './$types';
+import { error } from '@sveltejs/kit';
+import { prisma } from '$lib/server/prisma';
+import { flowAnalyticsService } from '$lib/server/analytics';
+import { DEFAULT_ANALYTICS_DAYS, MAX_ANALYTICS_DAYS } from '$lib/types/flow-analytics';
+
+/**
+ * Project Analytics Page Data
+ *
+ * Loads the flow analytics of the project over the last ?days= (90 by default).
+ */
+export const load: PageServerLoad = async ({ params, url }) => {
+	const project = await prisma.project.findUnique({
+		where: { id: params.projectId },
+		select: { id: true, name: true }
+	});
+
+	if (!project) {
+		throw error(404, 'Project not found');
+	}
+
+	const requested = Number(url.searchParams.get('days') ?? DEFAULT_ANALYTICS_DAYS);
+	const days =
+		Number.isInteger(requested) && requested >= 1 && requested <= MAX_ANALYTICS_DAYS
+			? requested
+			: DEFAULT_ANALYTICS_DAYS;
+
+	const analytics = await flowAnalyticsService.getFlowAnalytics(project.id, days);
+
+	return { project, days, analytics };
+};
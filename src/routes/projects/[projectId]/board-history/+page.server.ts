@@ -0,0 +1,26 @@
+import type { PageServerLoad } from './$types';
+import { error } from '@sveltejs/kit';
+import { prisma } from '$lib/server/prisma';
+import { getProjectWorkflow } from '$lib/state-machine/workflow';
+
+/**
+ * Project Board History Page Data
+ *
+ * Loads the project and its workflow; snapshots are fetched per day by
+ * the time slider.
+ */
+export const load: PageServerLoad = async ({ params }) => {
+	const project = await prisma.project.findUnique({
+		where: { id: params.projectId },
+		select: { id: true, name: true, createdAt: true, settings: true }
+	});
+
+	if (!project) {
+		throw error(404, 'Project not found');
+	}
+
+	return {
+		project: { id: project.id, name: project.name, createdAt: project.createdAt },
+		workflow: getProjectWorkflow(project.settings)
+	};
+};
@@ -0,0 +1,34 @@
+import type { PageServerLoad } from './$types';
+import { error } from '@sveltejs/kit';
+import { prisma } from '$lib/server/prisma';
+import { buildProjectDependencyGraph } from '$lib/server/analysis/dependency-graph';
+import { DependencyCycleError } from '$lib/utils/dependency-graph';
+
+/**
+ * Project Dependency Plan Page Data
+ *
+ * Loads the ticket dependency graph with critical path and slack.
+ */
+export const load: PageServerLoad = async ({ params }) => {
+	const project = await prisma.project.findUnique({
+		where: { id: params.projectId },
+		select: { id: true, name: true }
+	});
+
+	if (!project) {
+		throw error(404, 'Project not found');
+	}
+
+	try {
+		return {
+			project,
+			graph: await buildProjectDependencyGraph(params.projectId),
+			cycle: null
+		};
+	} catch (err) {
+		if (err instanceof DependencyCycleError) {
+			return { project, graph: null, cycle: err.cycle };
+		}
+		throw err;
+	}
+};
@@ -7,11 +7,15 @@ import {
 	DEFAULT_PROJECT_RESOURCE_LIMITS
 } from '$lib/types/resources';
 import { getActiveAgentCount, getApiCallCount } from '$lib/server/resources/usage';
+import { getProjectWorkflow } from '$lib/state-machine/workflow';
+import { getProjectSchedulingSettings } from '$lib/types/scheduling';
+import { ALL_PERMISSIONS } from '$lib/server/auth/permissions';
 
 /**
  * GAP-3.1.2: Project Settings Page Data
  *
- * Loads project settings including resource limits and current usage.
+ * Loads project settings including resource limits, current usage, workflow
+ * and the scopes API tokens can have.
  */
 export const load: PageServerLoad = async ({ params }) => {
 	const project = await prisma.project.findUnique({
@@ -76,6 +80,10 @@ export const load: PageServerLoad = async ({ params }) => {
 			template: project.template
 		},
 		resourceLimits: limits,
-		resourceUsage: usage
+		resourceUsage: usage,
+		scheduling: getProjectSchedulingSettings(settings),
+		workflow: getProjectWorkflow(settings),
+		isCustomWorkflow: settings.workflow !== undefined,
+		tokenScopes: ALL_PERMISSIONS
 	};
 };
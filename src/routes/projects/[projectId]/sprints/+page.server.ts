@@ -0,0 +1,47 @@
+import type { PageServerLoad } from './$types';
+import { error } from '@sveltejs/kit';
+import { prisma } from '$lib/server/prisma';
+import { sprintService } from '$lib/server/sprints';
+
+/**
+ * Project Sprints Page Data
+ *
+ * Loads the sprints with velocity and, for the selected sprint (?sprint=,
+ * else the active one, else the next planned one), its tickets, burn
+ * chart and planning suggestions.
+ */
+export const load: PageServerLoad = async ({ params, url }) => {
+	const project = await prisma.project.findUnique({
+		where: { id: params.projectId },
+		select: { id: true, name: true }
+	});
+
+	if (!project) {
+		throw error(404, 'Project not found');
+	}
+
+	const [sprints, velocity] = await Promise.all([
+		sprintService.listSprints(project.id),
+		sprintService.getVelocity(project.id)
+	]);
+
+	const requested = url.searchParams.get('sprint');
+	const selected =
+		sprints.find((sprint) => sprint.id === requested) ??
+		sprints.find((sprint) => sprint.status === 'ACTIVE') ??
+		[...sprints].reverse().find((sprint) => sprint.status === 'PLANNED') ??
+		sprints[0] ??
+		null;
+
+	if (!selected) {
+		return { project, sprints, velocity, selected: null, tickets: [], burnChart: [], plan: null };
+	}
+
+	const [tickets, burnChart, plan] = await Promise.all([
+		sprintService.getSprintTickets(selected.id),
+		sprintService.getBurnChart(project.id, selected.id),
+		selected.status === 'COMPLETED' ? null : sprintService.planSprint(project.id, selected.id)
+	]);
+
+	return { project, sprints, velocity, selected, tickets, burnChart, plan };
+};
@@ -0,0 +1,23 @@
+/**
+ * Personal API Tokens Page Server
+ *
+ * Loads the signed-in user's API tokens and the scopes a token can have.
+ */
+
+import { redirect } from '@sveltejs/kit';
+import type { PageServerLoad } from './$types';
+import { apiTokenService } from '$lib/server/auth/api-tokens';
+import { ALL_PERMISSIONS } from '$lib/server/auth/permissions';
+
+export const load: PageServerLoad = async (event) => {
+  const session = await event.locals.auth();
+
+  if (!session?.user?.id) {
+    throw redirect(303, `/auth/signin?callbackUrl=${encodeURIComponent(event.url.pathname)}`);
+  }
+
+  return {
+    tokens: await apiTokenService.listPersonalTokens(session.user.id),
+    scopes: ALL_PERMISSIONS
+  };
+};
@@ -0,0 +1,178 @@
+/**
+ * Claude Flow CLI Simulator Tests
+ *
+ * Runs scripts/claude-flow-sim.js through the real ClaudeFlowCLI: state
+ * kept between invocations, JSON output the services parse, and the agent
+ * scenarios reporting to a stand-in for the app's agent API.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { AddressInfo } from 'net';
+import { ClaudeFlowCLI, CLIError, resolveCLICommand } from '$lib/server/claude-flow/cli';
+import type { Agent } from '$lib/server/claude-flow/agents';
+import type { SwarmStatus } from '$lib/server/claude-flow/swarm';
+
+const SIMULATOR = join(process.cwd(), 'scripts', 'claude-flow-sim.js');
+
+describe('resolveCLICommand', () => {
+  it('should run the published CLI by default', () => {
+    expect(resolveCLICommand({})).toEqual({ command: 'npx', args: ['@claude-flow/cli@latest'] });
+  });
+
+  it('should run the command named by CLAUDE_FLOW_CLI', () => {
+    expect(resolveCLICommand({ CLAUDE_FLOW_CLI: ' node scripts/claude-flow-sim.js ' })).toEqual({
+      command: 'node scripts/claude-flow-sim.js',
+      args: []
+    });
+  });
+});
+
+describe('Claude Flow CLI simulator', () => {
+  const cli = new ClaudeFlowCLI({ command: 'node', args: [SIMULATOR] });
+  let stateDir: string;
+  let env: Record<string, string>;
+
+  beforeEach(() => {
+    stateDir = mkdtempSync(join(tmpdir(), 'claude-flow-sim-'));
+    env = {
+      CLAUDE_FLOW_SIM_STATE: join(stateDir, 'state.json'),
+      CLAUDE_FLOW_SIM_STEP_MS: '0',
+      CLAUDE_FLOW_SIM_SCENARIO: 'success'
+    };
+  });
+
+  afterEach(() => {
+    rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  it('should report a version so the CLI counts as available', async () => {
+    const result = await cli.execute('--version', [], { env });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('simulator');
+  });
+
+  it('should keep swarms and agents between invocations', async () => {
+    const swarm = await cli.executeJson<SwarmStatus>('swarm', ['init', '--topology', 'mesh', '--max-agents', '4'], { env });
+    const agent = await cli.executeJson<Agent>('agent', ['spawn', '-t', 'coder', '--name', 'ticket-coder'], { env });
+    const status = await cli.executeJson<SwarmStatus>('swarm', ['status', swarm.id], { env });
+
+    expect(swarm).toMatchObject({ topology: 'mesh', status: 'active', agents: [] });
+    expect(agent).toMatchObject({ type: 'coder', name: 'ticket-coder', status: 'idle' });
+    expect(status.agents).toEqual([expect.objectContaining({ id: agent.id, status: 'idle' })]);
+  });
+
+  it('should store, search, retrieve and delete memory entries', async () => {
+    await cli.executeJson('memory', ['store', '--key', 'auth-flow', '--value', 'rotate', 'jwt', 'tokens', '--namespace', 'patterns'], { env });
+
+    const search = await cli.executeJson<{ entries: { key: string; similarity: number }[] }>(
+      'memory',
+      ['search', '--query', 'jwt', '--namespace', 'patterns'],
+      { env }
+    );
+    expect(search.entries).toEqual([expect.objectContaining({ key: 'auth-flow', similarity: 1 })]);
+
+    const retrieved = await cli.executeJson<{ entry: { value: string } }>(
+      'memory',
+      ['retrieve', '--key', 'auth-flow', '--namespace', 'patterns'],
+      { env }
+    );
+    expect(retrieved.entry.value).toBe('rotate jwt tokens');
+
+    await cli.execute('memory', ['delete', '--key', 'auth-flow', '--namespace', 'patterns'], { env });
+    await expect(
+      cli.executeJson('memory', ['retrieve', '--key', 'auth-flow', '--namespace', 'patterns'], { env })
+    ).rejects.toThrow(CLIError);
+  });
+
+  it('should fail commands it does not simulate', async () => {
+    const result = await cli.execute('neural', ['status'], { env });
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain('Unknown command: neural');
+  });
+
+  it('should fail the agent in the agent-fails scenario', async () => {
+    const result = await cli.execute('agent', ['spawn', '-t', 'tester', '--name', 'ticket-tester'], {
+      env: { ...env, CLAUDE_FLOW_SIM_SCENARIO: 'agent-fails' }
+    });
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain('ticket-tester failed');
+  });
+
+  it('should only apply the scenario to the agent type it targets', async () => {
+    const result = await cli.execute('agent', ['spawn', '-t', 'coder', '--name', 'ticket-coder'], {
+      env: { ...env, CLAUDE_FLOW_SIM_SCENARIO: 'agent-fails', CLAUDE_FLOW_SIM_AGENT: 'tester' }
+    });
+
+    expect(result.exitCode).toBe(0);
+  });
+
+  it('should reject unknown scenarios', async () => {
+    const result = await cli.execute('agent', ['spawn', '-t', 'coder'], {
+      env: { ...env, CLAUDE_FLOW_SIM_SCENARIO: 'flaky' }
+    });
+
+    expect(result.exitCode).toBe(2);
+  });
+
+  describe('reporting to the app', () => {
+    let server: Server;
+    let requests: { url?: string; credential?: string; body: any }[];
+
+    beforeEach(async () => {
+      requests = [];
+      server = createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          requests.push({
+            url: req.url,
+            credential: req.headers['x-agent-credential'] as string | undefined,
+            body: JSON.parse(body)
+          });
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end('{}');
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+      env = {
+        ...env,
+        CF_KANBAN_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        CF_KANBAN_AGENT_CREDENTIAL: 'cfa_test.credential',
+        CF_KANBAN_TICKET_ID: 'ticket-1'
+      };
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should report progress with the job\'s credential', async () => {
+      const result = await cli.execute('agent', ['spawn', '-t', 'coder', '--name', 'ticket-coder'], { env });
+
+      expect(result.exitCode).toBe(0);
+      expect(requests.length).toBeGreaterThan(0);
+      expect(requests.every((r) => r.url === '/api/tickets/ticket-1/progress')).toBe(true);
+      expect(requests.every((r) => r.credential === 'cfa_test.credential')).toBe(true);
+      expect(requests.at(-1)?.body).toEqual({ message: 'ticket-coder finished', level: 'info' });
+    });
+
+    it('should ask a question and stop in the agent-question scenario', async () => {
+      const agent = await cli.executeJson<Agent>('agent', ['spawn', '-t', 'coder', '--name', 'ticket-coder'], {
+        env: { ...env, CLAUDE_FLOW_SIM_SCENARIO: 'agent-question' }
+      });
+
+      const questions = requests.filter((r) => r.url === '/api/tickets/ticket-1/feedback');
+      expect(questions).toHaveLength(1);
+      expect(questions[0].body.questions[0]).toMatchObject({ type: 'CHOICE' });
+      expect(agent.status).toBe('blocked');
+    });
+  });
+});
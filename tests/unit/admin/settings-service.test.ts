@@ -30,7 +30,8 @@ vi.mock('$lib/server/admin/audit-service', () => ({
 import {
   SettingsService,
   DEFAULT_PROJECT_SETTINGS,
-  DEFAULT_CLAUDE_FLOW_SETTINGS
+  DEFAULT_CLAUDE_FLOW_SETTINGS,
+  DEFAULT_LLM_SETTINGS
 } from '$lib/server/admin/settings-service';
 import { prisma } from '$lib/server/prisma';
 
@@ -354,6 +355,33 @@ describe('SettingsService', () => {
     });
   });
 
+  describe('getLLMSettings', () => {
+    it('should return default language model settings', async () => {
+      mockPrisma.systemSettings.findUnique.mockResolvedValue(null);
+
+      const settings = await service.getLLMSettings();
+
+      expect(settings).toEqual(DEFAULT_LLM_SETTINGS);
+    });
+
+    it('should fill fields missing from stored settings with defaults', async () => {
+      mockPrisma.systemSettings.findUnique.mockResolvedValue({
+        id: 'setting-1',
+        key: 'llm.config',
+        value: { provider: 'openai-compatible', baseUrl: 'http://localhost:11434/v1' }
+      });
+
+      const settings = await service.getLLMSettings();
+
+      expect(settings).toEqual({
+        provider: 'openai-compatible',
+        model: null,
+        baseUrl: 'http://localhost:11434/v1',
+        projects: {}
+      });
+    });
+  });
+
   describe('initializeDefaults', () => {
     it('should create default settings if not exist', async () => {
       mockPrisma.systemSettings.findUnique.mockResolvedValue(null);
@@ -0,0 +1,186 @@
+/**
+ * Unit Tests for the Ticket Dependency Graph
+ *
+ * Tests cycle detection, topological ordering, critical path and slack,
+ * and building the graph for a project.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  analyzeDependencyGraph,
+  findCycle,
+  findCycleWithDependencies,
+  getDependents,
+  topologicalOrder,
+  DependencyCycleError,
+  type DependencyNode
+} from '$lib/utils/dependency-graph';
+
+vi.mock('$lib/server/prisma', () => ({
+  prisma: {
+    ticket: {
+      findMany: vi.fn()
+    }
+  }
+}));
+
+import { prisma } from '$lib/server/prisma';
+import {
+  assertNoDependencyCycle,
+  buildProjectDependencyGraph
+} from '$lib/server/analysis/dependency-graph';
+
+function node(id: string, durationHours: number, dependencyIds: string[] = []): DependencyNode {
+  return { id, durationHours, dependencyIds };
+}
+
+// design → api → ui, design → docs; ui is the long branch
+const plan = [
+  node('ui', 8, ['api']),
+  node('docs', 2, ['design']),
+  node('api', 5, ['design']),
+  node('design', 3)
+];
+
+describe('Dependency Graph', () => {
+  describe('findCycle', () => {
+    it('should return null for an acyclic graph', () => {
+      expect(findCycle(new Map(plan.map((n) => [n.id, n.dependencyIds])))).toBeNull();
+    });
+
+    it('should return the cycle path', () => {
+      const graph = new Map([
+        ['a', ['b']],
+        ['b', ['c']],
+        ['c', ['a']]
+      ]);
+      expect(findCycle(graph)).toEqual(['a', 'b', 'c', 'a']);
+    });
+  });
+
+  describe('findCycleWithDependencies', () => {
+    it('should detect a cycle introduced by new dependencies', () => {
+      expect(findCycleWithDependencies(plan, 'design', ['ui'])).toEqual([
+        'ui',
+        'api',
+        'design',
+        'ui'
+      ]);
+    });
+
+    it('should allow dependencies that keep the graph acyclic', () => {
+      expect(findCycleWithDependencies(plan, 'ui', ['api', 'docs'])).toBeNull();
+    });
+  });
+
+  describe('getDependents', () => {
+    it('should return direct and transitive dependents', () => {
+      expect([...getDependents(plan, 'design')].sort()).toEqual(['api', 'docs', 'ui']);
+      expect(getDependents(plan, 'ui').size).toBe(0);
+    });
+  });
+
+  describe('topologicalOrder', () => {
+    it('should place every ticket after its dependencies', () => {
+      const order = topologicalOrder(plan);
+      for (const n of plan) {
+        for (const dep of n.dependencyIds) {
+          expect(order.indexOf(dep)).toBeLessThan(order.indexOf(n.id));
+        }
+      }
+    });
+
+    it('should ignore dependencies outside the graph', () => {
+      expect(topologicalOrder([node('a', 1, ['missing'])])).toEqual(['a']);
+    });
+
+    it('should throw on cycles', () => {
+      expect(() => topologicalOrder([node('a', 1, ['b']), node('b', 1, ['a'])])).toThrow(
+        DependencyCycleError
+      );
+    });
+  });
+
+  describe('analyzeDependencyGraph', () => {
+    it('should compute the critical path and total hours', () => {
+      const result = analyzeDependencyGraph(plan);
+
+      expect(result.criticalPath).toEqual(['design', 'api', 'ui']);
+      expect(result.totalHours).toBe(16);
+    });
+
+    it('should compute schedule and slack', () => {
+      const nodes = new Map(analyzeDependencyGraph(plan).nodes.map((n) => [n.id, n]));
+
+      expect(nodes.get('api')).toMatchObject({ earliestStart: 3, earliestFinish: 8, slack: 0, critical: true });
+      expect(nodes.get('docs')).toMatchObject({
+        earliestStart: 3,
+        earliestFinish: 5,
+        latestFinish: 16,
+        slack: 11,
+        critical: false
+      });
+    });
+
+    it('should treat finished tickets as taking no time', () => {
+      const result = analyzeDependencyGraph([node('done', 0), node('next', 4, ['done'])]);
+
+      expect(result.totalHours).toBe(4);
+      expect(result.criticalPath).toEqual(['next']);
+    });
+
+    it('should handle an empty graph', () => {
+      expect(analyzeDependencyGraph([])).toEqual({ order: [], criticalPath: [], totalHours: 0, nodes: [] });
+    });
+  });
+});
+
+describe('Project Dependency Graph', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  function ticket(id: string, status: string, complexity: number, dependencyIds: string[] = []) {
+    return {
+      id,
+      title: `Implement ${id}`,
+      description: null,
+      status,
+      priority: 'MEDIUM',
+      labels: [],
+      complexity,
+      dependencyIds
+    };
+  }
+
+  it('should build the graph with estimates and zero remaining time for finished tickets', async () => {
+    vi.mocked(prisma.ticket.findMany).mockResolvedValue([
+      ticket('schema', 'DONE', 3),
+      ticket('api', 'TODO', 5, ['schema'])
+    ] as never);
+
+    const graph = await buildProjectDependencyGraph('project-1');
+
+    expect(graph.order).toEqual(['schema', 'api']);
+    expect(graph.criticalPath).toEqual(['api']);
+    const schema = graph.tickets.find((t) => t.id === 'schema')!;
+    const api = graph.tickets.find((t) => t.id === 'api')!;
+    expect(schema.durationHours).toBe(0);
+    expect(schema.estimatedHours).toBeGreaterThan(0);
+    expect(api.durationHours).toBe(api.estimatedHours);
+    expect(graph.totalHours).toBe(api.estimatedHours);
+  });
+
+  it('should reject self-dependencies and cycles', async () => {
+    vi.mocked(prisma.ticket.findMany).mockResolvedValue([
+      { id: 'a', dependencyIds: [] },
+      { id: 'b', dependencyIds: ['a'] }
+    ] as never);
+
+    await expect(assertNoDependencyCycle('project-1', 'a', ['a'])).rejects.toThrow(DependencyCycleError);
+    await expect(assertNoDependencyCycle('project-1', 'a', ['b'])).rejects.toMatchObject({
+      cycle: ['a', 'b', 'a']
+    });
+    await expect(assertNoDependencyCycle('project-1', 'b', ['a'])).resolves.toBeUndefined();
+  });
+});
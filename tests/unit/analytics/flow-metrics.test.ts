@@ -0,0 +1,187 @@
+/**
+ * Flow Metrics Tests
+ *
+ * Tests the replay of ticket history into cumulative flow, cycle and lead
+ * times, time in state and the agent vs. human comparison.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildCumulativeFlow,
+  buildFlowAnalytics,
+  buildLeadTimeDistribution,
+  classifyActor,
+  isBookkeepingTrigger,
+  percentile
+} from '$lib/server/analytics/flow-metrics';
+import { DEFAULT_WORKFLOW } from '$lib/state-machine/workflow';
+import type { FlowTicket, FlowTransition } from '$lib/types/flow-analytics';
+
+const from = new Date('2026-03-01T00:00:00Z');
+const to = new Date('2026-03-10T23:59:59Z');
+
+function move(fromState: string, toState: string, createdAt: string, triggeredBy = 'user'): FlowTransition {
+  return { fromState, toState, triggeredBy, createdAt: new Date(createdAt) };
+}
+
+function ticket(id: string, createdAt: string, transitions: FlowTransition[]): FlowTicket {
+  return {
+    id,
+    title: `Ticket ${id}`,
+    createdAt: new Date(createdAt),
+    state: transitions.length > 0 ? transitions[transitions.length - 1].toState : 'BACKLOG',
+    transitions
+  };
+}
+
+describe('classifyActor', () => {
+  it('should classify people, the system and agents', () => {
+    expect(classifyActor('user')).toBe('human');
+    expect(classifyActor('system')).toBe('system');
+    expect(classifyActor('workflow-error')).toBe('system');
+    expect(classifyActor('agent')).toBe('agent');
+  });
+});
+
+describe('isBookkeepingTrigger', () => {
+  it('should flag rows the workflow and timed rules write next to a transition', () => {
+    expect(isBookkeepingTrigger('workflow')).toBe(true);
+    expect(isBookkeepingTrigger('workflow-auto')).toBe(true);
+    expect(isBookkeepingTrigger('rule:stale-review')).toBe(true);
+    expect(isBookkeepingTrigger('workflow-error')).toBe(false);
+    expect(isBookkeepingTrigger('agent')).toBe(false);
+    expect(isBookkeepingTrigger('user')).toBe(false);
+  });
+});
+
+describe('percentile', () => {
+  it('should use the nearest rank', () => {
+    const values = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+    expect(percentile(values, 50)).toBe(5);
+    expect(percentile(values, 85)).toBe(9);
+    expect(percentile(values, 95)).toBe(10);
+  });
+
+  it('should return null without values', () => {
+    expect(percentile([], 50)).toBeNull();
+  });
+});
+
+describe('buildCumulativeFlow', () => {
+  it('should count tickets per state at the end of each day', () => {
+    const tickets = [
+      ticket('a', '2026-03-01T10:00:00Z', [
+        move('BACKLOG', 'IN_PROGRESS', '2026-03-02T10:00:00Z'),
+        move('IN_PROGRESS', 'DONE', '2026-03-03T10:00:00Z')
+      ]),
+      ticket('b', '2026-03-02T10:00:00Z', [])
+    ];
+
+    const flow = buildCumulativeFlow(
+      tickets,
+      ['BACKLOG', 'IN_PROGRESS', 'DONE'],
+      from,
+      new Date('2026-03-03T23:59:59Z')
+    );
+
+    expect(flow.map((point) => point.counts)).toEqual([
+      { BACKLOG: 1, IN_PROGRESS: 0, DONE: 0 },
+      { BACKLOG: 1, IN_PROGRESS: 1, DONE: 0 },
+      { BACKLOG: 1, IN_PROGRESS: 0, DONE: 1 }
+    ]);
+  });
+});
+
+describe('buildLeadTimeDistribution', () => {
+  it('should bucket lead times by days', () => {
+    const buckets = buildLeadTimeDistribution([2, 30, 40, 24 * 10, 24 * 60]);
+
+    expect(buckets.find((bucket) => bucket.label === '< 1d')?.count).toBe(1);
+    expect(buckets.find((bucket) => bucket.label === '1-2d')?.count).toBe(2);
+    expect(buckets.find((bucket) => bucket.label === '1-2w')?.count).toBe(1);
+    expect(buckets.find((bucket) => bucket.label === '4w+')?.count).toBe(1);
+  });
+});
+
+describe('buildFlowAnalytics', () => {
+  // History as the app writes it: the state machine records each move, and
+  // the workflow and timed rules add their own rows next to it
+  const agentTicket = ticket('agent', '2026-03-01T00:00:00Z', [
+    move('BACKLOG', 'TODO', '2026-03-01T12:00:00Z'),
+    move('TODO', 'IN_PROGRESS', '2026-03-02T00:00:00Z'),
+    move('TODO', 'IN_PROGRESS', '2026-03-02T00:00:01Z', 'workflow'),
+    move('IN_PROGRESS', 'NEEDS_FEEDBACK', '2026-03-02T06:00:00Z', 'agent'),
+    move('NEEDS_FEEDBACK', 'READY_TO_RESUME', '2026-03-02T16:00:00Z'),
+    move('READY_TO_RESUME', 'IN_PROGRESS', '2026-03-02T17:00:00Z', 'system'),
+    move('READY_TO_RESUME', 'IN_PROGRESS', '2026-03-02T17:00:01Z', 'workflow'),
+    move('IN_PROGRESS', 'REVIEW', '2026-03-03T00:00:00Z', 'agent'),
+    move('IN_PROGRESS', 'REVIEW', '2026-03-03T00:00:01Z', 'workflow-auto'),
+    move('REVIEW', 'DONE', '2026-03-03T12:00:00Z'),
+    move('REVIEW', 'DONE', '2026-03-03T12:00:01Z', 'workflow')
+  ]);
+  const humanTicket = ticket('human', '2026-03-01T00:00:00Z', [
+    move('BACKLOG', 'IN_PROGRESS', '2026-03-04T00:00:00Z'),
+    move('BACKLOG', 'IN_PROGRESS', '2026-03-04T00:00:01Z', 'workflow'),
+    move('IN_PROGRESS', 'IN_PROGRESS', '2026-03-06T00:00:00Z', 'rule:stale-work'),
+    move('IN_PROGRESS', 'DONE', '2026-03-08T00:00:00Z'),
+    move('IN_PROGRESS', 'DONE', '2026-03-08T00:00:01Z', 'workflow')
+  ]);
+  const waitingTicket = ticket('waiting', '2026-03-05T00:00:00Z', [
+    move('BACKLOG', 'IN_PROGRESS', '2026-03-06T00:00:00Z'),
+    move('BACKLOG', 'IN_PROGRESS', '2026-03-06T00:00:01Z', 'workflow'),
+    move('IN_PROGRESS', 'NEEDS_FEEDBACK', '2026-03-06T12:00:00Z', 'agent'),
+    move('NEEDS_FEEDBACK', 'NEEDS_FEEDBACK', '2026-03-08T12:00:00Z', 'rule:stale-feedback')
+  ]);
+
+  const analytics = buildFlowAnalytics([agentTicket, humanTicket, waitingTicket], DEFAULT_WORKFLOW, from, to);
+
+  it('should compute cycle and lead times of completed tickets', () => {
+    expect(analytics.completed).toEqual([
+      expect.objectContaining({ ticketId: 'agent', cycleHours: 36, leadHours: 60, workedBy: 'agent' }),
+      expect.objectContaining({ ticketId: 'human', cycleHours: 96, leadHours: 168, workedBy: 'human' })
+    ]);
+    expect(analytics.cycleTime.p50).toBe(36);
+    expect(analytics.cycleTime.p95).toBe(96);
+  });
+
+  it('should not count tickets completed outside the period', () => {
+    const later = buildFlowAnalytics([humanTicket], DEFAULT_WORKFLOW, new Date('2026-03-09T00:00:00Z'), to);
+
+    expect(later.completed).toEqual([]);
+  });
+
+  it('should measure time in state and flag feedback as waiting on humans', () => {
+    const feedback = analytics.timeInState.find((state) => state.state === 'NEEDS_FEEDBACK');
+
+    expect(feedback).toMatchObject({ waitingOnHumans: true, visits: 2, ongoing: 1 });
+    // 10h answered, plus the open question from Mar 6 12:00 to the end of the period
+    expect(feedback?.totalHours).toBeCloseTo(10 + 4 * 24 + 12, 0);
+    expect(analytics.timeInState.find((state) => state.state === 'REVIEW')?.medianHours).toBe(12);
+  });
+
+  it('should compare agent-worked and human-worked tickets', () => {
+    const agents = analytics.actors.find((actor) => actor.workedBy === 'agent');
+    const humans = analytics.actors.find((actor) => actor.workedBy === 'human');
+
+    expect(agents).toMatchObject({ completed: 1, averageFeedbackHours: 10, transitions: 3 });
+    expect(agents?.cycleTime.p50).toBe(36);
+    expect(humans).toMatchObject({ completed: 1, averageFeedbackHours: 0, transitions: 7 });
+    expect(analytics.systemTransitions).toBe(1);
+  });
+
+  it('should not count workflow and rule rows as moves', () => {
+    const done = analytics.timeInState.find((state) => state.state === 'DONE');
+    const inProgress = analytics.timeInState.find((state) => state.state === 'IN_PROGRESS');
+
+    expect(done).toMatchObject({ visits: 2, ongoing: 2 });
+    // agent: two stays; human: one stay across the rule row; waiting: one stay
+    expect(inProgress?.visits).toBe(4);
+    expect(analytics.completed.find((ticket) => ticket.ticketId === 'human')?.workedBy).toBe('human');
+  });
+
+  it('should chart every day of the period in board order', () => {
+    expect(analytics.cumulativeFlow).toHaveLength(10);
+    expect(Object.keys(analytics.cumulativeFlow[0].counts)).toEqual(DEFAULT_WORKFLOW.states.map((s) => s.key));
+    expect(analytics.cumulativeFlow[9].counts).toMatchObject({ DONE: 2, NEEDS_FEEDBACK: 1 });
+  });
+});
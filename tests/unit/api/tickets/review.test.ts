@@ -0,0 +1,135 @@
+/**
+ * Ticket Review API Tests
+ *
+ * Approving a ticket whose worktree still has uncommitted work must land
+ * that work on the ticket branch before the worktree is removed.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+const { mockPrisma, mockTransition } = vi.hoisted(() => ({
+  mockPrisma: {
+    ticket: { findUnique: vi.fn(), update: vi.fn() }
+  },
+  mockTransition: vi.fn()
+}));
+
+vi.mock('$lib/server/prisma', () => ({ prisma: mockPrisma }));
+
+vi.mock('$lib/state-machine/ticket-state-machine', () => ({
+  ticketStateMachine: { transition: mockTransition }
+}));
+
+vi.mock('$lib/server/events', () => ({
+  publishTicketMoved: vi.fn()
+}));
+
+vi.mock('$lib/server/auth/route-guards', () => ({
+  getOptionalProjectRole: vi.fn().mockResolvedValue({ session: { user: { id: 'user-1' } }, role: 'MEMBER' })
+}));
+
+vi.mock('$lib/server/workflow/ticket-changes', () => ({
+  getLatestChangeSet: vi.fn().mockResolvedValue(null),
+  recordChangeSetReview: vi.fn()
+}));
+
+// The DONE workflow removes the worktree
+vi.mock('$lib/server/workflow/ticket-workflow', async () => {
+  const workspace = await import('$lib/server/workflow/ticket-workspace');
+  return {
+    handleTicketTransition: vi.fn(async () => {
+      const ticket = await mockPrisma.ticket.findUnique();
+      await workspace.releaseTicketWorkspace(ticket);
+      return { success: true };
+    })
+  };
+});
+
+import { POST } from '../../../../src/routes/api/tickets/[id]/review/+server';
+import { prepareTicketWorkspace } from '$lib/server/workflow/ticket-workspace';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim();
+}
+
+function reviewRequest(body: Record<string, unknown>) {
+  return {
+    params: { id: 'ticket-1' },
+    request: new Request('http://localhost/api/tickets/ticket-1/review', {
+      method: 'POST',
+      body: JSON.stringify(body)
+    })
+  } as unknown as Parameters<typeof POST>[0];
+}
+
+describe('POST /api/tickets/:id/review', () => {
+  let repo: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repo = mkdtempSync(path.join(tmpdir(), 'ticket-review-'));
+    git(repo, 'init', '-q');
+    git(repo, 'config', 'user.email', 'test@example.com');
+    git(repo, 'config', 'user.name', 'Test');
+    writeFileSync(path.join(repo, 'README.md'), '# test\n');
+    git(repo, 'add', '.');
+    git(repo, 'commit', '-q', '-m', 'init');
+  });
+
+  afterEach(() => {
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('should commit uncommitted changes to the ticket branch when approving', async () => {
+    const workspace = await prepareTicketWorkspace({
+      id: 'ticket-1',
+      title: 'Add search',
+      project: { workspacePath: repo }
+    });
+
+    // Agent work left uncommitted, captured for review with --intent-to-add
+    writeFileSync(path.join(workspace!.path, 'README.md'), '# test\n\nSearch docs\n');
+    writeFileSync(path.join(workspace!.path, 'search.ts'), 'export const search = 1;\n');
+    git(workspace!.path, 'add', '--all', '--intent-to-add');
+
+    mockPrisma.ticket.findUnique.mockResolvedValue({
+      id: 'ticket-1',
+      projectId: 'project-1',
+      status: 'REVIEW',
+      title: 'Add search',
+      worktreePath: workspace!.path,
+      project: { workspacePath: repo }
+    });
+    mockTransition.mockResolvedValue({ id: 'ticket-1', status: 'DONE', position: 0 });
+
+    const response = await POST(reviewRequest({ decision: 'approve' }));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.commit).toBe(git(repo, 'rev-parse', workspace!.branch));
+    expect(existsSync(workspace!.path)).toBe(false);
+    expect(git(repo, 'show', `${workspace!.branch}:search.ts`)).toBe('export const search = 1;');
+    expect(git(repo, 'show', `${workspace!.branch}:README.md`)).toContain('Search docs');
+  });
+
+  it('should not commit when changes are requested', async () => {
+    mockPrisma.ticket.findUnique.mockResolvedValue({
+      id: 'ticket-1',
+      projectId: 'project-1',
+      status: 'REVIEW',
+      title: 'Add search',
+      worktreePath: null,
+      project: { workspacePath: repo }
+    });
+    mockTransition.mockResolvedValue({ id: 'ticket-1', status: 'IN_PROGRESS', position: 0 });
+
+    const response = await POST(reviewRequest({ decision: 'request-changes', comments: 'Add tests' }));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).commit).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Ticket Transition API Tests
+ *
+ * Who triggered a move is decided by the server: a `triggeredBy` sent in
+ * the body must not skip the per-transition role check.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockPrisma, mockTransition, mockHandleTransition, mockAgent } = vi.hoisted(() => ({
+  mockPrisma: {
+    ticket: { findUnique: vi.fn(), findMany: vi.fn() }
+  },
+  mockTransition: vi.fn(),
+  mockHandleTransition: vi.fn(),
+  mockAgent: { current: null as { agentId: string; ticketId: string } | null }
+}));
+
+vi.mock('$lib/server/prisma', () => ({ prisma: mockPrisma }));
+
+vi.mock('$lib/state-machine/ticket-state-machine', () => ({
+  ticketStateMachine: {
+    canTransition: vi.fn().mockReturnValue(true),
+    transition: mockTransition
+  }
+}));
+
+vi.mock('$lib/server/events', () => ({
+  publishTicketMoved: vi.fn()
+}));
+
+vi.mock('$lib/server/workflow/ticket-workflow', () => ({
+  handleTicketTransition: mockHandleTransition
+}));
+
+vi.mock('$lib/server/auth/route-guards', () => ({
+  getOptionalProjectRole: vi.fn().mockResolvedValue({ session: { user: { id: 'user-1' } }, role: 'VIEWER' })
+}));
+
+vi.mock('$lib/server/auth/agent-credentials', () => ({
+  authenticateAgent: vi.fn(() => mockAgent.current),
+  requireTicketAgent: vi.fn(() => mockAgent.current)
+}));
+
+import { POST } from '../../../../src/routes/api/tickets/[id]/transition/+server';
+
+function transitionRequest(body: Record<string, unknown>) {
+  return {
+    params: { id: 'ticket-1' },
+    request: new Request('http://localhost/api/tickets/ticket-1/transition', {
+      method: 'POST',
+      body: JSON.stringify(body)
+    })
+  } as unknown as Parameters<typeof POST>[0];
+}
+
+describe('POST /api/tickets/:id/transition', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAgent.current = null;
+    mockPrisma.ticket.findUnique.mockResolvedValue({
+      id: 'ticket-1',
+      projectId: 'project-1',
+      status: 'REVIEW',
+      workflowState: null,
+      dependencyIds: [],
+      project: { settings: {} }
+    });
+    mockTransition.mockResolvedValue({ id: 'ticket-1', status: 'DONE', position: 0 });
+    mockHandleTransition.mockResolvedValue({ success: true });
+  });
+
+  it.each([['system'], ['agent'], [undefined]])(
+    'should treat a signed-in caller as a user when the body says triggeredBy=%s',
+    async (claimed) => {
+      await POST(transitionRequest({ toState: 'DONE', triggeredBy: claimed }));
+
+      expect(mockTransition).toHaveBeenCalledWith('ticket-1', 'DONE', expect.objectContaining({
+        triggeredBy: 'user',
+        role: 'VIEWER'
+      }));
+      expect(mockHandleTransition).toHaveBeenCalledWith('ticket-1', 'REVIEW', 'DONE', 'user');
+    }
+  );
+
+  it('should attribute moves with a verified agent credential to the agent', async () => {
+    mockAgent.current = { agentId: 'agent-1', ticketId: 'ticket-1' };
+
+    await POST(transitionRequest({ toState: 'DONE', triggeredBy: 'user' }));
+
+    expect(mockTransition).toHaveBeenCalledWith('ticket-1', 'DONE', expect.objectContaining({
+      triggeredBy: 'agent',
+      role: undefined
+    }));
+    expect(mockHandleTransition).toHaveBeenCalledWith('ticket-1', 'REVIEW', 'DONE', 'agent');
+  });
+});
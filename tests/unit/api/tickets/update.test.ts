@@ -0,0 +1,108 @@
+/**
+ * Ticket Update API Tests
+ *
+ * Writes that carry a version are checked against the ticket's persisted
+ * updatedAt, so a stale edit is rejected whichever server instance (or
+ * restart) served the read.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockPrisma, mockTx, mockUpdateTicketFields } = vi.hoisted(() => {
+  const mockTx = { ticket: { updateMany: vi.fn() } };
+  return {
+    mockTx,
+    mockPrisma: {
+      ticket: { findUnique: vi.fn() },
+      $transaction: vi.fn((fn: (tx: unknown) => unknown) => fn(mockTx))
+    },
+    mockUpdateTicketFields: vi.fn()
+  };
+});
+
+vi.mock('$lib/server/prisma', () => ({ prisma: mockPrisma }));
+
+vi.mock('$lib/server/events', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('$lib/server/events')>()),
+  publishTicketUpdated: vi.fn()
+}));
+
+vi.mock('$lib/server/time-travel', () => ({
+  updateTicketFields: mockUpdateTicketFields
+}));
+
+vi.mock('$lib/server/auth/route-guards', () => ({
+  getOptionalSession: vi.fn().mockResolvedValue({ user: { id: 'user-1' } })
+}));
+
+import { PUT } from '../../../../src/routes/api/tickets/[id]/+server';
+
+const readAt = new Date('2026-01-01T10:00:00.000Z');
+const writtenAt = new Date('2026-01-01T10:05:00.000Z');
+
+const ticket = {
+  id: 'ticket-1',
+  projectId: 'project-1',
+  title: 'Original',
+  description: null,
+  priority: 'MEDIUM',
+  labels: [],
+  position: 0,
+  updatedAt: readAt
+};
+
+function updateRequest(body: Record<string, unknown>) {
+  return {
+    params: { id: 'ticket-1' },
+    request: new Request('http://localhost/api/tickets/ticket-1', {
+      method: 'PUT',
+      body: JSON.stringify(body)
+    })
+  } as unknown as Parameters<typeof PUT>[0];
+}
+
+describe('PUT /api/tickets/:id', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockTx.ticket.updateMany.mockResolvedValue({ count: 1 });
+    mockUpdateTicketFields.mockResolvedValue({ ...ticket, title: 'Mine', updatedAt: writtenAt });
+  });
+
+  it('should save a write made against the current version and return the new one', async () => {
+    mockPrisma.ticket.findUnique.mockResolvedValue(ticket);
+
+    const response = await PUT(updateRequest({ title: 'Mine', version: readAt.getTime() }));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).version).toBe(writtenAt.getTime());
+    expect(mockTx.ticket.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'ticket-1', updatedAt: readAt } })
+    );
+  });
+
+  it('should reject a write made against an older version', async () => {
+    mockPrisma.ticket.findUnique.mockResolvedValue({ ...ticket, updatedAt: writtenAt });
+
+    const response = await PUT(updateRequest({ title: 'Mine', version: readAt.getTime() }));
+    const data = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(data.code).toBe('VERSION_CONFLICT');
+    expect(data.currentVersion).toBe(writtenAt.getTime());
+    expect(mockUpdateTicketFields).not.toHaveBeenCalled();
+  });
+
+  it('should reject a write when another write lands between the read and the update', async () => {
+    mockPrisma.ticket.findUnique
+      .mockResolvedValueOnce(ticket)
+      .mockResolvedValueOnce({ ...ticket, updatedAt: writtenAt });
+    mockTx.ticket.updateMany.mockResolvedValue({ count: 0 });
+
+    const response = await PUT(updateRequest({ title: 'Mine', version: readAt.getTime() }));
+    const data = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(data.currentVersion).toBe(writtenAt.getTime());
+    expect(mockUpdateTicketFields).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Agent Credential Tests
+ *
+ * Tests minting and verifying signed agent credentials, their expiry with
+ * the job or after the maximum lifetime, and the per-ticket request guard.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockExecutor } = vi.hoisted(() => ({
+  mockExecutor: { getJobStatus: vi.fn() }
+}));
+
+vi.mock('$lib/server/claude-flow/executor', () => ({ commandExecutor: mockExecutor }));
+
+import {
+  AGENT_CREDENTIAL_ENV,
+  AGENT_CREDENTIAL_HEADER,
+  AGENT_CREDENTIAL_PREFIX,
+  MAX_AGENT_CREDENTIAL_TTL_MS,
+  agentCredentialEnv,
+  authenticateAgent,
+  jobCredentialEnv,
+  mintAgentCredential,
+  requireTicketAgent,
+  verifyAgentCredential
+} from '$lib/server/auth/agent-credentials';
+
+const claims = {
+  ticketId: 'ticket-1',
+  projectId: 'project-1',
+  jobId: 'job-1',
+  agentId: 'ticket-1-coder'
+};
+
+function createEvent(credential?: string) {
+  const headers: Record<string, string> = credential ? { [AGENT_CREDENTIAL_HEADER]: credential } : {};
+  return {
+    request: new Request('http://localhost/api/tickets/ticket-1/progress', { method: 'POST', headers })
+  } as any;
+}
+
+describe('agent credentials', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockExecutor.getJobStatus.mockReturnValue('running');
+  });
+
+  it('should mint credentials that verify to their claims', () => {
+    const credential = mintAgentCredential(claims);
+
+    expect(credential.startsWith(AGENT_CREDENTIAL_PREFIX)).toBe(true);
+    expect(verifyAgentCredential(credential)).toMatchObject(claims);
+    expect(mockExecutor.getJobStatus).toHaveBeenCalledWith('job-1');
+  });
+
+  it('should reject tampered claims', () => {
+    const credential = mintAgentCredential(claims);
+    const [encoded, signature] = credential.slice(AGENT_CREDENTIAL_PREFIX.length).split('.');
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8'));
+    const forged = Buffer.from(JSON.stringify({ ...payload, ticketId: 'ticket-2' })).toString('base64url');
+
+    expect(verifyAgentCredential(`${AGENT_CREDENTIAL_PREFIX}${forged}.${signature}`)).toBeNull();
+    expect(verifyAgentCredential('cfa_garbage')).toBeNull();
+    expect(verifyAgentCredential('cfk_not-an-agent-credential')).toBeNull();
+  });
+
+  it('should expire once the job is no longer queued or running', () => {
+    const credential = mintAgentCredential(claims);
+
+    mockExecutor.getJobStatus.mockReturnValue('pending');
+    expect(verifyAgentCredential(credential)).not.toBeNull();
+
+    for (const status of ['completed', 'failed', 'cancelled', undefined]) {
+      mockExecutor.getJobStatus.mockReturnValue(status);
+      expect(verifyAgentCredential(credential)).toBeNull();
+    }
+  });
+
+  it('should expire after the maximum lifetime', () => {
+    const issuedAt = new Date('2026-01-01T00:00:00Z');
+    const credential = mintAgentCredential(claims, issuedAt);
+
+    expect(verifyAgentCredential(credential, new Date(issuedAt.getTime() + 1000))).not.toBeNull();
+    expect(verifyAgentCredential(credential, new Date(issuedAt.getTime() + MAX_AGENT_CREDENTIAL_TTL_MS))).toBeNull();
+  });
+
+  it('should give jobs their credential, ticket and agent in the environment', () => {
+    const env = agentCredentialEnv(claims);
+
+    expect(verifyAgentCredential(env[AGENT_CREDENTIAL_ENV])).toMatchObject(claims);
+    expect(env.CF_KANBAN_TICKET_ID).toBe('ticket-1');
+    expect(env.CF_KANBAN_AGENT_ID).toBe('ticket-1-coder');
+  });
+});
+
+describe('jobCredentialEnv', () => {
+  it('should mint a credential for the job when it runs', () => {
+    mockExecutor.getJobStatus.mockReturnValue('running');
+
+    const env = jobCredentialEnv('job-2', {
+      command: 'agent',
+      ticketId: 'ticket-1',
+      projectId: 'project-1',
+      metadata: { agentId: 'ticket-1-coder' }
+    });
+
+    expect(verifyAgentCredential(env[AGENT_CREDENTIAL_ENV])).toMatchObject({ ...claims, jobId: 'job-2' });
+  });
+
+  it('should give jobs that are not run as an agent of a ticket nothing', () => {
+    expect(jobCredentialEnv('job-2', { command: 'agent', ticketId: 'ticket-1', projectId: 'project-1' })).toEqual({});
+    expect(jobCredentialEnv('job-2', { command: 'memory', metadata: { agentId: 'x' } })).toEqual({});
+  });
+});
+
+describe('agent request guards', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockExecutor.getJobStatus.mockReturnValue('running');
+  });
+
+  it('should not authenticate requests without a credential', () => {
+    expect(authenticateAgent(createEvent())).toBeNull();
+  });
+
+  it('should reject invalid credentials with 401', () => {
+    expect(() => authenticateAgent(createEvent('cfa_invalid.signature'))).toThrow(
+      expect.objectContaining({ status: 401 })
+    );
+  });
+
+  it('should require a credential for the ticket', () => {
+    expect(() => requireTicketAgent(createEvent(), 'ticket-1')).toThrow(expect.objectContaining({ status: 401 }));
+
+    const event = createEvent(mintAgentCredential(claims));
+    expect(requireTicketAgent(event, 'ticket-1')).toMatchObject({ agentId: 'ticket-1-coder' });
+    expect(() => requireTicketAgent(event, 'ticket-2')).toThrow(expect.objectContaining({ status: 403 }));
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * API Authorization Tests
+ *
+ * Enumerates every API route to check it declares an access policy, and
+ * tests enforcement: project permissions resolved from tickets and query
+ * strings, admin-only routes, agent credentials and PERMISSION_DENIED
+ * audit entries.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readdirSync, readFileSync } from 'fs';
+import { join, relative, sep } from 'path';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    ticket: { findUnique: vi.fn() }
+  }
+}));
+
+vi.mock('$lib/server/prisma', () => ({ prisma: mockPrisma }));
+
+vi.mock('$lib/server/auth/user-service', () => ({
+  getUserProjectRole: vi.fn()
+}));
+
+vi.mock('$lib/server/auth/api-tokens', () => ({
+  apiTokenService: { authenticate: vi.fn() }
+}));
+
+vi.mock('$lib/server/admin/audit-service', () => ({
+  auditService: { log: vi.fn() }
+}));
+
+vi.mock('$lib/server/claude-flow/executor', () => ({
+  commandExecutor: { getJobStatus: vi.fn().mockReturnValue('running') }
+}));
+
+vi.mock('$lib/server/transfer', () => ({
+  transferService: { getTransferHistory: vi.fn() }
+}));
+
+import {
+  API_ROUTE_POLICIES,
+  authorizeApiRequest,
+  getApiRoutePolicy
+} from '$lib/server/auth/api-authorization';
+import { Permission, Role } from '$lib/server/auth/permissions';
+import { getUserProjectRole } from '$lib/server/auth/user-service';
+import { auditService } from '$lib/server/admin/audit-service';
+import { apiTokenService } from '$lib/server/auth/api-tokens';
+import { AGENT_CREDENTIAL_HEADER, mintAgentCredential } from '$lib/server/auth/agent-credentials';
+
+const API_DIR = join(process.cwd(), 'src', 'routes', 'api');
+const METHOD_PATTERN = /export\s+(?:const|async\s+function|function)\s+(GET|POST|PUT|PATCH|DELETE)\b/g;
+
+/**
+ * Every +server.ts under src/routes/api with its route id and methods
+ */
+function listApiRoutes(dir = API_DIR): { routeId: string; methods: string[] }[] {
+  const routes: { routeId: string; methods: string[] }[] = [];
+
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      routes.push(...listApiRoutes(path));
+    } else if (entry.name === '+server.ts') {
+      const routeId = '/' + relative(join(process.cwd(), 'src', 'routes'), dir).split(sep).join('/');
+      const methods = [...readFileSync(path, 'utf-8').matchAll(METHOD_PATTERN)].map((match) => match[1]);
+      routes.push({ routeId, methods });
+    }
+  }
+
+  return routes;
+}
+
+function createEvent(
+  routeId: string,
+  options: {
+    session?: any;
+    method?: string;
+    params?: Record<string, string>;
+    path?: string;
+    headers?: Record<string, string>;
+  } = {}
+) {
+  const url = new URL(`http://localhost${options.path ?? routeId}`);
+  return {
+    locals: { auth: vi.fn().mockResolvedValue(options.session ?? null) },
+    url,
+    route: { id: routeId },
+    params: options.params ?? {},
+    request: new Request(url, { method: options.method ?? 'GET', headers: options.headers })
+  } as any;
+}
+
+function agentHeaders(ticketId: string) {
+  const credential = mintAgentCredential({
+    ticketId,
+    projectId: 'project-1',
+    jobId: 'job-1',
+    agentId: 'agent-1'
+  });
+  return { [AGENT_CREDENTIAL_HEADER]: credential };
+}
+
+function tokenHeaders(scopes: string[]) {
+  (apiTokenService.authenticate as any).mockResolvedValue({
+    user: createSession().user,
+    tokenId: 'token-1',
+    scopes,
+    serviceAccountId: null,
+    projectId: null
+  });
+  return { authorization: 'Bearer cfk_test' };
+}
+
+function createSession(role = 'MEMBER') {
+  return {
+    user: { id: 'user-123', email: 'test@example.com', role, isActive: true }
+  };
+}
+
+describe('API route policies', () => {
+  const routes = listApiRoutes();
+
+  it('should find the API routes', () => {
+    expect(routes.length).toBeGreaterThan(50);
+  });
+
+  it('should declare a policy for every method of every API route', () => {
+    const missing = routes.flatMap(({ routeId, methods }) =>
+      methods.filter((method) => !getApiRoutePolicy(routeId, method)).map((method) => `${method} ${routeId}`)
+    );
+
+    expect(missing).toEqual([]);
+  });
+
+  it('should not declare policies for routes or methods that do not exist', () => {
+    const existing = new Set(routes.flatMap(({ routeId, methods }) => methods.map((m) => `${m} ${routeId}`)));
+    const stale = Object.entries(API_ROUTE_POLICIES).flatMap(([routeId, policies]) =>
+      Object.keys(policies)
+        .map((method) => `${method} ${routeId}`)
+        .filter((key) => !existing.has(key))
+    );
+
+    expect(stale).toEqual([]);
+  });
+
+  it('should only leave health checks and metrics public', () => {
+    const publicRoutes = Object.entries(API_ROUTE_POLICIES)
+      .filter(([, policies]) => Object.values(policies).some((policy) => policy?.access === 'public'))
+      .map(([routeId]) => routeId);
+
+    expect(publicRoutes.every((routeId) => /^\/api\/(health|metrics)/.test(routeId))).toBe(true);
+  });
+
+  it('should require destructive ticket and project permissions', () => {
+    expect(getApiRoutePolicy('/api/tickets/[id]', 'DELETE')).toMatchObject({
+      access: 'project',
+      permission: Permission.TICKET_DELETE
+    });
+    expect(getApiRoutePolicy('/api/projects/[id]', 'DELETE')).toMatchObject({
+      access: 'project',
+      permission: Permission.PROJECT_DELETE
+    });
+  });
+});
+
+describe('authorizeApiRequest', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.ticket.findUnique.mockResolvedValue({ projectId: 'project-1' });
+  });
+
+  it('should deny a viewer deleting a ticket and audit the denial', async () => {
+    (getUserProjectRole as any).mockResolvedValue(Role.VIEWER);
+    const event = createEvent('/api/tickets/[id]', {
+      session: createSession(),
+      method: 'DELETE',
+      params: { id: 'ticket-1' },
+      path: '/api/tickets/ticket-1'
+    });
+
+    await expect(authorizeApiRequest(event)).rejects.toMatchObject({ status: 403 });
+
+    expect(getUserProjectRole).toHaveBeenCalledWith('user-123', 'project-1');
+    expect(auditService.log).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'user-123',
+        action: 'PERMISSION_DENIED',
+        entityType: 'Project',
+        entityId: 'project-1',
+        metadata: expect.objectContaining({
+          route: '/api/tickets/[id]',
+          method: 'DELETE',
+          permission: Permission.TICKET_DELETE
+        })
+      })
+    );
+  });
+
+  it('should allow an admin of the ticket\'s project to delete it', async () => {
+    (getUserProjectRole as any).mockResolvedValue(Role.ADMIN);
+    const event = createEvent('/api/tickets/[id]', {
+      session: createSession(),
+      method: 'DELETE',
+      params: { id: 'ticket-1' }
+    });
+
+    await expect(authorizeApiRequest(event)).resolves.toBeUndefined();
+    expect(auditService.log).not.toHaveBeenCalled();
+  });
+
+  it('should leave unknown tickets to the handler', async () => {
+    mockPrisma.ticket.findUnique.mockResolvedValue(null);
+    const event = createEvent('/api/tickets/[id]', {
+      session: createSession(),
+      params: { id: 'missing' }
+    });
+
+    await expect(authorizeApiRequest(event)).resolves.toBeUndefined();
+    expect(getUserProjectRole).not.toHaveBeenCalled();
+  });
+
+  it('should require sign-in without auditing anonymous requests', async () => {
+    const event = createEvent('/api/projects/[id]', { params: { id: 'project-1' } });
+
+    await expect(authorizeApiRequest(event)).rejects.toMatchObject({ status: 401 });
+    expect(auditService.log).not.toHaveBeenCalled();
+  });
+
+  it('should let anyone call public routes', async () => {
+    await expect(authorizeApiRequest(createEvent('/api/health'))).resolves.toBeUndefined();
+  });
+
+  it('should deny routes without a policy', async () => {
+    const event = createEvent('/api/unknown', { session: createSession() });
+
+    await expect(authorizeApiRequest(event)).rejects.toMatchObject({ status: 403 });
+    expect(auditService.log).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'PERMISSION_DENIED', entityType: 'ApiRoute', entityId: '/api/unknown' })
+    );
+  });
+
+  it('should require the global admin role for admin routes', async () => {
+    const event = createEvent('/api/admin/settings', { session: createSession('MEMBER'), method: 'PUT' });
+    await expect(authorizeApiRequest(event)).rejects.toMatchObject({ status: 403 });
+
+    const adminEvent = createEvent('/api/admin/settings', { session: createSession('ADMIN'), method: 'PUT' });
+    await expect(authorizeApiRequest(adminEvent)).resolves.toBeUndefined();
+  });
+
+  it('should keep API tokens from writing through sign-in-only routes', async () => {
+    for (const routeId of ['/api/projects', '/api/notifications/webhooks']) {
+      const event = createEvent(routeId, { method: 'POST', headers: tokenHeaders([Permission.TICKET_CREATE]) });
+      await expect(authorizeApiRequest(event)).rejects.toMatchObject({ status: 403 });
+    }
+    expect(auditService.log).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'PERMISSION_DENIED', entityType: 'ApiRoute', entityId: '/api/projects' })
+    );
+
+    const read = createEvent('/api/projects', { headers: tokenHeaders([Permission.PROJECT_VIEW]) });
+    await expect(authorizeApiRequest(read)).resolves.toBeUndefined();
+
+    const browser = createEvent('/api/projects', { session: createSession(), method: 'POST' });
+    await expect(authorizeApiRequest(browser)).resolves.toBeUndefined();
+  });
+
+  it('should check every project named in the query string', async () => {
+    (getUserProjectRole as any).mockImplementation(async (_userId: string, projectId: string) =>
+      projectId === 'project-1' ? Role.VIEWER : null
+    );
+    const event = createEvent('/api/projects/compare', {
+      session: createSession(),
+      path: '/api/projects/compare?ids=project-1,project-2'
+    });
+
+    await expect(authorizeApiRequest(event)).rejects.toMatchObject({ status: 403 });
+    expect(auditService.log).toHaveBeenCalledWith(expect.objectContaining({ entityId: 'project-2' }));
+  });
+
+  it('should reject project routes that name no project', async () => {
+    for (const [routeId, method] of [
+      ['/api/projects/health', 'GET'],
+      ['/api/executor/status', 'GET'],
+      ['/api/projects/compare', 'GET'],
+      ['/api/tickets/suggestions', 'POST'],
+      ['/api/tickets/nlp-parse', 'POST']
+    ]) {
+      const event = createEvent(routeId, { session: createSession(), method });
+
+      await expect(authorizeApiRequest(event)).rejects.toMatchObject({ status: 400 });
+    }
+    expect(getUserProjectRole).not.toHaveBeenCalled();
+  });
+
+  it('should admit the agent of the ticket to agent routes without a session', async () => {
+    const event = createEvent('/api/tickets/[id]/progress', {
+      method: 'POST',
+      params: { id: 'ticket-1' },
+      headers: agentHeaders('ticket-1')
+    });
+
+    await expect(authorizeApiRequest(event)).resolves.toBeUndefined();
+    expect(getUserProjectRole).not.toHaveBeenCalled();
+  });
+
+  it('should reject agent routes without a credential, even for members', async () => {
+    (getUserProjectRole as any).mockResolvedValue(Role.ADMIN);
+    const event = createEvent('/api/tickets/[id]/progress', {
+      session: createSession(),
+      method: 'POST',
+      params: { id: 'ticket-1' }
+    });
+
+    await expect(authorizeApiRequest(event)).rejects.toMatchObject({ status: 401 });
+  });
+
+  it('should reject the agent of another ticket', async () => {
+    const event = createEvent('/api/tickets/[id]/transition', {
+      method: 'POST',
+      params: { id: 'ticket-2' },
+      headers: agentHeaders('ticket-1')
+    });
+
+    await expect(authorizeApiRequest(event)).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('should still check members on routes that also admit agents', async () => {
+    (getUserProjectRole as any).mockResolvedValue(Role.VIEWER);
+    const event = createEvent('/api/tickets/[id]/transition', {
+      session: createSession(),
+      method: 'POST',
+      params: { id: 'ticket-1' }
+    });
+
+    await expect(authorizeApiRequest(event)).rejects.toMatchObject({ status: 403 });
+  });
+});
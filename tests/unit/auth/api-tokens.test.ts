@@ -0,0 +1,241 @@
+/**
+ * API Token Tests
+ *
+ * Tests token validation, hashed storage, authentication of revoked and
+ * expired tokens and service account creation.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    apiToken: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn()
+    },
+    serviceAccount: {
+      findUnique: vi.fn(),
+      create: vi.fn()
+    },
+    projectMember: {
+      create: vi.fn()
+    },
+    user: {
+      create: vi.fn(),
+      delete: vi.fn()
+    },
+    $transaction: vi.fn()
+  }
+}));
+
+vi.mock('$lib/server/prisma', () => ({ prisma: mockPrisma }));
+
+import {
+  ApiTokenService,
+  ApiTokenNotFoundError,
+  ServiceAccountNotFoundError,
+  hashApiToken,
+  validateApiTokenInput,
+  validateServiceAccountInput
+} from '$lib/server/auth/api-tokens';
+import { Permission } from '$lib/server/auth/permissions';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+function tokenRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'token-1',
+    name: 'CI',
+    prefix: 'cfk_abcdefgh',
+    scopes: [Permission.PROJECT_VIEW],
+    serviceAccountId: null,
+    expiresAt: null,
+    lastUsedAt: null,
+    revokedAt: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    user: { id: 'user-1', email: 'alice@example.com', name: 'Alice', role: 'MEMBER', isActive: true },
+    serviceAccount: null,
+    ...overrides
+  };
+}
+
+describe('validateApiTokenInput', () => {
+  it('should accept a named token with known scopes', () => {
+    expect(validateApiTokenInput({ name: 'CI', scopes: [Permission.TICKET_CREATE] })).toBeNull();
+    expect(
+      validateApiTokenInput({ name: 'CI', scopes: [Permission.PROJECT_VIEW], expiresInDays: 30 })
+    ).toBeNull();
+  });
+
+  it('should reject missing names, empty or unknown scopes and bad expiries', () => {
+    expect(validateApiTokenInput({ name: ' ', scopes: [Permission.PROJECT_VIEW] })).toBe('name is required');
+    expect(validateApiTokenInput({ name: 'CI', scopes: [] })).toMatch(/at least one/);
+    expect(validateApiTokenInput({ name: 'CI', scopes: ['tickets:everything'] })).toMatch(/Unknown scope/);
+    expect(
+      validateApiTokenInput({ name: 'CI', scopes: [Permission.PROJECT_VIEW], expiresInDays: 0 })
+    ).toMatch(/expiresInDays/);
+    expect(
+      validateApiTokenInput({ name: 'CI', scopes: [Permission.PROJECT_VIEW], expiresInDays: 1.5 })
+    ).toMatch(/expiresInDays/);
+  });
+});
+
+describe('validateServiceAccountInput', () => {
+  it('should require a name and a project role below owner', () => {
+    expect(validateServiceAccountInput({ name: 'CI', role: 'MEMBER' })).toBeNull();
+    expect(validateServiceAccountInput({ name: 'CI', role: 'OWNER' })).toMatch(/role must be one of/);
+    expect(validateServiceAccountInput({ role: 'VIEWER' })).toBe('name is required');
+  });
+});
+
+describe('ApiTokenService', () => {
+  let service: ApiTokenService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new ApiTokenService();
+    mockPrisma.$transaction.mockImplementation(async (fn) => fn(mockPrisma));
+    mockPrisma.apiToken.create.mockImplementation(async ({ data }) => tokenRow({ ...data, id: 'token-new' }));
+    mockPrisma.apiToken.update.mockImplementation(async ({ where, data }) => tokenRow({ id: where.id, ...data }));
+  });
+
+  it('should store only the hash of a new token and return the token once', async () => {
+    const { token, secret } = await service.createPersonalToken('user-1', {
+      name: ' CI ',
+      scopes: [Permission.PROJECT_VIEW, Permission.PROJECT_VIEW]
+    });
+
+    expect(secret).toMatch(/^cfk_/);
+    const { data } = mockPrisma.apiToken.create.mock.calls[0][0];
+    expect(data.tokenHash).toBe(hashApiToken(secret));
+    expect(JSON.stringify(data)).not.toContain(secret);
+    expect(data).toMatchObject({
+      name: 'CI',
+      prefix: secret.slice(0, 12),
+      scopes: [Permission.PROJECT_VIEW],
+      userId: 'user-1',
+      serviceAccountId: null,
+      expiresAt: null
+    });
+    expect(token.id).toBe('token-new');
+  });
+
+  it('should authenticate a valid token as its user and record its use', async () => {
+    mockPrisma.apiToken.findUnique.mockResolvedValue(tokenRow());
+
+    const principal = await service.authenticate('cfk_secret', NOW);
+
+    expect(mockPrisma.apiToken.findUnique.mock.calls[0][0].where).toEqual({
+      tokenHash: hashApiToken('cfk_secret')
+    });
+    expect(principal).toMatchObject({
+      tokenId: 'token-1',
+      scopes: [Permission.PROJECT_VIEW],
+      projectId: null,
+      user: { id: 'user-1' }
+    });
+    expect(mockPrisma.apiToken.update).toHaveBeenCalledWith({
+      where: { id: 'token-1' },
+      data: { lastUsedAt: NOW }
+    });
+  });
+
+  it('should write the last use at most once a minute', async () => {
+    mockPrisma.apiToken.findUnique.mockResolvedValue(
+      tokenRow({ lastUsedAt: new Date(NOW.getTime() - 30 * 1000) })
+    );
+
+    await service.authenticate('cfk_secret', NOW);
+
+    expect(mockPrisma.apiToken.update).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown, revoked and expired tokens', async () => {
+    expect(await service.authenticate('not-a-token', NOW)).toBeNull();
+    expect(mockPrisma.apiToken.findUnique).not.toHaveBeenCalled();
+
+    mockPrisma.apiToken.findUnique.mockResolvedValueOnce(null);
+    expect(await service.authenticate('cfk_secret', NOW)).toBeNull();
+
+    mockPrisma.apiToken.findUnique.mockResolvedValueOnce(tokenRow({ revokedAt: new Date('2026-02-01') }));
+    expect(await service.authenticate('cfk_secret', NOW)).toBeNull();
+
+    mockPrisma.apiToken.findUnique.mockResolvedValueOnce(tokenRow({ expiresAt: NOW }));
+    expect(await service.authenticate('cfk_secret', NOW)).toBeNull();
+  });
+
+  it('should limit service account tokens to the account\'s project', async () => {
+    mockPrisma.apiToken.findUnique.mockResolvedValue(
+      tokenRow({ serviceAccountId: 'sa-1', serviceAccount: { projectId: 'project-1' } })
+    );
+
+    const principal = await service.authenticate('cfk_secret', NOW);
+
+    expect(principal).toMatchObject({ serviceAccountId: 'sa-1', projectId: 'project-1' });
+  });
+
+  it('should keep the first revocation time', async () => {
+    const revokedAt = new Date('2026-02-01T00:00:00Z');
+    mockPrisma.apiToken.findFirst.mockResolvedValue({ id: 'token-1', revokedAt });
+
+    await service.revokePersonalToken('user-1', 'token-1');
+
+    expect(mockPrisma.apiToken.update.mock.calls[0][0].data).toEqual({ revokedAt });
+  });
+
+  it('should not revoke another user\'s token', async () => {
+    mockPrisma.apiToken.findFirst.mockResolvedValue(null);
+
+    await expect(service.revokePersonalToken('user-2', 'token-1')).rejects.toThrow(ApiTokenNotFoundError);
+    expect(mockPrisma.apiToken.findFirst.mock.calls[0][0].where).toEqual({
+      id: 'token-1',
+      userId: 'user-2',
+      serviceAccountId: null
+    });
+  });
+
+  it('should create a service account as a project member with its role', async () => {
+    mockPrisma.user.create.mockResolvedValue({ id: 'user-sa' });
+    mockPrisma.serviceAccount.create.mockImplementation(async ({ data }) => ({
+      id: 'sa-1',
+      ...data,
+      createdAt: NOW
+    }));
+
+    const account = await service.createServiceAccount('project-1', 'user-1', {
+      name: 'Deploy bot',
+      role: 'MEMBER'
+    });
+
+    expect(mockPrisma.user.create.mock.calls[0][0].data.email).toMatch(/^service-account-[0-9a-f]+@project-1\.invalid$/);
+    expect(mockPrisma.projectMember.create).toHaveBeenCalledWith({
+      data: { projectId: 'project-1', userId: 'user-sa', role: 'MEMBER' }
+    });
+    expect(account).toMatchObject({ id: 'sa-1', name: 'Deploy bot', role: 'MEMBER', tokens: [] });
+  });
+
+  it('should issue service account tokens only on the account\'s project', async () => {
+    mockPrisma.serviceAccount.findUnique.mockResolvedValue({
+      id: 'sa-1',
+      userId: 'user-sa',
+      projectId: 'project-1'
+    });
+
+    await expect(
+      service.createServiceAccountToken('project-2', 'sa-1', { name: 'CI', scopes: [Permission.PROJECT_VIEW] })
+    ).rejects.toThrow(ServiceAccountNotFoundError);
+
+    await service.createServiceAccountToken('project-1', 'sa-1', {
+      name: 'CI',
+      scopes: [Permission.PROJECT_VIEW],
+      expiresInDays: 30
+    });
+
+    const { data } = mockPrisma.apiToken.create.mock.calls[0][0];
+    expect(data).toMatchObject({ userId: 'user-sa', serviceAccountId: 'sa-1' });
+    expect(data.expiresAt).toBeInstanceOf(Date);
+  });
+});
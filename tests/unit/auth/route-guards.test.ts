@@ -19,7 +19,13 @@ vi.mock('$lib/server/auth/user-service', () => ({
   getUserProjectRole: vi.fn()
 }));
 
+// Mock API token lookup
+vi.mock('$lib/server/auth/api-tokens', () => ({
+  apiTokenService: { authenticate: vi.fn() }
+}));
+
 import { getUserProjectRole } from '$lib/server/auth/user-service';
+import { apiTokenService } from '$lib/server/auth/api-tokens';
 
 // Mock request event
 function createMockEvent(session: any = null, pathname = '/api/test') {
@@ -34,6 +40,35 @@ function createMockEvent(session: any = null, pathname = '/api/test') {
   } as any;
 }
 
+// Mock request event carrying an API token
+function createBearerEvent(token = 'cfk_test', pathname = '/api/test', method = 'GET') {
+  return {
+    ...createMockEvent(null, pathname),
+    request: new Request(`http://localhost${pathname}`, {
+      method,
+      headers: { Authorization: `Bearer ${token}` }
+    })
+  } as any;
+}
+
+// Mock token principal
+function createMockPrincipal(overrides: any = {}) {
+  return {
+    tokenId: 'token-1',
+    scopes: [Permission.PROJECT_VIEW],
+    serviceAccountId: null,
+    projectId: null,
+    user: {
+      id: 'user-123',
+      email: 'test@example.com',
+      name: 'Test User',
+      role: 'MEMBER',
+      isActive: true
+    },
+    ...overrides
+  };
+}
+
 // Mock session
 function createMockSession(overrides: any = {}) {
   return {
@@ -191,4 +226,109 @@ describe('Route Guards', () => {
       expect(result).toBeNull();
     });
   });
+
+  describe('API tokens', () => {
+    it('should authenticate a request with a bearer token', async () => {
+      (apiTokenService.authenticate as any).mockResolvedValue(createMockPrincipal());
+      const event = createBearerEvent();
+
+      const session = await requireAuth(event);
+
+      expect(apiTokenService.authenticate).toHaveBeenCalledWith('cfk_test');
+      expect(session.user.id).toBe('user-123');
+      expect(session.token?.scopes).toEqual([Permission.PROJECT_VIEW]);
+      expect(event.locals.auth).not.toHaveBeenCalled();
+    });
+
+    it('should throw 401 for an invalid token', async () => {
+      (apiTokenService.authenticate as any).mockResolvedValue(null);
+
+      await expect(requireAuth(createBearerEvent())).rejects.toMatchObject({ status: 401 });
+    });
+
+    it('should reject tokens for global role checks', async () => {
+      (apiTokenService.authenticate as any).mockResolvedValue(createMockPrincipal());
+
+      await expect(requireRole(createBearerEvent(), Role.VIEWER)).rejects.toMatchObject({
+        status: 403
+      });
+    });
+
+    it('should allow a permission within the token scopes', async () => {
+      (apiTokenService.authenticate as any).mockResolvedValue(
+        createMockPrincipal({ scopes: [Permission.TICKET_CREATE] })
+      );
+      (getUserProjectRole as any).mockResolvedValue(Role.MEMBER);
+
+      const result = await requireProjectPermission(
+        createBearerEvent(),
+        'project-123',
+        Permission.TICKET_CREATE
+      );
+
+      expect(result.role).toBe(Role.MEMBER);
+    });
+
+    it('should throw 403 for a permission outside the token scopes', async () => {
+      (apiTokenService.authenticate as any).mockResolvedValue(createMockPrincipal());
+      (getUserProjectRole as any).mockResolvedValue(Role.OWNER);
+
+      await expect(
+        requireProjectPermission(createBearerEvent(), 'project-123', Permission.TICKET_CREATE)
+      ).rejects.toMatchObject({ status: 403 });
+    });
+
+    it('should require the scope matching a minimum project role', async () => {
+      (apiTokenService.authenticate as any).mockResolvedValue(createMockPrincipal());
+      (getUserProjectRole as any).mockResolvedValue(Role.ADMIN);
+      const event = createBearerEvent();
+
+      await expect(requireProjectMember(event, 'project-123')).resolves.toMatchObject({
+        role: Role.ADMIN
+      });
+      await expect(
+        requireProjectMember(event, 'project-123', Role.MEMBER)
+      ).rejects.toMatchObject({ status: 403 });
+    });
+
+    it('should limit service account tokens to their project', async () => {
+      (apiTokenService.authenticate as any).mockResolvedValue(
+        createMockPrincipal({ serviceAccountId: 'sa-1', projectId: 'project-123' })
+      );
+      (getUserProjectRole as any).mockResolvedValue(Role.VIEWER);
+
+      await expect(
+        requireProjectPermission(createBearerEvent(), 'project-456', Permission.PROJECT_VIEW)
+      ).rejects.toMatchObject({ status: 403 });
+    });
+
+    it('should reject writes with a read-only token on sign-in routes', async () => {
+      (apiTokenService.authenticate as any).mockResolvedValue(
+        createMockPrincipal({ scopes: [Permission.PROJECT_VIEW, Permission.TICKET_VIEW] })
+      );
+
+      await expect(
+        requireAuth(createBearerEvent('cfk_test', '/api/projects', 'POST'))
+      ).rejects.toMatchObject({ status: 403 });
+      await expect(requireAuth(createBearerEvent('cfk_test', '/api/projects'))).resolves.toMatchObject({
+        user: { id: 'user-123' }
+      });
+    });
+
+    it('should allow writes with a token that has a write scope', async () => {
+      (apiTokenService.authenticate as any).mockResolvedValue(
+        createMockPrincipal({ scopes: [Permission.TICKET_CREATE] })
+      );
+
+      await expect(
+        requireAuth(createBearerEvent('cfk_test', '/api/projects', 'POST'))
+      ).resolves.toMatchObject({ user: { id: 'user-123' } });
+    });
+
+    it('should return null from getOptionalSession for an invalid token', async () => {
+      (apiTokenService.authenticate as any).mockResolvedValue(null);
+
+      expect(await getOptionalSession(createBearerEvent())).toBeNull();
+    });
+  });
 });
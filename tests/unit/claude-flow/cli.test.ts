@@ -6,7 +6,12 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { CLIError } from '$lib/server/claude-flow/cli';
+import {
+	CLIError,
+	createLineSplitter,
+	killProcessTree,
+	waitForProcessTreeExit
+} from '$lib/server/claude-flow/cli';
 
 describe('CLIError', () => {
 	it('should have correct name', () => {
@@ -57,5 +62,98 @@ describe('CLIError', () => {
 	});
 });
 
+describe('createLineSplitter', () => {
+	it('should emit complete lines across chunk boundaries', () => {
+		const lines: string[] = [];
+		const splitter = createLineSplitter(line => lines.push(line));
+
+		splitter.push('first li');
+		expect(lines).toEqual([]);
+
+		splitter.push('ne\r\nsecond line\n\nthi');
+		expect(lines).toEqual(['first line', 'second line']);
+
+		splitter.push('rd');
+		splitter.flush();
+		expect(lines).toEqual(['first line', 'second line', 'third']);
+	});
+
+	it('should not emit anything on flush without trailing output', () => {
+		const onLine = vi.fn();
+		const splitter = createLineSplitter(onLine);
+
+		splitter.push('done\n');
+		splitter.flush();
+
+		expect(onLine).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('killProcessTree', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it('should send SIGTERM to the process group, then SIGKILL after the grace period', () => {
+		const killSpy = vi.spyOn(process, 'kill').mockImplementation(() => true);
+		const target = process.platform === 'win32' ? 4321 : -4321;
+
+		expect(killProcessTree(4321, 1000)).toBe(true);
+		expect(killSpy).toHaveBeenCalledWith(target, 'SIGTERM');
+		expect(killSpy).not.toHaveBeenCalledWith(target, 'SIGKILL');
+
+		vi.advanceTimersByTime(1000);
+		expect(killSpy).toHaveBeenCalledWith(target, 'SIGKILL');
+	});
+
+	it('should return false when the process no longer exists', () => {
+		vi.spyOn(process, 'kill').mockImplementation(() => {
+			throw Object.assign(new Error('ESRCH'), { code: 'ESRCH' });
+		});
+
+		expect(killProcessTree(4321)).toBe(false);
+	});
+});
+
+describe('waitForProcessTreeExit', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	const gone = () => {
+		throw Object.assign(new Error('ESRCH'), { code: 'ESRCH' });
+	};
+
+	it('should resolve once the process group has exited', async () => {
+		const killSpy = vi.spyOn(process, 'kill').mockImplementation(() => true);
+
+		const wait = waitForProcessTreeExit(4321, 1000);
+		await vi.advanceTimersByTimeAsync(300);
+		killSpy.mockImplementation(gone);
+		await vi.advanceTimersByTimeAsync(100);
+
+		await expect(wait).resolves.toBe(true);
+	});
+
+	it('should give up when the process group outlives the timeout', async () => {
+		vi.spyOn(process, 'kill').mockImplementation(() => true);
+
+		const wait = waitForProcessTreeExit(4321, 1000);
+		await vi.advanceTimersByTimeAsync(1100);
+
+		await expect(wait).resolves.toBe(false);
+	});
+});
+
 // Integration-style tests for ClaudeFlowCLI would go in tests/integration/claude-flow/
 // Those would actually spawn processes and test real CLI behavior
@@ -26,6 +26,8 @@ import {
 	type JobResult,
 	type JobProgress
 } from '$lib/server/claude-flow/executor';
+import type { JobStore } from '$lib/server/claude-flow/job-store';
+import type { CommandOptions } from '$lib/server/claude-flow/cli';
 
 describe('CommandExecutor', () => {
 	let executor: CommandExecutor;
@@ -192,6 +194,29 @@ describe('CommandExecutor', () => {
 				})
 			);
 		});
+
+		it('should tag progress with the ticket and a line number', async () => {
+			mockExecute.mockImplementation(async (cmd, args, options) => {
+				options?.onOutput?.('thinking', false);
+				options?.onOutput?.('done', false);
+				return { exitCode: 0 };
+			});
+
+			const progressListener = vi.fn();
+			executor.on('job:progress', progressListener);
+
+			executor.submit({ command: 'test', projectId: 'proj-1', ticketId: 'ticket-1' });
+			executor.startProcessing();
+
+			await vi.waitFor(() => {
+				expect(progressListener).toHaveBeenCalledTimes(2);
+			});
+
+			expect(progressListener.mock.calls.map(([p]) => p)).toEqual([
+				expect.objectContaining({ projectId: 'proj-1', ticketId: 'ticket-1', output: 'thinking', line: 1 }),
+				expect.objectContaining({ projectId: 'proj-1', ticketId: 'ticket-1', output: 'done', line: 2 })
+			]);
+		});
 	});
 
 	describe('priority queue', () => {
@@ -309,6 +334,88 @@ describe('CommandExecutor', () => {
 
 			expect(result).toBe(false);
 		});
+
+		it('should stop a running job and keep its partial output', async () => {
+			mockExecute.mockImplementation(
+				(cmd: string, args: string[], options: CommandOptions) =>
+					new Promise((resolve) => {
+						options.onOutput?.('halfway', false);
+						options.signal?.addEventListener('abort', () =>
+							resolve({ stdout: 'halfway', stderr: '', exitCode: -1, timedOut: false, cancelled: true, duration: 5 })
+						);
+					})
+			);
+
+			const cancelledListener = vi.fn();
+			const failedListener = vi.fn();
+			executor.on('job:cancelled', cancelledListener);
+			executor.on('job:failed', failedListener);
+
+			const jobId = executor.submit({ command: 'test', ticketId: 'ticket-1' });
+			executor.startProcessing();
+			await vi.waitFor(() => expect(executor.getJobStatus(jobId)).toBe('running'));
+
+			expect(executor.cancel(jobId)).toBe(true);
+
+			await vi.waitFor(() => expect(cancelledListener).toHaveBeenCalledWith(jobId));
+			expect(failedListener).not.toHaveBeenCalled();
+			expect(executor.getJobStatus(jobId)).toBe('cancelled');
+			expect(executor.getJobResult(jobId)).toMatchObject({
+				status: 'cancelled',
+				error: 'Cancelled',
+				result: { stdout: 'halfway' }
+			});
+		});
+
+		it('should cancel pending and running jobs of a ticket', async () => {
+			mockExecute.mockImplementation(
+				(cmd: string, args: string[], options: CommandOptions) =>
+					new Promise((resolve) => {
+						options.signal?.addEventListener('abort', () =>
+							resolve({ stdout: '', stderr: '', exitCode: -1, timedOut: false, cancelled: true, duration: 1 })
+						);
+					})
+			);
+			executor.setMaxConcurrent(1);
+
+			const running = executor.submit({ command: 'a', ticketId: 'ticket-1' });
+			executor.startProcessing();
+			const pending = executor.submit({ command: 'b', ticketId: 'ticket-1' });
+			const other = executor.submit({ command: 'c', ticketId: 'ticket-2' });
+			await vi.waitFor(() => expect(executor.getJobStatus(running)).toBe('running'));
+
+			expect(executor.cancelByTicket('ticket-1').sort()).toEqual([pending, running].sort());
+			expect(executor.getPendingJobs().map((j) => j.id)).toEqual([other]);
+
+			await vi.waitFor(() => expect(executor.getJobStatus(running)).toBe('cancelled'));
+			executor.cancelByTicket('ticket-2');
+		});
+
+		it('should wait until a cancelled job\'s process has exited', async () => {
+			let exit: () => void = () => {};
+			mockExecute.mockImplementation(
+				(cmd: string, args: string[], options: CommandOptions) =>
+					new Promise((resolve) => {
+						// The process exits some time after the abort (SIGTERM grace period)
+						options.signal?.addEventListener('abort', () => {
+							exit = () =>
+								resolve({ stdout: '', stderr: '', exitCode: -1, timedOut: false, cancelled: true, duration: 1 });
+						});
+					})
+			);
+
+			const jobId = executor.submit({ command: 'a', ticketId: 'ticket-1' });
+			executor.startProcessing();
+			await vi.waitFor(() => expect(executor.getJobStatus(jobId)).toBe('running'));
+			executor.cancelByTicket('ticket-1');
+
+			expect(await executor.waitForTicketIdle('ticket-1', 200)).toBe(false);
+
+			const idle = executor.waitForTicketIdle('ticket-1', 5000);
+			exit();
+			expect(await idle).toBe(true);
+			expect(await executor.waitForTicketIdle('ticket-2', 0)).toBe(true);
+		});
 	});
 
 	describe('waitForJob', () => {
@@ -438,6 +545,177 @@ describe('CommandExecutor', () => {
 			});
 		});
 	});
+
+	describe('job store', () => {
+		function createStore(): JobStore & {
+			create: ReturnType<typeof vi.fn>;
+			update: ReturnType<typeof vi.fn>;
+		} {
+			return {
+				create: vi.fn().mockResolvedValue(undefined),
+				update: vi.fn().mockResolvedValue(undefined),
+				findUnfinished: vi.fn().mockResolvedValue([]),
+				findByTicket: vi.fn().mockResolvedValue([])
+			};
+		}
+
+		it('should persist submitted jobs without callbacks', async () => {
+			const store = createStore();
+			const exec = new CommandExecutor({ autoStart: false, store });
+
+			exec.submit({
+				id: 'job-1',
+				command: 'agent',
+				args: ['spawn'],
+				ticketId: 'ticket-1',
+				options: { timeout: 1000, onOutput: () => {} }
+			});
+			await exec.flushStore();
+
+			expect(store.create).toHaveBeenCalledWith(
+				expect.objectContaining({
+					id: 'job-1',
+					command: 'agent',
+					args: ['spawn'],
+					ticketId: 'ticket-1',
+					status: 'pending',
+					options: { timeout: 1000 }
+				})
+			);
+		});
+
+		it('should pass per-run env to the process without persisting it', async () => {
+			const store = createStore();
+			const exec = new CommandExecutor({ autoStart: false, store });
+			let run = 0;
+			exec.setJobEnvProvider((jobId) => ({ SECRET: `${jobId}-${++run}` }));
+			mockExecute.mockResolvedValue({ exitCode: 0 });
+
+			const jobId = exec.submit({ command: 'agent', options: { env: { FOO: 'bar' } } });
+			exec.startProcessing();
+			await exec.waitForJob(jobId, 5000);
+			await exec.flushStore();
+
+			expect(mockExecute.mock.calls[0][2].env).toEqual({ FOO: 'bar', SECRET: `${jobId}-1` });
+			expect(JSON.stringify(store.create.mock.calls)).not.toContain('SECRET');
+			expect(JSON.stringify(store.update.mock.calls)).not.toContain('SECRET');
+		});
+
+		it('should give restored jobs fresh per-run env', async () => {
+			const exec = new CommandExecutor({ autoStart: false });
+			exec.setJobEnvProvider(() => ({ SECRET: 'fresh' }));
+			mockExecute.mockResolvedValue({ exitCode: 0 });
+
+			exec.restore([
+				{
+					id: 'job-old',
+					command: 'agent',
+					args: [],
+					options: { env: { SECRET: 'expired' } },
+					priority: 'normal',
+					status: 'pending',
+					attempts: 1,
+					createdAt: new Date(0).toISOString()
+				}
+			]);
+			exec.startProcessing();
+			await exec.waitForJob('job-old', 5000);
+
+			expect(mockExecute.mock.calls[0][2].env).toEqual({ SECRET: 'fresh' });
+		});
+
+		it('should persist running and completed state in order', async () => {
+			const store = createStore();
+			const exec = new CommandExecutor({ autoStart: false, store });
+			mockExecute.mockImplementation(async (_cmd, _args, options: CommandOptions) => {
+				options.onSpawn?.(4242);
+				return { exitCode: 0, stdout: 'ok', stderr: '' };
+			});
+
+			const jobId = exec.submit({ command: 'test' });
+			exec.startProcessing();
+			await exec.waitForJob(jobId, 5000);
+			await exec.flushStore();
+
+			const statuses = store.update.mock.calls.map(([, update]) => update.status);
+			expect(store.create.mock.invocationCallOrder[0]).toBeLessThan(
+				store.update.mock.invocationCallOrder[0]
+			);
+			expect(statuses).toEqual(['running', undefined, 'completed']);
+			expect(store.update).toHaveBeenCalledWith(jobId, { pid: 4242 });
+			expect(store.update).toHaveBeenLastCalledWith(
+				jobId,
+				expect.objectContaining({ status: 'completed', pid: undefined })
+			);
+		});
+
+		it('should not fail jobs when the store errors', async () => {
+			const store = createStore();
+			store.create.mockRejectedValue(new Error('db down'));
+			const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+			const exec = new CommandExecutor({ autoStart: false, store });
+			mockExecute.mockResolvedValue({ exitCode: 0 });
+
+			const jobId = exec.submit({ command: 'test' });
+			exec.startProcessing();
+			const result = await exec.waitForJob(jobId, 5000);
+
+			await exec.flushStore();
+
+			expect(result.status).toBe('completed');
+			expect(errorSpy).toHaveBeenCalled();
+			errorSpy.mockRestore();
+		});
+	});
+
+	describe('restore', () => {
+		it('should re-enqueue pending jobs with their original IDs', () => {
+			const restored = executor.restore([
+				{
+					id: 'job-old',
+					command: 'agent',
+					args: ['spawn'],
+					options: {},
+					priority: 'normal',
+					status: 'pending',
+					attempts: 1,
+					createdAt: new Date(0).toISOString()
+				},
+				{
+					id: 'job-done',
+					command: 'agent',
+					args: [],
+					options: {},
+					priority: 'normal',
+					status: 'completed',
+					attempts: 1,
+					createdAt: new Date(0).toISOString()
+				}
+			]);
+
+			expect(restored).toEqual(['job-old']);
+			expect(executor.getJobStatus('job-old')).toBe('pending');
+			expect(executor.getJobStatus('job-done')).toBeNull();
+		});
+
+		it('should keep restored jobs ahead of newer jobs of the same priority', () => {
+			executor.submit({ id: 'job-new', command: 'test' });
+			executor.restore([
+				{
+					id: 'job-old',
+					command: 'test',
+					args: [],
+					options: {},
+					priority: 'normal',
+					status: 'pending',
+					attempts: 0,
+					createdAt: new Date(0).toISOString()
+				}
+			]);
+
+			expect(executor.getPendingJobs().map((j) => j.id)).toEqual(['job-old', 'job-new']);
+		});
+	});
 });
 
 describe('ExecutorWebSocketBridge', () => {
@@ -456,9 +734,53 @@ describe('ExecutorWebSocketBridge', () => {
 			'job:queued',
 			expect.objectContaining({
 				projectId: 'proj-1'
-			})
+			}),
+			'proj-1'
 		);
 
 		executor.stopProcessing();
 	});
+
+	it('should send job events to the ticket room without failure details', () => {
+		const executor = new CommandExecutor({ autoStart: false });
+		const emitFn = vi.fn();
+		new ExecutorWebSocketBridge(executor, emitFn);
+
+		const jobId = executor.submit({ command: 'test', projectId: 'proj-1', ticketId: 'ticket-1' });
+		executor.emit('job:failed', { jobId, status: 'failed', error: 'secret stderr', duration: 5 });
+
+		expect(emitFn).toHaveBeenCalledWith('job:queued', expect.objectContaining({ jobId }), 'ticket:ticket-1');
+		expect(emitFn).toHaveBeenCalledWith('job:failed', { jobId, duration: 5 }, 'ticket:ticket-1');
+	});
+
+	it('should not send events of jobs without a ticket or project to every socket', () => {
+		const executor = new CommandExecutor({ autoStart: false });
+		const emitFn = vi.fn();
+		new ExecutorWebSocketBridge(executor, emitFn);
+
+		const jobId = executor.submit({ command: 'test' });
+		executor.emit('job:completed', { jobId, status: 'completed', duration: 5 });
+
+		expect(emitFn).not.toHaveBeenCalled();
+	});
+
+	it('should send ticket output to the ticket room', () => {
+		const executor = new CommandExecutor({ autoStart: false });
+		const emitFn = vi.fn();
+		new ExecutorWebSocketBridge(executor, emitFn);
+
+		const withTicket: JobProgress = {
+			jobId: 'job-1',
+			ticketId: 'ticket-1',
+			status: 'running',
+			output: 'line',
+			line: 1,
+			timestamp: new Date().toISOString()
+		};
+		executor.emit('job:progress', withTicket);
+		executor.emit('job:progress', { ...withTicket, ticketId: undefined });
+
+		expect(emitFn).toHaveBeenCalledTimes(1);
+		expect(emitFn).toHaveBeenCalledWith('job:progress', withTicket, 'ticket:ticket-1');
+	});
 });
@@ -0,0 +1,120 @@
+/**
+ * Execution Output Log Tests
+ *
+ * Unit tests for buffering, persisting and pruning ticket execution output.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockPrisma } = vi.hoisted(() => ({
+	mockPrisma: {
+		executionLogLine: {
+			createMany: vi.fn(),
+			findMany: vi.fn(),
+			findFirst: vi.fn(),
+			deleteMany: vi.fn()
+		}
+	}
+}));
+
+vi.mock('$lib/server/prisma', () => ({ prisma: mockPrisma }));
+
+import { ExecutionLog, MAX_LOG_LINE_LENGTH } from '$lib/server/claude-flow/output-log';
+import { CommandExecutor, type JobProgress } from '$lib/server/claude-flow/executor';
+
+function progress(overrides: Partial<JobProgress> = {}): JobProgress {
+	return {
+		jobId: 'job-1',
+		ticketId: 'ticket-1',
+		status: 'running',
+		output: 'working',
+		line: 1,
+		timestamp: '2026-01-01T00:00:00.000Z',
+		...overrides
+	};
+}
+
+describe('ExecutionLog', () => {
+	let log: ExecutionLog;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockPrisma.executionLogLine.findFirst.mockResolvedValue(null);
+		log = new ExecutionLog(3, 60000);
+	});
+
+	it('should write buffered ticket output in one batch', async () => {
+		log.append(progress());
+		log.append(progress({ output: 'x'.repeat(MAX_LOG_LINE_LENGTH + 10), line: 2, isError: true }));
+		log.append(progress({ ticketId: undefined, output: 'ad-hoc job' }));
+
+		await log.flush();
+
+		expect(mockPrisma.executionLogLine.createMany).toHaveBeenCalledTimes(1);
+		const { data } = mockPrisma.executionLogLine.createMany.mock.calls[0][0];
+		expect(data).toHaveLength(2);
+		expect(data[0]).toMatchObject({ ticketId: 'ticket-1', jobId: 'job-1', line: 1, text: 'working', isError: false });
+		expect(data[1].text).toHaveLength(MAX_LOG_LINE_LENGTH);
+		expect(data[1].isError).toBe(true);
+	});
+
+	it('should prune lines beyond the retention limit', async () => {
+		mockPrisma.executionLogLine.findFirst.mockResolvedValue({ id: 42 });
+
+		log.append(progress());
+		await log.flush();
+
+		expect(mockPrisma.executionLogLine.findFirst).toHaveBeenCalledWith(
+			expect.objectContaining({ where: { ticketId: 'ticket-1' }, skip: 2 })
+		);
+		expect(mockPrisma.executionLogLine.deleteMany).toHaveBeenCalledWith({
+			where: { ticketId: 'ticket-1', id: { lt: 42 } }
+		});
+	});
+
+	it('should not fail when persisting fails', async () => {
+		const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+		mockPrisma.executionLogLine.createMany.mockRejectedValueOnce(new Error('db down'));
+
+		log.append(progress());
+		await expect(log.flush()).resolves.toBeUndefined();
+
+		expect(consoleSpy).toHaveBeenCalled();
+		consoleSpy.mockRestore();
+	});
+
+	it('should return the most recent lines oldest first', async () => {
+		mockPrisma.executionLogLine.findMany.mockResolvedValue([
+			{ ticketId: 'ticket-1', jobId: 'job-1', line: 2, text: 'second', isError: false, createdAt: new Date('2026-01-01T00:00:02Z') },
+			{ ticketId: 'ticket-1', jobId: 'job-1', line: 1, text: 'first', isError: false, createdAt: new Date('2026-01-01T00:00:01Z') }
+		]);
+
+		const lines = await log.getTicketLog('ticket-1', 10);
+
+		expect(mockPrisma.executionLogLine.findMany).toHaveBeenCalledWith({
+			where: { ticketId: 'ticket-1' },
+			orderBy: { id: 'desc' },
+			take: 3
+		});
+		expect(lines.map((l) => l.text)).toEqual(['first', 'second']);
+		expect(lines[0].timestamp).toBe('2026-01-01T00:00:01.000Z');
+	});
+
+	it('should capture executor output and flush when a job ends', async () => {
+		const executor = new CommandExecutor({ autoStart: false });
+		const detach = log.attach(executor);
+
+		executor.emit('job:progress', progress());
+		expect(mockPrisma.executionLogLine.createMany).not.toHaveBeenCalled();
+
+		executor.emit('job:completed', { jobId: 'job-1', status: 'completed' });
+		await vi.waitFor(() => {
+			expect(mockPrisma.executionLogLine.createMany).toHaveBeenCalledTimes(1);
+		});
+
+		detach();
+		executor.emit('job:progress', progress({ line: 2 }));
+		await log.flush();
+		expect(mockPrisma.executionLogLine.createMany).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,57 @@
+/**
+ * Comment Formatting Tests
+ *
+ * Tests for @mention parsing and the escaping Markdown renderer used for
+ * ticket comments.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractMentionHandles, getUserMentionHandle } from '$lib/utils/mentions';
+import { renderCommentMarkdown } from '$lib/utils/markdown';
+
+describe('extractMentionHandles', () => {
+  it('should extract unique lower-cased handles', () => {
+    expect(extractMentionHandles('@Alice please pair with @coder. Thanks @alice!')).toEqual([
+      'alice',
+      'coder'
+    ]);
+  });
+
+  it('should ignore email addresses and code', () => {
+    expect(
+      extractMentionHandles('Mail bob@example.com, see `@decorator` and\n```\n@Component\n```\n@carol')
+    ).toEqual(['carol']);
+  });
+
+  it('should use the local part of the email as user handle', () => {
+    expect(getUserMentionHandle({ email: 'Jane.Doe@example.com' })).toBe('jane.doe');
+  });
+});
+
+describe('renderCommentMarkdown', () => {
+  it('should escape HTML', () => {
+    expect(renderCommentMarkdown('<img src=x onerror="alert(1)">')).toBe(
+      '&lt;img src=x onerror=&quot;alert(1)&quot;&gt;'
+    );
+  });
+
+  it('should render emphasis, links, mentions and line breaks', () => {
+    const html = renderCommentMarkdown('**Done** by @alice\nsee [PR](https://example.com/pr/1)');
+
+    expect(html).toContain('<strong>Done</strong>');
+    expect(html).toContain('<span class="font-medium text-blue-600">@alice</span>');
+    expect(html).toContain('<br>');
+    expect(html).toContain('href="https://example.com/pr/1"');
+  });
+
+  it('should not turn non-http links into anchors', () => {
+    expect(renderCommentMarkdown('[x](javascript:alert(1))')).not.toContain('<a');
+  });
+
+  it('should render code verbatim', () => {
+    const html = renderCommentMarkdown('Run `npm test` then\n```ts\nconst a = **b**;\n```');
+
+    expect(html).toContain('<code class="bg-gray-100 px-1 rounded text-xs">npm test</code>');
+    expect(html).toContain('<pre class="bg-gray-100 rounded p-2 text-xs overflow-x-auto my-1"><code>const a = **b**;\n</code></pre>');
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Ticket Comment Service Tests
+ *
+ * Tests for threading, mention resolution, notifications, editing,
+ * deleting and reactions.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockPrisma, mockDispatch, mockEmit } = vi.hoisted(() => ({
+  mockPrisma: {
+    ticketComment: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn()
+    },
+    projectMember: {
+      findMany: vi.fn()
+    }
+  },
+  mockDispatch: vi.fn(),
+  mockEmit: vi.fn()
+}));
+
+vi.mock('$lib/server/prisma', () => ({ prisma: mockPrisma }));
+
+vi.mock('$lib/server/notifications/notification-service', () => ({
+  notificationService: { dispatch: mockDispatch }
+}));
+
+vi.mock('$lib/server/socket/server', () => ({ emitFromServer: mockEmit }));
+
+import { CommentService, CommentNotFoundError } from '$lib/server/comments/comment-service';
+import { AuthorizationError } from '$lib/server/auth/permissions';
+
+const ticket = { id: 'ticket-1', title: 'Add search', projectId: 'project-1', assignedToId: 'user-assignee' };
+
+function comment(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'c-1',
+    ticketId: 'ticket-1',
+    parentId: null,
+    authorId: 'user-alice',
+    agentId: null,
+    body: 'Hello',
+    mentions: [],
+    reactions: {},
+    editedAt: null,
+    deletedAt: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides
+  };
+}
+
+describe('CommentService', () => {
+  let service: CommentService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new CommentService();
+    mockPrisma.projectMember.findMany.mockResolvedValue([
+      { user: { id: 'user-alice', email: 'alice@example.com' } },
+      { user: { id: 'user-bob', email: 'Bob@example.com' } }
+    ]);
+    mockPrisma.ticketComment.create.mockImplementation(async ({ data }) => comment({ id: 'c-new', ...data }));
+    mockPrisma.ticketComment.update.mockImplementation(async ({ where, data }) => comment({ id: where.id, ...data }));
+    mockPrisma.ticketComment.findMany.mockResolvedValue([]);
+  });
+
+  describe('resolveMentions', () => {
+    it('should resolve project members and agent types', async () => {
+      const mentions = await service.resolveMentions('project-1', 'Hey @bob and @coder, not @nobody');
+
+      expect(mentions).toEqual([
+        { type: 'user', id: 'user-bob', handle: 'bob' },
+        { type: 'agent', id: 'coder', handle: 'coder' }
+      ]);
+    });
+
+    it('should not query members when nothing is mentioned', async () => {
+      expect(await service.resolveMentions('project-1', 'No mentions')).toEqual([]);
+      expect(mockPrisma.projectMember.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listThreads', () => {
+    it('should group replies under their thread', async () => {
+      mockPrisma.ticketComment.findMany.mockResolvedValue([
+        comment({ id: 'root-1' }),
+        comment({ id: 'root-2' }),
+        comment({ id: 'reply-1', parentId: 'root-1' })
+      ]);
+
+      const threads = await service.listThreads('ticket-1');
+
+      expect(threads.map((t) => t.id)).toEqual(['root-1', 'root-2']);
+      expect(threads[0].replies.map((r) => r.id)).toEqual(['reply-1']);
+      expect(threads[1].replies).toEqual([]);
+    });
+  });
+
+  describe('createComment', () => {
+    it('should store mentions, notify and publish to the project room', async () => {
+      const created = await service.createComment(ticket, {
+        body: 'Can you check this @bob?',
+        authorId: 'user-alice',
+        authorName: 'Alice'
+      });
+
+      expect(created.mentions).toEqual([{ type: 'user', id: 'user-bob', handle: 'bob' }]);
+      expect(mockDispatch).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'TICKET_MENTIONED',
+          title: 'Alice mentioned you on "Add search"',
+          recipientIds: ['user-bob'],
+          entityType: 'Ticket',
+          entityId: 'ticket-1'
+        })
+      );
+      expect(mockDispatch).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'TICKET_COMMENT', recipientIds: ['user-assignee'] })
+      );
+      expect(mockEmit).toHaveBeenCalledWith(
+        'comment:created',
+        { projectId: 'project-1', ticketId: 'ticket-1', comment: created },
+        'project-1'
+      );
+    });
+
+    it('should attach replies to the root of the thread and notify participants', async () => {
+      mockPrisma.ticketComment.findUnique.mockResolvedValue(comment({ id: 'reply-1', parentId: 'root-1' }));
+      mockPrisma.ticketComment.findMany.mockResolvedValue([
+        { authorId: 'user-carol' },
+        { authorId: 'user-bob' }
+      ]);
+
+      const created = await service.createComment(
+        { ...ticket, assignedToId: null },
+        { body: 'Agreed', parentId: 'reply-1', authorId: 'user-bob' }
+      );
+
+      expect(created.parentId).toBe('root-1');
+      expect(mockDispatch).toHaveBeenCalledTimes(1);
+      expect(mockDispatch).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'TICKET_COMMENT', recipientIds: ['user-carol'] })
+      );
+    });
+
+    it('should reject replies to comments of another ticket', async () => {
+      mockPrisma.ticketComment.findUnique.mockResolvedValue(comment({ ticketId: 'ticket-2' }));
+
+      await expect(
+        service.createComment(ticket, { body: 'Hi', parentId: 'c-1', authorId: 'user-bob' })
+      ).rejects.toBeInstanceOf(CommentNotFoundError);
+      expect(mockPrisma.ticketComment.create).not.toHaveBeenCalled();
+    });
+
+    it('should keep the comment when notifications fail', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockDispatch.mockRejectedValueOnce(new Error('db down'));
+
+      await expect(
+        service.createComment(ticket, { body: '@bob ping', authorId: 'user-alice' })
+      ).resolves.toMatchObject({ id: 'c-new' });
+
+      expect(consoleSpy).toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('updateComment', () => {
+    it('should only notify newly mentioned users', async () => {
+      mockPrisma.ticketComment.findUnique.mockResolvedValue(
+        comment({ mentions: [{ type: 'user', id: 'user-bob', handle: 'bob' }] })
+      );
+      mockPrisma.projectMember.findMany.mockResolvedValue([
+        { user: { id: 'user-bob', email: 'bob@example.com' } },
+        { user: { id: 'user-carol', email: 'carol@example.com' } }
+      ]);
+
+      const updated = await service.updateComment(ticket, 'c-1', 'user-alice', '@bob and @carol');
+
+      expect(updated.editedAt).toBeInstanceOf(Date);
+      expect(mockDispatch).toHaveBeenCalledTimes(1);
+      expect(mockDispatch).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'TICKET_MENTIONED', recipientIds: ['user-carol'] })
+      );
+      expect(mockEmit).toHaveBeenCalledWith('comment:updated', expect.anything(), 'project-1');
+    });
+
+    it('should only let the author edit', async () => {
+      mockPrisma.ticketComment.findUnique.mockResolvedValue(comment());
+
+      await expect(
+        service.updateComment(ticket, 'c-1', 'user-bob', 'Changed')
+      ).rejects.toBeInstanceOf(AuthorizationError);
+    });
+  });
+
+  describe('deleteComment', () => {
+    it('should keep a placeholder', async () => {
+      mockPrisma.ticketComment.findUnique.mockResolvedValue(comment());
+
+      const deleted = await service.deleteComment(ticket, 'c-1', 'user-alice');
+
+      expect(deleted).toMatchObject({ body: '', deletedAt: expect.any(Date) });
+      expect(mockEmit).toHaveBeenCalledWith('comment:deleted', expect.anything(), 'project-1');
+    });
+
+    it('should let moderators delete other users\' comments', async () => {
+      mockPrisma.ticketComment.findUnique.mockResolvedValue(comment());
+
+      await expect(service.deleteComment(ticket, 'c-1', 'user-bob')).rejects.toBeInstanceOf(
+        AuthorizationError
+      );
+      await expect(service.deleteComment(ticket, 'c-1', 'user-bob', true)).resolves.toBeDefined();
+    });
+  });
+
+  describe('toggleReaction', () => {
+    it('should add and remove the user\'s reaction', async () => {
+      mockPrisma.ticketComment.findUnique.mockResolvedValueOnce(comment({ reactions: { '👍': ['user-alice'] } }));
+      const added = await service.toggleReaction(ticket, 'c-1', 'user-bob', '👍');
+      expect(added.reactions).toEqual({ '👍': ['user-alice', 'user-bob'] });
+
+      mockPrisma.ticketComment.findUnique.mockResolvedValueOnce(comment({ reactions: { '👍': ['user-bob'] } }));
+      const removed = await service.toggleReaction(ticket, 'c-1', 'user-bob', '👍');
+      expect(removed.reactions).toEqual({});
+    });
+  });
+});
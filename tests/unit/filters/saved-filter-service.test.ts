@@ -0,0 +1,115 @@
+/**
+ * Saved Filter Service Tests
+ *
+ * Tests visibility of private and shared filters, creator-only changes
+ * and validation of saved queries.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    savedFilter: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn()
+    }
+  }
+}));
+
+vi.mock('$lib/server/prisma', () => ({ prisma: mockPrisma }));
+
+import {
+  SavedFilterService,
+  SavedFilterNotFoundError,
+  validateSavedFilterInput
+} from '$lib/server/filters/saved-filter-service';
+import { TicketQueryError } from '$lib/server/filters/ticket-query';
+import { AuthorizationError } from '$lib/server/auth/permissions';
+
+function savedFilter(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'filter-1',
+    projectId: 'project-1',
+    createdById: 'user-alice',
+    name: 'My bugs',
+    query: 'label:bug assignee:me',
+    shared: false,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides
+  };
+}
+
+describe('SavedFilterService', () => {
+  let service: SavedFilterService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new SavedFilterService();
+    mockPrisma.savedFilter.update.mockImplementation(async ({ where, data }) =>
+      savedFilter({ id: where.id, ...data })
+    );
+  });
+
+  it('should list the user\'s own and shared filters', async () => {
+    mockPrisma.savedFilter.findMany.mockResolvedValue([]);
+
+    await service.listFilters('project-1', 'user-bob');
+
+    expect(mockPrisma.savedFilter.findMany).toHaveBeenCalledWith({
+      where: { projectId: 'project-1', OR: [{ createdById: 'user-bob' }, { shared: true }] },
+      orderBy: { name: 'asc' }
+    });
+  });
+
+  it('should hide other users\' private filters and filters of other projects', async () => {
+    mockPrisma.savedFilter.findUnique.mockResolvedValue(savedFilter());
+
+    await expect(service.getFilter('project-1', 'filter-1', 'user-bob')).rejects.toThrow(
+      SavedFilterNotFoundError
+    );
+    await expect(service.getFilter('project-2', 'filter-1', 'user-alice')).rejects.toThrow(
+      SavedFilterNotFoundError
+    );
+    await expect(service.getFilter('project-1', 'filter-1', 'user-alice')).resolves.toMatchObject({
+      id: 'filter-1'
+    });
+  });
+
+  it('should let only the creator change or delete a shared filter', async () => {
+    mockPrisma.savedFilter.findUnique.mockResolvedValue(savedFilter({ shared: true }));
+
+    await expect(
+      service.updateFilter('project-1', 'filter-1', 'user-bob', { name: 'Mine now' })
+    ).rejects.toThrow(AuthorizationError);
+    await expect(service.deleteFilter('project-1', 'filter-1', 'user-bob')).rejects.toThrow(
+      AuthorizationError
+    );
+
+    const updated = await service.updateFilter('project-1', 'filter-1', 'user-alice', {
+      shared: false
+    });
+    expect(mockPrisma.savedFilter.update).toHaveBeenCalledWith({
+      where: { id: 'filter-1' },
+      data: { shared: false }
+    });
+    expect(updated.shared).toBe(false);
+  });
+});
+
+describe('validateSavedFilterInput', () => {
+  it('should require a name and a valid query', () => {
+    expect(validateSavedFilterInput({ name: ' ', query: 'status:TODO' })).toBe('name is required');
+    expect(validateSavedFilterInput({ name: 'Todo' })).toBe('query is required');
+    expect(() => validateSavedFilterInput({ name: 'Bad', query: 'owner:me' })).toThrow(TicketQueryError);
+    expect(validateSavedFilterInput({ name: 'Todo', query: 'status:TODO', shared: true })).toBeNull();
+  });
+
+  it('should allow partial updates', () => {
+    expect(validateSavedFilterInput({ shared: true }, true)).toBeNull();
+    expect(validateSavedFilterInput({ shared: 'yes' }, true)).toBe('shared must be a boolean');
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Ticket Query Language Tests
+ *
+ * Tests parsing ticket queries and compiling them into Prisma where
+ * clauses and label checks.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildTicketQuery, parseTicketQuery, TicketQueryError } from '$lib/server/filters/ticket-query';
+import type { WorkflowDefinition } from '$lib/state-machine/workflow';
+
+const now = new Date('2026-03-10T12:00:00Z');
+
+describe('parseTicketQuery', () => {
+  it('should parse fields, operators, negation and free text', () => {
+    expect(parseTicketQuery('status:TODO,BACKLOG priority>=HIGH -label:wontfix created:>7d "login page" crash')).toEqual({
+      conditions: [
+        { field: 'status', operator: '=', values: ['TODO', 'BACKLOG'], negated: false },
+        { field: 'priority', operator: '>=', values: ['HIGH'], negated: false },
+        { field: 'label', operator: '=', values: ['wontfix'], negated: true },
+        { field: 'created', operator: '>', values: ['7d'], negated: false }
+      ],
+      text: ['login page', 'crash']
+    });
+  });
+
+  it('should keep quoted values together', () => {
+    expect(parseTicketQuery('label:"needs design"').conditions[0].values).toEqual(['needs design']);
+  });
+
+  it('should reject unknown fields, empty values and unordered comparisons', () => {
+    expect(() => parseTicketQuery('owner:me')).toThrow(TicketQueryError);
+    expect(() => parseTicketQuery('status:')).toThrow('Missing value for "status"');
+    expect(() => parseTicketQuery('label>ui')).toThrow(TicketQueryError);
+    expect(() => parseTicketQuery('"unclosed')).toThrow('Unclosed quote in query');
+  });
+});
+
+describe('buildTicketQuery', () => {
+  it('should compile priorities, assignees and ages', () => {
+    const { where } = buildTicketQuery('priority>=HIGH assignee:me created:>7d', { userId: 'user-1', now });
+
+    expect(where).toEqual({
+      AND: [
+        { priority: { in: ['HIGH', 'CRITICAL'] } },
+        { assignedToId: 'user-1' },
+        { createdAt: { gt: new Date('2026-03-03T12:00:00Z') } }
+      ]
+    });
+  });
+
+  it('should match custom workflow columns by name', () => {
+    const workflow: WorkflowDefinition = {
+      states: [
+        { key: 'TODO', label: 'To Do', baseStatus: 'TODO' },
+        { key: 'QA', label: 'QA', baseStatus: 'REVIEW' }
+      ],
+      transitions: []
+    };
+
+    expect(buildTicketQuery('status:todo,qa', { workflow }).where).toEqual({
+      AND: [{ OR: [{ status: 'TODO', workflowState: null }, { workflowState: 'QA' }] }]
+    });
+    expect(() => buildTicketQuery('status:DONE', { workflow })).toThrow('Unknown status "DONE"');
+  });
+
+  it('should negate conditions and search text in title and description', () => {
+    expect(buildTicketQuery('-assignee:none login').where).toEqual({
+      AND: [
+        { NOT: { assignedToId: null } },
+        { OR: [{ title: { contains: 'login' } }, { description: { contains: 'login' } }] }
+      ]
+    });
+  });
+
+  it('should check labels on the fetched tickets', () => {
+    const { where, matchesLabels } = buildTicketQuery('label:Auth,api -label:wontfix');
+
+    expect(where).toEqual({});
+    expect(matchesLabels(['auth', 'ui'])).toBe(true);
+    expect(matchesLabels(['api', 'wontfix'])).toBe(false);
+    expect(matchesLabels(null)).toBe(false);
+  });
+
+  it('should require a user for assignee:me', () => {
+    expect(() => buildTicketQuery('assignee:me')).toThrow(TicketQueryError);
+  });
+});
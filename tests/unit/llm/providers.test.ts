@@ -0,0 +1,242 @@
+/**
+ * Language Model Provider Tests
+ *
+ * Tests for the OpenAI-compatible and fixture adapters, provider
+ * selection per project, and cost estimation.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+vi.mock('@anthropic-ai/sdk', () => ({
+  default: vi.fn()
+}));
+
+vi.mock('$lib/server/admin/settings-service', () => ({
+  settingsService: {
+    getLLMSettings: vi.fn()
+  }
+}));
+
+import {
+  AnthropicProvider,
+  FixtureProvider,
+  LLMProviderError,
+  OpenAICompatibleProvider,
+  createLLMProvider,
+  estimateCost,
+  fixtureKey,
+  getLLMProvider,
+  loadFixtures,
+  resolveLLMSelection,
+  type LLMProvider
+} from '$lib/server/llm';
+import { settingsService } from '$lib/server/admin/settings-service';
+import type { LLMSettings } from '$lib/types/admin';
+
+const settings: LLMSettings = {
+  provider: 'anthropic',
+  model: null,
+  baseUrl: 'http://localhost:11434/v1',
+  projects: {
+    'proj-local': { provider: 'openai-compatible', model: 'llama3.1:8b' },
+    'proj-off': { provider: 'none', model: null }
+  }
+};
+
+describe('OpenAICompatibleProvider', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should post a chat completion and return text and token usage', async () => {
+    fetchMock.mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          model: 'llama3.1:8b',
+          choices: [{ message: { role: 'assistant', content: '{"ticketType":"bug"}' } }],
+          usage: { prompt_tokens: 420, completion_tokens: 37 }
+        }),
+        { status: 200 }
+      )
+    );
+    const provider = new OpenAICompatibleProvider('http://localhost:11434/v1/', 'llama3.1:8b', 'secret');
+
+    const completion = await provider.complete({ prompt: 'Classify this', maxTokens: 256 });
+
+    expect(completion).toEqual({
+      text: '{"ticketType":"bug"}',
+      model: 'llama3.1:8b',
+      usage: { inputTokens: 420, outputTokens: 37 }
+    });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer secret');
+    expect(JSON.parse(init.body)).toEqual({
+      model: 'llama3.1:8b',
+      max_tokens: 256,
+      messages: [{ role: 'user', content: 'Classify this' }]
+    });
+  });
+
+  it('should omit the Authorization header without an API key', async () => {
+    fetchMock.mockResolvedValue(
+      new Response(JSON.stringify({ choices: [{ message: { content: 'ok' } }] }), { status: 200 })
+    );
+    const provider = new OpenAICompatibleProvider('http://localhost:8080/v1', 'local');
+
+    const completion = await provider.complete({ prompt: 'Hi', maxTokens: 16 });
+
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBeUndefined();
+    expect(completion.usage).toEqual({ inputTokens: 0, outputTokens: 0 });
+    expect(completion.model).toBe('local');
+  });
+
+  it('should throw an LLMProviderError with the status on HTTP errors', async () => {
+    fetchMock.mockResolvedValue(new Response('model not found', { status: 404 }));
+    const provider = new OpenAICompatibleProvider('http://localhost:11434/v1', 'missing');
+
+    const error = await provider.complete({ prompt: 'Hi', maxTokens: 16 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(LLMProviderError);
+    expect(error.status).toBe(404);
+    expect(error.message).toContain('model not found');
+  });
+
+  it('should throw an LLMProviderError when the endpoint is unreachable', async () => {
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+    const provider = new OpenAICompatibleProvider('http://localhost:11434/v1', 'llama3.1:8b');
+
+    await expect(provider.complete({ prompt: 'Hi', maxTokens: 16 })).rejects.toThrow(
+      'Cannot reach http://localhost:11434/v1'
+    );
+  });
+});
+
+describe('FixtureProvider', () => {
+  const recorded = {
+    text: 'recorded answer',
+    model: 'claude-sonnet-4-20250514',
+    usage: { inputTokens: 10, outputTokens: 5 }
+  };
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'llm-fixtures-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should replay the completion recorded for a prompt', async () => {
+    const provider = new FixtureProvider({ [fixtureKey('Hello')]: recorded });
+
+    expect(await provider.complete({ prompt: 'Hello', maxTokens: 16 })).toEqual(recorded);
+  });
+
+  it('should throw for prompts without a recording', async () => {
+    const provider = new FixtureProvider({});
+
+    await expect(provider.complete({ prompt: 'Hello', maxTokens: 16 })).rejects.toThrow(LLMProviderError);
+  });
+
+  it('should record misses from the upstream provider to the file', async () => {
+    const upstream: LLMProvider = {
+      id: 'anthropic',
+      model: 'claude-sonnet-4-20250514',
+      complete: vi.fn().mockResolvedValue(recorded)
+    };
+    const path = join(dir, 'fixtures.json');
+    const provider = new FixtureProvider({}, { upstream, path });
+
+    await provider.complete({ prompt: 'Hello', maxTokens: 16 });
+    await provider.complete({ prompt: 'Hello', maxTokens: 16 });
+
+    expect(upstream.complete).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(readFileSync(path, 'utf-8'))).toEqual({ [fixtureKey('Hello')]: recorded });
+    expect(loadFixtures(path)[fixtureKey('Hello')]).toEqual(recorded);
+  });
+
+  it('should treat a missing fixtures file as empty', () => {
+    expect(loadFixtures(join(dir, 'missing.json'))).toEqual({});
+  });
+});
+
+describe('provider selection', () => {
+  it('should use the project override before the default', () => {
+    expect(resolveLLMSelection(settings, 'proj-local')).toEqual({
+      provider: 'openai-compatible',
+      model: 'llama3.1:8b'
+    });
+    expect(resolveLLMSelection(settings, 'proj-other')).toEqual({ provider: 'anthropic', model: null });
+    expect(resolveLLMSelection(settings)).toEqual({ provider: 'anthropic', model: null });
+  });
+
+  it('should build the provider a selection names', () => {
+    const anthropic = createLLMProvider({ provider: 'anthropic', model: null }, settings, {
+      ANTHROPIC_API_KEY: 'sk-test'
+    });
+    const local = createLLMProvider(settings.projects['proj-local'], settings, {});
+
+    expect(anthropic).toBeInstanceOf(AnthropicProvider);
+    expect(anthropic?.model).toBe('claude-sonnet-4-20250514');
+    expect(local).toBeInstanceOf(OpenAICompatibleProvider);
+    expect(local?.model).toBe('llama3.1:8b');
+  });
+
+  it('should fall back to LLM_BASE_URL and LLM_MODEL for OpenAI-compatible endpoints', () => {
+    const provider = createLLMProvider({ provider: 'openai-compatible', model: null }, { baseUrl: null }, {
+      LLM_BASE_URL: 'http://localhost:8080/v1',
+      LLM_MODEL: 'qwen2.5-coder'
+    });
+
+    expect(provider?.model).toBe('qwen2.5-coder');
+  });
+
+  it('should return null when a provider is missing its configuration', () => {
+    expect(createLLMProvider({ provider: 'anthropic', model: null }, settings, {})).toBeNull();
+    expect(createLLMProvider({ provider: 'openai-compatible', model: 'llama3.1:8b' }, { baseUrl: null }, {})).toBeNull();
+    expect(createLLMProvider({ provider: 'fixture', model: null }, settings, {})).toBeNull();
+    expect(createLLMProvider({ provider: 'none', model: null }, settings, { ANTHROPIC_API_KEY: 'sk-test' })).toBeNull();
+  });
+
+  it('should resolve the provider for a project from the admin settings', async () => {
+    vi.mocked(settingsService.getLLMSettings).mockResolvedValue(settings);
+
+    const local = await getLLMProvider('proj-local');
+    const off = await getLLMProvider('proj-off');
+
+    expect(local?.id).toBe('openai-compatible');
+    expect(off).toBeNull();
+    expect(await getLLMProvider('proj-local')).toBe(local);
+  });
+});
+
+describe('estimateCost', () => {
+  it('should price Anthropic models per million tokens', () => {
+    expect(
+      estimateCost('anthropic', 'claude-sonnet-4-20250514', { inputTokens: 1_000_000, outputTokens: 100_000 })
+    ).toBeCloseTo(4.5);
+    expect(
+      estimateCost('anthropic', 'claude-opus-4-20250514', { inputTokens: 1000, outputTokens: 1000 })
+    ).toBeCloseTo(0.09);
+  });
+
+  it('should not charge for local models, fixtures or unknown models', () => {
+    const usage = { inputTokens: 5000, outputTokens: 5000 };
+
+    expect(estimateCost('openai-compatible', 'llama3.1:8b', usage)).toBe(0);
+    expect(estimateCost('fixture', 'claude-sonnet-4-20250514', usage)).toBe(0);
+    expect(estimateCost('anthropic', 'some-future-model', usage)).toBe(0);
+  });
+});
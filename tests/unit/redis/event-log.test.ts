@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ProjectEventLog } from '$lib/server/redis/event-log';
+
+describe('ProjectEventLog', () => {
+	let log: ProjectEventLog;
+
+	beforeEach(() => {
+		log = new ProjectEventLog(3, () => null);
+	});
+
+	it('should number events per project', async () => {
+		expect((await log.append('proj-1', 'kanban:tickets', { type: 'a' })).seq).toBe(1);
+		expect((await log.append('proj-1', 'kanban:tickets', { type: 'b' })).seq).toBe(2);
+		expect((await log.append('proj-2', 'kanban:tickets', { type: 'c' })).seq).toBe(1);
+
+		expect(await log.getLatestSequence('proj-1')).toBe(2);
+		expect(await log.getLatestSequence('proj-3')).toBe(0);
+	});
+
+	it('should return the events after a sequence in order', async () => {
+		await log.append('proj-1', 'kanban:tickets', { type: 'a' });
+		await log.append('proj-1', 'kanban:tickets', { type: 'b' });
+		await log.append('proj-1', 'kanban:agents', { type: 'c' });
+
+		expect(await log.getEventsSince('proj-1', 1)).toEqual([
+			{ seq: 2, channel: 'kanban:tickets', projectId: 'proj-1', event: { type: 'b' } },
+			{ seq: 3, channel: 'kanban:agents', projectId: 'proj-1', event: { type: 'c' } }
+		]);
+		expect(await log.getEventsSince('proj-1', 3)).toEqual([]);
+	});
+
+	it('should return null once missed events were evicted', async () => {
+		for (const type of ['a', 'b', 'c', 'd', 'e']) {
+			await log.append('proj-1', 'kanban:tickets', { type });
+		}
+
+		expect((await log.getEventsSince('proj-1', 2))?.map((e) => e.seq)).toEqual([3, 4, 5]);
+		expect(await log.getEventsSince('proj-1', 1)).toBeNull();
+	});
+
+	it('should return null for a sequence ahead of the log', async () => {
+		await log.append('proj-1', 'kanban:tickets', { type: 'a' });
+
+		// e.g. the server restarted since the client last synced
+		expect(await log.getEventsSince('proj-1', 7)).toBeNull();
+	});
+
+	it('should clear a single project', async () => {
+		await log.append('proj-1', 'kanban:tickets', { type: 'a' });
+		await log.append('proj-2', 'kanban:tickets', { type: 'b' });
+
+		await log.clear('proj-1');
+
+		expect(await log.getLatestSequence('proj-1')).toBe(0);
+		expect(await log.getLatestSequence('proj-2')).toBe(1);
+	});
+});
+
+describe('ProjectEventLog with Redis', () => {
+	// Just enough of a Redis client for the event log
+	function createFakeRedis() {
+		const values = new Map<string, string>();
+		const lists = new Map<string, string[]>();
+		const client = {
+			incr: async (key: string) => {
+				const next = Number(values.get(key) ?? 0) + 1;
+				values.set(key, String(next));
+				return next;
+			},
+			get: async (key: string) => values.get(key) ?? null,
+			lrange: async (key: string) => [...(lists.get(key) ?? [])],
+			del: async (...keys: string[]) => {
+				for (const key of keys) {
+					values.delete(key);
+					lists.delete(key);
+				}
+			},
+			pipeline: () => {
+				const commands: Array<() => void> = [];
+				const pipeline = {
+					rpush: (key: string, value: string) => {
+						commands.push(() => lists.set(key, [...(lists.get(key) ?? []), value]));
+						return pipeline;
+					},
+					ltrim: (key: string, start: number) => {
+						commands.push(() => lists.set(key, (lists.get(key) ?? []).slice(start)));
+						return pipeline;
+					},
+					exec: async () => commands.forEach((command) => command())
+				};
+				return pipeline;
+			}
+		};
+		return client;
+	}
+
+	it('should share one sequence between server instances', async () => {
+		const client = createFakeRedis();
+		const first = new ProjectEventLog(3, () => client as any);
+		const second = new ProjectEventLog(3, () => client as any);
+
+		await first.append('proj-1', 'kanban:tickets', { type: 'a' });
+		const entry = await second.append('proj-1', 'kanban:tickets', { type: 'b' });
+
+		expect(entry.seq).toBe(2);
+		expect(await first.getLatestSequence('proj-1')).toBe(2);
+		expect((await first.getEventsSince('proj-1', 0))?.map((e) => e.event)).toEqual([
+			{ type: 'a' },
+			{ type: 'b' }
+		]);
+	});
+
+	it('should keep only the latest events', async () => {
+		const client = createFakeRedis();
+		const log = new ProjectEventLog(3, () => client as any);
+
+		for (const type of ['a', 'b', 'c', 'd']) {
+			await log.append('proj-1', 'kanban:tickets', { type });
+		}
+
+		expect((await log.getEventsSince('proj-1', 1))?.map((e) => e.seq)).toEqual([2, 3, 4]);
+		expect(await log.getEventsSince('proj-1', 0)).toBeNull();
+	});
+
+	it('should stop at a number whose event is not buffered yet', async () => {
+		const client = createFakeRedis();
+		const log = new ProjectEventLog(10, () => client as any);
+
+		await log.append('proj-1', 'kanban:tickets', { type: 'a' });
+		// Another instance took seq 2 and has not pushed its event yet
+		await client.incr('kanban:events:proj-1:seq');
+		await log.append('proj-1', 'kanban:tickets', { type: 'c' });
+
+		expect((await log.getEventsSince('proj-1', 0))?.map((e) => e.seq)).toEqual([1]);
+		expect(await log.getEventsSince('proj-1', 2)).toEqual([
+			expect.objectContaining({ seq: 3, event: { type: 'c' } })
+		]);
+	});
+});
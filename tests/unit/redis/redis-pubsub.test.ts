@@ -1,8 +1,16 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 
 // Mock Redis clients
+const mockPipeline = {
+	rpush: vi.fn().mockReturnThis(),
+	ltrim: vi.fn().mockReturnThis(),
+	exec: vi.fn().mockResolvedValue([])
+};
+
 const mockPublishClient = {
-	publish: vi.fn().mockResolvedValue(1)
+	publish: vi.fn().mockResolvedValue(1),
+	incr: vi.fn().mockResolvedValue(1),
+	pipeline: vi.fn(() => mockPipeline)
 };
 
 const mockSubscribeClient = {
@@ -63,6 +71,33 @@ describe('Redis Pub/Sub', () => {
 			expect(typeof parsed.timestamp).toBe('number');
 		});
 
+		it('should number project events and send them to the project room', async () => {
+			const { publishEvent, TICKET_EVENTS } = await import('$lib/server/redis/pubsub');
+			mockPublishClient.incr.mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+			const io = { to: vi.fn().mockReturnThis(), emit: vi.fn() };
+			(globalThis as any).socketIO = io;
+
+			try {
+				await publishEvent(TICKET_EVENTS, { type: 'ticket:created', projectId: 'proj-1' });
+				await publishEvent(TICKET_EVENTS, { type: 'ticket:updated', projectId: 'proj-1' });
+			} finally {
+				(globalThis as any).socketIO = undefined;
+			}
+
+			const [, message] = mockPublishClient.publish.mock.calls[1];
+			expect(JSON.parse(message).seq).toBe(2);
+			expect(mockPublishClient.incr).toHaveBeenCalledWith('kanban:events:proj-1:seq');
+			expect(mockPipeline.rpush).toHaveBeenCalledWith(
+				'kanban:events:proj-1:log',
+				expect.stringContaining('"seq":2')
+			);
+			expect(io.to).toHaveBeenCalledWith('proj-1');
+			expect(io.emit).toHaveBeenCalledWith(
+				'project:event',
+				expect.objectContaining({ seq: 2, channel: TICKET_EVENTS, projectId: 'proj-1' })
+			);
+		});
+
 		it('should return the number of subscribers that received the message', async () => {
 			const { publishEvent, TICKET_EVENTS } = await import('$lib/server/redis/pubsub');
 
@@ -360,6 +360,73 @@ describe('Usage Tracking', () => {
 		});
 	});
 
+	describe('trackLlmUsage', () => {
+		it('should add tokens and cost to the totals and to the model', async () => {
+			const { trackLlmUsage } = await import('$lib/server/resources/usage');
+
+			await trackLlmUsage('proj-123', {
+				provider: 'anthropic',
+				model: 'claude-sonnet-4-20250514',
+				inputTokens: 1200,
+				outputTokens: 300,
+				costUsd: 0.0081
+			});
+
+			const key = 'usage:llm:proj-123';
+			expect(mockRedisClient.hincrby).toHaveBeenCalledWith(key, 'requests', 1);
+			expect(mockRedisClient.hincrby).toHaveBeenCalledWith(key, 'inputTokens', 1200);
+			expect(mockRedisClient.hincrbyfloat).toHaveBeenCalledWith(key, 'costUsd', 0.0081);
+			expect(mockRedisClient.hincrby).toHaveBeenCalledWith(
+				key,
+				'anthropic/claude-sonnet-4-20250514:outputTokens',
+				300
+			);
+		});
+	});
+
+	describe('getLlmUsage', () => {
+		it('should return totals and usage per model', async () => {
+			const { getLlmUsage } = await import('$lib/server/resources/usage');
+
+			mockRedisClient.hgetall.mockResolvedValue({
+				requests: '3',
+				inputTokens: '3000',
+				outputTokens: '900',
+				costUsd: '0.0225',
+				'anthropic/claude-sonnet-4-20250514:requests': '1',
+				'anthropic/claude-sonnet-4-20250514:inputTokens': '1000',
+				'anthropic/claude-sonnet-4-20250514:outputTokens': '300',
+				'anthropic/claude-sonnet-4-20250514:costUsd': '0.0225',
+				'openai-compatible/llama3.1:8b:requests': '2',
+				'openai-compatible/llama3.1:8b:inputTokens': '2000',
+				'openai-compatible/llama3.1:8b:outputTokens': '600',
+				'openai-compatible/llama3.1:8b:costUsd': '0'
+			});
+
+			const usage = await getLlmUsage('proj-123');
+
+			expect(usage).toMatchObject({ requests: 3, inputTokens: 3000, outputTokens: 900, costUsd: 0.0225 });
+			expect(usage.byModel).toEqual([
+				{ provider: 'anthropic', model: 'claude-sonnet-4-20250514', requests: 1, inputTokens: 1000, outputTokens: 300, costUsd: 0.0225 },
+				{ provider: 'openai-compatible', model: 'llama3.1:8b', requests: 2, inputTokens: 2000, outputTokens: 600, costUsd: 0 }
+			]);
+		});
+
+		it('should return zeros for a project without usage', async () => {
+			const { getLlmUsage } = await import('$lib/server/resources/usage');
+
+			mockRedisClient.hgetall.mockResolvedValue({});
+
+			expect(await getLlmUsage('proj-123')).toEqual({
+				requests: 0,
+				inputTokens: 0,
+				outputTokens: 0,
+				costUsd: 0,
+				byModel: []
+			});
+		});
+	});
+
 	describe('UsageDashboardData', () => {
 		it('should compile dashboard data structure', async () => {
 			const { getUsageDashboardData } = await import('$lib/server/resources/usage');
@@ -42,6 +42,16 @@ describe('Event Publisher', () => {
     });
   });
 
+  describe('getTicketVersion', () => {
+    it('should be the time of the last persisted write', async () => {
+      const { getTicketVersion } = await import('$lib/server/events');
+      const updatedAt = new Date('2026-01-01T10:00:00.000Z');
+
+      expect(getTicketVersion({ updatedAt })).toBe(updatedAt.getTime());
+      expect(getTicketVersion({ updatedAt: updatedAt.toISOString() })).toBe(updatedAt.getTime());
+    });
+  });
+
   describe('subscribeToEvents (in-memory)', () => {
     it('should receive events when subscribed', async () => {
       const { subscribeToEvents, publishTicketCreated } = await import('$lib/server/events');
@@ -208,6 +218,21 @@ describe('Event Publisher', () => {
     });
   });
 
+  describe('project event log', () => {
+    it('should number ticket events in the project event log for replay', async () => {
+      const { publishTicketMoved, publishTicketDeleted } = await import('$lib/server/events');
+      const { projectEventLog } = await import('$lib/server/redis/event-log');
+
+      await publishTicketMoved('replay-project', 't1', 'TODO', 'IN_PROGRESS', 2);
+      await publishTicketDeleted('replay-project', 't2');
+
+      const events = await projectEventLog.getEventsSince('replay-project', 0);
+      expect(events?.map((entry) => entry.seq)).toEqual([1, 2]);
+      expect(events?.[0].event).toMatchObject({ type: 'moved', ticketId: 't1', toStatus: 'IN_PROGRESS' });
+      expect(events?.[1].event).toMatchObject({ type: 'deleted', ticketId: 't2' });
+    });
+  });
+
   describe('isRedisConnected', () => {
     it('should return false when Redis is not initialized', async () => {
       const { isRedisConnected } = await import('$lib/server/events');
@@ -0,0 +1,270 @@
+/**
+ * Ticket Field History Tests
+ *
+ * Tests for recording ticket field edits and reconstructing tickets and
+ * boards as of a point in time.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    project: { findUnique: vi.fn() },
+    ticket: { findMany: vi.fn() },
+    ticketFieldChange: { createMany: vi.fn(), findMany: vi.fn() }
+  }
+}));
+
+vi.mock('$lib/server/prisma', () => ({ prisma: mockPrisma }));
+
+import {
+  diffTicketFields,
+  recordTicketFieldChanges,
+  updateTicketFields,
+  replayTicketFieldsAt,
+  getStatusAt
+} from '$lib/server/time-travel/field-history';
+import { TimeTravelService } from '$lib/server/time-travel/time-travel-service';
+import { describeFieldChange } from '$lib/utils/field-changes';
+
+const at = (iso: string) => new Date(`2026-03-${iso}Z`);
+
+describe('diffTicketFields', () => {
+  it('should return only tracked fields that change', () => {
+    const before = { title: 'A', priority: 'LOW', labels: ['ui'], status: 'TODO' };
+
+    expect(
+      diffTicketFields(before, { title: 'A', priority: 'HIGH', labels: ['ui'], status: 'DONE' })
+    ).toEqual([{ field: 'priority', oldValue: 'LOW', newValue: 'HIGH' }]);
+  });
+
+  it('should compare JSON fields by content', () => {
+    expect(diffTicketFields({ labels: ['a', 'b'] }, { labels: ['a', 'b'] })).toEqual([]);
+    expect(diffTicketFields({ labels: ['a'] }, { labels: ['a', 'b'] })).toHaveLength(1);
+  });
+});
+
+describe('recordTicketFieldChanges', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should store each changed field with the actor', async () => {
+    const ticket = { id: 't-1', projectId: 'p-1', title: 'Old', assignedToId: null };
+
+    await recordTicketFieldChanges(
+      ticket,
+      { title: 'New', assignedToId: 'user-1' },
+      { userId: 'user-2' }
+    );
+
+    expect(mockPrisma.ticketFieldChange.createMany).toHaveBeenCalledWith({
+      data: [
+        {
+          ticketId: 't-1',
+          projectId: 'p-1',
+          field: 'title',
+          oldValue: 'Old',
+          newValue: 'New',
+          changedById: 'user-2',
+          triggeredBy: 'user'
+        },
+        {
+          ticketId: 't-1',
+          projectId: 'p-1',
+          field: 'assignedToId',
+          oldValue: undefined,
+          newValue: 'user-1',
+          changedById: 'user-2',
+          triggeredBy: 'user'
+        }
+      ]
+    });
+  });
+
+  it('should use the given transaction client and skip unchanged updates', async () => {
+    const tx = { ticketFieldChange: { createMany: vi.fn() } };
+
+    await recordTicketFieldChanges({ id: 't-1', projectId: 'p-1', title: 'Same' }, { title: 'Same' }, {}, tx);
+    expect(tx.ticketFieldChange.createMany).not.toHaveBeenCalled();
+
+    await recordTicketFieldChanges({ id: 't-1', projectId: 'p-1', title: 'Old' }, { title: 'New' }, {}, tx);
+    expect(tx.ticketFieldChange.createMany).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.ticketFieldChange.createMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('updateTicketFields', () => {
+  it('should update the ticket and record the changed fields in the same client', async () => {
+    const tx = {
+      ticket: { update: vi.fn().mockResolvedValue({ id: 't-1', priority: 'HIGH' }) },
+      ticketFieldChange: { createMany: vi.fn() }
+    };
+
+    const updated = await updateTicketFields(
+      { id: 't-1', projectId: 'p-1', priority: 'MEDIUM' },
+      { priority: 'HIGH' },
+      { triggeredBy: 'rule:escalate' },
+      tx
+    );
+
+    expect(updated).toEqual({ id: 't-1', priority: 'HIGH' });
+    expect(tx.ticket.update).toHaveBeenCalledWith({ where: { id: 't-1' }, data: { priority: 'HIGH' } });
+    expect(tx.ticketFieldChange.createMany).toHaveBeenCalledWith({
+      data: [
+        {
+          ticketId: 't-1',
+          projectId: 'p-1',
+          field: 'priority',
+          oldValue: 'MEDIUM',
+          newValue: 'HIGH',
+          changedById: null,
+          triggeredBy: 'rule:escalate'
+        }
+      ]
+    });
+  });
+});
+
+describe('replayTicketFieldsAt', () => {
+  const current = { title: 'Final', priority: 'CRITICAL', labels: ['a', 'b'] };
+  const changes = [
+    { field: 'priority', oldValue: 'LOW', createdAt: at('02T10:00:00') },
+    { field: 'priority', oldValue: 'MEDIUM', createdAt: at('05T10:00:00') },
+    { field: 'title', oldValue: 'Draft', createdAt: at('03T10:00:00') },
+    { field: 'labels', oldValue: null, createdAt: at('04T10:00:00') }
+  ];
+
+  it('should undo changes made after the point in time', () => {
+    expect(replayTicketFieldsAt(current, changes, at('01T00:00:00'))).toEqual({
+      title: 'Draft',
+      priority: 'LOW',
+      labels: null
+    });
+    expect(replayTicketFieldsAt(current, changes, at('03T12:00:00'))).toEqual({
+      title: 'Final',
+      priority: 'MEDIUM',
+      labels: null
+    });
+  });
+
+  it('should keep the current values when nothing changed since', () => {
+    expect(replayTicketFieldsAt(current, changes, at('06T00:00:00'))).toEqual(current);
+  });
+});
+
+describe('getStatusAt', () => {
+  const history = [
+    { fromStatus: 'TODO', fromState: null, createdAt: at('04T00:00:00') },
+    { fromStatus: 'BACKLOG', fromState: null, createdAt: at('02T00:00:00') },
+    { fromStatus: 'REVIEW', fromState: 'QA', createdAt: at('06T00:00:00') }
+  ];
+
+  it('should take the from-state of the next transition', () => {
+    expect(getStatusAt({ status: 'DONE' }, history, at('01T00:00:00'))).toEqual({
+      status: 'BACKLOG',
+      workflowState: null
+    });
+    expect(getStatusAt({ status: 'DONE' }, history, at('05T00:00:00'))).toEqual({
+      status: 'REVIEW',
+      workflowState: 'QA'
+    });
+  });
+
+  it('should use the current status after the last transition', () => {
+    expect(getStatusAt({ status: 'DONE', workflowState: null }, history, at('07T00:00:00'))).toEqual({
+      status: 'DONE',
+      workflowState: null
+    });
+  });
+});
+
+describe('TimeTravelService.getBoardSnapshot', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return null for an unknown project', async () => {
+    mockPrisma.project.findUnique.mockResolvedValue(null);
+
+    expect(await new TimeTravelService().getBoardSnapshot('p-1', new Date())).toBeNull();
+  });
+
+  it('should rebuild tickets as of the date', async () => {
+    mockPrisma.project.findUnique.mockResolvedValue({ id: 'p-1' });
+    mockPrisma.ticket.findMany.mockResolvedValue([
+      {
+        id: 't-1',
+        title: 'Search v2',
+        description: null,
+        status: 'DONE',
+        workflowState: null,
+        priority: 'HIGH',
+        labels: ['search'],
+        complexity: 5,
+        position: 0,
+        assignedToId: 'user-1',
+        dependencyIds: [],
+        createdAt: at('01T00:00:00'),
+        history: [{ fromStatus: 'IN_PROGRESS', fromState: null, createdAt: at('05T00:00:00') }]
+      }
+    ]);
+    mockPrisma.ticketFieldChange.findMany.mockResolvedValue([
+      {
+        id: 'fc-2',
+        ticketId: 't-1',
+        field: 'title',
+        oldValue: 'Search',
+        newValue: 'Search v2',
+        changedById: 'user-2',
+        changedBy: { name: 'Bob', email: 'bob@example.com' },
+        triggeredBy: 'user',
+        createdAt: at('04T12:00:00')
+      },
+      {
+        id: 'fc-1',
+        ticketId: 't-1',
+        field: 'priority',
+        oldValue: 'LOW',
+        newValue: 'HIGH',
+        changedById: null,
+        changedBy: null,
+        triggeredBy: 'system',
+        createdAt: at('03T18:00:00')
+      }
+    ]);
+
+    const asOf = at('04T00:00:00');
+    const snapshot = await new TimeTravelService().getBoardSnapshot('p-1', asOf);
+
+    expect(mockPrisma.ticket.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { projectId: 'p-1', createdAt: { lte: asOf } } })
+    );
+    expect(snapshot?.tickets[0]).toMatchObject({
+      title: 'Search',
+      priority: 'HIGH',
+      status: 'IN_PROGRESS',
+      assignedToId: 'user-1'
+    });
+    expect(snapshot?.changes).toEqual([
+      expect.objectContaining({ id: 'fc-1', field: 'priority', changedByName: null })
+    ]);
+  });
+});
+
+describe('describeFieldChange', () => {
+  it('should summarize edits', () => {
+    expect(describeFieldChange({ field: 'priority', oldValue: 'LOW', newValue: 'HIGH' })).toBe(
+      'changed priority from LOW to HIGH'
+    );
+    expect(describeFieldChange({ field: 'labels', oldValue: ['a'], newValue: ['b'] })).toBe(
+      'changed labels (+b, -a)'
+    );
+    expect(
+      describeFieldChange({ field: 'dependencyIds', oldValue: [], newValue: ['t-2', 't-3'] })
+    ).toBe('changed dependencies (added 2)');
+    expect(describeFieldChange({ field: 'assignedToId', oldValue: 'u-1', newValue: null })).toBe(
+      'unassigned the ticket'
+    );
+  });
+});
@@ -4,10 +4,19 @@
  * Tests for ticket and project event handlers.
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { createTicketHandlers, createProjectHandlers } from '$lib/server/socket/handlers';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createTicketHandlers,
+  createProjectHandlers,
+  createPresenceHandlers,
+  createSyncHandlers,
+  handleDisconnect
+} from '$lib/server/socket/handlers';
 import type { SocketData } from '$lib/types/socket-events';
 import { RoomManager } from '$lib/server/socket/rooms';
+import { registerProjectAccessCheck, registerTicketAccessCheck } from '$lib/server/socket/auth';
+import { createProjectSync } from '$lib/server/socket/sync';
+import { ProjectEventLog } from '$lib/server/redis/event-log';
 
 // Mock socket for testing
 interface MockSocket {
@@ -85,6 +94,40 @@ describe('Socket Event Handlers', () => {
         expect(callback).toHaveBeenCalledWith({ success: true });
       });
 
+      it('should number the move in the event log and send it to the whole room', async () => {
+        const mockSocket = createMockSocket();
+        roomManager.joinRoom('project-123', mockSocket.id, {
+          userId: mockSocket.data.userId
+        });
+        const log = new ProjectEventLog(10, () => null);
+        await log.append('project-123', 'kanban:tickets', { type: 'created' });
+
+        const handlers = createTicketHandlers(mockSocket as any, roomManager, log);
+        await handlers['ticket:move'](
+          {
+            ticketId: 'ticket-1',
+            projectId: 'project-123',
+            fromStatus: 'TODO',
+            toStatus: 'IN_PROGRESS',
+            newPosition: 0,
+            triggeredBy: 'user'
+          },
+          vi.fn()
+        );
+
+        const entry = expect.objectContaining({
+          seq: 2,
+          channel: 'socket:relay',
+          event: expect.objectContaining({ type: 'ticket:moved', ticketId: 'ticket-1' })
+        });
+        // Sent to the others in the room and to the sender
+        expect(mockSocket.emit.mock.calls.filter(([event]) => event === 'project:event')).toEqual([
+          ['project:event', entry],
+          ['project:event', entry]
+        ]);
+        expect(await log.getEventsSince('project-123', 1)).toEqual([entry]);
+      });
+
       it('should call callback with error if no current project', async () => {
         const mockSocket = createMockSocket();
         const handlers = createTicketHandlers(mockSocket as any, roomManager);
@@ -186,6 +229,61 @@ describe('Socket Event Handlers', () => {
         expect(callback).toHaveBeenCalledWith({ success: true });
       });
     });
+
+    describe('ticket:subscribe handler', () => {
+      const accessCheck = vi.fn(async (userId: string) => userId === 'user-123');
+
+      beforeEach(() => {
+        registerTicketAccessCheck(accessCheck);
+      });
+
+      afterEach(() => {
+        registerTicketAccessCheck(null);
+      });
+
+      it('should join and leave the ticket room', async () => {
+        const mockSocket = createMockSocket();
+        const handlers = createTicketHandlers(mockSocket as any, roomManager);
+        const callback = vi.fn();
+
+        await handlers['ticket:subscribe']({ ticketId: 'ticket-1' }, callback);
+        await handlers['ticket:unsubscribe']({ ticketId: 'ticket-1' });
+
+        expect(mockSocket.join).toHaveBeenCalledWith('ticket:ticket-1');
+        expect(mockSocket.leave).toHaveBeenCalledWith('ticket:ticket-1');
+        expect(callback).toHaveBeenCalledWith({ success: true });
+        expect(accessCheck).toHaveBeenCalledWith('user-123', 'ticket-1');
+      });
+
+      it('should refuse anonymous sockets and users outside the ticket project', async () => {
+        for (const data of [
+          { userId: 'anon-1', userName: 'Anonymous 1', isAuthenticated: false },
+          { userId: 'user-456', userName: 'Other User', isAuthenticated: true }
+        ]) {
+          const mockSocket = createMockSocket({ data });
+          const handlers = createTicketHandlers(mockSocket as any, roomManager);
+          const callback = vi.fn();
+
+          await handlers['ticket:subscribe']({ ticketId: 'ticket-1' }, callback);
+
+          expect(mockSocket.join).not.toHaveBeenCalled();
+          expect(callback).toHaveBeenCalledWith({
+            success: false,
+            error: expect.objectContaining({ code: 'FORBIDDEN' })
+          });
+        }
+      });
+
+      it('should refuse every subscription until a check is registered', async () => {
+        registerTicketAccessCheck(null);
+        const mockSocket = createMockSocket();
+        const handlers = createTicketHandlers(mockSocket as any, roomManager);
+
+        await handlers['ticket:subscribe']({ ticketId: 'ticket-1' }, vi.fn());
+
+        expect(mockSocket.join).not.toHaveBeenCalled();
+      });
+    });
   });
 
   describe('createProjectHandlers', () => {
@@ -198,6 +296,16 @@ describe('Socket Event Handlers', () => {
     });
 
     describe('project:join handler', () => {
+      const accessCheck = vi.fn(async (userId: string) => userId === 'user-123');
+
+      beforeEach(() => {
+        registerProjectAccessCheck(accessCheck);
+      });
+
+      afterEach(() => {
+        registerProjectAccessCheck(null);
+      });
+
       it('should join socket to project room', async () => {
         const mockSocket = createMockSocket();
         const handlers = createProjectHandlers(mockSocket as any, roomManager);
@@ -230,6 +338,26 @@ describe('Socket Event Handlers', () => {
 
         expect(roomManager.isInRoom('project-123', mockSocket.id)).toBe(true);
       });
+
+      it('should refuse anonymous sockets and users outside the project', async () => {
+        for (const data of [
+          { userId: 'anon-1', userName: 'Anonymous 1', isAuthenticated: false },
+          { userId: 'user-456', userName: 'Other User', isAuthenticated: true }
+        ]) {
+          const mockSocket = createMockSocket({ data });
+          const handlers = createProjectHandlers(mockSocket as any, roomManager);
+          const callback = vi.fn();
+
+          await handlers['project:join']({ projectId: 'project-123' }, callback);
+
+          expect(mockSocket.join).not.toHaveBeenCalled();
+          expect(roomManager.isInRoom('project-123', mockSocket.id)).toBe(false);
+          expect(callback).toHaveBeenCalledWith({
+            success: false,
+            error: expect.objectContaining({ code: 'FORBIDDEN' })
+          });
+        }
+      });
     });
 
     describe('project:leave handler', () => {
@@ -276,4 +404,192 @@ describe('Socket Event Handlers', () => {
       });
     });
   });
+
+  describe('createPresenceHandlers', () => {
+    function joinAs(socketId: string, userId: string, userName: string): MockSocket {
+      const socket = createMockSocket({
+        id: socketId,
+        data: { userId, userName, isAuthenticated: true }
+      });
+      roomManager.joinRoom('project-123', socketId, { userId, userName });
+      return socket;
+    }
+
+    it('should broadcast presence when a user opens a ticket', async () => {
+      const mockSocket = joinAs('socket-a', 'user-1', 'Alice');
+      const handlers = createPresenceHandlers(mockSocket as any, roomManager);
+
+      await handlers['presence:view']({ projectId: 'project-123', ticketId: 'ticket-1' });
+
+      expect(mockSocket.to).toHaveBeenCalledWith('project-123');
+      expect(mockSocket.emit).toHaveBeenCalledWith('presence:update', {
+        projectId: 'project-123',
+        users: [expect.objectContaining({ userId: 'user-1', viewingTicketId: 'ticket-1' })]
+      });
+    });
+
+    it('should lock a ticket and tell others who is editing', async () => {
+      const mockSocket = joinAs('socket-a', 'user-1', 'Alice');
+      const handlers = createPresenceHandlers(mockSocket as any, roomManager);
+      const callback = vi.fn();
+
+      await handlers['ticket:lock']({ projectId: 'project-123', ticketId: 'ticket-1' }, callback);
+
+      expect(callback).toHaveBeenCalledWith({
+        success: true,
+        lock: expect.objectContaining({ ticketId: 'ticket-1', userId: 'user-1', userName: 'Alice' })
+      });
+      expect(mockSocket.emit).toHaveBeenCalledWith('presence:update', {
+        projectId: 'project-123',
+        users: [expect.objectContaining({ editingTicketId: 'ticket-1' })]
+      });
+    });
+
+    it('should reject a lock held by someone else', async () => {
+      const alice = joinAs('socket-a', 'user-1', 'Alice');
+      const bob = joinAs('socket-b', 'user-2', 'Bob');
+      await createPresenceHandlers(alice as any, roomManager)['ticket:lock'](
+        { projectId: 'project-123', ticketId: 'ticket-1' },
+        vi.fn()
+      );
+      const callback = vi.fn();
+
+      await createPresenceHandlers(bob as any, roomManager)['ticket:lock'](
+        { projectId: 'project-123', ticketId: 'ticket-1' },
+        callback
+      );
+
+      expect(callback).toHaveBeenCalledWith({
+        success: false,
+        lock: expect.objectContaining({ userId: 'user-1' }),
+        error: { code: 'TICKET_LOCKED', message: 'Alice is editing this ticket' }
+      });
+    });
+
+    it('should require joining the project before locking', async () => {
+      const mockSocket = createMockSocket();
+      const callback = vi.fn();
+
+      await createPresenceHandlers(mockSocket as any, roomManager)['ticket:lock'](
+        { projectId: 'project-123', ticketId: 'ticket-1' },
+        callback
+      );
+
+      expect(callback).toHaveBeenCalledWith(
+        expect.objectContaining({ success: false, error: expect.objectContaining({ code: 'NOT_IN_PROJECT' }) })
+      );
+    });
+
+    it('should release the lock on unlock and on disconnect', async () => {
+      const mockSocket = joinAs('socket-a', 'user-1', 'Alice');
+      const handlers = createPresenceHandlers(mockSocket as any, roomManager);
+
+      await handlers['ticket:lock']({ projectId: 'project-123', ticketId: 'ticket-1' }, vi.fn());
+      await handlers['ticket:unlock']({ projectId: 'project-123', ticketId: 'ticket-1' });
+      expect(roomManager.getLock('project-123', 'ticket-1')).toBeUndefined();
+
+      await handlers['ticket:lock']({ projectId: 'project-123', ticketId: 'ticket-1' }, vi.fn());
+      handleDisconnect(mockSocket as any, roomManager);
+      expect(roomManager.getLock('project-123', 'ticket-1')).toBeUndefined();
+    });
+  });
+
+  describe('createSyncHandlers', () => {
+    let log: ProjectEventLog;
+
+    beforeEach(() => {
+      log = new ProjectEventLog(2, () => null);
+      roomManager.joinRoom('project-123', 'test-socket-id', { userId: 'user-123' });
+    });
+
+    it('should replay the events missed since the last sequence', async () => {
+      await log.append('project-123', 'kanban:tickets', { type: 'ticket:created' });
+      await log.append('project-123', 'kanban:tickets', { type: 'ticket:moved' });
+      const sync = createProjectSync(() => null, log);
+      const callback = vi.fn();
+
+      await createSyncHandlers(createMockSocket() as any, roomManager, sync)['project:sync'](
+        { projectId: 'project-123', lastSeq: 1 },
+        callback
+      );
+
+      expect(callback).toHaveBeenCalledWith({
+        success: true,
+        latestSeq: 2,
+        events: [expect.objectContaining({ seq: 2, event: { type: 'ticket:moved' } })]
+      });
+    });
+
+    it('should send a snapshot when the missed events are no longer buffered', async () => {
+      for (let i = 0; i < 3; i++) {
+        await log.append('project-123', 'kanban:tickets', { type: 'ticket:updated' });
+      }
+      const loader = vi.fn().mockResolvedValue({ tickets: [] });
+      const canLoadSnapshot = vi.fn().mockResolvedValue(true);
+      const sync = createProjectSync(() => loader, log, canLoadSnapshot);
+      const callback = vi.fn();
+
+      await createSyncHandlers(createMockSocket() as any, roomManager, sync)['project:sync'](
+        { projectId: 'project-123', lastSeq: 0 },
+        callback
+      );
+
+      expect(canLoadSnapshot).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user-123' }), 'project-123');
+      expect(loader).toHaveBeenCalledWith('project-123');
+      expect(callback).toHaveBeenCalledWith({ success: true, latestSeq: 3, snapshot: { tickets: [] } });
+    });
+
+    it('should not send a snapshot to users outside the project', async () => {
+      for (let i = 0; i < 3; i++) {
+        await log.append('project-123', 'kanban:tickets', { type: 'ticket:updated' });
+      }
+      const loader = vi.fn().mockResolvedValue({ tickets: [] });
+      const sync = createProjectSync(() => loader, log, vi.fn().mockResolvedValue(false));
+      const callback = vi.fn();
+
+      await createSyncHandlers(createMockSocket() as any, roomManager, sync)['project:sync'](
+        { projectId: 'project-123', lastSeq: 0 },
+        callback
+      );
+
+      expect(loader).not.toHaveBeenCalled();
+      expect(callback).toHaveBeenCalledWith(
+        expect.objectContaining({ success: false, error: expect.objectContaining({ code: 'FORBIDDEN' }) })
+      );
+    });
+
+    it('should reject negative and future sequences instead of sending a snapshot', async () => {
+      await log.append('project-123', 'kanban:tickets', { type: 'ticket:created' });
+      const loader = vi.fn().mockResolvedValue({ tickets: [] });
+      const sync = createProjectSync(() => loader, log, vi.fn().mockResolvedValue(true));
+
+      for (const lastSeq of [-1, 5]) {
+        const callback = vi.fn();
+        await createSyncHandlers(createMockSocket() as any, roomManager, sync)['project:sync'](
+          { projectId: 'project-123', lastSeq },
+          callback
+        );
+
+        expect(callback).toHaveBeenCalledWith({
+          success: false,
+          latestSeq: 1,
+          error: expect.objectContaining({ code: 'INVALID_SEQUENCE' })
+        });
+      }
+      expect(loader).not.toHaveBeenCalled();
+    });
+
+    it('should require joining the project before syncing', async () => {
+      const callback = vi.fn();
+
+      await createSyncHandlers(createMockSocket({ id: 'other-socket' }) as any, roomManager)['project:sync'](
+        { projectId: 'project-123', lastSeq: 0 },
+        callback
+      );
+
+      expect(callback).toHaveBeenCalledWith(
+        expect.objectContaining({ success: false, error: expect.objectContaining({ code: 'NOT_IN_PROJECT' }) })
+      );
+    });
+  });
 });
@@ -0,0 +1,56 @@
+/**
+ * Project Event Board Changes Tests
+ *
+ * Tests mapping sequenced project events to the board changes boards apply.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getBoardChange } from '$lib/utils/project-events';
+import type { ProjectEventPayload } from '$lib/types/socket-events';
+
+function payload(event: Record<string, unknown>, channel = 'project:p1:tickets'): ProjectEventPayload {
+  return { seq: 1, channel, projectId: 'p1', event };
+}
+
+describe('getBoardChange', () => {
+  it('should map events of the server event publisher', () => {
+    const ticket = { id: 't1', title: 'New', status: 'BACKLOG', position: 0 };
+
+    expect(getBoardChange(payload({ type: 'created', ticketId: 't1', ticket }))).toEqual({
+      kind: 'upsert',
+      ticket
+    });
+    expect(getBoardChange(payload({ type: 'updated', ticketId: 't1', changes: { title: 'Renamed' } }))).toEqual({
+      kind: 'patch',
+      ticketId: 't1',
+      changes: { title: 'Renamed' }
+    });
+    expect(
+      getBoardChange(
+        payload({ type: 'moved', ticketId: 't1', fromStatus: 'TODO', toStatus: 'DONE', newPosition: 3, version: 4 })
+      )
+    ).toEqual({ kind: 'move', ticketId: 't1', status: 'DONE', position: 3, version: 4 });
+    expect(getBoardChange(payload({ type: 'deleted', ticketId: 't1' }))).toEqual({ kind: 'remove', ticketId: 't1' });
+  });
+
+  it('should map changes relayed between clients', () => {
+    expect(
+      getBoardChange(
+        payload(
+          { type: 'ticket:moved', ticketId: 't1', fromStatus: 'TODO', toStatus: 'IN_PROGRESS', newPosition: 1 },
+          'socket:relay'
+        )
+      )
+    ).toEqual({ kind: 'move', ticketId: 't1', status: 'IN_PROGRESS', position: 1, version: undefined });
+    expect(
+      getBoardChange(payload({ type: 'ticket:updated', ticketId: 't1', updates: { priority: 'HIGH' } }, 'socket:relay'))
+    ).toEqual({ kind: 'patch', ticketId: 't1', changes: { priority: 'HIGH' } });
+  });
+
+  it('should ignore events that do not change the board', () => {
+    expect(getBoardChange(payload({ type: 'progress:updated', ticketId: 't1' }, 'kanban:tickets'))).toBeNull();
+    expect(
+      getBoardChange(payload({ type: 'ticket:transitioned', ticketId: 't1', data: { jobIds: [] } }, 'kanban:tickets'))
+    ).toBeNull();
+  });
+});
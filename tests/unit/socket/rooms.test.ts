@@ -175,4 +175,76 @@ describe('RoomManager', () => {
       expect(user).toBeUndefined();
     });
   });
+
+  describe('presence and edit locks', () => {
+    beforeEach(() => {
+      roomManager.joinRoom('project-123', 'socket-abc', { userId: 'user-1', userName: 'Alice' });
+      roomManager.joinRoom('project-123', 'socket-def', { userId: 'user-2', userName: 'Bob' });
+    });
+
+    it('should report what each user views and edits', () => {
+      roomManager.setViewingTicket('project-123', 'socket-abc', 'ticket-1');
+      roomManager.acquireLock('project-123', 'ticket-1', 'socket-abc');
+
+      expect(roomManager.getPresence('project-123')).toEqual([
+        {
+          socketId: 'socket-abc',
+          userId: 'user-1',
+          userName: 'Alice',
+          viewingTicketId: 'ticket-1',
+          editingTicketId: 'ticket-1'
+        },
+        {
+          socketId: 'socket-def',
+          userId: 'user-2',
+          userName: 'Bob',
+          viewingTicketId: null,
+          editingTicketId: null
+        }
+      ]);
+    });
+
+    it('should not set the viewed ticket of a socket outside the room', () => {
+      expect(roomManager.setViewingTicket('project-123', 'socket-xyz', 'ticket-1')).toBe(false);
+    });
+
+    it('should give a lock to one socket at a time', () => {
+      const first = roomManager.acquireLock('project-123', 'ticket-1', 'socket-abc');
+      const second = roomManager.acquireLock('project-123', 'ticket-1', 'socket-def');
+
+      expect(first?.acquired).toBe(true);
+      expect(second).toEqual({ acquired: false, lock: first?.lock });
+      expect(roomManager.acquireLock('project-123', 'ticket-1', 'socket-abc')?.acquired).toBe(true);
+    });
+
+    it('should refuse locks to sockets outside the room', () => {
+      expect(roomManager.acquireLock('project-123', 'ticket-1', 'socket-xyz')).toBeNull();
+    });
+
+    it('should move a socket\'s lock when it edits another ticket', () => {
+      roomManager.acquireLock('project-123', 'ticket-1', 'socket-abc');
+      roomManager.acquireLock('project-123', 'ticket-2', 'socket-abc');
+
+      expect(roomManager.getLock('project-123', 'ticket-1')).toBeUndefined();
+      expect(roomManager.getLocks('project-123').map((l) => l.ticketId)).toEqual(['ticket-2']);
+    });
+
+    it('should only let the holder release a lock', () => {
+      roomManager.acquireLock('project-123', 'ticket-1', 'socket-abc');
+
+      expect(roomManager.releaseLock('project-123', 'ticket-1', 'socket-def')).toBe(false);
+      expect(roomManager.releaseLock('project-123', 'ticket-1', 'socket-abc')).toBe(true);
+      expect(roomManager.getLock('project-123', 'ticket-1')).toBeUndefined();
+    });
+
+    it('should release locks when the holder leaves or disconnects', () => {
+      roomManager.acquireLock('project-123', 'ticket-1', 'socket-abc');
+      roomManager.acquireLock('project-123', 'ticket-2', 'socket-def');
+
+      roomManager.leaveRoom('project-123', 'socket-abc');
+      roomManager.leaveAllRooms('socket-def');
+
+      expect(roomManager.getLocks('project-123')).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,112 @@
+/**
+ * Sprint Burn Chart Tests
+ *
+ * Tests the daily replay of sprint scope and progress, the ideal line and
+ * velocity averages.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildBurnChart, calculateVelocity } from '$lib/utils/sprint-burndown';
+import type { SprintTicketEntry } from '$lib/types/sprints';
+
+const sprint = {
+  startDate: new Date('2026-03-02T09:00:00Z'),
+  endDate: new Date('2026-03-06T17:00:00Z')
+};
+
+function entry(overrides: Partial<SprintTicketEntry> = {}): SprintTicketEntry {
+  return {
+    ticketId: 'ticket-1',
+    estimateHours: 8,
+    committed: true,
+    carriedOver: false,
+    addedAt: new Date('2026-02-27T12:00:00Z'),
+    removedAt: null,
+    doneAt: null,
+    ...overrides
+  };
+}
+
+describe('buildBurnChart', () => {
+  it('should produce one point per day from start to end', () => {
+    const points = buildBurnChart(sprint, [entry()], new Date('2026-03-10T00:00:00Z'));
+
+    expect(points.map((point) => point.date)).toEqual([
+      '2026-03-02T00:00:00.000Z',
+      '2026-03-03T00:00:00.000Z',
+      '2026-03-04T00:00:00.000Z',
+      '2026-03-05T00:00:00.000Z',
+      '2026-03-06T00:00:00.000Z'
+    ]);
+  });
+
+  it('should burn the ideal line from committed hours to zero', () => {
+    const points = buildBurnChart(
+      sprint,
+      [entry(), entry({ ticketId: 'ticket-2', estimateHours: 4, committed: false })],
+      new Date('2026-03-10T00:00:00Z')
+    );
+
+    expect(points.map((point) => point.idealHours)).toEqual([8, 6, 4, 2, 0]);
+  });
+
+  it('should count completed hours from the day a ticket was done', () => {
+    const points = buildBurnChart(
+      sprint,
+      [
+        entry({ doneAt: new Date('2026-03-03T15:00:00Z') }),
+        entry({ ticketId: 'ticket-2', estimateHours: 4 })
+      ],
+      new Date('2026-03-10T00:00:00Z')
+    );
+
+    expect(points.map((point) => point.completedHours)).toEqual([0, 8, 8, 8, 8]);
+    expect(points.map((point) => point.remainingHours)).toEqual([12, 4, 4, 4, 4]);
+    expect(points.every((point) => point.scopeHours === 12)).toBe(true);
+  });
+
+  it('should show tickets added and removed mid-sprint as scope changes', () => {
+    const points = buildBurnChart(
+      sprint,
+      [
+        entry(),
+        entry({ ticketId: 'ticket-2', estimateHours: 4, committed: false, addedAt: new Date('2026-03-03T10:00:00Z') }),
+        entry({ ticketId: 'ticket-3', estimateHours: 2, removedAt: new Date('2026-03-05T10:00:00Z') })
+      ],
+      new Date('2026-03-10T00:00:00Z')
+    );
+
+    expect(points.map((point) => point.scopeHours)).toEqual([10, 14, 14, 12, 12]);
+  });
+
+  it('should not count a ticket done after it left the sprint', () => {
+    const points = buildBurnChart(
+      sprint,
+      [
+        entry({
+          removedAt: new Date('2026-03-03T10:00:00Z'),
+          doneAt: new Date('2026-03-04T10:00:00Z')
+        })
+      ],
+      new Date('2026-03-10T00:00:00Z')
+    );
+
+    expect(points.every((point) => point.completedHours === 0)).toBe(true);
+  });
+
+  it('should leave remaining hours empty for days that have not come yet', () => {
+    const points = buildBurnChart(sprint, [entry()], new Date('2026-03-03T12:00:00Z'));
+
+    expect(points.map((point) => point.remainingHours)).toEqual([8, 8, null, null, null]);
+  });
+});
+
+describe('calculateVelocity', () => {
+  it('should average completed hours', () => {
+    expect(calculateVelocity([20, 30, 25])).toBe(25);
+  });
+
+  it('should return null without completed sprints', () => {
+    expect(calculateVelocity([])).toBeNull();
+  });
+});
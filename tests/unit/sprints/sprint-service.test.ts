@@ -0,0 +1,263 @@
+/**
+ * Sprint Service Tests
+ *
+ * Tests sprint validation, starting with a single active sprint, carry-over
+ * of unfinished tickets on completion, and capacity-based planning.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma = {
+    sprint: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn()
+    },
+    sprintTicket: {
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      delete: vi.fn(),
+      deleteMany: vi.fn()
+    },
+    ticket: {
+      findMany: vi.fn()
+    },
+    ticketHistory: {
+      findMany: vi.fn()
+    },
+    $transaction: vi.fn()
+  };
+  return { mockPrisma };
+});
+
+vi.mock('$lib/server/prisma', () => ({ prisma: mockPrisma }));
+
+import {
+  SprintService,
+  SprintNotFoundError,
+  SprintStateError,
+  validateSprintInput
+} from '$lib/server/sprints/sprint-service';
+
+function sprint(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'sprint-1',
+    projectId: 'project-1',
+    name: 'Sprint 4',
+    goal: null,
+    startDate: new Date('2026-03-02T00:00:00Z'),
+    endDate: new Date('2026-03-16T00:00:00Z'),
+    status: 'ACTIVE',
+    capacityHours: 40,
+    committedHours: 24,
+    completedHours: null,
+    completedAt: null,
+    createdAt: new Date('2026-02-27T00:00:00Z'),
+    updatedAt: new Date('2026-02-27T00:00:00Z'),
+    ...overrides
+  };
+}
+
+function sprintTicketRow(ticketId: string, status: string, estimateHours = 8) {
+  return {
+    ticketId,
+    estimateHours,
+    committed: true,
+    carriedOver: false,
+    addedAt: new Date('2026-03-01T00:00:00Z'),
+    removedAt: null,
+    ticket: { title: `Ticket ${ticketId}`, status, priority: 'MEDIUM' }
+  };
+}
+
+function backlogTicket(id: string, priority: string, position: number) {
+  return {
+    id,
+    title: `Ticket ${id}`,
+    description: null,
+    priority,
+    labels: [],
+    complexity: 3,
+    status: 'BACKLOG',
+    position
+  };
+}
+
+describe('validateSprintInput', () => {
+  const valid = { name: 'Sprint 1', startDate: '2026-03-02', endDate: '2026-03-16' };
+
+  it('should accept a valid sprint', () => {
+    expect(validateSprintInput(valid)).toBeNull();
+  });
+
+  it('should require a name and dates', () => {
+    expect(validateSprintInput({ ...valid, name: ' ' })).toBe('name is required');
+    expect(validateSprintInput({ ...valid, endDate: 'soon' })).toBe('endDate must be a date');
+  });
+
+  it('should reject an end before the start', () => {
+    expect(validateSprintInput({ ...valid, endDate: '2026-03-01' })).toBe('endDate must be after startDate');
+  });
+
+  it('should reject a negative capacity', () => {
+    expect(validateSprintInput({ capacityHours: -1 }, true)).toBe('capacityHours must be a non-negative number');
+  });
+});
+
+describe('SprintService', () => {
+  let service: SprintService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new SprintService();
+    mockPrisma.$transaction.mockImplementation(async (fn: (tx: typeof mockPrisma) => unknown) => fn(mockPrisma));
+    mockPrisma.sprint.update.mockImplementation(async ({ where, data }) => sprint({ id: where.id, ...data }));
+    mockPrisma.sprint.create.mockImplementation(async ({ data }) => sprint({ id: 'sprint-new', status: 'PLANNED', ...data }));
+    mockPrisma.ticketHistory.findMany.mockResolvedValue([]);
+  });
+
+  it('should not find a sprint of another project', async () => {
+    mockPrisma.sprint.findUnique.mockResolvedValue(sprint({ projectId: 'project-2' }));
+
+    await expect(service.getSprint('project-1', 'sprint-1')).rejects.toThrow(SprintNotFoundError);
+  });
+
+  describe('startSprint', () => {
+    it('should commit the planned tickets', async () => {
+      mockPrisma.sprint.findUnique.mockResolvedValue(sprint({ status: 'PLANNED', committedHours: null }));
+      mockPrisma.sprint.findFirst.mockResolvedValue(null);
+      mockPrisma.sprintTicket.findMany.mockResolvedValue([{ estimateHours: 8 }, { estimateHours: 5 }]);
+
+      const started = await service.startSprint('project-1', 'sprint-1');
+
+      expect(mockPrisma.sprintTicket.updateMany).toHaveBeenCalledWith({
+        where: { sprintId: 'sprint-1', removedAt: null },
+        data: { committed: true }
+      });
+      expect(started.status).toBe('ACTIVE');
+      expect(started.committedHours).toBe(13);
+    });
+
+    it('should refuse while another sprint is active', async () => {
+      mockPrisma.sprint.findUnique.mockResolvedValue(sprint({ status: 'PLANNED' }));
+      mockPrisma.sprint.findFirst.mockResolvedValue(sprint({ id: 'sprint-0', name: 'Sprint 3' }));
+
+      await expect(service.startSprint('project-1', 'sprint-1')).rejects.toThrow(SprintStateError);
+      expect(mockPrisma.sprint.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeSprint', () => {
+    beforeEach(() => {
+      mockPrisma.sprint.findUnique.mockResolvedValue(sprint());
+      mockPrisma.sprintTicket.findMany.mockResolvedValue([
+        sprintTicketRow('ticket-done', 'DONE', 8),
+        sprintTicketRow('ticket-open', 'IN_PROGRESS', 5),
+        sprintTicketRow('ticket-cancelled', 'CANCELLED', 3)
+      ]);
+      mockPrisma.ticket.findMany.mockResolvedValue([backlogTicket('ticket-open', 'MEDIUM', 0)]);
+    });
+
+    it('should record completed hours and carry unfinished tickets to the next planned sprint', async () => {
+      mockPrisma.sprint.findFirst.mockResolvedValue(sprint({ id: 'sprint-5', status: 'PLANNED' }));
+
+      const result = await service.completeSprint('project-1', 'sprint-1');
+
+      expect(result.sprint.status).toBe('COMPLETED');
+      expect(result.sprint.completedHours).toBe(8);
+      expect(result.carriedOver).toEqual(['ticket-open']);
+      expect(result.nextSprint?.id).toBe('sprint-5');
+      expect(mockPrisma.sprint.create).not.toHaveBeenCalled();
+      expect(mockPrisma.sprintTicket.updateMany).toHaveBeenCalledWith({
+        where: { sprintId: 'sprint-1', ticketId: { in: ['ticket-open'] } },
+        data: { carriedOver: true, removedAt: expect.any(Date) }
+      });
+      expect(mockPrisma.sprintTicket.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { sprintId_ticketId: { sprintId: 'sprint-5', ticketId: 'ticket-open' } }
+        })
+      );
+    });
+
+    it('should create the next sprint with the same length when none is planned', async () => {
+      mockPrisma.sprint.findFirst.mockResolvedValue(null);
+
+      const result = await service.completeSprint('project-1', 'sprint-1');
+
+      expect(mockPrisma.sprint.create).toHaveBeenCalledWith({
+        data: {
+          projectId: 'project-1',
+          name: 'Sprint 5',
+          startDate: new Date('2026-03-16T00:00:00Z'),
+          endDate: new Date('2026-03-30T00:00:00Z'),
+          capacityHours: 40
+        }
+      });
+      expect(result.nextSprint?.id).toBe('sprint-new');
+    });
+
+    it('should not create a sprint when everything is finished', async () => {
+      mockPrisma.sprintTicket.findMany.mockResolvedValue([sprintTicketRow('ticket-done', 'DONE', 8)]);
+
+      const result = await service.completeSprint('project-1', 'sprint-1');
+
+      expect(result.carriedOver).toEqual([]);
+      expect(result.nextSprint).toBeNull();
+      expect(mockPrisma.sprint.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to complete a sprint that is not active', async () => {
+      mockPrisma.sprint.findUnique.mockResolvedValue(sprint({ status: 'PLANNED' }));
+
+      await expect(service.completeSprint('project-1', 'sprint-1')).rejects.toThrow(SprintStateError);
+    });
+  });
+
+  describe('planSprint', () => {
+    it('should suggest the highest priority tickets that fit the remaining capacity', async () => {
+      mockPrisma.sprint.findUnique.mockResolvedValue(sprint({ status: 'PLANNED', capacityHours: 1000 }));
+      mockPrisma.sprintTicket.findMany.mockResolvedValue([]);
+      mockPrisma.ticket.findMany.mockResolvedValue([
+        backlogTicket('low', 'LOW', 0),
+        backlogTicket('critical', 'CRITICAL', 2),
+        backlogTicket('high', 'HIGH', 1)
+      ]);
+
+      const plan = await service.planSprint('project-1', 'sprint-1');
+
+      expect(plan.capacityHours).toBe(1000);
+      expect(plan.suggestions.map((suggestion) => suggestion.ticketId)).toEqual(['critical', 'high', 'low']);
+    });
+
+    it('should stop suggesting once capacity is used', async () => {
+      mockPrisma.sprint.findUnique.mockResolvedValue(sprint({ status: 'PLANNED', capacityHours: 10 }));
+      mockPrisma.sprintTicket.findMany.mockResolvedValue([{ estimateHours: 10 }]);
+      mockPrisma.ticket.findMany.mockResolvedValue([backlogTicket('high', 'HIGH', 0)]);
+
+      const plan = await service.planSprint('project-1', 'sprint-1');
+
+      expect(plan.plannedHours).toBe(10);
+      expect(plan.suggestions).toEqual([]);
+    });
+
+    it('should default capacity to velocity', async () => {
+      mockPrisma.sprint.findUnique.mockResolvedValue(sprint({ status: 'PLANNED', capacityHours: null }));
+      mockPrisma.sprint.findMany.mockResolvedValue([
+        sprint({ id: 'sprint-2', status: 'COMPLETED', completedHours: 20 }),
+        sprint({ id: 'sprint-3', status: 'COMPLETED', completedHours: 30 })
+      ]);
+      mockPrisma.sprintTicket.findMany.mockResolvedValue([]);
+      mockPrisma.ticket.findMany.mockResolvedValue([]);
+
+      const plan = await service.planSprint('project-1', 'sprint-1');
+
+      expect(plan.capacityHours).toBe(25);
+    });
+  });
+});
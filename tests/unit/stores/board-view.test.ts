@@ -0,0 +1,59 @@
+/**
+ * Board View Store Tests
+ *
+ * Tests that the swimlane grouping and collapsed lanes are remembered
+ * per user and project.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { get } from 'svelte/store';
+import {
+  boardView,
+  loadBoardView,
+  setGrouping,
+  toggleLane,
+  isLaneCollapsed
+} from '$lib/stores/board-view';
+
+describe('Board View Store', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should remember the grouping per user and project', () => {
+    loadBoardView('user-1', 'project-1');
+    setGrouping('assignee');
+
+    loadBoardView('user-2', 'project-1');
+    expect(get(boardView).grouping).toBe('none');
+
+    loadBoardView('user-1', 'project-2');
+    expect(get(boardView).grouping).toBe('none');
+
+    loadBoardView('user-1', 'project-1');
+    expect(get(boardView).grouping).toBe('assignee');
+  });
+
+  it('should collapse lanes per grouping', () => {
+    loadBoardView('user-1', 'project-1');
+    setGrouping('priority');
+    toggleLane('LOW');
+
+    expect(isLaneCollapsed(get(boardView), 'LOW')).toBe(true);
+
+    setGrouping('label');
+    expect(isLaneCollapsed(get(boardView), 'LOW')).toBe(false);
+
+    setGrouping('priority');
+    toggleLane('LOW');
+    expect(isLaneCollapsed(get(boardView), 'LOW')).toBe(false);
+  });
+
+  it('should ignore an unknown stored grouping', () => {
+    localStorage.setItem('cf-kanban-board-view-user-1-project-1', JSON.stringify({ grouping: 'sprint' }));
+
+    loadBoardView('user-1', 'project-1');
+
+    expect(get(boardView).grouping).toBe('none');
+  });
+});
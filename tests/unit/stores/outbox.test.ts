@@ -0,0 +1,203 @@
+/**
+ * Offline Outbox Store Tests
+ *
+ * Tests queueing, coalescing, persistence and replay of ticket mutations
+ * made while disconnected, and the conflicts recorded on replay.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { get } from 'svelte/store';
+import {
+  outbox,
+  syncConflicts,
+  queueMutation,
+  replayOutbox,
+  loadOutbox,
+  applyMine,
+  setOutboxStorage,
+  createMemoryStorage,
+  resetOutbox
+} from '$lib/stores/outbox';
+
+function jsonResponse(status: number, body: unknown = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+const move = (ticketId: string, fromState: string, toState: string) => ({
+  kind: 'ticket:move' as const,
+  projectId: 'project-1',
+  ticketId,
+  fromState,
+  toState
+});
+
+describe('Offline Outbox Store', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    resetOutbox();
+    setOutboxStorage(createMemoryStorage());
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('queueMutation', () => {
+    it('should coalesce moves of the same ticket', async () => {
+      await queueMutation(move('ticket-1', 'TODO', 'IN_PROGRESS'));
+      await queueMutation(move('ticket-1', 'IN_PROGRESS', 'REVIEW'));
+
+      expect(get(outbox)).toEqual([
+        expect.objectContaining({ ticketId: 'ticket-1', fromState: 'TODO', toState: 'REVIEW' })
+      ]);
+    });
+
+    it('should drop a move that returns the ticket to where it started', async () => {
+      await queueMutation(move('ticket-1', 'TODO', 'IN_PROGRESS'));
+      const id = await queueMutation(move('ticket-1', 'IN_PROGRESS', 'TODO'));
+
+      expect(id).toBeNull();
+      expect(get(outbox)).toEqual([]);
+    });
+
+    it('should merge edits keeping the earliest base of each field', async () => {
+      const edit = (changes: Record<string, unknown>, baseValues: Record<string, unknown>) => ({
+        kind: 'ticket:update' as const,
+        projectId: 'project-1',
+        ticketId: 'ticket-1',
+        changes,
+        baseValues
+      });
+
+      await queueMutation(edit({ title: 'B' }, { title: 'A' }));
+      await queueMutation(edit({ title: 'C', priority: 'HIGH' }, { title: 'B', priority: 'LOW' }));
+
+      expect(get(outbox)).toEqual([
+        expect.objectContaining({
+          changes: { title: 'C', priority: 'HIGH' },
+          baseValues: { title: 'A', priority: 'LOW' }
+        })
+      ]);
+    });
+
+    it('should persist the queue for the next session', async () => {
+      const storage = createMemoryStorage();
+      setOutboxStorage(storage);
+      await queueMutation(move('ticket-1', 'TODO', 'DONE'));
+
+      outbox.set([]);
+      setOutboxStorage(storage);
+      await loadOutbox();
+
+      expect(get(outbox)).toHaveLength(1);
+    });
+  });
+
+  describe('replayOutbox', () => {
+    it('should send moves with the state they were made against', async () => {
+      fetchMock.mockResolvedValue(jsonResponse(200, { ticket: {} }));
+      await queueMutation(move('ticket-1', 'TODO', 'IN_PROGRESS'));
+
+      const result = await replayOutbox();
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        '/api/tickets/ticket-1/transition',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ toState: 'IN_PROGRESS', fromState: 'TODO', triggeredBy: 'user' })
+        })
+      );
+      expect(result).toEqual({ replayed: 1, remaining: 0, conflicts: [] });
+      expect(get(outbox)).toEqual([]);
+    });
+
+    it('should record a conflict when someone else moved the ticket', async () => {
+      fetchMock.mockResolvedValue(
+        jsonResponse(409, { code: 'STATE_CONFLICT', currentState: 'DONE', ticket: { title: 'Login' } })
+      );
+      await queueMutation(move('ticket-1', 'TODO', 'IN_PROGRESS'));
+
+      await replayOutbox();
+
+      expect(get(syncConflicts)).toEqual([
+        expect.objectContaining({
+          kind: 'move',
+          ticketTitle: 'Login',
+          kept: 'DONE',
+          overwritten: 'IN_PROGRESS'
+        })
+      ]);
+    });
+
+    it('should apply non-conflicting fields and report the conflicting ones', async () => {
+      fetchMock
+        .mockResolvedValueOnce(
+          jsonResponse(409, {
+            code: 'EDIT_CONFLICT',
+            conflicts: [{ field: 'title', base: 'A', mine: 'Mine', theirs: 'Theirs' }],
+            ticket: { title: 'Theirs' }
+          })
+        )
+        .mockResolvedValueOnce(jsonResponse(200, {}));
+      await queueMutation({
+        kind: 'ticket:update',
+        projectId: 'project-1',
+        ticketId: 'ticket-1',
+        changes: { title: 'Mine', priority: 'HIGH' },
+        baseValues: { title: 'A', priority: 'LOW' }
+      });
+
+      await replayOutbox();
+
+      expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({
+        priority: 'HIGH',
+        baseValues: { title: 'A', priority: 'LOW' }
+      });
+      expect(get(syncConflicts)).toEqual([
+        expect.objectContaining({ kind: 'field', field: 'title', kept: 'Theirs', overwritten: 'Mine' })
+      ]);
+    });
+
+    it('should stop and keep the rest queued while still offline', async () => {
+      fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+      await queueMutation(move('ticket-1', 'TODO', 'IN_PROGRESS'));
+      await queueMutation(move('ticket-2', 'TODO', 'DONE'));
+
+      const result = await replayOutbox();
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({ replayed: 0, remaining: 2, conflicts: [] });
+    });
+  });
+
+  describe('applyMine', () => {
+    it('should re-apply the overwritten value and clear the conflict', async () => {
+      syncConflicts.set([
+        {
+          id: 'conflict-1',
+          kind: 'field',
+          projectId: 'project-1',
+          ticketId: 'ticket-1',
+          field: 'title',
+          kept: 'Theirs',
+          overwritten: 'Mine',
+          createdAt: 0
+        }
+      ]);
+      fetchMock.mockResolvedValue(jsonResponse(200, {}));
+
+      expect(await applyMine('conflict-1')).toBeNull();
+      expect(fetchMock).toHaveBeenCalledWith(
+        '/api/tickets/ticket-1',
+        expect.objectContaining({ method: 'PUT', body: JSON.stringify({ title: 'Mine' }) })
+      );
+      expect(get(syncConflicts)).toEqual([]);
+    });
+  });
+});
@@ -115,6 +115,11 @@ describe('Socket Events', () => {
     expect(typeof onTicketMoved).toBe('function');
   });
 
+  it('should export onComment subscription function', async () => {
+    const { onComment } = await import('$lib/stores/socket');
+    expect(typeof onComment).toBe('function');
+  });
+
   it('should allow subscribing and unsubscribing to events', async () => {
     const { onTicketCreated } = await import('$lib/stores/socket');
 
@@ -126,4 +131,28 @@ describe('Socket Events', () => {
     // Should be able to unsubscribe without error
     unsubscribe();
   });
+
+  it('should start with nobody present', async () => {
+    const { presence } = await import('$lib/stores/socket');
+    expect(get(presence)).toEqual([]);
+  });
+
+  it('should fail to lock a ticket when not connected', async () => {
+    const { lockTicket } = await import('$lib/stores/socket');
+
+    const response = await lockTicket('ticket-1');
+
+    expect(response.success).toBe(false);
+    expect(response.error?.code).toBe('NOT_CONNECTED');
+  });
+
+  it('should start from the loaded board sequence and reset it on leave', async () => {
+    const { joinProject, leaveProject, getLastEventSeq } = await import('$lib/stores/socket');
+
+    joinProject('project-123', 42);
+    expect(getLastEventSeq()).toBe(42);
+
+    leaveProject('project-123');
+    expect(getLastEventSeq()).toBe(0);
+  });
 });
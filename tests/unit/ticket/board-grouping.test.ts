@@ -0,0 +1,120 @@
+/**
+ * Board Swimlane Tests
+ *
+ * Tests grouping board tickets into swimlanes and the ticket change made
+ * by dropping a ticket into another lane.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Ticket } from '$lib/types';
+import { getLaneChange, groupTicketsIntoLanes } from '$lib/utils/board-grouping';
+import { getEpics } from '$lib/utils/ticket-hierarchy';
+
+function ticket(id: string, overrides: Partial<Ticket> = {}): Ticket {
+  return {
+    id,
+    title: id,
+    status: 'TODO',
+    priority: 'MEDIUM',
+    labels: [],
+    position: 0,
+    projectId: 'project-1',
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    ...overrides
+  };
+}
+
+describe('groupTicketsIntoLanes', () => {
+  it('should give every member a lane and put unassigned tickets last', () => {
+    const lanes = groupTicketsIntoLanes(
+      [ticket('t1', { assignedToId: 'u2' }), ticket('t2')],
+      'assignee',
+      { members: [{ id: 'u2', name: 'Bob' }, { id: 'u1', name: 'Alice' }] }
+    );
+
+    expect(lanes.map((lane) => [lane.label, lane.tickets.map((t) => t.id)])).toEqual([
+      ['Alice', []],
+      ['Bob', ['t1']],
+      ['Unassigned', ['t2']]
+    ]);
+  });
+
+  it('should order priority lanes from critical to low', () => {
+    const lanes = groupTicketsIntoLanes([ticket('t1', { priority: 'HIGH' })], 'priority');
+
+    expect(lanes.map((lane) => lane.key)).toEqual(['CRITICAL', 'HIGH', 'MEDIUM', 'LOW', '']);
+  });
+
+  it('should group by first label and count work in progress per lane', () => {
+    const lanes = groupTicketsIntoLanes(
+      [
+        ticket('t1', { labels: ['ui', 'auth'], status: 'IN_PROGRESS' }),
+        ticket('t2', { labels: ['ui'], status: 'DONE' }),
+        ticket('t3', { labels: ['auth'], status: 'REVIEW' })
+      ],
+      'label'
+    );
+
+    expect(lanes.map((lane) => [lane.key, lane.tickets.length, lane.wipCount])).toEqual([
+      ['auth', 1, 1],
+      ['ui', 2, 1],
+      ['', 0, 0]
+    ]);
+  });
+
+  it('should group by the primary agent type', () => {
+    const lanes = groupTicketsIntoLanes([ticket('t1'), ticket('t2')], 'agentType', {
+      agentTypes: new Map([['t1', 'coder']])
+    });
+
+    expect(lanes.map((lane) => [lane.label, lane.tickets.map((t) => t.id)])).toEqual([
+      ['coder', ['t1']],
+      ['No agent', ['t2']]
+    ]);
+  });
+
+  it('should give each epic a lane holding the epic and its sub-tasks', () => {
+    const tickets = [
+      ticket('epic', { title: 'Checkout' }),
+      ticket('t1', { parentId: 'epic' }),
+      ticket('t2')
+    ];
+    const lanes = groupTicketsIntoLanes(tickets, 'epic', { epics: getEpics(tickets) });
+
+    expect(lanes.map((lane) => [lane.label, lane.tickets.map((t) => t.id)])).toEqual([
+      ['Checkout', ['epic', 't1']],
+      ['No epic', ['t2']]
+    ]);
+  });
+});
+
+describe('getLaneChange', () => {
+  it('should reassign a ticket dropped into another assignee lane', () => {
+    expect(getLaneChange(ticket('t1', { assignedToId: 'u1' }), 'assignee', 'u2')).toEqual({
+      assignedToId: 'u2'
+    });
+    expect(getLaneChange(ticket('t1', { assignedToId: 'u1' }), 'assignee', '')).toEqual({
+      assignedToId: null
+    });
+  });
+
+  it('should replace the label the ticket was grouped by', () => {
+    expect(getLaneChange(ticket('t1', { labels: ['ui', 'auth', 'api'] }), 'label', 'api')).toEqual({
+      labels: ['api', 'auth']
+    });
+  });
+
+  it('should not change anything within a lane or for agent types', () => {
+    expect(getLaneChange(ticket('t1', { priority: 'LOW' }), 'priority', 'LOW')).toBeNull();
+    expect(getLaneChange(ticket('t1'), 'agentType', 'coder')).toBeNull();
+  });
+
+  it('should move a sub-task between epics but leave epics in their lane', () => {
+    const epics = new Map([['e1', 'Epic 1'], ['e2', 'Epic 2']]);
+
+    expect(getLaneChange(ticket('t1', { parentId: 'e1' }), 'epic', 'e2', { epics })).toEqual({ parentId: 'e2' });
+    expect(getLaneChange(ticket('t1', { parentId: 'e1' }), 'epic', '', { epics })).toEqual({ parentId: null });
+    expect(getLaneChange(ticket('e1'), 'epic', 'e2', { epics })).toBeNull();
+  });
+});
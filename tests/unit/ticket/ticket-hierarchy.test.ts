@@ -0,0 +1,189 @@
+/**
+ * Ticket Hierarchy Tests
+ *
+ * Test Coverage:
+ * - Rolling an epic's progress up from its sub-tasks
+ * - Workflow paths an epic is moved along
+ * - Sub-task suggestions for complex tickets
+ * - Parent validation and moving an epic to REVIEW when its sub-tasks are done
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const { mockPrisma, mockTransition, mockPublishMoved } = vi.hoisted(() => ({
+  mockPrisma: {
+    ticket: { findUnique: vi.fn(), findMany: vi.fn(), findFirst: vi.fn(), count: vi.fn(), create: vi.fn() }
+  },
+  mockTransition: vi.fn(),
+  mockPublishMoved: vi.fn()
+}));
+
+vi.mock('$lib/server/prisma', () => ({ prisma: mockPrisma }));
+vi.mock('$lib/server/events', () => ({
+  publishTicketCreated: vi.fn(),
+  publishTicketMoved: mockPublishMoved
+}));
+vi.mock('$lib/server/progress', () => ({
+  progressTracker: { getProgress: vi.fn(() => undefined) }
+}));
+vi.mock('$lib/state-machine/ticket-state-machine', () => ({
+  ticketStateMachine: { transition: mockTransition }
+}));
+
+import { calculateRollup, isRollupComplete } from '$lib/utils/ticket-hierarchy';
+import { DEFAULT_WORKFLOW, findWorkflowPath } from '$lib/state-machine/workflow';
+import { shouldSplitTicket, suggestSubtasks } from '$lib/server/analysis/ticket-decomposer';
+import { TicketHierarchyError, TicketHierarchyService } from '$lib/server/hierarchy';
+
+describe('calculateRollup', () => {
+  it('should average progress over sub-tasks that were not cancelled', () => {
+    const rollup = calculateRollup(
+      [
+        { id: 'a', status: 'DONE' },
+        { id: 'b', status: 'IN_PROGRESS' },
+        { id: 'c', status: 'CANCELLED' }
+      ],
+      (id) => (id === 'b' ? 50 : undefined)
+    );
+
+    expect(rollup).toMatchObject({ total: 2, done: 1, inProgress: 1, cancelled: 1, percentComplete: 75 });
+    expect(rollup.byStatus).toEqual({ DONE: 1, IN_PROGRESS: 1, CANCELLED: 1 });
+    expect(isRollupComplete(rollup)).toBe(false);
+  });
+
+  it('should be complete only when every counted sub-task is done', () => {
+    expect(isRollupComplete(calculateRollup([{ id: 'a', status: 'DONE' }, { id: 'b', status: 'CANCELLED' }]))).toBe(true);
+    expect(isRollupComplete(calculateRollup([{ id: 'a', status: 'CANCELLED' }]))).toBe(false);
+    expect(isRollupComplete(calculateRollup([]))).toBe(false);
+  });
+});
+
+describe('findWorkflowPath', () => {
+  it('should find the shortest path avoiding the given states', () => {
+    expect(findWorkflowPath(DEFAULT_WORKFLOW, 'BACKLOG', 'REVIEW', ['DONE', 'CANCELLED'])).toEqual([
+      'TODO',
+      'IN_PROGRESS',
+      'REVIEW'
+    ]);
+    expect(findWorkflowPath(DEFAULT_WORKFLOW, 'REVIEW', 'REVIEW')).toEqual([]);
+    expect(findWorkflowPath(DEFAULT_WORKFLOW, 'DONE', 'REVIEW')).toBeNull();
+  });
+});
+
+describe('suggestSubtasks', () => {
+  it('should split only complex tickets', () => {
+    expect(shouldSplitTicket(8)).toBe(true);
+    expect(shouldSplitTicket(4)).toBe(false);
+    expect(shouldSplitTicket(null)).toBe(false);
+  });
+
+  it('should turn description list items into sub-tasks', () => {
+    const subtasks = suggestSubtasks({
+      title: 'Checkout',
+      description: 'Steps:\n- [ ] Cart summary\n- [x] Payment form\n1. Order confirmation email',
+      priority: 'HIGH',
+      labels: ['shop']
+    });
+
+    expect(subtasks.map((s) => s.title)).toEqual(['Cart summary', 'Payment form', 'Order confirmation email']);
+    expect(subtasks[0]).toMatchObject({ priority: 'HIGH', labels: ['shop'] });
+  });
+
+  it('should fall back to a plan for the ticket type', () => {
+    const subtasks = suggestSubtasks({ title: 'Fix login crash', description: null });
+
+    expect(subtasks.map((s) => s.title)).toEqual([
+      'Reproduce Fix login crash',
+      'Fix Fix login crash',
+      'Add regression tests for Fix login crash'
+    ]);
+  });
+});
+
+describe('TicketHierarchyService', () => {
+  let service: TicketHierarchyService;
+
+  function parent(overrides: Record<string, unknown> = {}) {
+    return {
+      id: 'epic',
+      projectId: 'project-1',
+      status: 'TODO',
+      workflowState: null,
+      project: { settings: null },
+      ...overrides
+    };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new TicketHierarchyService();
+    mockTransition.mockResolvedValue({ position: 0 });
+  });
+
+  describe('validateParent', () => {
+    it('should reject nesting sub-tasks', async () => {
+      mockPrisma.ticket.findUnique.mockResolvedValue({ id: 'epic', projectId: 'project-1', parentId: 'other' });
+
+      await expect(service.validateParent({ id: 't1', projectId: 'project-1' }, 'epic')).rejects.toThrow(
+        TicketHierarchyError
+      );
+    });
+
+    it('should reject making an epic a sub-task', async () => {
+      mockPrisma.ticket.findUnique.mockResolvedValue({ id: 'epic', projectId: 'project-1', parentId: null });
+      mockPrisma.ticket.count.mockResolvedValue(2);
+
+      await expect(service.validateParent({ id: 't1', projectId: 'project-1' }, 'epic')).rejects.toThrow(
+        'An epic cannot be a sub-task'
+      );
+    });
+  });
+
+  describe('reviewParentIfComplete', () => {
+    it('should move the epic to REVIEW through the workflow when all sub-tasks are done', async () => {
+      mockPrisma.ticket.findUnique.mockResolvedValue(parent());
+      mockPrisma.ticket.findMany.mockResolvedValue([
+        { id: 't1', status: 'DONE' },
+        { id: 't2', status: 'CANCELLED' }
+      ]);
+
+      const result = await service.reviewParentIfComplete({ id: 't1', projectId: 'project-1', parentId: 'epic' });
+
+      expect(result).toEqual({ parentId: 'epic', moved: true, path: ['IN_PROGRESS', 'REVIEW'] });
+      expect(mockTransition.mock.calls.map(([, state]) => state)).toEqual(['IN_PROGRESS', 'REVIEW']);
+      expect(mockTransition).toHaveBeenCalledWith('epic', 'REVIEW', {
+        triggeredBy: 'system',
+        reason: 'All sub-tasks are done'
+      });
+      expect(mockPublishMoved).toHaveBeenLastCalledWith('project-1', 'epic', 'IN_PROGRESS', 'REVIEW', 0);
+    });
+
+    it('should leave the epic while sub-tasks remain', async () => {
+      mockPrisma.ticket.findUnique.mockResolvedValue(parent());
+      mockPrisma.ticket.findMany.mockResolvedValue([
+        { id: 't1', status: 'DONE' },
+        { id: 't2', status: 'IN_PROGRESS' }
+      ]);
+
+      const result = await service.reviewParentIfComplete({ id: 't1', projectId: 'project-1', parentId: 'epic' });
+
+      expect(result).toEqual({ parentId: 'epic', moved: false, reason: '1 of 2 sub-tasks done' });
+      expect(mockTransition).not.toHaveBeenCalled();
+    });
+
+    it('should respect the project setting', async () => {
+      mockPrisma.ticket.findUnique.mockResolvedValue(
+        parent({ project: { settings: { scheduling: { autoReviewParents: false } } } })
+      );
+
+      const result = await service.reviewParentIfComplete({ id: 't1', projectId: 'project-1', parentId: 'epic' });
+
+      expect(result?.moved).toBe(false);
+      expect(mockPrisma.ticket.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should ignore tickets without an epic', async () => {
+      expect(await service.reviewParentIfComplete({ id: 't1', projectId: 'project-1', parentId: null })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Ticket Edit Merging Tests
+ *
+ * Tests the three-way merge offered when a ticket save is rejected
+ * because someone else saved first, and the detection of concurrent
+ * edits in replayed offline changes.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findEditConflicts, mergeTicketEdits, resolveMergeConflicts } from '$lib/utils/ticket-merge';
+
+const base = {
+  title: 'Login page',
+  description: 'Add a login form',
+  priority: 'MEDIUM' as const,
+  labels: ['auth']
+};
+
+describe('mergeTicketEdits', () => {
+  it('should keep my changes to fields nobody else touched', () => {
+    const mine = { ...base, title: 'Login and signup page' };
+    const theirs = { ...base, priority: 'HIGH' as const };
+
+    expect(mergeTicketEdits(base, mine, theirs)).toEqual({
+      merged: { title: 'Login and signup page' },
+      conflicts: []
+    });
+  });
+
+  it('should report fields both sides changed differently', () => {
+    const mine = { ...base, description: 'Add a login form with SSO' };
+    const theirs = { ...base, description: 'Add a login form and captcha' };
+
+    expect(mergeTicketEdits(base, mine, theirs)).toEqual({
+      merged: {},
+      conflicts: [
+        {
+          field: 'description',
+          base: 'Add a login form',
+          mine: 'Add a login form with SSO',
+          theirs: 'Add a login form and captcha'
+        }
+      ]
+    });
+  });
+
+  it('should not conflict when both sides made the same change', () => {
+    const mine = { ...base, labels: ['auth', 'frontend'] };
+    const theirs = { ...base, labels: ['auth', 'frontend'] };
+
+    expect(mergeTicketEdits(base, mine, theirs)).toEqual({ merged: {}, conflicts: [] });
+  });
+
+  it('should ignore fields missing from my draft', () => {
+    const theirs = { ...base, title: 'Renamed' };
+
+    expect(mergeTicketEdits(base, { priority: 'LOW' }, theirs)).toEqual({
+      merged: { priority: 'LOW' },
+      conflicts: []
+    });
+  });
+});
+
+describe('resolveMergeConflicts', () => {
+  it('should apply my value only where I chose to keep it', () => {
+    const result = mergeTicketEdits(
+      base,
+      { ...base, title: 'Mine', priority: 'LOW', labels: ['ui'] },
+      { ...base, title: 'Theirs', priority: 'CRITICAL' }
+    );
+
+    expect(resolveMergeConflicts(result, ['priority'])).toEqual({
+      labels: ['ui'],
+      priority: 'LOW'
+    });
+  });
+});
+
+describe('findEditConflicts', () => {
+  it('should report fields changed since the base to another value', () => {
+    expect(
+      findEditConflicts(
+        { title: 'A', priority: 'LOW', labels: ['x'] },
+        { title: 'Mine', priority: 'HIGH', labels: ['x', 'y'] },
+        { title: 'Theirs', priority: 'HIGH', labels: ['x'] }
+      )
+    ).toEqual([{ field: 'title', base: 'A', mine: 'Mine', theirs: 'Theirs' }]);
+  });
+
+  it('should ignore fields without a base value', () => {
+    expect(findEditConflicts({}, { title: 'Mine' }, { title: 'Theirs' })).toEqual([]);
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * Per-Project Workflow Tests
+ *
+ * Test Coverage:
+ * - Default workflow equivalence with VALID_TRANSITIONS
+ * - Workflow validation
+ * - Custom states mapping onto core statuses
+ * - Role-restricted transitions
+ * - Column WIP limits
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma = {
+    ticket: { findUnique: vi.fn(), update: vi.fn(), count: vi.fn() },
+    ticketHistory: { create: vi.fn(), findMany: vi.fn() },
+    $transaction: vi.fn()
+  };
+  mockPrisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(mockPrisma));
+  return { mockPrisma };
+});
+
+vi.mock('$lib/server/prisma', () => ({ prisma: mockPrisma }));
+
+import {
+  TICKET_STATES,
+  VALID_TRANSITIONS,
+  InvalidTransitionError,
+  TransitionNotPermittedError,
+  WipLimitExceededError
+} from '$lib/state-machine/types';
+import {
+  DEFAULT_WORKFLOW,
+  getProjectWorkflow,
+  getTicketWorkflowState,
+  isOverWipLimit,
+  validateWorkflow,
+  type WorkflowDefinition
+} from '$lib/state-machine/workflow';
+import { TicketStateMachine } from '$lib/state-machine/ticket-state-machine';
+
+function qaWorkflow(): WorkflowDefinition {
+  return {
+    states: [
+      ...DEFAULT_WORKFLOW.states,
+      { key: 'QA', label: 'QA', baseStatus: 'REVIEW' }
+    ],
+    transitions: [
+      ...DEFAULT_WORKFLOW.transitions,
+      { from: 'REVIEW', to: 'QA' },
+      { from: 'QA', to: 'DONE', requiredRoles: ['OWNER', 'ADMIN'] }
+    ]
+  };
+}
+
+describe('DEFAULT_WORKFLOW', () => {
+  it('should contain every core state', () => {
+    expect(DEFAULT_WORKFLOW.states.map((s) => s.key)).toEqual([...TICKET_STATES]);
+  });
+
+  it('should mirror VALID_TRANSITIONS', () => {
+    for (const from of TICKET_STATES) {
+      const targets = DEFAULT_WORKFLOW.transitions.filter((t) => t.from === from).map((t) => t.to);
+      expect(targets).toEqual(VALID_TRANSITIONS[from]);
+    }
+  });
+
+  it('should be valid without warnings', () => {
+    expect(validateWorkflow(DEFAULT_WORKFLOW)).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+});
+
+describe('validateWorkflow', () => {
+  it('should accept custom states', () => {
+    expect(validateWorkflow(qaWorkflow()).valid).toBe(true);
+  });
+
+  it('should reject missing core states', () => {
+    const workflow: WorkflowDefinition = {
+      states: DEFAULT_WORKFLOW.states.filter((s) => s.key !== 'DONE'),
+      transitions: DEFAULT_WORKFLOW.transitions.filter((t) => t.from !== 'DONE' && t.to !== 'DONE')
+    };
+    const result = validateWorkflow(workflow);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Core state "DONE" is missing (hide it instead of removing it)');
+  });
+
+  it('should reject invalid keys, base statuses and duplicates', () => {
+    const workflow = qaWorkflow();
+    workflow.states.push(
+      { key: 'qa lower', label: 'Bad', baseStatus: 'REVIEW' },
+      { key: 'QA', label: 'QA again', baseStatus: 'REVIEW' },
+      { key: 'STAGING', label: 'Staging', baseStatus: 'SHIPPED' as never }
+    );
+    const result = validateWorkflow(workflow);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(3);
+  });
+
+  it('should reject transitions to unknown states and unknown roles', () => {
+    const workflow = qaWorkflow();
+    workflow.transitions.push(
+      { from: 'QA', to: 'NOWHERE' },
+      { from: 'QA', to: 'BACKLOG', requiredRoles: ['SUPERUSER' as never] }
+    );
+    const result = validateWorkflow(workflow);
+    expect(result.errors).toEqual([
+      'Transition QA->NOWHERE references an unknown state',
+      'Transition QA->BACKLOG requires unknown role "SUPERUSER"'
+    ]);
+  });
+
+  it('should warn when automation transitions are removed', () => {
+    const workflow = qaWorkflow();
+    workflow.transitions = workflow.transitions.filter(
+      (t) => !(t.from === 'IN_PROGRESS' && t.to === 'REVIEW')
+    );
+    const result = validateWorkflow(workflow);
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toHaveLength(1);
+  });
+});
+
+describe('WIP limits', () => {
+  it('should only accept positive whole numbers', () => {
+    const workflow = qaWorkflow();
+    workflow.states = workflow.states.map((state) =>
+      state.key === 'IN_PROGRESS' ? { ...state, wipLimit: 0 } : state.key === 'QA' ? { ...state, wipLimit: 2 } : state
+    );
+
+    expect(validateWorkflow(workflow).errors).toEqual([
+      'State "IN_PROGRESS" must have a positive whole number as WIP limit'
+    ]);
+  });
+
+  it('should flag columns over their limit', () => {
+    expect(isOverWipLimit({ wipLimit: 3 }, 3)).toBe(false);
+    expect(isOverWipLimit({ wipLimit: 3 }, 4)).toBe(true);
+    expect(isOverWipLimit({}, 100)).toBe(false);
+  });
+});
+
+describe('getProjectWorkflow', () => {
+  it('should fall back to the default workflow', () => {
+    expect(getProjectWorkflow(null)).toBe(DEFAULT_WORKFLOW);
+    expect(getProjectWorkflow({ workflow: { states: [] , transitions: [] } })).toBe(DEFAULT_WORKFLOW);
+  });
+
+  it('should return a valid stored workflow', () => {
+    const workflow = qaWorkflow();
+    expect(getProjectWorkflow({ workflow })).toBe(workflow);
+  });
+
+  it('should resolve a ticket custom state before its status', () => {
+    expect(getTicketWorkflowState({ status: 'REVIEW', workflowState: 'QA' })).toBe('QA');
+    expect(getTicketWorkflowState({ status: 'REVIEW', workflowState: null })).toBe('REVIEW');
+  });
+});
+
+describe('TicketStateMachine with project workflows', () => {
+  let stateMachine: TicketStateMachine;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    stateMachine = new TicketStateMachine();
+    mockPrisma.ticketHistory.create.mockImplementation(({ data }) => Promise.resolve({ id: 'h-1', ...data }));
+    mockPrisma.ticket.update.mockImplementation(({ data }) => Promise.resolve({ id: 'ticket-1', ...data }));
+  });
+
+  function mockTicket(status: string, workflowState: string | null = null, workflow = qaWorkflow()) {
+    mockPrisma.ticket.findUnique.mockResolvedValue({
+      id: 'ticket-1',
+      projectId: 'project-1',
+      status,
+      workflowState,
+      project: { settings: { workflow } }
+    });
+  }
+
+  function limitedWorkflow(enforceWipLimits: boolean): WorkflowDefinition {
+    const workflow = qaWorkflow();
+    return {
+      ...workflow,
+      states: workflow.states.map((state) => (state.key === 'QA' ? { ...state, wipLimit: 2 } : state)),
+      enforceWipLimits
+    };
+  }
+
+  it('should check transitions against the given workflow', () => {
+    const workflow = qaWorkflow();
+    expect(stateMachine.canTransition('REVIEW', 'QA')).toBe(false);
+    expect(stateMachine.canTransition('REVIEW', 'QA', { workflow })).toBe(true);
+    expect(stateMachine.canTransition('QA', 'DONE', { workflow, role: 'MEMBER' })).toBe(false);
+    expect(stateMachine.canTransition('QA', 'DONE', { workflow, role: 'ADMIN' })).toBe(true);
+  });
+
+  it('should store custom states with their base status', async () => {
+    mockTicket('REVIEW');
+
+    const { ticket, history } = await stateMachine.transitionWithHistory('ticket-1', 'QA', {
+      triggeredBy: 'user',
+      role: 'MEMBER'
+    });
+
+    expect(ticket).toMatchObject({ status: 'REVIEW', workflowState: 'QA' });
+    expect(history).toMatchObject({
+      fromStatus: 'REVIEW',
+      toStatus: 'REVIEW',
+      fromState: 'REVIEW',
+      toState: 'QA'
+    });
+  });
+
+  it('should clear the custom state when moving to a core state', async () => {
+    mockTicket('REVIEW', 'QA');
+
+    const ticket = await stateMachine.transition('ticket-1', 'DONE', {
+      triggeredBy: 'user',
+      role: 'OWNER'
+    });
+
+    expect(ticket).toMatchObject({ status: 'DONE', workflowState: null });
+  });
+
+  it('should reject transitions not in the project workflow', async () => {
+    mockTicket('REVIEW', 'QA');
+
+    await expect(
+      stateMachine.transition('ticket-1', 'IN_PROGRESS', { triggeredBy: 'user' })
+    ).rejects.toThrow(InvalidTransitionError);
+  });
+
+  it('should reject user transitions without a required role', async () => {
+    mockTicket('REVIEW', 'QA');
+
+    await expect(
+      stateMachine.transition('ticket-1', 'DONE', { triggeredBy: 'user', role: 'MEMBER' })
+    ).rejects.toThrow(TransitionNotPermittedError);
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('should not apply role restrictions to system transitions', async () => {
+    mockTicket('REVIEW', 'QA');
+
+    const ticket = await stateMachine.transition('ticket-1', 'DONE', { triggeredBy: 'system' });
+
+    expect(ticket.status).toBe('DONE');
+  });
+
+  it('should reject moves into a full column when WIP limits are enforced', async () => {
+    mockTicket('REVIEW', null, limitedWorkflow(true));
+    mockPrisma.ticket.count.mockResolvedValue(2);
+
+    const move = stateMachine.transition('ticket-1', 'QA', { triggeredBy: 'agent' });
+
+    await expect(move).rejects.toThrow(WipLimitExceededError);
+    await expect(move).rejects.toMatchObject({ state: 'QA', wipLimit: 2, count: 2 });
+    expect(mockPrisma.ticket.count).toHaveBeenCalledWith({
+      where: { projectId: 'project-1', workflowState: 'QA' }
+    });
+    expect(mockPrisma.ticket.update).not.toHaveBeenCalled();
+  });
+
+  it('should retry a move aborted by a concurrent one and then enforce the limit', async () => {
+    mockTicket('REVIEW', null, limitedWorkflow(true));
+    // The concurrent move commits first and aborts this one, whose retry counts it
+    mockPrisma.$transaction.mockRejectedValueOnce(Object.assign(new Error('Write conflict'), { code: 'P2034' }));
+    mockPrisma.ticket.count.mockResolvedValue(2);
+
+    const move = stateMachine.transition('ticket-1', 'QA', { triggeredBy: 'agent' });
+
+    await expect(move).rejects.toMatchObject({ state: 'QA', wipLimit: 2, count: 2 });
+    expect(mockPrisma.$transaction).toHaveBeenCalledTimes(2);
+    expect(mockPrisma.$transaction).toHaveBeenCalledWith(expect.any(Function), {
+      isolationLevel: 'Serializable'
+    });
+  });
+
+  it('should only run moves into columns with a hard limit serializable', async () => {
+    mockTicket('REVIEW', null, limitedWorkflow(false));
+
+    await stateMachine.transition('ticket-1', 'QA', { triggeredBy: 'agent' });
+
+    expect(mockPrisma.$transaction).toHaveBeenCalledWith(expect.any(Function), {});
+  });
+
+  it('should allow moves into a column below its limit or when limits only warn', async () => {
+    mockTicket('REVIEW', null, limitedWorkflow(true));
+    mockPrisma.ticket.count.mockResolvedValue(1);
+    await expect(stateMachine.transition('ticket-1', 'QA', { triggeredBy: 'agent' })).resolves.toMatchObject({
+      workflowState: 'QA'
+    });
+
+    mockTicket('REVIEW', null, limitedWorkflow(false));
+    mockPrisma.ticket.count.mockResolvedValue(5);
+    await expect(stateMachine.transition('ticket-1', 'QA', { triggeredBy: 'agent' })).resolves.toMatchObject({
+      workflowState: 'QA'
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Unit Tests for Dependency-Aware Scheduling
+ *
+ * Tests detection of unblocked TODO tickets, start ordering and
+ * resource limit enforcement.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const { mockPrisma, mockCheckSpawnLimits, mockGetLimits, mockAssignAgents } = vi.hoisted(() => ({
+	mockPrisma: {
+		project: { findUnique: vi.fn() },
+		ticket: { findMany: vi.fn(), count: vi.fn() }
+	},
+	mockCheckSpawnLimits: vi.fn(),
+	mockGetLimits: vi.fn(),
+	mockAssignAgents: vi.fn()
+}));
+
+vi.mock('$lib/server/prisma', () => ({ prisma: mockPrisma }));
+
+vi.mock('$lib/server/resources/allocation', () => ({
+	checkSpawnLimits: mockCheckSpawnLimits,
+	getProjectResourceLimits: mockGetLimits
+}));
+
+vi.mock('$lib/server/assignment/agent-router', () => ({
+	agentRouter: { assignAgents: mockAssignAgents }
+}));
+
+import {
+	findUnblockedTickets,
+	scheduleUnblockedTickets
+} from '$lib/server/workflow/dependency-scheduler';
+
+const todoTickets = [
+	{ id: 'free', priority: 'CRITICAL', position: 0, dependencyIds: [] },
+	{ id: 'low', priority: 'LOW', position: 1, dependencyIds: ['done-1'] },
+	{ id: 'high', priority: 'HIGH', position: 2, dependencyIds: ['done-1', 'done-2'] },
+	{ id: 'waiting', priority: 'HIGH', position: 3, dependencyIds: ['done-1', 'open-1'] },
+	{ id: 'high-later', priority: 'HIGH', position: 4, dependencyIds: ['done-2'] }
+];
+
+function mockTickets() {
+	mockPrisma.ticket.findMany.mockImplementation(({ where }) =>
+		Promise.resolve(
+			where.status === 'TODO'
+				? todoTickets
+				: where.status === 'DONE'
+					? where.id.in.filter((id: string) => id.startsWith('done')).map((id: string) => ({ id }))
+					: todoTickets
+							.filter((ticket) => where.id.in.includes(ticket.id))
+							.map((ticket) => ({ ...ticket, title: `Ticket ${ticket.id}`, description: null, labels: [] }))
+		)
+	);
+}
+
+/** Agents the router assigns: two per ticket */
+function agents(count = 2) {
+	return { agents: Array.from({ length: count }, (_, i) => ({ type: `agent-${i}` })) };
+}
+
+describe('findUnblockedTickets', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockTickets();
+	});
+
+	it('should return tickets whose dependencies are all DONE, by priority then position', async () => {
+		expect(await findUnblockedTickets('project-1')).toEqual(['high', 'high-later', 'low']);
+	});
+
+	it('should ignore tickets without dependencies', async () => {
+		mockPrisma.ticket.findMany.mockResolvedValueOnce([todoTickets[0]]);
+
+		expect(await findUnblockedTickets('project-1')).toEqual([]);
+		expect(mockPrisma.ticket.findMany).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('scheduleUnblockedTickets', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockTickets();
+		mockPrisma.project.findUnique.mockResolvedValue({
+			settings: { scheduling: { autoStartUnblocked: true } }
+		});
+		mockCheckSpawnLimits.mockResolvedValue({ allowed: true });
+		mockGetLimits.mockResolvedValue({ maxCpu: 4, maxMemory: 4096, maxAgents: 5, maxSwarms: 2 });
+		mockPrisma.ticket.count.mockResolvedValue(0);
+		mockAssignAgents.mockResolvedValue(agents());
+	});
+
+	it('should do nothing when auto-start is disabled', async () => {
+		mockPrisma.project.findUnique.mockResolvedValue({ settings: {} });
+
+		const decision = await scheduleUnblockedTickets('project-1');
+
+		expect(decision).toEqual({ enabled: false, startable: [], deferred: [] });
+		expect(mockPrisma.ticket.findMany).not.toHaveBeenCalled();
+	});
+
+	it('should start as many tickets as the swarm limit allows', async () => {
+		mockPrisma.ticket.count.mockResolvedValue(1);
+
+		const decision = await scheduleUnblockedTickets('project-1');
+
+		expect(mockPrisma.ticket.count).toHaveBeenCalledWith({
+			where: { projectId: 'project-1', status: 'IN_PROGRESS' }
+		});
+		expect(decision.startable).toEqual(['high']);
+		expect(decision.deferred.map((d) => d.ticketId)).toEqual(['high-later', 'low']);
+		expect(decision.deferred[0].reason).toContain('Swarm limit reached');
+	});
+
+	it('should defer everything when the agents of the first ticket do not fit', async () => {
+		mockCheckSpawnLimits.mockResolvedValue({ allowed: false, reason: 'Agent limit exceeded' });
+
+		const decision = await scheduleUnblockedTickets('project-1');
+
+		expect(mockCheckSpawnLimits).toHaveBeenCalledWith({ projectId: 'project-1', agentCount: 2 });
+		expect(decision.startable).toEqual([]);
+		expect(decision.deferred).toHaveLength(3);
+		expect(decision.deferred[0].reason).toBe('Agent limit exceeded');
+	});
+
+	it('should count the agents of tickets started before against the limit', async () => {
+		mockAssignAgents.mockResolvedValueOnce(agents(3)).mockResolvedValueOnce(agents(2));
+		mockCheckSpawnLimits.mockImplementation(({ agentCount }) =>
+			Promise.resolve(agentCount <= 4 ? { allowed: true } : { allowed: false, reason: 'Agent limit exceeded' })
+		);
+		mockGetLimits.mockResolvedValue({ maxCpu: 4, maxMemory: 4096, maxAgents: 4, maxSwarms: 0 });
+
+		const decision = await scheduleUnblockedTickets('project-1');
+
+		expect(mockCheckSpawnLimits).toHaveBeenNthCalledWith(2, { projectId: 'project-1', agentCount: 5 });
+		expect(decision.startable).toEqual(['high']);
+		// Lower-priority tickets wait rather than jumping the queue
+		expect(decision.deferred).toEqual([
+			{ ticketId: 'high-later', reason: 'Agent limit exceeded' },
+			{ ticketId: 'low', reason: 'Agent limit exceeded' }
+		]);
+	});
+
+	it('should not limit starts when maxSwarms is unlimited', async () => {
+		mockGetLimits.mockResolvedValue({ maxCpu: 4, maxMemory: 4096, maxAgents: 5, maxSwarms: 0 });
+		mockPrisma.ticket.count.mockResolvedValue(7);
+
+		const decision = await scheduleUnblockedTickets('project-1');
+
+		expect(decision.startable).toEqual(['high', 'high-later', 'low']);
+	});
+});
@@ -0,0 +1,246 @@
+/**
+ * Unit Tests for Job Recovery on Server Boot
+ *
+ * Tests orphan detection, re-queueing of interrupted jobs and
+ * re-attachment of completion tracking for IN_PROGRESS tickets.
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+
+const { mockPrisma, mockResumeTracking, mockKillProcessTree, mockWaitForProcessTreeExit } = vi.hoisted(() => ({
+	mockPrisma: {
+		ticket: { findMany: vi.fn() },
+		ticketHistory: { findFirst: vi.fn() }
+	},
+	mockResumeTracking: vi.fn(),
+	mockKillProcessTree: vi.fn(),
+	mockWaitForProcessTreeExit: vi.fn()
+}));
+
+vi.mock('$lib/server/prisma', () => ({ prisma: mockPrisma }));
+
+vi.mock('$lib/server/claude-flow/cli', () => ({
+	claudeFlowCLI: { execute: vi.fn() },
+	KILL_GRACE_PERIOD_MS: 5000,
+	killProcessTree: mockKillProcessTree,
+	waitForProcessTreeExit: mockWaitForProcessTreeExit,
+	resolveCLICommand: () => ({ command: 'npx', args: ['@claude-flow/cli@latest'] })
+}));
+
+vi.mock('$lib/server/workflow/job-completion-tracker', () => ({
+	resumeTracking: mockResumeTracking
+}));
+
+import { CommandExecutor } from '$lib/server/claude-flow/executor';
+import type { JobStore, PersistedJob } from '$lib/server/claude-flow/job-store';
+import {
+	recoverExecutionJobs,
+	isJobProcess,
+	MAX_JOB_ATTEMPTS,
+	ORPHAN_EXIT_TIMEOUT_MS,
+	type ProcessInfo
+} from '$lib/server/workflow/job-recovery';
+
+const JOB_STARTED_AT = '2026-01-01T10:00:00.000Z';
+
+/** The CLI process of a job started at JOB_STARTED_AT */
+const cliProcess: ProcessInfo = {
+	startedAt: new Date('2026-01-01T10:00:01Z'),
+	commandLine: '/bin/sh -c npx @claude-flow/cli@latest agent spawn --type coder'
+};
+
+function job(overrides: Partial<PersistedJob>): PersistedJob {
+	return {
+		id: 'job-1',
+		command: 'agent',
+		args: [],
+		options: {},
+		priority: 'normal',
+		status: 'pending',
+		attempts: 0,
+		createdAt: new Date('2026-01-01T00:00:00Z').toISOString(),
+		...overrides
+	};
+}
+
+function createStore(unfinished: PersistedJob[], byTicket: PersistedJob[] = []) {
+	return {
+		create: vi.fn().mockResolvedValue(undefined),
+		update: vi.fn().mockResolvedValue(undefined),
+		findUnfinished: vi.fn().mockResolvedValue(unfinished),
+		findByTicket: vi.fn().mockResolvedValue(byTicket)
+	} satisfies JobStore;
+}
+
+describe('recoverExecutionJobs', () => {
+	let executor: CommandExecutor;
+	let killSpy: ReturnType<typeof vi.spyOn>;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		executor = new CommandExecutor({ autoStart: false });
+		executor.setMaxConcurrent(0);
+		killSpy = vi.spyOn(process, 'kill').mockImplementation(() => true);
+		mockPrisma.ticket.findMany.mockResolvedValue([]);
+		mockPrisma.ticketHistory.findFirst.mockResolvedValue(null);
+		mockKillProcessTree.mockReturnValue(true);
+		mockWaitForProcessTreeExit.mockResolvedValue(true);
+	});
+
+	afterEach(() => {
+		executor.stopProcessing();
+		vi.restoreAllMocks();
+	});
+
+	it('should wire the store into the executor and re-queue pending jobs', async () => {
+		const store = createStore([job({ id: 'job-pending' })]);
+
+		const result = await recoverExecutionJobs(store, executor);
+
+		expect(result.requeued).toEqual(['job-pending']);
+		expect(executor.getJobStatus('job-pending')).toBe('pending');
+
+		executor.submit({ id: 'job-new', command: 'test' });
+		await executor.flushStore();
+		expect(store.create).toHaveBeenCalledWith(expect.objectContaining({ id: 'job-new' }));
+	});
+
+	it('should terminate orphaned process trees and re-queue interrupted jobs', async () => {
+		const store = createStore([
+			job({ id: 'job-running', status: 'running', pid: 1234, attempts: 1, startedAt: JOB_STARTED_AT })
+		]);
+		const inspect = vi.fn().mockResolvedValue(cliProcess);
+
+		const result = await recoverExecutionJobs(store, executor, inspect);
+
+		expect(killSpy).toHaveBeenCalledWith(1234, 0);
+		expect(inspect).toHaveBeenCalledWith(1234);
+		expect(mockKillProcessTree).toHaveBeenCalledWith(1234);
+		expect(mockWaitForProcessTreeExit).toHaveBeenCalledWith(1234, 5000 + ORPHAN_EXIT_TIMEOUT_MS);
+		expect(result.orphansKilled).toEqual([1234]);
+		expect(store.update).toHaveBeenCalledWith('job-running', { status: 'pending', pid: undefined });
+		expect(result.requeued).toEqual(['job-running']);
+	});
+
+	it('should not re-queue a job until its orphaned process tree has exited', async () => {
+		let exit: (exited: boolean) => void = () => {};
+		mockWaitForProcessTreeExit.mockReturnValue(new Promise((resolve) => (exit = resolve)));
+		const store = createStore([
+			job({ id: 'job-running', status: 'running', pid: 1234, attempts: 1, startedAt: JOB_STARTED_AT })
+		]);
+
+		const recovery = recoverExecutionJobs(store, executor, vi.fn().mockResolvedValue(cliProcess));
+		await vi.waitFor(() => expect(mockWaitForProcessTreeExit).toHaveBeenCalled());
+		expect(store.update).not.toHaveBeenCalled();
+
+		exit(true);
+		const result = await recovery;
+		expect(result.requeued).toEqual(['job-running']);
+	});
+
+	it('should fail jobs whose orphaned process tree does not exit', async () => {
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		mockWaitForProcessTreeExit.mockResolvedValue(false);
+		const store = createStore([
+			job({ id: 'job-running', status: 'running', pid: 1234, attempts: 1, startedAt: JOB_STARTED_AT })
+		]);
+
+		const result = await recoverExecutionJobs(store, executor, vi.fn().mockResolvedValue(cliProcess));
+
+		expect(result.orphansKilled).toEqual([]);
+		expect(result.requeued).toEqual([]);
+		expect(result.failed).toEqual(['job-running']);
+		expect(store.update).toHaveBeenCalledWith(
+			'job-running',
+			expect.objectContaining({
+				status: 'failed',
+				error: 'Orphaned process 1234 did not exit after a server restart'
+			})
+		);
+	});
+
+	it('should not kill processes that are no longer alive', async () => {
+		killSpy.mockImplementation(() => {
+			throw Object.assign(new Error('no such process'), { code: 'ESRCH' });
+		});
+		const store = createStore([job({ id: 'job-running', status: 'running', pid: 1234, attempts: 1 })]);
+
+		const result = await recoverExecutionJobs(store, executor, vi.fn());
+
+		expect(mockKillProcessTree).not.toHaveBeenCalled();
+		expect(result.orphansKilled).toEqual([]);
+		expect(result.requeued).toEqual(['job-running']);
+	});
+
+	it('should leave alone processes that reused the PID of an interrupted job', async () => {
+		const store = createStore([
+			job({ id: 'job-running', status: 'running', pid: 1234, attempts: 1, startedAt: JOB_STARTED_AT })
+		]);
+		const inspect = vi.fn().mockResolvedValue({ ...cliProcess, commandLine: 'postgres: checkpointer' });
+
+		const result = await recoverExecutionJobs(store, executor, inspect);
+
+		expect(mockKillProcessTree).not.toHaveBeenCalled();
+		expect(result.orphansKilled).toEqual([]);
+		expect(result.requeued).toEqual(['job-running']);
+	});
+
+	it('should fail jobs that exceeded the maximum attempts', async () => {
+		const store = createStore([
+			job({ id: 'job-flaky', status: 'running', attempts: MAX_JOB_ATTEMPTS })
+		]);
+
+		const result = await recoverExecutionJobs(store, executor);
+
+		expect(result.failed).toEqual(['job-flaky']);
+		expect(result.requeued).toEqual([]);
+		expect(store.update).toHaveBeenCalledWith(
+			'job-flaky',
+			expect.objectContaining({ status: 'failed' })
+		);
+	});
+
+	it('should re-attach tracking for tickets still IN_PROGRESS', async () => {
+		const startedAt = new Date('2026-01-01T00:00:00Z');
+		const store = createStore(
+			[],
+			[job({ id: 'job-a', status: 'completed' }), job({ id: 'job-b', status: 'pending' })]
+		);
+		mockPrisma.ticket.findMany.mockResolvedValue([{ id: 'ticket-1', projectId: 'project-1' }]);
+		mockPrisma.ticketHistory.findFirst.mockResolvedValue({ createdAt: startedAt });
+
+		const result = await recoverExecutionJobs(store, executor);
+
+		expect(store.findByTicket).toHaveBeenCalledWith('ticket-1', startedAt);
+		expect(mockResumeTracking).toHaveBeenCalledWith('ticket-1', 'project-1', [
+			{ id: 'job-a', status: 'completed', error: undefined },
+			{ id: 'job-b', status: 'pending', error: undefined }
+		]);
+		expect(result.reattachedTickets).toEqual(['ticket-1']);
+	});
+
+	it('should skip IN_PROGRESS tickets without persisted jobs', async () => {
+		const store = createStore([]);
+		mockPrisma.ticket.findMany.mockResolvedValue([{ id: 'ticket-1', projectId: 'project-1' }]);
+
+		const result = await recoverExecutionJobs(store, executor);
+
+		expect(mockResumeTracking).not.toHaveBeenCalled();
+		expect(result.reattachedTickets).toEqual([]);
+	});
+});
+
+describe('isJobProcess', () => {
+	it('should accept the CLI process started with the job', () => {
+		expect(isJobProcess(cliProcess, { startedAt: JOB_STARTED_AT })).toBe(true);
+	});
+
+	it('should reject processes started long before or after the job', () => {
+		const later = { ...cliProcess, startedAt: new Date('2026-01-01T11:00:00Z') };
+
+		expect(isJobProcess(later, { startedAt: JOB_STARTED_AT })).toBe(false);
+		expect(isJobProcess(cliProcess, { startedAt: undefined })).toBe(false);
+	});
+});
@@ -0,0 +1,311 @@
+/**
+ * Unit Tests for Transition Guards and Automation Rules
+ *
+ * Tests rule validation, guard evaluation inside the transition
+ * transaction, automation actions, dry runs and timeInState rules.
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+
+const { mockPrisma, mockDispatch } = vi.hoisted(() => {
+	const mockPrisma = {
+		project: { findMany: vi.fn() },
+		ticket: { findUnique: vi.fn(), findMany: vi.fn(), update: vi.fn() },
+		ticketQuestion: { count: vi.fn() },
+		ticketHistory: { create: vi.fn(), findFirst: vi.fn() },
+		ticketRuleRun: { create: vi.fn(), findFirst: vi.fn() },
+		ticketFieldChange: { createMany: vi.fn() },
+		$transaction: vi.fn()
+	};
+	mockPrisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(mockPrisma));
+	return { mockPrisma, mockDispatch: vi.fn() };
+});
+
+vi.mock('$lib/server/prisma', () => ({ prisma: mockPrisma }));
+
+vi.mock('$lib/server/notifications/notification-service', () => ({
+	notificationService: { dispatch: mockDispatch }
+}));
+
+import { DEFAULT_WORKFLOW } from '$lib/state-machine/workflow';
+import { TransitionBlockedError } from '$lib/state-machine/types';
+import { validateProjectRules, type ProjectRules } from '$lib/state-machine/rules';
+import { TicketStateMachine } from '$lib/state-machine/ticket-state-machine';
+import { RulesEngine, formatRulesReason } from '$lib/server/workflow/rules-engine';
+
+const rules: ProjectRules = {
+	guards: [
+		{
+			id: 'review-ready',
+			name: 'Ready for review',
+			to: 'REVIEW',
+			conditions: [{ type: 'requiredQuestionsAnswered' }, { type: 'dependenciesComplete' }]
+		}
+	],
+	automations: [
+		{
+			id: 'on-done',
+			name: 'Release dependents',
+			trigger: { type: 'enter', state: 'DONE' },
+			actions: [{ type: 'unblockDependents' }, { type: 'notifyAssignee' }]
+		},
+		{
+			id: 'stale-feedback',
+			name: 'Escalate stale feedback',
+			trigger: { type: 'timeInState', state: 'NEEDS_FEEDBACK', hours: 24 },
+			actions: [{ type: 'escalatePriority' }]
+		}
+	]
+};
+
+function ticket(overrides: Record<string, unknown> = {}) {
+	return {
+		id: 'ticket-1',
+		projectId: 'project-1',
+		title: 'Add login',
+		status: 'IN_PROGRESS',
+		workflowState: null,
+		priority: 'MEDIUM',
+		labels: [],
+		assignedToId: 'user-1',
+		dependencyIds: [],
+		createdAt: new Date('2026-01-01T00:00:00Z'),
+		project: { settings: { rules } },
+		...overrides
+	};
+}
+
+describe('validateProjectRules', () => {
+	it('should accept a valid rule set', () => {
+		expect(validateProjectRules(rules, DEFAULT_WORKFLOW)).toEqual({ valid: true, errors: [] });
+	});
+
+	it('should reject unknown states, conditions and actions', () => {
+		const result = validateProjectRules(
+			{
+				guards: [{ id: 'g', name: 'G', to: 'QA', conditions: [{ type: 'isFriday' } as never] }],
+				automations: [
+					{
+						id: 'g',
+						name: 'A',
+						trigger: { type: 'timeInState', state: 'TODO', hours: 0 },
+						actions: [{ type: 'deleteTicket' } as never]
+					}
+				]
+			},
+			DEFAULT_WORKFLOW
+		);
+
+		expect(result.valid).toBe(false);
+		expect(result.errors).toEqual([
+			'Guard "G": unknown state "QA"',
+			'Guard "G": unknown condition "isFriday"',
+			'Duplicate rule id "g"',
+			'Automation "A": timeInState requires a positive number of hours',
+			'Automation "A": unknown action "deleteTicket"'
+		]);
+	});
+});
+
+describe('TicketStateMachine with rules', () => {
+	let stateMachine: TicketStateMachine;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		stateMachine = new TicketStateMachine();
+		mockPrisma.ticketQuestion.count.mockResolvedValue(0);
+		mockPrisma.ticket.findMany.mockResolvedValue([]);
+		mockPrisma.ticketHistory.create.mockImplementation(({ data }) => Promise.resolve({ id: 'h-1', ...data }));
+		mockPrisma.ticket.update.mockImplementation(({ where, data }) => Promise.resolve({ id: where.id, ...data }));
+	});
+
+	it('should block a transition when a guard fails', async () => {
+		mockPrisma.ticket.findUnique.mockResolvedValue(ticket());
+		mockPrisma.ticketQuestion.count.mockResolvedValue(2);
+
+		const promise = stateMachine.transition('ticket-1', 'REVIEW', { triggeredBy: 'agent' });
+
+		await expect(promise).rejects.toThrow(TransitionBlockedError);
+		await expect(promise).rejects.toMatchObject({
+			failedGuards: [expect.objectContaining({ guardId: 'review-ready' })]
+		});
+		expect(mockPrisma.ticketHistory.create).not.toHaveBeenCalled();
+	});
+
+	it('should record passed guards in the history reason', async () => {
+		mockPrisma.ticket.findUnique.mockResolvedValue(ticket());
+
+		const { history } = await stateMachine.transitionWithHistory('ticket-1', 'REVIEW', {
+			triggeredBy: 'agent',
+			reason: 'All jobs completed'
+		});
+
+		expect(history.reason).toBe('All jobs completed [Rules: guard "Ready for review" passed]');
+	});
+
+	it('should apply automations inside the transaction and notify after commit', async () => {
+		mockPrisma.ticket.findUnique.mockResolvedValue(ticket({ status: 'REVIEW' }));
+		mockPrisma.ticket.findMany
+			.mockResolvedValueOnce([
+				{ id: 'ticket-2', title: 'Add logout', assignedToId: 'user-2', dependencyIds: ['ticket-1', 'ticket-9'] },
+				{ id: 'ticket-3', title: 'Docs', assignedToId: 'user-3', dependencyIds: [] },
+				{ id: 'ticket-4', title: 'Add SSO', assignedToId: 'user-4', dependencyIds: ['ticket-1', 'ticket-8'] }
+			])
+			// Other dependencies that are DONE
+			.mockResolvedValueOnce([{ id: 'ticket-9' }]);
+
+		const { history } = await stateMachine.transitionWithHistory('ticket-1', 'DONE', {
+			triggeredBy: 'user'
+		});
+
+		// Dependency links are kept for the scheduler and plans
+		expect(mockPrisma.ticket.update).not.toHaveBeenCalledWith(
+			expect.objectContaining({ data: expect.objectContaining({ dependencyIds: expect.anything() }) })
+		);
+		expect(history.reason).toBe(
+			'Rules: "Release dependents": unblocked 1 dependent(s), notified assignee'
+		);
+		expect(mockDispatch).toHaveBeenCalledWith(
+			expect.objectContaining({
+				recipientIds: ['user-1'],
+				eventType: 'TICKET_STATUS_CHANGED',
+				entityId: 'ticket-1'
+			})
+		);
+		// Only the assignee of the dependent with no open dependency left
+		expect(mockDispatch).toHaveBeenCalledWith(
+			expect.objectContaining({
+				recipientIds: ['user-2'],
+				eventType: 'TICKET_COMPLETED',
+				entityId: 'ticket-2',
+				message: '"Add logout" is ready to start: "Add login" moved from REVIEW to DONE'
+			})
+		);
+		expect(mockDispatch).toHaveBeenCalledTimes(2);
+	});
+
+	it('should not dispatch notifications when the transaction fails', async () => {
+		mockPrisma.ticket.findUnique.mockResolvedValue(ticket({ status: 'REVIEW' }));
+		mockPrisma.ticketHistory.create.mockRejectedValue(new Error('db down'));
+
+		await expect(
+			stateMachine.transition('ticket-1', 'DONE', { triggeredBy: 'user' })
+		).rejects.toThrow('db down');
+		expect(mockDispatch).not.toHaveBeenCalled();
+	});
+
+	it('should preview a blocked transition without writing', async () => {
+		mockPrisma.ticket.findUnique.mockResolvedValue(ticket({ dependencyIds: ['ticket-0'] }));
+		mockPrisma.ticket.findMany.mockResolvedValue([{ id: 'ticket-0', title: 'Schema', status: 'TODO' }]);
+
+		const preview = await stateMachine.previewTransition('ticket-1', 'REVIEW', { triggeredBy: 'user' });
+
+		expect(preview).toMatchObject({ from: 'IN_PROGRESS', to: 'REVIEW', valid: true, permitted: true, allowed: false });
+		expect(preview.rules.guards[0].message).toBe('Blocked by "Schema" (TODO)');
+		expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+		expect(mockPrisma.ticket.update).not.toHaveBeenCalled();
+	});
+
+	it('should preview an invalid transition', async () => {
+		mockPrisma.ticket.findUnique.mockResolvedValue(ticket());
+
+		const preview = await stateMachine.previewTransition('ticket-1', 'BACKLOG', { triggeredBy: 'user' });
+
+		expect(preview.valid).toBe(false);
+		expect(preview.allowed).toBe(false);
+	});
+});
+
+describe('RulesEngine.runTimedRules', () => {
+	let engine: RulesEngine;
+	const now = new Date('2026-01-03T00:00:00Z');
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		engine = new RulesEngine();
+		mockPrisma.project.findMany.mockResolvedValue([{ id: 'project-1', settings: { rules } }]);
+		mockPrisma.ticket.findMany.mockResolvedValue([ticket({ status: 'NEEDS_FEEDBACK' })]);
+		mockPrisma.ticketQuestion.count.mockResolvedValue(0);
+		mockPrisma.ticketHistory.create.mockResolvedValue({});
+		mockPrisma.ticketRuleRun.create.mockResolvedValue({});
+		mockPrisma.ticketRuleRun.findFirst.mockResolvedValue(null);
+		mockPrisma.ticket.update.mockResolvedValue({});
+	});
+
+	afterEach(() => {
+		engine.stopScheduler();
+		vi.restoreAllMocks();
+	});
+
+	it('should escalate tickets that have been in the state long enough', async () => {
+		mockPrisma.ticketHistory.findFirst.mockResolvedValueOnce({
+			createdAt: new Date('2026-01-01T12:00:00Z')
+		});
+
+		const fired = await engine.runTimedRules(now);
+
+		expect(fired).toBe(1);
+		expect(mockPrisma.ticket.findMany).toHaveBeenCalledWith({
+			where: { projectId: 'project-1', status: 'NEEDS_FEEDBACK', workflowState: null }
+		});
+		expect(mockPrisma.ticket.update).toHaveBeenCalledWith({
+			where: { id: 'ticket-1' },
+			data: { priority: 'HIGH' }
+		});
+		expect(mockPrisma.ticketFieldChange.createMany).toHaveBeenCalledWith({
+			data: [
+				expect.objectContaining({
+					field: 'priority',
+					oldValue: 'MEDIUM',
+					newValue: 'HIGH',
+					triggeredBy: 'rule:stale-feedback'
+				})
+			]
+		});
+		expect(mockPrisma.ticketRuleRun.create).toHaveBeenCalledWith({
+			data: {
+				ticketId: 'ticket-1',
+				ruleId: 'stale-feedback',
+				state: 'NEEDS_FEEDBACK',
+				summary: '"Escalate stale feedback": priority MEDIUM → HIGH'
+			}
+		});
+		expect(mockPrisma.ticketHistory.create).not.toHaveBeenCalled();
+	});
+
+	it('should not fire before the time has elapsed', async () => {
+		mockPrisma.ticketHistory.findFirst.mockResolvedValueOnce({
+			createdAt: new Date('2026-01-02T12:00:00Z')
+		});
+
+		expect(await engine.runTimedRules(now)).toBe(0);
+		expect(mockPrisma.ticket.update).not.toHaveBeenCalled();
+	});
+
+	it('should fire only once per visit to the state', async () => {
+		mockPrisma.ticketHistory.findFirst.mockResolvedValueOnce({
+			createdAt: new Date('2026-01-01T12:00:00Z')
+		});
+		mockPrisma.ticketRuleRun.findFirst.mockResolvedValueOnce({ id: 'run-earlier' });
+
+		expect(await engine.runTimedRules(now)).toBe(0);
+		expect(mockPrisma.ticketRuleRun.findFirst).toHaveBeenCalledWith({
+			where: {
+				ticketId: 'ticket-1',
+				ruleId: 'stale-feedback',
+				createdAt: { gte: new Date('2026-01-01T12:00:00Z') }
+			},
+			select: { id: true }
+		});
+		expect(mockPrisma.ticketRuleRun.create).not.toHaveBeenCalled();
+	});
+});
+
+describe('formatRulesReason', () => {
+	it('should leave the reason untouched when no rules applied', () => {
+		expect(formatRulesReason('Manual move', { allowed: true, guards: [], automations: [] })).toBe(
+			'Manual move'
+		);
+	});
+});
@@ -0,0 +1,204 @@
+/**
+ * Unit Tests for Ticket Change Sets
+ *
+ * Tests diff parsing and capturing a ticket branch's changes from a
+ * temporary repository.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+const { mockPrisma } = vi.hoisted(() => ({
+	mockPrisma: {
+		ticket: { update: vi.fn() },
+		ticketChangeSet: {
+			create: vi.fn(),
+			findFirst: vi.fn(),
+			update: vi.fn()
+		}
+	}
+}));
+
+vi.mock('$lib/server/prisma', () => ({ prisma: mockPrisma }));
+
+import {
+	captureTicketChangeSet,
+	parseUnifiedDiff,
+	recordChangeSetReview,
+	summarizeChanges
+} from '$lib/server/workflow/ticket-changes';
+import { prepareTicketWorkspace } from '$lib/server/workflow/ticket-workspace';
+
+function git(cwd: string, ...args: string[]): string {
+	return execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim();
+}
+
+const SAMPLE_DIFF = [
+	'diff --git a/src/app.ts b/src/app.ts',
+	'index 1111111..2222222 100644',
+	'--- a/src/app.ts',
+	'+++ b/src/app.ts',
+	'@@ -1,3 +1,3 @@ export function main() {',
+	' const a = 1;',
+	'--- old comment',
+	'+const b = 2;',
+	' main();',
+	'diff --git a/docs/new.md b/docs/new.md',
+	'new file mode 100644',
+	'index 0000000..3333333',
+	'--- /dev/null',
+	'+++ b/docs/new.md',
+	'@@ -0,0 +1,2 @@',
+	'+# New',
+	'+',
+	'\\ No newline at end of file',
+	'diff --git a/old.txt b/renamed.txt',
+	'similarity index 100%',
+	'rename from old.txt',
+	'rename to renamed.txt',
+	'diff --git a/logo.png b/logo.png',
+	'deleted file mode 100644',
+	'Binary files a/logo.png and /dev/null differ',
+	''
+].join('\n');
+
+describe('parseUnifiedDiff', () => {
+	it('should parse files, statuses and hunks', () => {
+		const files = parseUnifiedDiff(SAMPLE_DIFF);
+
+		expect(files.map((f) => [f.path, f.status])).toEqual([
+			['src/app.ts', 'modified'],
+			['docs/new.md', 'added'],
+			['renamed.txt', 'renamed'],
+			['logo.png', 'deleted']
+		]);
+
+		expect(files[0]).toMatchObject({ additions: 1, deletions: 1 });
+		expect(files[0].hunks).toHaveLength(1);
+		expect(files[0].hunks[0]).toMatchObject({ oldStart: 1, newStart: 1 });
+		// A removed line starting with "--" is content, not a file header
+		expect(files[0].hunks[0].lines).toContain('--- old comment');
+
+		expect(files[1]).toMatchObject({ additions: 2, deletions: 0 });
+		expect(files[2].oldPath).toBe('old.txt');
+		expect(files[3].binary).toBe(true);
+	});
+
+	it('should sum up the stats', () => {
+		expect(summarizeChanges(parseUnifiedDiff(SAMPLE_DIFF))).toEqual({
+			files: 4,
+			additions: 3,
+			deletions: 1
+		});
+	});
+
+	it('should return no files for an empty diff', () => {
+		expect(parseUnifiedDiff('')).toEqual([]);
+	});
+});
+
+describe('captureTicketChangeSet', () => {
+	let repo: string;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockPrisma.ticketChangeSet.create.mockImplementation(async ({ data }) => ({ id: 'cs-1', ...data }));
+
+		repo = mkdtempSync(path.join(tmpdir(), 'ticket-changes-'));
+		git(repo, 'init', '-q');
+		git(repo, 'config', 'user.email', 'test@example.com');
+		git(repo, 'config', 'user.name', 'Test');
+		writeFileSync(path.join(repo, 'README.md'), '# test\n');
+		git(repo, 'add', '.');
+		git(repo, 'commit', '-q', '-m', 'init');
+	});
+
+	afterEach(() => {
+		rmSync(repo, { recursive: true, force: true });
+	});
+
+	it('should capture committed, modified and untracked changes in the worktree', async () => {
+		const workspace = await prepareTicketWorkspace({
+			id: 'ticket-1',
+			title: 'Add search',
+			project: { workspacePath: repo }
+		});
+
+		writeFileSync(path.join(workspace!.path, 'search.ts'), 'export const search = 1;\n');
+		git(workspace!.path, 'add', 'search.ts');
+		git(workspace!.path, 'commit', '-q', '-m', 'add search');
+		writeFileSync(path.join(workspace!.path, 'README.md'), '# search\n');
+		writeFileSync(path.join(workspace!.path, 'notes.md'), 'todo\n');
+
+		const changeSet = await captureTicketChangeSet({
+			id: 'ticket-1',
+			branchName: workspace!.branch,
+			worktreePath: workspace!.path,
+			project: { workspacePath: repo }
+		});
+
+		expect(changeSet!.branch).toBe(workspace!.branch);
+		expect(changeSet!.baseCommit).toBe(git(repo, 'rev-parse', 'HEAD'));
+		expect(changeSet!.headCommit).toBe(git(workspace!.path, 'rev-parse', 'HEAD'));
+		expect(changeSet!.files.map((f) => [f.path, f.status]).sort()).toEqual([
+			['README.md', 'modified'],
+			['notes.md', 'added'],
+			['search.ts', 'added']
+		]);
+		expect(changeSet!.stats).toEqual({ files: 3, additions: 3, deletions: 1 });
+		expect(changeSet!.truncated).toBe(false);
+		expect(mockPrisma.ticketChangeSet.create).toHaveBeenCalledWith({
+			data: expect.objectContaining({ ticketId: 'ticket-1', branch: workspace!.branch })
+		});
+	});
+
+	it('should diff the branch when its worktree is gone', async () => {
+		git(repo, 'checkout', '-q', '-b', 'ticket/t-2');
+		writeFileSync(path.join(repo, 'export.ts'), 'export {};\n');
+		git(repo, 'add', '.');
+		git(repo, 'commit', '-q', '-m', 'add export');
+		git(repo, 'checkout', '-q', '-');
+
+		const changeSet = await captureTicketChangeSet({
+			id: 'ticket-2',
+			branchName: 'ticket/t-2',
+			worktreePath: null,
+			project: { workspacePath: repo }
+		});
+
+		expect(changeSet!.files.map((f) => f.path)).toEqual(['export.ts']);
+		expect(changeSet!.headCommit).toBe(git(repo, 'rev-parse', 'ticket/t-2'));
+	});
+
+	it('should skip tickets without a branch', async () => {
+		expect(
+			await captureTicketChangeSet({ id: 'ticket-3', project: { workspacePath: repo } })
+		).toBeNull();
+		expect(mockPrisma.ticketChangeSet.create).not.toHaveBeenCalled();
+	});
+});
+
+describe('recordChangeSetReview', () => {
+	it('should store the decision and comments', async () => {
+		mockPrisma.ticketChangeSet.update.mockResolvedValue({ id: 'cs-1' });
+
+		await recordChangeSetReview('cs-1', {
+			decision: 'request-changes',
+			comments: 'Handle empty queries',
+			reviewedById: 'user-1'
+		});
+
+		expect(mockPrisma.ticketChangeSet.update).toHaveBeenCalledWith({
+			where: { id: 'cs-1' },
+			data: expect.objectContaining({
+				reviewStatus: 'changes_requested',
+				reviewComments: 'Handle empty queries',
+				reviewedById: 'user-1',
+				reviewedAt: expect.any(Date)
+			})
+		});
+	});
+});
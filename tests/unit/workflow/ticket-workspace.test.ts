@@ -0,0 +1,146 @@
+/**
+ * Unit Tests for Ticket Workspaces
+ *
+ * Tests branch naming and creating/removing per-ticket git worktrees
+ * against a temporary repository.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { execFileSync } from 'child_process';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+const { mockPrisma } = vi.hoisted(() => ({
+	mockPrisma: {
+		ticket: { update: vi.fn() }
+	}
+}));
+
+vi.mock('$lib/server/prisma', () => ({ prisma: mockPrisma }));
+
+import {
+	getTicketBranchName,
+	prepareTicketWorkspace,
+	releaseTicketWorkspace
+} from '$lib/server/workflow/ticket-workspace';
+
+function git(cwd: string, ...args: string[]): string {
+	return execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim();
+}
+
+describe('getTicketBranchName', () => {
+	it('should combine a short ID and a slug of the title', () => {
+		expect(getTicketBranchName({ id: 'clx1a2b3c4d5', title: 'Fix: login redirect (SSO)!' })).toBe(
+			'ticket/clx1a2b3-fix-login-redirect-sso'
+		);
+	});
+
+	it('should fall back to the ID when the title has no usable characters', () => {
+		expect(getTicketBranchName({ id: 'clx1a2b3c4d5', title: '???' })).toBe('ticket/clx1a2b3');
+	});
+});
+
+describe('ticket worktrees', () => {
+	let repo: string;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		repo = mkdtempSync(path.join(tmpdir(), 'ticket-workspace-'));
+		git(repo, 'init', '-q');
+		git(repo, 'config', 'user.email', 'test@example.com');
+		git(repo, 'config', 'user.name', 'Test');
+		writeFileSync(path.join(repo, 'README.md'), '# test\n');
+		git(repo, 'add', '.');
+		git(repo, 'commit', '-q', '-m', 'init');
+	});
+
+	afterEach(() => {
+		rmSync(repo, { recursive: true, force: true });
+	});
+
+	function ticket(overrides: Record<string, unknown> = {}) {
+		return {
+			id: 'ticket-1',
+			title: 'Add search',
+			project: { workspacePath: repo },
+			...overrides
+		};
+	}
+
+	it('should create a worktree on a new branch and record it', async () => {
+		const workspace = await prepareTicketWorkspace(ticket());
+
+		expect(workspace).toEqual({
+			path: path.join(git(repo, 'rev-parse', '--show-toplevel'), '.worktrees', 'ticket-1'),
+			branch: 'ticket/ticket-1-add-search'
+		});
+		expect(git(workspace!.path, 'rev-parse', '--abbrev-ref', 'HEAD')).toBe('ticket/ticket-1-add-search');
+		expect(mockPrisma.ticket.update).toHaveBeenCalledWith({
+			where: { id: 'ticket-1' },
+			data: { branchName: 'ticket/ticket-1-add-search', worktreePath: workspace!.path }
+		});
+
+		// Worktrees do not show up in the main checkout
+		expect(git(repo, 'status', '--porcelain')).toBe('');
+		expect(readFileSync(path.join(repo, '.git', 'info', 'exclude'), 'utf-8')).toContain('/.worktrees/');
+	});
+
+	it('should give concurrent tickets separate checkouts', async () => {
+		const first = await prepareTicketWorkspace(ticket());
+		const second = await prepareTicketWorkspace(ticket({ id: 'ticket-2', title: 'Add export' }));
+
+		writeFileSync(path.join(first!.path, 'search.ts'), 'export {};\n');
+
+		expect(second!.path).not.toBe(first!.path);
+		expect(existsSync(path.join(second!.path, 'search.ts'))).toBe(false);
+	});
+
+	it('should reuse an existing branch and worktree', async () => {
+		const first = await prepareTicketWorkspace(ticket());
+		const again = await prepareTicketWorkspace(ticket({ branchName: first!.branch }));
+		expect(again).toEqual(first);
+
+		await releaseTicketWorkspace(ticket({ worktreePath: first!.path }));
+		const recreated = await prepareTicketWorkspace(ticket({ branchName: first!.branch }));
+		expect(recreated).toEqual(first);
+	});
+
+	it('should remove the worktree but keep the branch', async () => {
+		const workspace = await prepareTicketWorkspace(ticket());
+		vi.clearAllMocks();
+
+		const removed = await releaseTicketWorkspace(ticket({ worktreePath: workspace!.path }));
+
+		expect(removed).toBe(true);
+		expect(existsSync(workspace!.path)).toBe(false);
+		expect(git(repo, 'branch', '--list', workspace!.branch)).toContain(workspace!.branch);
+		expect(mockPrisma.ticket.update).toHaveBeenCalledWith({
+			where: { id: 'ticket-1' },
+			data: { worktreePath: null }
+		});
+	});
+
+	it('should keep a worktree with uncommitted changes', async () => {
+		const workspace = await prepareTicketWorkspace(ticket());
+		writeFileSync(path.join(workspace!.path, 'search.ts'), 'export const search = 1;\n');
+		vi.clearAllMocks();
+
+		const removed = await releaseTicketWorkspace(ticket({ worktreePath: workspace!.path }));
+
+		expect(removed).toBe(false);
+		expect(readFileSync(path.join(workspace!.path, 'search.ts'), 'utf-8')).toContain('search');
+		expect(mockPrisma.ticket.update).not.toHaveBeenCalled();
+	});
+
+	it('should skip projects whose workspace is not a git repository', async () => {
+		const plain = mkdtempSync(path.join(tmpdir(), 'ticket-workspace-plain-'));
+		try {
+			expect(await prepareTicketWorkspace(ticket({ project: { workspacePath: plain } }))).toBeNull();
+			expect(await prepareTicketWorkspace(ticket({ project: { workspacePath: null } }))).toBeNull();
+			expect(mockPrisma.ticket.update).not.toHaveBeenCalled();
+		} finally {
+			rmSync(plain, { recursive: true, force: true });
+		}
+	});
+});